@@ -0,0 +1,192 @@
+/**
+ * USSD simulator CLI, a client of the /ussd/simulator API.
+ *
+ * Interactive session:
+ *   npm run ussd:simulate -- +250788123456
+ * Replay scenarios, exits with 1 when one fails:
+ *   npm run ussd:simulate -- --replay scenarios.json
+ *
+ * A scenario file holds a list of replays:
+ *   [{ "name": "Cancel payment", "phoneNumber": "+250788123456",
+ *      "inputs": ["", "1", "1234", "1", "1", "2"],
+ *      "expectedState": "END", "expectedMessage": "Payment cancelled." }]
+ *
+ * Environment:
+ *   USSD_SIMULATOR_URL    API base URL (default http://localhost:3000/api/v1)
+ *   USSD_SIMULATOR_TOKEN  Super admin access token, or
+ *   USSD_SIMULATOR_PHONE and USSD_SIMULATOR_PIN to log in
+ */
+import { readFileSync } from 'fs';
+import { createInterface } from 'readline/promises';
+
+interface Screen {
+  sessionId: string;
+  step: number;
+  input: string;
+  message: string;
+  sessionState: 'CON' | 'END';
+  inputs: string[];
+}
+
+interface ReplayScenario {
+  name?: string;
+  phoneNumber: string;
+  inputs: string[];
+  expectedState?: 'CON' | 'END';
+  expectedMessage?: string;
+  expectedContains?: string;
+}
+
+interface ReplayResult {
+  passed: boolean;
+  failures: string[];
+  screens: Screen[];
+}
+
+const baseUrl = (
+  process.env.USSD_SIMULATOR_URL || 'http://localhost:3000/api/v1'
+).replace(/\/$/, '');
+
+async function request<T>(
+  path: string,
+  body: unknown,
+  token?: string,
+): Promise<T> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `${path} failed (${response.status}): ${await response.text()}`,
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+async function getToken(): Promise<string> {
+  if (process.env.USSD_SIMULATOR_TOKEN) {
+    return process.env.USSD_SIMULATOR_TOKEN;
+  }
+
+  const phone = process.env.USSD_SIMULATOR_PHONE;
+  const pin = process.env.USSD_SIMULATOR_PIN;
+  if (!phone || !pin) {
+    throw new Error(
+      'Set USSD_SIMULATOR_TOKEN, or USSD_SIMULATOR_PHONE and USSD_SIMULATOR_PIN',
+    );
+  }
+
+  const { accessToken } = await request<{ accessToken: string }>(
+    '/auth/login',
+    { phone, pin },
+  );
+  return accessToken;
+}
+
+function render(screen: Screen): void {
+  const lines = screen.message.split('\n');
+  const width = Math.max(24, ...lines.map((line) => line.length));
+  const border = `+${'-'.repeat(width + 2)}+`;
+
+  console.log(border);
+  for (const line of lines) {
+    console.log(`| ${line.padEnd(width)} |`);
+  }
+  console.log(border);
+  console.log(`[${screen.sessionState}] step ${screen.step}`);
+}
+
+async function interactive(token: string, phoneNumber: string): Promise<void> {
+  const readline = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  try {
+    let screen = await request<Screen>(
+      '/ussd/simulator/sessions',
+      { phoneNumber },
+      token,
+    );
+    render(screen);
+
+    while (screen.sessionState === 'CON') {
+      const text = await readline.question('> ');
+      screen = await request<Screen>(
+        `/ussd/simulator/sessions/${screen.sessionId}/input`,
+        { text },
+        token,
+      );
+      render(screen);
+    }
+
+    console.log('\nInputs, ready to replay:');
+    console.log(JSON.stringify(screen.inputs));
+  } finally {
+    readline.close();
+  }
+}
+
+async function replay(token: string, file: string): Promise<boolean> {
+  const scenarios = JSON.parse(readFileSync(file, 'utf8')) as ReplayScenario[];
+  let passed = 0;
+
+  for (const [index, { name, ...scenario }] of scenarios.entries()) {
+    const label = name || `Scenario ${index + 1}`;
+    const result = await request<ReplayResult>(
+      '/ussd/simulator/replay',
+      scenario,
+      token,
+    );
+
+    if (result.passed) {
+      passed++;
+      console.log(`PASS ${label}`);
+      continue;
+    }
+
+    console.log(`FAIL ${label}`);
+    result.failures.forEach((failure) => console.log(`  - ${failure}`));
+    const finalScreen = result.screens[result.screens.length - 1];
+    if (finalScreen) {
+      render(finalScreen);
+    }
+  }
+
+  console.log(`\n${passed}/${scenarios.length} scenarios passed`);
+  return passed === scenarios.length;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const replayIndex = args.indexOf('--replay');
+
+  if (replayIndex === -1 && !args[0]) {
+    throw new Error(
+      'Usage: ussd-simulator <phoneNumber> | ussd-simulator --replay <file>',
+    );
+  }
+
+  const token = await getToken();
+
+  if (replayIndex !== -1) {
+    if (!(await replay(token, args[replayIndex + 1]))) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  await interactive(token, args[0]);
+}
+
+main().catch((error: Error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -14,6 +14,8 @@ import { PaymentModule } from './modules/payment/payment.module';
 import { UssdModule } from './modules/ussd/ussd.module';
 import { RoomModule } from './modules/room/room.module';
 import { SmsModule } from './modules/sms/sms.module';
+import { SmsCommandModule } from './modules/sms-command/sms-command.module';
+import { EmailModule } from './modules/email/email.module';
 import { ActivityModule } from './modules/activity/activity.module';
 import { ReminderModule } from './modules/reminder/reminder.module';
 import { ComplaintModule } from './modules/complaint/complaint.module';
@@ -21,6 +23,7 @@ import { NotificationModule } from './modules/notification/notification.module';
 import { AnnouncementModule } from './modules/announcement/announcement.module';
 import { CooperativeCategoryModule } from './modules/cooperative-category/cooperative-category.module';
 import { AnalyticsModule } from './modules/analytics/analytics.module';
+import { LedgerModule } from './modules/ledger/ledger.module';
 import { JwtAuthGuard } from './shared/guards/jwt-auth.guard';
 import { EnhancedCacheService } from './shared/services/enhanced-cache.service';
 import { PerformanceMonitoringService } from './shared/services/performance-monitoring.service';
@@ -30,9 +33,12 @@ import {
   databaseConfig,
   jwtConfig,
   redisConfig,
+  websocketConfig,
   appConfig,
   rateLimitConfig,
   smsConfig,
+  emailConfig,
+  notificationConfig,
   firebaseConfig,
 } from './config/configuration';
 import { securityConfig } from './config/security.config';
@@ -48,9 +54,12 @@ import { validateConfig } from './config/config.validation';
         databaseConfig,
         jwtConfig,
         redisConfig,
+        websocketConfig,
         appConfig,
         rateLimitConfig,
         smsConfig,
+        emailConfig,
+        notificationConfig,
         firebaseConfig,
         securityConfig,
         performanceConfig,
@@ -97,12 +106,15 @@ import { validateConfig } from './config/config.validation';
     UssdModule,
     RoomModule,
     SmsModule,
+    SmsCommandModule,
+    EmailModule,
     ActivityModule,
     ReminderModule,
     ComplaintModule,
     NotificationModule,
     AnnouncementModule,
     AnalyticsModule,
+    LedgerModule,
   ],
   controllers: [AppController, HealthController],
   providers: [
@@ -15,6 +15,13 @@ export const redisConfig = registerAs('redis', () => ({
   password: process.env.REDIS_PASSWORD || undefined,
 }));
 
+export const websocketConfig = registerAs('websocket', () => ({
+  // Share Socket.IO rooms between API instances through Redis pub/sub
+  redisAdapter: process.env.WEBSOCKET_REDIS_ADAPTER === 'true',
+  // How long to wait for a client to acknowledge a notification
+  ackTimeout: parseInt(process.env.WEBSOCKET_ACK_TIMEOUT || '5000'),
+}));
+
 export const appConfig = registerAs('app', () => ({
   nodeEnv: process.env.NODE_ENV || 'development',
   port: parseInt(process.env.PORT || '3000'),
@@ -31,14 +38,56 @@ export const rateLimitConfig = registerAs('rateLimit', () => ({
 }));
 
 export const smsConfig = registerAs('sms', () => ({
+  enabled: process.env.SMS_ENABLED === 'true',
+  // Providers and routing weights, e.g. "fdi:3,africastalking:1"
+  providers: process.env.SMS_PROVIDERS || 'fdi',
+  deliveryReportUrl: process.env.SMS_DELIVERY_REPORT_URL || '',
+  deliveryReportToken: process.env.SMS_DELIVERY_REPORT_TOKEN || '',
+  inboundToken: process.env.SMS_INBOUND_TOKEN || '',
   fdi: {
     baseUrl:
       process.env.FDI_SMS_BASE_URL || 'https://messaging.fdibiz.com/api/v1',
     username: process.env.FDI_SMS_USERNAME || '',
     password: process.env.FDI_SMS_PASSWORD || '',
     senderId: process.env.FDI_SMS_SENDER_ID || 'COPAY',
-    enabled: process.env.SMS_ENABLED === 'true',
   },
+  africasTalking: {
+    username: process.env.AFRICAS_TALKING_USERNAME || '',
+    apiKey: process.env.AFRICAS_TALKING_API_KEY || '',
+    senderId: process.env.AFRICAS_TALKING_SENDER_ID || '',
+    sandbox: process.env.AFRICAS_TALKING_SANDBOX === 'true',
+  },
+  twilio: {
+    accountSid: process.env.TWILIO_ACCOUNT_SID || '',
+    authToken: process.env.TWILIO_AUTH_TOKEN || '',
+    from: process.env.TWILIO_SMS_FROM || '',
+  },
+  console: {
+    file: process.env.SMS_CONSOLE_FILE || '', // Also append messages here
+  },
+}));
+
+export const emailConfig = registerAs('email', () => ({
+  // smtp, or file to write .eml files instead of sending
+  transport: process.env.EMAIL_TRANSPORT || 'smtp',
+  from: process.env.EMAIL_FROM || 'CoPay <no-reply@copay.rw>',
+  eventsToken: process.env.EMAIL_EVENTS_TOKEN || '',
+  smtp: {
+    host: process.env.SMTP_HOST || '',
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || '',
+    password: process.env.SMTP_PASSWORD || '',
+  },
+  file: {
+    dir: process.env.EMAIL_FILE_DIR || '.tmp/emails',
+  },
+}));
+
+export const notificationConfig = registerAs('notifications', () => ({
+  // Outbox sends per minute for each provider, e.g. "sms:60,email:120,fcm:600"
+  rateLimits:
+    process.env.NOTIFICATION_RATE_LIMITS || 'sms:60,email:120,fcm:600',
 }));
 
 export const firebaseConfig = registerAs('firebase', () => {
@@ -28,6 +28,17 @@ export class EnvironmentVariables {
   @IsOptional()
   REDIS_PASSWORD?: string = '';
 
+  // WebSocket
+  @Transform(({ value }) => value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  WEBSOCKET_REDIS_ADAPTER?: boolean = false;
+
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @IsOptional()
+  WEBSOCKET_ACK_TIMEOUT?: number = 5000;
+
   // App Configuration
   @IsString()
   @IsOptional()
@@ -73,6 +84,48 @@ export class EnvironmentVariables {
   @IsOptional()
   SWAGGER_PATH?: string = 'docs';
 
+  // Direct payment providers (IremboPay stays the default)
+  @IsString()
+  @IsOptional()
+  MTN_MOMO_BASE_URL?: string;
+
+  @IsString()
+  @IsOptional()
+  MTN_MOMO_COLLECTION_SUBSCRIPTION_KEY?: string;
+
+  @IsString()
+  @IsOptional()
+  MTN_MOMO_API_USER?: string;
+
+  @IsString()
+  @IsOptional()
+  MTN_MOMO_API_KEY?: string;
+
+  @IsString()
+  @IsOptional()
+  MTN_MOMO_TARGET_ENVIRONMENT?: string;
+
+  @IsString()
+  @IsOptional()
+  AIRTEL_MONEY_BASE_URL?: string;
+
+  @IsString()
+  @IsOptional()
+  AIRTEL_MONEY_CLIENT_ID?: string;
+
+  @IsString()
+  @IsOptional()
+  AIRTEL_MONEY_CLIENT_SECRET?: string;
+
+  @IsString()
+  @IsOptional()
+  AIRTEL_MONEY_COUNTRY?: string;
+
+  @Transform(({ value }) => value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  PAYMENT_SANDBOX_ENABLED?: boolean = false;
+
   // SMS Configuration
   @IsString()
   @IsOptional()
@@ -95,6 +148,99 @@ export class EnvironmentVariables {
   @IsOptional()
   SMS_ENABLED?: boolean = false;
 
+  @IsString()
+  @IsOptional()
+  SMS_PROVIDERS?: string;
+
+  @IsString()
+  @IsOptional()
+  SMS_DELIVERY_REPORT_URL?: string;
+
+  @IsString()
+  @IsOptional()
+  SMS_DELIVERY_REPORT_TOKEN?: string;
+
+  @IsString()
+  @IsOptional()
+  SMS_INBOUND_TOKEN?: string;
+
+  @IsString()
+  @IsOptional()
+  AFRICAS_TALKING_USERNAME?: string;
+
+  @IsString()
+  @IsOptional()
+  AFRICAS_TALKING_API_KEY?: string;
+
+  @IsString()
+  @IsOptional()
+  AFRICAS_TALKING_SENDER_ID?: string;
+
+  @Transform(({ value }) => value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  AFRICAS_TALKING_SANDBOX?: boolean = false;
+
+  @IsString()
+  @IsOptional()
+  TWILIO_ACCOUNT_SID?: string;
+
+  @IsString()
+  @IsOptional()
+  TWILIO_AUTH_TOKEN?: string;
+
+  @IsString()
+  @IsOptional()
+  TWILIO_SMS_FROM?: string;
+
+  @IsString()
+  @IsOptional()
+  SMS_CONSOLE_FILE?: string;
+
+  // Email Configuration
+  @IsString()
+  @IsOptional()
+  EMAIL_TRANSPORT?: string;
+
+  @IsString()
+  @IsOptional()
+  EMAIL_FROM?: string;
+
+  @IsString()
+  @IsOptional()
+  EMAIL_EVENTS_TOKEN?: string;
+
+  @IsString()
+  @IsOptional()
+  EMAIL_FILE_DIR?: string;
+
+  @IsString()
+  @IsOptional()
+  SMTP_HOST?: string;
+
+  @Transform(({ value }) => parseInt(value))
+  @IsNumber()
+  @IsOptional()
+  SMTP_PORT?: number = 587;
+
+  @Transform(({ value }) => value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  SMTP_SECURE?: boolean = false;
+
+  @IsString()
+  @IsOptional()
+  SMTP_USER?: string;
+
+  @IsString()
+  @IsOptional()
+  SMTP_PASSWORD?: string;
+
+  // Notification outbox
+  @IsString()
+  @IsOptional()
+  NOTIFICATION_RATE_LIMITS?: string;
+
   // Firebase Configuration
   @IsString()
   @IsOptional()
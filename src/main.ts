@@ -9,6 +9,10 @@ import { AppModule } from './app.module';
 import { PrismaService } from './prisma/prisma.service';
 import { setupSwagger } from './config/swagger.config';
 import { SecurityMiddleware } from './shared/middlewares/security.middleware';
+import {
+  RedisConnectionOptions,
+  RedisIoAdapter,
+} from './shared/adapters/redis-io.adapter';
 import fastifyCompress from '@fastify/compress';
 import fastifyHelmet from '@fastify/helmet';
 import fastifySocketIO from 'fastify-socket.io';
@@ -45,6 +49,16 @@ async function bootstrap() {
 
   const configService = app.get(ConfigService);
 
+  // XML bodies (MTN USSD gateway) reach controllers as strings
+  app
+    .getHttpAdapter()
+    .getInstance()
+    .addContentTypeParser(
+      ['application/xml', 'text/xml'],
+      { parseAs: 'string' },
+      (_request, body, done) => done(null, body),
+    );
+
   await app.register(fastifyHelmet as any, {
     contentSecurityPolicy: {
       directives: {
@@ -98,6 +112,24 @@ async function bootstrap() {
   //   transports: ['websocket', 'polling'],
   // });
 
+  // With more than one instance, WebSocket events have to go through Redis
+  // to reach users connected to another instance
+  if (configService.get<boolean>('websocket.redisAdapter')) {
+    const redisIoAdapter = new RedisIoAdapter(
+      app,
+      configService.getOrThrow<RedisConnectionOptions>('redis'),
+    );
+    try {
+      await redisIoAdapter.connectToRedis();
+      app.useWebSocketAdapter(redisIoAdapter);
+      logger.log('WebSocket Redis adapter connected');
+    } catch (err) {
+      logger.error(
+        `WebSocket Redis adapter unavailable, events stay on this instance: ${(err as Error).message}`,
+      );
+    }
+  }
+
   logger.log('Real-time notifications ready (WebSocket gateway available)');
 
   // Validation pipe with security configurations
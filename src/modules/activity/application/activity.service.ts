@@ -290,6 +290,51 @@ export class ActivityService {
     );
   }
 
+  async logPaymentRefunded(
+    paymentId: string,
+    amount: number,
+    reason: string,
+    context: ActivityContext,
+  ): Promise<void> {
+    await this.createActivity(
+      {
+        type: ActivityType.TRANSACTION_REFUND,
+        title: 'Payment Refunded',
+        description: `Payment refund of ${amount}: ${reason}`,
+        metadata: {
+          paymentId,
+          amount,
+          reason,
+        },
+        relatedPaymentId: paymentId,
+      },
+      context,
+    );
+  }
+
+  async logLateFeeWaived(
+    lateFeeId: string,
+    tenantId: string,
+    amount: number,
+    reason: string,
+    context: ActivityContext,
+  ): Promise<void> {
+    await this.createActivity(
+      {
+        type: ActivityType.LATE_FEE_WAIVED,
+        title: 'Late Fee Waived',
+        description: `Late fee of ${amount} waived: ${reason}`,
+        metadata: {
+          lateFeeId,
+          tenantId,
+          amount,
+          reason,
+        },
+      },
+      context,
+    );
+  }
+
   async logSecurityEvent(
     type: ActivityType,
     title: string,
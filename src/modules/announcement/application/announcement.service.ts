@@ -21,6 +21,7 @@ import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto
 import {
   AnnouncementStatus,
   AnnouncementTargetType,
+  AnnouncementPriority,
   UserRole,
   NotificationType,
   Prisma,
@@ -149,6 +150,7 @@ export class AnnouncementService {
       );
       let sentCount = 0;
       let failedCount = 0;
+      let skippedCount = 0;
 
       // Send notifications to each recipient
       for (const userId of targetUserIds) {
@@ -163,6 +165,15 @@ export class AnnouncementService {
             continue;
           }
 
+          // Unsubscribed users get no announcements on any channel
+          if (user.notificationsUnsubscribedAt) {
+            this.logger.debug(
+              `User ${userId} unsubscribed, skipping announcement ${announcement.id}`,
+            );
+            skippedCount++;
+            continue;
+          }
+
           // Filter notification types based on user role
           const allowedNotificationTypes = this.filterNotificationTypesByRole(
             announcement.notificationTypes,
@@ -183,6 +194,7 @@ export class AnnouncementService {
                   userId: user.id,
                   cooperativeId: user.cooperativeId || undefined,
                   announcementId: announcement.id,
+                  urgent: announcement.priority === AnnouncementPriority.URGENT,
                 },
               );
             } catch (error) {
@@ -217,7 +229,7 @@ export class AnnouncementService {
       });
 
       this.logger.log(
-        `Announcement ${announcementId} sent successfully. Sent: ${sentCount}, Failed: ${failedCount}`,
+        `Announcement ${announcementId} sent successfully. Sent: ${sentCount}, Failed: ${failedCount}, Unsubscribed: ${skippedCount}`,
       );
     } catch (error) {
       this.logger.error(
@@ -625,18 +637,20 @@ export class AnnouncementService {
     userRole: UserRole,
   ): NotificationType[] {
     if (userRole === UserRole.TENANT) {
-      // Tenants can receive IN_APP, PUSH, and SMS
+      // Tenants can receive IN_APP, PUSH, SMS and EMAIL
       const allowedTypes: NotificationType[] = [
         NotificationType.IN_APP,
         NotificationType.PUSH_NOTIFICATION,
         NotificationType.SMS,
+        NotificationType.EMAIL,
       ];
       return notificationTypes.filter((type) => allowedTypes.includes(type));
     } else if (userRole === UserRole.ORGANIZATION_ADMIN) {
-      // Organization admins can receive IN_APP and SMS
+      // Organization admins can receive IN_APP, SMS and EMAIL
       const allowedTypes: NotificationType[] = [
         NotificationType.IN_APP,
         NotificationType.SMS,
+        NotificationType.EMAIL,
       ];
       return notificationTypes.filter((type) => allowedTypes.includes(type));
     }
@@ -19,6 +19,7 @@ import { ForgotPinResponseDto } from '../presentation/dto/forgot-pin-response.dt
 import { JwtPayload } from '../infrastructure/jwt.strategy';
 import { SmsService } from '../../sms/application/sms.service';
 import { ActivityService } from '../../activity/application/activity.service';
+import { PinService } from './pin.service';
 
 @Injectable()
 export class AuthService {
@@ -28,6 +29,7 @@ export class AuthService {
     private configService: ConfigService,
     private smsService: SmsService,
     private activityService: ActivityService,
+    private pinService: PinService,
   ) {}
 
   async login(
@@ -63,14 +65,17 @@ export class AuthService {
         throw new UnauthorizedException('Account is not active');
       }
 
-      // Verify PIN
-      const isPinValid = await bcrypt.compare(pin, user.pin);
-      if (!isPinValid) {
-        // Log failed login attempt
-        await this.activityService.logFailedLogin(phone, 'Invalid PIN', {
-          ipAddress,
-          userAgent,
-        });
+      // Verify PIN, wrong PINs count towards the lockout shared with USSD
+      const pinCheck = await this.pinService.verifyPin(user, pin, 'API', {
+        ipAddress,
+        userAgent,
+      });
+      if (pinCheck.status === 'locked') {
+        throw new UnauthorizedException(
+          `Too many wrong PINs. Try again in ${this.pinService.getMinutesLeft(pinCheck.lockedUntil)} minutes or reset your PIN`,
+        );
+      }
+      if (pinCheck.status === 'invalid') {
         throw new UnauthorizedException('Invalid phone number or PIN');
       }
 
@@ -154,7 +159,10 @@ export class AuthService {
       where: { phone },
     });
 
-    if (user && (await bcrypt.compare(pin, user.pin))) {
+    if (
+      user &&
+      (await this.pinService.verifyPin(user, pin, 'API')).status === 'valid'
+    ) {
       return user;
     }
     return null;
@@ -237,6 +245,8 @@ export class AuthService {
       const smsResult = await this.smsService.sendPinResetSms(
         phone,
         resetToken,
+        user.preferredLanguage,
+        user.cooperativeId,
       );
 
       if (!smsResult.success) {
@@ -305,13 +315,15 @@ export class AuthService {
     // Hash new PIN
     const hashedPin = await bcrypt.hash(newPin, 10);
 
-    // Update user with new PIN and clear reset token
+    // Update user with new PIN, clear reset token and lift any PIN lockout
     await this.prismaService.user.update({
       where: { id: user.id },
       data: {
         pin: hashedPin,
         passwordResetToken: null,
         passwordResetExpires: null,
+        failedPinAttempts: 0,
+        pinLockedUntil: null,
       },
     });
 
@@ -328,7 +340,11 @@ export class AuthService {
 
     // Send SMS confirmation for successful PIN reset
     try {
-      const smsResult = await this.smsService.sendPinResetSuccessSms(phone);
+      const smsResult = await this.smsService.sendPinResetSuccessSms(
+        phone,
+        user.preferredLanguage,
+        user.cooperativeId,
+      );
 
       if (!smsResult.success) {
         // Log the error but don't fail the request
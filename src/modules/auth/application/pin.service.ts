@@ -0,0 +1,204 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ActivityType, User } from '@prisma/client';
+import * as bcrypt from 'bcryptjs';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SmsService } from '../../sms/application/sms.service';
+import {
+  ActivityContext,
+  ActivityService,
+} from '../../activity/application/activity.service';
+
+/**
+ * Wrong PINs in a row before the phone is locked
+ */
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MINUTES = 30;
+
+export type PinChannel = 'API' | 'USSD';
+
+export type PinCheckResult =
+  | { status: 'valid' }
+  | { status: 'invalid'; attemptsLeft: number }
+  | { status: 'locked'; lockedUntil: Date };
+
+type PinContext = Omit<ActivityContext, 'userId' | 'cooperativeId'>;
+
+/**
+ * PIN checks and changes shared by app login and USSD, so wrong PINs from
+ * either channel count towards the same lockout
+ */
+@Injectable()
+export class PinService {
+  private readonly logger = new Logger(PinService.name);
+
+  constructor(
+    private prismaService: PrismaService,
+    private smsService: SmsService,
+    private activityService: ActivityService,
+  ) {}
+
+  /**
+   * Check a PIN against the lockout policy. The attempt counter restarts
+   * after a correct PIN and when a lockout expires
+   */
+  async verifyPin(
+    user: User,
+    pin: string,
+    channel: PinChannel,
+    context: PinContext = {},
+  ): Promise<PinCheckResult> {
+    const now = new Date();
+
+    if (user.pinLockedUntil && user.pinLockedUntil > now) {
+      return { status: 'locked', lockedUntil: user.pinLockedUntil };
+    }
+
+    const activityContext: ActivityContext = {
+      ...context,
+      userId: user.id,
+      cooperativeId: user.cooperativeId || undefined,
+    };
+
+    // The lockout has expired, the count starts again
+    if (user.pinLockedUntil) {
+      await this.prismaService.user.updateMany({
+        where: { id: user.id, pinLockedUntil: user.pinLockedUntil },
+        data: { failedPinAttempts: 0, pinLockedUntil: null },
+      });
+    }
+
+    // Count the attempt before comparing, so parallel guesses cannot all get
+    // under the limit on the same count
+    const counted = await this.prismaService.user.update({
+      where: { id: user.id },
+      data: { failedPinAttempts: { increment: 1 } },
+      select: { failedPinAttempts: true, pinLockedUntil: true },
+    });
+    const attempts = counted.failedPinAttempts ?? 1;
+
+    if (counted.pinLockedUntil && counted.pinLockedUntil > now) {
+      return { status: 'locked', lockedUntil: counted.pinLockedUntil };
+    }
+
+    // Past the limit the PIN is not even compared
+    if (attempts > MAX_PIN_ATTEMPTS) {
+      return this.lockPin(user, now, attempts, channel, activityContext);
+    }
+
+    if (await bcrypt.compare(pin, user.pin)) {
+      await this.prismaService.user.update({
+        where: { id: user.id },
+        data: { failedPinAttempts: 0, pinLockedUntil: null },
+      });
+
+      return { status: 'valid' };
+    }
+
+    if (attempts >= MAX_PIN_ATTEMPTS) {
+      return this.lockPin(user, now, attempts, channel, activityContext);
+    }
+
+    await this.activityService.logSecurityEvent(
+      ActivityType.FAILED_LOGIN_ATTEMPT,
+      'Wrong PIN',
+      `Wrong PIN entered (${attempts} of ${MAX_PIN_ATTEMPTS})`,
+      attempts > 1 ? 'MEDIUM' : 'LOW',
+      activityContext,
+      { channel, attempts },
+    );
+
+    return { status: 'invalid', attemptsLeft: MAX_PIN_ATTEMPTS - attempts };
+  }
+
+  /**
+   * Replace the PIN of a user whose current PIN was already verified. The
+   * user is told by SMS so an unexpected change can be reported
+   */
+  async changePin(
+    user: User,
+    newPin: string,
+    channel: PinChannel,
+    context: PinContext = {},
+  ): Promise<void> {
+    const hashedPin = await bcrypt.hash(newPin, 10);
+
+    await this.prismaService.user.update({
+      where: { id: user.id },
+      data: { pin: hashedPin, failedPinAttempts: 0, pinLockedUntil: null },
+    });
+
+    await this.activityService.logSecurityEvent(
+      ActivityType.PIN_CHANGED,
+      'PIN Changed',
+      'User changed their PIN',
+      'MEDIUM',
+      {
+        ...context,
+        userId: user.id,
+        cooperativeId: user.cooperativeId || undefined,
+      },
+      { channel },
+    );
+
+    // SmsService logs failed sends, the change stands either way
+    await this.smsService.sendPinChangedSms(
+      user.phone,
+      user.preferredLanguage,
+      user.cooperativeId,
+    );
+  }
+
+  /**
+   * Whole minutes until a lockout ends, at least 1
+   */
+  getMinutesLeft(lockedUntil: Date): number {
+    return Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+  }
+
+  /**
+   * Lock the PIN once the limit is reached. Only the first of several
+   * parallel attempts sets the lockout, the others report it
+   */
+  private async lockPin(
+    user: User,
+    now: Date,
+    attempts: number,
+    channel: PinChannel,
+    activityContext: ActivityContext,
+  ): Promise<PinCheckResult> {
+    const lockedUntil = new Date(
+      now.getTime() + PIN_LOCKOUT_MINUTES * 60 * 1000,
+    );
+
+    const { count } = await this.prismaService.user.updateMany({
+      where: { id: user.id, failedPinAttempts: { gte: MAX_PIN_ATTEMPTS } },
+      data: { failedPinAttempts: 0, pinLockedUntil: lockedUntil },
+    });
+
+    if (count === 0) {
+      const locked = await this.prismaService.user.findUnique({
+        where: { id: user.id },
+        select: { pinLockedUntil: true },
+      });
+      return {
+        status: 'locked',
+        lockedUntil: locked?.pinLockedUntil ?? lockedUntil,
+      };
+    }
+
+    this.logger.warn(
+      `PIN locked for ${user.phone} until ${lockedUntil.toISOString()}`,
+    );
+
+    await this.activityService.logSecurityEvent(
+      ActivityType.SECURITY_ALERT,
+      'PIN Locked',
+      `PIN locked for ${PIN_LOCKOUT_MINUTES} minutes after ${attempts} wrong attempts`,
+      'HIGH',
+      activityContext,
+      { channel, attempts, lockedUntil: lockedUntil.toISOString() },
+    );
+
+    return { status: 'locked', lockedUntil };
+  }
+}
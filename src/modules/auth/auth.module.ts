@@ -6,6 +6,7 @@ import { AuthController } from './presentation/auth.controller';
 import { AccountRequestController } from './presentation/account-request.controller';
 import { AuthService } from './application/auth.service';
 import { AccountRequestService } from './application/account-request.service';
+import { PinService } from './application/pin.service';
 import { JwtStrategy } from './infrastructure/jwt.strategy';
 import { PrismaService } from '../../prisma/prisma.service';
 import { SmsModule } from '../sms/sms.module';
@@ -28,7 +29,13 @@ import { ActivityModule } from '../activity/activity.module';
     }),
   ],
   controllers: [AuthController, AccountRequestController],
-  providers: [AuthService, AccountRequestService, JwtStrategy, PrismaService],
-  exports: [AuthService, AccountRequestService, JwtModule],
+  providers: [
+    AuthService,
+    AccountRequestService,
+    PinService,
+    JwtStrategy,
+    PrismaService,
+  ],
+  exports: [AuthService, AccountRequestService, PinService, JwtModule],
 })
 export class AuthModule {}
@@ -52,6 +52,7 @@ export class ComplaintService {
         title: createComplaintDto.title,
         description: createComplaintDto.description,
         priority: createComplaintDto.priority || ComplaintPriority.MEDIUM,
+        category: createComplaintDto.category,
         status: ComplaintStatus.OPEN,
         attachments: createComplaintDto.attachments,
         userId: context.userId,
@@ -175,6 +176,10 @@ export class ComplaintService {
       where.priority = filterDto.priority;
     }
 
+    if (filterDto.category) {
+      where.category = filterDto.category;
+    }
+
     if (filterDto.fromDate || filterDto.toDate) {
       where.createdAt = {};
       if (filterDto.fromDate) {
@@ -530,6 +535,7 @@ export class ComplaintService {
           phone: true,
           email: true,
           fcmToken: true,
+          preferredLanguage: true,
         },
       });
 
@@ -555,6 +561,11 @@ export class ComplaintService {
         notificationTypes.push(NotificationType.SMS);
       }
 
+      // Add email if user has an email address
+      if (complaintUser.email) {
+        notificationTypes.push(NotificationType.EMAIL);
+      }
+
       // Send notifications
       await this.notificationService.sendComplaintNotification(
         complaint,
@@ -582,11 +593,12 @@ export class ComplaintService {
     complaint: any,
     status: ComplaintStatus,
   ): { title: string; message: string } {
-    const statusText = status === ComplaintStatus.RESOLVED ? 'resolved' : 'closed';
+    const statusText =
+      status === ComplaintStatus.RESOLVED ? 'resolved' : 'closed';
     const statusEmoji = status === ComplaintStatus.RESOLVED ? '✅' : '🔒';
 
     const title = `${statusEmoji} Complaint ${statusText.charAt(0).toUpperCase() + statusText.slice(1)}`;
-    
+
     let message = `Your complaint "${complaint.title}" has been ${statusText}.`;
 
     // Add resolution if provided
@@ -612,6 +624,7 @@ export class ComplaintService {
       description: complaint.description,
       status: complaint.status,
       priority: complaint.priority,
+      category: complaint.category ?? undefined,
       resolution: complaint.resolution,
       resolvedAt: complaint.resolvedAt,
       attachments: complaint.attachments,
@@ -6,7 +6,11 @@ import {
   IsMongoId,
 } from 'class-validator';
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { ComplaintStatus, ComplaintPriority } from '@prisma/client';
+import {
+  ComplaintStatus,
+  ComplaintPriority,
+  ComplaintCategory,
+} from '@prisma/client';
 import { PaginationDto } from '../../../../shared/dto/pagination.dto';
 
 export class ComplaintFilterDto extends PaginationDto {
@@ -28,6 +32,15 @@ export class ComplaintFilterDto extends PaginationDto {
   @IsEnum(ComplaintPriority)
   priority?: ComplaintPriority;
 
+  @ApiPropertyOptional({
+    description: 'Filter by complaint category',
+    enum: ComplaintCategory,
+    example: ComplaintCategory.WATER,
+  })
+  @IsOptional()
+  @IsEnum(ComplaintCategory)
+  category?: ComplaintCategory;
+
   @ApiPropertyOptional({
     description: 'Filter by cooperative ID',
     example: '507f1f77bcf86cd799439012',
@@ -1,5 +1,9 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { ComplaintStatus, ComplaintPriority } from '@prisma/client';
+import {
+  ComplaintStatus,
+  ComplaintPriority,
+  ComplaintCategory,
+} from '@prisma/client';
 
 export class ComplaintResponseDto {
   @ApiProperty({
@@ -35,6 +39,13 @@ export class ComplaintResponseDto {
   })
   priority: ComplaintPriority;
 
+  @ApiPropertyOptional({
+    description: 'What the complaint is about',
+    enum: ComplaintCategory,
+    example: ComplaintCategory.WATER,
+  })
+  category?: ComplaintCategory;
+
   @ApiPropertyOptional({
     description: 'Resolution message or admin notes',
     example:
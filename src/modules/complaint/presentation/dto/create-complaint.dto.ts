@@ -7,7 +7,7 @@ import {
   IsMongoId,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { ComplaintPriority } from '@prisma/client';
+import { ComplaintCategory, ComplaintPriority } from '@prisma/client';
 
 export class CreateComplaintDto {
   @ApiPropertyOptional({
@@ -49,6 +49,15 @@ export class CreateComplaintDto {
   @IsEnum(ComplaintPriority)
   priority?: ComplaintPriority;
 
+  @ApiPropertyOptional({
+    description: 'What the complaint is about',
+    enum: ComplaintCategory,
+    example: ComplaintCategory.WATER,
+  })
+  @IsOptional()
+  @IsEnum(ComplaintCategory)
+  category?: ComplaintCategory;
+
   @ApiPropertyOptional({
     description: 'Attachments metadata (file URLs, names, sizes)',
     example: [
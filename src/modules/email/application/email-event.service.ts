@@ -0,0 +1,121 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NotificationStatus, NotificationType } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { EmailService } from './email.service';
+import {
+  EmailEvent,
+  EmailEventType,
+  normalizeMessageId,
+} from '../infrastructure/email.interface';
+
+type EmailEventPayload = Record<string, unknown>;
+
+const EVENT_TYPES: Record<string, EmailEventType> = {
+  bounce: 'BOUNCE',
+  bounced: 'BOUNCE',
+  dropped: 'BOUNCE',
+  failed: 'BOUNCE',
+  complaint: 'COMPLAINT',
+  complained: 'COMPLAINT',
+  spamreport: 'COMPLAINT',
+};
+
+@Injectable()
+export class EmailEventService {
+  private readonly logger = new Logger(EmailEventService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  /**
+   * Marks the email notifications that bounced or were reported as spam
+   * FAILED. Accepts one event or a batch, with the message ID in messageId,
+   * Message-ID or smtp-id and the kind in event or type. Other events are
+   * ignored. Returns how many notifications were updated
+   */
+  async handleEvents(
+    payload: EmailEventPayload | EmailEventPayload[],
+  ): Promise<number> {
+    const events = (Array.isArray(payload) ? payload : [payload])
+      .map((item) => this.parseEvent(item ?? {}))
+      .filter((event): event is EmailEvent => event !== null);
+
+    let updated = 0;
+    for (const event of events) {
+      updated += await this.applyEvent(event);
+    }
+
+    return updated;
+  }
+
+  private async applyEvent(event: EmailEvent): Promise<number> {
+    const { count } = await this.prismaService.notification.updateMany({
+      where: {
+        type: NotificationType.EMAIL,
+        provider: { in: this.emailService.getTransportNames() },
+        providerMessageId: event.messageId,
+        status: {
+          in: [
+            NotificationStatus.PENDING,
+            NotificationStatus.SENT,
+            NotificationStatus.DELIVERED,
+          ],
+        },
+      },
+      data: {
+        status: NotificationStatus.FAILED,
+        failedAt: new Date(),
+        errorMessage:
+          event.reason ||
+          (event.type === 'BOUNCE'
+            ? 'Email bounced'
+            : 'Recipient reported the email as spam'),
+        // Neither is worth retrying
+        nextRetryAt: null,
+      },
+    });
+
+    this.logger.log(
+      `Email ${event.type.toLowerCase()} for ${event.messageId} (${count} notification(s) updated)`,
+    );
+
+    return count;
+  }
+
+  private parseEvent(payload: EmailEventPayload): EmailEvent | null {
+    const messageId = this.pickString(payload, [
+      'messageId',
+      'Message-ID',
+      'message-id',
+      'smtp-id',
+    ]);
+    const kind = this.pickString(payload, ['event', 'type', 'eventType']);
+    const type = kind ? EVENT_TYPES[kind.toLowerCase()] : undefined;
+
+    if (!messageId || !type) {
+      return null;
+    }
+
+    return {
+      messageId: normalizeMessageId(messageId),
+      type,
+      reason: this.pickString(payload, ['reason', 'error', 'description']),
+    };
+  }
+
+  private pickString(
+    payload: EmailEventPayload,
+    fields: string[],
+  ): string | undefined {
+    for (const field of fields) {
+      const value = payload[field];
+      if (typeof value === 'string' && value.trim()) {
+        return value;
+      }
+    }
+
+    return undefined;
+  }
+}
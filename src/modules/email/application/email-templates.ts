@@ -0,0 +1,134 @@
+import { Language } from '@prisma/client';
+import { translate } from '../../../shared/i18n/messages';
+
+export type EmailTemplateKind =
+  | 'receipt'
+  | 'reminder'
+  | 'announcement'
+  | 'complaint'
+  | 'digest'
+  | 'general';
+
+export interface EmailDetail {
+  label: string;
+  value: string;
+}
+
+export interface EmailContent {
+  kind: EmailTemplateKind;
+  title: string;
+  message: string;
+  language?: Language | null;
+  cooperativeName?: string;
+  // Rows shown under the message, e.g. the amount and reference of a receipt
+  details?: EmailDetail[];
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const HEADINGS = {
+  receipt: 'email.receipt.heading',
+  reminder: 'email.reminder.heading',
+  announcement: 'email.announcement.heading',
+  complaint: 'email.complaint.heading',
+  digest: 'email.digest.heading',
+} as const;
+
+/**
+ * HTML and plain text versions of a notification email. Both carry the same
+ * content so clients that block HTML lose nothing
+ */
+export function renderEmail(content: EmailContent): RenderedEmail {
+  const { kind, title, message, language, details = [] } = content;
+  const heading = kind === 'general' ? '' : translate(language, HEADINGS[kind]);
+  const footer = translate(language, 'email.footer', {
+    cooperative:
+      content.cooperativeName ||
+      translate(language, 'payment.defaultCooperative'),
+  });
+
+  return {
+    subject: title,
+    html: renderHtml(heading, title, message, details, footer),
+    text: renderText(heading, title, message, details, footer),
+  };
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderHtml(
+  heading: string,
+  title: string,
+  message: string,
+  details: EmailDetail[],
+  footer: string,
+): string {
+  const paragraphs = message
+    .split(/\n{2,}/)
+    .map(
+      (paragraph) =>
+        `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`,
+    )
+    .join('');
+
+  const rows = details
+    .map(
+      ({ label, value }) =>
+        `<tr><td style="padding:6px 12px 6px 0;color:#6b7280">${escapeHtml(label)}</td><td style="padding:6px 0;font-weight:600">${escapeHtml(value)}</td></tr>`,
+    )
+    .join('');
+
+  return [
+    '<!DOCTYPE html>',
+    `<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827">',
+    '<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px">',
+    '<tr><td style="padding:20px 24px;background:#0f766e;border-radius:8px 8px 0 0;color:#ffffff;font-size:20px;font-weight:700">COPAY</td></tr>',
+    '<tr><td style="padding:24px">',
+    heading
+      ? `<p style="margin:0 0 8px;color:#0f766e;font-size:12px;font-weight:700;text-transform:uppercase">${escapeHtml(heading)}</p>`
+      : '',
+    `<h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(title)}</h1>`,
+    paragraphs,
+    rows
+      ? `<table role="presentation" cellpadding="0" cellspacing="0" style="margin-top:8px;font-size:14px">${rows}</table>`
+      : '',
+    '</td></tr>',
+    `<tr><td style="padding:16px 24px;border-top:1px solid #e5e7eb;color:#6b7280;font-size:12px">${escapeHtml(footer)}</td></tr>`,
+    '</table></body></html>',
+  ].join('');
+}
+
+function renderText(
+  heading: string,
+  title: string,
+  message: string,
+  details: EmailDetail[],
+  footer: string,
+): string {
+  return [
+    heading ? heading.toUpperCase() : null,
+    title,
+    '',
+    message,
+    details.length > 0
+      ? `\n${details.map(({ label, value }) => `${label}: ${value}`).join('\n')}`
+      : null,
+    '',
+    '--',
+    footer,
+  ]
+    .filter((line) => line !== null)
+    .join('\n');
+}
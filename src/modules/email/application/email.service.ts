@@ -0,0 +1,83 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { SmtpEmailTransport } from '../infrastructure/smtp-email.transport';
+import { FileEmailTransport } from '../infrastructure/file-email.transport';
+import {
+  EmailResult,
+  EmailTransport,
+  isValidEmail,
+} from '../infrastructure/email.interface';
+import { EmailContent, renderEmail } from './email-templates';
+
+@Injectable()
+export class EmailService {
+  private readonly logger = new Logger(EmailService.name);
+  private readonly transports = new Map<string, EmailTransport>();
+  private readonly transport?: EmailTransport;
+  private readonly from: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    smtpEmailTransport: SmtpEmailTransport,
+    fileEmailTransport: FileEmailTransport,
+  ) {
+    for (const transport of [smtpEmailTransport, fileEmailTransport]) {
+      this.transports.set(transport.name, transport);
+    }
+
+    const name = this.configService.get<string>('email.transport') || 'smtp';
+    this.transport = this.transports.get(name.toLowerCase());
+    if (!this.transport) {
+      this.logger.warn(`Unknown email transport "${name}"`);
+    }
+
+    this.from =
+      this.configService.get<string>('email.from') ||
+      'CoPay <no-reply@copay.rw>';
+  }
+
+  /** Names of the transports whose messages bounce events can refer to */
+  getTransportNames(): string[] {
+    return [...this.transports.keys()];
+  }
+
+  /**
+   * Renders a notification email and sends it through the configured
+   * transport
+   */
+  async sendEmail(to: string, content: EmailContent): Promise<EmailResult> {
+    if (!isValidEmail(to)) {
+      return {
+        success: false,
+        message: 'Invalid email address',
+        error: 'INVALID_EMAIL',
+      };
+    }
+
+    if (!this.transport?.isConfigured()) {
+      this.logger.warn('No email transport configured');
+      return {
+        success: false,
+        message: 'No email transport configured',
+        error: 'CONFIGURATION_ERROR',
+      };
+    }
+
+    const { subject, html, text } = renderEmail(content);
+    const result = await this.transport.send(this.from, {
+      to,
+      subject,
+      html,
+      text,
+      messageId: this.createMessageId(),
+    });
+
+    return { ...result, transport: this.transport.name };
+  }
+
+  private createMessageId(): string {
+    const domain = /@([^>\s]+)>?\s*$/.exec(this.from)?.[1] || 'copay.rw';
+    return `${randomUUID()}@${domain}`;
+  }
+}
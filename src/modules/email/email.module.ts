@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { EmailService } from './application/email.service';
+import { EmailEventService } from './application/email-event.service';
+import { SmtpEmailTransport } from './infrastructure/smtp-email.transport';
+import { FileEmailTransport } from './infrastructure/file-email.transport';
+import { EmailEventController } from './presentation/email-event.controller';
+import { PrismaService } from '../../prisma/prisma.service';
+
+@Module({
+  imports: [ConfigModule],
+  controllers: [EmailEventController],
+  providers: [
+    EmailService,
+    EmailEventService,
+    SmtpEmailTransport,
+    FileEmailTransport,
+    PrismaService,
+  ],
+  exports: [EmailService],
+})
+export class EmailModule {}
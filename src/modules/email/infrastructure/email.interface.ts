@@ -0,0 +1,47 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  // Message-ID header, bounce and complaint events refer to it
+  messageId: string;
+}
+
+export interface EmailResult {
+  success: boolean;
+  message: string;
+  messageId?: string;
+  error?: string;
+  transport?: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+
+  /** Whether the credentials the transport needs are set */
+  isConfigured(): boolean;
+
+  send(from: string, message: EmailMessage): Promise<EmailResult>;
+}
+
+export type EmailEventType = 'BOUNCE' | 'COMPLAINT';
+
+export interface EmailEvent {
+  messageId: string;
+  type: EmailEventType;
+  reason?: string;
+}
+
+// Deliberately loose: a dot in the domain and no spaces or extra @
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidEmail(email: string | null | undefined): boolean {
+  return !!email && email.length <= 254 && EMAIL_PATTERN.test(email);
+}
+
+/**
+ * Message-ID without the angle brackets, as stored on notifications
+ */
+export function normalizeMessageId(messageId: string): string {
+  return messageId.trim().replace(/^<|>$/g, '');
+}
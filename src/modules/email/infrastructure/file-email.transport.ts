@@ -0,0 +1,67 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createTransport } from 'nodemailer';
+import { EmailMessage, EmailResult, EmailTransport } from './email.interface';
+
+/**
+ * Development and test sink: writes each email to EMAIL_FILE_DIR as an .eml
+ * file that mail clients open. Never used in production
+ */
+@Injectable()
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+
+  private readonly logger = new Logger(FileEmailTransport.name);
+  private readonly dir: string;
+  private readonly isProduction: boolean;
+  private readonly transporter = createTransport({
+    streamTransport: true,
+    buffer: true,
+  });
+
+  constructor(private readonly configService: ConfigService) {
+    this.dir = this.configService.get<string>('email.file.dir') || '';
+    this.isProduction =
+      this.configService.get<string>('app.nodeEnv') === 'production';
+  }
+
+  isConfigured(): boolean {
+    return !this.isProduction && !!this.dir;
+  }
+
+  async send(from: string, message: EmailMessage): Promise<EmailResult> {
+    try {
+      const info = await this.transporter.sendMail({
+        from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        messageId: `<${message.messageId}>`,
+      });
+
+      const file = join(this.dir, `${message.messageId}.eml`);
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(file, info.message);
+
+      this.logger.log(`Email to ${message.to} written to ${file}`);
+
+      return {
+        success: true,
+        message: 'Email written to file',
+        messageId: message.messageId,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Could not write email to ${this.dir}: ${(error as Error).message}`,
+      );
+      return {
+        success: false,
+        message: 'Failed to write email',
+        error: (error as Error).message,
+      };
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createTransport, Transporter } from 'nodemailer';
+import { EmailMessage, EmailResult, EmailTransport } from './email.interface';
+
+/**
+ * Sends through any SMTP server. A local mailcatcher (localhost:1025) works
+ * without credentials
+ */
+@Injectable()
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  private readonly logger = new Logger(SmtpEmailTransport.name);
+  private readonly host: string;
+  private transporter?: Transporter;
+
+  constructor(private readonly configService: ConfigService) {
+    this.host = this.configService.get<string>('email.smtp.host') || '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.host;
+  }
+
+  async send(from: string, message: EmailMessage): Promise<EmailResult> {
+    try {
+      const info = await this.getTransporter().sendMail({
+        from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        messageId: `<${message.messageId}>`,
+      });
+
+      if (info.rejected?.length) {
+        return {
+          success: false,
+          message: 'Email rejected by the SMTP server',
+          error: info.response,
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Email sent',
+        messageId: message.messageId,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to send email to ${message.to}: ${(error as Error).message}`,
+      );
+      return {
+        success: false,
+        message: 'Failed to send email',
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      const user = this.configService.get<string>('email.smtp.user');
+
+      this.transporter = createTransport({
+        host: this.host,
+        port: this.configService.get<number>('email.smtp.port'),
+        secure: this.configService.get<boolean>('email.smtp.secure'),
+        auth: user
+          ? {
+              user,
+              pass: this.configService.get<string>('email.smtp.password'),
+            }
+          : undefined,
+      });
+    }
+
+    return this.transporter;
+  }
+}
@@ -0,0 +1,31 @@
+import { Body, Controller, HttpCode, Post, UseGuards } from '@nestjs/common';
+import { ApiExcludeEndpoint, ApiTags } from '@nestjs/swagger';
+import { EmailEventService } from '../application/email-event.service';
+import {
+  Public,
+  WebhookToken,
+} from '../../../shared/decorators/auth.decorator';
+import { WebhookTokenGuard } from '../../../shared/guards/webhook-token.guard';
+
+@ApiTags('Email')
+@Controller('email/events')
+export class EmailEventController {
+  constructor(private readonly emailEventService: EmailEventService) {}
+
+  @Post()
+  @Public()
+  @UseGuards(WebhookTokenGuard)
+  @WebhookToken('email.eventsToken')
+  @HttpCode(200)
+  @ApiExcludeEndpoint() // Called by the mail provider
+  async handleEvents(
+    @Body() payload: Record<string, unknown> | Record<string, unknown>[],
+  ): Promise<{ status: string; message: string }> {
+    const updated = await this.emailEventService.handleEvents(payload ?? {});
+
+    return {
+      status: 'success',
+      message: `${updated} notification(s) updated`,
+    };
+  }
+}
@@ -0,0 +1,279 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  LedgerAccount,
+  LedgerAccountType,
+  LedgerEntryDirection,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  InsufficientLedgerFundsException,
+  JournalEntryInput,
+  LedgerAccounts,
+  LedgerService,
+} from './ledger.service';
+
+const COOPERATIVE_ID = '65f000000000000000000001';
+
+const { DEBIT, CREDIT } = LedgerEntryDirection;
+
+const account = (
+  id: string,
+  code: string,
+  type: LedgerAccountType,
+): LedgerAccount =>
+  ({ id, code, name: code, type, cooperativeId: null }) as LedgerAccount;
+
+const paymentEntry = (amount = 1500.5): JournalEntryInput => ({
+  description: 'Payment',
+  referenceType: 'PAYMENT',
+  referenceId: 'payment-1',
+  idempotencyKey: 'payment:payment-1:cooperative-credit',
+  postings: [
+    { accountCode: LedgerAccounts.GATEWAY_CLEARING, direction: DEBIT, amount },
+    {
+      accountCode: LedgerAccounts.cooperativeFunds(COOPERATIVE_ID),
+      direction: CREDIT,
+      amount,
+    },
+  ],
+});
+
+describe('LedgerService', () => {
+  let service: LedgerService;
+  let prisma: {
+    $transaction: jest.Mock;
+    ledgerJournalEntry: Record<
+      'findUnique' | 'findUniqueOrThrow' | 'create',
+      jest.Mock
+    >;
+    ledgerAccount: Record<
+      'findUnique' | 'findMany' | 'upsert' | 'update' | 'updateMany',
+      jest.Mock
+    >;
+    ledgerPosting: { groupBy: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      $transaction: jest.fn(),
+      ledgerJournalEntry: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findUniqueOrThrow: jest.fn(),
+        create: jest.fn().mockResolvedValue({ id: 'entry-1' }),
+      },
+      ledgerAccount: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        upsert: jest.fn(({ where }: { where: { code: string } }) =>
+          Promise.resolve({
+            id: `account:${where.code}`,
+            code: where.code,
+            type:
+              where.code === LedgerAccounts.GATEWAY_CLEARING
+                ? LedgerAccountType.ASSET
+                : LedgerAccountType.LIABILITY,
+          }),
+        ),
+        update: jest.fn().mockResolvedValue({}),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      ledgerPosting: { groupBy: jest.fn().mockResolvedValue([]) },
+    };
+    prisma.$transaction.mockImplementation(
+      (callback: (tx: typeof prisma) => Promise<unknown>) => callback(prisma),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [LedgerService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get(LedgerService);
+  });
+
+  describe('postJournalEntry', () => {
+    it('posts balanced entries in minor units', async () => {
+      await service.postJournalEntry(paymentEntry());
+
+      const [{ data }] = prisma.ledgerJournalEntry.create.mock.calls[0] as [
+        { data: { postings: { create: Record<string, unknown>[] } } },
+      ];
+      expect(data.postings.create).toEqual([
+        expect.objectContaining({
+          accountId: 'account:GATEWAY_CLEARING',
+          direction: DEBIT,
+          amountMinor: 150050n,
+        }),
+        expect.objectContaining({
+          accountId: `account:COOPERATIVE_FUNDS:${COOPERATIVE_ID}`,
+          direction: CREDIT,
+          amountMinor: 150050n,
+        }),
+      ]);
+    });
+
+    it('moves the running balance of each account', async () => {
+      await service.postJournalEntry(paymentEntry(100));
+
+      expect(prisma.ledgerAccount.update).toHaveBeenCalledWith({
+        where: { id: 'account:GATEWAY_CLEARING' },
+        data: { balanceMinor: { increment: 10000n } },
+      });
+      expect(prisma.ledgerAccount.update).toHaveBeenCalledWith({
+        where: { id: `account:COOPERATIVE_FUNDS:${COOPERATIVE_ID}` },
+        data: { balanceMinor: { increment: 10000n } },
+      });
+    });
+
+    it('only debits an account that requires funds while it covers the amount', async () => {
+      const entry = paymentEntry(100);
+      entry.postings = [
+        { ...entry.postings[1], direction: DEBIT, requireFunds: true },
+        { ...entry.postings[0], direction: CREDIT },
+      ];
+
+      await service.postJournalEntry(entry);
+
+      expect(prisma.ledgerAccount.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: `account:COOPERATIVE_FUNDS:${COOPERATIVE_ID}`,
+          balanceMinor: { gte: 10000n },
+        },
+        data: { balanceMinor: { increment: -10000n } },
+      });
+
+      prisma.ledgerAccount.updateMany.mockResolvedValue({ count: 0 });
+      await expect(service.postJournalEntry(entry)).rejects.toThrow(
+        InsufficientLedgerFundsException,
+      );
+    });
+
+    it('returns the first entry when the key was already posted', async () => {
+      const existing = { id: 'entry-0' };
+      prisma.ledgerJournalEntry.findUnique.mockResolvedValue(existing);
+
+      await expect(service.postJournalEntry(paymentEntry())).resolves.toBe(
+        existing,
+      );
+      expect(prisma.ledgerJournalEntry.create).not.toHaveBeenCalled();
+    });
+
+    it('returns the winning entry when a concurrent post got there first', async () => {
+      const winner = { id: 'entry-0' };
+      prisma.ledgerJournalEntry.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        }),
+      );
+      prisma.ledgerJournalEntry.findUniqueOrThrow.mockResolvedValue(winner);
+
+      await expect(service.postJournalEntry(paymentEntry())).resolves.toBe(
+        winner,
+      );
+      expect(prisma.ledgerAccount.update).not.toHaveBeenCalled();
+      expect(prisma.ledgerJournalEntry.findUniqueOrThrow).toHaveBeenCalledWith({
+        where: { idempotencyKey: 'payment:payment-1:cooperative-credit' },
+      });
+    });
+
+    it('rejects entries that do not balance', async () => {
+      const entry = paymentEntry();
+      entry.postings[1].amount = 1500;
+
+      await expect(service.postJournalEntry(entry)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prisma.ledgerJournalEntry.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects entries left with a single posting', async () => {
+      await expect(service.postJournalEntry(paymentEntry(0))).rejects.toThrow(
+        'A journal entry needs at least two postings',
+      );
+    });
+
+    it('rejects negative amounts', async () => {
+      await expect(
+        service.postJournalEntry(paymentEntry(-100)),
+      ).rejects.toThrow('Posting amounts must be positive');
+    });
+  });
+
+  describe('isPosted', () => {
+    it('looks the idempotency key up', async () => {
+      await expect(service.isPosted('key')).resolves.toBe(false);
+
+      prisma.ledgerJournalEntry.findUnique.mockResolvedValue({ id: 'entry-1' });
+      await expect(service.isPosted('key')).resolves.toBe(true);
+    });
+  });
+
+  describe('getTrialBalance', () => {
+    const totals = (debit: bigint, credit: bigint) => [
+      { direction: DEBIT, _sum: { amountMinor: debit } },
+      { direction: CREDIT, _sum: { amountMinor: credit } },
+    ];
+
+    beforeEach(() => {
+      prisma.ledgerAccount.findMany.mockResolvedValue([
+        account('clearing', 'GATEWAY_CLEARING', LedgerAccountType.ASSET),
+        account('funds', 'COOPERATIVE_FUNDS:1', LedgerAccountType.LIABILITY),
+        account('fees', 'COPAY_FEE_REVENUE', LedgerAccountType.REVENUE),
+      ]);
+    });
+
+    it('totals debits and credits and balances each account', async () => {
+      const sums: Record<string, ReturnType<typeof totals>> = {
+        clearing: totals(1050000n, 200000n),
+        funds: totals(200000n, 1000000n),
+        fees: totals(0n, 50000n),
+      };
+      prisma.ledgerPosting.groupBy.mockImplementation(
+        ({ where }: { where: { accountId: string } }) =>
+          Promise.resolve(sums[where.accountId]),
+      );
+
+      const trialBalance = await service.getTrialBalance();
+
+      expect(trialBalance.totalDebit).toBe(12500);
+      expect(trialBalance.totalCredit).toBe(12500);
+      expect(trialBalance.isBalanced).toBe(true);
+      expect(
+        trialBalance.accounts.map(({ code, balance }) => [code, balance]),
+      ).toEqual([
+        ['GATEWAY_CLEARING', 8500],
+        ['COOPERATIVE_FUNDS:1', 8000],
+        ['COPAY_FEE_REVENUE', 500],
+      ]);
+    });
+
+    it('reports a ledger that does not balance', async () => {
+      prisma.ledgerPosting.groupBy.mockImplementation(
+        ({ where }: { where: { accountId: string } }) =>
+          Promise.resolve(
+            where.accountId === 'clearing' ? totals(100n, 0n) : [],
+          ),
+      );
+
+      const trialBalance = await service.getTrialBalance();
+
+      expect(trialBalance.isBalanced).toBe(false);
+      expect(trialBalance.totalDebit).toBe(1);
+      expect(trialBalance.totalCredit).toBe(0);
+    });
+
+    it('only counts postings up to asOf', async () => {
+      const asOf = new Date('2026-03-01T00:00:00Z');
+
+      await service.getTrialBalance(asOf);
+
+      expect(prisma.ledgerPosting.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { accountId: 'clearing', occurredAt: { lte: asOf } },
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,748 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  LedgerAccount,
+  LedgerAccountType,
+  LedgerEntryDirection,
+  LedgerJournalEntry,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+import { LedgerPostingFilterDto } from '../presentation/dto/ledger-query.dto';
+import {
+  LedgerAccountBalanceDto,
+  LedgerPostingResponseDto,
+  LedgerReconciliationDto,
+  TrialBalanceDto,
+} from '../presentation/dto/ledger-response.dto';
+
+/**
+ * Chart of accounts
+ * Cooperative accounts are created on first use, one set per cooperative
+ */
+export const LedgerAccounts = {
+  GATEWAY_CLEARING: 'GATEWAY_CLEARING',
+  COPAY_FEE_REVENUE: 'COPAY_FEE_REVENUE',
+  cooperativeFunds: (cooperativeId: string) =>
+    `COOPERATIVE_FUNDS:${cooperativeId}`,
+  cooperativeHeld: (cooperativeId: string) =>
+    `COOPERATIVE_HELD:${cooperativeId}`,
+};
+
+export interface LedgerPostingInput {
+  accountCode: string;
+  direction: LedgerEntryDirection;
+  amount: number; // Major units (RWF)
+  requireFunds?: boolean; // Reject the entry if it would take the account below zero
+}
+
+export interface JournalEntryInput {
+  description: string;
+  referenceType: string;
+  referenceId?: string;
+  idempotencyKey: string;
+  postedBy?: string;
+  occurredAt?: Date;
+  postings: LedgerPostingInput[];
+}
+
+const MINOR_UNITS_PER_RWF = 100;
+
+/**
+ * Thrown when a posting marked requireFunds would overdraw its account
+ */
+export class InsufficientLedgerFundsException extends BadRequestException {
+  constructor(readonly accountCode: string) {
+    super(`Insufficient funds in ledger account ${accountCode}`);
+  }
+}
+
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(private prismaService: PrismaService) {}
+
+  static toMinorUnits(amount: number): bigint {
+    return BigInt(Math.round(amount * MINOR_UNITS_PER_RWF));
+  }
+
+  static fromMinorUnits(amountMinor: bigint | number | null): number {
+    return Number(amountMinor ?? 0) / MINOR_UNITS_PER_RWF;
+  }
+
+  /**
+   * Post a balanced journal entry and move the running balance of its accounts
+   * Posting the same idempotency key twice returns the first entry unchanged
+   */
+  async postJournalEntry(
+    input: JournalEntryInput,
+    tx?: Prisma.TransactionClient,
+  ): Promise<LedgerJournalEntry> {
+    // The entry and the account balances it moves are written together
+    if (!tx) {
+      return this.prismaService.$transaction((client) =>
+        this.postJournalEntry(input, client),
+      );
+    }
+    const client = tx;
+
+    const postings = input.postings
+      .filter((posting) => posting.amount !== 0)
+      .map((posting) => ({
+        ...posting,
+        amountMinor: LedgerService.toMinorUnits(posting.amount),
+      }));
+
+    if (postings.length < 2) {
+      throw new BadRequestException(
+        'A journal entry needs at least two postings',
+      );
+    }
+
+    if (postings.some((posting) => posting.amountMinor <= 0n)) {
+      throw new BadRequestException('Posting amounts must be positive');
+    }
+
+    const totals = this.sumByDirection(postings);
+    if (totals.debit !== totals.credit) {
+      throw new BadRequestException(
+        `Journal entry ${input.idempotencyKey} does not balance: debits ${totals.debit}, credits ${totals.credit}`,
+      );
+    }
+
+    const existing = await client.ledgerJournalEntry.findUnique({
+      where: { idempotencyKey: input.idempotencyKey },
+    });
+
+    if (existing) {
+      this.logger.debug(
+        `Journal entry ${input.idempotencyKey} already posted, skipping`,
+      );
+      return existing;
+    }
+
+    const occurredAt = input.occurredAt ?? new Date();
+    const accounts = new Map<string, LedgerAccount>();
+    for (const posting of postings) {
+      if (!accounts.has(posting.accountCode)) {
+        accounts.set(
+          posting.accountCode,
+          await this.getOrCreateAccount(posting.accountCode, client),
+        );
+      }
+    }
+    const resolved = postings.map((posting) => {
+      const account = accounts.get(posting.accountCode);
+      if (!account) {
+        throw new NotFoundException(
+          `Ledger account ${posting.accountCode} not found`,
+        );
+      }
+      return { ...posting, account };
+    });
+
+    let entry: LedgerJournalEntry;
+    try {
+      entry = await client.ledgerJournalEntry.create({
+        data: {
+          description: input.description,
+          referenceType: input.referenceType,
+          referenceId: input.referenceId,
+          idempotencyKey: input.idempotencyKey,
+          postedBy: input.postedBy,
+          occurredAt,
+          postings: {
+            create: resolved.map((posting) => ({
+              accountId: posting.account.id,
+              direction: posting.direction,
+              amountMinor: posting.amountMinor,
+              occurredAt,
+            })),
+          },
+        },
+      });
+    } catch (error) {
+      // Lost a race with a concurrent post of the same event
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return client.ledgerJournalEntry.findUniqueOrThrow({
+          where: { idempotencyKey: input.idempotencyKey },
+        });
+      }
+      throw error;
+    }
+
+    for (const posting of resolved) {
+      await this.moveAccountBalance(client, posting);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Whether an entry with this idempotency key was already posted
+   */
+  async isPosted(
+    idempotencyKey: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<boolean> {
+    const client = tx ?? this.prismaService;
+
+    const entry = await client.ledgerJournalEntry.findUnique({
+      where: { idempotencyKey },
+      select: { id: true },
+    });
+
+    return entry !== null;
+  }
+
+  /**
+   * Balance of an account, in its normal direction
+   * The current balance is the running balance; a past one is summed from the postings
+   */
+  async getAccountBalance(
+    accountCode: string,
+    asOf?: Date,
+    tx?: Prisma.TransactionClient,
+  ): Promise<number> {
+    const client = tx ?? this.prismaService;
+    const account = await client.ledgerAccount.findUnique({
+      where: { code: accountCode },
+    });
+
+    if (!account) {
+      return 0;
+    }
+
+    if (!asOf) {
+      return LedgerService.fromMinorUnits(account.balanceMinor);
+    }
+
+    const totals = await this.getAccountTotals(account.id, asOf);
+    return LedgerService.fromMinorUnits(
+      this.normalBalance(account.type, totals.debit, totals.credit),
+    );
+  }
+
+  async getCooperativeBalance(
+    cooperativeId: string,
+    asOf?: Date,
+    tx?: Prisma.TransactionClient,
+  ): Promise<LedgerAccountBalanceDto> {
+    const [availableBalance, heldBalance] = await Promise.all([
+      this.getAccountBalance(
+        LedgerAccounts.cooperativeFunds(cooperativeId),
+        asOf,
+        tx,
+      ),
+      this.getAccountBalance(
+        LedgerAccounts.cooperativeHeld(cooperativeId),
+        asOf,
+        tx,
+      ),
+    ]);
+
+    return {
+      cooperativeId,
+      availableBalance,
+      heldBalance,
+      asOf: asOf ?? new Date(),
+    };
+  }
+
+  /**
+   * Current available and held funds of every cooperative with ledger accounts
+   */
+  async getCooperativeBalances(): Promise<
+    Map<string, { availableBalance: number; heldBalance: number }>
+  > {
+    const accounts = await this.prismaService.ledgerAccount.findMany({
+      where: { cooperativeId: { not: null } },
+    });
+
+    const balances = new Map<
+      string,
+      { availableBalance: number; heldBalance: number }
+    >();
+    for (const account of accounts) {
+      if (!account.cooperativeId) {
+        continue;
+      }
+
+      const balance = balances.get(account.cooperativeId) ?? {
+        availableBalance: 0,
+        heldBalance: 0,
+      };
+      const amount = LedgerService.fromMinorUnits(account.balanceMinor);
+      if (
+        account.code === LedgerAccounts.cooperativeHeld(account.cooperativeId)
+      ) {
+        balance.heldBalance = amount;
+      } else {
+        balance.availableBalance = amount;
+      }
+      balances.set(account.cooperativeId, balance);
+    }
+
+    return balances;
+  }
+
+  /**
+   * Debit and credit totals per account; total debits must equal total credits
+   */
+  async getTrialBalance(asOf?: Date): Promise<TrialBalanceDto> {
+    const accounts = await this.prismaService.ledgerAccount.findMany({
+      orderBy: { code: 'asc' },
+    });
+
+    let totalDebitMinor = 0n;
+    let totalCreditMinor = 0n;
+
+    const rows: TrialBalanceDto['accounts'] = [];
+    for (const account of accounts) {
+      const totals = await this.getAccountTotals(account.id, asOf);
+      totalDebitMinor += totals.debit;
+      totalCreditMinor += totals.credit;
+
+      rows.push({
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        cooperativeId: account.cooperativeId ?? undefined,
+        debit: LedgerService.fromMinorUnits(totals.debit),
+        credit: LedgerService.fromMinorUnits(totals.credit),
+        balance: LedgerService.fromMinorUnits(
+          this.normalBalance(account.type, totals.debit, totals.credit),
+        ),
+      });
+    }
+
+    return {
+      asOf: asOf ?? new Date(),
+      accounts: rows,
+      totalDebit: LedgerService.fromMinorUnits(totalDebitMinor),
+      totalCredit: LedgerService.fromMinorUnits(totalCreditMinor),
+      isBalanced: totalDebitMinor === totalCreditMinor,
+    };
+  }
+
+  /**
+   * Compare the cached balance counters with the balances derived from the ledger
+   */
+  async reconcileBalances(): Promise<LedgerReconciliationDto> {
+    const cooperativeBalances =
+      await this.prismaService.cooperativeBalance.findMany({
+        include: {
+          cooperative: { select: { id: true, name: true } },
+        },
+      });
+
+    const cooperatives: LedgerReconciliationDto['cooperatives'] = [];
+    for (const balance of cooperativeBalances) {
+      const ledger = await this.getCooperativeBalance(balance.cooperativeId);
+
+      cooperatives.push({
+        cooperativeId: balance.cooperativeId,
+        cooperativeName: balance.cooperative.name,
+        counterBalance: balance.currentBalance,
+        ledgerBalance: ledger.availableBalance,
+        difference: this.roundMajor(
+          balance.currentBalance - ledger.availableBalance,
+        ),
+        counterHeldBalance: balance.heldBalance,
+        ledgerHeldBalance: ledger.heldBalance,
+        heldDifference: this.roundMajor(
+          balance.heldBalance - ledger.heldBalance,
+        ),
+      });
+    }
+
+    const copayBalance = await this.prismaService.copayBalance.findFirst();
+    const ledgerFeeRevenue = await this.getAccountBalance(
+      LedgerAccounts.COPAY_FEE_REVENUE,
+    );
+    const counterFeeBalance = copayBalance?.currentBalance ?? 0;
+
+    const mismatched = cooperatives.filter(
+      (item) => item.difference !== 0 || item.heldDifference !== 0,
+    );
+
+    return {
+      checkedAt: new Date(),
+      cooperatives,
+      mismatchedCooperatives: mismatched.length,
+      copay: {
+        counterBalance: counterFeeBalance,
+        ledgerBalance: ledgerFeeRevenue,
+        difference: this.roundMajor(counterFeeBalance - ledgerFeeRevenue),
+      },
+      isReconciled:
+        mismatched.length === 0 &&
+        this.roundMajor(counterFeeBalance - ledgerFeeRevenue) === 0,
+    };
+  }
+
+  /**
+   * Rebuild the running account balances from the postings, then rewrite the
+   * cached balance counters from the ledger
+   */
+  async rebuildBalances(): Promise<LedgerReconciliationDto> {
+    const accounts = await this.prismaService.ledgerAccount.findMany();
+    for (const account of accounts) {
+      // A posting committed meanwhile conflicts with this write and aborts it
+      await this.prismaService.$transaction(async (tx) => {
+        const totals = await this.getAccountTotals(account.id, undefined, tx);
+        await tx.ledgerAccount.update({
+          where: { id: account.id },
+          data: {
+            balanceMinor: this.normalBalance(
+              account.type,
+              totals.debit,
+              totals.credit,
+            ),
+          },
+        });
+      });
+    }
+
+    const cooperativeBalances =
+      await this.prismaService.cooperativeBalance.findMany({
+        select: { id: true, cooperativeId: true },
+      });
+    for (const balance of cooperativeBalances) {
+      await this.prismaService.$transaction(async (tx) => {
+        const ledger = await this.getCooperativeBalance(
+          balance.cooperativeId,
+          undefined,
+          tx,
+        );
+        await tx.cooperativeBalance.update({
+          where: { id: balance.id },
+          data: {
+            currentBalance: ledger.availableBalance,
+            heldBalance: ledger.heldBalance,
+          },
+        });
+      });
+    }
+
+    const copayBalance = await this.prismaService.copayBalance.findFirst();
+    if (copayBalance) {
+      await this.prismaService.$transaction(async (tx) => {
+        await tx.copayBalance.update({
+          where: { id: copayBalance.id },
+          data: {
+            currentBalance: await this.getAccountBalance(
+              LedgerAccounts.COPAY_FEE_REVENUE,
+              undefined,
+              tx,
+            ),
+          },
+        });
+      });
+    }
+
+    this.logger.log(
+      `Rebuilt ${accounts.length} ledger account balances and ${cooperativeBalances.length} cooperative counters`,
+    );
+    return this.reconcileBalances();
+  }
+
+  /**
+   * Seed the ledger from the existing counters
+   * Posts the difference between each counter and its ledger account once, so
+   * history recorded before the ledger existed is carried over as an opening balance
+   */
+  async postOpeningBalances(postedBy: string): Promise<{ posted: number }> {
+    const cooperativeBalances =
+      await this.prismaService.cooperativeBalance.findMany();
+    let posted = 0;
+
+    for (const balance of cooperativeBalances) {
+      const ledger = await this.getCooperativeBalance(balance.cooperativeId);
+
+      posted += await this.postOpeningDifference(
+        LedgerAccounts.cooperativeFunds(balance.cooperativeId),
+        balance.currentBalance - ledger.availableBalance,
+        postedBy,
+      );
+      posted += await this.postOpeningDifference(
+        LedgerAccounts.cooperativeHeld(balance.cooperativeId),
+        balance.heldBalance - ledger.heldBalance,
+        postedBy,
+      );
+    }
+
+    const copayBalance = await this.prismaService.copayBalance.findFirst();
+    if (copayBalance) {
+      const ledgerFeeRevenue = await this.getAccountBalance(
+        LedgerAccounts.COPAY_FEE_REVENUE,
+      );
+      posted += await this.postOpeningDifference(
+        LedgerAccounts.COPAY_FEE_REVENUE,
+        copayBalance.currentBalance - ledgerFeeRevenue,
+        postedBy,
+      );
+    }
+
+    this.logger.log(`Posted ${posted} opening balance entries`);
+    return { posted };
+  }
+
+  async getAccountPostings(
+    accountCode: string,
+    filterDto: LedgerPostingFilterDto,
+  ): Promise<PaginatedResponseDto<LedgerPostingResponseDto>> {
+    const account = await this.prismaService.ledgerAccount.findUnique({
+      where: { code: accountCode },
+    });
+
+    if (!account) {
+      throw new NotFoundException('Ledger account not found');
+    }
+
+    const { page, limit, skip } = filterDto;
+    const where: Prisma.LedgerPostingWhereInput = {
+      accountId: account.id,
+      ...(filterDto.asOf && { occurredAt: { lte: new Date(filterDto.asOf) } }),
+    };
+
+    const [postings, total] = await Promise.all([
+      this.prismaService.ledgerPosting.findMany({
+        where,
+        include: { journalEntry: true },
+        orderBy: { occurredAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prismaService.ledgerPosting.count({ where }),
+    ]);
+
+    return new PaginatedResponseDto(
+      postings.map((posting) => ({
+        id: posting.id,
+        accountCode: account.code,
+        direction: posting.direction,
+        amount: LedgerService.fromMinorUnits(posting.amountMinor),
+        description: posting.journalEntry.description,
+        referenceType: posting.journalEntry.referenceType,
+        referenceId: posting.journalEntry.referenceId ?? undefined,
+        occurredAt: posting.occurredAt,
+      })),
+      total,
+      page || 1,
+      limit || 10,
+    );
+  }
+
+  private async postOpeningDifference(
+    accountCode: string,
+    difference: number,
+    postedBy: string,
+  ): Promise<number> {
+    const amount = this.roundMajor(Math.abs(difference));
+    if (amount === 0) {
+      return 0;
+    }
+
+    const idempotencyKey = `opening:${accountCode}`;
+    const alreadyPosted =
+      await this.prismaService.ledgerJournalEntry.findUnique({
+        where: { idempotencyKey },
+      });
+    if (alreadyPosted) {
+      return 0;
+    }
+
+    // A positive difference means the counter holds more than the ledger
+    const increase = difference > 0;
+    const account = this.describeAccount(accountCode);
+    const accountDirection =
+      account.type === LedgerAccountType.ASSET
+        ? increase
+          ? LedgerEntryDirection.DEBIT
+          : LedgerEntryDirection.CREDIT
+        : increase
+          ? LedgerEntryDirection.CREDIT
+          : LedgerEntryDirection.DEBIT;
+
+    await this.postJournalEntry({
+      description: `Opening balance for ${account.name}`,
+      referenceType: 'OPENING_BALANCE',
+      idempotencyKey,
+      postedBy,
+      postings: [
+        { accountCode, direction: accountDirection, amount },
+        {
+          accountCode: LedgerAccounts.GATEWAY_CLEARING,
+          direction:
+            accountDirection === LedgerEntryDirection.DEBIT
+              ? LedgerEntryDirection.CREDIT
+              : LedgerEntryDirection.DEBIT,
+          amount,
+        },
+      ],
+    });
+
+    return 1;
+  }
+
+  private async getOrCreateAccount(
+    code: string,
+    client: Prisma.TransactionClient | PrismaService,
+  ): Promise<LedgerAccount> {
+    const existing = await client.ledgerAccount.findUnique({
+      where: { code },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const definition = this.describeAccount(code);
+    return client.ledgerAccount.upsert({
+      where: { code },
+      update: {},
+      create: {
+        code,
+        name: definition.name,
+        type: definition.type,
+        cooperativeId: definition.cooperativeId,
+      },
+    });
+  }
+
+  private describeAccount(code: string): {
+    name: string;
+    type: LedgerAccountType;
+    cooperativeId?: string;
+  } {
+    const [prefix, cooperativeId] = code.split(':');
+
+    switch (prefix) {
+      case LedgerAccounts.GATEWAY_CLEARING:
+        return {
+          name: 'Gateway clearing',
+          type: LedgerAccountType.ASSET,
+        };
+      case LedgerAccounts.COPAY_FEE_REVENUE:
+        return {
+          name: 'CoPay fee revenue',
+          type: LedgerAccountType.REVENUE,
+        };
+      case 'COOPERATIVE_FUNDS':
+        return {
+          name: 'Cooperative available funds',
+          type: LedgerAccountType.LIABILITY,
+          cooperativeId,
+        };
+      case 'COOPERATIVE_HELD':
+        return {
+          name: 'Cooperative funds held for withdrawals',
+          type: LedgerAccountType.LIABILITY,
+          cooperativeId,
+        };
+      default:
+        throw new BadRequestException(`Unknown ledger account ${code}`);
+    }
+  }
+
+  /**
+   * Apply one posting to the running balance of its account. Postings that
+   * require funds only go through while the account still covers them
+   */
+  private async moveAccountBalance(
+    client: Prisma.TransactionClient,
+    posting: {
+      account: LedgerAccount;
+      direction: LedgerEntryDirection;
+      amountMinor: bigint;
+      requireFunds?: boolean;
+    },
+  ): Promise<void> {
+    const { account } = posting;
+    const change =
+      posting.direction === LedgerEntryDirection.DEBIT
+        ? this.normalBalance(account.type, posting.amountMinor, 0n)
+        : this.normalBalance(account.type, 0n, posting.amountMinor);
+
+    if (posting.requireFunds && change < 0n) {
+      const moved = await client.ledgerAccount.updateMany({
+        where: { id: account.id, balanceMinor: { gte: -change } },
+        data: { balanceMinor: { increment: change } },
+      });
+
+      if (moved.count === 0) {
+        throw new InsufficientLedgerFundsException(account.code);
+      }
+      return;
+    }
+
+    await client.ledgerAccount.update({
+      where: { id: account.id },
+      data: { balanceMinor: { increment: change } },
+    });
+  }
+
+  private async getAccountTotals(
+    accountId: string,
+    asOf?: Date,
+    tx?: Prisma.TransactionClient,
+  ): Promise<{ debit: bigint; credit: bigint }> {
+    const client = tx ?? this.prismaService;
+    const groups = await client.ledgerPosting.groupBy({
+      by: ['direction'],
+      where: {
+        accountId,
+        ...(asOf && { occurredAt: { lte: asOf } }),
+      },
+      _sum: { amountMinor: true },
+    });
+
+    const totals = { debit: 0n, credit: 0n };
+    for (const group of groups) {
+      const sum = BigInt(group._sum.amountMinor ?? 0);
+      if (group.direction === LedgerEntryDirection.DEBIT) {
+        totals.debit = sum;
+      } else {
+        totals.credit = sum;
+      }
+    }
+    return totals;
+  }
+
+  private sumByDirection(
+    postings: Array<{ direction: LedgerEntryDirection; amountMinor: bigint }>,
+  ): { debit: bigint; credit: bigint } {
+    return postings.reduce(
+      (totals, posting) => {
+        if (posting.direction === LedgerEntryDirection.DEBIT) {
+          totals.debit += posting.amountMinor;
+        } else {
+          totals.credit += posting.amountMinor;
+        }
+        return totals;
+      },
+      { debit: 0n, credit: 0n },
+    );
+  }
+
+  private normalBalance(
+    type: LedgerAccountType,
+    debit: bigint,
+    credit: bigint,
+  ): bigint {
+    return type === LedgerAccountType.ASSET ? debit - credit : credit - debit;
+  }
+
+  private roundMajor(amount: number): number {
+    return Math.round(amount * MINOR_UNITS_PER_RWF) / MINOR_UNITS_PER_RWF;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { LedgerService } from './application/ledger.service';
+import { LedgerController } from './presentation/ledger.controller';
+import { PrismaService } from '../../prisma/prisma.service';
+
+@Module({
+  controllers: [LedgerController],
+  providers: [LedgerService, PrismaService],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
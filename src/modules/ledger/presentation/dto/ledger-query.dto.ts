@@ -0,0 +1,23 @@
+import { IsOptional, IsDateString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationDto } from '../../../../shared/dto/pagination.dto';
+
+export class LedgerAsOfQueryDto {
+  @ApiPropertyOptional({
+    description: 'Compute balances as of this date (defaults to now)',
+    example: '2025-10-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  asOf?: string;
+}
+
+export class LedgerPostingFilterDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Only include postings up to this date',
+    example: '2025-10-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  asOf?: string;
+}
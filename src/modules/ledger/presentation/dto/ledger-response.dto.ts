@@ -0,0 +1,169 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LedgerAccountType, LedgerEntryDirection } from '@prisma/client';
+
+export class LedgerAccountBalanceDto {
+  @ApiProperty({
+    description: 'Cooperative ID',
+    example: '507f1f77bcf86cd799439012',
+  })
+  cooperativeId: string;
+
+  @ApiProperty({
+    description: 'Available funds derived from the ledger (RWF)',
+    example: 150000,
+  })
+  availableBalance: number;
+
+  @ApiProperty({
+    description: 'Funds held for pending withdrawals (RWF)',
+    example: 50000,
+  })
+  heldBalance: number;
+
+  @ApiProperty({
+    description: 'Point in time the balances were computed for',
+  })
+  asOf: Date;
+}
+
+export class TrialBalanceAccountDto {
+  @ApiProperty({
+    description: 'Account code',
+    example: 'COOPERATIVE_FUNDS:507f1f77bcf86cd799439012',
+  })
+  code: string;
+
+  @ApiProperty({
+    description: 'Account name',
+    example: 'Cooperative available funds',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Account type',
+    enum: LedgerAccountType,
+  })
+  type: LedgerAccountType;
+
+  @ApiPropertyOptional({
+    description: 'Cooperative the account belongs to',
+  })
+  cooperativeId?: string;
+
+  @ApiProperty({ description: 'Total debits (RWF)', example: 0 })
+  debit: number;
+
+  @ApiProperty({ description: 'Total credits (RWF)', example: 500000 })
+  credit: number;
+
+  @ApiProperty({
+    description: 'Balance in the normal direction of the account (RWF)',
+    example: 500000,
+  })
+  balance: number;
+}
+
+export class TrialBalanceDto {
+  @ApiProperty({ description: 'Point in time of the trial balance' })
+  asOf: Date;
+
+  @ApiProperty({ type: [TrialBalanceAccountDto] })
+  accounts: TrialBalanceAccountDto[];
+
+  @ApiProperty({ description: 'Sum of all debits (RWF)', example: 500000 })
+  totalDebit: number;
+
+  @ApiProperty({ description: 'Sum of all credits (RWF)', example: 500000 })
+  totalCredit: number;
+
+  @ApiProperty({
+    description: 'Whether total debits equal total credits',
+    example: true,
+  })
+  isBalanced: boolean;
+}
+
+export class CooperativeReconciliationDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439012' })
+  cooperativeId: string;
+
+  @ApiProperty({ example: 'Kigali Housing Cooperative' })
+  cooperativeName: string;
+
+  @ApiProperty({
+    description: 'currentBalance counter on CooperativeBalance',
+    example: 150000,
+  })
+  counterBalance: number;
+
+  @ApiProperty({
+    description: 'Available balance derived from the ledger',
+    example: 150000,
+  })
+  ledgerBalance: number;
+
+  @ApiProperty({ description: 'counterBalance - ledgerBalance', example: 0 })
+  difference: number;
+
+  @ApiProperty({ example: 0 })
+  counterHeldBalance: number;
+
+  @ApiProperty({ example: 0 })
+  ledgerHeldBalance: number;
+
+  @ApiProperty({ example: 0 })
+  heldDifference: number;
+}
+
+export class LedgerReconciliationDto {
+  @ApiProperty()
+  checkedAt: Date;
+
+  @ApiProperty({ type: [CooperativeReconciliationDto] })
+  cooperatives: CooperativeReconciliationDto[];
+
+  @ApiProperty({
+    description: 'Number of cooperatives whose counters drifted',
+    example: 0,
+  })
+  mismatchedCooperatives: number;
+
+  @ApiProperty({ description: 'CoPay fee balance comparison' })
+  copay: {
+    counterBalance: number;
+    ledgerBalance: number;
+    difference: number;
+  };
+
+  @ApiProperty({
+    description: 'True when every counter matches the ledger',
+    example: true,
+  })
+  isReconciled: boolean;
+}
+
+export class LedgerPostingResponseDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439040' })
+  id: string;
+
+  @ApiProperty({ example: 'COOPERATIVE_FUNDS:507f1f77bcf86cd799439012' })
+  accountCode: string;
+
+  @ApiProperty({ enum: LedgerEntryDirection })
+  direction: LedgerEntryDirection;
+
+  @ApiProperty({ description: 'Amount (RWF)', example: 50000 })
+  amount: number;
+
+  @ApiProperty({ example: 'Payment from Jean Uwimana' })
+  description: string;
+
+  @ApiProperty({ example: 'PAYMENT' })
+  referenceType: string;
+
+  @ApiPropertyOptional({ example: '67890abcdef12345' })
+  referenceId?: string;
+
+  @ApiProperty()
+  occurredAt: Date;
+}
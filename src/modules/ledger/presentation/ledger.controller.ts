@@ -0,0 +1,168 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { LedgerService } from '../application/ledger.service';
+import {
+  LedgerAsOfQueryDto,
+  LedgerPostingFilterDto,
+} from './dto/ledger-query.dto';
+import {
+  LedgerAccountBalanceDto,
+  LedgerPostingResponseDto,
+  LedgerReconciliationDto,
+  TrialBalanceDto,
+} from './dto/ledger-response.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/auth.decorator';
+import { CurrentUser } from '../../../shared/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../../../shared/decorators/current-user.decorator';
+
+@ApiTags('Ledger')
+@Controller('ledger')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class LedgerController {
+  constructor(private ledgerService: LedgerService) {}
+
+  @Get('trial-balance')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Get trial balance',
+    description:
+      'Debit and credit totals for every ledger account at a point in time (Super Admin only)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Trial balance retrieved successfully',
+    type: TrialBalanceDto,
+  })
+  async getTrialBalance(
+    @Query() query: LedgerAsOfQueryDto,
+  ): Promise<TrialBalanceDto> {
+    return this.ledgerService.getTrialBalance(
+      query.asOf ? new Date(query.asOf) : undefined,
+    );
+  }
+
+  @Get('reconciliation')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Reconcile balance counters with the ledger',
+    description:
+      'Compare cooperative and CoPay balance counters with the balances derived from ledger postings (Super Admin only)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reconciliation report generated successfully',
+    type: LedgerReconciliationDto,
+  })
+  async reconcile(): Promise<LedgerReconciliationDto> {
+    return this.ledgerService.reconcileBalances();
+  }
+
+  @Post('reconciliation/rebuild')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Rebuild balances from the ledger',
+    description:
+      'Recompute running account balances from the postings and rewrite the cached balance counters from them (Super Admin only)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Balances rebuilt, returns the reconciliation report',
+    type: LedgerReconciliationDto,
+  })
+  async rebuildBalances(): Promise<LedgerReconciliationDto> {
+    return this.ledgerService.rebuildBalances();
+  }
+
+  @Post('opening-balances')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Post opening balances',
+    description:
+      'Carry existing balance counters into the ledger as opening balances. Each account is seeded at most once (Super Admin only)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Opening balances posted',
+  })
+  async postOpeningBalances(
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<{ posted: number }> {
+    return this.ledgerService.postOpeningBalances(currentUser.id);
+  }
+
+  @Get('cooperatives/:cooperativeId/balance')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+  @ApiOperation({
+    summary: 'Get cooperative ledger balance',
+    description:
+      'Available and held funds of a cooperative derived from the ledger, optionally as of a past date',
+  })
+  @ApiParam({ name: 'cooperativeId', description: 'Cooperative ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Cooperative ledger balance retrieved successfully',
+    type: LedgerAccountBalanceDto,
+  })
+  async getCooperativeBalance(
+    @Param('cooperativeId') cooperativeId: string,
+    @Query() query: LedgerAsOfQueryDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<LedgerAccountBalanceDto> {
+    if (
+      currentUser.role === UserRole.ORGANIZATION_ADMIN &&
+      currentUser.cooperativeId !== cooperativeId
+    ) {
+      throw new ForbiddenException(
+        'You can only view your own cooperative balance',
+      );
+    }
+
+    return this.ledgerService.getCooperativeBalance(
+      cooperativeId,
+      query.asOf ? new Date(query.asOf) : undefined,
+    );
+  }
+
+  @Get('accounts/:code/postings')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Get account postings',
+    description:
+      'Posting history of a ledger account, newest first (Super Admin only)',
+  })
+  @ApiParam({
+    name: 'code',
+    description: 'Ledger account code',
+    example: 'COPAY_FEE_REVENUE',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Postings retrieved successfully',
+    type: PaginatedResponseDto<LedgerPostingResponseDto>,
+  })
+  async getAccountPostings(
+    @Param('code') code: string,
+    @Query() filterDto: LedgerPostingFilterDto,
+  ): Promise<PaginatedResponseDto<LedgerPostingResponseDto>> {
+    return this.ledgerService.getAccountPostings(code, filterDto);
+  }
+}
@@ -0,0 +1,67 @@
+import { DigestFrequency } from '@prisma/client';
+import { getNextDigestAt } from './digest-schedule';
+
+// Kigali is UTC+2, so 08:00 there is 06:00Z. 2026-03-10 is a Tuesday
+describe('getNextDigestAt', () => {
+  describe('daily', () => {
+    const schedule = { frequency: DigestFrequency.DAILY, sendHour: 8 };
+
+    it('goes out later the same day', () => {
+      expect(
+        getNextDigestAt(schedule, new Date('2026-03-10T05:00:00Z')),
+      ).toEqual(new Date('2026-03-10T06:00:00Z'));
+    });
+
+    it('goes out the next day once the hour has come', () => {
+      expect(
+        getNextDigestAt(schedule, new Date('2026-03-10T06:00:00Z')),
+      ).toEqual(new Date('2026-03-11T06:00:00Z'));
+    });
+
+    it('uses the Kigali date after midnight there', () => {
+      // 00:30 on the 11th in Kigali
+      expect(
+        getNextDigestAt(schedule, new Date('2026-03-10T22:30:00Z')),
+      ).toEqual(new Date('2026-03-11T06:00:00Z'));
+    });
+  });
+
+  describe('weekly', () => {
+    it('defaults to Monday', () => {
+      expect(
+        getNextDigestAt(
+          { frequency: DigestFrequency.WEEKLY, sendHour: 8 },
+          new Date('2026-03-10T05:00:00Z'),
+        ),
+      ).toEqual(new Date('2026-03-16T06:00:00Z'));
+    });
+
+    it('goes out later on the same weekday', () => {
+      expect(
+        getNextDigestAt(
+          { frequency: DigestFrequency.WEEKLY, sendHour: 8, sendDayOfWeek: 2 },
+          new Date('2026-03-10T05:00:00Z'),
+        ),
+      ).toEqual(new Date('2026-03-10T06:00:00Z'));
+    });
+
+    it('waits a week once the hour has passed on that weekday', () => {
+      expect(
+        getNextDigestAt(
+          { frequency: DigestFrequency.WEEKLY, sendHour: 8, sendDayOfWeek: 2 },
+          new Date('2026-03-10T07:00:00Z'),
+        ),
+      ).toEqual(new Date('2026-03-17T06:00:00Z'));
+    });
+
+    it('uses the Kigali weekday', () => {
+      // Sunday 22:30Z is already Monday 00:30 in Kigali
+      expect(
+        getNextDigestAt(
+          { frequency: DigestFrequency.WEEKLY, sendHour: 8, sendDayOfWeek: 1 },
+          new Date('2026-03-15T22:30:00Z'),
+        ),
+      ).toEqual(new Date('2026-03-16T06:00:00Z'));
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { DigestFrequency } from '@prisma/client';
+import { KIGALI_UTC_OFFSET_MINUTES } from './quiet-hours';
+
+const OFFSET_MS = KIGALI_UTC_OFFSET_MINUTES * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_DIGEST_HOUR = 8;
+export const DEFAULT_DIGEST_DAY_OF_WEEK = 1; // Monday
+
+export interface DigestSchedule {
+  frequency: DigestFrequency;
+  sendHour: number; // 0-23, Africa/Kigali time
+  sendDayOfWeek?: number | null; // 0 (Sunday) to 6, weekly digests only
+}
+
+/**
+ * First time after `now` the digest goes out, on the hour in Kigali time
+ */
+export function getNextDigestAt(
+  schedule: DigestSchedule,
+  now: Date = new Date(),
+): Date {
+  // Work on Kigali wall-clock time through the UTC getters
+  const local = new Date(now.getTime() + OFFSET_MS);
+  const next = new Date(local);
+  next.setUTCHours(schedule.sendHour, 0, 0, 0);
+
+  if (next <= local) {
+    next.setTime(next.getTime() + DAY_MS);
+  }
+
+  if (schedule.frequency === DigestFrequency.WEEKLY) {
+    const dayOfWeek = schedule.sendDayOfWeek ?? DEFAULT_DIGEST_DAY_OF_WEEK;
+    const daysLeft = (dayOfWeek - next.getUTCDay() + 7) % 7;
+    next.setTime(next.getTime() + daysLeft * DAY_MS);
+  }
+
+  return new Date(next.getTime() - OFFSET_MS);
+}
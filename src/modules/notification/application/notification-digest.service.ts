@@ -0,0 +1,360 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  DigestFrequency,
+  Language,
+  Notification,
+  NotificationCategory,
+  NotificationStatus,
+  NotificationType,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { NotificationPreferenceService } from './notification-preference.service';
+import { QUIET_HOURS_TIME_ZONE } from './quiet-hours';
+import { DEFAULT_DIGEST_HOUR, getNextDigestAt } from './digest-schedule';
+import { EmailDetail } from '../../email/application/email-templates';
+import { getLocale, translate } from '../../../shared/i18n/messages';
+import {
+  DigestSettingsDto,
+  UpdateDigestSettingsDto,
+} from '../presentation/dto/notification-digest.dto';
+
+// Notifications the user did not ask for and that can wait. Receipts and
+// complaint updates answer something the user did
+const DIGEST_CATEGORIES: NotificationCategory[] = [
+  NotificationCategory.REMINDERS,
+  NotificationCategory.ANNOUNCEMENTS,
+];
+
+// In-app notifications cost nothing and wait in the app anyway
+const DIGEST_CHANNELS: NotificationType[] = [
+  NotificationType.SMS,
+  NotificationType.EMAIL,
+  NotificationType.PUSH_NOTIFICATION,
+];
+
+const BATCH_SIZE = 1000;
+
+// What a notification adds to the digest, kept in its metadata
+export interface DigestItem {
+  category: NotificationCategory;
+  label: string; // Payment type or announcement title
+  amount?: number;
+  dueDate?: string;
+}
+
+type WaitingNotification = Notification & {
+  user: { preferredLanguage: Language | null };
+};
+
+@Injectable()
+export class NotificationDigestService {
+  private readonly logger = new Logger(NotificationDigestService.name);
+
+  constructor(
+    private prismaService: PrismaService,
+    private notificationPreferenceService: NotificationPreferenceService,
+  ) {}
+
+  async getSettings(cooperativeId: string): Promise<DigestSettingsDto> {
+    const setting =
+      await this.prismaService.notificationDigestSetting.findUnique({
+        where: { cooperativeId },
+      });
+
+    if (!setting) {
+      return {
+        cooperativeId,
+        enabled: false,
+        frequency: DigestFrequency.DAILY,
+        sendHour: DEFAULT_DIGEST_HOUR,
+        timeZone: QUIET_HOURS_TIME_ZONE,
+      };
+    }
+
+    return {
+      cooperativeId,
+      enabled: setting.enabled,
+      frequency: setting.frequency,
+      sendHour: setting.sendHour,
+      sendDayOfWeek: setting.sendDayOfWeek ?? undefined,
+      timeZone: QUIET_HOURS_TIME_ZONE,
+      nextDigestAt: setting.enabled ? getNextDigestAt(setting) : undefined,
+    };
+  }
+
+  async updateSettings(
+    cooperativeId: string,
+    updateDto: UpdateDigestSettingsDto,
+    updatedBy: string,
+  ): Promise<DigestSettingsDto> {
+    const cooperative = await this.prismaService.cooperative.findUnique({
+      where: { id: cooperativeId },
+      select: { id: true },
+    });
+
+    if (!cooperative) {
+      throw new NotFoundException('Cooperative not found');
+    }
+
+    const data = {
+      enabled: updateDto.enabled,
+      frequency: updateDto.frequency,
+      sendHour: updateDto.sendHour,
+      sendDayOfWeek: updateDto.sendDayOfWeek,
+      updatedBy,
+    };
+
+    const setting = await this.prismaService.notificationDigestSetting.upsert({
+      where: { cooperativeId },
+      create: { cooperativeId, ...data },
+      update: data,
+    });
+
+    // Notifications already waiting follow the new settings
+    const waiting = {
+      cooperativeId,
+      status: NotificationStatus.PENDING,
+      digestAt: { not: null },
+    };
+    const { count } = await this.prismaService.notification.updateMany({
+      where: waiting,
+      data: setting.enabled
+        ? { digestAt: getNextDigestAt(setting) }
+        : { digestAt: null, nextRetryAt: new Date() },
+    });
+
+    this.logger.log(
+      `Digest settings updated for cooperative ${cooperativeId} (${count} waiting notification(s) ${setting.enabled ? 'rescheduled' : 'released'})`,
+    );
+
+    return this.getSettings(cooperativeId);
+  }
+
+  /**
+   * When a notification should go out as part of the cooperative's next
+   * digest, or null when it goes out on its own
+   */
+  async getDigestAt(
+    cooperativeId: string,
+    type: NotificationType,
+    category: NotificationCategory | null,
+    now: Date = new Date(),
+  ): Promise<Date | null> {
+    if (
+      !category ||
+      !DIGEST_CATEGORIES.includes(category) ||
+      !DIGEST_CHANNELS.includes(type)
+    ) {
+      return null;
+    }
+
+    const setting =
+      await this.prismaService.notificationDigestSetting.findUnique({
+        where: { cooperativeId },
+      });
+
+    return setting?.enabled ? getNextDigestAt(setting, now) : null;
+  }
+
+  /**
+   * Folds the notifications whose digest is due into one notification per
+   * user, channel and cooperative and queues it. Returns how many digests
+   * were queued
+   */
+  async sendDueDigests(now: Date = new Date()): Promise<number> {
+    const notifications = await this.prismaService.notification.findMany({
+      where: {
+        status: NotificationStatus.PENDING,
+        digestAt: { lte: now },
+      },
+      include: { user: { select: { preferredLanguage: true } } },
+      orderBy: { createdAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    const groups = new Map<string, WaitingNotification[]>();
+    for (const notification of notifications) {
+      const key = `${notification.userId}:${notification.type}:${notification.cooperativeId ?? ''}`;
+      groups.set(key, [...(groups.get(key) ?? []), notification]);
+    }
+
+    let sent = 0;
+    for (const items of groups.values()) {
+      try {
+        await this.sendDigest(items, now);
+        sent++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to send digest to user ${items[0].userId}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return sent;
+  }
+
+  private async sendDigest(
+    items: WaitingNotification[],
+    now: Date,
+  ): Promise<void> {
+    const [first] = items;
+
+    // The digest hour may fall in the user's quiet hours
+    const decision = await this.notificationPreferenceService.checkDelivery(
+      first.userId,
+      first.type,
+      null,
+      false,
+      now,
+    );
+
+    // Nothing to fold, it goes out as it is
+    if (items.length === 1) {
+      await this.prismaService.notification.update({
+        where: { id: first.id },
+        data: {
+          digestAt: null,
+          scheduledFor: decision.deferUntil,
+          nextRetryAt: decision.deferUntil ?? now,
+        },
+      });
+      return;
+    }
+
+    const language = first.user.preferredLanguage;
+    const { message, details } = this.buildDigest(
+      items.map((item) => this.getDigestItem(item)),
+      language,
+    );
+
+    await this.prismaService.$transaction(async (tx) => {
+      const digest = await tx.notification.create({
+        data: {
+          type: first.type,
+          status: NotificationStatus.PENDING,
+          title: translate(language, 'digest.title'),
+          message,
+          userId: first.userId,
+          cooperativeId: first.cooperativeId,
+          recipient: items[items.length - 1].recipient,
+          scheduledFor: decision.deferUntil,
+          nextRetryAt: decision.deferUntil ?? now,
+          metadata: {
+            digestSize: items.length,
+            ...(first.type === NotificationType.EMAIL && {
+              email: {
+                kind: 'digest',
+                details: details.map(({ label, value }) => ({ label, value })),
+              },
+            }),
+          },
+        },
+      });
+
+      await tx.notification.updateMany({
+        where: {
+          id: { in: items.map((item) => item.id) },
+          status: NotificationStatus.PENDING,
+        },
+        data: { status: NotificationStatus.DIGESTED, digestId: digest.id },
+      });
+    });
+  }
+
+  /**
+   * Message such as "You owe Rent 30,000 and Water 2,000 by 5 November.", plus
+   * one row per item for emails
+   */
+  private buildDigest(
+    items: DigestItem[],
+    language: Language | null,
+  ): { message: string; details: EmailDetail[] } {
+    const locale = getLocale(language);
+    const formatDate = (date: string) =>
+      new Date(date).toLocaleDateString(locale, {
+        day: 'numeric',
+        month: 'long',
+        timeZone: QUIET_HOURS_TIME_ZONE,
+      });
+
+    const parts: string[] = [];
+    const details: EmailDetail[] = [];
+
+    const reminders = items.filter(
+      (item) => item.category === NotificationCategory.REMINDERS,
+    );
+    if (reminders.length > 0) {
+      // Payments due the same day share one "by <date>"
+      const byDate = new Map<string, string[]>();
+      for (const reminder of reminders) {
+        const amount = reminder.amount
+          ? new Intl.NumberFormat(locale).format(reminder.amount)
+          : '';
+        const date = reminder.dueDate ? formatDate(reminder.dueDate) : '';
+        const text = amount ? `${reminder.label} ${amount}` : reminder.label;
+
+        byDate.set(date, [...(byDate.get(date) ?? []), text]);
+        details.push({
+          label: reminder.label,
+          value: [amount, date].filter(Boolean).join(' - ') || '-',
+        });
+      }
+
+      const groups = [...byDate].map(([date, texts]) =>
+        date
+          ? translate(language, 'digest.dueBy', {
+              items: this.joinList(texts, language),
+              date,
+            })
+          : this.joinList(texts, language),
+      );
+      parts.push(
+        translate(language, 'digest.reminders', {
+          items: this.joinList(groups, language),
+        }),
+      );
+    }
+
+    const announcements = items.filter(
+      (item) => item.category === NotificationCategory.ANNOUNCEMENTS,
+    );
+    if (announcements.length > 0) {
+      parts.push(
+        translate(language, 'digest.announcements', {
+          titles: announcements.map((item) => item.label).join(', '),
+        }),
+      );
+      for (const announcement of announcements) {
+        details.push({
+          label: translate(language, 'email.announcement.heading'),
+          value: announcement.label,
+        });
+      }
+    }
+
+    return { message: parts.join(' '), details };
+  }
+
+  private getDigestItem(notification: Notification): DigestItem {
+    const metadata = (notification.metadata ?? {}) as {
+      digestItem?: DigestItem;
+    };
+
+    return (
+      metadata.digestItem ?? {
+        category: notification.reminderId
+          ? NotificationCategory.REMINDERS
+          : NotificationCategory.ANNOUNCEMENTS,
+        label: notification.title,
+      }
+    );
+  }
+
+  private joinList(values: string[], language: Language | null): string {
+    if (values.length <= 1) {
+      return values.join('');
+    }
+
+    return `${values.slice(0, -1).join(', ')} ${translate(language, 'digest.and')} ${values[values.length - 1]}`;
+  }
+}
@@ -0,0 +1,262 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  Notification,
+  NotificationStatus,
+  NotificationType,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { NotificationOutboxService } from './notification-outbox.service';
+import { NotificationService } from './notification.service';
+
+const NOW = new Date('2026-03-10T08:00:00Z');
+
+interface NotificationChange {
+  where: Prisma.NotificationWhereInput;
+  data: Partial<Notification>;
+}
+
+describe('NotificationOutboxService', () => {
+  let service: NotificationOutboxService;
+  let prisma: {
+    notification: Record<
+      'findMany' | 'findUnique' | 'updateMany' | 'update',
+      jest.Mock
+    >;
+    notificationRateWindow: Record<'updateMany' | 'create', jest.Mock>;
+  };
+  let notificationService: { deliver: jest.Mock };
+
+  const createService = async (rateLimits = '') => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationOutboxService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: NotificationService, useValue: notificationService },
+        { provide: ConfigService, useValue: { get: () => rateLimits } },
+      ],
+    }).compile();
+
+    return module.get(NotificationOutboxService);
+  };
+
+  const pending = (overrides: Record<string, unknown> = {}) => ({
+    id: 'notification-1',
+    type: NotificationType.SMS,
+    status: NotificationStatus.PENDING,
+    retryCount: 0,
+    maxRetries: 3,
+    user: { id: 'user-1' },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    prisma = {
+      notification: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      notificationRateWindow: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        create: jest.fn().mockResolvedValue({}),
+      },
+    };
+    notificationService = { deliver: jest.fn().mockResolvedValue(true) };
+
+    service = await createService();
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('dispatchPending', () => {
+    it('claims, sends and marks notifications SENT', async () => {
+      prisma.notification.findMany.mockResolvedValue([pending()]);
+
+      const result = await service.dispatchPending(NOW);
+
+      expect(result).toEqual({
+        sent: 1,
+        failed: 0,
+        deadLettered: 0,
+        throttled: 0,
+      });
+      expect(prisma.notification.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'notification-1', status: NotificationStatus.PENDING },
+        data: { status: NotificationStatus.SENT, lockedUntil: null },
+      });
+    });
+
+    it('skips notifications another worker claimed first', async () => {
+      prisma.notification.findMany.mockResolvedValue([pending()]);
+      prisma.notification.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await service.dispatchPending(NOW);
+
+      expect(result.sent).toBe(0);
+      expect(notificationService.deliver).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [1, 15_000, 30_000],
+      [3, 60_000, 120_000],
+      [10, 30 * 60_000, 60 * 60_000],
+    ])(
+      'retries attempt %i after %i to %i ms',
+      async (retryCount, minDelay, maxDelay) => {
+        prisma.notification.findMany.mockResolvedValue([
+          pending({ retryCount: retryCount - 1, maxRetries: 20 }),
+        ]);
+        notificationService.deliver.mockRejectedValue(new Error('timeout'));
+
+        const delays: number[] = [];
+        for (const random of [0, 1 - Number.EPSILON]) {
+          jest.spyOn(Math, 'random').mockReturnValue(random);
+          prisma.notification.update.mockClear();
+
+          const result = await service.dispatchPending(NOW);
+
+          expect(result.failed).toBe(1);
+          const [{ data }] = prisma.notification.update.mock.calls[0] as [
+            NotificationChange,
+          ];
+          expect(data.retryCount).toBe(retryCount);
+          expect(data.errorMessage).toBe('timeout');
+          expect(data.lockedUntil).toBeNull();
+          delays.push(data.nextRetryAt!.getTime() - NOW.getTime());
+        }
+
+        expect(delays).toEqual([minDelay, maxDelay]);
+      },
+    );
+
+    it('dead-letters notifications that ran out of retries', async () => {
+      prisma.notification.findMany.mockResolvedValue([
+        pending({ retryCount: 3, maxRetries: 3 }),
+      ]);
+      notificationService.deliver.mockRejectedValue(new Error('rejected'));
+
+      const result = await service.dispatchPending(NOW);
+
+      expect(result).toEqual({
+        sent: 0,
+        failed: 0,
+        deadLettered: 1,
+        throttled: 0,
+      });
+      const [{ where, data }] = prisma.notification.update.mock.calls[0] as [
+        NotificationChange,
+      ];
+      expect(where).toEqual({ id: 'notification-1' });
+      expect(data).toMatchObject({
+        status: NotificationStatus.DEAD_LETTER,
+        retryCount: 4,
+        errorMessage: 'rejected',
+        nextRetryAt: null,
+        lockedUntil: null,
+      });
+    });
+  });
+
+  describe('rate limits', () => {
+    beforeEach(async () => {
+      service = await createService('sms:2');
+    });
+
+    it('leaves notifications over the limit for a later run', async () => {
+      prisma.notification.findMany.mockResolvedValue([pending()]);
+      prisma.notificationRateWindow.updateMany.mockResolvedValue({ count: 0 });
+      prisma.notificationRateWindow.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        }),
+      );
+
+      const result = await service.dispatchPending(NOW);
+
+      expect(result.throttled).toBe(1);
+      expect(notificationService.deliver).not.toHaveBeenCalled();
+      expect(prisma.notificationRateWindow.updateMany).toHaveBeenCalledWith({
+        where: {
+          provider: 'sms',
+          startedAt: { gt: new Date(NOW.getTime() - 60_000) },
+          count: { lt: 2 },
+        },
+        data: { count: { increment: 1 } },
+      });
+    });
+
+    it('restarts a window that ran out', async () => {
+      prisma.notification.findMany.mockResolvedValue([pending()]);
+      prisma.notificationRateWindow.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+
+      const result = await service.dispatchPending(NOW);
+
+      expect(result.sent).toBe(1);
+      expect(prisma.notificationRateWindow.updateMany).toHaveBeenLastCalledWith(
+        {
+          where: {
+            provider: 'sms',
+            startedAt: { lte: new Date(NOW.getTime() - 60_000) },
+          },
+          data: { startedAt: NOW, count: 1 },
+        },
+      );
+    });
+
+    it('does not limit in-app notifications', async () => {
+      prisma.notification.findMany.mockResolvedValue([
+        pending({ type: NotificationType.IN_APP }),
+      ]);
+
+      const result = await service.dispatchPending(NOW);
+
+      expect(result.sent).toBe(1);
+      expect(prisma.notificationRateWindow.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requeue', () => {
+    it('only requeues dead letters', async () => {
+      prisma.notification.findUnique.mockResolvedValue(
+        pending({ status: NotificationStatus.SENT }),
+      );
+      prisma.notification.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.requeue('notification-1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('gives dead letters a fresh set of retries', async () => {
+      prisma.notification.findUnique.mockResolvedValue(
+        pending({ status: NotificationStatus.DEAD_LETTER, retryCount: 4 }),
+      );
+
+      await service.requeue('notification-1');
+
+      const [{ where, data }] = prisma.notification.updateMany.mock
+        .calls[0] as [NotificationChange];
+      expect(where).toEqual({
+        id: 'notification-1',
+        status: NotificationStatus.DEAD_LETTER,
+      });
+      expect(data).toMatchObject({
+        status: NotificationStatus.PENDING,
+        retryCount: 0,
+        lockedUntil: null,
+        failedAt: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,378 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Notification,
+  NotificationStatus,
+  NotificationType,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { NotificationService } from './notification.service';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+import {
+  DeadLetterFilterDto,
+  OutboxNotificationResponseDto,
+} from '../presentation/dto/notification-outbox.dto';
+
+const BATCH_SIZE = 100;
+// How long a worker owns a notification it claimed. A worker that crashes
+// mid-send releases it when this runs out
+const CLAIM_DURATION_MS = 5 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+// Provider each channel is rate limited under. In-app notifications only
+// touch our own database and websocket, so they are not limited
+const CHANNEL_PROVIDERS: Partial<Record<NotificationType, string>> = {
+  [NotificationType.SMS]: 'sms',
+  [NotificationType.EMAIL]: 'email',
+  [NotificationType.PUSH_NOTIFICATION]: 'fcm',
+};
+
+export interface DispatchResult {
+  sent: number;
+  failed: number;
+  deadLettered: number;
+  // Left for a later run by the rate limits
+  throttled: number;
+}
+
+/**
+ * Sends the notifications business operations queued as PENDING. Failed
+ * sends are retried with exponential backoff and jitter until maxRetries,
+ * then kept as DEAD_LETTER for an admin to requeue
+ */
+@Injectable()
+export class NotificationOutboxService {
+  private readonly logger = new Logger(NotificationOutboxService.name);
+  private readonly rateLimits: Map<string, number>;
+
+  constructor(
+    private prismaService: PrismaService,
+    private notificationService: NotificationService,
+    private configService: ConfigService,
+  ) {
+    this.rateLimits = this.parseRateLimits(
+      this.configService.get<string>('notifications.rateLimits') || '',
+    );
+  }
+
+  async dispatchPending(now: Date = new Date()): Promise<DispatchResult> {
+    const result: DispatchResult = {
+      sent: 0,
+      failed: 0,
+      deadLettered: 0,
+      throttled: 0,
+    };
+
+    const notifications = await this.prismaService.notification.findMany({
+      where: {
+        status: NotificationStatus.PENDING,
+        nextRetryAt: { lte: now },
+        ...this.unclaimed(now),
+      },
+      include: { user: true },
+      orderBy: { nextRetryAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    for (const notification of notifications) {
+      const provider = CHANNEL_PROVIDERS[notification.type];
+
+      if (provider && !(await this.takeRateSlot(provider, now))) {
+        result.throttled++;
+        continue;
+      }
+
+      // Another worker may have claimed it since the query
+      const { count } = await this.prismaService.notification.updateMany({
+        where: {
+          id: notification.id,
+          status: NotificationStatus.PENDING,
+          ...this.unclaimed(now),
+        },
+        data: {
+          lockedUntil: new Date(now.getTime() + CLAIM_DURATION_MS),
+          lastAttemptAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        continue;
+      }
+
+      try {
+        const sent = await this.notificationService.deliver(notification);
+
+        if (sent) {
+          // Delivery reports and in-app websocket delivery may already have
+          // moved it past PENDING
+          await this.prismaService.notification.updateMany({
+            where: { id: notification.id, status: NotificationStatus.PENDING },
+            data: { status: NotificationStatus.SENT, lockedUntil: null },
+          });
+          result.sent++;
+        }
+      } catch (error) {
+        const deadLettered = await this.recordFailure(
+          notification,
+          (error as Error).message,
+        );
+
+        if (deadLettered) {
+          result.deadLettered++;
+        } else {
+          result.failed++;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  async findDeadLetters(
+    filterDto: DeadLetterFilterDto,
+  ): Promise<PaginatedResponseDto<OutboxNotificationResponseDto>> {
+    const { page, limit, type, cooperativeId, userId } = filterDto;
+    const skip = filterDto.skip;
+
+    const where: Prisma.NotificationWhereInput = {
+      status: NotificationStatus.DEAD_LETTER,
+    };
+
+    if (type) {
+      where.type = type;
+    }
+
+    if (cooperativeId) {
+      where.cooperativeId = cooperativeId;
+    }
+
+    if (userId) {
+      where.userId = userId;
+    }
+
+    const [notifications, total] = await Promise.all([
+      this.prismaService.notification.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { failedAt: 'desc' },
+      }),
+      this.prismaService.notification.count({ where }),
+    ]);
+
+    return new PaginatedResponseDto(
+      notifications.map((notification) => this.mapToResponseDto(notification)),
+      total,
+      page || 1,
+      limit || 10,
+    );
+  }
+
+  /**
+   * Queues a dead letter again with a fresh set of retries
+   */
+  async requeue(id: string): Promise<OutboxNotificationResponseDto> {
+    const notification = await this.prismaService.notification.findUnique({
+      where: { id },
+    });
+
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+
+    const updated = await this.prismaService.notification.updateMany({
+      where: { id, status: NotificationStatus.DEAD_LETTER },
+      data: {
+        status: NotificationStatus.PENDING,
+        retryCount: 0,
+        nextRetryAt: new Date(),
+        lockedUntil: null,
+        failedAt: null,
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new BadRequestException(
+        `Only dead letters can be requeued, notification is ${notification.status}`,
+      );
+    }
+
+    this.logger.log(`Dead letter ${id} requeued`);
+
+    const requeued = await this.prismaService.notification.findUnique({
+      where: { id },
+    });
+
+    return this.mapToResponseDto(requeued!);
+  }
+
+  /**
+   * Schedules the next attempt, or dead-letters the notification once it
+   * ran out of retries. Returns whether it was dead-lettered
+   */
+  private async recordFailure(
+    notification: Notification,
+    errorMessage: string,
+  ): Promise<boolean> {
+    const retryCount = notification.retryCount + 1;
+    const now = new Date();
+
+    if (retryCount > notification.maxRetries) {
+      await this.prismaService.notification.update({
+        where: { id: notification.id },
+        data: {
+          status: NotificationStatus.DEAD_LETTER,
+          retryCount,
+          errorMessage,
+          failedAt: now,
+          nextRetryAt: null,
+          lockedUntil: null,
+        },
+      });
+
+      this.logger.error(
+        `${notification.type} notification ${notification.id} dead-lettered after ${retryCount} attempts: ${errorMessage}`,
+      );
+      return true;
+    }
+
+    const nextRetryAt = new Date(
+      now.getTime() + this.getRetryDelay(retryCount),
+    );
+
+    await this.prismaService.notification.update({
+      where: { id: notification.id },
+      data: {
+        retryCount,
+        errorMessage,
+        nextRetryAt,
+        lockedUntil: null,
+      },
+    });
+
+    this.logger.warn(
+      `${notification.type} notification ${notification.id} failed (attempt ${retryCount}), retrying at ${nextRetryAt.toISOString()}: ${errorMessage}`,
+    );
+    return false;
+  }
+
+  /**
+   * 30s, 1m, 2m... capped at an hour, then spread over half to the full
+   * delay so notifications failing together do not retry together
+   */
+  private getRetryDelay(retryCount: number): number {
+    const delay = Math.min(
+      BASE_RETRY_DELAY_MS * 2 ** (retryCount - 1),
+      MAX_RETRY_DELAY_MS,
+    );
+
+    return Math.round(delay * (0.5 + Math.random() / 2));
+  }
+
+  /**
+   * Counts a send against the provider's per-minute limit. The window is
+   * kept in the database and only changed by conditional updates, so
+   * concurrent workers on any instance share one limit
+   */
+  private async takeRateSlot(provider: string, now: Date): Promise<boolean> {
+    const limit = this.rateLimits.get(provider);
+    if (!limit) {
+      return true;
+    }
+
+    const windowStart = new Date(now.getTime() - RATE_LIMIT_WINDOW_MS);
+
+    const taken = await this.prismaService.notificationRateWindow.updateMany({
+      where: { provider, startedAt: { gt: windowStart }, count: { lt: limit } },
+      data: { count: { increment: 1 } },
+    });
+    if (taken.count > 0) {
+      return true;
+    }
+
+    // The window ran out, whoever restarts it takes its first slot
+    const restarted =
+      await this.prismaService.notificationRateWindow.updateMany({
+        where: { provider, startedAt: { lte: windowStart } },
+        data: { startedAt: now, count: 1 },
+      });
+    if (restarted.count > 0) {
+      return true;
+    }
+
+    try {
+      await this.prismaService.notificationRateWindow.create({
+        data: { provider, startedAt: now, count: 1 },
+      });
+      return true;
+    } catch (error) {
+      // The window exists and is full, or another worker just created it
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private unclaimed(now: Date): Prisma.NotificationWhereInput {
+    return {
+      OR: [
+        { lockedUntil: { isSet: false } },
+        { lockedUntil: null },
+        { lockedUntil: { lt: now } },
+      ],
+    };
+  }
+
+  private parseRateLimits(value: string): Map<string, number> {
+    const limits = new Map<string, number>();
+
+    for (const entry of value.split(',')) {
+      const [provider, limit] = entry.trim().split(':');
+      const perMinute = parseInt(limit, 10);
+
+      if (provider && perMinute > 0) {
+        limits.set(provider.toLowerCase(), perMinute);
+      }
+    }
+
+    return limits;
+  }
+
+  private mapToResponseDto(
+    notification: Notification,
+  ): OutboxNotificationResponseDto {
+    return {
+      id: notification.id,
+      type: notification.type,
+      status: notification.status,
+      title: notification.title,
+      message: notification.message,
+      recipient: notification.recipient,
+      userId: notification.userId,
+      cooperativeId: notification.cooperativeId ?? undefined,
+      paymentId: notification.paymentId ?? undefined,
+      reminderId: notification.reminderId ?? undefined,
+      announcementId: notification.announcementId ?? undefined,
+      retryCount: notification.retryCount,
+      maxRetries: notification.maxRetries,
+      errorMessage: notification.errorMessage ?? undefined,
+      provider: notification.provider ?? undefined,
+      lastAttemptAt: notification.lastAttemptAt ?? undefined,
+      nextRetryAt: notification.nextRetryAt ?? undefined,
+      failedAt: notification.failedAt ?? undefined,
+      createdAt: notification.createdAt,
+    };
+  }
+}
@@ -0,0 +1,219 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { NotificationCategory, NotificationType } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { QUIET_HOURS_TIME_ZONE, getQuietHoursEnd } from './quiet-hours';
+import {
+  NotificationPreferencesDto,
+  UpdateNotificationPreferencesDto,
+} from '../presentation/dto/notification-preference.dto';
+
+// Categories a global unsubscribe turns off. Payment receipts and complaint
+// updates answer something the user did, so they still go out
+const UNSUBSCRIBABLE_CATEGORIES: NotificationCategory[] = [
+  NotificationCategory.REMINDERS,
+  NotificationCategory.ANNOUNCEMENTS,
+];
+
+// Channels quiet hours hold back. Emails and in-app notifications wait in
+// the inbox anyway
+const INTRUSIVE_CHANNELS: NotificationType[] = [
+  NotificationType.SMS,
+  NotificationType.PUSH_NOTIFICATION,
+];
+
+export interface DeliveryDecision {
+  send: boolean;
+  // Set when quiet hours hold the notification back
+  deferUntil?: Date;
+  reason?: string;
+}
+
+@Injectable()
+export class NotificationPreferenceService {
+  private readonly logger = new Logger(NotificationPreferenceService.name);
+
+  constructor(private prismaService: PrismaService) {}
+
+  async getPreferences(userId: string): Promise<NotificationPreferencesDto> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: {
+        quietHoursStart: true,
+        quietHoursEnd: true,
+        notificationsUnsubscribedAt: true,
+        smsRemindersOptOut: true,
+        notificationPreferences: true,
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const categories = Object.values(NotificationCategory).map((category) => {
+      const preference = user.notificationPreferences.find(
+        (item) => item.category === category,
+      );
+      let channels = preference?.channels ?? Object.values(NotificationType);
+
+      // Replying STOP turns reminder SMS off too
+      if (
+        category === NotificationCategory.REMINDERS &&
+        user.smsRemindersOptOut
+      ) {
+        channels = channels.filter(
+          (channel) => channel !== NotificationType.SMS,
+        );
+      }
+
+      return { category, channels };
+    });
+
+    return {
+      categories,
+      quietHours:
+        user.quietHoursStart && user.quietHoursEnd
+          ? { start: user.quietHoursStart, end: user.quietHoursEnd }
+          : null,
+      timeZone: QUIET_HOURS_TIME_ZONE,
+      unsubscribed: !!user.notificationsUnsubscribedAt,
+      unsubscribedAt: user.notificationsUnsubscribedAt ?? undefined,
+    };
+  }
+
+  async updatePreferences(
+    userId: string,
+    dto: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreferencesDto> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: { id: true, notificationsUnsubscribedAt: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    for (const { category, channels } of dto.categories ?? []) {
+      const uniqueChannels = [...new Set(channels)];
+
+      await this.prismaService.notificationPreference.upsert({
+        where: { userId_category: { userId, category } },
+        create: { userId, category, channels: uniqueChannels },
+        update: { channels: uniqueChannels },
+      });
+
+      // Keeps the STOP and START SMS commands in step
+      if (category === NotificationCategory.REMINDERS) {
+        await this.prismaService.user.update({
+          where: { id: userId },
+          data: {
+            smsRemindersOptOut: !uniqueChannels.includes(NotificationType.SMS),
+          },
+        });
+      }
+    }
+
+    const userData: {
+      quietHoursStart?: string | null;
+      quietHoursEnd?: string | null;
+      notificationsUnsubscribedAt?: Date | null;
+    } = {};
+
+    if (dto.quietHours !== undefined) {
+      userData.quietHoursStart = dto.quietHours?.start ?? null;
+      userData.quietHoursEnd = dto.quietHours?.end ?? null;
+    }
+
+    if (dto.unsubscribed !== undefined) {
+      userData.notificationsUnsubscribedAt = dto.unsubscribed
+        ? (user.notificationsUnsubscribedAt ?? new Date())
+        : null;
+    }
+
+    if (Object.keys(userData).length > 0) {
+      await this.prismaService.user.update({
+        where: { id: userId },
+        data: userData,
+      });
+    }
+
+    this.logger.log(`Notification preferences updated for user ${userId}`);
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Whether a notification may go out to the user on a channel now, later
+   * (after quiet hours) or not at all. Notifications without a category
+   * only follow quiet hours
+   */
+  async checkDelivery(
+    userId: string,
+    type: NotificationType,
+    category: NotificationCategory | null,
+    urgent = false,
+    now: Date = new Date(),
+  ): Promise<DeliveryDecision> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: {
+        quietHoursStart: true,
+        quietHoursEnd: true,
+        notificationsUnsubscribedAt: true,
+        smsRemindersOptOut: true,
+      },
+    });
+
+    if (!user) {
+      return { send: true };
+    }
+
+    if (category) {
+      if (
+        user.notificationsUnsubscribedAt &&
+        UNSUBSCRIBABLE_CATEGORIES.includes(category)
+      ) {
+        return { send: false, reason: 'User unsubscribed from notifications' };
+      }
+
+      if (
+        category === NotificationCategory.REMINDERS &&
+        type === NotificationType.SMS &&
+        user.smsRemindersOptOut
+      ) {
+        return { send: false, reason: 'User turned reminder SMS off' };
+      }
+
+      const preference =
+        await this.prismaService.notificationPreference.findUnique({
+          where: { userId_category: { userId, category } },
+        });
+
+      if (preference && !preference.channels.includes(type)) {
+        return {
+          send: false,
+          reason: `User turned ${type} off for ${category}`,
+        };
+      }
+    }
+
+    if (
+      !urgent &&
+      INTRUSIVE_CHANNELS.includes(type) &&
+      user.quietHoursStart &&
+      user.quietHoursEnd
+    ) {
+      const deferUntil = getQuietHoursEnd(
+        { start: user.quietHoursStart, end: user.quietHoursEnd },
+        now,
+      );
+
+      if (deferUntil) {
+        return { send: true, deferUntil };
+      }
+    }
+
+    return { send: true };
+  }
+}
@@ -1,15 +1,33 @@
 import { Injectable, Inject, forwardRef } from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { SmsService } from '../../sms/application/sms.service';
+import { SmsTemplateService } from '../../sms/application/sms-template.service';
+import { EmailService } from '../../email/application/email.service';
+import {
+  EmailContent,
+  EmailDetail,
+} from '../../email/application/email-templates';
+import { isValidEmail } from '../../email/infrastructure/email.interface';
+import { NotificationPreferenceService } from './notification-preference.service';
+import {
+  DigestItem,
+  NotificationDigestService,
+} from './notification-digest.service';
 import {
   FcmService,
   PushNotificationPayload,
 } from '../infrastructure/fcm.service';
 import {
+  Language,
+  Notification,
+  NotificationCategory,
   NotificationType,
   NotificationStatus,
+  Prisma,
   ReminderType,
+  User,
 } from '@prisma/client';
+import { getLocale, translate } from '../../../shared/i18n/messages';
 
 export interface NotificationContext {
   userId: string;
@@ -18,6 +36,32 @@ export interface NotificationContext {
   paymentId?: string;
   complaintId?: string;
   roomAssignmentId?: string;
+  announcementId?: string;
+  urgent?: boolean; // Sent even during the user's quiet hours
+  immediate?: boolean; // Never waits for the cooperative's digest
+}
+
+// Entities the email layouts show details of
+interface EmailTemplateData {
+  payment?: {
+    id: string;
+    amount: number;
+    paidAt?: Date | null;
+    paymentReference?: string | null;
+    invoiceNumber?: string | null;
+    paymentType?: { name: string } | null;
+  };
+  complaint?: { title: string; status: string };
+}
+
+// Reminder fields a digest line is built from
+interface ReminderDigestData {
+  title?: string;
+  reminderDate?: Date | string;
+  nextTrigger?: Date | string | null;
+  advanceNoticeDays?: number;
+  customAmount?: number | null;
+  paymentType?: { name?: string; amount?: number } | null;
 }
 
 @Injectable()
@@ -27,6 +71,10 @@ export class NotificationService {
   constructor(
     private prismaService: PrismaService,
     private smsService: SmsService,
+    private smsTemplateService: SmsTemplateService,
+    private emailService: EmailService,
+    private notificationPreferenceService: NotificationPreferenceService,
+    private notificationDigestService: NotificationDigestService,
     private fcmService: FcmService,
   ) {}
 
@@ -67,6 +115,7 @@ export class NotificationService {
           userId: user.id,
           cooperativeId: reminder.cooperativeId,
           reminderId: reminder.id,
+          immediate: isOverdue,
         });
       } catch (error) {
         console.error(
@@ -83,13 +132,20 @@ export class NotificationService {
     notificationType: NotificationType,
     title: string,
     message: string,
+    tx?: Prisma.TransactionClient,
   ): Promise<void> {
     try {
-      await this.sendNotification(notificationType, { title, message }, user, {
-        userId: user.id,
-        cooperativeId: payment.cooperativeId,
-        paymentId: payment.id,
-      });
+      await this.sendNotification(
+        notificationType,
+        { title, message, payment },
+        user,
+        {
+          userId: user.id,
+          cooperativeId: payment.cooperativeId,
+          paymentId: payment.id,
+        },
+        tx,
+      );
     } catch (error) {
       console.error(
         `Failed to send ${notificationType} notification for payment ${payment.id}:`,
@@ -102,11 +158,28 @@ export class NotificationService {
     notificationType: NotificationType,
     contentData: { title: string; message: string },
     user: any,
-    context: NotificationContext & { announcementId?: string },
+    context: NotificationContext,
   ): Promise<void> {
     await this.sendNotification(notificationType, contentData, user, context);
   }
 
+  /**
+   * Queues a message about the user's own account, such as an SMS command
+   * reply. It has no category, so preferences never drop it
+   */
+  async sendAccountNotification(
+    user: User,
+    notificationType: NotificationType,
+    title: string,
+    message: string,
+    urgent = false,
+  ): Promise<void> {
+    await this.sendNotification(notificationType, { title, message }, user, {
+      userId: user.id,
+      urgent,
+    });
+  }
+
   async sendComplaintNotification(
     complaint: any,
     user: any,
@@ -173,13 +246,23 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Writes the notification to the outbox, NotificationOutboxService sends
+   * it. Pass the transaction of the business operation so the notification
+   * is only queued when that operation commits
+   */
   private async sendNotification(
     type: NotificationType,
     contentData: any,
     user: any,
     context: NotificationContext,
+    tx?: Prisma.TransactionClient,
   ): Promise<void> {
-    const { title, message } = this.buildNotificationContent(contentData);
+    const { title, message } = await this.buildNotificationContent(
+      contentData,
+      user.preferredLanguage,
+      context.cooperativeId,
+    );
     const recipient = this.getRecipient(type, user);
 
     if (!recipient) {
@@ -189,6 +272,34 @@ export class NotificationService {
       return;
     }
 
+    // Users choose the channels of each category and when they are not
+    // disturbed. Payment receipts are expected right away
+    const category = this.getCategory(context);
+    const decision = await this.notificationPreferenceService.checkDelivery(
+      context.userId,
+      type,
+      category,
+      context.urgent ?? category === NotificationCategory.PAYMENT_RECEIPTS,
+    );
+
+    if (!decision.send) {
+      console.log(
+        `Skipping ${type} notification for user ${user.id}: ${decision.reason}`,
+      );
+      return;
+    }
+
+    // Cooperatives can batch reminders and announcements into one digest
+    // per user and channel. Quiet hours are checked again when it goes out
+    const digestAt =
+      context.cooperativeId && !context.urgent && !context.immediate
+        ? await this.notificationDigestService.getDigestAt(
+            context.cooperativeId,
+            type,
+            category,
+          )
+        : null;
+
     // Create notification record
     const notificationData: any = {
       type,
@@ -198,6 +309,14 @@ export class NotificationService {
       userId: context.userId,
       cooperativeId: context.cooperativeId,
       recipient,
+      // Digested notifications are sent by the digest, not the outbox
+      digestAt: digestAt ?? undefined,
+      scheduledFor: digestAt ? undefined : decision.deferUntil,
+      nextRetryAt: digestAt ? undefined : (decision.deferUntil ?? new Date()),
+      metadata:
+        digestAt && category
+          ? { digestItem: this.getDigestItem(category, contentData, title) }
+          : undefined,
     };
 
     // Add related entity IDs
@@ -213,46 +332,96 @@ export class NotificationService {
         complaintId: context.complaintId,
       };
     }
+    if (context.announcementId) {
+      notificationData.announcementId = context.announcementId;
+    }
+
+    // The payment or complaint may have changed by the time the outbox
+    // sends the email, so its layout is kept with the notification
+    if (type === NotificationType.EMAIL) {
+      notificationData.metadata = {
+        ...notificationData.metadata,
+        email: this.getEmailTemplate(
+          notificationData,
+          contentData,
+          user.preferredLanguage,
+        ),
+      };
+    }
 
-    const notification = await this.prismaService.notification.create({
+    const notification = await (tx ?? this.prismaService).notification.create({
       data: notificationData,
     });
 
-    try {
-      // Send the notification based on type
-      switch (type) {
-        case NotificationType.SMS:
-          await this.sendSmsNotification(notification, message);
-          break;
-        case NotificationType.EMAIL:
-          await this.sendEmailNotification(notification, title, message);
-          break;
-        case NotificationType.IN_APP:
-          await this.sendInAppNotification(notification);
-          break;
-        case NotificationType.PUSH_NOTIFICATION:
-          await this.sendPushNotification(notification, title, message, user);
-          break;
-        default:
-          throw new Error(`Unsupported notification type: ${type}`);
-      }
-
-      // Mark as sent
-      await this.updateNotificationStatus(
-        notification.id,
-        NotificationStatus.SENT,
+    if (digestAt) {
+      console.log(
+        `${type} notification ${notification.id} waits for the digest at ${digestAt.toISOString()}`,
       );
-    } catch (error) {
-      // Mark as failed
-      await this.updateNotificationStatus(
-        notification.id,
-        NotificationStatus.FAILED,
-        error.message,
+    } else if (decision.deferUntil) {
+      console.log(
+        `${type} notification ${notification.id} held back by quiet hours until ${decision.deferUntil.toISOString()}`,
       );
-      throw error;
     }
   }
 
+  /**
+   * Sends an outbox notification through its channel. Returns false when the
+   * user's preferences no longer allow it, and throws when the channel fails
+   * so the outbox can retry it
+   */
+  async deliver(notification: Notification & { user: User }): Promise<boolean> {
+    const { type, title, message, user } = notification;
+
+    // Preferences may have changed while quiet hours held it back
+    if (notification.scheduledFor) {
+      const decision = await this.notificationPreferenceService.checkDelivery(
+        notification.userId,
+        type,
+        this.getCategory({
+          paymentId: notification.paymentId ?? undefined,
+          reminderId: notification.reminderId ?? undefined,
+          announcementId: notification.announcementId ?? undefined,
+          complaintId: (notification.metadata as Record<string, string> | null)
+            ?.complaintId,
+        }),
+        true,
+      );
+
+      if (!decision.send) {
+        await this.updateNotificationStatus(
+          notification.id,
+          NotificationStatus.FAILED,
+          decision.reason,
+        );
+        return false;
+      }
+    }
+
+    switch (type) {
+      case NotificationType.SMS:
+        await this.sendSmsNotification(notification, message);
+        break;
+      case NotificationType.EMAIL:
+        await this.sendEmailNotification(
+          notification,
+          title,
+          message,
+          user.preferredLanguage,
+        );
+        break;
+      case NotificationType.IN_APP:
+        await this.sendInAppNotification(notification);
+        break;
+      case NotificationType.PUSH_NOTIFICATION:
+        await this.sendPushNotification(notification, title, message, user);
+        break;
+      default:
+        throw new Error(`Unsupported notification type: ${type as string}`);
+    }
+
+    return true;
+  }
+
   private async sendSmsNotification(
     notification: any,
     message: string,
@@ -271,6 +440,8 @@ export class NotificationService {
       where: { id: notification.id },
       data: {
         providerResponse: JSON.parse(JSON.stringify(result)),
+        provider: result.provider,
+        providerMessageId: result.messageId,
         sentAt: new Date(),
       },
     });
@@ -280,19 +451,122 @@ export class NotificationService {
     notification: any,
     title: string,
     message: string,
+    language: Language | null | undefined,
   ): Promise<void> {
-    // TODO: Implement email sending logic
-    console.log(`Email notification: ${title} - ${message}`);
+    const cooperative = notification.cooperativeId
+      ? await this.prismaService.cooperative.findUnique({
+          where: { id: notification.cooperativeId },
+          select: { name: true },
+        })
+      : null;
+
+    const template = (notification.metadata?.email ??
+      this.getEmailTemplate(notification, {}, language)) as Pick<
+      EmailContent,
+      'kind' | 'details'
+    >;
+
+    const result = await this.emailService.sendEmail(notification.recipient, {
+      ...template,
+      title,
+      message,
+      language,
+      cooperativeName: cooperative?.name,
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || 'Email sending failed');
+    }
 
-    // For now, just mark as sent
+    // Bounce and complaint events refer to the Message-ID
     await this.prismaService.notification.update({
       where: { id: notification.id },
       data: {
+        provider: result.transport,
+        providerMessageId: result.messageId,
+        providerResponse: JSON.parse(JSON.stringify(result)),
         sentAt: new Date(),
       },
     });
   }
 
+  /**
+   * Email layout for the notification, with the payment details of receipts
+   * and the subject and status of complaint updates
+   */
+  private getEmailTemplate(
+    notification: Pick<
+      Notification,
+      'reminderId' | 'announcementId' | 'metadata'
+    >,
+    { payment, complaint }: EmailTemplateData,
+    language: Language | null | undefined,
+  ): Pick<EmailContent, 'kind' | 'details'> {
+    if (payment) {
+      const details: EmailDetail[] = [
+        {
+          label: translate(language, 'email.receipt.amount'),
+          value: new Intl.NumberFormat(getLocale(language), {
+            style: 'currency',
+            currency: 'RWF',
+            minimumFractionDigits: 0,
+          }).format(payment.amount),
+        },
+        {
+          label: translate(language, 'email.receipt.reference'),
+          value:
+            payment.paymentReference || payment.invoiceNumber || payment.id,
+        },
+        {
+          label: translate(language, 'email.receipt.date'),
+          value: new Date(payment.paidAt || Date.now()).toLocaleDateString(
+            getLocale(language),
+            { year: 'numeric', month: 'short', day: 'numeric' },
+          ),
+        },
+      ];
+
+      if (payment.paymentType?.name) {
+        details.splice(1, 0, {
+          label: translate(language, 'email.receipt.paymentType'),
+          value: payment.paymentType.name,
+        });
+      }
+
+      return { kind: 'receipt', details };
+    }
+
+    if (complaint) {
+      return {
+        kind: 'complaint',
+        details: [
+          {
+            label: translate(language, 'email.complaint.subject'),
+            value: complaint.title,
+          },
+          {
+            label: translate(language, 'email.complaint.status'),
+            value: complaint.status,
+          },
+        ],
+      };
+    }
+
+    const metadata = (notification.metadata ?? {}) as Record<string, unknown>;
+
+    if (notification.reminderId) {
+      return { kind: 'reminder' };
+    }
+    if (metadata.complaintId) {
+      return { kind: 'complaint' };
+    }
+    if (notification.announcementId) {
+      return { kind: 'announcement' };
+    }
+
+    return { kind: 'general' };
+  }
+
   private async sendInAppNotification(notification: any): Promise<void> {
     // In-app notifications are stored in database and retrieved by frontend
     console.log(`In-app notification created for user ${notification.userId}`);
@@ -408,10 +682,14 @@ export class NotificationService {
     });
   }
 
-  private buildNotificationContent(contentData: any): {
+  private async buildNotificationContent(
+    contentData: any,
+    language: Language | null | undefined,
+    cooperativeId?: string,
+  ): Promise<{
     title: string;
     message: string;
-  } {
+  }> {
     // If content data already has title and message, use them
     if (contentData.title && contentData.message) {
       return {
@@ -420,60 +698,133 @@ export class NotificationService {
       };
     }
 
-    // Otherwise, build from reminder data
-    const paymentTypeName = contentData.paymentType?.name || 'Payment';
+    // Otherwise, build from reminder data, in the wording of the cooperative
+    const paymentTypeName =
+      contentData.paymentType?.name ||
+      translate(language, 'reminder.defaultPaymentType');
     const amount = contentData.customAmount || contentData.paymentType?.amount;
+    const params = {
+      paymentType: paymentTypeName,
+      amount: amount ? amount.toLocaleString() : '',
+      amountText: amount
+        ? translate(language, 'reminder.amountText', {
+            amount: amount.toLocaleString(),
+          })
+        : '',
+    };
 
     let title = '';
     let message = '';
 
     switch (contentData.type) {
       case ReminderType.PAYMENT_DUE:
-        title = `${paymentTypeName} Due Reminder`;
-        message = `Your ${paymentTypeName} is due${
-          amount ? ` (Amount: RWF ${amount.toLocaleString()})` : ''
-        }. Please make your payment on time.`;
+        title = translate(language, 'reminder.dueTitle', params);
+        message = await this.smsTemplateService.render(
+          'reminder.dueMessage',
+          language,
+          params,
+          cooperativeId,
+        );
         break;
 
       case ReminderType.PAYMENT_OVERDUE:
-        title = `${paymentTypeName} Overdue!`;
-        message = `Your ${paymentTypeName} is overdue${
-          amount ? ` (Amount: RWF ${amount.toLocaleString()})` : ''
-        }. Please pay immediately to avoid penalties.`;
+        title = translate(language, 'reminder.overdueTitle', params);
+        message = await this.smsTemplateService.render(
+          'reminder.overdueMessage',
+          language,
+          params,
+          cooperativeId,
+        );
         break;
 
       case ReminderType.PAYMENT_UPCOMING:
-        title = `${paymentTypeName} Due Soon`;
-        message = `Your ${paymentTypeName} will be due soon${
-          amount ? ` (Amount: RWF ${amount.toLocaleString()})` : ''
-        }. Don't forget to make your payment.`;
+        title = translate(language, 'reminder.upcomingTitle', params);
+        message = await this.smsTemplateService.render(
+          'reminder.upcomingMessage',
+          language,
+          params,
+          cooperativeId,
+        );
         break;
 
       case ReminderType.CUSTOM:
-        title = contentData.title || 'Payment Reminder';
+        title =
+          contentData.title || translate(language, 'reminder.defaultTitle');
         message =
           contentData.description ||
-          `Don't forget about your ${paymentTypeName}`;
+          translate(language, 'reminder.customMessage', params);
         break;
 
       default:
-        title = 'Payment Reminder';
-        message = `You have a payment reminder: ${contentData.title}`;
+        title = translate(language, 'reminder.defaultTitle');
+        message = translate(language, 'reminder.defaultMessage', {
+          title: contentData.title,
+        });
     }
 
     if (contentData.notes) {
-      message += `\n\nNote: ${contentData.notes}`;
+      message += translate(language, 'reminder.note', {
+        notes: contentData.notes,
+      });
     }
 
     return { title, message };
   }
 
+  private getDigestItem(
+    category: NotificationCategory,
+    contentData: ReminderDigestData,
+    title: string,
+  ): DigestItem {
+    if (category !== NotificationCategory.REMINDERS) {
+      return { category, label: title };
+    }
+
+    // Reminders trigger advanceNoticeDays before the payment is due
+    const dueDate = contentData.nextTrigger
+      ? new Date(
+          new Date(contentData.nextTrigger).getTime() +
+            (contentData.advanceNoticeDays || 0) * 24 * 60 * 60 * 1000,
+        )
+      : contentData.reminderDate
+        ? new Date(contentData.reminderDate)
+        : undefined;
+
+    return {
+      category,
+      label: contentData.paymentType?.name || contentData.title || title,
+      amount: contentData.customAmount || contentData.paymentType?.amount,
+      dueDate: dueDate?.toISOString(),
+    };
+  }
+
+  private getCategory(
+    context: Omit<NotificationContext, 'userId'>,
+  ): NotificationCategory | null {
+    if (context.paymentId) {
+      return NotificationCategory.PAYMENT_RECEIPTS;
+    }
+    if (context.reminderId) {
+      return NotificationCategory.REMINDERS;
+    }
+    if (context.announcementId) {
+      return NotificationCategory.ANNOUNCEMENTS;
+    }
+    if (context.complaintId) {
+      return NotificationCategory.COMPLAINTS;
+    }
+
+    // Room assignments and other account updates always go out
+    return null;
+  }
+
   private getRecipient(type: NotificationType, user: any): string | null {
     switch (type) {
       case NotificationType.SMS:
         return user.phone || null;
       case NotificationType.EMAIL:
-        return user.email || null;
+        // Addresses that cannot receive mail are skipped like missing ones
+        return isValidEmail(user.email) ? user.email : null;
       case NotificationType.IN_APP:
         return user.id; // User ID for in-app notifications
       case NotificationType.PUSH_NOTIFICATION:
@@ -483,15 +834,20 @@ export class NotificationService {
     }
   }
 
-  // Get in-app notifications for a user
-  async getInAppNotifications(userId: string, limit = 20): Promise<any[]> {
+  // Get in-app notifications for a user, pass [SENT] for the undelivered ones
+  async getInAppNotifications(
+    userId: string,
+    limit = 20,
+    statuses: NotificationStatus[] = [
+      NotificationStatus.SENT,
+      NotificationStatus.DELIVERED,
+    ],
+  ): Promise<any[]> {
     return this.prismaService.notification.findMany({
       where: {
         userId,
         type: NotificationType.IN_APP,
-        status: {
-          in: [NotificationStatus.SENT, NotificationStatus.DELIVERED],
-        },
+        status: { in: statuses },
       },
       orderBy: {
         createdAt: 'desc',
@@ -516,91 +872,42 @@ export class NotificationService {
     });
   }
 
-  // Mark in-app notification as read
-  async markNotificationAsRead(
-    notificationId: string,
+  // Mark in-app notifications delivered once the client acknowledged them
+  async markNotificationsDelivered(
     userId: string,
-  ): Promise<void> {
-    await this.prismaService.notification.updateMany({
+    notificationIds: string[],
+  ): Promise<number> {
+    const { count } = await this.prismaService.notification.updateMany({
       where: {
-        id: notificationId,
+        id: { in: notificationIds },
         userId,
         type: NotificationType.IN_APP,
+        status: { in: [NotificationStatus.PENDING, NotificationStatus.SENT] },
       },
       data: {
         status: NotificationStatus.DELIVERED,
         deliveredAt: new Date(),
       },
     });
+
+    return count;
   }
 
-  // Process failed notifications for retry
-  async retryFailedNotifications(): Promise<void> {
-    const failedNotifications = await this.prismaService.notification.findMany({
+  // Mark in-app notification as read
+  async markNotificationAsRead(
+    notificationId: string,
+    userId: string,
+  ): Promise<void> {
+    await this.prismaService.notification.updateMany({
       where: {
-        status: NotificationStatus.FAILED,
-        retryCount: {
-          lt: 3, // Max 3 retries
-        },
-        nextRetryAt: {
-          lte: new Date(),
-        },
+        id: notificationId,
+        userId,
+        type: NotificationType.IN_APP,
       },
-      include: {
-        user: true,
-        reminder: true,
+      data: {
+        status: NotificationStatus.DELIVERED,
+        deliveredAt: new Date(),
       },
     });
-
-    for (const notification of failedNotifications) {
-      try {
-        await this.retryNotification(notification);
-      } catch (error) {
-        console.error(
-          `Failed to retry notification ${notification.id}:`,
-          error.message,
-        );
-      }
-    }
-  }
-
-  private async retryNotification(notification: any): Promise<void> {
-    const retryCount = notification.retryCount + 1;
-    const nextRetryAt = new Date();
-    nextRetryAt.setMinutes(nextRetryAt.getMinutes() + retryCount * 15); // Exponential backoff
-
-    try {
-      // Try to send again based on type
-      switch (notification.type) {
-        case NotificationType.SMS:
-          await this.sendSmsNotification(notification, notification.message);
-          break;
-        case NotificationType.PUSH_NOTIFICATION:
-          await this.sendPushNotification(
-            notification,
-            notification.title,
-            notification.message,
-            notification.user,
-          );
-          break;
-        // Add other types as needed
-      }
-
-      await this.updateNotificationStatus(
-        notification.id,
-        NotificationStatus.SENT,
-      );
-    } catch (error) {
-      // Update retry info
-      await this.prismaService.notification.update({
-        where: { id: notification.id },
-        data: {
-          retryCount,
-          nextRetryAt: retryCount < 3 ? nextRetryAt : null,
-          errorMessage: error.message,
-        },
-      });
-      throw error;
-    }
   }
 }
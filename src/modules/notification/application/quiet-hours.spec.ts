@@ -0,0 +1,70 @@
+import { getQuietHoursEnd } from './quiet-hours';
+
+// Kigali is UTC+2, so 20:30Z is 22:30 there
+describe('getQuietHoursEnd', () => {
+  describe('over midnight', () => {
+    const quietHours = { start: '21:00', end: '07:00' };
+
+    it('ends the next morning when it is late in the evening', () => {
+      expect(
+        getQuietHoursEnd(quietHours, new Date('2026-03-10T20:30:00Z')),
+      ).toEqual(new Date('2026-03-11T05:00:00Z'));
+    });
+
+    it('ends the same morning after midnight', () => {
+      expect(
+        getQuietHoursEnd(quietHours, new Date('2026-03-11T04:15:00Z')),
+      ).toEqual(new Date('2026-03-11T05:00:00Z'));
+    });
+
+    it('includes the start and excludes the end', () => {
+      expect(
+        getQuietHoursEnd(quietHours, new Date('2026-03-10T19:00:00Z')),
+      ).toEqual(new Date('2026-03-11T05:00:00Z'));
+      expect(
+        getQuietHoursEnd(quietHours, new Date('2026-03-11T05:00:00Z')),
+      ).toBeNull();
+    });
+
+    it('is not quiet during the day', () => {
+      expect(
+        getQuietHoursEnd(quietHours, new Date('2026-03-10T10:00:00Z')),
+      ).toBeNull();
+    });
+
+    it('ends on the minute', () => {
+      expect(
+        getQuietHoursEnd(quietHours, new Date('2026-03-10T20:30:45.123Z')),
+      ).toEqual(new Date('2026-03-11T05:00:00Z'));
+    });
+  });
+
+  describe('within a day', () => {
+    const quietHours = { start: '12:00', end: '14:00' };
+
+    it('ends the same day', () => {
+      expect(
+        getQuietHoursEnd(quietHours, new Date('2026-03-10T10:30:00Z')),
+      ).toEqual(new Date('2026-03-10T12:00:00Z'));
+    });
+
+    it('is not quiet outside the window', () => {
+      expect(
+        getQuietHoursEnd(quietHours, new Date('2026-03-10T09:59:00Z')),
+      ).toBeNull();
+      expect(
+        getQuietHoursEnd(quietHours, new Date('2026-03-10T12:00:00Z')),
+      ).toBeNull();
+    });
+  });
+
+  it.each([
+    { start: '7:00', end: '21:00' },
+    { start: '24:00', end: '07:00' },
+    { start: '21:00', end: '21:00' },
+  ])('ignores the invalid or empty window %o', (quietHours) => {
+    expect(
+      getQuietHoursEnd(quietHours, new Date('2026-03-10T20:30:00Z')),
+    ).toBeNull();
+  });
+});
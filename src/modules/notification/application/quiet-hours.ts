@@ -0,0 +1,55 @@
+export const QUIET_HOURS_TIME_ZONE = 'Africa/Kigali';
+
+// Rwanda stays on UTC+2 all year
+export const KIGALI_UTC_OFFSET_MINUTES = 120;
+const MINUTES_PER_DAY = 24 * 60;
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface QuietHours {
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+/**
+ * When the quiet hours that `now` falls in end, or null outside quiet hours.
+ * A window whose start is after its end runs over midnight, e.g. 21:00-07:00
+ */
+export function getQuietHoursEnd(
+  quietHours: QuietHours,
+  now: Date = new Date(),
+): Date | null {
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  if (start === null || end === null || start === end) {
+    return null;
+  }
+
+  const current =
+    (now.getUTCHours() * 60 + now.getUTCMinutes() + KIGALI_UTC_OFFSET_MINUTES) %
+    MINUTES_PER_DAY;
+  const isQuiet =
+    start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+
+  if (!isQuiet) {
+    return null;
+  }
+
+  const minutesLeft = (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const endsAt = new Date(now.getTime() + minutesLeft * 60 * 1000);
+  endsAt.setUTCSeconds(0, 0);
+
+  return endsAt;
+}
+
+function toMinutes(time: string): number | null {
+  if (!TIME_OF_DAY_PATTERN.test(time)) {
+    return null;
+  }
+
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
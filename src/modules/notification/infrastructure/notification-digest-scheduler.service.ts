@@ -0,0 +1,38 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { NotificationDigestService } from '../application/notification-digest.service';
+
+@Injectable()
+export class NotificationDigestSchedulerService {
+  private readonly logger = new Logger(NotificationDigestSchedulerService.name);
+  private isProcessing = false;
+
+  constructor(private notificationDigestService: NotificationDigestService) {}
+
+  /**
+   * Queue the digests that are due every 5 minutes
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async sendDueDigests() {
+    if (this.isProcessing) {
+      this.logger.debug('Digest processing already in progress, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const count = await this.notificationDigestService.sendDueDigests();
+
+      if (count > 0) {
+        this.logger.log(`Queued ${count} notification digests`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Digest processing failed: ${(error as Error).message}`,
+      );
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
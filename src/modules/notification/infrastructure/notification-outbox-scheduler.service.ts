@@ -0,0 +1,38 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { NotificationOutboxService } from '../application/notification-outbox.service';
+
+@Injectable()
+export class NotificationOutboxSchedulerService {
+  private readonly logger = new Logger(NotificationOutboxSchedulerService.name);
+  private isProcessing = false;
+
+  constructor(private notificationOutboxService: NotificationOutboxService) {}
+
+  /**
+   * Send queued notifications every 10 seconds
+   */
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async dispatchPending() {
+    if (this.isProcessing) {
+      this.logger.debug('Outbox dispatch already in progress, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const result = await this.notificationOutboxService.dispatchPending();
+
+      if (result.sent || result.failed || result.deadLettered) {
+        this.logger.log(
+          `Outbox dispatch: ${result.sent} sent, ${result.failed} to retry, ${result.deadLettered} dead-lettered, ${result.throttled} throttled`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Outbox dispatch failed: ${(error as Error).message}`);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
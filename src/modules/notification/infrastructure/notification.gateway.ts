@@ -9,16 +9,37 @@ import {
   OnGatewayInit,
 } from '@nestjs/websockets';
 import { Logger, UseGuards } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
 import { Server, Socket } from 'socket.io';
+import { DefaultEventsMap } from 'socket.io/dist/typed-events';
 import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
 import { NotificationService } from '../application/notification.service';
-import { NotificationType } from '@prisma/client';
+import { NotificationStatus, NotificationType, UserStatus } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { JwtPayload } from '../../auth/infrastructure/jwt.strategy';
+import {
+  ConnectionStatsDto,
+  CooperativePresenceDto,
+} from '../presentation/dto/notification-presence.dto';
 
-interface AuthenticatedSocket extends Socket {
+// Kept on the socket so any instance can read it through fetchSockets()
+interface SocketData {
   userId?: string;
   cooperativeId?: string;
 }
 
+type AuthenticatedSocket = Socket<
+  DefaultEventsMap,
+  DefaultEventsMap,
+  DefaultEventsMap,
+  SocketData
+>;
+
+const userRoom = (userId: string) => `user_${userId}`;
+const cooperativeRoom = (cooperativeId: string) =>
+  `cooperative_${cooperativeId}`;
+
 @WebSocketGateway({
   cors: {
     origin: '*', // Configure properly for production
@@ -31,12 +52,27 @@ export class NotificationGateway
   implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
 {
   @WebSocketServer()
-  server: Server;
+  server: Server<
+    DefaultEventsMap,
+    DefaultEventsMap,
+    DefaultEventsMap,
+    SocketData
+  >;
 
   private readonly logger = new Logger(NotificationGateway.name);
-  private connectedUsers = new Map<string, Set<string>>(); // userId -> Set of socketIds
 
-  constructor(private notificationService: NotificationService) {}
+  // Sockets live in per-user and per-cooperative rooms rather than in this
+  // process, so with the Redis adapter every instance reaches every socket
+  constructor(
+    private notificationService: NotificationService,
+    private configService: ConfigService,
+    private jwtService: JwtService,
+    private prismaService: PrismaService,
+  ) {}
+
+  private get ackTimeout(): number {
+    return this.configService.get<number>('websocket.ackTimeout') ?? 5000;
+  }
 
   afterInit(server: Server) {
     this.logger.log('Notification WebSocket Gateway initialized');
@@ -45,21 +81,21 @@ export class NotificationGateway
   async handleConnection(client: AuthenticatedSocket) {
     try {
       // Extract user information from auth token or connection handshake
-      const userId = this.extractUserFromSocket(client);
+      const user = await this.extractUserFromSocket(client);
       
-      if (!userId) {
+      if (!user) {
         this.logger.warn(`Unauthorized connection attempt: ${client.id}`);
         client.disconnect();
         return;
       }
 
-      client.userId = userId;
-      
-      // Store connection
-      if (!this.connectedUsers.has(userId)) {
-        this.connectedUsers.set(userId, new Set());
+      const { userId, cooperativeId } = user;
+      client.data = { userId, cooperativeId };
+
+      await client.join(userRoom(userId));
+      if (cooperativeId) {
+        await client.join(cooperativeRoom(cooperativeId));
       }
-      this.connectedUsers.get(userId)!.add(client.id);
 
       this.logger.log(`User ${userId} connected via socket ${client.id}`);
       
@@ -79,17 +115,7 @@ export class NotificationGateway
   }
 
   handleDisconnect(client: AuthenticatedSocket) {
-    const userId = client.userId;
-    
-    if (userId && this.connectedUsers.has(userId)) {
-      this.connectedUsers.get(userId)!.delete(client.id);
-      
-      // Remove user entry if no more connections
-      if (this.connectedUsers.get(userId)!.size === 0) {
-        this.connectedUsers.delete(userId);
-      }
-    }
-
+    // Socket.IO removes the socket from its rooms, presence follows
     this.logger.log(`Socket ${client.id} disconnected`);
   }
 
@@ -98,15 +124,15 @@ export class NotificationGateway
     @MessageBody() data: { cooperativeId: string },
     @ConnectedSocket() client: AuthenticatedSocket,
   ) {
-    if (!data.cooperativeId || !client.userId) {
+    if (!data.cooperativeId || !client.data.userId) {
       return { error: 'Invalid room or user data' };
     }
 
-    client.cooperativeId = data.cooperativeId;
-    await client.join(`cooperative_${data.cooperativeId}`);
+    client.data.cooperativeId = data.cooperativeId;
+    await client.join(cooperativeRoom(data.cooperativeId));
     
     this.logger.log(
-      `User ${client.userId} joined cooperative room ${data.cooperativeId}`,
+      `User ${client.data.userId} joined cooperative room ${data.cooperativeId}`,
     );
 
     return {
@@ -121,10 +147,10 @@ export class NotificationGateway
     @ConnectedSocket() client: AuthenticatedSocket,
   ) {
     if (data.cooperativeId) {
-      await client.leave(`cooperative_${data.cooperativeId}`);
+      await client.leave(cooperativeRoom(data.cooperativeId));
       
       this.logger.log(
-        `User ${client.userId} left cooperative room ${data.cooperativeId}`,
+        `User ${client.data.userId} left cooperative room ${data.cooperativeId}`,
       );
     }
 
@@ -139,14 +165,14 @@ export class NotificationGateway
     @MessageBody() data: { notificationId: string },
     @ConnectedSocket() client: AuthenticatedSocket,
   ) {
-    if (!data.notificationId || !client.userId) {
+    if (!data.notificationId || !client.data.userId) {
       return { error: 'Missing notification ID or user authentication' };
     }
 
     try {
       await this.notificationService.markNotificationAsRead(
         data.notificationId,
-        client.userId,
+        client.data.userId,
       );
 
       return {
@@ -166,13 +192,13 @@ export class NotificationGateway
     @MessageBody() data: { limit?: number },
     @ConnectedSocket() client: AuthenticatedSocket,
   ) {
-    if (!client.userId) {
+    if (!client.data.userId) {
       return { error: 'User not authenticated' };
     }
 
     try {
       const notifications = await this.notificationService.getInAppNotifications(
-        client.userId,
+        client.data.userId,
         data.limit || 20,
       );
 
@@ -188,7 +214,9 @@ export class NotificationGateway
   }
 
   /**
-   * Send real-time notification to a specific user
+   * Send real-time notification to a specific user, on whichever instance
+   * they are connected. Resolves true once at least one of their clients
+   * acknowledged it
    */
   async sendNotificationToUser(
     userId: string,
@@ -199,31 +227,39 @@ export class NotificationGateway
       message: string;
       data?: Record<string, any>;
     },
-  ) {
-    const userSockets = this.connectedUsers.get(userId);
-    
-    if (userSockets && userSockets.size > 0) {
-      const notificationPayload = {
-        id: notification.id,
-        type: notification.type,
-        title: notification.title,
-        message: notification.message,
-        timestamp: new Date().toISOString(),
-        data: notification.data || {},
-      };
-
-      // Send to all user's connected sockets
-      for (const socketId of userSockets) {
-        this.server.to(socketId).emit('new_notification', notificationPayload);
-      }
+  ): Promise<boolean> {
+    const notificationPayload = {
+      id: notification.id,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      timestamp: new Date().toISOString(),
+      data: notification.data || {},
+    };
 
+    // Send to all user's connected sockets and wait for their acks
+    const acks = await new Promise<number>((resolve) => {
+      this.server
+        .to(userRoom(userId))
+        .timeout(this.ackTimeout)
+        .emit(
+          'new_notification',
+          notificationPayload,
+          (_err: Error | null, responses: unknown[]) =>
+            resolve(responses?.length ?? 0),
+        );
+    });
+
+    if (acks > 0) {
       this.logger.log(
-        `Real-time notification sent to user ${userId} via ${userSockets.size} socket(s)`,
+        `Real-time notification acknowledged by user ${userId} on ${acks} socket(s)`,
       );
       return true;
     }
 
-    this.logger.debug(`User ${userId} not connected for real-time notification`);
+    this.logger.debug(
+      `User ${userId} not connected or did not acknowledge real-time notification`,
+    );
     return false;
   }
 
@@ -238,7 +274,7 @@ export class NotificationGateway
       data?: Record<string, any>;
     },
   ) {
-    const roomName = `cooperative_${cooperativeId}`;
+    const roomName = cooperativeRoom(cooperativeId);
     
     const notificationPayload = {
       title: notification.title,
@@ -266,9 +302,9 @@ export class NotificationGateway
       isOverdue: boolean;
     },
   ) {
-    const userSockets = this.connectedUsers.get(userId);
+    const userSockets = await this.server.in(userRoom(userId)).fetchSockets();
     
-    if (userSockets && userSockets.size > 0) {
+    if (userSockets.length > 0) {
       const payload = {
         ...reminder,
         timestamp: new Date().toISOString(),
@@ -277,9 +313,7 @@ export class NotificationGateway
       };
 
       // Send to all user's connected sockets with high priority
-      for (const socketId of userSockets) {
-        this.server.to(socketId).emit('urgent_reminder', payload);
-      }
+      this.server.to(userRoom(userId)).emit('urgent_reminder', payload);
 
       this.logger.log(
         `Urgent reminder notification sent to user ${userId}`,
@@ -291,47 +325,59 @@ export class NotificationGateway
   }
 
   /**
-   * Get statistics about connected users
+   * Get statistics about connected users across all instances
    */
-  getConnectionStats() {
-    const totalConnections = Array.from(this.connectedUsers.values())
-      .reduce((sum, sockets) => sum + sockets.size, 0);
-    
+  async getConnectionStats(): Promise<ConnectionStatsDto> {
+    const sockets = await this.server.fetchSockets();
+    const userConnectionsMap: Record<string, number> = {};
+
+    for (const socket of sockets) {
+      const { userId } = socket.data;
+      if (userId) {
+        userConnectionsMap[userId] = (userConnectionsMap[userId] ?? 0) + 1;
+      }
+    }
+
     return {
-      connectedUsers: this.connectedUsers.size,
-      totalConnections,
-      userConnectionsMap: Object.fromEntries(
-        Array.from(this.connectedUsers.entries()).map(([userId, sockets]) => [
-          userId,
-          sockets.size,
-        ]),
-      ),
+      connectedUsers: Object.keys(userConnectionsMap).length,
+      totalConnections: sockets.length,
+      userConnectionsMap,
     };
   }
 
+  /**
+   * Users of a cooperative connected to any instance
+   */
+  async getOnlineUsers(cooperativeId: string): Promise<CooperativePresenceDto> {
+    const sockets = await this.server
+      .in(cooperativeRoom(cooperativeId))
+      .fetchSockets();
+    const userIds = [
+      ...new Set(
+        sockets
+          .map((socket) => socket.data.userId)
+          .filter((userId): userId is string => !!userId),
+      ),
+    ];
+
+    return { cooperativeId, onlineUsers: userIds.length, userIds };
+  }
+
   /**
    * Force disconnect a user (admin function)
    */
-  async disconnectUser(userId: string) {
-    const userSockets = this.connectedUsers.get(userId);
-    
-    if (userSockets) {
-      for (const socketId of userSockets) {
-        const socket = this.server.sockets.sockets.get(socketId);
-        if (socket) {
-          socket.emit('force_disconnect', {
-            reason: 'Disconnected by administrator',
-          });
-          socket.disconnect();
-        }
-      }
-      
-      this.connectedUsers.delete(userId);
-      this.logger.log(`Force disconnected user ${userId}`);
-    }
+  disconnectUser(userId: string) {
+    this.server.to(userRoom(userId)).emit('force_disconnect', {
+      reason: 'Disconnected by administrator',
+    });
+    this.server.in(userRoom(userId)).disconnectSockets();
+
+    this.logger.log(`Force disconnected user ${userId}`);
   }
 
-  private extractUserFromSocket(socket: AuthenticatedSocket): string | null {
+  private async extractUserFromSocket(
+    socket: AuthenticatedSocket,
+  ): Promise<{ userId: string; cooperativeId?: string } | null> {
     try {
       // Extract from authorization header or handshake auth
       const token = socket.handshake.auth?.token || 
@@ -341,11 +387,22 @@ export class NotificationGateway
         return null;
       }
 
-      // In a real application, you'd verify the JWT token here
-      // For now, we'll extract user ID from the token payload
-      // This should use your JWT verification logic
-      const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
-      return payload.sub || payload.userId || null;
+      // Same checks as the HTTP JwtStrategy: valid signature, unexpired,
+      // and an active user. The cooperative comes from the user record
+      const payload = await this.jwtService.verifyAsync<JwtPayload>(token);
+      const user = await this.prismaService.user.findUnique({
+        where: { id: payload.sub },
+        select: { id: true, status: true, cooperativeId: true },
+      });
+
+      if (!user || user.status !== UserStatus.ACTIVE) {
+        return null;
+      }
+
+      return {
+        userId: user.id,
+        cooperativeId: user.cooperativeId ?? undefined,
+      };
     } catch (error) {
       this.logger.error('Error extracting user from socket:', error.message);
       return null;
@@ -354,16 +411,41 @@ export class NotificationGateway
 
   private async sendPendingNotifications(socket: AuthenticatedSocket, userId: string) {
     try {
+      // Only the ones no client has acknowledged yet
       const pendingNotifications = await this.notificationService.getInAppNotifications(
         userId,
         10,
+        [NotificationStatus.SENT],
       );
 
       if (pendingNotifications.length > 0) {
-        socket.emit('pending_notifications', {
-          notifications: pendingNotifications,
-          count: pendingNotifications.length,
-        });
+        // They only count as delivered once the client acknowledges them
+        socket.timeout(this.ackTimeout).emit(
+          'pending_notifications',
+          {
+            notifications: pendingNotifications,
+            count: pendingNotifications.length,
+          },
+          (err: Error | null) => {
+            if (err) {
+              this.logger.debug(
+                `User ${userId} did not acknowledge pending notifications`,
+              );
+              return;
+            }
+
+            this.notificationService
+              .markNotificationsDelivered(
+                userId,
+                pendingNotifications.map((notification) => notification.id),
+              )
+              .catch((error: Error) =>
+                this.logger.error(
+                  `Error marking notifications delivered for user ${userId}: ${error.message}`,
+                ),
+              );
+          },
+        );
       }
     } catch (error) {
       this.logger.error(
@@ -1,17 +1,47 @@
 import { Module, OnModuleInit } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { NotificationService } from './application/notification.service';
+import { NotificationPreferenceService } from './application/notification-preference.service';
+import { NotificationOutboxService } from './application/notification-outbox.service';
+import { NotificationDigestService } from './application/notification-digest.service';
 import { FcmService } from './infrastructure/fcm.service';
 import { NotificationGateway } from './infrastructure/notification.gateway';
+import { NotificationOutboxSchedulerService } from './infrastructure/notification-outbox-scheduler.service';
+import { NotificationDigestSchedulerService } from './infrastructure/notification-digest-scheduler.service';
 import { NotificationController } from './presentation/notification.controller';
+import { NotificationOutboxController } from './presentation/notification-outbox.controller';
+import { NotificationDigestController } from './presentation/notification-digest.controller';
+import { NotificationPresenceController } from './presentation/notification-presence.controller';
 import { PrismaService } from '../../prisma/prisma.service';
 import { SmsModule } from '../sms/sms.module';
+import { EmailModule } from '../email/email.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  imports: [ConfigModule, SmsModule],
-  controllers: [NotificationController],
-  providers: [NotificationService, FcmService, NotificationGateway, PrismaService],
-  exports: [NotificationService, FcmService, NotificationGateway],
+  imports: [ConfigModule, SmsModule, EmailModule, AuthModule],
+  controllers: [
+    NotificationOutboxController,
+    NotificationDigestController,
+    NotificationPresenceController,
+    NotificationController,
+  ],
+  providers: [
+    NotificationService,
+    NotificationPreferenceService,
+    NotificationOutboxService,
+    NotificationOutboxSchedulerService,
+    NotificationDigestService,
+    NotificationDigestSchedulerService,
+    FcmService,
+    NotificationGateway,
+    PrismaService,
+  ],
+  exports: [
+    NotificationService,
+    NotificationPreferenceService,
+    FcmService,
+    NotificationGateway,
+  ],
 })
 export class NotificationModule implements OnModuleInit {
   constructor(
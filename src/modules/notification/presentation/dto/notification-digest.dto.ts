@@ -0,0 +1,95 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DigestFrequency } from '@prisma/client';
+import { QUIET_HOURS_TIME_ZONE } from '../../application/quiet-hours';
+
+export class DigestSettingsQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Cooperative to read the settings of. Required for super admins, organization admins always get their own',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+}
+
+export class UpdateDigestSettingsDto {
+  @ApiPropertyOptional({
+    description:
+      'Cooperative to change the settings of. Required for super admins, organization admins always change their own',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Batch reminders and announcements into digests, false to send each on its own',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    enum: DigestFrequency,
+    example: DigestFrequency.DAILY,
+  })
+  @IsOptional()
+  @IsEnum(DigestFrequency)
+  frequency?: DigestFrequency;
+
+  @ApiPropertyOptional({
+    description: `Hour the digest goes out, 0-23 in ${QUIET_HOURS_TIME_ZONE} time`,
+    example: 8,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  sendHour?: number;
+
+  @ApiPropertyOptional({
+    description: 'Day weekly digests go out, 0 (Sunday) to 6',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  sendDayOfWeek?: number;
+}
+
+export class DigestSettingsDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439012' })
+  cooperativeId: string;
+
+  @ApiProperty({
+    description: 'Whether reminders and announcements go out as digests',
+    example: true,
+  })
+  enabled: boolean;
+
+  @ApiProperty({ enum: DigestFrequency, example: DigestFrequency.DAILY })
+  frequency: DigestFrequency;
+
+  @ApiProperty({ example: 8 })
+  sendHour: number;
+
+  @ApiPropertyOptional({ example: 1 })
+  sendDayOfWeek?: number;
+
+  @ApiProperty({ example: QUIET_HOURS_TIME_ZONE })
+  timeZone: string;
+
+  @ApiPropertyOptional({ description: 'When the next digest goes out' })
+  nextDigestAt?: Date;
+}
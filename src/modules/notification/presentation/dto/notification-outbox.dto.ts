@@ -0,0 +1,83 @@
+import { IsEnum, IsMongoId, IsOptional } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NotificationStatus, NotificationType } from '@prisma/client';
+import { PaginationDto } from '../../../../shared/dto/pagination.dto';
+
+export class DeadLetterFilterDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Filter by channel',
+    enum: NotificationType,
+  })
+  @IsOptional()
+  @IsEnum(NotificationType)
+  type?: NotificationType;
+
+  @ApiPropertyOptional({ description: 'Filter by cooperative ID' })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by user ID' })
+  @IsOptional()
+  @IsMongoId()
+  userId?: string;
+}
+
+export class OutboxNotificationResponseDto {
+  @ApiProperty({ description: 'Notification ID' })
+  id: string;
+
+  @ApiProperty({ enum: NotificationType })
+  type: NotificationType;
+
+  @ApiProperty({ enum: NotificationStatus })
+  status: NotificationStatus;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty()
+  message: string;
+
+  @ApiProperty({ description: 'Phone number, email, FCM token or user ID' })
+  recipient: string;
+
+  @ApiProperty()
+  userId: string;
+
+  @ApiPropertyOptional()
+  cooperativeId?: string;
+
+  @ApiPropertyOptional()
+  paymentId?: string;
+
+  @ApiPropertyOptional()
+  reminderId?: string;
+
+  @ApiPropertyOptional()
+  announcementId?: string;
+
+  @ApiProperty({ description: 'Failed attempts so far' })
+  retryCount: number;
+
+  @ApiProperty({ description: 'Retries before the notification is dead' })
+  maxRetries: number;
+
+  @ApiPropertyOptional({ description: 'Error of the last attempt' })
+  errorMessage?: string;
+
+  @ApiPropertyOptional({ description: 'Provider of the last attempt' })
+  provider?: string;
+
+  @ApiPropertyOptional()
+  lastAttemptAt?: Date;
+
+  @ApiPropertyOptional({ description: 'When the next attempt is due' })
+  nextRetryAt?: Date;
+
+  @ApiPropertyOptional()
+  failedAt?: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+}
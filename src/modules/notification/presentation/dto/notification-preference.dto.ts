@@ -0,0 +1,108 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  Matches,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NotificationCategory, NotificationType } from '@prisma/client';
+import {
+  QUIET_HOURS_TIME_ZONE,
+  TIME_OF_DAY_PATTERN,
+} from '../../application/quiet-hours';
+
+export class CategoryPreferenceDto {
+  @ApiProperty({
+    enum: NotificationCategory,
+    example: NotificationCategory.REMINDERS,
+  })
+  @IsEnum(NotificationCategory)
+  category: NotificationCategory;
+
+  @ApiProperty({
+    enum: NotificationType,
+    isArray: true,
+    description: 'Channels to get this category on. An empty list turns it off',
+    example: [NotificationType.IN_APP, NotificationType.PUSH_NOTIFICATION],
+  })
+  @IsArray()
+  @IsEnum(NotificationType, { each: true })
+  channels: NotificationType[];
+}
+
+export class QuietHoursDto {
+  @ApiProperty({
+    description: `Start of the quiet hours, HH:mm in ${QUIET_HOURS_TIME_ZONE} time`,
+    example: '21:00',
+  })
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'start must be a time as HH:mm' })
+  start: string;
+
+  @ApiProperty({
+    description: `End of the quiet hours, HH:mm in ${QUIET_HOURS_TIME_ZONE} time. Before start for quiet hours over midnight`,
+    example: '07:00',
+  })
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'end must be a time as HH:mm' })
+  end: string;
+}
+
+export class UpdateNotificationPreferencesDto {
+  @ApiPropertyOptional({
+    type: [CategoryPreferenceDto],
+    description: 'Categories to change, the others are kept',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CategoryPreferenceDto)
+  categories?: CategoryPreferenceDto[];
+
+  @ApiPropertyOptional({
+    type: QuietHoursDto,
+    nullable: true,
+    description: 'Quiet hours, null to turn them off',
+  })
+  @ValidateIf(
+    (dto: UpdateNotificationPreferencesDto) =>
+      dto.quietHours !== null && dto.quietHours !== undefined,
+  )
+  @ValidateNested()
+  @Type(() => QuietHoursDto)
+  quietHours?: QuietHoursDto | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Unsubscribe from reminders and announcements on every channel, false to subscribe again',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  unsubscribed?: boolean;
+}
+
+export class NotificationPreferencesDto {
+  @ApiProperty({
+    type: [CategoryPreferenceDto],
+    description: 'Channels each category goes out on',
+  })
+  categories: CategoryPreferenceDto[];
+
+  @ApiProperty({ type: QuietHoursDto, nullable: true })
+  quietHours: QuietHoursDto | null;
+
+  @ApiProperty({ example: QUIET_HOURS_TIME_ZONE })
+  timeZone: string;
+
+  @ApiProperty({
+    description: 'Unsubscribed from reminders and announcements',
+    example: false,
+  })
+  unsubscribed: boolean;
+
+  @ApiPropertyOptional()
+  unsubscribedAt?: Date;
+}
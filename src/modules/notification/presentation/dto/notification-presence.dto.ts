@@ -0,0 +1,43 @@
+import { IsMongoId, IsOptional } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class PresenceQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Cooperative to list online users of. Required for super admins, organization admins always get their own',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+}
+
+export class CooperativePresenceDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439012' })
+  cooperativeId: string;
+
+  @ApiProperty({
+    description: 'Users connected to the notification gateway',
+    example: 2,
+  })
+  onlineUsers: number;
+
+  @ApiProperty({
+    type: [String],
+    example: ['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439013'],
+  })
+  userIds: string[];
+}
+
+export class ConnectionStatsDto {
+  @ApiProperty({ description: 'Users with at least one socket', example: 2 })
+  connectedUsers: number;
+
+  @ApiProperty({ description: 'Open sockets on all instances', example: 3 })
+  totalConnections: number;
+
+  @ApiProperty({
+    description: 'Open sockets per user ID',
+    example: { '507f1f77bcf86cd799439011': 2, '507f1f77bcf86cd799439013': 1 },
+  })
+  userConnectionsMap: Record<string, number>;
+}
@@ -0,0 +1,97 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { NotificationDigestService } from '../application/notification-digest.service';
+import {
+  DigestSettingsDto,
+  DigestSettingsQueryDto,
+  UpdateDigestSettingsDto,
+} from './dto/notification-digest.dto';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../../shared/decorators/current-user.decorator';
+
+@ApiTags('Notifications')
+@Controller('notifications/digest-settings')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+@ApiBearerAuth()
+export class NotificationDigestController {
+  constructor(private notificationDigestService: NotificationDigestService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get notification digest settings',
+    description:
+      'Whether the cooperative batches reminders and announcements into digests, and when they go out',
+  })
+  @ApiResponse({ status: 200, type: DigestSettingsDto })
+  async getSettings(
+    @Query() queryDto: DigestSettingsQueryDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<DigestSettingsDto> {
+    return this.notificationDigestService.getSettings(
+      this.resolveCooperativeId(currentUser, queryDto.cooperativeId),
+    );
+  }
+
+  @Put()
+  @ApiOperation({
+    summary: 'Update notification digest settings',
+    description:
+      'Turn digests on or off and choose when they go out. Notifications already waiting follow the new settings',
+  })
+  @ApiResponse({ status: 200, type: DigestSettingsDto })
+  @ApiResponse({ status: 404, description: 'Cooperative not found' })
+  async updateSettings(
+    @Body() updateDto: UpdateDigestSettingsDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<DigestSettingsDto> {
+    return this.notificationDigestService.updateSettings(
+      this.resolveCooperativeId(currentUser, updateDto.cooperativeId),
+      updateDto,
+      currentUser.id,
+    );
+  }
+
+  private resolveCooperativeId(
+    currentUser: AuthenticatedUser,
+    cooperativeId?: string,
+  ): string {
+    if (currentUser.role === UserRole.SUPER_ADMIN) {
+      if (!cooperativeId) {
+        throw new BadRequestException('cooperativeId is required');
+      }
+      return cooperativeId;
+    }
+
+    if (cooperativeId && cooperativeId !== currentUser.cooperativeId) {
+      throw new BadRequestException(
+        'You can only manage digest settings of your own cooperative',
+      );
+    }
+
+    if (!currentUser.cooperativeId) {
+      throw new BadRequestException('User cooperative ID is required');
+    }
+
+    return currentUser.cooperativeId;
+  }
+}
@@ -0,0 +1,67 @@
+import { Controller, Get, Post, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { NotificationOutboxService } from '../application/notification-outbox.service';
+import {
+  DeadLetterFilterDto,
+  OutboxNotificationResponseDto,
+} from './dto/notification-outbox.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/auth.decorator';
+
+@ApiTags('Notification Outbox')
+@Controller('notifications/outbox')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+@Roles(UserRole.SUPER_ADMIN)
+export class NotificationOutboxController {
+  constructor(private notificationOutboxService: NotificationOutboxService) {}
+
+  @Get('dead-letters')
+  @ApiOperation({
+    summary: 'Get dead-lettered notifications',
+    description:
+      'List notifications that still failed after all their retries, with the last error (Super Admin only)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Dead letters retrieved successfully',
+    type: PaginatedResponseDto<OutboxNotificationResponseDto>,
+  })
+  async findDeadLetters(
+    @Query() filterDto: DeadLetterFilterDto,
+  ): Promise<PaginatedResponseDto<OutboxNotificationResponseDto>> {
+    return this.notificationOutboxService.findDeadLetters(filterDto);
+  }
+
+  @Post('dead-letters/:id/requeue')
+  @ApiOperation({
+    summary: 'Requeue a dead-lettered notification',
+    description:
+      'Queue the notification again with a fresh set of retries, e.g. after fixing provider credentials (Super Admin only)',
+  })
+  @ApiParam({ name: 'id', description: 'Notification ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Notification requeued',
+    type: OutboxNotificationResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Notification is not a dead letter',
+  })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  async requeue(
+    @Param('id') id: string,
+  ): Promise<OutboxNotificationResponseDto> {
+    return this.notificationOutboxService.requeue(id);
+  }
+}
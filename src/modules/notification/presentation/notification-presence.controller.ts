@@ -0,0 +1,87 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { NotificationGateway } from '../infrastructure/notification.gateway';
+import {
+  ConnectionStatsDto,
+  CooperativePresenceDto,
+  PresenceQueryDto,
+} from './dto/notification-presence.dto';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../../shared/decorators/current-user.decorator';
+
+@ApiTags('Notifications')
+@Controller('notifications/presence')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class NotificationPresenceController {
+  constructor(private notificationGateway: NotificationGateway) {}
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+  @ApiOperation({
+    summary: 'Get online users of a cooperative',
+    description:
+      'Users of the cooperative connected to the notification gateway on any API instance',
+  })
+  @ApiResponse({ status: 200, type: CooperativePresenceDto })
+  async getOnlineUsers(
+    @Query() queryDto: PresenceQueryDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<CooperativePresenceDto> {
+    return this.notificationGateway.getOnlineUsers(
+      this.resolveCooperativeId(currentUser, queryDto.cooperativeId),
+    );
+  }
+
+  @Get('stats')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Get notification gateway connection statistics',
+    description: 'Connected users and sockets across all API instances',
+  })
+  @ApiResponse({ status: 200, type: ConnectionStatsDto })
+  async getConnectionStats(): Promise<ConnectionStatsDto> {
+    return this.notificationGateway.getConnectionStats();
+  }
+
+  private resolveCooperativeId(
+    currentUser: AuthenticatedUser,
+    cooperativeId?: string,
+  ): string {
+    if (currentUser.role === UserRole.SUPER_ADMIN) {
+      if (!cooperativeId) {
+        throw new BadRequestException('cooperativeId is required');
+      }
+      return cooperativeId;
+    }
+
+    if (cooperativeId && cooperativeId !== currentUser.cooperativeId) {
+      throw new BadRequestException(
+        'You can only view online users of your own cooperative',
+      );
+    }
+
+    if (!currentUser.cooperativeId) {
+      throw new BadRequestException('User cooperative ID is required');
+    }
+
+    return currentUser.cooperativeId;
+  }
+}
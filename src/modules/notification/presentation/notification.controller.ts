@@ -2,6 +2,7 @@ import {
   Controller,
   Get,
   Patch,
+  Put,
   Param,
   Query,
   UseGuards,
@@ -18,7 +19,12 @@ import {
   ApiParam,
 } from '@nestjs/swagger';
 import { NotificationService } from '../application/notification.service';
+import { NotificationPreferenceService } from '../application/notification-preference.service';
 import { InAppNotificationsResponseDto } from './dto/notification.dto';
+import {
+  NotificationPreferencesDto,
+  UpdateNotificationPreferencesDto,
+} from './dto/notification-preference.dto';
 import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
 import { CurrentUser } from '../../../shared/decorators/current-user.decorator';
 import { AuthenticatedUser } from '../../../shared/decorators/current-user.decorator';
@@ -28,7 +34,10 @@ import { AuthenticatedUser } from '../../../shared/decorators/current-user.decor
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class NotificationController {
-  constructor(private notificationService: NotificationService) {}
+  constructor(
+    private notificationService: NotificationService,
+    private notificationPreferenceService: NotificationPreferenceService,
+  ) {}
 
   @Get('in-app')
   @ApiOperation({
@@ -95,4 +104,34 @@ export class NotificationController {
 
     return { message: 'Notification marked as read' };
   }
+
+  @Get('preferences')
+  @ApiOperation({
+    summary: 'Get notification preferences of current user',
+    description:
+      'Channels of each notification category, quiet hours and whether the user unsubscribed',
+  })
+  @ApiResponse({ status: 200, type: NotificationPreferencesDto })
+  async getPreferences(
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<NotificationPreferencesDto> {
+    return this.notificationPreferenceService.getPreferences(currentUser.id);
+  }
+
+  @Put('preferences')
+  @ApiOperation({
+    summary: 'Update notification preferences of current user',
+    description:
+      'Non-urgent SMS and push notifications due during quiet hours are sent when they end. Unsubscribing stops reminders and announcements on every channel, payment receipts and complaint updates still go out',
+  })
+  @ApiResponse({ status: 200, type: NotificationPreferencesDto })
+  async updatePreferences(
+    @Body() updateDto: UpdateNotificationPreferencesDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<NotificationPreferencesDto> {
+    return this.notificationPreferenceService.updatePreferences(
+      currentUser.id,
+      updateDto,
+    );
+  }
 }
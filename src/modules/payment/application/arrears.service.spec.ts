@@ -0,0 +1,253 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PaymentAmountType } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ArrearsService } from './arrears.service';
+import { BalanceService } from './balance.service';
+import {
+  PaymentFrequency,
+  PaymentPeriodService,
+} from './payment-period.service';
+
+const COOPERATIVE_ID = '65f000000000000000000001';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Billing periods are built on server-local dates
+const JANUARY_1 = new Date(2026, 0, 1);
+const MAY_15 = new Date(2026, 4, 15, 12);
+
+describe('ArrearsService', () => {
+  let service: ArrearsService;
+  let prisma: {
+    cooperative: { findUnique: jest.Mock };
+    userCooperativeRoom: { findMany: jest.Mock };
+    paymentType: { findMany: jest.Mock };
+    payment: { findMany: jest.Mock };
+    paymentAllocation: { findMany: jest.Mock };
+    walletTransaction: { findMany: jest.Mock };
+    lateFee: { findMany: jest.Mock };
+  };
+
+  const assignment = (
+    tenantId: string,
+    overrides: Record<string, unknown> = {},
+  ) => ({
+    id: `assignment-${tenantId}`,
+    userId: tenantId,
+    cooperativeId: COOPERATIVE_ID,
+    startDate: JANUARY_1,
+    endDate: null,
+    isActive: true,
+    updatedAt: JANUARY_1,
+    room: { id: `room-${tenantId}`, roomNumber: '101', baseRent: null },
+    user: {
+      id: tenantId,
+      firstName: 'Aline',
+      lastName: tenantId,
+      phone: '+250788123456',
+    },
+    ...overrides,
+  });
+
+  const rentPayment = (
+    tenantId: string,
+    baseAmount: number,
+    paidAt: Date = JANUARY_1,
+  ) => ({
+    id: `payment-${tenantId}-${baseAmount}`,
+    senderId: tenantId,
+    paymentTypeId: 'rent',
+    amount: baseAmount,
+    baseAmount,
+    fee: 0,
+    refundedAmount: 0,
+    paidAt,
+  });
+
+  const arrears = (asOf: Date = MAY_15) =>
+    service.getTenantArrears('tenant-1', COOPERATIVE_ID, asOf);
+
+  beforeEach(async () => {
+    prisma = {
+      cooperative: {
+        findUnique: jest.fn().mockResolvedValue({
+          paymentFrequency: PaymentFrequency.MONTHLY,
+          billingDayOfMonth: 1,
+          billingDayOfYear: null,
+        }),
+      },
+      userCooperativeRoom: {
+        findMany: jest.fn().mockResolvedValue([assignment('tenant-1')]),
+      },
+      paymentType: {
+        findMany: jest.fn().mockResolvedValue([
+          {
+            id: 'rent',
+            name: 'Rent',
+            amount: 10000,
+            amountType: PaymentAmountType.FIXED,
+            dueDay: null,
+          },
+        ]),
+      },
+      payment: { findMany: jest.fn().mockResolvedValue([]) },
+      paymentAllocation: { findMany: jest.fn().mockResolvedValue([]) },
+      walletTransaction: { findMany: jest.fn().mockResolvedValue([]) },
+      lateFee: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ArrearsService,
+        PaymentPeriodService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: BalanceService,
+          useValue: {
+            getLegacyBaseAmount: ({ baseAmount }: { baseAmount: number }) =>
+              baseAmount,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ArrearsService);
+  });
+
+  describe('getTenantArrears', () => {
+    it('ages each unpaid month by how long it has been due', async () => {
+      await expect(arrears()).resolves.toMatchObject({
+        totalCharged: 50000,
+        totalPaid: 0,
+        outstandingBalance: 50000,
+        oldestUnpaidDueDate: JANUARY_1,
+        aging: {
+          days0To30: 10000,
+          days31To60: 10000,
+          days61To90: 10000,
+          over90: 20000,
+        },
+      });
+    });
+
+    it('pays off the oldest months first', async () => {
+      prisma.payment.findMany.mockResolvedValue([
+        rentPayment('tenant-1', 25000),
+      ]);
+
+      const result = await arrears();
+
+      expect(result).toMatchObject({
+        totalPaid: 25000,
+        outstandingBalance: 25000,
+        oldestUnpaidDueDate: new Date(2026, 2, 1),
+        aging: {
+          days0To30: 10000,
+          days31To60: 10000,
+          days61To90: 5000,
+          over90: 0,
+        },
+      });
+      expect(
+        result.charges.map(({ periodIdentifier, outstanding }) => [
+          periodIdentifier,
+          outstanding,
+        ]),
+      ).toEqual([
+        ['2026-01', 0],
+        ['2026-02', 0],
+        ['2026-03', 5000],
+        ['2026-04', 10000],
+        ['2026-05', 10000],
+      ]);
+    });
+
+    it.each([
+      [0, 'days0To30'],
+      [30, 'days0To30'],
+      [31, 'days31To60'],
+      [60, 'days31To60'],
+      [61, 'days61To90'],
+      [90, 'days61To90'],
+      [91, 'over90'],
+    ])('puts a charge %i days overdue in %s', async (days, bucket) => {
+      // Only January is charged
+      prisma.userCooperativeRoom.findMany.mockResolvedValue([
+        assignment('tenant-1', {
+          endDate: new Date(2026, 0, 31),
+          isActive: false,
+        }),
+      ]);
+
+      const { aging } = await arrears(
+        new Date(JANUARY_1.getTime() + days * DAY_MS + 12 * 60 * 60 * 1000),
+      );
+
+      expect(aging).toEqual({
+        days0To30: 0,
+        days31To60: 0,
+        days61To90: 0,
+        over90: 0,
+        [bucket]: 10000,
+      });
+    });
+
+    it('ages late fees from when they were assessed', async () => {
+      prisma.userCooperativeRoom.findMany.mockResolvedValue([
+        assignment('tenant-1', {
+          endDate: new Date(2026, 0, 31),
+          isActive: false,
+        }),
+      ]);
+      prisma.payment.findMany.mockResolvedValue([
+        rentPayment('tenant-1', 10000),
+      ]);
+      prisma.lateFee.findMany.mockResolvedValue([
+        {
+          id: 'late-fee-1',
+          tenantId: 'tenant-1',
+          paymentTypeId: 'rent',
+          periodIdentifier: '2026-03',
+          roomId: 'room-tenant-1',
+          amount: 1000,
+          assessedAt: new Date(2026, 2, 10),
+        },
+      ]);
+
+      await expect(arrears()).resolves.toMatchObject({
+        outstandingBalance: 1000,
+        aging: { days0To30: 0, days31To60: 0, days61To90: 1000, over90: 0 },
+      });
+    });
+  });
+
+  describe('getCooperativeArrears', () => {
+    it('lists tenants who owe, largest debt first', async () => {
+      prisma.userCooperativeRoom.findMany.mockResolvedValue([
+        assignment('tenant-1'),
+        assignment('tenant-2'),
+        assignment('tenant-3'),
+      ]);
+      prisma.payment.findMany.mockResolvedValue([
+        rentPayment('tenant-1', 40000),
+        rentPayment('tenant-3', 50000),
+      ]);
+
+      const result = await service.getCooperativeArrears(COOPERATIVE_ID, {
+        asOf: MAY_15.toISOString(),
+        page: 1,
+        limit: 10,
+        skip: 0,
+      });
+
+      expect(
+        result.data.map(({ tenantId, outstandingBalance }) => [
+          tenantId,
+          outstandingBalance,
+        ]),
+      ).toEqual([
+        ['tenant-2', 50000],
+        ['tenant-1', 10000],
+      ]);
+    });
+  });
+});
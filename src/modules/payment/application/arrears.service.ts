@@ -0,0 +1,794 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  LateFeeStatus,
+  PaymentAmountType,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+  WalletTransactionType,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  BillingPeriod,
+  CooperativeSettings,
+  PaymentFrequency,
+  PaymentPeriodService,
+} from './payment-period.service';
+import { BalanceService } from './balance.service';
+import {
+  ArrearsAgingDto,
+  ArrearsChargeDto,
+  ArrearsFilterDto,
+  StatementLineDto,
+  TenantArrearsDto,
+  TenantArrearsSummaryDto,
+  TenantStatementDto,
+} from '../presentation/dto/arrears.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ASSIGNMENT_INCLUDE = {
+  room: { select: { id: true, roomNumber: true, baseRent: true } },
+  user: { select: { id: true, firstName: true, lastName: true, phone: true } },
+} satisfies Prisma.UserCooperativeRoomInclude;
+
+type TenantAssignment = Prisma.UserCooperativeRoomGetPayload<{
+  include: typeof ASSIGNMENT_INCLUDE;
+}>;
+
+// A completed payment, group payment share or wallet application that pays
+// down charges
+export interface TenantCredit {
+  tenantId: string;
+  source: 'PAYMENT' | 'WALLET';
+  // Wallet transaction ID for wallet applications
+  paymentId: string;
+  paymentTypeId: string;
+  amount: number;
+  paidAt: Date;
+  // Part left over once every charge of the same type was covered
+  unappliedAmount: number;
+  // Part already moved into the tenant wallet when the ledger was read
+  walletFunding: number;
+}
+
+export interface TenantLedger {
+  charges: ArrearsChargeDto[];
+  credits: TenantCredit[];
+  unappliedCredit: number;
+}
+
+@Injectable()
+export class ArrearsService {
+  private readonly logger = new Logger(ArrearsService.name);
+
+  constructor(
+    private prismaService: PrismaService,
+    private paymentPeriodService: PaymentPeriodService,
+    private balanceService: BalanceService,
+  ) {}
+
+  /**
+   * Expected charges, payments applied and outstanding balance for a tenant
+   */
+  async getTenantArrears(
+    tenantId: string,
+    cooperativeId: string,
+    asOf: Date = new Date(),
+  ): Promise<TenantArrearsDto> {
+    const { ledger, assignments } = await this.buildTenantLedger(
+      tenantId,
+      cooperativeId,
+      asOf,
+    );
+
+    return {
+      ...this.summarize(assignments[0], ledger, asOf),
+      charges: ledger.charges,
+    };
+  }
+
+  /**
+   * Tenants of a cooperative with an outstanding balance, largest debt first
+   */
+  async getCooperativeArrears(
+    cooperativeId: string,
+    filterDto: ArrearsFilterDto,
+  ): Promise<PaginatedResponseDto<TenantArrearsSummaryDto>> {
+    const { page, limit, minOutstanding } = filterDto;
+    const asOf = filterDto.asOf ? new Date(filterDto.asOf) : new Date();
+
+    const ledgers = await this.buildLedgers(cooperativeId, asOf);
+
+    const summaries = ledgers
+      .map(({ assignments, ledger }) =>
+        this.summarize(assignments[0], ledger, asOf),
+      )
+      .filter(
+        (summary) =>
+          summary.outstandingBalance > 0 &&
+          summary.outstandingBalance >= (minOutstanding ?? 0),
+      )
+      .sort((a, b) => b.outstandingBalance - a.outstandingBalance);
+
+    return new PaginatedResponseDto(
+      summaries.slice(filterDto.skip, filterDto.skip + (limit || 10)),
+      summaries.length,
+      page || 1,
+      limit || 10,
+    );
+  }
+
+  /**
+   * Chronological charges and payments with a running balance
+   */
+  async getTenantStatement(
+    tenantId: string,
+    cooperativeId: string,
+    options: { fromDate?: Date; asOf?: Date } = {},
+  ): Promise<TenantStatementDto> {
+    const asOf = options.asOf ?? new Date();
+    const [{ ledger, assignments }, cooperative] = await Promise.all([
+      this.buildTenantLedger(tenantId, cooperativeId, asOf),
+      this.prismaService.cooperative.findUnique({
+        where: { id: cooperativeId },
+        select: { name: true },
+      }),
+    ]);
+
+    const entries: Omit<StatementLineDto, 'balance'>[] = [
+      ...ledger.charges.map((charge) => ({
+        date: charge.dueDate,
+        type: 'CHARGE' as const,
+        description: `${charge.paymentTypeName} ${charge.periodIdentifier}${charge.roomNumber ? ` (room ${charge.roomNumber})` : ''}`,
+        debit: charge.amount,
+        credit: 0,
+      })),
+      ...ledger.credits.map((credit) => ({
+        date: credit.paidAt,
+        type: 'PAYMENT' as const,
+        description:
+          credit.source === 'WALLET'
+            ? 'Applied from wallet'
+            : 'Payment received',
+        reference: credit.paymentId,
+        debit: 0,
+        credit: credit.amount,
+      })),
+    ].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    const fromDate = options.fromDate ?? entries[0]?.date ?? asOf;
+
+    let balance = 0;
+    let openingBalance = 0;
+    const lines: StatementLineDto[] = [];
+
+    for (const entry of entries) {
+      balance = this.round(balance + entry.debit - entry.credit);
+
+      if (entry.date < fromDate) {
+        openingBalance = balance;
+      } else {
+        lines.push({ ...entry, balance });
+      }
+    }
+
+    const summary = this.summarize(assignments[0], ledger, asOf);
+
+    return {
+      tenantId: summary.tenantId,
+      tenantName: summary.tenantName,
+      phone: summary.phone,
+      cooperativeName: cooperative?.name ?? '',
+      fromDate,
+      toDate: asOf,
+      openingBalance,
+      lines,
+      closingBalance: balance,
+      aging: summary.aging,
+    };
+  }
+
+  /**
+   * Plain text version of a statement for printing
+   */
+  renderStatement(statement: TenantStatementDto): string {
+    const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+    const formatAmount = (amount: number) =>
+      amount ? amount.toLocaleString('en-RW') : '';
+    const row = (
+      date: string,
+      description: string,
+      debit: string,
+      credit: string,
+      balance: string,
+    ) =>
+      `${date.padEnd(12)}${description.slice(0, 40).padEnd(42)}${debit.padStart(12)}${credit.padStart(12)}${balance.padStart(14)}`;
+
+    const divider = '-'.repeat(92);
+
+    return [
+      `TENANT STATEMENT - ${statement.cooperativeName}`,
+      `Tenant: ${statement.tenantName} (${statement.phone})`,
+      `Period: ${formatDate(statement.fromDate)} to ${formatDate(statement.toDate)}`,
+      divider,
+      row('Date', 'Description', 'Charge', 'Payment', 'Balance'),
+      divider,
+      row(
+        formatDate(statement.fromDate),
+        'Opening balance',
+        '',
+        '',
+        statement.openingBalance.toLocaleString('en-RW'),
+      ),
+      ...statement.lines.map((line) =>
+        row(
+          formatDate(line.date),
+          line.description,
+          formatAmount(line.debit),
+          formatAmount(line.credit),
+          line.balance.toLocaleString('en-RW'),
+        ),
+      ),
+      divider,
+      `Closing balance: ${statement.closingBalance.toLocaleString('en-RW')} RWF`,
+      `Overdue 0-30 days: ${statement.aging.days0To30.toLocaleString('en-RW')} RWF`,
+      `Overdue 31-60 days: ${statement.aging.days31To60.toLocaleString('en-RW')} RWF`,
+      `Overdue 61-90 days: ${statement.aging.days61To90.toLocaleString('en-RW')} RWF`,
+      `Overdue 90+ days: ${statement.aging.over90.toLocaleString('en-RW')} RWF`,
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Unpaid charges per tenant, used to assess late fees
+   */
+  async getOutstandingCharges(
+    cooperativeId: string,
+    asOf: Date = new Date(),
+  ): Promise<{ tenantId: string; charges: ArrearsChargeDto[] }[]> {
+    const ledgers = await this.buildLedgers(cooperativeId, asOf);
+
+    return ledgers.map(({ assignments, ledger }) => ({
+      tenantId: assignments[0].userId,
+      charges: ledger.charges,
+    }));
+  }
+
+  /**
+   * Charges and credits per tenant, used to move leftover payments into
+   * tenant wallets and apply them again
+   */
+  async getLedgers(
+    cooperativeId: string,
+    asOf: Date = new Date(),
+    tenantId?: string,
+  ): Promise<({ tenantId: string } & TenantLedger)[]> {
+    const ledgers = await this.buildLedgers(cooperativeId, asOf, tenantId);
+
+    return ledgers.map(({ assignments, ledger }) => ({
+      tenantId: assignments[0].userId,
+      ...ledger,
+    }));
+  }
+
+  private async buildTenantLedger(
+    tenantId: string,
+    cooperativeId: string,
+    asOf: Date,
+  ): Promise<{ ledger: TenantLedger; assignments: TenantAssignment[] }> {
+    const [tenantLedger] = await this.buildLedgers(
+      cooperativeId,
+      asOf,
+      tenantId,
+    );
+
+    if (!tenantLedger) {
+      throw new NotFoundException(
+        'Tenant has no room assignment in this cooperative',
+      );
+    }
+
+    return tenantLedger;
+  }
+
+  private async buildLedgers(
+    cooperativeId: string,
+    asOf: Date,
+    tenantId?: string,
+  ): Promise<{ ledger: TenantLedger; assignments: TenantAssignment[] }[]> {
+    const settings = await this.getCooperativeSettings(cooperativeId);
+    const [assignments, paymentTypes] = await Promise.all([
+      this.prismaService.userCooperativeRoom.findMany({
+        where: {
+          cooperativeId,
+          startDate: { lte: asOf },
+          ...(tenantId && { userId: tenantId }),
+        },
+        include: ASSIGNMENT_INCLUDE,
+        orderBy: { startDate: 'asc' },
+      }),
+      this.getRecurringPaymentTypes(cooperativeId),
+    ]);
+
+    const assignmentsByTenant = new Map<string, TenantAssignment[]>();
+    for (const assignment of assignments) {
+      const tenantAssignments = assignmentsByTenant.get(assignment.userId);
+      if (tenantAssignments) {
+        tenantAssignments.push(assignment);
+      } else {
+        assignmentsByTenant.set(assignment.userId, [assignment]);
+      }
+    }
+
+    const tenantIds = [...assignmentsByTenant.keys()];
+    const [credits, lateFeeCharges] = await Promise.all([
+      this.getCredits(tenantIds, cooperativeId, paymentTypes, asOf),
+      this.getLateFeeCharges(
+        tenantIds,
+        cooperativeId,
+        paymentTypes,
+        assignments,
+        asOf,
+      ),
+    ]);
+
+    return [...assignmentsByTenant.entries()].map(
+      ([tenantId, tenantAssignments]) => {
+        const charges = [
+          ...this.generateCharges(
+            tenantAssignments,
+            paymentTypes,
+            settings,
+            asOf,
+          ),
+          ...(lateFeeCharges.get(tenantId) ?? []),
+        ].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+        return {
+          assignments: tenantAssignments,
+          ledger: this.applyCredits(
+            charges,
+            credits.filter((credit) => credit.tenantId === tenantId),
+          ),
+        };
+      },
+    );
+  }
+
+  /**
+   * One charge per recurring payment type for every billing period a room
+   * was assigned to the tenant, up to the charges already due
+   */
+  private generateCharges(
+    assignments: TenantAssignment[],
+    paymentTypes: PaymentType[],
+    settings: CooperativeSettings,
+    asOf: Date,
+  ): ArrearsChargeDto[] {
+    const charges: ArrearsChargeDto[] = [];
+    // A tenant moving rooms mid-period is only charged once for that period
+    const chargedPeriods = new Set<string>();
+
+    for (const assignment of assignments) {
+      const assignmentEnd =
+        assignment.endDate ??
+        (assignment.isActive ? asOf : assignment.updatedAt);
+      const lastDay = assignmentEnd < asOf ? assignmentEnd : asOf;
+
+      let period = this.paymentPeriodService.getCurrentBillingPeriod(
+        settings,
+        assignment.startDate,
+      );
+
+      while (period.startDate <= lastDay) {
+        for (const paymentType of paymentTypes) {
+          const key = `${paymentType.id}:${period.periodIdentifier}`;
+          const amount = this.getChargeAmount(paymentType, assignment);
+          const dueDate = this.getDueDate(period, paymentType, settings);
+
+          if (chargedPeriods.has(key) || amount <= 0 || dueDate > asOf) {
+            continue;
+          }
+
+          chargedPeriods.add(key);
+          charges.push({
+            periodIdentifier: period.periodIdentifier,
+            periodStart: period.startDate,
+            periodEnd: period.endDate,
+            dueDate,
+            paymentTypeId: paymentType.id,
+            paymentTypeName: paymentType.name,
+            roomId: assignment.room.id,
+            roomNumber: assignment.room.roomNumber,
+            amount,
+            paidAmount: 0,
+            outstanding: amount,
+            daysOverdue: Math.max(
+              0,
+              Math.floor((asOf.getTime() - dueDate.getTime()) / DAY_MS),
+            ),
+          });
+        }
+
+        period = this.paymentPeriodService.getNextBillingPeriod(
+          settings,
+          period,
+        );
+      }
+    }
+
+    return charges;
+  }
+
+  /**
+   * Late fees that were not waived, as charges of their payment type
+   */
+  private async getLateFeeCharges(
+    tenantIds: string[],
+    cooperativeId: string,
+    paymentTypes: PaymentType[],
+    assignments: TenantAssignment[],
+    asOf: Date,
+  ): Promise<Map<string, ArrearsChargeDto[]>> {
+    const chargesByTenant = new Map<string, ArrearsChargeDto[]>();
+
+    if (tenantIds.length === 0 || paymentTypes.length === 0) {
+      return chargesByTenant;
+    }
+
+    const lateFees = await this.prismaService.lateFee.findMany({
+      where: {
+        tenantId: { in: tenantIds },
+        cooperativeId,
+        paymentTypeId: {
+          in: paymentTypes.map((paymentType) => paymentType.id),
+        },
+        status: { not: LateFeeStatus.WAIVED },
+        assessedAt: { lte: asOf },
+      },
+    });
+
+    const paymentTypeNames = new Map(
+      paymentTypes.map((paymentType) => [paymentType.id, paymentType.name]),
+    );
+    const roomNumbers = new Map(
+      assignments.map((assignment) => [
+        assignment.room.id,
+        assignment.room.roomNumber,
+      ]),
+    );
+
+    for (const lateFee of lateFees) {
+      const charge: ArrearsChargeDto = {
+        periodIdentifier: lateFee.periodIdentifier,
+        periodStart: lateFee.assessedAt,
+        periodEnd: lateFee.assessedAt,
+        dueDate: lateFee.assessedAt,
+        paymentTypeId: lateFee.paymentTypeId,
+        paymentTypeName: `Late fee: ${paymentTypeNames.get(lateFee.paymentTypeId)}`,
+        roomId: lateFee.roomId ?? '',
+        roomNumber: (lateFee.roomId && roomNumbers.get(lateFee.roomId)) || '',
+        amount: lateFee.amount,
+        paidAmount: 0,
+        outstanding: lateFee.amount,
+        daysOverdue: Math.max(
+          0,
+          Math.floor((asOf.getTime() - lateFee.assessedAt.getTime()) / DAY_MS),
+        ),
+        lateFeeId: lateFee.id,
+      };
+
+      const tenantCharges = chargesByTenant.get(lateFee.tenantId);
+      if (tenantCharges) {
+        tenantCharges.push(charge);
+      } else {
+        chargesByTenant.set(lateFee.tenantId, [charge]);
+      }
+    }
+
+    return chargesByTenant;
+  }
+
+  /**
+   * Apply payments oldest first to the oldest open charge of the same type,
+   * so partial payments add up across periods
+   */
+  private applyCredits(
+    charges: ArrearsChargeDto[],
+    credits: TenantCredit[],
+  ): TenantLedger {
+    let unappliedCredit = 0;
+
+    for (const credit of credits) {
+      let remaining = credit.amount;
+
+      for (const charge of charges) {
+        if (remaining <= 0) {
+          break;
+        }
+
+        if (
+          charge.paymentTypeId !== credit.paymentTypeId ||
+          charge.outstanding <= 0
+        ) {
+          continue;
+        }
+
+        const applied = Math.min(remaining, charge.outstanding);
+        charge.paidAmount = this.round(charge.paidAmount + applied);
+        charge.outstanding = this.round(charge.outstanding - applied);
+        remaining = this.round(remaining - applied);
+      }
+
+      credit.unappliedAmount = remaining;
+      unappliedCredit = this.round(unappliedCredit + remaining);
+    }
+
+    return { charges, credits, unappliedCredit };
+  }
+
+  private summarize(
+    assignment: TenantAssignment,
+    ledger: TenantLedger,
+    asOf: Date,
+  ): TenantArrearsSummaryDto {
+    const aging: ArrearsAgingDto = {
+      days0To30: 0,
+      days31To60: 0,
+      days61To90: 0,
+      over90: 0,
+    };
+
+    let totalCharged = 0;
+    let totalPaid = 0;
+    let outstandingBalance = 0;
+    let oldestUnpaidDueDate: Date | undefined;
+
+    for (const charge of ledger.charges) {
+      totalCharged += charge.amount;
+      totalPaid += charge.paidAmount;
+
+      if (charge.outstanding <= 0) {
+        continue;
+      }
+
+      outstandingBalance += charge.outstanding;
+      oldestUnpaidDueDate ??= charge.dueDate;
+
+      if (charge.daysOverdue <= 30) {
+        aging.days0To30 += charge.outstanding;
+      } else if (charge.daysOverdue <= 60) {
+        aging.days31To60 += charge.outstanding;
+      } else if (charge.daysOverdue <= 90) {
+        aging.days61To90 += charge.outstanding;
+      } else {
+        aging.over90 += charge.outstanding;
+      }
+    }
+
+    const { user } = assignment;
+
+    return {
+      tenantId: user.id,
+      tenantName:
+        [user.firstName, user.lastName].filter(Boolean).join(' ') || user.phone,
+      phone: user.phone,
+      cooperativeId: assignment.cooperativeId,
+      totalCharged: this.round(totalCharged),
+      totalPaid: this.round(totalPaid),
+      outstandingBalance: this.round(outstandingBalance),
+      unappliedCredit: ledger.unappliedCredit,
+      oldestUnpaidDueDate,
+      aging: {
+        days0To30: this.round(aging.days0To30),
+        days31To60: this.round(aging.days31To60),
+        days61To90: this.round(aging.days61To90),
+        over90: this.round(aging.over90),
+      },
+      asOf,
+    };
+  }
+
+  /**
+   * Completed payments and group payment shares, net of refunds, for the
+   * recurring payment types. Parts moved into the tenant wallet are left out
+   * and count again once the wallet applies them to a charge
+   */
+  private async getCredits(
+    tenantIds: string[],
+    cooperativeId: string,
+    paymentTypes: PaymentType[],
+    asOf: Date,
+  ): Promise<TenantCredit[]> {
+    const paymentTypeIds = paymentTypes.map((paymentType) => paymentType.id);
+
+    if (tenantIds.length === 0 || paymentTypeIds.length === 0) {
+      return [];
+    }
+
+    const [payments, allocations, walletTransactions] = await Promise.all([
+      this.prismaService.payment.findMany({
+        where: {
+          senderId: { in: tenantIds },
+          cooperativeId,
+          paymentTypeId: { in: paymentTypeIds },
+          isGroupPayment: false,
+          status: PaymentStatus.COMPLETED,
+          paidAt: { lte: asOf },
+        },
+        select: {
+          id: true,
+          senderId: true,
+          paymentTypeId: true,
+          amount: true,
+          baseAmount: true,
+          fee: true,
+          refundedAmount: true,
+          paidAt: true,
+        },
+      }),
+      this.prismaService.paymentAllocation.findMany({
+        where: {
+          tenantId: { in: tenantIds },
+          cooperativeId,
+          paymentTypeId: { in: paymentTypeIds },
+          status: PaymentStatus.COMPLETED,
+          paidAt: { lte: asOf },
+        },
+      }),
+      this.prismaService.walletTransaction.findMany({
+        where: {
+          wallet: { tenantId: { in: tenantIds }, cooperativeId },
+          createdAt: { lte: asOf },
+        },
+        include: { wallet: { select: { tenantId: true } } },
+      }),
+    ]);
+
+    // Prepayments (net of refunds) per tenant and funding payment
+    const walletFunding = new Map<string, number>();
+    for (const transaction of walletTransactions) {
+      if (
+        !transaction.paymentId ||
+        transaction.type === WalletTransactionType.APPLIED
+      ) {
+        continue;
+      }
+
+      const key = `${transaction.wallet.tenantId}:${transaction.paymentId}`;
+      walletFunding.set(
+        key,
+        (walletFunding.get(key) ?? 0) + transaction.amount,
+      );
+    }
+    const getWalletFunding = (tenantId: string, paymentId: string) =>
+      walletFunding.get(`${tenantId}:${paymentId}`) ?? 0;
+
+    return [
+      ...payments.map((payment) => ({
+        tenantId: payment.senderId,
+        source: 'PAYMENT' as const,
+        paymentId: payment.id,
+        paymentTypeId: payment.paymentTypeId,
+        amount: this.round(
+          this.balanceService.getLegacyBaseAmount(payment) -
+            payment.refundedAmount -
+            getWalletFunding(payment.senderId, payment.id),
+        ),
+        paidAt: payment.paidAt!,
+        unappliedAmount: 0,
+        walletFunding: getWalletFunding(payment.senderId, payment.id),
+      })),
+      ...allocations.map((allocation) => ({
+        tenantId: allocation.tenantId,
+        source: 'PAYMENT' as const,
+        paymentId: allocation.paymentId,
+        paymentTypeId: allocation.paymentTypeId,
+        amount: this.round(
+          allocation.amount -
+            (allocation.refundedAmount ?? 0) -
+            getWalletFunding(allocation.tenantId, allocation.paymentId),
+        ),
+        paidAt: allocation.paidAt!,
+        unappliedAmount: 0,
+        walletFunding: getWalletFunding(
+          allocation.tenantId,
+          allocation.paymentId,
+        ),
+      })),
+      ...walletTransactions
+        .filter(
+          (transaction) =>
+            transaction.type === WalletTransactionType.APPLIED &&
+            transaction.paymentTypeId,
+        )
+        .map((transaction) => ({
+          tenantId: transaction.wallet.tenantId,
+          source: 'WALLET' as const,
+          paymentId: transaction.id,
+          paymentTypeId: transaction.paymentTypeId!,
+          amount: -transaction.amount,
+          paidAt: transaction.createdAt,
+          unappliedAmount: 0,
+          walletFunding: 0,
+        })),
+    ]
+      .filter((credit) => credit.amount > 0)
+      .sort((a, b) => a.paidAt.getTime() - b.paidAt.getTime());
+  }
+
+  private async getCooperativeSettings(
+    cooperativeId: string,
+  ): Promise<CooperativeSettings> {
+    const cooperative = await this.prismaService.cooperative.findUnique({
+      where: { id: cooperativeId },
+      select: {
+        paymentFrequency: true,
+        billingDayOfMonth: true,
+        billingDayOfYear: true,
+      },
+    });
+
+    if (!cooperative) {
+      throw new NotFoundException('Cooperative not found');
+    }
+
+    return {
+      paymentFrequency: cooperative.paymentFrequency as PaymentFrequency,
+      billingDayOfMonth: cooperative.billingDayOfMonth ?? undefined,
+      billingDayOfYear: cooperative.billingDayOfYear ?? undefined,
+    };
+  }
+
+  private getRecurringPaymentTypes(
+    cooperativeId: string,
+  ): Promise<PaymentType[]> {
+    return this.prismaService.paymentType.findMany({
+      where: { cooperativeId, isRecurring: true, isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private getChargeAmount(
+    paymentType: PaymentType,
+    assignment: TenantAssignment,
+  ): number {
+    // Flexible payment types are priced per room
+    if (paymentType.amountType === PaymentAmountType.FLEXIBLE) {
+      return assignment.room.baseRent ?? paymentType.amount;
+    }
+
+    return paymentType.amount;
+  }
+
+  private getDueDate(
+    period: BillingPeriod,
+    paymentType: PaymentType,
+    settings: CooperativeSettings,
+  ): Date {
+    if (
+      !paymentType.dueDay ||
+      settings.paymentFrequency !== PaymentFrequency.MONTHLY
+    ) {
+      return period.startDate;
+    }
+
+    const dueDate = new Date(
+      period.startDate.getFullYear(),
+      period.startDate.getMonth(),
+      paymentType.dueDay,
+    );
+
+    if (dueDate < period.startDate) {
+      dueDate.setMonth(dueDate.getMonth() + 1);
+    }
+
+    return dueDate > period.endDate ? period.endDate : dueDate;
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
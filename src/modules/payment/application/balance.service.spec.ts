@@ -0,0 +1,282 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { Payment } from '@prisma/client';
+import {
+  InsufficientLedgerFundsException,
+  LedgerAccounts,
+  LedgerService,
+} from '../../ledger/application/ledger.service';
+import { BalanceService } from './balance.service';
+import { FeePolicyService } from './fee-policy.service';
+
+const COOPERATIVE_ID = '65f000000000000000000001';
+
+describe('BalanceService', () => {
+  let service: BalanceService;
+  let prisma: {
+    $transaction: jest.Mock;
+    cooperativeBalance: Record<'findUnique' | 'update', jest.Mock>;
+    copayBalance: Record<'findFirst' | 'update', jest.Mock>;
+    balanceTransaction: Record<'create' | 'findMany' | 'aggregate', jest.Mock>;
+  };
+  let ledgerService: Record<
+    'isPosted' | 'postJournalEntry' | 'getCooperativeBalance',
+    jest.Mock
+  >;
+
+  beforeEach(async () => {
+    prisma = {
+      $transaction: jest.fn(),
+      cooperativeBalance: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'balance-1' }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      copayBalance: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'copay-1' }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      balanceTransaction: {
+        create: jest.fn().mockResolvedValue({}),
+        findMany: jest.fn().mockResolvedValue([]),
+        aggregate: jest.fn().mockResolvedValue({ _sum: {}, _count: 0 }),
+      },
+    };
+    prisma.$transaction.mockImplementation(
+      (callback: (tx: typeof prisma) => Promise<unknown>) => callback(prisma),
+    );
+    ledgerService = {
+      isPosted: jest.fn().mockResolvedValue(false),
+      postJournalEntry: jest.fn().mockResolvedValue({}),
+      getCooperativeBalance: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BalanceService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LedgerService, useValue: ledgerService },
+        { provide: FeePolicyService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(BalanceService);
+  });
+
+  describe('creditCooperativeBalance', () => {
+    it('posts the ledger entry and moves the counter in one transaction', async () => {
+      await expect(
+        service.creditCooperativeBalance(COOPERATIVE_ID, 10000, 'payment-1'),
+      ).resolves.toBe(true);
+
+      expect(ledgerService.postJournalEntry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          idempotencyKey: 'payment:payment-1:cooperative-credit',
+        }),
+        prisma,
+      );
+      expect(prisma.cooperativeBalance.update).toHaveBeenCalledWith({
+        where: { cooperativeId: COOPERATIVE_ID },
+        data: expect.objectContaining({
+          currentBalance: { increment: 10000 },
+          totalReceived: { increment: 10000 },
+        }) as object,
+      });
+      expect(prisma.balanceTransaction.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves the counter alone when the ledger already holds the credit', async () => {
+      ledgerService.isPosted.mockResolvedValue(true);
+
+      await expect(
+        service.creditCooperativeBalance(COOPERATIVE_ID, 10000, 'payment-1'),
+      ).resolves.toBe(false);
+
+      expect(ledgerService.isPosted).toHaveBeenCalledWith(
+        'payment:payment-1:cooperative-credit',
+        prisma,
+      );
+      expect(ledgerService.postJournalEntry).not.toHaveBeenCalled();
+      expect(prisma.cooperativeBalance.update).not.toHaveBeenCalled();
+      expect(prisma.balanceTransaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('creditCopayBalance', () => {
+    it('credits the fee once per payment', async () => {
+      await expect(service.creditCopayBalance(500, 'payment-1')).resolves.toBe(
+        true,
+      );
+      expect(prisma.copayBalance.update).toHaveBeenCalledTimes(1);
+
+      ledgerService.isPosted.mockResolvedValue(true);
+      await expect(service.creditCopayBalance(500, 'payment-1')).resolves.toBe(
+        false,
+      );
+
+      expect(ledgerService.isPosted).toHaveBeenLastCalledWith(
+        'payment:payment-1:fee',
+        prisma,
+      );
+      expect(prisma.copayBalance.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('refund funds', () => {
+    const payment = {
+      id: 'payment-1',
+      cooperativeId: COOPERATIVE_ID,
+      cooperativeBalanceUpdated: true,
+      feeBalanceUpdated: true,
+      feeRefunded: false,
+      fee: 300,
+    } as Payment;
+
+    it('holds the cooperative share through the ledger before the counter', async () => {
+      await expect(
+        service.holdRefundFunds(payment, 4000, 'REFUND_1', prisma as never),
+      ).resolves.toBe(true);
+
+      const [entry] = ledgerService.postJournalEntry.mock.calls[0] as [
+        { idempotencyKey: string; postings: Record<string, unknown>[] },
+      ];
+      expect(entry.idempotencyKey).toBe('refund:REFUND_1:hold');
+      expect(entry.postings).toEqual([
+        {
+          accountCode: LedgerAccounts.cooperativeFunds(COOPERATIVE_ID),
+          direction: 'DEBIT',
+          amount: 4000,
+          requireFunds: true,
+        },
+        {
+          accountCode: LedgerAccounts.cooperativeHeld(COOPERATIVE_ID),
+          direction: 'CREDIT',
+          amount: 4000,
+        },
+      ]);
+      expect(prisma.cooperativeBalance.update).toHaveBeenCalledWith({
+        where: { id: 'balance-1' },
+        data: {
+          currentBalance: { decrement: 4000 },
+          heldBalance: { increment: 4000 },
+        },
+      });
+    });
+
+    it('refuses to hold funds the ledger balance cannot cover', async () => {
+      ledgerService.postJournalEntry.mockRejectedValue(
+        new InsufficientLedgerFundsException(
+          LedgerAccounts.cooperativeFunds(COOPERATIVE_ID),
+        ),
+      );
+
+      await expect(
+        service.holdRefundFunds(payment, 4000, 'REFUND_1', prisma as never),
+      ).rejects.toThrow(
+        'Insufficient cooperative balance to refund this payment',
+      );
+      expect(prisma.cooperativeBalance.update).not.toHaveBeenCalled();
+    });
+
+    it('holds nothing for a payment that never credited the cooperative', async () => {
+      await expect(
+        service.holdRefundFunds(
+          { ...payment, cooperativeBalanceUpdated: false },
+          4000,
+          'REFUND_1',
+          prisma as never,
+        ),
+      ).resolves.toBe(false);
+      expect(ledgerService.postJournalEntry).not.toHaveBeenCalled();
+    });
+
+    it('gives released funds back to the cooperative', async () => {
+      await service.releaseRefundFunds(
+        payment,
+        4000,
+        'REFUND_1',
+        prisma as never,
+      );
+
+      const [entry] = ledgerService.postJournalEntry.mock.calls[0] as [
+        { idempotencyKey: string; postings: Record<string, unknown>[] },
+      ];
+      expect(entry.idempotencyKey).toBe('refund:REFUND_1:release');
+      expect(entry.postings[0]).toMatchObject({
+        accountCode: LedgerAccounts.cooperativeHeld(COOPERATIVE_ID),
+        direction: 'DEBIT',
+      });
+      expect(prisma.cooperativeBalance.update).toHaveBeenCalledWith({
+        where: { id: 'balance-1' },
+        data: {
+          currentBalance: { increment: 4000 },
+          heldBalance: { decrement: 4000 },
+        },
+      });
+    });
+
+    it('pays a recorded refund out of the held funds', async () => {
+      await service.reversePaymentSettlement(
+        payment,
+        4000,
+        { includeFee: true, fundsHeld: true, refundReference: 'REFUND_1' },
+        prisma as never,
+      );
+
+      const [entry] = ledgerService.postJournalEntry.mock.calls[0] as [
+        { postings: Record<string, unknown>[] },
+      ];
+      expect(entry.postings[0]).toEqual({
+        accountCode: LedgerAccounts.cooperativeHeld(COOPERATIVE_ID),
+        direction: 'DEBIT',
+        amount: 4000,
+        requireFunds: true,
+      });
+      expect(prisma.cooperativeBalance.update).toHaveBeenCalledWith({
+        where: { id: 'balance-1' },
+        data: {
+          heldBalance: { decrement: 4000 },
+          totalReceived: { decrement: 4000 },
+        },
+      });
+      expect(prisma.copayBalance.update).toHaveBeenCalledWith({
+        where: { id: 'copay-1' },
+        data: {
+          currentBalance: { decrement: 300 },
+          totalFees: { decrement: 300 },
+        },
+      });
+    });
+
+    it('leaves the cooperative alone when nothing was held', async () => {
+      await service.reversePaymentSettlement(
+        payment,
+        4000,
+        { includeFee: false, fundsHeld: false, refundReference: 'REFUND_1' },
+        prisma as never,
+      );
+
+      expect(ledgerService.postJournalEntry).not.toHaveBeenCalled();
+      expect(prisma.cooperativeBalance.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCooperativeBalanceStats', () => {
+    it('reports the ledger balances instead of the cached counters', async () => {
+      prisma.cooperativeBalance.findUnique.mockResolvedValue({
+        id: 'balance-1',
+        currentBalance: 999999,
+        heldBalance: 999999,
+      });
+      ledgerService.getCooperativeBalance.mockResolvedValue({
+        availableBalance: 8000,
+        heldBalance: 2000,
+      });
+
+      const { balance } =
+        await service.getCooperativeBalanceStats(COOPERATIVE_ID);
+
+      expect(balance.currentBalance).toBe(8000);
+      expect(balance.heldBalance).toBe(2000);
+    });
+  });
+});
@@ -8,26 +8,47 @@ import { PrismaService } from '../../../prisma/prisma.service';
 import {
   BalanceTransactionType,
   BalanceTransactionStatus,
+  FeeBearer,
+  LedgerEntryDirection,
+  Payment,
   PaymentStatus,
+  Prisma,
 } from '@prisma/client';
+import {
+  InsufficientLedgerFundsException,
+  LedgerService,
+  LedgerAccounts,
+} from '../../ledger/application/ledger.service';
+import {
+  FeePolicyService,
+  FeeContext,
+  FeeQuote,
+  DEFAULT_PAYMENT_FEE,
+} from './fee-policy.service';
 
 @Injectable()
 export class BalanceService {
   private readonly logger = new Logger(BalanceService.name);
 
-  constructor(private prismaService: PrismaService) {}
+  constructor(
+    private prismaService: PrismaService,
+    private ledgerService: LedgerService,
+    private feePolicyService: FeePolicyService,
+  ) {}
 
   /**
    * Calculate fee for a payment amount
-   * Fixed fee of 500 RWF for all transactions
+   * Uses the fee policy in effect, falling back to the fixed 500 RWF fee
    */
-  calculatePaymentFee(baseAmount: number): number {
-    // Fixed fee of 500 RWF for all payments
-    return 500;
+  async calculatePaymentFee(
+    baseAmount: number,
+    context: FeeContext = {},
+  ): Promise<FeeQuote> {
+    return this.feePolicyService.quoteFee(baseAmount, context);
   }
 
   // Helper method to calculate baseAmount for legacy payments
-  private getLegacyBaseAmount(payment: any): number {
+  getLegacyBaseAmount(payment: any): number {
     // If baseAmount exists and is valid, use it
     if (payment.baseAmount != null && payment.baseAmount > 0) {
       return payment.baseAmount;
@@ -35,33 +56,71 @@ export class BalanceService {
 
     // For legacy payments, calculate baseAmount from amount and fee
     const amount = payment.amount || 0;
-    const fee = payment.fee || 500;
+    const fee = payment.fee ?? DEFAULT_PAYMENT_FEE;
     return Math.max(0, amount - fee);
   }
 
+  /**
+   * Amount credited to the cooperative for a payment
+   * Fees borne by the cooperative are deducted from its share
+   */
+  getCooperativeShare(
+    payment: Pick<Payment, 'amount' | 'baseAmount' | 'fee' | 'feeBearer'>,
+  ): number {
+    const baseAmount = this.getLegacyBaseAmount(payment);
+
+    if (payment.feeBearer === FeeBearer.COOPERATIVE) {
+      return Math.max(0, baseAmount - (payment.fee || 0));
+    }
+
+    return baseAmount;
+  }
+
   /**
    * Calculate total payment amount including fee
    */
-  calculateTotalAmount(baseAmount: number): {
+  async calculateTotalAmount(
+    baseAmount: number,
+    context: FeeContext = {},
+  ): Promise<{
     baseAmount: number;
     fee: number;
     totalPaid: number;
-  } {
-    const fee = this.calculatePaymentFee(baseAmount);
-    const totalPaid = baseAmount + fee;
+    feeBearer: FeeBearer;
+    feePolicyId?: string;
+  }> {
+    const quote = await this.calculatePaymentFee(baseAmount, context);
+
+    if (quote.feeBearer === FeeBearer.COOPERATIVE) {
+      // The tenant pays the base amount only, so the fee cannot exceed it
+      return {
+        baseAmount,
+        fee: Math.min(quote.fee, baseAmount),
+        totalPaid: baseAmount,
+        feeBearer: quote.feeBearer,
+        feePolicyId: quote.feePolicyId,
+      };
+    }
 
     return {
       baseAmount,
-      fee,
-      totalPaid,
+      fee: quote.fee,
+      totalPaid: baseAmount + quote.fee,
+      feeBearer: quote.feeBearer,
+      feePolicyId: quote.feePolicyId,
     };
   }
 
   /**
    * Get or create cooperative balance
    */
-  async getOrCreateCooperativeBalance(cooperativeId: string) {
-    let balance = await this.prismaService.cooperativeBalance.findUnique({
+  async getOrCreateCooperativeBalance(
+    cooperativeId: string,
+    tx?: Prisma.TransactionClient,
+  ) {
+    const client = tx ?? this.prismaService;
+
+    let balance = await client.cooperativeBalance.findUnique({
       where: { cooperativeId },
       include: {
         cooperative: {
@@ -75,7 +134,7 @@ export class BalanceService {
     });
 
     if (!balance) {
-      balance = await this.prismaService.cooperativeBalance.create({
+      balance = await client.cooperativeBalance.create({
         data: {
           cooperativeId,
           currentBalance: 0,
@@ -101,11 +160,13 @@ export class BalanceService {
   /**
    * Get or create CoPay balance (global fee tracking)
    */
-  async getOrCreateCopayBalance() {
-    let balance = await this.prismaService.copayBalance.findFirst();
+  async getOrCreateCopayBalance(tx?: Prisma.TransactionClient) {
+    const client = tx ?? this.prismaService;
+
+    let balance = await client.copayBalance.findFirst();
 
     if (!balance) {
-      balance = await this.prismaService.copayBalance.create({
+      balance = await client.copayBalance.create({
         data: {
           currentBalance: 0,
           totalFees: 0,
@@ -155,13 +216,15 @@ export class BalanceService {
       // Process cooperative balance credit
       if (!payment.cooperativeBalanceUpdated) {
         try {
-          const baseAmount = this.getLegacyBaseAmount(payment);
-          await this.creditCooperativeBalance(
-            payment.cooperativeId,
-            baseAmount,
-            paymentId,
-            `Payment from ${payment.sender.firstName} ${payment.sender.lastName}`,
-          );
+          const baseAmount = this.getCooperativeShare(payment);
+          if (baseAmount > 0) {
+            await this.creditCooperativeBalance(
+              payment.cooperativeId,
+              baseAmount,
+              paymentId,
+              `Payment from ${payment.sender.firstName} ${payment.sender.lastName}`,
+            );
+          }
 
           // Mark cooperative balance as updated
           await this.prismaService.payment.update({
@@ -183,11 +246,14 @@ export class BalanceService {
       // Process CoPay fee credit
       if (!payment.feeBalanceUpdated) {
         try {
-          await this.creditCopayBalance(
-            payment.fee,
-            paymentId,
-            `Transaction fee from payment ${payment.id}`,
-          );
+          // Waived fees have nothing to collect
+          if (payment.fee > 0) {
+            await this.creditCopayBalance(
+              payment.fee,
+              paymentId,
+              `Transaction fee from payment ${payment.id}`,
+            );
+          }
 
           // Mark fee balance as updated
           await this.prismaService.payment.update({
@@ -221,107 +287,379 @@ export class BalanceService {
 
   /**
    * Credit cooperative balance
+   * Returns false when the ledger already holds this credit
    */
   async creditCooperativeBalance(
     cooperativeId: string,
     amount: number,
     referenceId?: string,
     description?: string,
-  ) {
-    // Get or create balance
-    let balance = await this.prismaService.cooperativeBalance.findUnique({
-      where: { cooperativeId },
-    });
+  ): Promise<boolean> {
+    const idempotencyKey = referenceId
+      ? `payment:${referenceId}:cooperative-credit`
+      : `cooperative-credit:${cooperativeId}:${Date.now()}`;
+
+    // Ledger entry, counter and balance transaction are written together, and
+    // the ledger decides whether the payment was already credited, so a retry
+    // or a forced redistribution cannot count it twice
+    return this.prismaService.$transaction(async (tx) => {
+      if (await this.ledgerService.isPosted(idempotencyKey, tx)) {
+        this.logger.warn(
+          `Ledger already holds credit ${idempotencyKey}, cooperative ${cooperativeId} left unchanged`,
+        );
+        return false;
+      }
 
-    if (!balance) {
-      balance = await this.prismaService.cooperativeBalance.create({
+      const balance = await this.getOrCreateCooperativeBalance(
+        cooperativeId,
+        tx,
+      );
+
+      await this.ledgerService.postJournalEntry(
+        {
+          description: description || `Credit from payment`,
+          referenceType: 'PAYMENT',
+          referenceId,
+          idempotencyKey,
+          postings: [
+            {
+              accountCode: LedgerAccounts.GATEWAY_CLEARING,
+              direction: LedgerEntryDirection.DEBIT,
+              amount,
+            },
+            {
+              accountCode: LedgerAccounts.cooperativeFunds(cooperativeId),
+              direction: LedgerEntryDirection.CREDIT,
+              amount,
+            },
+          ],
+        },
+        tx,
+      );
+
+      // Update balance
+      await tx.cooperativeBalance.update({
+        where: { cooperativeId },
         data: {
-          cooperativeId,
-          currentBalance: 0,
-          totalReceived: 0,
-          totalWithdrawn: 0,
-          pendingBalance: 0,
+          currentBalance: { increment: amount },
+          totalReceived: { increment: amount },
+          lastPaymentAt: new Date(),
         },
       });
-    }
 
-    // Update balance
-    await this.prismaService.cooperativeBalance.update({
-      where: { cooperativeId },
-      data: {
-        currentBalance: { increment: amount },
-        totalReceived: { increment: amount },
-        lastPaymentAt: new Date(),
-      },
-    });
+      // Create balance transaction record
+      await tx.balanceTransaction.create({
+        data: {
+          type: BalanceTransactionType.CREDIT_FROM_PAYMENT,
+          amount,
+          description: description || `Credit from payment`,
+          referenceId,
+          cooperativeBalanceId: balance.id,
+          status: BalanceTransactionStatus.COMPLETED,
+          processedAt: new Date(),
+        },
+      });
 
-    // Create balance transaction record
-    await this.prismaService.balanceTransaction.create({
-      data: {
-        type: BalanceTransactionType.CREDIT_FROM_PAYMENT,
-        amount,
-        description: description || `Credit from payment`,
-        referenceId,
-        cooperativeBalanceId: balance.id,
-        status: BalanceTransactionStatus.COMPLETED,
-        processedAt: new Date(),
-      },
+      return true;
     });
   }
 
   /**
    * Credit CoPay balance (fees)
+   * Returns false when the ledger already holds this fee
    */
   async creditCopayBalance(
     amount: number,
     referenceId?: string,
     description?: string,
-  ) {
-    // Get or create CoPay balance
-    let balance = await this.prismaService.copayBalance.findFirst();
+  ): Promise<boolean> {
+    const idempotencyKey = referenceId
+      ? `payment:${referenceId}:fee`
+      : `fee:${Date.now()}`;
 
-    if (!balance) {
-      balance = await this.prismaService.copayBalance.create({
+    return this.prismaService.$transaction(async (tx) => {
+      if (await this.ledgerService.isPosted(idempotencyKey, tx)) {
+        this.logger.warn(
+          `Ledger already holds fee ${idempotencyKey}, CoPay balance left unchanged`,
+        );
+        return false;
+      }
+
+      const balance = await this.getOrCreateCopayBalance(tx);
+
+      await this.ledgerService.postJournalEntry(
+        {
+          description: description || `Fee collection`,
+          referenceType: 'PAYMENT',
+          referenceId,
+          idempotencyKey,
+          postings: [
+            {
+              accountCode: LedgerAccounts.GATEWAY_CLEARING,
+              direction: LedgerEntryDirection.DEBIT,
+              amount,
+            },
+            {
+              accountCode: LedgerAccounts.COPAY_FEE_REVENUE,
+              direction: LedgerEntryDirection.CREDIT,
+              amount,
+            },
+          ],
+        },
+        tx,
+      );
+
+      // Update balance
+      await tx.copayBalance.update({
+        where: { id: balance.id },
         data: {
-          currentBalance: 0,
-          totalFees: 0,
-          totalWithdrawn: 0,
-          totalTransactions: 0,
-          averageFeePerMonth: 0,
+          currentBalance: { increment: amount },
+          totalFees: { increment: amount },
+          totalTransactions: { increment: 1 },
+          lastFeeAt: new Date(),
+        },
+      });
+
+      // Create balance transaction record
+      await tx.balanceTransaction.create({
+        data: {
+          type: BalanceTransactionType.FEE_COLLECTION,
+          amount,
+          description: description || `Fee collection`,
+          referenceId,
+          copayBalanceId: balance.id,
+          status: BalanceTransactionStatus.COMPLETED,
+          processedAt: new Date(),
         },
       });
+
+      return true;
+    });
+  }
+
+  /**
+   * Move the cooperative's share of a refund to its held funds before the
+   * gateway is asked to send it. Returns false when the payment never credited
+   * the cooperative, so there is nothing to hold
+   */
+  async holdRefundFunds(
+    payment: Payment,
+    amount: number,
+    refundReference: string,
+    tx: Prisma.TransactionClient,
+  ): Promise<boolean> {
+    if (!payment.cooperativeBalanceUpdated || amount <= 0) {
+      return false;
     }
 
-    // Update balance
-    await this.prismaService.copayBalance.update({
+    const balance = await this.getOrCreateCooperativeBalance(
+      payment.cooperativeId,
+      tx,
+    );
+
+    // The ledger only moves the funds while the cooperative still has them,
+    // so concurrent refunds cannot overdraw the balance
+    try {
+      await this.postRefundMovement(
+        payment,
+        amount,
+        refundReference,
+        'hold',
+        tx,
+      );
+    } catch (error) {
+      if (error instanceof InsufficientLedgerFundsException) {
+        throw new BadRequestException(
+          'Insufficient cooperative balance to refund this payment',
+        );
+      }
+      throw error;
+    }
+
+    await tx.cooperativeBalance.update({
       where: { id: balance.id },
       data: {
-        currentBalance: { increment: amount },
-        totalFees: { increment: amount },
-        totalTransactions: { increment: 1 },
-        lastFeeAt: new Date(),
+        currentBalance: { decrement: amount },
+        heldBalance: { increment: amount },
       },
     });
 
-    // Create balance transaction record
-    await this.prismaService.balanceTransaction.create({
+    return true;
+  }
+
+  /**
+   * Give the held share of a refund the gateway refused back to the cooperative
+   */
+  async releaseRefundFunds(
+    payment: Payment,
+    amount: number,
+    refundReference: string,
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    const balance = await this.getOrCreateCooperativeBalance(
+      payment.cooperativeId,
+      tx,
+    );
+
+    await this.postRefundMovement(
+      payment,
+      amount,
+      refundReference,
+      'release',
+      tx,
+    );
+
+    await tx.cooperativeBalance.update({
+      where: { id: balance.id },
       data: {
-        type: BalanceTransactionType.FEE_COLLECTION,
-        amount,
-        description: description || `Fee collection`,
-        referenceId,
-        copayBalanceId: balance.id,
-        status: BalanceTransactionStatus.COMPLETED,
-        processedAt: new Date(),
+        currentBalance: { increment: amount },
+        heldBalance: { decrement: amount },
       },
     });
   }
 
+  /**
+   * Reverse the balance credits of a payment being refunded
+   * Pays the cooperative share out of the funds held for the refund and, when
+   * requested, debits the CoPay fee. Runs in the caller's transaction so
+   * counters, ledger and records move together
+   */
+  async reversePaymentSettlement(
+    payment: Payment,
+    amount: number,
+    options: {
+      includeFee: boolean;
+      fundsHeld: boolean;
+      refundReference: string;
+      description?: string;
+    },
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    const description =
+      options.description || `Refund of payment ${payment.id}`;
+
+    if (options.fundsHeld && amount > 0) {
+      const balance = await this.getOrCreateCooperativeBalance(
+        payment.cooperativeId,
+        tx,
+      );
+
+      await this.ledgerService.postJournalEntry(
+        {
+          description,
+          referenceType: 'REFUND',
+          referenceId: payment.id,
+          idempotencyKey: `refund:${options.refundReference}:cooperative`,
+          postings: [
+            {
+              accountCode: LedgerAccounts.cooperativeHeld(
+                payment.cooperativeId,
+              ),
+              direction: LedgerEntryDirection.DEBIT,
+              amount,
+              requireFunds: true,
+            },
+            {
+              accountCode: LedgerAccounts.GATEWAY_CLEARING,
+              direction: LedgerEntryDirection.CREDIT,
+              amount,
+            },
+          ],
+        },
+        tx,
+      );
+
+      await tx.cooperativeBalance.update({
+        where: { id: balance.id },
+        data: {
+          heldBalance: { decrement: amount },
+          totalReceived: { decrement: amount },
+        },
+      });
+
+      await tx.balanceTransaction.create({
+        data: {
+          type: BalanceTransactionType.REFUND,
+          amount,
+          description,
+          referenceId: payment.id,
+          externalReference: options.refundReference,
+          cooperativeBalanceId: balance.id,
+          status: BalanceTransactionStatus.COMPLETED,
+          processedAt: new Date(),
+        },
+      });
+
+      this.logger.log(
+        `Reversed ${amount} RWF from cooperative ${payment.cooperativeId} for payment ${payment.id}`,
+      );
+    }
+
+    if (options.includeFee && payment.feeBalanceUpdated && payment.fee > 0) {
+      const copayBalance = await this.getOrCreateCopayBalance(tx);
+
+      await this.ledgerService.postJournalEntry(
+        {
+          description: `Fee refund for payment ${payment.id}`,
+          referenceType: 'REFUND',
+          referenceId: payment.id,
+          idempotencyKey: `refund:${options.refundReference}:fee`,
+          postings: [
+            {
+              accountCode: LedgerAccounts.COPAY_FEE_REVENUE,
+              direction: LedgerEntryDirection.DEBIT,
+              amount: payment.fee,
+            },
+            {
+              accountCode: LedgerAccounts.GATEWAY_CLEARING,
+              direction: LedgerEntryDirection.CREDIT,
+              amount: payment.fee,
+            },
+          ],
+        },
+        tx,
+      );
+
+      await tx.copayBalance.update({
+        where: { id: copayBalance.id },
+        data: {
+          currentBalance: { decrement: payment.fee },
+          totalFees: { decrement: payment.fee },
+        },
+      });
+
+      await tx.balanceTransaction.create({
+        data: {
+          type: BalanceTransactionType.REFUND,
+          amount: payment.fee,
+          description: `Fee refund for payment ${payment.id}`,
+          referenceId: payment.id,
+          externalReference: options.refundReference,
+          copayBalanceId: copayBalance.id,
+          status: BalanceTransactionStatus.COMPLETED,
+          processedAt: new Date(),
+        },
+      });
+
+      this.logger.log(
+        `Reversed ${payment.fee} RWF fee for payment ${payment.id}`,
+      );
+    }
+  }
+
   /**
    * Get cooperative balance with statistics
+   * Available and held funds come from the ledger, not the cached counters
    */
   async getCooperativeBalanceStats(cooperativeId: string) {
-    const balance = await this.getOrCreateCooperativeBalance(cooperativeId);
+    const counters = await this.getOrCreateCooperativeBalance(cooperativeId);
+    const ledger =
+      await this.ledgerService.getCooperativeBalance(cooperativeId);
+    const balance = {
+      ...counters,
+      currentBalance: ledger.availableBalance,
+      heldBalance: ledger.heldBalance,
+    };
 
     // Get recent transactions
     const recentTransactions =
@@ -376,7 +714,13 @@ export class BalanceService {
    * Get CoPay balance with global statistics
    */
   async getCopayBalanceStats() {
-    const balance = await this.getOrCreateCopayBalance();
+    const counters = await this.getOrCreateCopayBalance();
+    const balance = {
+      ...counters,
+      currentBalance: await this.ledgerService.getAccountBalance(
+        LedgerAccounts.COPAY_FEE_REVENUE,
+      ),
+    };
 
     // Get recent fee collections
     const recentTransactions =
@@ -420,15 +764,27 @@ export class BalanceService {
     const cooperativeBalances =
       await this.prismaService.cooperativeBalance.aggregate({
         _sum: {
-          currentBalance: true,
           totalReceived: true,
           pendingBalance: true,
         },
         _count: true,
       });
 
+    // Available and held funds come from the ledger
+    let totalCooperativeBalance = 0;
+    let totalHeldBalance = 0;
+    for (const ledger of (
+      await this.ledgerService.getCooperativeBalances()
+    ).values()) {
+      totalCooperativeBalance += ledger.availableBalance;
+      totalHeldBalance += ledger.heldBalance;
+    }
+
     // Get CoPay balance
     const copayBalance = await this.getOrCreateCopayBalance();
+    const copayProfit = await this.ledgerService.getAccountBalance(
+      LedgerAccounts.COPAY_FEE_REVENUE,
+    );
 
     // Get today's transactions
     const today = new Date();
@@ -446,11 +802,12 @@ export class BalanceService {
 
     return {
       totalCooperatives: cooperativeBalances._count,
-      totalCooperativeBalance: cooperativeBalances._sum.currentBalance || 0,
+      totalCooperativeBalance,
       totalPendingBalance: cooperativeBalances._sum.pendingBalance || 0,
+      totalHeldBalance,
       totalReceivedAllTime: cooperativeBalances._sum.totalReceived || 0,
       copayProfit: {
-        currentBalance: copayBalance.currentBalance,
+        currentBalance: copayProfit,
         totalFeesCollected: copayBalance.totalFees,
         totalTransactions: copayBalance.totalTransactions,
       },
@@ -514,14 +871,18 @@ export class BalanceService {
 
     try {
       // Process cooperative balance credit if needed
+      // Forcing only repairs credits missing from the ledger, it never moves
+      // a counter the ledger does not move
       if (!cooperativeUpdated || force) {
-        const baseAmount = this.getLegacyBaseAmount(payment);
-        await this.creditCooperativeBalance(
-          payment.cooperativeId,
-          baseAmount,
-          paymentId,
-          `Manual redistribution: Payment from ${payment.sender.firstName} ${payment.sender.lastName}`,
-        );
+        const baseAmount = this.getCooperativeShare(payment);
+        const credited =
+          baseAmount > 0 &&
+          (await this.creditCooperativeBalance(
+            payment.cooperativeId,
+            baseAmount,
+            paymentId,
+            `Manual redistribution: Payment from ${payment.sender.firstName} ${payment.sender.lastName}`,
+          ));
 
         await this.prismaService.payment.update({
           where: { id: paymentId },
@@ -529,19 +890,23 @@ export class BalanceService {
         });
 
         cooperativeUpdated = true;
-        this.logger.log(
-          `Manually credited ${baseAmount} RWF to cooperative ${payment.cooperative.name}`,
-        );
+        if (credited) {
+          this.logger.log(
+            `Manually credited ${baseAmount} RWF to cooperative ${payment.cooperative.name}`,
+          );
+        }
       }
 
       // Process CoPay fee credit if needed
       if (!feeUpdated || force) {
-        const fee = payment.fee || 500;
-        await this.creditCopayBalance(
-          fee,
-          paymentId,
-          `Manual redistribution: Transaction fee from payment ${paymentId}`,
-        );
+        const fee = payment.fee ?? DEFAULT_PAYMENT_FEE;
+        const credited =
+          fee > 0 &&
+          (await this.creditCopayBalance(
+            fee,
+            paymentId,
+            `Manual redistribution: Transaction fee from payment ${paymentId}`,
+          ));
 
         await this.prismaService.payment.update({
           where: { id: paymentId },
@@ -549,7 +914,9 @@ export class BalanceService {
         });
 
         feeUpdated = true;
-        this.logger.log(`Manually credited ${fee} RWF fee to CoPay balance`);
+        if (credited) {
+          this.logger.log(`Manually credited ${fee} RWF fee to CoPay balance`);
+        }
       }
 
       return {
@@ -691,7 +1058,7 @@ export class BalanceService {
 
     const formattedPayments = pendingPayments.map((payment) => {
       const baseAmount = this.getLegacyBaseAmount(payment);
-      const fee = payment.fee || 500;
+      const fee = payment.fee ?? DEFAULT_PAYMENT_FEE;
 
       if (!payment.cooperativeBalanceUpdated) {
         totalPendingAmount += baseAmount;
@@ -789,7 +1156,7 @@ export class BalanceService {
 
     payments.forEach((payment) => {
       const baseAmount = this.getLegacyBaseAmount(payment);
-      const fee = payment.fee || 500;
+      const fee = payment.fee ?? DEFAULT_PAYMENT_FEE;
       const totalPaid = payment.amount;
 
       totalRevenue += baseAmount;
@@ -828,7 +1195,7 @@ export class BalanceService {
         }
 
         const baseAmount = this.getLegacyBaseAmount(payment);
-        const fee = payment.fee || 500;
+        const fee = payment.fee ?? DEFAULT_PAYMENT_FEE;
 
         monthlyData[month].revenue += baseAmount;
         monthlyData[month].fees += fee;
@@ -929,7 +1296,7 @@ export class BalanceService {
     payments.forEach((payment) => {
       const cooperativeId = payment.cooperative.id;
       const baseAmount = this.getLegacyBaseAmount(payment);
-      const fee = payment.fee || 500;
+      const fee = payment.fee ?? DEFAULT_PAYMENT_FEE;
 
       totalPlatformFees += fee;
       totalCooperativeRevenue += baseAmount;
@@ -1009,7 +1376,6 @@ export class BalanceService {
         status: true,
         balance: {
           select: {
-            currentBalance: true,
             totalReceived: true,
             totalWithdrawn: true,
             pendingBalance: true,
@@ -1020,6 +1386,8 @@ export class BalanceService {
       orderBy: { name: 'asc' },
     });
 
+    const ledgerBalances = await this.ledgerService.getCooperativeBalances();
+
     const cooperativeBalances: any[] = [];
     let totalBalance = 0;
     let totalRevenue = 0;
@@ -1054,7 +1422,7 @@ export class BalanceService {
 
       payments.forEach((payment) => {
         const baseAmount = this.getLegacyBaseAmount(payment);
-        const fee = payment.fee || 500;
+        const fee = payment.fee ?? DEFAULT_PAYMENT_FEE;
 
         cooperativeRevenue += baseAmount;
         cooperativeFees += fee;
@@ -1063,7 +1431,8 @@ export class BalanceService {
       totalRevenue += cooperativeRevenue;
       totalFees += cooperativeFees;
 
-      const currentBalance = cooperative.balance?.currentBalance || 0;
+      const currentBalance =
+        ledgerBalances.get(cooperative.id)?.availableBalance ?? 0;
       totalBalance += currentBalance;
 
       cooperativeBalances.push({
@@ -1073,12 +1442,14 @@ export class BalanceService {
           code: cooperative.code,
           status: cooperative.status,
         },
-        balance: cooperative.balance || {
-          currentBalance: 0,
-          totalReceived: 0,
-          totalWithdrawn: 0,
-          pendingBalance: 0,
-          lastPaymentAt: null,
+        balance: {
+          ...(cooperative.balance || {
+            totalReceived: 0,
+            totalWithdrawn: 0,
+            pendingBalance: 0,
+            lastPaymentAt: null,
+          }),
+          currentBalance,
         },
         stats: {
           totalPayments: payments.length,
@@ -1109,4 +1480,38 @@ export class BalanceService {
       },
     };
   }
+
+  private async postRefundMovement(
+    payment: Payment,
+    amount: number,
+    refundReference: string,
+    step: 'hold' | 'release',
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    const funds = LedgerAccounts.cooperativeFunds(payment.cooperativeId);
+    const held = LedgerAccounts.cooperativeHeld(payment.cooperativeId);
+
+    await this.ledgerService.postJournalEntry(
+      {
+        description: `Refund ${refundReference} ${step}`,
+        referenceType: 'REFUND',
+        referenceId: payment.id,
+        idempotencyKey: `refund:${refundReference}:${step}`,
+        postings: [
+          {
+            accountCode: step === 'hold' ? funds : held,
+            direction: LedgerEntryDirection.DEBIT,
+            amount,
+            requireFunds: true,
+          },
+          {
+            accountCode: step === 'hold' ? held : funds,
+            direction: LedgerEntryDirection.CREDIT,
+            amount,
+          },
+        ],
+      },
+      tx,
+    );
+  }
 }
@@ -0,0 +1,249 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  FeeBearer,
+  FeeCalculationType,
+  FeePolicy,
+  PaymentMethodType,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { CreateFeePolicyDto } from '../presentation/dto/fee-policy.dto';
+import { DEFAULT_PAYMENT_FEE, FeePolicyService } from './fee-policy.service';
+
+const COOPERATIVE_ID = '65f000000000000000000001';
+
+const policy = (overrides: Partial<FeePolicy>): FeePolicy => ({
+  id: 'policy',
+  name: 'Policy',
+  description: null,
+  cooperativeId: null,
+  paymentMethod: null,
+  calculationType: FeeCalculationType.FLAT,
+  flatAmount: 300,
+  percentage: null,
+  tiers: null,
+  minimumFee: null,
+  maximumFee: null,
+  feeBearer: FeeBearer.TENANT,
+  effectiveFrom: new Date('2026-01-01T00:00:00Z'),
+  effectiveTo: null,
+  createdBy: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('FeePolicyService', () => {
+  let service: FeePolicyService;
+  let prisma: {
+    $transaction: jest.Mock;
+    cooperative: { findUnique: jest.Mock };
+    feePolicy: Record<'findMany' | 'update' | 'create', jest.Mock>;
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      $transaction: jest.fn(),
+      cooperative: {
+        findUnique: jest.fn().mockResolvedValue({ id: COOPERATIVE_ID }),
+      },
+      feePolicy: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn().mockResolvedValue({}),
+        create: jest.fn(({ data }: { data: Partial<FeePolicy> }) =>
+          Promise.resolve(policy({ ...data, id: 'created' })),
+        ),
+      },
+    };
+    prisma.$transaction.mockImplementation(
+      (callback: (tx: typeof prisma) => Promise<unknown>) => callback(prisma),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FeePolicyService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get(FeePolicyService);
+  });
+
+  describe('resolvePolicy', () => {
+    it('prefers the most specific scope', async () => {
+      // As the query returns them, latest start first
+      prisma.feePolicy.findMany.mockResolvedValue([
+        policy({ id: 'platform-new', effectiveFrom: new Date('2026-03-01') }),
+        policy({
+          id: 'method',
+          paymentMethod: PaymentMethodType.MOBILE_MONEY_MTN,
+        }),
+        policy({
+          id: 'cooperative-method',
+          cooperativeId: COOPERATIVE_ID,
+          paymentMethod: PaymentMethodType.MOBILE_MONEY_MTN,
+        }),
+        policy({ id: 'cooperative', cooperativeId: COOPERATIVE_ID }),
+      ]);
+
+      const resolved = await service.resolvePolicy({
+        cooperativeId: COOPERATIVE_ID,
+        paymentMethod: PaymentMethodType.MOBILE_MONEY_MTN,
+      });
+
+      expect(resolved?.id).toBe('cooperative-method');
+    });
+
+    it('prefers a cooperative policy over a payment method one', async () => {
+      prisma.feePolicy.findMany.mockResolvedValue([
+        policy({
+          id: 'method',
+          paymentMethod: PaymentMethodType.MOBILE_MONEY_MTN,
+        }),
+        policy({ id: 'cooperative', cooperativeId: COOPERATIVE_ID }),
+      ]);
+
+      const resolved = await service.resolvePolicy({
+        cooperativeId: COOPERATIVE_ID,
+        paymentMethod: PaymentMethodType.MOBILE_MONEY_MTN,
+      });
+
+      expect(resolved?.id).toBe('cooperative');
+    });
+
+    it('lets the policy that started last win within a scope', async () => {
+      prisma.feePolicy.findMany.mockResolvedValue([
+        policy({
+          id: 'promotion',
+          cooperativeId: COOPERATIVE_ID,
+          effectiveFrom: new Date('2026-03-01'),
+          effectiveTo: new Date('2026-04-01'),
+        }),
+        policy({ id: 'running', cooperativeId: COOPERATIVE_ID }),
+      ]);
+
+      const resolved = await service.resolvePolicy({
+        cooperativeId: COOPERATIVE_ID,
+        at: new Date('2026-03-15'),
+      });
+
+      expect(resolved?.id).toBe('promotion');
+    });
+
+    it('only looks at platform-wide scopes without a context', async () => {
+      const at = new Date('2026-03-15');
+
+      await service.resolvePolicy({ at });
+
+      expect(prisma.feePolicy.findMany).toHaveBeenCalledWith({
+        where: {
+          effectiveFrom: { lte: at },
+          AND: [
+            { OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }] },
+            { OR: [{ cooperativeId: null }] },
+            { OR: [{ paymentMethod: null }] },
+          ],
+        },
+        orderBy: { effectiveFrom: 'desc' },
+      });
+    });
+  });
+
+  describe('quoteFee', () => {
+    it('charges the default fee without a policy', async () => {
+      await expect(service.quoteFee(10000)).resolves.toEqual({
+        fee: DEFAULT_PAYMENT_FEE,
+        feeBearer: FeeBearer.TENANT,
+      });
+    });
+
+    it('applies the minimum and maximum to percentage fees', async () => {
+      prisma.feePolicy.findMany.mockResolvedValue([
+        policy({
+          calculationType: FeeCalculationType.PERCENTAGE,
+          percentage: 1,
+          minimumFee: 100,
+          maximumFee: 2000,
+        }),
+      ]);
+
+      expect((await service.quoteFee(5000)).fee).toBe(100);
+      expect((await service.quoteFee(50000)).fee).toBe(500);
+      expect((await service.quoteFee(500000)).fee).toBe(2000);
+    });
+
+    it('picks the first tier the amount fits in', async () => {
+      prisma.feePolicy.findMany.mockResolvedValue([
+        policy({
+          calculationType: FeeCalculationType.TIERED,
+          tiers: [
+            { upTo: 100000, flatAmount: 300 },
+            { upTo: null, percentage: 0.5 },
+          ],
+        }),
+      ]);
+
+      expect((await service.quoteFee(100000)).fee).toBe(300);
+      expect((await service.quoteFee(300000)).fee).toBe(1500);
+    });
+  });
+
+  describe('create', () => {
+    const dto = (overrides: Partial<CreateFeePolicyDto>): CreateFeePolicyDto =>
+      ({
+        name: 'New policy',
+        cooperativeId: COOPERATIVE_ID,
+        calculationType: FeeCalculationType.FLAT,
+        flatAmount: 200,
+        effectiveFrom: '2026-03-01T00:00:00Z',
+        ...overrides,
+      }) as CreateFeePolicyDto;
+
+    const running = policy({ id: 'running', cooperativeId: COOPERATIVE_ID });
+
+    it('ends the running policy of the scope for an open-ended one', async () => {
+      prisma.feePolicy.findMany.mockResolvedValue([running]);
+
+      await service.create(dto({}), 'admin');
+
+      expect(prisma.feePolicy.update).toHaveBeenCalledWith({
+        where: { id: 'running' },
+        data: { effectiveTo: new Date('2026-03-01T00:00:00Z') },
+      });
+      expect(prisma.feePolicy.create).toHaveBeenCalled();
+    });
+
+    it('keeps the running policy for a time-boxed one', async () => {
+      prisma.feePolicy.findMany.mockResolvedValue([running]);
+
+      const created = await service.create(
+        dto({ effectiveTo: '2026-04-01T00:00:00Z' }),
+        'admin',
+      );
+
+      expect(prisma.feePolicy.update).not.toHaveBeenCalled();
+      expect(created.effectiveTo).toEqual(new Date('2026-04-01T00:00:00Z'));
+    });
+
+    it('rejects policies overlapping a scheduled one', async () => {
+      prisma.feePolicy.findMany.mockResolvedValue([
+        policy({
+          name: 'Scheduled',
+          cooperativeId: COOPERATIVE_ID,
+          effectiveFrom: new Date('2026-03-15T00:00:00Z'),
+        }),
+      ]);
+
+      await expect(service.create(dto({}), 'admin')).rejects.toThrow(
+        'Fee policy "Scheduled" is already scheduled for this scope from 2026-03-15T00:00:00.000Z',
+      );
+      expect(prisma.feePolicy.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects windows that end before they start', async () => {
+      await expect(
+        service.create(dto({ effectiveTo: '2026-02-01T00:00:00Z' }), 'admin'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
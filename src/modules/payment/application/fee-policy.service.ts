@@ -0,0 +1,441 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  FeeBearer,
+  FeeCalculationType,
+  FeePolicy,
+  PaymentMethodType,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  CreateFeePolicyDto,
+  EndFeePolicyDto,
+  FeePolicyFilterDto,
+  FeePolicyResponseDto,
+  FeeTierDto,
+} from '../presentation/dto/fee-policy.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+
+// Fee charged when no policy applies (the historical fixed fee)
+export const DEFAULT_PAYMENT_FEE = 500;
+
+export interface FeeContext {
+  cooperativeId?: string;
+  paymentMethod?: PaymentMethodType;
+  at?: Date;
+}
+
+export interface FeeQuote {
+  fee: number;
+  feeBearer: FeeBearer;
+  feePolicyId?: string;
+}
+
+@Injectable()
+export class FeePolicyService {
+  private readonly logger = new Logger(FeePolicyService.name);
+
+  constructor(private prismaService: PrismaService) {}
+
+  /**
+   * Create a fee policy
+   * An open-ended policy replaces the policies of the same scope that are
+   * running when it takes effect. A time-boxed one leaves them alone and
+   * wins over them during its window, see resolvePolicy(). Scheduled
+   * policies must not overlap
+   */
+  async create(
+    createFeePolicyDto: CreateFeePolicyDto,
+    createdBy: string,
+  ): Promise<FeePolicyResponseDto> {
+    this.validatePolicyDefinition(createFeePolicyDto);
+
+    const effectiveFrom = createFeePolicyDto.effectiveFrom
+      ? new Date(createFeePolicyDto.effectiveFrom)
+      : new Date();
+    const effectiveTo = createFeePolicyDto.effectiveTo
+      ? new Date(createFeePolicyDto.effectiveTo)
+      : null;
+
+    if (effectiveTo && effectiveTo <= effectiveFrom) {
+      throw new BadRequestException('effectiveTo must be after effectiveFrom');
+    }
+
+    if (createFeePolicyDto.cooperativeId) {
+      const cooperative = await this.prismaService.cooperative.findUnique({
+        where: { id: createFeePolicyDto.cooperativeId },
+        select: { id: true },
+      });
+
+      if (!cooperative) {
+        throw new NotFoundException('Cooperative not found');
+      }
+    }
+
+    const cooperativeId = createFeePolicyDto.cooperativeId ?? null;
+    const paymentMethod = createFeePolicyDto.paymentMethod ?? null;
+
+    const policy = await this.prismaService.$transaction(async (tx) => {
+      const overlapping = await tx.feePolicy.findMany({
+        where: {
+          cooperativeId,
+          paymentMethod,
+          OR: [{ effectiveTo: null }, { effectiveTo: { gt: effectiveFrom } }],
+          ...(effectiveTo && { effectiveFrom: { lt: effectiveTo } }),
+        },
+      });
+
+      for (const existing of overlapping) {
+        if (existing.effectiveFrom >= effectiveFrom) {
+          throw new BadRequestException(
+            `Fee policy "${existing.name}" is already scheduled for this scope from ${existing.effectiveFrom.toISOString()}`,
+          );
+        }
+      }
+
+      // Supersede the policies currently running for this scope. Ending
+      // them for a temporary policy would leave the scope on the default fee
+      // once it expires
+      if (!effectiveTo) {
+        for (const existing of overlapping) {
+          await tx.feePolicy.update({
+            where: { id: existing.id },
+            data: { effectiveTo: effectiveFrom },
+          });
+        }
+      }
+
+      return tx.feePolicy.create({
+        data: {
+          name: createFeePolicyDto.name,
+          description: createFeePolicyDto.description,
+          cooperativeId,
+          paymentMethod,
+          calculationType: createFeePolicyDto.calculationType,
+          flatAmount: createFeePolicyDto.flatAmount,
+          percentage: createFeePolicyDto.percentage,
+          tiers: createFeePolicyDto.tiers
+            ? (this.sortTiers(
+                createFeePolicyDto.tiers,
+              ) as unknown as Prisma.InputJsonValue)
+            : undefined,
+          minimumFee: createFeePolicyDto.minimumFee,
+          maximumFee: createFeePolicyDto.maximumFee,
+          feeBearer: createFeePolicyDto.feeBearer ?? FeeBearer.TENANT,
+          effectiveFrom,
+          effectiveTo,
+          createdBy,
+        },
+      });
+    });
+
+    this.logger.log(
+      `Fee policy ${policy.id} created for ${cooperativeId ?? 'all cooperatives'} / ${paymentMethod ?? 'all payment methods'}`,
+    );
+
+    return this.mapToResponseDto(policy);
+  }
+
+  async findAll(
+    filterDto: FeePolicyFilterDto,
+  ): Promise<PaginatedResponseDto<FeePolicyResponseDto>> {
+    const { page, limit, cooperativeId, paymentMethod, activeAt } = filterDto;
+    const skip = filterDto.skip;
+
+    const where: Prisma.FeePolicyWhereInput = {};
+
+    if (cooperativeId) {
+      where.cooperativeId = cooperativeId;
+    }
+
+    if (paymentMethod) {
+      where.paymentMethod = paymentMethod;
+    }
+
+    if (activeAt) {
+      const at = new Date(activeAt);
+      where.effectiveFrom = { lte: at };
+      where.OR = [{ effectiveTo: null }, { effectiveTo: { gt: at } }];
+    }
+
+    const [policies, total] = await Promise.all([
+      this.prismaService.feePolicy.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { effectiveFrom: 'desc' },
+      }),
+      this.prismaService.feePolicy.count({ where }),
+    ]);
+
+    return new PaginatedResponseDto(
+      policies.map((policy) => this.mapToResponseDto(policy)),
+      total,
+      page || 1,
+      limit || 10,
+    );
+  }
+
+  async findById(id: string): Promise<FeePolicyResponseDto> {
+    const policy = await this.prismaService.feePolicy.findUnique({
+      where: { id },
+    });
+
+    if (!policy) {
+      throw new NotFoundException('Fee policy not found');
+    }
+
+    return this.mapToResponseDto(policy);
+  }
+
+  /**
+   * End a fee policy
+   * Policies are never edited so that past payments keep the fee they were charged
+   */
+  async end(
+    id: string,
+    endFeePolicyDto: EndFeePolicyDto,
+  ): Promise<FeePolicyResponseDto> {
+    const policy = await this.prismaService.feePolicy.findUnique({
+      where: { id },
+    });
+
+    if (!policy) {
+      throw new NotFoundException('Fee policy not found');
+    }
+
+    const now = new Date();
+    const effectiveTo = endFeePolicyDto.effectiveTo
+      ? new Date(endFeePolicyDto.effectiveTo)
+      : now;
+
+    if (policy.effectiveTo && policy.effectiveTo <= now) {
+      throw new BadRequestException('Fee policy has already ended');
+    }
+
+    if (effectiveTo < now) {
+      throw new BadRequestException('A fee policy cannot be ended in the past');
+    }
+
+    const updated = await this.prismaService.feePolicy.update({
+      where: { id },
+      data: {
+        // A policy that has not started yet is cancelled outright
+        effectiveTo:
+          effectiveTo < policy.effectiveFrom
+            ? policy.effectiveFrom
+            : effectiveTo,
+      },
+    });
+
+    this.logger.log(
+      `Fee policy ${id} ended at ${updated.effectiveTo?.toISOString()}`,
+    );
+
+    return this.mapToResponseDto(updated);
+  }
+
+  /**
+   * Find the policy in effect for a payment
+   * The most specific scope wins: cooperative + method, cooperative, method, platform default.
+   * Within a scope the policy that started last wins, so a time-boxed policy
+   * overrides the running one for its window only
+   */
+  async resolvePolicy(context: FeeContext = {}): Promise<FeePolicy | null> {
+    const at = context.at ?? new Date();
+
+    const candidates = await this.prismaService.feePolicy.findMany({
+      where: {
+        effectiveFrom: { lte: at },
+        AND: [
+          { OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }] },
+          {
+            OR: [
+              { cooperativeId: null },
+              ...(context.cooperativeId
+                ? [{ cooperativeId: context.cooperativeId }]
+                : []),
+            ],
+          },
+          {
+            OR: [
+              { paymentMethod: null },
+              ...(context.paymentMethod
+                ? [{ paymentMethod: context.paymentMethod }]
+                : []),
+            ],
+          },
+        ],
+      },
+      orderBy: { effectiveFrom: 'desc' },
+    });
+
+    const specificity = (policy: FeePolicy) =>
+      (policy.cooperativeId ? 2 : 0) + (policy.paymentMethod ? 1 : 0);
+
+    return candidates.reduce<FeePolicy | null>(
+      (best, policy) =>
+        !best || specificity(policy) > specificity(best) ? policy : best,
+      null,
+    );
+  }
+
+  /**
+   * Quote the fee for a base amount using the policy in effect
+   */
+  async quoteFee(
+    baseAmount: number,
+    context: FeeContext = {},
+  ): Promise<FeeQuote> {
+    const policy = await this.resolvePolicy(context);
+
+    if (!policy) {
+      return { fee: DEFAULT_PAYMENT_FEE, feeBearer: FeeBearer.TENANT };
+    }
+
+    return {
+      fee: this.calculateFee(policy, baseAmount),
+      feeBearer: policy.feeBearer,
+      feePolicyId: policy.id,
+    };
+  }
+
+  private calculateFee(policy: FeePolicy, baseAmount: number): number {
+    let fee: number;
+
+    switch (policy.calculationType) {
+      case FeeCalculationType.WAIVED:
+        return 0;
+      case FeeCalculationType.FLAT:
+        fee = policy.flatAmount ?? 0;
+        break;
+      case FeeCalculationType.PERCENTAGE:
+        fee = (baseAmount * (policy.percentage ?? 0)) / 100;
+        break;
+      case FeeCalculationType.TIERED: {
+        const tiers = (policy.tiers ?? []) as unknown as FeeTierDto[];
+        const tier =
+          tiers.find((t) => t.upTo == null || baseAmount <= t.upTo) ??
+          tiers[tiers.length - 1];
+        fee = tier
+          ? (tier.flatAmount ?? 0) + (baseAmount * (tier.percentage ?? 0)) / 100
+          : 0;
+        break;
+      }
+      default:
+        fee = DEFAULT_PAYMENT_FEE;
+    }
+
+    if (policy.minimumFee != null) {
+      fee = Math.max(fee, policy.minimumFee);
+    }
+
+    if (policy.maximumFee != null) {
+      fee = Math.min(fee, policy.maximumFee);
+    }
+
+    // RWF has no minor unit
+    return Math.round(fee);
+  }
+
+  private validatePolicyDefinition(dto: CreateFeePolicyDto): void {
+    switch (dto.calculationType) {
+      case FeeCalculationType.FLAT:
+        if (dto.flatAmount == null) {
+          throw new BadRequestException('flatAmount is required for FLAT fees');
+        }
+        break;
+      case FeeCalculationType.PERCENTAGE:
+        if (dto.percentage == null) {
+          throw new BadRequestException(
+            'percentage is required for PERCENTAGE fees',
+          );
+        }
+        break;
+      case FeeCalculationType.TIERED: {
+        if (!dto.tiers?.length) {
+          throw new BadRequestException('tiers are required for TIERED fees');
+        }
+
+        const tiers = this.sortTiers(dto.tiers);
+        const openEnded = tiers.filter((tier) => tier.upTo == null);
+        const bounds = tiers
+          .filter((tier) => tier.upTo != null)
+          .map((tier) => tier.upTo);
+
+        if (openEnded.length > 1) {
+          throw new BadRequestException(
+            'Only one tier can be open-ended (without upTo)',
+          );
+        }
+
+        if (new Set(bounds).size !== bounds.length) {
+          throw new BadRequestException('Tier upper bounds must be unique');
+        }
+
+        if (
+          tiers.some(
+            (tier) => tier.flatAmount == null && tier.percentage == null,
+          )
+        ) {
+          throw new BadRequestException(
+            'Each tier needs a flatAmount or a percentage',
+          );
+        }
+        break;
+      }
+    }
+
+    if (
+      dto.minimumFee != null &&
+      dto.maximumFee != null &&
+      dto.minimumFee > dto.maximumFee
+    ) {
+      throw new BadRequestException(
+        'minimumFee cannot be greater than maximumFee',
+      );
+    }
+  }
+
+  // Bounded tiers in ascending order, open-ended tier last
+  private sortTiers(tiers: FeeTierDto[]): FeeTierDto[] {
+    return [...tiers]
+      .map((tier) => ({
+        upTo: tier.upTo ?? null,
+        flatAmount: tier.flatAmount,
+        percentage: tier.percentage,
+      }))
+      .sort(
+        (a, b) =>
+          (a.upTo ?? Number.POSITIVE_INFINITY) -
+          (b.upTo ?? Number.POSITIVE_INFINITY),
+      ) as FeeTierDto[];
+  }
+
+  private mapToResponseDto(policy: FeePolicy): FeePolicyResponseDto {
+    return {
+      id: policy.id,
+      name: policy.name,
+      description: policy.description ?? undefined,
+      cooperativeId: policy.cooperativeId ?? undefined,
+      paymentMethod: policy.paymentMethod ?? undefined,
+      calculationType: policy.calculationType,
+      flatAmount: policy.flatAmount ?? undefined,
+      percentage: policy.percentage ?? undefined,
+      tiers: (policy.tiers as unknown as FeeTierDto[]) ?? undefined,
+      minimumFee: policy.minimumFee ?? undefined,
+      maximumFee: policy.maximumFee ?? undefined,
+      feeBearer: policy.feeBearer,
+      effectiveFrom: policy.effectiveFrom,
+      effectiveTo: policy.effectiveTo ?? undefined,
+      createdBy: policy.createdBy ?? undefined,
+      createdAt: policy.createdAt,
+      updatedAt: policy.updatedAt,
+    };
+  }
+}
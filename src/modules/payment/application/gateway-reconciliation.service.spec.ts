@@ -0,0 +1,407 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  PaymentStatus,
+  Prisma,
+  ReconciliationMismatchType,
+  ReconciliationResolution,
+  ReconciliationRunStatus,
+  ReconciliationSource,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { PaymentGatewayFactory } from '../infrastructure/payment-gateway.factory';
+import { PaymentGatewayStatus } from '../infrastructure/payment-gateway.interface';
+import { BalanceService } from './balance.service';
+import { GatewayReconciliationService } from './gateway-reconciliation.service';
+import { PaymentService } from './payment.service';
+
+// 02:30 on 2 March in Kigali, 1 March is yesterday there
+const NOW = new Date('2026-03-02T00:30:00Z');
+const KIGALI_MARCH_1 = new Date('2026-02-28T22:00:00Z');
+const KIGALI_MARCH_2 = new Date('2026-03-01T22:00:00Z');
+
+type ItemData = {
+  paymentId?: string;
+  invoiceNumber?: string;
+  type: ReconciliationMismatchType;
+  resolution: ReconciliationResolution;
+  details?: string;
+};
+
+describe('GatewayReconciliationService', () => {
+  let service: GatewayReconciliationService;
+  let prisma: {
+    $transaction: jest.Mock;
+    payment: { findMany: jest.Mock };
+    reconciliationRun: Record<'create' | 'update' | 'updateMany', jest.Mock>;
+    reconciliationLock: Record<
+      'findFirst' | 'create' | 'updateMany' | 'deleteMany',
+      jest.Mock
+    >;
+    reconciliationItem: Record<
+      'create' | 'findUnique' | 'findUniqueOrThrow' | 'updateMany',
+      jest.Mock
+    >;
+  };
+  let gateway: { getPaymentStatus: jest.Mock };
+  let paymentService: { handleIremboPayWebhook: jest.Mock };
+  let balanceService: { processPaymentSettlement: jest.Mock };
+
+  const run = {
+    id: 'run-1',
+    businessDate: KIGALI_MARCH_1,
+    source: ReconciliationSource.GATEWAY_API,
+    status: ReconciliationRunStatus.RUNNING,
+    fileName: null,
+    checkedCount: 0,
+    matchedCount: 0,
+    mismatchCount: 0,
+    healedCount: 0,
+    triggeredBy: null,
+    errorMessage: null,
+    startedAt: NOW,
+    completedAt: null,
+  };
+
+  const payment = (invoiceNumber: string, overrides = {}) => ({
+    id: `payment-${invoiceNumber}`,
+    invoiceNumber,
+    status: PaymentStatus.COMPLETED,
+    amount: 10000,
+    totalPaid: 10300,
+    paymentMethod: 'MOBILE_MONEY_MTN',
+    gatewayProvider: 'IREMBOPAY',
+    gatewayTransactionId: `transaction-${invoiceNumber}`,
+    cooperativeBalanceUpdated: true,
+    feeBalanceUpdated: true,
+    paidAt: NOW,
+    ...overrides,
+  });
+
+  const gatewayStatus = (
+    overrides: Partial<PaymentGatewayStatus> = {},
+  ): PaymentGatewayStatus => ({
+    gatewayTransactionId: 'transaction-1',
+    status: 'completed',
+    amount: 10300,
+    data: { paymentStatus: 'PAID' },
+    ...overrides,
+  });
+
+  const items = () =>
+    prisma.reconciliationItem.create.mock.calls.map(
+      ([{ data }]: [{ data: ItemData }]) => data,
+    );
+
+  const uniqueConstraintFailed = () =>
+    new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+      code: 'P2002',
+      clientVersion: Prisma.prismaVersion.client,
+    });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+
+    prisma = {
+      $transaction: jest.fn(),
+      payment: { findMany: jest.fn().mockResolvedValue([]) },
+      reconciliationRun: {
+        create: jest.fn().mockResolvedValue(run),
+        update: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve({ ...run, ...data }),
+        ),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      reconciliationLock: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockResolvedValue({}),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      reconciliationItem: {
+        create: jest.fn().mockResolvedValue({}),
+        findUnique: jest.fn(),
+        findUniqueOrThrow: jest.fn(),
+        updateMany: jest.fn(),
+      },
+    };
+    prisma.$transaction.mockImplementation(
+      (callback: (tx: typeof prisma) => Promise<unknown>) => callback(prisma),
+    );
+    gateway = {
+      getPaymentStatus: jest.fn().mockResolvedValue(gatewayStatus()),
+    };
+    paymentService = { handleIremboPayWebhook: jest.fn() };
+    balanceService = { processPaymentSettlement: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GatewayReconciliationService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: PaymentGatewayFactory,
+          useValue: { getGatewayForPayment: () => gateway },
+        },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: BalanceService, useValue: balanceService },
+      ],
+    }).compile();
+
+    service = module.get(GatewayReconciliationService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('reconcileDay', () => {
+    it('checks the payments of yesterday in Kigali time', async () => {
+      await service.reconcileDay();
+
+      expect(prisma.payment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            invoiceNumber: { not: null },
+            createdAt: { gte: KIGALI_MARCH_1, lt: KIGALI_MARCH_2 },
+          },
+        }),
+      );
+      expect(prisma.reconciliationLock.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          businessDate: KIGALI_MARCH_1,
+          source: ReconciliationSource.GATEWAY_API,
+          runId: 'run-1',
+        }) as object,
+      });
+    });
+
+    it('counts payments the gateway agrees with as matched', async () => {
+      prisma.payment.findMany.mockResolvedValue([payment('INV-1')]);
+
+      await expect(service.reconcileDay()).resolves.toMatchObject({
+        status: ReconciliationRunStatus.COMPLETED,
+        checkedCount: 1,
+        matchedCount: 1,
+        mismatchCount: 0,
+      });
+      expect(prisma.reconciliationLock.deleteMany).toHaveBeenCalledWith({
+        where: { runId: 'run-1' },
+      });
+    });
+
+    it('completes payments the gateway was paid for through the webhook path', async () => {
+      prisma.payment.findMany.mockResolvedValue([
+        payment('INV-1', { status: PaymentStatus.PENDING }),
+      ]);
+
+      await expect(service.reconcileDay()).resolves.toMatchObject({
+        mismatchCount: 1,
+        healedCount: 1,
+      });
+
+      expect(paymentService.handleIremboPayWebhook).toHaveBeenCalledWith(
+        'INV-1',
+        expect.objectContaining({ status: PaymentStatus.COMPLETED }),
+        10300,
+        undefined,
+      );
+      expect(items()).toEqual([
+        expect.objectContaining({
+          type: ReconciliationMismatchType.PAID_NOT_RECORDED,
+          resolution: ReconciliationResolution.AUTO_HEALED,
+        }),
+      ]);
+    });
+
+    it('leaves amount mismatches for review', async () => {
+      prisma.payment.findMany.mockResolvedValue([
+        payment('INV-1', { status: PaymentStatus.PENDING }),
+      ]);
+      gateway.getPaymentStatus.mockResolvedValue(
+        gatewayStatus({ amount: 5000 }),
+      );
+
+      await service.reconcileDay();
+
+      expect(paymentService.handleIremboPayWebhook).not.toHaveBeenCalled();
+      expect(items()).toEqual([
+        expect.objectContaining({
+          type: ReconciliationMismatchType.AMOUNT_MISMATCH,
+          resolution: ReconciliationResolution.PENDING_REVIEW,
+        }),
+      ]);
+    });
+
+    it('settles completed payments whose balances were never credited', async () => {
+      prisma.payment.findMany.mockResolvedValue([
+        payment('INV-1', { feeBalanceUpdated: false }),
+      ]);
+
+      await service.reconcileDay();
+
+      expect(balanceService.processPaymentSettlement).toHaveBeenCalledWith(
+        'payment-INV-1',
+      );
+      expect(items()).toEqual([
+        expect.objectContaining({
+          type: ReconciliationMismatchType.NOT_SETTLED,
+          resolution: ReconciliationResolution.AUTO_HEALED,
+        }),
+      ]);
+    });
+
+    it('records a failed status check and goes on with the next payment', async () => {
+      prisma.payment.findMany.mockResolvedValue([
+        payment('INV-1'),
+        payment('INV-2'),
+      ]);
+      gateway.getPaymentStatus.mockRejectedValueOnce(
+        new Error('socket hang up'),
+      );
+
+      await expect(service.reconcileDay()).resolves.toMatchObject({
+        status: ReconciliationRunStatus.COMPLETED,
+        checkedCount: 2,
+        matchedCount: 1,
+        mismatchCount: 1,
+      });
+      expect(items()).toEqual([
+        expect.objectContaining({
+          invoiceNumber: 'INV-1',
+          type: ReconciliationMismatchType.CHECK_FAILED,
+          details: 'Invoice status check failed: socket hang up',
+        }),
+      ]);
+    });
+
+    it('refuses to start while another run holds the day', async () => {
+      prisma.reconciliationLock.create.mockRejectedValue(
+        uniqueConstraintFailed(),
+      );
+
+      await expect(service.reconcileDay()).rejects.toThrow(
+        'A GATEWAY_API reconciliation for 2026-03-01 is already running',
+      );
+      expect(prisma.payment.findMany).not.toHaveBeenCalled();
+    });
+
+    it('takes over a run whose claim expired', async () => {
+      prisma.reconciliationLock.findFirst.mockResolvedValue({
+        id: 'lock-1',
+        runId: 'run-0',
+        expiresAt: new Date(NOW.getTime() - 1000),
+      });
+
+      await expect(service.reconcileDay()).resolves.toMatchObject({
+        status: ReconciliationRunStatus.COMPLETED,
+      });
+
+      expect(prisma.reconciliationLock.create).not.toHaveBeenCalled();
+      expect(prisma.reconciliationLock.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            id: 'lock-1',
+            runId: 'run-0',
+          }) as object,
+          data: expect.objectContaining({ runId: 'run-1' }) as object,
+        }),
+      );
+      expect(prisma.reconciliationRun.updateMany).toHaveBeenCalledWith({
+        where: { id: 'run-0', status: ReconciliationRunStatus.RUNNING },
+        data: expect.objectContaining({
+          status: ReconciliationRunStatus.FAILED,
+        }) as object,
+      });
+    });
+
+    it('refuses to start when another run took over the expired claim first', async () => {
+      prisma.reconciliationLock.findFirst.mockResolvedValue({
+        id: 'lock-1',
+        runId: 'run-0',
+        expiresAt: new Date(NOW.getTime() - 1000),
+      });
+      prisma.reconciliationLock.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.reconcileDay()).rejects.toThrow(BadRequestException);
+      expect(prisma.reconciliationRun.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('stops when its claim was taken over', async () => {
+      prisma.payment.findMany.mockResolvedValue(
+        Array.from({ length: 60 }, (_, index) => payment(`INV-${index}`)),
+      );
+      prisma.reconciliationLock.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.reconcileDay()).resolves.toMatchObject({
+        status: ReconciliationRunStatus.FAILED,
+        checkedCount: 50,
+        errorMessage: 'Claim expired and was taken over by another run',
+      });
+    });
+  });
+
+  describe('importSettlementFile', () => {
+    it('flags orphan invoices and completed payments missing from the file', async () => {
+      prisma.payment.findMany
+        .mockResolvedValueOnce([payment('INV-1')])
+        .mockResolvedValueOnce([payment('INV-3')]);
+
+      await expect(
+        service.importSettlementFile(
+          {
+            settlementDate: '2026-03-01',
+            fileName: 'settlement-2026-03-01.csv',
+            content: [
+              'invoiceNumber,amount,status',
+              'INV-1,10300,PAID',
+              'INV-2,5000,PAID',
+            ].join('\n'),
+          },
+          'super-admin',
+        ),
+      ).resolves.toMatchObject({
+        checkedCount: 3,
+        matchedCount: 1,
+        mismatchCount: 2,
+      });
+
+      expect(prisma.payment.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            paidAt: { gte: KIGALI_MARCH_1, lt: KIGALI_MARCH_2 },
+          }) as object,
+        }),
+      );
+      expect(items()).toEqual([
+        expect.objectContaining({
+          invoiceNumber: 'INV-2',
+          type: ReconciliationMismatchType.ORPHAN_INVOICE,
+        }),
+        expect.objectContaining({
+          invoiceNumber: 'INV-3',
+          type: ReconciliationMismatchType.MISSING_FROM_SETTLEMENT,
+          details:
+            'Payment completed on 2026-03-01 is not in settlement-2026-03-01.csv',
+        }),
+      ]);
+    });
+  });
+
+  describe('resolveItem', () => {
+    it('refuses items that were already resolved', async () => {
+      prisma.reconciliationItem.findUnique.mockResolvedValue({
+        id: 'item-1',
+        resolution: ReconciliationResolution.RESOLVED,
+      });
+      prisma.reconciliationItem.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.resolveItem(
+          'item-1',
+          { resolution: ReconciliationResolution.IGNORED, note: 'Duplicate' },
+          'super-admin',
+        ),
+      ).rejects.toThrow('Reconciliation item is already RESOLVED');
+    });
+  });
+});
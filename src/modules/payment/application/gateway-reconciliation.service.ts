@@ -0,0 +1,845 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  PaymentStatus,
+  Prisma,
+  ReconciliationItem,
+  ReconciliationMismatchType,
+  ReconciliationResolution,
+  ReconciliationRun,
+  ReconciliationRunStatus,
+  ReconciliationSource,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { PaymentGatewayFactory } from '../infrastructure/payment-gateway.factory';
+import { PaymentService } from './payment.service';
+import { BalanceService } from './balance.service';
+import {
+  ImportSettlementFileDto,
+  ReconciliationItemFilterDto,
+  ReconciliationItemResponseDto,
+  ReconciliationRunFilterDto,
+  ReconciliationRunResponseDto,
+  ResolveReconciliationItemDto,
+} from '../presentation/dto/reconciliation.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+import { KIGALI_UTC_OFFSET_MINUTES } from '../../notification/application/quiet-hours';
+
+const PAID_GATEWAY_STATUSES = ['paid', 'successful', 'completed', 'settled'];
+
+const KIGALI_OFFSET_MS = KIGALI_UTC_OFFSET_MINUTES * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A run that holds its day longer than this without renewing is taken over
+const RUN_CLAIM_DURATION_MS = 30 * 60 * 1000;
+const RUN_CLAIM_RENEW_EVERY = 50;
+
+const RECONCILED_PAYMENT_SELECT = {
+  id: true,
+  invoiceNumber: true,
+  status: true,
+  amount: true,
+  totalPaid: true,
+  paymentMethod: true,
+  gatewayProvider: true,
+  gatewayTransactionId: true,
+  cooperativeBalanceUpdated: true,
+  feeBalanceUpdated: true,
+  paidAt: true,
+} satisfies Prisma.PaymentSelect;
+
+type ReconciledPayment = Prisma.PaymentGetPayload<{
+  select: typeof RECONCILED_PAYMENT_SELECT;
+}>;
+
+// What the gateway reported for one invoice, from the API or a settlement file
+interface GatewayInvoiceRecord {
+  invoiceNumber: string;
+  status: string;
+  paid: boolean;
+  amount?: number;
+  transactionId?: string;
+  paymentReference?: string;
+  paidAt?: string;
+  data?: Record<string, any>;
+}
+
+interface RunCounters {
+  checkedCount: number;
+  matchedCount: number;
+  mismatchCount: number;
+  healedCount: number;
+}
+
+@Injectable()
+export class GatewayReconciliationService {
+  private readonly logger = new Logger(GatewayReconciliationService.name);
+
+  constructor(
+    private prismaService: PrismaService,
+    private paymentGatewayFactory: PaymentGatewayFactory,
+    private paymentService: PaymentService,
+    private balanceService: BalanceService,
+  ) {}
+
+  /**
+   * Reconcile the payments created on a day against invoice statuses pulled
+   * from the gateway. Defaults to yesterday
+   */
+  async reconcileDay(
+    date?: Date,
+    triggeredBy?: string,
+  ): Promise<ReconciliationRunResponseDto> {
+    const { start, end } = this.getDayBounds(date ?? this.getYesterday());
+    const run = await this.startRun(
+      start,
+      ReconciliationSource.GATEWAY_API,
+      triggeredBy,
+    );
+    const counters = this.createCounters();
+
+    try {
+      const payments = await this.prismaService.payment.findMany({
+        where: {
+          invoiceNumber: { not: null },
+          createdAt: { gte: start, lt: end },
+        },
+        select: RECONCILED_PAYMENT_SELECT,
+      });
+
+      for (const payment of payments) {
+        counters.checkedCount++;
+        await this.renewClaim(run, counters);
+
+        let record: GatewayInvoiceRecord | null;
+        try {
+          record = await this.fetchGatewayRecord(payment);
+        } catch (error) {
+          await this.recordMismatch(run.id, counters, {
+            payment,
+            type: ReconciliationMismatchType.CHECK_FAILED,
+            details: `Invoice status check failed: ${(error as Error).message}`,
+          });
+          continue;
+        }
+
+        if (!record) {
+          await this.recordMismatch(run.id, counters, {
+            payment,
+            type: ReconciliationMismatchType.CHECK_FAILED,
+            details: 'Invoice status could not be retrieved from the gateway',
+          });
+          continue;
+        }
+
+        await this.compare(run.id, counters, payment, record);
+      }
+
+      return this.completeRun(run, counters);
+    } catch (error) {
+      return this.failRun(run, counters, error as Error);
+    }
+  }
+
+  /**
+   * Reconcile a gateway settlement file for a day
+   * Also flags completed payments that the file does not mention
+   */
+  async importSettlementFile(
+    importDto: ImportSettlementFileDto,
+    triggeredBy: string,
+  ): Promise<ReconciliationRunResponseDto> {
+    const records = this.parseSettlementFile(importDto.content);
+    const { start, end } = this.getDayBounds(
+      new Date(importDto.settlementDate),
+    );
+    const run = await this.startRun(
+      start,
+      ReconciliationSource.SETTLEMENT_FILE,
+      triggeredBy,
+      importDto.fileName,
+    );
+    const counters = this.createCounters();
+
+    try {
+      const invoiceNumbers = records.map((record) => record.invoiceNumber);
+      const payments = await this.prismaService.payment.findMany({
+        where: { invoiceNumber: { in: invoiceNumbers } },
+        select: RECONCILED_PAYMENT_SELECT,
+      });
+      const paymentsByInvoice = new Map(
+        payments.map((payment) => [payment.invoiceNumber, payment]),
+      );
+
+      for (const record of records) {
+        counters.checkedCount++;
+        await this.renewClaim(run, counters);
+
+        const payment = paymentsByInvoice.get(record.invoiceNumber);
+        if (!payment) {
+          await this.recordMismatch(run.id, counters, {
+            invoiceNumber: record.invoiceNumber,
+            type: ReconciliationMismatchType.ORPHAN_INVOICE,
+            record,
+            details: 'Invoice in settlement file has no matching payment',
+          });
+          continue;
+        }
+
+        await this.compare(run.id, counters, payment, record);
+      }
+
+      const unsettled = await this.prismaService.payment.findMany({
+        where: {
+          invoiceNumber: { not: null, notIn: invoiceNumbers },
+          status: PaymentStatus.COMPLETED,
+          paidAt: { gte: start, lt: end },
+        },
+        select: RECONCILED_PAYMENT_SELECT,
+      });
+
+      for (const payment of unsettled) {
+        counters.checkedCount++;
+        await this.recordMismatch(run.id, counters, {
+          payment,
+          type: ReconciliationMismatchType.MISSING_FROM_SETTLEMENT,
+          details: `Payment completed on ${this.formatBusinessDate(start)} is not in ${importDto.fileName}`,
+        });
+      }
+
+      return this.completeRun(run, counters);
+    } catch (error) {
+      return this.failRun(run, counters, error as Error);
+    }
+  }
+
+  async findRuns(
+    filterDto: ReconciliationRunFilterDto,
+  ): Promise<PaginatedResponseDto<ReconciliationRunResponseDto>> {
+    const { page, limit, source, status, fromDate, toDate } = filterDto;
+    const skip = filterDto.skip;
+
+    const where: Prisma.ReconciliationRunWhereInput = {};
+
+    if (source) {
+      where.source = source;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (fromDate || toDate) {
+      where.businessDate = {};
+      if (fromDate) {
+        where.businessDate.gte = new Date(fromDate);
+      }
+      if (toDate) {
+        where.businessDate.lte = new Date(toDate);
+      }
+    }
+
+    const [runs, total] = await Promise.all([
+      this.prismaService.reconciliationRun.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { startedAt: 'desc' },
+      }),
+      this.prismaService.reconciliationRun.count({ where }),
+    ]);
+
+    return new PaginatedResponseDto(
+      runs.map((run) => this.mapRunToResponseDto(run)),
+      total,
+      page || 1,
+      limit || 10,
+    );
+  }
+
+  async findRunById(id: string): Promise<ReconciliationRunResponseDto> {
+    const run = await this.prismaService.reconciliationRun.findUnique({
+      where: { id },
+      include: { items: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!run) {
+      throw new NotFoundException('Reconciliation run not found');
+    }
+
+    return {
+      ...this.mapRunToResponseDto(run),
+      items: run.items.map((item) => this.mapItemToResponseDto(item)),
+    };
+  }
+
+  async findItems(
+    filterDto: ReconciliationItemFilterDto,
+  ): Promise<PaginatedResponseDto<ReconciliationItemResponseDto>> {
+    const { page, limit, runId, type, resolution } = filterDto;
+    const skip = filterDto.skip;
+
+    const where: Prisma.ReconciliationItemWhereInput = {};
+
+    if (runId) {
+      where.runId = runId;
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    if (resolution) {
+      where.resolution = resolution;
+    }
+
+    const [items, total] = await Promise.all([
+      this.prismaService.reconciliationItem.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prismaService.reconciliationItem.count({ where }),
+    ]);
+
+    return new PaginatedResponseDto(
+      items.map((item) => this.mapItemToResponseDto(item)),
+      total,
+      page || 1,
+      limit || 10,
+    );
+  }
+
+  async resolveItem(
+    id: string,
+    resolveDto: ResolveReconciliationItemDto,
+    resolvedBy: string,
+  ): Promise<ReconciliationItemResponseDto> {
+    const item = await this.prismaService.reconciliationItem.findUnique({
+      where: { id },
+    });
+
+    if (!item) {
+      throw new NotFoundException('Reconciliation item not found');
+    }
+
+    const updated = await this.prismaService.reconciliationItem.updateMany({
+      where: { id, resolution: ReconciliationResolution.PENDING_REVIEW },
+      data: {
+        resolution: resolveDto.resolution,
+        resolutionNote: resolveDto.note,
+        resolvedBy,
+        resolvedAt: new Date(),
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new BadRequestException(
+        `Reconciliation item is already ${item.resolution}`,
+      );
+    }
+
+    const resolved =
+      await this.prismaService.reconciliationItem.findUniqueOrThrow({
+        where: { id },
+      });
+
+    return this.mapItemToResponseDto(resolved);
+  }
+
+  /**
+   * Compare one payment with what the gateway reported and heal safe cases:
+   * paid at the gateway with a matching amount goes through the webhook path,
+   * completed but never credited goes through balance settlement
+   */
+  private async compare(
+    runId: string,
+    counters: RunCounters,
+    payment: ReconciledPayment,
+    record: GatewayInvoiceRecord,
+  ): Promise<void> {
+    const localPaid =
+      payment.status === PaymentStatus.COMPLETED ||
+      payment.status === PaymentStatus.REFUNDED;
+    const localAmount = payment.totalPaid ?? payment.amount;
+    const amountMatches =
+      record.amount == null ||
+      Math.round(record.amount) === Math.round(localAmount);
+
+    if (record.paid && !amountMatches) {
+      await this.recordMismatch(runId, counters, {
+        payment,
+        type: ReconciliationMismatchType.AMOUNT_MISMATCH,
+        record,
+        details: `Gateway settled ${record.amount} RWF, payment total is ${localAmount} RWF`,
+      });
+      return;
+    }
+
+    if (record.paid && !localPaid) {
+      try {
+        await this.paymentService.handleIremboPayWebhook(
+          record.invoiceNumber,
+          {
+            gatewayTransactionId:
+              record.transactionId || payment.gatewayTransactionId || '',
+            status: PaymentStatus.COMPLETED,
+            gatewayReference: record.paymentReference,
+            gatewayData: { ...record.data, reconciliationRunId: runId },
+          },
+          record.amount ?? localAmount,
+          record.paidAt,
+        );
+
+        await this.recordMismatch(runId, counters, {
+          payment,
+          type: ReconciliationMismatchType.PAID_NOT_RECORDED,
+          record,
+          healed: true,
+          details: `Marked COMPLETED (was ${payment.status})`,
+        });
+      } catch (error) {
+        await this.recordMismatch(runId, counters, {
+          payment,
+          type: ReconciliationMismatchType.PAID_NOT_RECORDED,
+          record,
+          details: `Automatic completion failed: ${(error as Error).message}`,
+        });
+      }
+      return;
+    }
+
+    if (!record.paid && localPaid) {
+      await this.recordMismatch(runId, counters, {
+        payment,
+        type: ReconciliationMismatchType.RECORDED_NOT_PAID,
+        record,
+        details: `Gateway reports ${record.status}`,
+      });
+      return;
+    }
+
+    if (
+      payment.status === PaymentStatus.COMPLETED &&
+      (!payment.cooperativeBalanceUpdated || !payment.feeBalanceUpdated)
+    ) {
+      try {
+        await this.balanceService.processPaymentSettlement(payment.id);
+
+        await this.recordMismatch(runId, counters, {
+          payment,
+          type: ReconciliationMismatchType.NOT_SETTLED,
+          record,
+          healed: true,
+          details: 'Cooperative and fee balances credited',
+        });
+      } catch (error) {
+        await this.recordMismatch(runId, counters, {
+          payment,
+          type: ReconciliationMismatchType.NOT_SETTLED,
+          record,
+          details: `Balance settlement failed: ${(error as Error).message}`,
+        });
+      }
+      return;
+    }
+
+    counters.matchedCount++;
+  }
+
+  private async fetchGatewayRecord(
+    payment: ReconciledPayment,
+  ): Promise<GatewayInvoiceRecord | null> {
+    if (!payment.invoiceNumber) {
+      return null;
+    }
+
+    const gateway = this.paymentGatewayFactory.getGatewayForPayment(payment);
+    const status = await gateway.getPaymentStatus(payment.invoiceNumber);
+
+    // The gateway reports request errors as failed without a response body
+    if (!status.data) {
+      this.logger.warn(
+        `Could not check invoice ${payment.invoiceNumber}: ${status.failureReason}`,
+      );
+      return null;
+    }
+
+    return {
+      invoiceNumber: payment.invoiceNumber,
+      status: status.status,
+      paid: status.status === 'completed',
+      amount: status.amount,
+      paymentReference: status.gatewayReference,
+      data: status.data,
+    };
+  }
+
+  private async recordMismatch(
+    runId: string,
+    counters: RunCounters,
+    mismatch: {
+      type: ReconciliationMismatchType;
+      payment?: ReconciledPayment;
+      invoiceNumber?: string;
+      record?: GatewayInvoiceRecord;
+      healed?: boolean;
+      details?: string;
+    },
+  ): Promise<void> {
+    counters.mismatchCount++;
+    if (mismatch.healed) {
+      counters.healedCount++;
+    }
+
+    await this.prismaService.reconciliationItem.create({
+      data: {
+        runId,
+        paymentId: mismatch.payment?.id,
+        invoiceNumber:
+          mismatch.payment?.invoiceNumber ?? mismatch.invoiceNumber,
+        type: mismatch.type,
+        resolution: mismatch.healed
+          ? ReconciliationResolution.AUTO_HEALED
+          : ReconciliationResolution.PENDING_REVIEW,
+        localStatus: mismatch.payment?.status,
+        gatewayStatus: mismatch.record?.status,
+        localAmount: mismatch.payment
+          ? (mismatch.payment.totalPaid ?? mismatch.payment.amount)
+          : undefined,
+        gatewayAmount: mismatch.record?.amount,
+        details: mismatch.details,
+      },
+    });
+  }
+
+  /**
+   * Create a run and claim its day and source in one transaction. The claim
+   * is a unique lock document, so two runs cannot both start, and a run whose
+   * claim expired is marked FAILED and replaced
+   */
+  private async startRun(
+    businessDate: Date,
+    source: ReconciliationSource,
+    triggeredBy?: string,
+    fileName?: string,
+  ): Promise<ReconciliationRun> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + RUN_CLAIM_DURATION_MS);
+
+    try {
+      return await this.prismaService.$transaction(async (tx) => {
+        const run = await tx.reconciliationRun.create({
+          data: {
+            businessDate,
+            source,
+            fileName,
+            triggeredBy,
+          },
+        });
+
+        const expired = await tx.reconciliationLock.findFirst({
+          where: { businessDate, source, expiresAt: { lte: now } },
+        });
+
+        if (!expired) {
+          // Fails on the unique index while another run holds the day
+          await tx.reconciliationLock.create({
+            data: { businessDate, source, runId: run.id, expiresAt },
+          });
+          return run;
+        }
+
+        const takenOver = await tx.reconciliationLock.updateMany({
+          where: {
+            id: expired.id,
+            runId: expired.runId,
+            expiresAt: { lte: now },
+          },
+          data: { runId: run.id, expiresAt },
+        });
+
+        if (takenOver.count === 0) {
+          throw this.alreadyRunning(businessDate, source);
+        }
+
+        await tx.reconciliationRun.updateMany({
+          where: {
+            id: expired.runId,
+            status: ReconciliationRunStatus.RUNNING,
+          },
+          data: {
+            status: ReconciliationRunStatus.FAILED,
+            errorMessage: `Stopped renewing its claim, taken over by run ${run.id}`,
+            completedAt: now,
+          },
+        });
+        this.logger.warn(
+          `Reconciliation ${expired.runId} expired, taken over by ${run.id}`,
+        );
+
+        return run;
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw this.alreadyRunning(businessDate, source);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Push the claim back every few records. Stops the run when another run
+   * took it over after it expired
+   */
+  private async renewClaim(
+    run: ReconciliationRun,
+    counters: RunCounters,
+  ): Promise<void> {
+    if (counters.checkedCount % RUN_CLAIM_RENEW_EVERY !== 0) {
+      return;
+    }
+
+    const renewed = await this.prismaService.reconciliationLock.updateMany({
+      where: { runId: run.id },
+      data: { expiresAt: new Date(Date.now() + RUN_CLAIM_DURATION_MS) },
+    });
+
+    if (renewed.count === 0) {
+      throw new Error('Claim expired and was taken over by another run');
+    }
+  }
+
+  private async releaseClaim(run: ReconciliationRun): Promise<void> {
+    await this.prismaService.reconciliationLock.deleteMany({
+      where: { runId: run.id },
+    });
+  }
+
+  private alreadyRunning(
+    businessDate: Date,
+    source: ReconciliationSource,
+  ): BadRequestException {
+    return new BadRequestException(
+      `A ${source} reconciliation for ${this.formatBusinessDate(businessDate)} is already running`,
+    );
+  }
+
+  private async completeRun(
+    run: ReconciliationRun,
+    counters: RunCounters,
+  ): Promise<ReconciliationRunResponseDto> {
+    const completed = await this.prismaService.reconciliationRun.update({
+      where: { id: run.id },
+      data: {
+        ...counters,
+        status: ReconciliationRunStatus.COMPLETED,
+        completedAt: new Date(),
+      },
+    });
+    await this.releaseClaim(run);
+
+    const pendingReview = counters.mismatchCount - counters.healedCount;
+    const summary = `Reconciliation ${run.id} (${run.source}, ${this.formatBusinessDate(run.businessDate)}): ${counters.checkedCount} checked, ${counters.matchedCount} matched, ${counters.healedCount} healed, ${pendingReview} pending review`;
+
+    if (pendingReview > 0) {
+      this.logger.warn(summary);
+    } else {
+      this.logger.log(summary);
+    }
+
+    return this.mapRunToResponseDto(completed);
+  }
+
+  private async failRun(
+    run: ReconciliationRun,
+    counters: RunCounters,
+    error: Error,
+  ): Promise<ReconciliationRunResponseDto> {
+    this.logger.error(`Reconciliation ${run.id} failed: ${error.message}`);
+
+    const failed = await this.prismaService.reconciliationRun.update({
+      where: { id: run.id },
+      data: {
+        ...counters,
+        status: ReconciliationRunStatus.FAILED,
+        errorMessage: error.message,
+        completedAt: new Date(),
+      },
+    });
+    await this.releaseClaim(run);
+
+    return this.mapRunToResponseDto(failed);
+  }
+
+  /**
+   * Parse a settlement CSV. Column names are matched case-insensitively
+   */
+  private parseSettlementFile(content: string): GatewayInvoiceRecord[] {
+    const lines = content
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+
+    if (lines.length < 2) {
+      throw new BadRequestException(
+        'Settlement file must have a header row and at least one record',
+      );
+    }
+
+    const header = this.splitCsvLine(lines[0]).map((column) =>
+      column.toLowerCase().replace(/[^a-z]/g, ''),
+    );
+    const column = (...names: string[]) =>
+      header.findIndex((name) => names.includes(name));
+
+    const invoiceIndex = column('invoicenumber', 'invoice');
+    const amountIndex = column('amount', 'paidamount');
+    const statusIndex = column('status', 'paymentstatus');
+    const transactionIndex = column('transactionid');
+    const referenceIndex = column('paymentreference', 'reference');
+    const paidAtIndex = column('paidat', 'settledat');
+
+    if (invoiceIndex < 0 || amountIndex < 0 || statusIndex < 0) {
+      throw new BadRequestException(
+        'Settlement file must have invoiceNumber, amount and status columns',
+      );
+    }
+
+    return lines.slice(1).map((line, index) => {
+      const fields = this.splitCsvLine(line);
+      const invoiceNumber = fields[invoiceIndex];
+      const amount = parseFloat(fields[amountIndex]);
+      const status = fields[statusIndex] ?? '';
+
+      if (!invoiceNumber || isNaN(amount)) {
+        throw new BadRequestException(
+          `Invalid settlement record on line ${index + 2}`,
+        );
+      }
+
+      return {
+        invoiceNumber,
+        status,
+        paid: PAID_GATEWAY_STATUSES.includes(status.toLowerCase()),
+        amount,
+        transactionId:
+          transactionIndex >= 0 ? fields[transactionIndex] : undefined,
+        paymentReference:
+          referenceIndex >= 0 ? fields[referenceIndex] : undefined,
+        paidAt: paidAtIndex >= 0 ? fields[paidAtIndex] : undefined,
+        data: { source: 'settlement-file', line: index + 2 },
+      };
+    });
+  }
+
+  private splitCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+
+      if (char === '"') {
+        if (quoted && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          quoted = !quoted;
+        }
+      } else if (char === ',' && !quoted) {
+        fields.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+
+    fields.push(current.trim());
+    return fields;
+  }
+
+  private getYesterday(): Date {
+    return new Date(Date.now() - DAY_MS);
+  }
+
+  /**
+   * The Kigali day `date` falls in, whatever time zone the server runs in
+   */
+  private getDayBounds(date: Date): { start: Date; end: Date } {
+    // Work on Kigali wall-clock time through the UTC getters
+    const local = new Date(date.getTime() + KIGALI_OFFSET_MS);
+    local.setUTCHours(0, 0, 0, 0);
+
+    const start = new Date(local.getTime() - KIGALI_OFFSET_MS);
+    const end = new Date(start.getTime() + DAY_MS);
+
+    return { start, end };
+  }
+
+  private formatBusinessDate(businessDate: Date): string {
+    return new Date(businessDate.getTime() + KIGALI_OFFSET_MS)
+      .toISOString()
+      .slice(0, 10);
+  }
+
+  private createCounters(): RunCounters {
+    return {
+      checkedCount: 0,
+      matchedCount: 0,
+      mismatchCount: 0,
+      healedCount: 0,
+    };
+  }
+
+  private mapRunToResponseDto(
+    run: ReconciliationRun,
+  ): ReconciliationRunResponseDto {
+    return {
+      id: run.id,
+      businessDate: run.businessDate,
+      source: run.source,
+      status: run.status,
+      fileName: run.fileName ?? undefined,
+      checkedCount: run.checkedCount,
+      matchedCount: run.matchedCount,
+      mismatchCount: run.mismatchCount,
+      healedCount: run.healedCount,
+      triggeredBy: run.triggeredBy ?? undefined,
+      errorMessage: run.errorMessage ?? undefined,
+      startedAt: run.startedAt,
+      completedAt: run.completedAt ?? undefined,
+    };
+  }
+
+  private mapItemToResponseDto(
+    item: ReconciliationItem,
+  ): ReconciliationItemResponseDto {
+    return {
+      id: item.id,
+      runId: item.runId,
+      paymentId: item.paymentId ?? undefined,
+      invoiceNumber: item.invoiceNumber ?? undefined,
+      type: item.type,
+      resolution: item.resolution,
+      localStatus: item.localStatus ?? undefined,
+      gatewayStatus: item.gatewayStatus ?? undefined,
+      localAmount: item.localAmount ?? undefined,
+      gatewayAmount: item.gatewayAmount ?? undefined,
+      details: item.details ?? undefined,
+      resolvedBy: item.resolvedBy ?? undefined,
+      resolvedAt: item.resolvedAt ?? undefined,
+      resolutionNote: item.resolutionNote ?? undefined,
+      createdAt: item.createdAt,
+    };
+  }
+}
@@ -0,0 +1,292 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  LateFee,
+  LateFeeRule,
+  LateFeeStatus,
+  LateFeeType,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ActivityService } from '../../activity/application/activity.service';
+import { ArrearsChargeDto } from '../presentation/dto/arrears.dto';
+import { ArrearsService } from './arrears.service';
+import { LateFeeService } from './late-fee.service';
+import {
+  PaymentFrequency,
+  PaymentPeriodService,
+} from './payment-period.service';
+
+const COOPERATIVE_ID = '65f000000000000000000001';
+const TENANT_ID = '65f000000000000000000002';
+
+// Billing periods are built on server-local dates. With 5 grace days the
+// January charge is assessed from 5 February, and compounding rules assess
+// it again from 5 March and 5 April
+const FEBRUARY_3 = new Date(2026, 1, 3);
+const MARCH_10 = new Date(2026, 2, 10);
+const APRIL_10 = new Date(2026, 3, 10);
+
+describe('LateFeeService', () => {
+  let service: LateFeeService;
+  let prisma: {
+    cooperative: { findUnique: jest.Mock };
+    lateFeeRule: { findMany: jest.Mock };
+    lateFee: Record<'findMany' | 'create' | 'updateMany', jest.Mock>;
+  };
+  let arrearsService: { getOutstandingCharges: jest.Mock };
+  // Late fees as the database holds them
+  let lateFees: LateFee[];
+
+  const rule = (overrides: Partial<LateFeeRule> = {}) =>
+    ({
+      id: 'rule-1',
+      cooperativeId: COOPERATIVE_ID,
+      paymentTypeId: 'rent',
+      graceDays: 5,
+      penaltyType: LateFeeType.FLAT,
+      flatAmount: 500,
+      percentage: null,
+      isCompounding: false,
+      maxPenaltyAmount: null,
+      isActive: true,
+      createdAt: new Date(2025, 11, 1),
+      ...overrides,
+    }) as LateFeeRule;
+
+  const januaryRent = (
+    overrides: Partial<ArrearsChargeDto> = {},
+  ): ArrearsChargeDto => ({
+    periodIdentifier: '2026-01',
+    periodStart: new Date(2026, 0, 1),
+    periodEnd: new Date(2026, 0, 31, 23, 59, 59, 999),
+    dueDate: new Date(2026, 0, 1),
+    paymentTypeId: 'rent',
+    paymentTypeName: 'Rent',
+    roomId: 'room-1',
+    roomNumber: '101',
+    amount: 10000,
+    paidAmount: 0,
+    outstanding: 10000,
+    daysOverdue: 0,
+    ...overrides,
+  });
+
+  const existingFee = (overrides: Partial<LateFee> = {}) => {
+    const fee = {
+      id: `late-fee-${lateFees.length + 1}`,
+      ruleId: 'rule-1',
+      tenantId: TENANT_ID,
+      cooperativeId: COOPERATIVE_ID,
+      paymentTypeId: 'rent',
+      roomId: 'room-1',
+      periodIdentifier: '2026-01',
+      assessmentNumber: lateFees.length + 1,
+      unpaidAmount: 10000,
+      amount: 1000,
+      paidAmount: 0,
+      status: LateFeeStatus.OUTSTANDING,
+      ...overrides,
+    } as LateFee;
+    lateFees.push(fee);
+    return fee;
+  };
+
+  const withRule = (overrides: Partial<LateFeeRule> = {}) =>
+    prisma.lateFeeRule.findMany.mockResolvedValue([rule(overrides)]);
+
+  const withCharges = (...charges: ArrearsChargeDto[]) =>
+    arrearsService.getOutstandingCharges.mockResolvedValue([
+      { tenantId: TENANT_ID, charges },
+    ]);
+
+  const assessed = () =>
+    prisma.lateFee.create.mock.calls.map(
+      ([{ data }]: [{ data: Partial<LateFee> }]) => ({
+        assessmentNumber: data.assessmentNumber,
+        unpaidAmount: data.unpaidAmount,
+        amount: data.amount,
+      }),
+    );
+
+  beforeEach(async () => {
+    lateFees = [];
+
+    prisma = {
+      cooperative: {
+        findUnique: jest.fn().mockResolvedValue({
+          paymentFrequency: PaymentFrequency.MONTHLY,
+          billingDayOfMonth: 1,
+          billingDayOfYear: null,
+        }),
+      },
+      lateFeeRule: { findMany: jest.fn().mockResolvedValue([rule()]) },
+      lateFee: {
+        findMany: jest.fn(() => Promise.resolve([...lateFees])),
+        create: jest.fn(({ data }: { data: Partial<LateFee> }) =>
+          Promise.resolve(existingFee(data)),
+        ),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    arrearsService = { getOutstandingCharges: jest.fn() };
+    withCharges(januaryRent());
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LateFeeService,
+        PaymentPeriodService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ArrearsService, useValue: arrearsService },
+        { provide: ActivityService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(LateFeeService);
+  });
+
+  describe('assessCooperative', () => {
+    it('waits for the grace days after the period closes', async () => {
+      await expect(
+        service.assessCooperative(COOPERATIVE_ID, FEBRUARY_3),
+      ).resolves.toMatchObject({ assessedCount: 0 });
+      expect(prisma.lateFee.create).not.toHaveBeenCalled();
+    });
+
+    it('assesses a non-compounding rule once', async () => {
+      await expect(
+        service.assessCooperative(COOPERATIVE_ID, APRIL_10),
+      ).resolves.toEqual({
+        assessedCount: 1,
+        assessedAmount: 500,
+        paidCount: 0,
+      });
+
+      await service.assessCooperative(COOPERATIVE_ID, APRIL_10);
+
+      expect(assessed()).toEqual([
+        { assessmentNumber: 1, unpaidAmount: 10000, amount: 500 },
+      ]);
+    });
+
+    it('compounds on the charge and the penalties still unpaid', async () => {
+      withRule({
+        penaltyType: LateFeeType.PERCENTAGE,
+        flatAmount: null,
+        percentage: 10,
+        isCompounding: true,
+      });
+
+      await expect(
+        service.assessCooperative(COOPERATIVE_ID, APRIL_10),
+      ).resolves.toMatchObject({ assessedCount: 3, assessedAmount: 3310 });
+
+      expect(assessed()).toEqual([
+        { assessmentNumber: 1, unpaidAmount: 10000, amount: 1000 },
+        { assessmentNumber: 2, unpaidAmount: 11000, amount: 1100 },
+        { assessmentNumber: 3, unpaidAmount: 12100, amount: 1210 },
+      ]);
+    });
+
+    it('does not compound on penalties the tenant already paid', async () => {
+      withRule({
+        penaltyType: LateFeeType.PERCENTAGE,
+        flatAmount: null,
+        percentage: 10,
+        isCompounding: true,
+      });
+      existingFee({
+        amount: 1000,
+        paidAmount: 1000,
+        status: LateFeeStatus.PAID,
+      });
+
+      await service.assessCooperative(COOPERATIVE_ID, MARCH_10);
+
+      expect(assessed()).toEqual([
+        { assessmentNumber: 2, unpaidAmount: 10000, amount: 1000 },
+      ]);
+    });
+
+    it('stops at the cap on the total penalties', async () => {
+      withRule({
+        penaltyType: LateFeeType.PERCENTAGE,
+        flatAmount: null,
+        percentage: 10,
+        isCompounding: true,
+        maxPenaltyAmount: 1500,
+      });
+
+      await expect(
+        service.assessCooperative(COOPERATIVE_ID, APRIL_10),
+      ).resolves.toMatchObject({ assessedCount: 2, assessedAmount: 1500 });
+
+      expect(assessed()).toEqual([
+        { assessmentNumber: 1, unpaidAmount: 10000, amount: 1000 },
+        { assessmentNumber: 2, unpaidAmount: 11000, amount: 500 },
+      ]);
+    });
+
+    it('leaves waived penalties out of the cap and the compounding', async () => {
+      withRule({
+        penaltyType: LateFeeType.PERCENTAGE,
+        flatAmount: null,
+        percentage: 10,
+        isCompounding: true,
+        maxPenaltyAmount: 1500,
+      });
+      existingFee({ amount: 1000, status: LateFeeStatus.WAIVED });
+
+      await service.assessCooperative(COOPERATIVE_ID, MARCH_10);
+
+      expect(assessed()).toEqual([
+        { assessmentNumber: 2, unpaidAmount: 10000, amount: 1000 },
+      ]);
+    });
+
+    it('does not assess period closes from before the rule existed', async () => {
+      withRule({ isCompounding: true, createdAt: new Date(2026, 2, 1) });
+
+      await expect(
+        service.assessCooperative(COOPERATIVE_ID, APRIL_10),
+      ).resolves.toMatchObject({ assessedCount: 2, assessedAmount: 1000 });
+    });
+
+    it('stops when another run assessed the same penalty', async () => {
+      withRule({ isCompounding: true });
+      prisma.lateFee.create.mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        }),
+      );
+
+      await expect(
+        service.assessCooperative(COOPERATIVE_ID, APRIL_10),
+      ).resolves.toMatchObject({ assessedCount: 0 });
+      expect(prisma.lateFee.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('marks penalties the tenant has paid off', async () => {
+      const fee = existingFee();
+      withCharges(
+        januaryRent({ paidAmount: 10000, outstanding: 0 }),
+        januaryRent({
+          paymentTypeName: 'Late fee: Rent',
+          amount: 1000,
+          paidAmount: 1000,
+          outstanding: 0,
+          lateFeeId: fee.id,
+        }),
+      );
+
+      await expect(
+        service.assessCooperative(COOPERATIVE_ID, APRIL_10),
+      ).resolves.toEqual({ assessedCount: 0, assessedAmount: 0, paidCount: 1 });
+
+      expect(prisma.lateFee.updateMany).toHaveBeenCalledWith({
+        where: { id: fee.id, status: { not: LateFeeStatus.WAIVED } },
+        data: { paidAmount: 1000, status: LateFeeStatus.PAID },
+      });
+    });
+  });
+});
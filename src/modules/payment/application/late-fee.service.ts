@@ -0,0 +1,659 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  LateFee,
+  LateFeeRule,
+  LateFeeStatus,
+  LateFeeType,
+  PaymentType,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ActivityService } from '../../activity/application/activity.service';
+import { AuthenticatedUser } from '../../../shared/decorators/current-user.decorator';
+import { ArrearsService } from './arrears.service';
+import {
+  BillingPeriod,
+  CooperativeSettings,
+  PaymentFrequency,
+  PaymentPeriodService,
+} from './payment-period.service';
+import { ArrearsChargeDto } from '../presentation/dto/arrears.dto';
+import {
+  CreateLateFeeRuleDto,
+  LateFeeAssessmentResultDto,
+  LateFeeFilterDto,
+  LateFeeResponseDto,
+  LateFeeRuleFilterDto,
+  LateFeeRuleResponseDto,
+  UpdateLateFeeRuleDto,
+  WaiveLateFeeDto,
+} from '../presentation/dto/late-fee.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type AssessmentCounters = Omit<
+  LateFeeAssessmentResultDto,
+  'cooperativesProcessed'
+>;
+
+@Injectable()
+export class LateFeeService {
+  private readonly logger = new Logger(LateFeeService.name);
+
+  constructor(
+    private prismaService: PrismaService,
+    private arrearsService: ArrearsService,
+    private paymentPeriodService: PaymentPeriodService,
+    private activityService: ActivityService,
+  ) {}
+
+  async createRule(
+    createRuleDto: CreateLateFeeRuleDto,
+    currentUser: AuthenticatedUser,
+  ): Promise<LateFeeRuleResponseDto> {
+    this.validateRuleDefinition(createRuleDto);
+
+    const paymentType = await this.prismaService.paymentType.findUnique({
+      where: { id: createRuleDto.paymentTypeId },
+    });
+
+    if (!paymentType) {
+      throw new NotFoundException('Payment type not found');
+    }
+
+    this.assertCooperativeAccess(paymentType.cooperativeId, currentUser);
+
+    if (!paymentType.isRecurring) {
+      throw new BadRequestException(
+        'Late fees can only be set on recurring payment types',
+      );
+    }
+
+    const existing = await this.prismaService.lateFeeRule.findUnique({
+      where: { paymentTypeId: paymentType.id },
+    });
+
+    if (existing) {
+      throw new BadRequestException(
+        `Payment type "${paymentType.name}" already has a late fee rule`,
+      );
+    }
+
+    const rule = await this.prismaService.lateFeeRule.create({
+      data: {
+        paymentTypeId: paymentType.id,
+        cooperativeId: paymentType.cooperativeId,
+        graceDays: createRuleDto.graceDays ?? 0,
+        penaltyType: createRuleDto.penaltyType,
+        flatAmount: createRuleDto.flatAmount,
+        percentage: createRuleDto.percentage,
+        isCompounding: createRuleDto.isCompounding ?? false,
+        maxPenaltyAmount: createRuleDto.maxPenaltyAmount,
+        createdBy: currentUser.id,
+      },
+      include: { paymentType: { select: { name: true } } },
+    });
+
+    this.logger.log(
+      `Late fee rule ${rule.id} created for payment type ${paymentType.id}`,
+    );
+
+    return this.mapRuleToResponseDto(rule);
+  }
+
+  async findRules(
+    filterDto: LateFeeRuleFilterDto,
+    cooperativeId?: string,
+  ): Promise<PaginatedResponseDto<LateFeeRuleResponseDto>> {
+    const { page, limit, isActive } = filterDto;
+    const skip = filterDto.skip;
+
+    const where: Prisma.LateFeeRuleWhereInput = {};
+
+    if (cooperativeId) {
+      where.cooperativeId = cooperativeId;
+    }
+
+    if (isActive !== undefined) {
+      where.isActive = isActive;
+    }
+
+    const [rules, total] = await Promise.all([
+      this.prismaService.lateFeeRule.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: { paymentType: { select: { name: true } } },
+      }),
+      this.prismaService.lateFeeRule.count({ where }),
+    ]);
+
+    return new PaginatedResponseDto(
+      rules.map((rule) => this.mapRuleToResponseDto(rule)),
+      total,
+      page || 1,
+      limit || 10,
+    );
+  }
+
+  /**
+   * Update a rule. Late fees already assessed keep their amount
+   */
+  async updateRule(
+    id: string,
+    updateRuleDto: UpdateLateFeeRuleDto,
+    currentUser: AuthenticatedUser,
+  ): Promise<LateFeeRuleResponseDto> {
+    const rule = await this.prismaService.lateFeeRule.findUnique({
+      where: { id },
+    });
+
+    if (!rule) {
+      throw new NotFoundException('Late fee rule not found');
+    }
+
+    this.assertCooperativeAccess(rule.cooperativeId, currentUser);
+
+    this.validateRuleDefinition({
+      penaltyType: updateRuleDto.penaltyType ?? rule.penaltyType,
+      flatAmount: updateRuleDto.flatAmount ?? rule.flatAmount ?? undefined,
+      percentage: updateRuleDto.percentage ?? rule.percentage ?? undefined,
+    });
+
+    const updated = await this.prismaService.lateFeeRule.update({
+      where: { id },
+      data: {
+        graceDays: updateRuleDto.graceDays,
+        penaltyType: updateRuleDto.penaltyType,
+        flatAmount: updateRuleDto.flatAmount,
+        percentage: updateRuleDto.percentage,
+        isCompounding: updateRuleDto.isCompounding,
+        maxPenaltyAmount: updateRuleDto.maxPenaltyAmount,
+        isActive: updateRuleDto.isActive,
+      },
+      include: { paymentType: { select: { name: true } } },
+    });
+
+    return this.mapRuleToResponseDto(updated);
+  }
+
+  async findLateFees(
+    filterDto: LateFeeFilterDto,
+    cooperativeId?: string,
+  ): Promise<PaginatedResponseDto<LateFeeResponseDto>> {
+    const { page, limit, tenantId, paymentTypeId, status } = filterDto;
+    const skip = filterDto.skip;
+
+    const where: Prisma.LateFeeWhereInput = {};
+
+    if (cooperativeId) {
+      where.cooperativeId = cooperativeId;
+    }
+
+    if (tenantId) {
+      where.tenantId = tenantId;
+    }
+
+    if (paymentTypeId) {
+      where.paymentTypeId = paymentTypeId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    const [lateFees, total] = await Promise.all([
+      this.prismaService.lateFee.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { assessedAt: 'desc' },
+        include: {
+          tenant: { select: { firstName: true, lastName: true } },
+        },
+      }),
+      this.prismaService.lateFee.count({ where }),
+    ]);
+
+    return new PaginatedResponseDto(
+      lateFees.map((lateFee) => this.mapToResponseDto(lateFee)),
+      total,
+      page || 1,
+      limit || 10,
+    );
+  }
+
+  /**
+   * Waive an outstanding late fee. The waiver is kept on the late fee and
+   * logged as an activity
+   */
+  async waive(
+    id: string,
+    waiveDto: WaiveLateFeeDto,
+    currentUser: AuthenticatedUser,
+  ): Promise<LateFeeResponseDto> {
+    const lateFee = await this.prismaService.lateFee.findUnique({
+      where: { id },
+    });
+
+    if (!lateFee) {
+      throw new NotFoundException('Late fee not found');
+    }
+
+    this.assertCooperativeAccess(lateFee.cooperativeId, currentUser);
+
+    const waivedAt = new Date();
+    // Conditional update so a fee that was just paid or waived is not waived again
+    const { count } = await this.prismaService.lateFee.updateMany({
+      where: { id, status: LateFeeStatus.OUTSTANDING },
+      data: {
+        status: LateFeeStatus.WAIVED,
+        waivedBy: currentUser.id,
+        waivedAt,
+        waiverReason: waiveDto.reason,
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException(
+        `Only outstanding late fees can be waived (this one is ${lateFee.status})`,
+      );
+    }
+
+    await this.activityService.logLateFeeWaived(
+      lateFee.id,
+      lateFee.tenantId,
+      lateFee.amount,
+      waiveDto.reason,
+      { userId: currentUser.id, cooperativeId: lateFee.cooperativeId },
+    );
+
+    this.logger.log(`Late fee ${lateFee.id} waived by ${currentUser.id}`);
+
+    const waived = await this.prismaService.lateFee.findUniqueOrThrow({
+      where: { id },
+      include: { tenant: { select: { firstName: true, lastName: true } } },
+    });
+
+    return this.mapToResponseDto(waived);
+  }
+
+  /**
+   * Assess late fees for every cooperative with an active rule
+   */
+  async assessAll(now: Date = new Date()): Promise<LateFeeAssessmentResultDto> {
+    const [rules, outstandingFees] = await Promise.all([
+      this.prismaService.lateFeeRule.findMany({
+        where: { isActive: true },
+        select: { cooperativeId: true },
+        distinct: ['cooperativeId'],
+      }),
+      // Cooperatives with unpaid fees still need their paid status synced
+      this.prismaService.lateFee.findMany({
+        where: { status: LateFeeStatus.OUTSTANDING },
+        select: { cooperativeId: true },
+        distinct: ['cooperativeId'],
+      }),
+    ]);
+
+    const cooperativeIds = [
+      ...new Set(
+        [...rules, ...outstandingFees].map((item) => item.cooperativeId),
+      ),
+    ];
+    const result: LateFeeAssessmentResultDto = {
+      cooperativesProcessed: 0,
+      assessedCount: 0,
+      assessedAmount: 0,
+      paidCount: 0,
+    };
+
+    for (const cooperativeId of cooperativeIds) {
+      try {
+        const counters = await this.assessCooperative(cooperativeId, now);
+        result.cooperativesProcessed++;
+        result.assessedCount += counters.assessedCount;
+        result.assessedAmount += counters.assessedAmount;
+        result.paidCount += counters.paidCount;
+      } catch (error) {
+        this.logger.error(
+          `Late fee assessment failed for cooperative ${cooperativeId}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Assess late fees on the unpaid charges of a cooperative whose billing
+   * period closed more than the grace days ago, and mark late fees that
+   * have since been paid
+   */
+  async assessCooperative(
+    cooperativeId: string,
+    now: Date = new Date(),
+  ): Promise<AssessmentCounters> {
+    const [cooperative, rules, existingFees, ledgers] = await Promise.all([
+      this.prismaService.cooperative.findUnique({
+        where: { id: cooperativeId },
+        select: {
+          paymentFrequency: true,
+          billingDayOfMonth: true,
+          billingDayOfYear: true,
+        },
+      }),
+      this.prismaService.lateFeeRule.findMany({
+        where: { cooperativeId, isActive: true },
+      }),
+      this.prismaService.lateFee.findMany({ where: { cooperativeId } }),
+      this.arrearsService.getOutstandingCharges(cooperativeId, now),
+    ]);
+
+    if (!cooperative) {
+      throw new NotFoundException('Cooperative not found');
+    }
+
+    const settings: CooperativeSettings = {
+      paymentFrequency: cooperative.paymentFrequency as PaymentFrequency,
+      billingDayOfMonth: cooperative.billingDayOfMonth ?? undefined,
+      billingDayOfYear: cooperative.billingDayOfYear ?? undefined,
+    };
+    const rulesByPaymentType = new Map(
+      rules.map((rule) => [rule.paymentTypeId, rule]),
+    );
+    const feesById = new Map(existingFees.map((fee) => [fee.id, fee]));
+
+    const counters: AssessmentCounters = {
+      assessedCount: 0,
+      assessedAmount: 0,
+      paidCount: 0,
+    };
+
+    for (const { tenantId, charges } of ledgers) {
+      for (const charge of charges) {
+        if (charge.lateFeeId) {
+          await this.syncPaidAmount(
+            feesById.get(charge.lateFeeId),
+            charge,
+            counters,
+          );
+          continue;
+        }
+
+        const rule = rulesByPaymentType.get(charge.paymentTypeId);
+        if (!rule || charge.outstanding <= 0) {
+          continue;
+        }
+
+        const dueAssessments = this.countDueAssessments(
+          rule,
+          charge,
+          settings,
+          now,
+        );
+        const previousFees = existingFees.filter(
+          (fee) =>
+            fee.tenantId === tenantId &&
+            fee.paymentTypeId === charge.paymentTypeId &&
+            fee.periodIdentifier === charge.periodIdentifier,
+        );
+
+        for (
+          let assessmentNumber = previousFees.length + 1;
+          assessmentNumber <= dueAssessments;
+          assessmentNumber++
+        ) {
+          const lateFee = await this.assessCharge(
+            rule,
+            tenantId,
+            charge,
+            assessmentNumber,
+            previousFees,
+            now,
+          );
+
+          if (!lateFee) {
+            break;
+          }
+
+          previousFees.push(lateFee);
+          counters.assessedCount++;
+          counters.assessedAmount += lateFee.amount;
+        }
+      }
+    }
+
+    if (counters.assessedCount > 0 || counters.paidCount > 0) {
+      this.logger.log(
+        `Cooperative ${cooperativeId}: ${counters.assessedCount} late fees assessed (${counters.assessedAmount} RWF), ${counters.paidCount} paid`,
+      );
+    }
+
+    return counters;
+  }
+
+  /**
+   * Number of assessments due for a charge: one when its billing period
+   * closed more than the grace days ago, plus one per later period close for
+   * compounding rules. Closes before the rule existed do not count
+   */
+  private countDueAssessments(
+    rule: LateFeeRule,
+    charge: ArrearsChargeDto,
+    settings: CooperativeSettings,
+    now: Date,
+  ): number {
+    let period: BillingPeriod = {
+      startDate: charge.periodStart,
+      endDate: charge.periodEnd,
+      periodIdentifier: charge.periodIdentifier,
+    };
+    let dueAssessments = 0;
+
+    for (;;) {
+      const assessAt = new Date(
+        period.endDate.getTime() + rule.graceDays * DAY_MS,
+      );
+
+      if (assessAt > now) {
+        break;
+      }
+
+      if (assessAt >= rule.createdAt) {
+        dueAssessments++;
+      }
+
+      if (!rule.isCompounding) {
+        break;
+      }
+
+      period = this.paymentPeriodService.getNextBillingPeriod(settings, period);
+    }
+
+    return dueAssessments;
+  }
+
+  private async assessCharge(
+    rule: LateFeeRule,
+    tenantId: string,
+    charge: ArrearsChargeDto,
+    assessmentNumber: number,
+    previousFees: LateFee[],
+    now: Date,
+  ): Promise<LateFee | null> {
+    const activeFees = previousFees.filter(
+      (fee) => fee.status !== LateFeeStatus.WAIVED,
+    );
+    const penaltiesSoFar = activeFees.reduce((sum, fee) => sum + fee.amount, 0);
+
+    // Compounding percentages also apply to earlier penalties still unpaid
+    const unpaidAmount =
+      charge.outstanding +
+      (rule.isCompounding
+        ? activeFees
+            .filter((fee) => fee.status === LateFeeStatus.OUTSTANDING)
+            .reduce((sum, fee) => sum + fee.amount - fee.paidAmount, 0)
+        : 0);
+
+    let amount =
+      rule.penaltyType === LateFeeType.FLAT
+        ? (rule.flatAmount ?? 0)
+        : Math.round((unpaidAmount * (rule.percentage ?? 0)) / 100);
+
+    if (rule.maxPenaltyAmount != null) {
+      amount = Math.min(amount, rule.maxPenaltyAmount - penaltiesSoFar);
+    }
+
+    if (amount <= 0) {
+      return null;
+    }
+
+    try {
+      return await this.prismaService.lateFee.create({
+        data: {
+          ruleId: rule.id,
+          tenantId,
+          cooperativeId: rule.cooperativeId,
+          paymentTypeId: charge.paymentTypeId,
+          roomId: charge.roomId || null,
+          periodIdentifier: charge.periodIdentifier,
+          assessmentNumber,
+          unpaidAmount,
+          amount,
+          assessedAt: now,
+        },
+      });
+    } catch (error) {
+      // Another run already assessed this one
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async syncPaidAmount(
+    lateFee: LateFee | undefined,
+    charge: ArrearsChargeDto,
+    counters: AssessmentCounters,
+  ): Promise<void> {
+    if (
+      !lateFee ||
+      lateFee.status === LateFeeStatus.WAIVED ||
+      lateFee.paidAmount === charge.paidAmount
+    ) {
+      return;
+    }
+
+    const isPaid = charge.outstanding <= 0;
+
+    // Skip fees waived since the ledger was built
+    const { count } = await this.prismaService.lateFee.updateMany({
+      where: { id: lateFee.id, status: { not: LateFeeStatus.WAIVED } },
+      data: {
+        paidAmount: charge.paidAmount,
+        status: isPaid ? LateFeeStatus.PAID : LateFeeStatus.OUTSTANDING,
+      },
+    });
+
+    if (count > 0 && isPaid && lateFee.status !== LateFeeStatus.PAID) {
+      counters.paidCount++;
+    }
+  }
+
+  private validateRuleDefinition(rule: {
+    penaltyType: LateFeeType;
+    flatAmount?: number;
+    percentage?: number;
+  }): void {
+    if (rule.penaltyType === LateFeeType.FLAT && rule.flatAmount == null) {
+      throw new BadRequestException('flatAmount is required for FLAT rules');
+    }
+
+    if (
+      rule.penaltyType === LateFeeType.PERCENTAGE &&
+      rule.percentage == null
+    ) {
+      throw new BadRequestException(
+        'percentage is required for PERCENTAGE rules',
+      );
+    }
+  }
+
+  private assertCooperativeAccess(
+    cooperativeId: string,
+    currentUser: AuthenticatedUser,
+  ): void {
+    if (
+      currentUser.role !== UserRole.SUPER_ADMIN &&
+      currentUser.cooperativeId !== cooperativeId
+    ) {
+      throw new ForbiddenException('Access denied');
+    }
+  }
+
+  private mapRuleToResponseDto(
+    rule: LateFeeRule & { paymentType?: Pick<PaymentType, 'name'> },
+  ): LateFeeRuleResponseDto {
+    return {
+      id: rule.id,
+      paymentTypeId: rule.paymentTypeId,
+      paymentTypeName: rule.paymentType?.name,
+      cooperativeId: rule.cooperativeId,
+      graceDays: rule.graceDays,
+      penaltyType: rule.penaltyType,
+      flatAmount: rule.flatAmount ?? undefined,
+      percentage: rule.percentage ?? undefined,
+      isCompounding: rule.isCompounding,
+      maxPenaltyAmount: rule.maxPenaltyAmount ?? undefined,
+      isActive: rule.isActive,
+      createdBy: rule.createdBy ?? undefined,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+
+  private mapToResponseDto(
+    lateFee: LateFee & {
+      tenant?: { firstName: string | null; lastName: string | null };
+    },
+  ): LateFeeResponseDto {
+    return {
+      id: lateFee.id,
+      ruleId: lateFee.ruleId,
+      tenantId: lateFee.tenantId,
+      tenantName: lateFee.tenant
+        ? [lateFee.tenant.firstName, lateFee.tenant.lastName]
+            .filter(Boolean)
+            .join(' ') || undefined
+        : undefined,
+      cooperativeId: lateFee.cooperativeId,
+      paymentTypeId: lateFee.paymentTypeId,
+      roomId: lateFee.roomId ?? undefined,
+      periodIdentifier: lateFee.periodIdentifier,
+      assessmentNumber: lateFee.assessmentNumber,
+      unpaidAmount: lateFee.unpaidAmount,
+      amount: lateFee.amount,
+      paidAmount: lateFee.paidAmount,
+      status: lateFee.status,
+      assessedAt: lateFee.assessedAt,
+      waivedBy: lateFee.waivedBy ?? undefined,
+      waivedAt: lateFee.waivedAt ?? undefined,
+      waiverReason: lateFee.waiverReason ?? undefined,
+      createdAt: lateFee.createdAt,
+    };
+  }
+}
@@ -0,0 +1,187 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PaymentGatewayRoute, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { PaymentGatewayFactory } from '../infrastructure/payment-gateway.factory';
+import { PaymentGatewayInterface } from '../infrastructure/payment-gateway.interface';
+import {
+  CreatePaymentGatewayRouteDto,
+  PaymentGatewayHealthDto,
+  PaymentGatewayRouteFilterDto,
+  PaymentGatewayRouteResponseDto,
+  UpdatePaymentGatewayRouteDto,
+} from '../presentation/dto/payment-gateway-route.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+
+@Injectable()
+export class PaymentGatewayRouteService {
+  private readonly logger = new Logger(PaymentGatewayRouteService.name);
+
+  constructor(
+    private prismaService: PrismaService,
+    private paymentGatewayFactory: PaymentGatewayFactory,
+  ) {}
+
+  async create(
+    createRouteDto: CreatePaymentGatewayRouteDto,
+    createdBy: string,
+  ): Promise<PaymentGatewayRouteResponseDto> {
+    let gateway: PaymentGatewayInterface;
+    try {
+      gateway = this.paymentGatewayFactory.getGatewayByProvider(
+        createRouteDto.provider,
+      );
+    } catch {
+      throw new BadRequestException(
+        `Payment provider ${createRouteDto.provider} is not configured`,
+      );
+    }
+
+    if (
+      createRouteDto.paymentMethod &&
+      !gateway.supportedMethods.includes(createRouteDto.paymentMethod)
+    ) {
+      throw new BadRequestException(
+        `${createRouteDto.provider} does not support ${createRouteDto.paymentMethod}`,
+      );
+    }
+
+    if (createRouteDto.cooperativeId) {
+      const cooperative = await this.prismaService.cooperative.findUnique({
+        where: { id: createRouteDto.cooperativeId },
+        select: { id: true },
+      });
+
+      if (!cooperative) {
+        throw new NotFoundException('Cooperative not found');
+      }
+    }
+
+    const cooperativeId = createRouteDto.cooperativeId ?? null;
+    const paymentMethod = createRouteDto.paymentMethod ?? null;
+
+    const existing = await this.prismaService.paymentGatewayRoute.findFirst({
+      where: {
+        cooperativeId,
+        paymentMethod,
+        provider: createRouteDto.provider,
+      },
+    });
+
+    if (existing) {
+      throw new BadRequestException(
+        'A route for this provider and scope already exists',
+      );
+    }
+
+    const route = await this.prismaService.paymentGatewayRoute.create({
+      data: {
+        cooperativeId,
+        paymentMethod,
+        provider: createRouteDto.provider,
+        priority: createRouteDto.priority ?? 0,
+        createdBy,
+      },
+    });
+
+    this.logger.log(
+      `Payment route ${route.id} created: ${cooperativeId ?? 'all cooperatives'} / ${paymentMethod ?? 'all methods'} -> ${route.provider}`,
+    );
+
+    return this.mapToResponseDto(route);
+  }
+
+  async findAll(
+    filterDto: PaymentGatewayRouteFilterDto,
+  ): Promise<PaginatedResponseDto<PaymentGatewayRouteResponseDto>> {
+    const { page, limit, cooperativeId, provider } = filterDto;
+    const skip = filterDto.skip;
+
+    const where: Prisma.PaymentGatewayRouteWhereInput = {};
+
+    if (cooperativeId) {
+      where.cooperativeId = cooperativeId;
+    }
+
+    if (provider) {
+      where.provider = provider;
+    }
+
+    const [routes, total] = await Promise.all([
+      this.prismaService.paymentGatewayRoute.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ cooperativeId: 'asc' }, { priority: 'asc' }],
+      }),
+      this.prismaService.paymentGatewayRoute.count({ where }),
+    ]);
+
+    return new PaginatedResponseDto(
+      routes.map((route) => this.mapToResponseDto(route)),
+      total,
+      page || 1,
+      limit || 10,
+    );
+  }
+
+  async update(
+    id: string,
+    updateRouteDto: UpdatePaymentGatewayRouteDto,
+  ): Promise<PaymentGatewayRouteResponseDto> {
+    await this.findRoute(id);
+
+    const route = await this.prismaService.paymentGatewayRoute.update({
+      where: { id },
+      data: updateRouteDto,
+    });
+
+    return this.mapToResponseDto(route);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.findRoute(id);
+
+    await this.prismaService.paymentGatewayRoute.delete({
+      where: { id },
+    });
+
+    this.logger.log(`Payment route ${id} deleted`);
+  }
+
+  getProviders(): PaymentGatewayHealthDto[] {
+    return this.paymentGatewayFactory.getProviderHealth();
+  }
+
+  private async findRoute(id: string): Promise<PaymentGatewayRoute> {
+    const route = await this.prismaService.paymentGatewayRoute.findUnique({
+      where: { id },
+    });
+
+    if (!route) {
+      throw new NotFoundException('Payment route not found');
+    }
+
+    return route;
+  }
+
+  private mapToResponseDto(
+    route: PaymentGatewayRoute,
+  ): PaymentGatewayRouteResponseDto {
+    return {
+      id: route.id,
+      cooperativeId: route.cooperativeId ?? undefined,
+      paymentMethod: route.paymentMethod ?? undefined,
+      provider: route.provider,
+      priority: route.priority,
+      isActive: route.isActive,
+      createdBy: route.createdBy ?? undefined,
+      createdAt: route.createdAt,
+      updatedAt: route.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,799 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  FeeBearer,
+  PaymentRefund,
+  PaymentStatus,
+  RefundStatus,
+  TransactionType,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ActivityService } from '../../activity/application/activity.service';
+import { NotificationService } from '../../notification/application/notification.service';
+import { PaymentGatewayFactory } from '../infrastructure/payment-gateway.factory';
+import { RefundPaymentDto } from '../presentation/dto/refund-payment.dto';
+import { BalanceService } from './balance.service';
+import { PaymentPeriodService } from './payment-period.service';
+import { PaymentService } from './payment.service';
+import { TenantWalletService } from './tenant-wallet.service';
+
+const COOPERATIVE_ID = '65f000000000000000000001';
+const UPDATED_AT = new Date('2026-03-01T10:00:00Z');
+
+type RefundWhere = {
+  id: string;
+  status?: RefundStatus | { in: RefundStatus[] };
+};
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+  let prisma: {
+    $transaction: jest.Mock;
+    payment: Record<
+      | 'findUnique'
+      | 'findUniqueOrThrow'
+      | 'findFirst'
+      | 'updateMany'
+      | 'update',
+      jest.Mock
+    >;
+    paymentRefund: Record<
+      | 'create'
+      | 'findUnique'
+      | 'findUniqueOrThrow'
+      | 'findMany'
+      | 'update'
+      | 'updateMany',
+      jest.Mock
+    >;
+    paymentAllocation: Record<'findMany' | 'update' | 'updateMany', jest.Mock>;
+    transaction: { create: jest.Mock };
+  };
+  // Refund rows as the database holds them, rolled back with failed transactions
+  let refunds: Map<string, PaymentRefund>;
+  let gateway: { refundPayment: jest.Mock; getRefundStatus: jest.Mock };
+  let balanceService: Record<
+    | 'getLegacyBaseAmount'
+    | 'holdRefundFunds'
+    | 'releaseRefundFunds'
+    | 'reversePaymentSettlement'
+    | 'processPaymentSettlement',
+    jest.Mock
+  >;
+  let tenantWalletService: Record<'reverseForRefund' | 'syncTenant', jest.Mock>;
+
+  const completedPayment = (overrides: Record<string, unknown> = {}) => ({
+    id: 'payment-1',
+    status: PaymentStatus.COMPLETED,
+    amount: 10300,
+    baseAmount: 10000,
+    fee: 300,
+    feeBearer: FeeBearer.TENANT,
+    feeRefunded: false,
+    refundedAmount: 0,
+    totalPaid: 10300,
+    cooperativeId: COOPERATIVE_ID,
+    cooperativeBalanceUpdated: true,
+    isGroupPayment: false,
+    paymentMethod: 'MOBILE_MONEY_MTN',
+    invoiceNumber: 'INV-1',
+    senderId: 'tenant-1',
+    sender: null,
+    updatedAt: UPDATED_AT,
+    ...overrides,
+  });
+
+  const storedRefund = (overrides: Partial<PaymentRefund> = {}) => {
+    const row = {
+      id: 'refund-1',
+      paymentId: 'payment-1',
+      cooperativeId: COOPERATIVE_ID,
+      reference: 'REFUND_payment-1_1',
+      amount: 10000,
+      feeAmount: 0,
+      cooperativeAmount: 10000,
+      totalAmount: 10000,
+      fundsHeld: true,
+      isFullRefund: true,
+      allocationUpdates: null,
+      reason: 'Duplicate payment',
+      requestedBy: 'admin-1',
+      status: RefundStatus.UNKNOWN,
+      gatewayRefundReference: null,
+      gatewayData: null,
+      failureReason: null,
+      resolveAttempts: 0,
+      sentAt: null,
+      completedAt: null,
+      createdAt: UPDATED_AT,
+      updatedAt: UPDATED_AT,
+      ...overrides,
+    } as PaymentRefund;
+    refunds.set(row.id, row);
+    return row;
+  };
+
+  const matches = (row: PaymentRefund, where: RefundWhere) =>
+    row.id === where.id &&
+    (where.status === undefined ||
+      (typeof where.status === 'string'
+        ? row.status === where.status
+        : where.status.in.includes(row.status)));
+
+  const applyRefundUpdate = (
+    row: PaymentRefund,
+    data: Record<string, unknown>,
+  ) => {
+    for (const [key, value] of Object.entries(data)) {
+      const increment = (value as { increment?: number } | null)?.increment;
+      Object.assign(row, {
+        [key]:
+          increment === undefined
+            ? value
+            : (row[key as keyof PaymentRefund] as number) + increment,
+      });
+    }
+    return row;
+  };
+
+  const refund = (
+    dto: Partial<RefundPaymentDto> = {},
+    role: UserRole = UserRole.ORGANIZATION_ADMIN,
+  ) =>
+    service.refundPayment(
+      'payment-1',
+      { reason: 'Duplicate payment', ...dto },
+      'admin-1',
+      COOPERATIVE_ID,
+      role,
+    );
+
+  beforeEach(async () => {
+    prisma = {
+      $transaction: jest.fn(),
+      payment: {
+        findUnique: jest.fn().mockResolvedValue(completedPayment()),
+        findUniqueOrThrow: jest.fn().mockResolvedValue(completedPayment()),
+        findFirst: jest.fn().mockResolvedValue(completedPayment()),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn().mockResolvedValue(completedPayment()),
+      },
+      paymentRefund: {
+        create: jest.fn(({ data }: { data: Partial<PaymentRefund> }) =>
+          Promise.resolve(
+            storedRefund({ ...data, status: RefundStatus.PENDING }),
+          ),
+        ),
+        findUnique: jest.fn(({ where }: { where: { id: string } }) =>
+          Promise.resolve(refunds.get(where.id) ?? null),
+        ),
+        findUniqueOrThrow: jest.fn(({ where }: { where: { id: string } }) =>
+          Promise.resolve({ ...refunds.get(where.id) }),
+        ),
+        findMany: jest.fn(() =>
+          Promise.resolve([...refunds.values()].map((row) => ({ ...row }))),
+        ),
+        update: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { id: string };
+            data: Record<string, unknown>;
+          }) =>
+            Promise.resolve(applyRefundUpdate(refunds.get(where.id)!, data)),
+        ),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: RefundWhere;
+            data: Record<string, unknown>;
+          }) => {
+            const row = refunds.get(where.id);
+            if (!row || !matches(row, where)) {
+              return Promise.resolve({ count: 0 });
+            }
+            applyRefundUpdate(row, data);
+            return Promise.resolve({ count: 1 });
+          },
+        ),
+      },
+      paymentAllocation: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn().mockResolvedValue({}),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+      transaction: { create: jest.fn().mockResolvedValue({}) },
+    };
+    refunds = new Map();
+    prisma.$transaction.mockImplementation(
+      async (callback: (tx: typeof prisma) => Promise<unknown>) => {
+        const snapshot = new Map(
+          [...refunds].map(([id, row]) => [id, { ...row }]),
+        );
+        try {
+          return await callback(prisma);
+        } catch (error) {
+          refunds = snapshot;
+          throw error;
+        }
+      },
+    );
+    gateway = {
+      refundPayment: jest
+        .fn()
+        .mockResolvedValue({ success: true, refundReference: 'GW-REFUND-1' }),
+      getRefundStatus: jest.fn(),
+    };
+    balanceService = {
+      getLegacyBaseAmount: jest.fn(
+        ({ baseAmount }: { baseAmount: number }) => baseAmount,
+      ),
+      holdRefundFunds: jest.fn().mockResolvedValue(true),
+      releaseRefundFunds: jest.fn().mockResolvedValue(undefined),
+      reversePaymentSettlement: jest.fn().mockResolvedValue(undefined),
+      processPaymentSettlement: jest.fn().mockResolvedValue(undefined),
+    };
+    tenantWalletService = {
+      reverseForRefund: jest.fn().mockResolvedValue(undefined),
+      syncTenant: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: CACHE_MANAGER, useValue: {} },
+        {
+          provide: PaymentGatewayFactory,
+          useValue: { getGatewayForPayment: () => gateway },
+        },
+        {
+          provide: ActivityService,
+          useValue: {
+            logPaymentRefunded: jest.fn().mockResolvedValue({}),
+            logPaymentCompleted: jest.fn().mockResolvedValue({}),
+          },
+        },
+        { provide: NotificationService, useValue: {} },
+        { provide: PaymentPeriodService, useValue: {} },
+        { provide: BalanceService, useValue: balanceService },
+        { provide: TenantWalletService, useValue: tenantWalletService },
+      ],
+    }).compile();
+
+    service = module.get(PaymentService);
+    jest.spyOn(service, 'findById').mockResolvedValue({} as never);
+  });
+
+  describe('refundPayment', () => {
+    it('marks a fully refunded payment REFUNDED before calling the gateway', async () => {
+      await refund();
+
+      expect(prisma.payment.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'payment-1',
+          status: PaymentStatus.COMPLETED,
+          updatedAt: UPDATED_AT,
+        },
+        data: { refundedAmount: 10000, status: PaymentStatus.REFUNDED },
+      });
+      expect(gateway.refundPayment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          gatewayTransactionId: 'INV-1',
+          amount: 10000,
+          originalAmount: 10300,
+        }),
+      );
+      expect(
+        prisma.payment.updateMany.mock.invocationCallOrder[0],
+      ).toBeLessThan(gateway.refundPayment.mock.invocationCallOrder[0]);
+      expect(balanceService.reversePaymentSettlement).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'payment-1' }),
+        10000,
+        expect.objectContaining({ includeFee: false, fundsHeld: true }),
+        prisma,
+      );
+      expect([...refunds.values()]).toEqual([
+        expect.objectContaining({
+          status: RefundStatus.COMPLETED,
+          gatewayRefundReference: 'GW-REFUND-1',
+        }),
+      ]);
+      expect(tenantWalletService.reverseForRefund).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'payment-1' }),
+        10000,
+        prisma,
+      );
+      const [{ data }] = prisma.transaction.create.mock.calls[0] as [
+        { data: Record<string, unknown> },
+      ];
+      expect(data).toMatchObject({
+        amount: 10000,
+        type: TransactionType.REFUND,
+        metadata: { fullRefund: true, gatewayRefundReference: 'GW-REFUND-1' },
+      });
+    });
+
+    it('keeps a partially refunded payment COMPLETED', async () => {
+      await refund({ amount: 4000 });
+
+      expect(prisma.payment.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { refundedAmount: 4000 } }),
+      );
+      expect(balanceService.reversePaymentSettlement).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'payment-1' }),
+        4000,
+        expect.anything(),
+        prisma,
+      );
+    });
+
+    it('refunds the rest of a partially refunded payment', async () => {
+      prisma.payment.findUnique.mockResolvedValue(
+        completedPayment({ refundedAmount: 4000 }),
+      );
+
+      await refund();
+
+      expect(prisma.payment.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { refundedAmount: 10000, status: PaymentStatus.REFUNDED },
+        }),
+      );
+      expect(gateway.refundPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 6000 }),
+      );
+    });
+
+    it('adds the fee for super admins and marks it refunded', async () => {
+      await refund({ refundFee: true }, UserRole.SUPER_ADMIN);
+
+      expect(prisma.payment.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            refundedAmount: 10000,
+            feeRefunded: true,
+            status: PaymentStatus.REFUNDED,
+          },
+        }),
+      );
+      expect(gateway.refundPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 10300 }),
+      );
+      expect(balanceService.reversePaymentSettlement).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'payment-1' }),
+        10000,
+        expect.objectContaining({ includeFee: true }),
+        prisma,
+      );
+    });
+
+    it('only lets super admins refund the fee', async () => {
+      await expect(refund({ refundFee: true })).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it.each([
+      [PaymentStatus.REFUNDED, 'Payment has already been fully refunded'],
+      [PaymentStatus.PENDING, 'Only completed payments can be refunded'],
+      [PaymentStatus.FAILED, 'Only completed payments can be refunded'],
+    ])('refuses %s payments', async (status, message) => {
+      prisma.payment.findUnique.mockResolvedValue(completedPayment({ status }));
+
+      await expect(refund()).rejects.toThrow(new BadRequestException(message));
+      expect(prisma.payment.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses more than is left to refund', async () => {
+      prisma.payment.findUnique.mockResolvedValue(
+        completedPayment({ refundedAmount: 8000 }),
+      );
+
+      await expect(refund({ amount: 3000 })).rejects.toThrow(
+        'Refund amount cannot exceed the refundable amount of 2000 RWF',
+      );
+      expect(gateway.refundPayment).not.toHaveBeenCalled();
+    });
+
+    it('does not call the gateway when another refund changed the payment', async () => {
+      prisma.payment.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(refund()).rejects.toThrow(ConflictException);
+      expect(gateway.refundPayment).not.toHaveBeenCalled();
+    });
+
+    it('holds the cooperative funds and persists the refund with the reservation', async () => {
+      await refund({ amount: 4000 });
+
+      expect(balanceService.holdRefundFunds).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'payment-1' }),
+        4000,
+        expect.stringMatching(/^REFUND_payment-1_/),
+        prisma,
+      );
+      const [{ data }] = prisma.paymentRefund.create.mock.calls[0] as [
+        { data: Record<string, unknown> },
+      ];
+      expect(data).toMatchObject({
+        amount: 4000,
+        cooperativeAmount: 4000,
+        totalAmount: 4000,
+        fundsHeld: true,
+        isFullRefund: false,
+        requestedBy: 'admin-1',
+      });
+      expect(
+        prisma.paymentRefund.create.mock.invocationCallOrder[0],
+      ).toBeLessThan(gateway.refundPayment.mock.invocationCallOrder[0]);
+    });
+
+    it('does not call the gateway when the cooperative cannot cover the refund', async () => {
+      balanceService.holdRefundFunds.mockRejectedValue(
+        new BadRequestException(
+          'Insufficient cooperative balance to refund this payment',
+        ),
+      );
+
+      await expect(refund()).rejects.toThrow(
+        'Insufficient cooperative balance to refund this payment',
+      );
+      expect(gateway.refundPayment).not.toHaveBeenCalled();
+      expect(refunds.size).toBe(0);
+    });
+
+    it('releases the reservation and held funds when the gateway refuses the refund', async () => {
+      gateway.refundPayment.mockResolvedValue({
+        success: false,
+        message: 'Insufficient float',
+      });
+
+      await expect(refund()).rejects.toThrow(
+        'Refund failed: Insufficient float',
+      );
+      expect(prisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 'payment-1' },
+        data: {
+          refundedAmount: { decrement: 10000 },
+          status: PaymentStatus.COMPLETED,
+        },
+      });
+      expect(balanceService.releaseRefundFunds).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'payment-1' }),
+        10000,
+        expect.stringMatching(/^REFUND_payment-1_/),
+        prisma,
+      );
+      expect([...refunds.values()]).toEqual([
+        expect.objectContaining({
+          status: RefundStatus.FAILED,
+          failureReason: 'Insufficient float',
+        }),
+      ]);
+      expect(balanceService.reversePaymentSettlement).not.toHaveBeenCalled();
+    });
+
+    it('keeps the reservation as UNKNOWN when the gateway call throws', async () => {
+      gateway.refundPayment.mockRejectedValue(new Error('timeout'));
+
+      await expect(refund()).rejects.toThrow(BadGatewayException);
+      expect([...refunds.values()]).toEqual([
+        expect.objectContaining({
+          status: RefundStatus.UNKNOWN,
+          failureReason: 'timeout',
+        }),
+      ]);
+      expect(prisma.payment.update).not.toHaveBeenCalled();
+      expect(balanceService.releaseRefundFunds).not.toHaveBeenCalled();
+      expect(prisma.transaction.create).not.toHaveBeenCalled();
+    });
+
+    it('leaves a refund that was sent but not recorded SENT', async () => {
+      balanceService.reversePaymentSettlement.mockRejectedValue(
+        new Error('write conflict'),
+      );
+
+      await expect(refund()).rejects.toThrow('write conflict');
+      expect([...refunds.values()]).toEqual([
+        expect.objectContaining({
+          status: RefundStatus.SENT,
+          gatewayRefundReference: 'GW-REFUND-1',
+        }),
+      ]);
+      expect(balanceService.releaseRefundFunds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolvePendingRefunds', () => {
+    it('posts a refund the gateway sent, only once', async () => {
+      storedRefund({ status: RefundStatus.SENT });
+      const staleRows = [{ ...refunds.get('refund-1')! }];
+      prisma.paymentRefund.findMany.mockResolvedValue(staleRows);
+
+      await expect(service.resolvePendingRefunds()).resolves.toEqual({
+        recorded: 1,
+        failed: 0,
+        pending: 0,
+      });
+      await expect(service.resolvePendingRefunds()).resolves.toEqual({
+        recorded: 0,
+        failed: 0,
+        pending: 1,
+      });
+
+      expect(refunds.get('refund-1')).toMatchObject({
+        status: RefundStatus.COMPLETED,
+        resolveAttempts: 2,
+      });
+      expect(balanceService.reversePaymentSettlement).toHaveBeenCalledTimes(1);
+      expect(prisma.transaction.create).toHaveBeenCalledTimes(1);
+      expect(gateway.getRefundStatus).not.toHaveBeenCalled();
+    });
+
+    it('records an unanswered refund the gateway reports completed', async () => {
+      storedRefund();
+      gateway.getRefundStatus.mockResolvedValue({
+        reference: 'REFUND_payment-1_1',
+        status: 'completed',
+        refundReference: 'GW-REFUND-9',
+      });
+
+      await expect(service.resolvePendingRefunds()).resolves.toMatchObject({
+        recorded: 1,
+      });
+
+      expect(gateway.getRefundStatus).toHaveBeenCalledWith(
+        'INV-1',
+        'REFUND_payment-1_1',
+      );
+      expect(refunds.get('refund-1')).toMatchObject({
+        status: RefundStatus.COMPLETED,
+        gatewayRefundReference: 'GW-REFUND-9',
+      });
+      const [{ data }] = prisma.transaction.create.mock.calls[0] as [
+        { data: Record<string, unknown> },
+      ];
+      expect(data).toMatchObject({
+        amount: 10000,
+        reference: 'REFUND_payment-1_1',
+        metadata: { refundedBy: 'admin-1' },
+      });
+    });
+
+    it.each(['failed', 'not_found'])(
+      'releases an unanswered refund the gateway reports %s',
+      async (status) => {
+        storedRefund();
+        gateway.getRefundStatus.mockResolvedValue({
+          reference: 'REFUND_payment-1_1',
+          status,
+        });
+
+        await expect(service.resolvePendingRefunds()).resolves.toMatchObject({
+          failed: 1,
+        });
+
+        expect(refunds.get('refund-1')?.status).toBe(RefundStatus.FAILED);
+        expect(prisma.payment.update).toHaveBeenCalledWith(
+          expect.objectContaining({
+            data: {
+              refundedAmount: { decrement: 10000 },
+              status: PaymentStatus.COMPLETED,
+            },
+          }),
+        );
+        expect(balanceService.releaseRefundFunds).toHaveBeenCalledTimes(1);
+      },
+    );
+
+    it('keeps the reservation while the gateway still reports the refund pending', async () => {
+      storedRefund();
+      gateway.getRefundStatus.mockResolvedValue({
+        reference: 'REFUND_payment-1_1',
+        status: 'pending',
+      });
+
+      await expect(service.resolvePendingRefunds()).resolves.toMatchObject({
+        pending: 1,
+      });
+
+      expect(refunds.get('refund-1')).toMatchObject({
+        status: RefundStatus.UNKNOWN,
+        resolveAttempts: 1,
+      });
+      expect(prisma.payment.update).not.toHaveBeenCalled();
+      expect(balanceService.releaseRefundFunds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveRefundManually', () => {
+    it('releases a refund the provider never sent', async () => {
+      storedRefund();
+
+      await service.resolveRefundManually(
+        'refund-1',
+        { sent: false, note: 'Not in the Airtel Money portal' },
+        'super-admin-1',
+      );
+
+      expect(refunds.get('refund-1')).toMatchObject({
+        status: RefundStatus.FAILED,
+        failureReason: 'Not in the Airtel Money portal',
+      });
+      expect(balanceService.releaseRefundFunds).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses refunds that are already settled', async () => {
+      storedRefund({ status: RefundStatus.COMPLETED });
+
+      await expect(
+        service.resolveRefundManually(
+          'refund-1',
+          { sent: false, note: 'Checked' },
+          'super-admin-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(balanceService.releaseRefundFunds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('group payments', () => {
+    const allocation = (
+      id: string,
+      amount: number,
+      overrides: Record<string, unknown> = {},
+    ) => ({
+      id,
+      paymentId: 'payment-1',
+      tenantId: `tenant-of-${id}`,
+      amount,
+      refundedAmount: 0,
+      status: PaymentStatus.COMPLETED,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      prisma.payment.findUnique.mockResolvedValue(
+        completedPayment({ isGroupPayment: true }),
+      );
+      prisma.paymentAllocation.findMany.mockResolvedValue([
+        allocation('allocation-1', 6000),
+        allocation('allocation-2', 4000),
+      ]);
+    });
+
+    const allocationUpdates = () =>
+      prisma.paymentAllocation.update.mock.calls.map(
+        ([{ where, data }]: [
+          { where: { id: string }; data: Record<string, unknown> },
+        ]) => ({ id: where.id, ...data }),
+      );
+
+    it('refunds every allocation with a full refund', async () => {
+      await refund();
+
+      expect(allocationUpdates()).toEqual([
+        {
+          id: 'allocation-1',
+          refundedAmount: 6000,
+          status: PaymentStatus.REFUNDED,
+        },
+        {
+          id: 'allocation-2',
+          refundedAmount: 4000,
+          status: PaymentStatus.REFUNDED,
+        },
+      ]);
+    });
+
+    it('takes a partial refund out of the allocation it names', async () => {
+      await refund({ amount: 2000, allocationId: 'allocation-1' });
+
+      expect(allocationUpdates()).toEqual([
+        {
+          id: 'allocation-1',
+          refundedAmount: 2000,
+          status: PaymentStatus.COMPLETED,
+        },
+      ]);
+    });
+
+    it('marks an allocation REFUNDED once all of it is refunded', async () => {
+      prisma.payment.findUnique.mockResolvedValue(
+        completedPayment({ isGroupPayment: true, refundedAmount: 4000 }),
+      );
+      prisma.paymentAllocation.findMany.mockResolvedValue([
+        allocation('allocation-1', 6000, { refundedAmount: 4000 }),
+        allocation('allocation-2', 4000),
+      ]);
+
+      await refund({ amount: 2000, allocationId: 'allocation-1' });
+
+      expect(allocationUpdates()).toEqual([
+        {
+          id: 'allocation-1',
+          refundedAmount: 6000,
+          status: PaymentStatus.REFUNDED,
+        },
+      ]);
+    });
+
+    it.each([
+      [
+        'without an allocation',
+        { amount: 2000 },
+        'allocationId is required for a partial refund of a group payment',
+      ],
+      [
+        'over what is left on the allocation',
+        { amount: 5000, allocationId: 'allocation-2' },
+        'Refund amount cannot exceed the 4000 RWF left on this allocation',
+      ],
+    ])('refuses a partial refund %s', async (_name, dto, message) => {
+      await expect(refund(dto)).rejects.toThrow(message);
+
+      expect(prisma.payment.updateMany).not.toHaveBeenCalled();
+      expect(gateway.refundPayment).not.toHaveBeenCalled();
+    });
+
+    it('refuses allocations on a payment for one tenant', async () => {
+      prisma.payment.findUnique.mockResolvedValue(completedPayment());
+
+      await expect(
+        refund({ amount: 2000, allocationId: 'allocation-1' }),
+      ).rejects.toThrow('allocationId only applies to group payments');
+    });
+
+    it('completes the allocations in the transaction that completes the payment', async () => {
+      const txUpdateMany = jest.fn().mockResolvedValue({ count: 2 });
+      prisma.payment.findFirst.mockResolvedValue(
+        completedPayment({
+          status: PaymentStatus.PENDING,
+          isGroupPayment: true,
+          paidAt: null,
+        }),
+      );
+      prisma.$transaction.mockImplementationOnce(
+        (callback: (tx: typeof prisma) => Promise<unknown>) =>
+          callback({
+            ...prisma,
+            paymentAllocation: {
+              ...prisma.paymentAllocation,
+              updateMany: txUpdateMany,
+            },
+          }),
+      );
+
+      await service.handleIremboPayWebhook(
+        'INV-1',
+        {
+          gatewayTransactionId: 'GW-1',
+          status: PaymentStatus.COMPLETED,
+          gatewayData: { paymentStatus: 'PAID' },
+        },
+        10300,
+        '2026-03-01T09:00:00Z',
+      );
+
+      expect(txUpdateMany).toHaveBeenCalledWith({
+        where: { paymentId: 'payment-1' },
+        data: {
+          status: PaymentStatus.COMPLETED,
+          paidAt: new Date('2026-03-01T09:00:00Z'),
+        },
+      });
+      expect(prisma.paymentAllocation.updateMany).not.toHaveBeenCalled();
+      expect(tenantWalletService.syncTenant).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -2,6 +2,9 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  BadGatewayException,
   Inject,
   Logger,
 } from '@nestjs/common';
@@ -10,21 +13,62 @@ import { Cache } from 'cache-manager';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { InitiatePaymentDto } from '../presentation/dto/initiate-payment.dto';
-import { PaymentResponseDto } from '../presentation/dto/payment-response.dto';
+import {
+  InitiateGroupPaymentDto,
+  GroupPaymentAllocationDto,
+} from '../presentation/dto/initiate-group-payment.dto';
+import {
+  PaymentAllocationResponseDto,
+  PaymentResponseDto,
+} from '../presentation/dto/payment-response.dto';
 import { PaymentSearchDto } from '../presentation/dto/payment-search.dto';
 import { PaymentWebhookDto } from '../presentation/dto/payment-webhook.dto';
+import {
+  RefundPaymentDto,
+  ResolveRefundDto,
+} from '../presentation/dto/refund-payment.dto';
 import { PaginationDto } from '../../../shared/dto/pagination.dto';
 import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
-import { PaymentStatus, PaymentAmountType, UserRole } from '@prisma/client';
+import {
+  FeeBearer,
+  Language,
+  NotificationType,
+  PaymentAllocation,
+  PaymentGatewayProvider,
+  PaymentRefund,
+  PaymentStatus,
+  PaymentAmountType,
+  Prisma,
+  RefundStatus,
+  TransactionType,
+  UserRole,
+} from '@prisma/client';
 import { PaymentGatewayFactory } from '../infrastructure/payment-gateway.factory';
+import {
+  PaymentGatewayRefundResponse,
+  PaymentGatewayStatus,
+} from '../infrastructure/payment-gateway.interface';
 import { ActivityService } from '../../activity/application/activity.service';
 import { NotificationService } from '../../notification/application/notification.service';
-import { SmsService } from '../../sms/application/sms.service';
 import {
   PaymentPeriodService,
   PaymentFrequency,
 } from './payment-period.service';
 import { BalanceService } from './balance.service';
+import { TenantWalletService } from './tenant-wallet.service';
+import { DEFAULT_PAYMENT_FEE } from './fee-policy.service';
+import { getLocale, translate } from '../../../shared/i18n/messages';
+
+// A refund still PENDING after this long lost its request before the gateway
+// answered
+const REFUND_PENDING_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Group payment share updates a refund applies once it is recorded
+type AllocationRefund = {
+  id: string;
+  refundedAmount: number;
+  status: PaymentStatus;
+};
 
 @Injectable()
 export class PaymentService {
@@ -36,9 +80,9 @@ export class PaymentService {
     private paymentGatewayFactory: PaymentGatewayFactory,
     private activityService: ActivityService,
     private notificationService: NotificationService,
-    private smsService: SmsService,
     private paymentPeriodService: PaymentPeriodService,
     private balanceService: BalanceService,
+    private tenantWalletService: TenantWalletService,
   ) {}
 
   async initiatePayment(
@@ -116,16 +160,29 @@ export class PaymentService {
       );
     }
 
+    if (initiatePaymentDto.periods && !paymentType.isRecurring) {
+      throw new BadRequestException(
+        'Several periods can only be paid at once for recurring payment types',
+      );
+    }
+
     // Check billing period restrictions - prevent multiple payments within the same billing cycle
-    await this.validateBillingPeriodRestrictions(
-      senderId,
-      cooperativeId,
-      initiatePaymentDto.paymentTypeId,
-      cooperative,
-    );
+    // Payments for upcoming periods go to the tenant wallet instead
+    if (!initiatePaymentDto.periods) {
+      await this.validateBillingPeriodRestrictions(
+        senderId,
+        cooperativeId,
+        initiatePaymentDto.paymentTypeId,
+        cooperative,
+      );
+    }
 
     // Validate payment amount based on payment type rules
-    await this.validatePaymentAmount(initiatePaymentDto.amount, paymentType);
+    await this.validatePaymentAmount(
+      initiatePaymentDto.amount,
+      paymentType,
+      initiatePaymentDto.periods,
+    );
 
     // Check for existing active payments of the same type (Task 1: One Active Payment per Type)
     const existingActivePayment = await this.prismaService.payment.findFirst({
@@ -153,8 +210,9 @@ export class PaymentService {
     }
 
     // Calculate payment amounts with fee
-    const paymentCalculation = this.balanceService.calculateTotalAmount(
+    const paymentCalculation = await this.balanceService.calculateTotalAmount(
       initiatePaymentDto.amount,
+      { cooperativeId, paymentMethod: initiatePaymentDto.paymentMethod },
     );
 
     this.logger.log(`Payment calculation for ${initiatePaymentDto.amount} RWF:`);
@@ -169,6 +227,8 @@ export class PaymentService {
         fee: paymentCalculation.fee,
         amount: paymentCalculation.totalPaid, // For backward compatibility
         totalPaid: paymentCalculation.totalPaid,
+        feeBearer: paymentCalculation.feeBearer,
+        feePolicyId: paymentCalculation.feePolicyId,
         status: PaymentStatus.PENDING,
         description: initiatePaymentDto.description,
         dueDate: initiatePaymentDto.dueDate
@@ -211,14 +271,15 @@ export class PaymentService {
     });
 
     try {
-      const gateway = this.paymentGatewayFactory.getGateway(
-        initiatePaymentDto.paymentMethod,
-      );
-
       // Get user data for invoice creation
       const sender = await this.prismaService.user.findUnique({
         where: { id: senderId },
-        select: { firstName: true, lastName: true, email: true },
+        select: {
+          firstName: true,
+          lastName: true,
+          email: true,
+          preferredLanguage: true,
+        },
       });
 
       // Prepare gateway request
@@ -237,10 +298,15 @@ export class PaymentService {
         customerName: sender
           ? `${sender.firstName} ${sender.lastName}`.trim()
           : undefined,
+        language: sender?.preferredLanguage ?? undefined,
       };
 
-      // Initiate payment with gateway
-      const gatewayResponse = await gateway.initiatePayment(gatewayRequest);
+      // Initiate payment with the routed provider, failing over if it errors
+      const { provider, response: gatewayResponse } =
+        await this.paymentGatewayFactory.initiatePayment(
+          gatewayRequest,
+          cooperativeId,
+        );
 
       // Use idempotency key as fallback if gateway transaction ID is not available
       const transactionId =
@@ -334,7 +400,8 @@ export class PaymentService {
         where: { id: payment.id },
         data: {
           paymentReference: gatewayResponse.gatewayReference || payment.id,
-          invoiceNumber: invoiceNumber, // Save actual invoice number from IremboPay or null
+          invoiceNumber: invoiceNumber, // Save actual invoice number from the gateway or null
+          gatewayProvider: provider,
           status: gatewayResponse.success
             ? PaymentStatus.PENDING
             : PaymentStatus.FAILED,
@@ -374,12 +441,11 @@ export class PaymentService {
 
       // Add gateway-specific information to response
       if (gatewayResponse.paymentUrl) {
-        (responseDto as any).paymentUrl = gatewayResponse.paymentUrl;
+        responseDto.paymentUrl = gatewayResponse.paymentUrl;
       }
 
-      (responseDto as any).gatewayMessage = gatewayResponse.message;
-      (responseDto as any).gatewayTransactionId =
-        gatewayResponse.gatewayTransactionId;
+      responseDto.gatewayMessage = gatewayResponse.message;
+      responseDto.gatewayTransactionId = gatewayResponse.gatewayTransactionId;
 
       // The invoice number is now always included in the responseDto from mapToResponseDto
       // since we always generate one during payment update
@@ -398,6 +464,251 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Initiate a single payment that settles rent for several tenants or rooms
+   * The payer gets one invoice; each tenant gets an allocation that counts as paid on settlement
+   */
+  async initiateGroupPayment(
+    initiateGroupPaymentDto: InitiateGroupPaymentDto,
+    payerId: string,
+    targetCooperativeId?: string,
+  ): Promise<PaymentResponseDto> {
+    const paymentType = await this.prismaService.paymentType.findUnique({
+      where: { id: initiateGroupPaymentDto.paymentTypeId },
+    });
+
+    if (!paymentType) {
+      throw new NotFoundException('Payment type not found');
+    }
+
+    if (!paymentType.isActive) {
+      throw new BadRequestException('Payment type is not active');
+    }
+
+    const cooperativeId = targetCooperativeId || paymentType.cooperativeId;
+
+    const existingPayment = await this.prismaService.payment.findFirst({
+      where: {
+        idempotencyKey: initiateGroupPaymentDto.idempotencyKey,
+      },
+    });
+
+    if (existingPayment) {
+      return this.findById(existingPayment.id, payerId, cooperativeId);
+    }
+
+    const cooperative = await this.prismaService.cooperative.findUnique({
+      where: { id: cooperativeId },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        paymentFrequency: true,
+        billingDayOfMonth: true,
+        billingDayOfYear: true,
+      },
+    });
+
+    if (!cooperative || cooperative.status !== 'ACTIVE') {
+      throw new BadRequestException(
+        'Cooperative is not available for payments',
+      );
+    }
+
+    if (paymentType.cooperativeId !== cooperativeId) {
+      throw new BadRequestException(
+        'Payment type does not belong to the specified cooperative',
+      );
+    }
+
+    const allocations = await this.resolveGroupPaymentAllocations(
+      initiateGroupPaymentDto.allocations,
+      cooperativeId,
+    );
+
+    for (const allocation of allocations) {
+      await this.validatePaymentAmount(allocation.amount, paymentType);
+
+      const pendingAllocation =
+        await this.prismaService.paymentAllocation.findFirst({
+          where: {
+            tenantId: allocation.tenantId,
+            cooperativeId,
+            paymentTypeId: paymentType.id,
+            status: {
+              in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING],
+            },
+          },
+        });
+
+      if (pendingAllocation) {
+        throw new BadRequestException(
+          `${allocation.tenantName} already has a pending ${paymentType.name} group payment`,
+        );
+      }
+
+      try {
+        await this.validateBillingPeriodRestrictions(
+          allocation.tenantId,
+          cooperativeId,
+          paymentType.id,
+          cooperative,
+        );
+      } catch (error) {
+        if (error instanceof BadRequestException) {
+          throw new BadRequestException(
+            `${allocation.tenantName}: ${error.message}`,
+          );
+        }
+        throw error;
+      }
+    }
+
+    const baseAmount = allocations.reduce(
+      (total, allocation) => total + allocation.amount,
+      0,
+    );
+    const paymentCalculation = await this.balanceService.calculateTotalAmount(
+      baseAmount,
+      { cooperativeId, paymentMethod: initiateGroupPaymentDto.paymentMethod },
+    );
+
+    const payment = await this.prismaService.payment.create({
+      data: {
+        baseAmount: paymentCalculation.baseAmount,
+        fee: paymentCalculation.fee,
+        amount: paymentCalculation.totalPaid,
+        totalPaid: paymentCalculation.totalPaid,
+        feeBearer: paymentCalculation.feeBearer,
+        feePolicyId: paymentCalculation.feePolicyId,
+        status: PaymentStatus.PENDING,
+        description: initiateGroupPaymentDto.description,
+        paymentTypeId: paymentType.id,
+        paymentMethod: initiateGroupPaymentDto.paymentMethod,
+        paymentReference: null,
+        idempotencyKey: initiateGroupPaymentDto.idempotencyKey,
+        cooperativeId,
+        senderId: payerId,
+        isGroupPayment: true,
+        groupPaymentData: {
+          allocationCount: allocations.length,
+          tenantIds: allocations.map((allocation) => allocation.tenantId),
+        },
+        cooperativeBalanceUpdated: false,
+        feeBalanceUpdated: false,
+        allocations: {
+          create: allocations.map((allocation) => ({
+            tenantId: allocation.tenantId,
+            roomId: allocation.roomId,
+            cooperativeId,
+            paymentTypeId: paymentType.id,
+            amount: allocation.amount,
+            status: PaymentStatus.PENDING,
+          })),
+        },
+      },
+    });
+
+    this.logger.log(
+      `Group payment ${payment.id} created for ${allocations.length} tenants - Total: ${paymentCalculation.totalPaid} RWF`,
+    );
+
+    try {
+      const payer = await this.prismaService.user.findUnique({
+        where: { id: payerId },
+        select: {
+          firstName: true,
+          lastName: true,
+          email: true,
+          preferredLanguage: true,
+        },
+      });
+
+      const { provider, response: gatewayResponse } =
+        await this.paymentGatewayFactory.initiatePayment(
+          {
+            amount: paymentCalculation.totalPaid,
+            currency: 'RWF',
+            paymentMethod: initiateGroupPaymentDto.paymentMethod,
+            paymentAccount: initiateGroupPaymentDto.paymentAccount,
+            reference: payment.id,
+            description:
+              initiateGroupPaymentDto.description ||
+              `${paymentType.name} for ${allocations.length} tenants`,
+            callbackUrl: `${process.env.API_BASE_URL}/api/v1/webhooks/payments/irembopay`,
+            email: payer?.email || undefined,
+            customerName: payer
+              ? `${payer.firstName} ${payer.lastName}`.trim()
+              : undefined,
+            language: payer?.preferredLanguage ?? undefined,
+          },
+          cooperativeId,
+        );
+
+      const status = gatewayResponse.success
+        ? PaymentStatus.PENDING
+        : PaymentStatus.FAILED;
+
+      await this.prismaService.paymentTransaction.create({
+        data: {
+          paymentId: payment.id,
+          amount: paymentCalculation.totalPaid,
+          status,
+          paymentMethod: initiateGroupPaymentDto.paymentMethod,
+          gatewayTransactionId:
+            gatewayResponse.gatewayTransactionId ||
+            `fallback_${initiateGroupPaymentDto.idempotencyKey}`,
+          gatewayReference: gatewayResponse.gatewayReference,
+          gatewayResponse: gatewayResponse.data,
+          idempotencyKey: `tx_${initiateGroupPaymentDto.idempotencyKey}`,
+          cooperativeId,
+        },
+      });
+
+      await this.prismaService.payment.update({
+        where: { id: payment.id },
+        data: {
+          paymentReference: gatewayResponse.gatewayReference || payment.id,
+          invoiceNumber:
+            gatewayResponse.success && gatewayResponse.gatewayReference
+              ? gatewayResponse.gatewayReference
+              : null,
+          gatewayProvider: provider,
+          status,
+        },
+      });
+
+      if (!gatewayResponse.success) {
+        await this.syncGroupPaymentAllocations(payment.id, status);
+      }
+
+      const responseDto = await this.findById(
+        payment.id,
+        payerId,
+        cooperativeId,
+      );
+
+      if (gatewayResponse.paymentUrl) {
+        responseDto.paymentUrl = gatewayResponse.paymentUrl;
+      }
+
+      responseDto.gatewayMessage = gatewayResponse.message;
+      responseDto.gatewayTransactionId = gatewayResponse.gatewayTransactionId;
+
+      return responseDto;
+    } catch (error) {
+      await this.prismaService.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: PaymentStatus.FAILED,
+        },
+      });
+      await this.syncGroupPaymentAllocations(payment.id, PaymentStatus.FAILED);
+
+      throw error;
+    }
+  }
+
   async findById(
     id: string,
     currentUserId: string,
@@ -429,6 +740,24 @@ export class PaymentService {
             code: true,
           },
         },
+        allocations: {
+          include: {
+            tenant: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+                phone: true,
+              },
+            },
+            room: {
+              select: {
+                id: true,
+                roomNumber: true,
+              },
+            },
+          },
+        },
       },
     });
 
@@ -975,6 +1304,14 @@ export class PaymentService {
       },
       data: updateData,
     });
+
+    if (paymentTransaction.payment.isGroupPayment) {
+      await this.syncGroupPaymentAllocations(
+        paymentTransaction.paymentId,
+        webhookDto.status,
+        updateData.paidAt,
+      );
+    }
   }
   async searchPayments(
     searchDto: PaymentSearchDto,
@@ -1172,6 +1509,14 @@ export class PaymentService {
         data: updateData,
       });
 
+      if (payment.isGroupPayment) {
+        await this.syncGroupPaymentAllocations(
+          paymentId,
+          status,
+          updateData.paidAt,
+        );
+      }
+
       this.logger.log(`Payment ${paymentId} status updated to ${status}`);
     } catch (error) {
       this.logger.error(
@@ -1181,80 +1526,404 @@ export class PaymentService {
     }
   }
 
-  async validatePaymentAmount(amount: number, paymentType: any): Promise<void> {
-    if (amount <= 0) {
-      throw new BadRequestException('Payment amount must be greater than zero');
+  /**
+   * Refund a completed payment in full or in part
+   * Returns the money through the gateway, then reverses the balance credits
+   */
+  async refundPayment(
+    id: string,
+    refundPaymentDto: RefundPaymentDto,
+    currentUserId: string,
+    cooperativeId: string,
+    currentUserRole: UserRole,
+  ): Promise<PaymentResponseDto> {
+    const payment = await this.prismaService.payment.findUnique({
+      where: { id },
+      include: {
+        paymentType: true,
+        sender: true,
+        cooperative: true,
+      },
+    });
+
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
     }
 
-    switch (paymentType.amountType) {
-      case PaymentAmountType.FIXED:
-        if (amount !== paymentType.amount) {
-          throw new BadRequestException(
-            `Payment amount must be exactly ${paymentType.amount}`,
-          );
-        }
-        break;
+    if (
+      currentUserRole !== UserRole.SUPER_ADMIN &&
+      payment.cooperativeId !== cooperativeId
+    ) {
+      throw new NotFoundException('Payment not found');
+    }
 
-      case PaymentAmountType.PARTIAL_ALLOWED:
-        if (paymentType.allowPartialPayment) {
-          if (paymentType.minimumAmount && amount < paymentType.minimumAmount) {
-            throw new BadRequestException(
-              `Payment amount must be at least ${paymentType.minimumAmount}`,
-            );
-          }
-          if (amount > paymentType.amount) {
-            throw new BadRequestException(
-              `Payment amount cannot exceed ${paymentType.amount}`,
-            );
-          }
-        } else {
-          if (amount !== paymentType.amount) {
-            throw new BadRequestException(
-              `Payment amount must be exactly ${paymentType.amount}`,
-            );
-          }
-        }
-        break;
+    if (
+      refundPaymentDto.refundFee &&
+      currentUserRole !== UserRole.SUPER_ADMIN
+    ) {
+      throw new ForbiddenException(
+        'Only super admins can refund the transaction fee',
+      );
+    }
 
-      case PaymentAmountType.FLEXIBLE:
-        // Any positive amount is allowed for flexible payment types
-        break;
+    if (payment.status === PaymentStatus.REFUNDED) {
+      throw new BadRequestException('Payment has already been fully refunded');
     }
-  }
 
-  /**
-   * Validate billing period restrictions to prevent multiple payments within the same cycle
-   */
-  private async validateBillingPeriodRestrictions(
-    senderId: string,
-    cooperativeId: string,
-    paymentTypeId: string,
-    cooperative: any,
-  ): Promise<void> {
-    // Skip validation if no payment frequency is set (backward compatibility)
-    if (!cooperative.paymentFrequency) {
-      return;
+    if (payment.status !== PaymentStatus.COMPLETED) {
+      throw new BadRequestException('Only completed payments can be refunded');
     }
 
-    try {
-      // Prepare cooperative settings for period calculation
-      const cooperativeSettings = {
-        paymentFrequency: cooperative.paymentFrequency as PaymentFrequency,
-        billingDayOfMonth: cooperative.billingDayOfMonth,
-        billingDayOfYear: cooperative.billingDayOfYear,
-      };
+    const baseAmount = this.balanceService.getLegacyBaseAmount(payment);
+    const refundableAmount = Math.max(0, baseAmount - payment.refundedAmount);
+    const amount = refundPaymentDto.amount ?? refundableAmount;
 
-      // Get current billing period boundaries
-      const currentPeriod =
-        this.paymentPeriodService.getCurrentBillingPeriod(cooperativeSettings);
+    if (amount > refundableAmount) {
+      throw new BadRequestException(
+        `Refund amount cannot exceed the refundable amount of ${refundableAmount} RWF`,
+      );
+    }
 
-      // Check if tenant has already paid for this billing period
+    const feeAmount =
+      refundPaymentDto.refundFee && !payment.feeRefunded ? payment.fee : 0;
+
+    if (amount <= 0 && feeAmount <= 0) {
+      throw new BadRequestException('Nothing left to refund on this payment');
+    }
+
+    // A fee borne by the cooperative was never paid by the tenant, so a
+    // refunded fee goes back through the cooperative's share of the refund
+    const feeBorneByCooperative = payment.feeBearer === FeeBearer.COOPERATIVE;
+    const cooperativeAmount = feeBorneByCooperative
+      ? amount - feeAmount
+      : amount;
+
+    if (cooperativeAmount < 0) {
+      throw new BadRequestException(
+        'Refund amount must cover the refunded fee when the cooperative bears the fee',
+      );
+    }
+
+    const gatewayTransactionId =
+      payment.invoiceNumber || payment.gatewayTransactionId;
+    if (!payment.paymentMethod || !gatewayTransactionId) {
+      throw new BadRequestException(
+        'Payment has no gateway transaction to refund',
+      );
+    }
+
+    const refundReference = `REFUND_${payment.id}_${Date.now()}`;
+    const refundTotal = feeBorneByCooperative ? amount : amount + feeAmount;
+    const totalRefunded = payment.refundedAmount + amount;
+    const isFullRefund = totalRefunded >= baseAmount;
+    const gateway = this.paymentGatewayFactory.getGatewayForPayment(payment);
+
+    if (refundPaymentDto.allocationId && !payment.isGroupPayment) {
+      throw new BadRequestException(
+        'allocationId only applies to group payments',
+      );
+    }
+
+    const allocationRefunds = payment.isGroupPayment
+      ? await this.planAllocationRefunds(
+          payment.id,
+          amount,
+          isFullRefund,
+          refundPaymentDto.allocationId,
+        )
+      : [];
+
+    // Reserve the refund, hold the cooperative's share and persist the refund
+    // together before asking the gateway to send money back. The payment must
+    // be unchanged since it was read, so two refunds submitted together cannot
+    // both pass the refundable amount check
+    const refund = await this.prismaService.$transaction(async (tx) => {
+      const reserved = await tx.payment.updateMany({
+        where: {
+          id: payment.id,
+          status: PaymentStatus.COMPLETED,
+          updatedAt: payment.updatedAt,
+        },
+        data: {
+          refundedAmount: totalRefunded,
+          ...(feeAmount > 0 && { feeRefunded: true }),
+          ...(isFullRefund && { status: PaymentStatus.REFUNDED }),
+        },
+      });
+
+      if (reserved.count === 0) {
+        throw new ConflictException(
+          'Payment changed while the refund was being prepared, please try again',
+        );
+      }
+
+      const fundsHeld = await this.balanceService.holdRefundFunds(
+        payment,
+        cooperativeAmount,
+        refundReference,
+        tx,
+      );
+
+      return tx.paymentRefund.create({
+        data: {
+          paymentId: payment.id,
+          cooperativeId: payment.cooperativeId,
+          reference: refundReference,
+          amount,
+          feeAmount,
+          cooperativeAmount,
+          totalAmount: refundTotal,
+          fundsHeld,
+          isFullRefund,
+          allocationUpdates: allocationRefunds,
+          reason: refundPaymentDto.reason,
+          requestedBy: currentUserId,
+        },
+      });
+    });
+
+    let gatewayResponse: PaymentGatewayRefundResponse;
+    try {
+      gatewayResponse = await gateway.refundPayment({
+        gatewayTransactionId,
+        amount: refundTotal,
+        originalAmount: payment.totalPaid ?? payment.amount,
+        currency: 'RWF',
+        reference: refundReference,
+        reason: refundPaymentDto.reason,
+      });
+    } catch (error) {
+      // The gateway may have sent the money, so the reservation stays until
+      // a status lookup settles the refund
+      await this.prismaService.paymentRefund.update({
+        where: { id: refund.id },
+        data: {
+          status: RefundStatus.UNKNOWN,
+          failureReason: (error as Error).message,
+        },
+      });
+      this.logger.error(
+        `Refund ${refundReference} for payment ${payment.id} got no answer from the gateway: ${(error as Error).message}`,
+      );
+      throw new BadGatewayException(
+        'The payment gateway did not confirm the refund. It stays reserved until its status is checked',
+      );
+    }
+
+    if (!gatewayResponse.success) {
+      this.logger.error(
+        `Gateway refund failed for payment ${payment.id}: ${gatewayResponse.message}`,
+      );
+      await this.failRefund(
+        refund,
+        gatewayResponse.message || 'Payment gateway error',
+      );
+      throw new BadRequestException(
+        `Refund failed: ${gatewayResponse.message || 'Payment gateway error'}`,
+      );
+    }
+
+    await this.prismaService.paymentRefund.update({
+      where: { id: refund.id },
+      data: {
+        status: RefundStatus.SENT,
+        gatewayRefundReference: gatewayResponse.refundReference,
+        gatewayData: gatewayResponse.data,
+        sentAt: new Date(),
+      },
+    });
+
+    // The money has left. A refund that cannot be recorded now stays SENT and
+    // is posted by resolvePendingRefunds, it is never sent a second time
+    try {
+      await this.recordRefund(refund.id);
+    } catch (error) {
+      this.logger.error(
+        `Refund ${refundReference} of ${refundTotal} RWF was sent by the gateway but not recorded for payment ${payment.id}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+
+    return this.findById(id, currentUserId, cooperativeId, currentUserRole);
+  }
+
+  /**
+   * Settle refunds left open by a failed request: post the ones the gateway
+   * sent and look up the ones it never answered. A PENDING refund older than
+   * the timeout is treated as unanswered, its request is long gone
+   */
+  async resolvePendingRefunds(): Promise<{
+    recorded: number;
+    failed: number;
+    pending: number;
+  }> {
+    const staleBefore = new Date(Date.now() - REFUND_PENDING_TIMEOUT_MS);
+    const refunds = await this.prismaService.paymentRefund.findMany({
+      where: {
+        OR: [
+          { status: { in: [RefundStatus.SENT, RefundStatus.UNKNOWN] } },
+          { status: RefundStatus.PENDING, updatedAt: { lt: staleBefore } },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+    });
+
+    const result = { recorded: 0, failed: 0, pending: 0 };
+
+    for (const refund of refunds) {
+      await this.prismaService.paymentRefund.update({
+        where: { id: refund.id },
+        data: { resolveAttempts: { increment: 1 } },
+      });
+
+      try {
+        result[await this.resolveRefund(refund)] += 1;
+      } catch (error) {
+        result.pending += 1;
+        this.logger.error(
+          `Could not resolve refund ${refund.reference}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Settle a refund by hand once its outcome was checked with the provider,
+   * for gateways that have no refund status lookup
+   */
+  async resolveRefundManually(
+    refundId: string,
+    resolveRefundDto: ResolveRefundDto,
+    currentUserId: string,
+  ): Promise<PaymentResponseDto> {
+    const refund = await this.prismaService.paymentRefund.findUnique({
+      where: { id: refundId },
+    });
+
+    if (!refund) {
+      throw new NotFoundException('Refund not found');
+    }
+
+    if (
+      refund.status !== RefundStatus.PENDING &&
+      refund.status !== RefundStatus.UNKNOWN
+    ) {
+      throw new BadRequestException(
+        'Only refunds waiting for a gateway answer can be resolved',
+      );
+    }
+
+    if (resolveRefundDto.sent) {
+      const marked = await this.markRefundSent(refund, {
+        refundReference: resolveRefundDto.gatewayRefundReference,
+        data: { resolvedBy: currentUserId, note: resolveRefundDto.note },
+      });
+      if (!marked) {
+        throw new ConflictException('Refund was resolved in the meantime');
+      }
+      await this.recordRefund(refund.id);
+    } else if (!(await this.failRefund(refund, resolveRefundDto.note))) {
+      throw new ConflictException('Refund was resolved in the meantime');
+    }
+
+    this.logger.log(
+      `Refund ${refund.reference} resolved as ${resolveRefundDto.sent ? 'sent' : 'failed'} by ${currentUserId}`,
+    );
+
+    return this.findById(
+      refund.paymentId,
+      currentUserId,
+      refund.cooperativeId,
+      UserRole.SUPER_ADMIN,
+    );
+  }
+
+  async validatePaymentAmount(
+    amount: number,
+    paymentType: any,
+    periods: number = 1,
+  ): Promise<void> {
+    if (amount <= 0) {
+      throw new BadRequestException('Payment amount must be greater than zero');
+    }
+
+    // Amount due when paying several billing periods at once
+    const expectedAmount = paymentType.amount * periods;
+
+    switch (paymentType.amountType) {
+      case PaymentAmountType.FIXED:
+        if (amount !== expectedAmount) {
+          throw new BadRequestException(
+            `Payment amount must be exactly ${expectedAmount}`,
+          );
+        }
+        break;
+
+      case PaymentAmountType.PARTIAL_ALLOWED:
+        if (paymentType.allowPartialPayment) {
+          if (paymentType.minimumAmount && amount < paymentType.minimumAmount) {
+            throw new BadRequestException(
+              `Payment amount must be at least ${paymentType.minimumAmount}`,
+            );
+          }
+          if (amount > expectedAmount) {
+            throw new BadRequestException(
+              `Payment amount cannot exceed ${expectedAmount}`,
+            );
+          }
+        } else {
+          if (amount !== expectedAmount) {
+            throw new BadRequestException(
+              `Payment amount must be exactly ${expectedAmount}`,
+            );
+          }
+        }
+        break;
+
+      case PaymentAmountType.FLEXIBLE:
+        // Any positive amount is allowed for flexible payment types
+        break;
+    }
+  }
+
+  /**
+   * Validate billing period restrictions to prevent multiple payments within the same cycle
+   */
+  private async validateBillingPeriodRestrictions(
+    senderId: string,
+    cooperativeId: string,
+    paymentTypeId: string,
+    cooperative: any,
+  ): Promise<void> {
+    // Skip validation if no payment frequency is set (backward compatibility)
+    if (!cooperative.paymentFrequency) {
+      return;
+    }
+
+    try {
+      // Prepare cooperative settings for period calculation
+      const cooperativeSettings = {
+        paymentFrequency: cooperative.paymentFrequency as PaymentFrequency,
+        billingDayOfMonth: cooperative.billingDayOfMonth,
+        billingDayOfYear: cooperative.billingDayOfYear,
+      };
+
+      // Get current billing period boundaries
+      const currentPeriod =
+        this.paymentPeriodService.getCurrentBillingPeriod(cooperativeSettings);
+
+      // Check if tenant has already paid for this billing period
+      // Group payments count for their allocated tenants, not for the payer
       const existingPaymentInPeriod =
         await this.prismaService.payment.findFirst({
           where: {
             senderId,
             cooperativeId,
             paymentTypeId,
+            isGroupPayment: false,
             status: PaymentStatus.COMPLETED,
             paidAt: {
               gte: currentPeriod.startDate,
@@ -1266,7 +1935,22 @@ export class PaymentService {
           },
         });
 
-      if (existingPaymentInPeriod) {
+      const existingAllocationInPeriod = existingPaymentInPeriod
+        ? null
+        : await this.prismaService.paymentAllocation.findFirst({
+            where: {
+              tenantId: senderId,
+              cooperativeId,
+              paymentTypeId,
+              status: PaymentStatus.COMPLETED,
+              paidAt: {
+                gte: currentPeriod.startDate,
+                lte: currentPeriod.endDate,
+              },
+            },
+          });
+
+      if (existingPaymentInPeriod || existingAllocationInPeriod) {
         const nextPeriod = this.paymentPeriodService.getNextBillingPeriod(
           cooperativeSettings,
           currentPeriod,
@@ -1301,11 +1985,402 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Allocation updates for a refund of a group payment. A full refund refunds
+   * every share, a partial one comes out of the share it names
+   */
+  private async planAllocationRefunds(
+    paymentId: string,
+    amount: number,
+    isFullRefund: boolean,
+    allocationId?: string,
+  ): Promise<AllocationRefund[]> {
+    const allocations = await this.prismaService.paymentAllocation.findMany({
+      where: { paymentId },
+    });
+
+    if (isFullRefund) {
+      return allocations.map((allocation) => ({
+        id: allocation.id,
+        refundedAmount: allocation.amount,
+        status: PaymentStatus.REFUNDED,
+      }));
+    }
+
+    if (amount <= 0) {
+      return [];
+    }
+
+    if (!allocationId) {
+      throw new BadRequestException(
+        'allocationId is required for a partial refund of a group payment',
+      );
+    }
+
+    const allocation = allocations.find((item) => item.id === allocationId);
+    if (!allocation) {
+      throw new NotFoundException('Allocation not found on this payment');
+    }
+
+    const alreadyRefunded = allocation.refundedAmount ?? 0;
+    if (alreadyRefunded + amount > allocation.amount) {
+      throw new BadRequestException(
+        `Refund amount cannot exceed the ${allocation.amount - alreadyRefunded} RWF left on this allocation`,
+      );
+    }
+
+    const refundedAmount = alreadyRefunded + amount;
+    return [
+      {
+        id: allocation.id,
+        refundedAmount,
+        status:
+          refundedAmount >= allocation.amount
+            ? PaymentStatus.REFUNDED
+            : allocation.status,
+      },
+    ];
+  }
+
+  /**
+   * Look up a refund the gateway never answered and settle it
+   */
+  private async resolveRefund(
+    refund: PaymentRefund,
+  ): Promise<'recorded' | 'failed' | 'pending'> {
+    if (refund.status === RefundStatus.SENT) {
+      return (await this.recordRefund(refund.id)) ? 'recorded' : 'pending';
+    }
+
+    const payment = await this.prismaService.payment.findUnique({
+      where: { id: refund.paymentId },
+    });
+    const gatewayTransactionId =
+      payment?.invoiceNumber || payment?.gatewayTransactionId;
+    if (!payment || !gatewayTransactionId) {
+      throw new BadRequestException(
+        'Payment has no gateway transaction to look the refund up',
+      );
+    }
+
+    const gateway = this.paymentGatewayFactory.getGatewayForPayment(payment);
+    const status = await gateway.getRefundStatus(
+      gatewayTransactionId,
+      refund.reference,
+    );
+
+    switch (status.status) {
+      case 'completed':
+        if (!(await this.markRefundSent(refund, status))) {
+          return 'pending';
+        }
+        await this.recordRefund(refund.id);
+        return 'recorded';
+      case 'failed':
+      case 'not_found':
+        await this.failRefund(
+          refund,
+          status.message || `Gateway reports the refund as ${status.status}`,
+        );
+        return 'failed';
+      default:
+        return 'pending';
+    }
+  }
+
+  private async markRefundSent(
+    refund: PaymentRefund,
+    outcome: { refundReference?: string; data?: Record<string, any> },
+  ): Promise<boolean> {
+    const marked = await this.prismaService.paymentRefund.updateMany({
+      where: {
+        id: refund.id,
+        status: { in: [RefundStatus.PENDING, RefundStatus.UNKNOWN] },
+      },
+      data: {
+        status: RefundStatus.SENT,
+        gatewayRefundReference: outcome.refundReference,
+        gatewayData: outcome.data,
+        sentAt: new Date(),
+      },
+    });
+
+    return marked.count > 0;
+  }
+
+  /**
+   * Post a refund the gateway sent: balances, ledger and records move
+   * together. Only the first call for a refund posts it, so retries are safe
+   */
+  private async recordRefund(refundId: string): Promise<boolean> {
+    const completedAt = new Date();
+
+    const recorded = await this.prismaService.$transaction(async (tx) => {
+      const claimed = await tx.paymentRefund.updateMany({
+        where: { id: refundId, status: RefundStatus.SENT },
+        data: { status: RefundStatus.COMPLETED, completedAt },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const refund = await tx.paymentRefund.findUniqueOrThrow({
+        where: { id: refundId },
+      });
+      const payment = await tx.payment.findUniqueOrThrow({
+        where: { id: refund.paymentId },
+        include: {
+          paymentType: true,
+          sender: true,
+          cooperative: true,
+        },
+      });
+
+      await this.balanceService.reversePaymentSettlement(
+        payment,
+        refund.cooperativeAmount,
+        {
+          includeFee: refund.feeAmount > 0,
+          fundsHeld: refund.fundsHeld,
+          refundReference: refund.reference,
+          description: `Refund of payment ${payment.id}: ${refund.reason}`,
+        },
+        tx,
+      );
+
+      if (!payment.isGroupPayment) {
+        await this.tenantWalletService.reverseForRefund(
+          payment,
+          refund.amount,
+          tx,
+        );
+      }
+
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { refundedAt: completedAt },
+      });
+
+      const allocationRefunds = (refund.allocationUpdates ??
+        []) as AllocationRefund[];
+      for (const { id: allocationId, ...data } of allocationRefunds) {
+        await tx.paymentAllocation.update({
+          where: { id: allocationId },
+          data,
+        });
+      }
+
+      await tx.transaction.create({
+        data: {
+          amount: refund.totalAmount,
+          type: TransactionType.REFUND,
+          description: refund.reason,
+          reference: refund.reference,
+          cooperativeId: payment.cooperativeId,
+          userId: payment.senderId,
+          gatewayData: refund.gatewayData ?? undefined,
+          metadata: {
+            paymentId: payment.id,
+            baseAmount: refund.amount,
+            fee: refund.feeAmount,
+            fullRefund: refund.isFullRefund,
+            refundedBy: refund.requestedBy,
+            gatewayRefundReference: refund.gatewayRefundReference,
+          },
+          processedAt: completedAt,
+        },
+      });
+
+      await this.sendRefundNotifications(
+        payment,
+        refund.totalAmount,
+        refund.isFullRefund,
+        tx,
+      );
+
+      return { refund, payment };
+    });
+
+    if (!recorded) {
+      return false;
+    }
+
+    const { refund, payment } = recorded;
+
+    this.logger.log(
+      `Payment ${payment.id} refunded ${refund.totalAmount} RWF (${refund.isFullRefund ? 'full' : 'partial'}) by ${refund.requestedBy}`,
+    );
+
+    await this.activityService.logPaymentRefunded(
+      payment.id,
+      refund.totalAmount,
+      refund.reason,
+      { userId: refund.requestedBy, cooperativeId: payment.cooperativeId },
+    );
+
+    return true;
+  }
+
+  /**
+   * Undo a refund the gateway did not send: the payment reservation and the
+   * held cooperative funds are released together, and only once
+   */
+  private async failRefund(
+    refund: PaymentRefund,
+    reason: string,
+  ): Promise<boolean> {
+    return this.prismaService.$transaction(async (tx) => {
+      const claimed = await tx.paymentRefund.updateMany({
+        where: {
+          id: refund.id,
+          status: { in: [RefundStatus.PENDING, RefundStatus.UNKNOWN] },
+        },
+        data: { status: RefundStatus.FAILED, failureReason: reason },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      const payment = await tx.payment.update({
+        where: { id: refund.paymentId },
+        data: {
+          refundedAmount: { decrement: refund.amount },
+          ...(refund.feeAmount > 0 && { feeRefunded: false }),
+          ...(refund.isFullRefund && { status: PaymentStatus.COMPLETED }),
+        },
+      });
+
+      if (refund.fundsHeld) {
+        await this.balanceService.releaseRefundFunds(
+          payment,
+          refund.cooperativeAmount,
+          refund.reference,
+          tx,
+        );
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Resolve group payment allocations to tenants and rooms of the cooperative
+   */
+  private async resolveGroupPaymentAllocations(
+    allocations: GroupPaymentAllocationDto[],
+    cooperativeId: string,
+  ): Promise<
+    Array<{
+      tenantId: string;
+      tenantName: string;
+      roomId?: string;
+      amount: number;
+    }>
+  > {
+    const resolved: Array<{
+      tenantId: string;
+      tenantName: string;
+      roomId?: string;
+      amount: number;
+    }> = [];
+
+    for (const allocation of allocations) {
+      if (!allocation.tenantId && !allocation.roomId) {
+        throw new BadRequestException(
+          'Each allocation needs a tenantId or a roomId',
+        );
+      }
+
+      const assignment = await this.prismaService.userCooperativeRoom.findFirst(
+        {
+          where: {
+            cooperativeId,
+            isActive: true,
+            ...(allocation.roomId && { roomId: allocation.roomId }),
+            ...(allocation.tenantId && { userId: allocation.tenantId }),
+          },
+          include: {
+            user: {
+              select: { id: true, firstName: true, lastName: true },
+            },
+          },
+        },
+      );
+
+      let tenant = assignment?.user;
+
+      if (!tenant && allocation.tenantId && !allocation.roomId) {
+        // Tenants without a room assignment can still be paid for
+        const user = await this.prismaService.user.findFirst({
+          where: { id: allocation.tenantId, cooperativeId },
+          select: { id: true, firstName: true, lastName: true },
+        });
+        tenant = user ?? undefined;
+      }
+
+      if (!tenant) {
+        throw new BadRequestException(
+          allocation.roomId
+            ? `Room ${allocation.roomId} has no matching active tenant in this cooperative`
+            : `Tenant ${allocation.tenantId} does not belong to this cooperative`,
+        );
+      }
+
+      // One family may pay for several rooms, so a tenant can appear once
+      // per room
+      if (
+        resolved.some(
+          (item) =>
+            item.tenantId === tenant.id && item.roomId === assignment?.roomId,
+        )
+      ) {
+        throw new BadRequestException(
+          'Each tenant and room can only appear once in a group payment. Pass roomId for tenants with several rooms',
+        );
+      }
+
+      resolved.push({
+        tenantId: tenant.id,
+        tenantName:
+          `${tenant.firstName || ''} ${tenant.lastName || ''}`.trim() ||
+          tenant.id,
+        roomId: assignment?.roomId,
+        amount: allocation.amount,
+      });
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Keep group payment allocations in step with the group payment status
+   */
+  private async syncGroupPaymentAllocations(
+    paymentId: string,
+    status: PaymentStatus,
+    paidAt?: Date,
+    tx?: Prisma.TransactionClient,
+  ): Promise<void> {
+    const client = tx ?? this.prismaService;
+
+    await client.paymentAllocation.updateMany({
+      where: { paymentId },
+      data: {
+        status,
+        ...(status === PaymentStatus.COMPLETED && {
+          paidAt: paidAt || new Date(),
+        }),
+      },
+    });
+  }
+
   private mapToResponseDto(payment: any): PaymentResponseDto {
     // Handle legacy payments that might not have baseAmount or totalPaid
     let baseAmount = payment.baseAmount;
     let totalPaid = payment.totalPaid;
-    const fee = payment.fee || 500;
+    const fee = payment.fee ?? DEFAULT_PAYMENT_FEE;
     
     // For legacy payments without baseAmount, calculate it from amount
     if (baseAmount === null || baseAmount === undefined) {
@@ -1326,6 +2401,8 @@ export class PaymentService {
       id: payment.id,
       baseAmount: baseAmount,
       fee: fee,
+      feeBearer: payment.feeBearer,
+      feePolicyId: payment.feePolicyId,
       amount: payment.amount,
       totalPaid: totalPaid,
       status: payment.status,
@@ -1338,6 +2415,24 @@ export class PaymentService {
       sender: payment.sender,
       cooperative: payment.cooperative,
       paidAt: payment.paidAt,
+      refundedAmount: payment.refundedAmount,
+      feeRefunded: payment.feeRefunded,
+      refundedAt: payment.refundedAt,
+      isGroupPayment: payment.isGroupPayment,
+      allocations: payment.allocations?.map(
+        (
+          allocation: PaymentAllocation &
+            Pick<PaymentAllocationResponseDto, 'tenant' | 'room'>,
+        ) => ({
+          id: allocation.id,
+          tenant: allocation.tenant,
+          room: allocation.room,
+          amount: allocation.amount,
+          refundedAmount: allocation.refundedAmount ?? undefined,
+          status: allocation.status,
+          paidAt: allocation.paidAt ?? undefined,
+        }),
+      ),
       createdAt: payment.createdAt,
       updatedAt: payment.updatedAt,
     };
@@ -1361,6 +2456,7 @@ export class PaymentService {
               lastName: true,
               email: true,
               phone: true,
+              preferredLanguage: true,
             },
           },
           paymentType: {
@@ -1403,11 +2499,12 @@ export class PaymentService {
         `Webhook processing - Mapping status: IremboPay="${webhookDto.gatewayData?.paymentStatus}" -> System="${webhookDto.status}"`,
       );
 
-      if (webhookDto.status === PaymentStatus.COMPLETED && paidAt) {
-        const parsedDate = this.parseWebhookDate(paidAt);
-        if (parsedDate) {
-          updateData.paidAt = parsedDate;
-        }
+      if (webhookDto.status === PaymentStatus.COMPLETED) {
+        // Payments only count towards charges once they have a paid date
+        updateData.paidAt =
+          (paidAt && this.parseWebhookDate(paidAt)) ||
+          payment.paidAt ||
+          new Date();
       }
 
       if (webhookDto.gatewayTransactionId) {
@@ -1422,9 +2519,30 @@ export class PaymentService {
         updateData.gatewayResponse = webhookDto.gatewayData;
       }
 
-      await this.prismaService.payment.update({
-        where: { id: payment.id },
-        data: updateData,
+      // Allocations and notifications move with the status change, so they
+      // stay in step even if the process dies right after the payment is saved
+      await this.prismaService.$transaction(async (tx) => {
+        await tx.payment.update({
+          where: { id: payment.id },
+          data: updateData,
+        });
+
+        if (payment.isGroupPayment) {
+          await this.syncGroupPaymentAllocations(
+            payment.id,
+            webhookDto.status,
+            updateData.paidAt,
+            tx,
+          );
+        }
+
+        await this.sendPaymentNotifications(
+          payment,
+          webhookDto.status,
+          amount,
+          webhookDto.gatewayData,
+          tx,
+        );
       });
 
       this.logger.log(
@@ -1435,14 +2553,6 @@ export class PaymentService {
         `Payment ${payment.id} updated via IremboPay webhook - Status: ${webhookDto.status}, Invoice: ${invoiceNumber}`,
       );
 
-      // Send notifications and SMS to the user
-      await this.sendPaymentNotifications(
-        payment,
-        webhookDto.status,
-        amount,
-        webhookDto.gatewayData,
-      );
-
       // Log activity for payment status change
       if (webhookDto.status === PaymentStatus.COMPLETED) {
         await this.activityService.logPaymentCompleted(payment.id, amount, {
@@ -1461,6 +2571,8 @@ export class PaymentService {
           // Note: We don't throw here to avoid breaking the webhook flow
           // Balance redistribution can be retried later if needed
         }
+
+        await this.syncTenantWallets(payment);
       } else if (webhookDto.status === PaymentStatus.FAILED) {
         await this.activityService.logPaymentFailed(
           payment.id,
@@ -1478,7 +2590,113 @@ export class PaymentService {
   }
 
   /**
-   * Send payment notifications (SMS and push) only after backend confirms payment status
+   * Move what a completed payment paid beyond the charges already due into
+   * the wallets of the tenants it was for
+   */
+  private async syncTenantWallets(payment: {
+    id: string;
+    senderId: string;
+    cooperativeId: string;
+    isGroupPayment: boolean;
+  }): Promise<void> {
+    const tenantIds = payment.isGroupPayment
+      ? (
+          await this.prismaService.paymentAllocation.findMany({
+            where: { paymentId: payment.id },
+            select: { tenantId: true },
+          })
+        ).map((allocation) => allocation.tenantId)
+      : [payment.senderId];
+
+    for (const tenantId of tenantIds) {
+      try {
+        await this.tenantWalletService.syncTenant(
+          tenantId,
+          payment.cooperativeId,
+        );
+      } catch (error) {
+        // The daily wallet sync picks up anything missed here
+        this.logger.error(
+          `Failed to sync wallet of tenant ${tenantId} for payment ${payment.id}: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Handle a callback from a direct provider (MTN MoMo, Airtel Money, sandbox)
+   * Callbacks are not signed, so the status is confirmed with the provider
+   * before it goes through the webhook path
+   */
+  async handleProviderCallback(
+    provider: PaymentGatewayProvider,
+    paymentId: string,
+  ): Promise<void> {
+    const payment = await this.prismaService.payment.findFirst({
+      where: { id: paymentId, gatewayProvider: provider },
+      select: {
+        id: true,
+        invoiceNumber: true,
+        status: true,
+        amount: true,
+        totalPaid: true,
+      },
+    });
+
+    if (!payment || !payment.invoiceNumber) {
+      throw new NotFoundException(
+        `Payment ${paymentId} not found for provider ${provider}`,
+      );
+    }
+
+    if (
+      payment.status !== PaymentStatus.PENDING &&
+      payment.status !== PaymentStatus.PROCESSING
+    ) {
+      this.logger.log(
+        `Ignoring ${provider} callback for payment ${payment.id} already ${payment.status}`,
+      );
+      return;
+    }
+
+    const gateway = this.paymentGatewayFactory.getGatewayByProvider(provider);
+    const gatewayStatus = await gateway.getPaymentStatus(payment.invoiceNumber);
+
+    if (!gatewayStatus.data) {
+      throw new BadRequestException(
+        `Could not confirm payment ${payment.id} with ${provider}: ${gatewayStatus.failureReason}`,
+      );
+    }
+
+    const statusMapping: Record<PaymentGatewayStatus['status'], PaymentStatus> =
+      {
+        pending: PaymentStatus.PENDING,
+        processing: PaymentStatus.PROCESSING,
+        completed: PaymentStatus.COMPLETED,
+        failed: PaymentStatus.FAILED,
+        cancelled: PaymentStatus.CANCELLED,
+      };
+    const status = statusMapping[gatewayStatus.status];
+
+    if (status === payment.status) {
+      return;
+    }
+
+    await this.handleIremboPayWebhook(
+      payment.invoiceNumber,
+      {
+        gatewayTransactionId: gatewayStatus.gatewayTransactionId,
+        status,
+        gatewayReference: gatewayStatus.gatewayReference,
+        failureReason: gatewayStatus.failureReason,
+        gatewayData: gatewayStatus.data,
+      },
+      gatewayStatus.amount ?? payment.totalPaid ?? payment.amount,
+    );
+  }
+
+  /**
+   * Queue payment notifications (SMS, email and push) only after backend confirms payment status
    * This method is only called from webhook handlers after payment verification
    */
   private async sendPaymentNotifications(
@@ -1486,6 +2704,7 @@ export class PaymentService {
     status: PaymentStatus,
     amount: number,
     gatewayData?: any,
+    tx?: Prisma.TransactionClient,
   ): Promise<void> {
     try {
       const { sender, paymentType } = payment;
@@ -1503,33 +2722,43 @@ export class PaymentService {
         return;
       }
 
+      // Messages go out in the payer's language
+      const language: Language | null = sender.preferredLanguage;
+      const locale = getLocale(language);
       const formatAmount = (amount: number): string => {
-        return new Intl.NumberFormat('en-RW', {
+        return new Intl.NumberFormat(locale, {
           style: 'currency',
           currency: 'RWF',
           minimumFractionDigits: 0,
         }).format(amount);
       };
+      const params = {
+        name: sender.firstName || translate(language, 'common.member'),
+        amount: formatAmount(amount),
+        paymentType:
+          paymentType?.name ||
+          translate(language, 'payment.defaultPaymentType'),
+      };
 
       if (status === PaymentStatus.COMPLETED) {
         const transactionId =
           gatewayData?.transactionId || payment.gatewayTransactionId || 'N/A';
         const processedDate = gatewayData?.paidAt
-          ? new Date(gatewayData?.paidAt).toLocaleDateString('en-RW', {
+          ? new Date(gatewayData?.paidAt).toLocaleDateString(locale, {
               year: 'numeric',
               month: 'short',
               day: 'numeric',
               hour: '2-digit',
               minute: '2-digit',
             })
-          : new Date().toLocaleDateString('en-RW');
+          : new Date().toLocaleDateString(locale);
 
         // Payment successful notifications
-        const successMessage = `Dear ${
-          sender.firstName || 'Valued Member'
-        }, your payment of ${formatAmount(amount)} for ${
-          paymentType?.name || 'payment'
-        } has been successfully processed on ${processedDate}. Transaction ID: ${transactionId}`;
+        const successMessage = translate(language, 'payment.successMessage', {
+          ...params,
+          date: processedDate,
+          transactionId,
+        });
 
         // Send push notification
         if (sender.id) {
@@ -1537,35 +2766,57 @@ export class PaymentService {
             payment,
             sender,
             'PUSH_NOTIFICATION' as any,
-            'Payment Successful! 🎉',
+            translate(language, 'payment.successTitle'),
+            successMessage,
+            tx,
+          );
+        }
+
+        // Send email receipt
+        if (sender.email) {
+          await this.notificationService.sendPaymentNotification(
+            payment,
+            sender,
+            NotificationType.EMAIL,
+            translate(language, 'payment.successTitle'),
             successMessage,
+            tx,
           );
         }
 
         // Send detailed SMS notification
         if (sender.phone) {
           const { cooperative } = payment;
-          const cooperativeName = cooperative?.name || 'your cooperative';
 
-          const smsMessage = `Dear ${
-            sender.firstName || 'Member'
-          }, greetings! Your payment of ${formatAmount(
-            amount,
-          )} to ${cooperativeName} has been successfully processed on ${processedDate}. Transaction ID: ${transactionId}. Thank you for using COPAY.`;
+          const smsMessage = translate(language, 'payment.successSms', {
+            ...params,
+            cooperative:
+              cooperative?.name ||
+              translate(language, 'payment.defaultCooperative'),
+            date: processedDate,
+            transactionId,
+          });
 
-          await this.smsService.sendSms(
-            sender.phone,
+          await this.notificationService.sendPaymentNotification(
+            payment,
+            sender,
+            NotificationType.SMS,
+            translate(language, 'payment.successTitle'),
             smsMessage,
-            `payment-success-${payment.id}`,
+            tx,
           );
         }
 
         this.logger.log(
-          `Success notifications sent to user ${sender.id} for payment ${payment.id}`,
+          `Success notifications queued for user ${sender.id} for payment ${payment.id}`,
         );
       } else if (status === PaymentStatus.FAILED) {
         // Payment failed notifications
-        const failureMessage = `Your payment of ${formatAmount(amount)} for ${paymentType?.name || 'payment'} could not be processed. Please try again or contact support if the issue persists.`;
+        const failureMessage = translate(
+          language,
+          'payment.failedMessage',
+          params,
+        );
 
         // Send push notification
         if (sender.id) {
@@ -1573,24 +2824,28 @@ export class PaymentService {
             payment,
             sender,
             'PUSH_NOTIFICATION' as any,
-            'Payment Failed ❌',
+            translate(language, 'payment.failedTitle'),
             failureMessage,
+            tx,
           );
         }
 
         // Send SMS notification
         if (sender.phone) {
-          const smsMessage = `COPAY: Payment failed. ${formatAmount(amount)} for ${paymentType?.name || 'payment'} could not be processed. Please try again.`;
+          const smsMessage = translate(language, 'payment.failedSms', params);
 
-          await this.smsService.sendSms(
-            sender.phone,
+          await this.notificationService.sendPaymentNotification(
+            payment,
+            sender,
+            NotificationType.SMS,
+            translate(language, 'payment.failedTitle'),
             smsMessage,
-            `payment-failure-${payment.id}`,
+            tx,
           );
         }
 
         this.logger.log(
-          `Failure notifications sent to user ${sender.id} for payment ${payment.id}`,
+          `Failure notifications queued for user ${sender.id} for payment ${payment.id}`,
         );
       }
     } catch (error) {
@@ -1601,6 +2856,78 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Let the payer know a refund was sent back to them. Queued in the refund
+   * transaction, so the notices only go out once it is recorded
+   */
+  private async sendRefundNotifications(
+    payment: any,
+    refundAmount: number,
+    isFullRefund: boolean,
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    try {
+      const { sender, paymentType, cooperative } = payment;
+
+      if (!sender) {
+        this.logger.warn(`No sender found for payment ${payment.id}`);
+        return;
+      }
+
+      const language: Language | null = sender.preferredLanguage;
+      const formattedAmount = new Intl.NumberFormat(getLocale(language), {
+        style: 'currency',
+        currency: 'RWF',
+        minimumFractionDigits: 0,
+      }).format(refundAmount);
+
+      const refundMessage = translate(
+        language,
+        isFullRefund
+          ? 'payment.fullRefundMessage'
+          : 'payment.partialRefundMessage',
+        {
+          name: sender.firstName || translate(language, 'common.member'),
+          amount: formattedAmount,
+          paymentType:
+            paymentType?.name ||
+            translate(language, 'payment.defaultPaymentType'),
+        },
+      );
+
+      await this.notificationService.sendPaymentNotification(
+        payment,
+        sender,
+        'PUSH_NOTIFICATION' as any,
+        translate(language, 'payment.refundTitle'),
+        refundMessage,
+        tx,
+      );
+
+      if (sender.phone) {
+        const smsMessage = translate(language, 'payment.refundSms', {
+          amount: formattedAmount,
+          cooperative:
+            cooperative?.name ||
+            translate(language, 'payment.defaultCooperative'),
+        });
+
+        await this.notificationService.sendPaymentNotification(
+          payment,
+          sender,
+          NotificationType.SMS,
+          translate(language, 'payment.refundTitle'),
+          smsMessage,
+          tx,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to send refund notifications for payment ${payment.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
   /**
    * Parse date from webhook payload with fallback handling
    */
@@ -1662,6 +2989,13 @@ export class PaymentService {
           },
         });
 
+        if (payment.isGroupPayment) {
+          await this.syncGroupPaymentAllocations(
+            payment.id,
+            PaymentStatus.CANCELLED,
+          );
+        }
+
         // Send expiration notification
         await this.sendExpirationNotification(payment);
 
@@ -1693,19 +3027,29 @@ export class PaymentService {
         return;
       }
 
+      const language: Language | null = sender.preferredLanguage;
+
       // Format amount helper function
       const formatAmount = (amount: number): string => {
-        return new Intl.NumberFormat('en-RW', {
+        return new Intl.NumberFormat(getLocale(language), {
           style: 'currency',
           currency: 'RWF',
           minimumFractionDigits: 0,
           maximumFractionDigits: 0,
         }).format(amount);
       };
+      const params = {
+        amount: formatAmount(amount),
+        paymentType:
+          paymentType?.name ||
+          translate(language, 'payment.defaultPaymentType'),
+      };
 
-      const expirationMessage = `Your payment of ${formatAmount(amount)} for ${
-        paymentType?.name || 'payment'
-      } has expired. Please initiate a new payment if you wish to proceed.`;
+      const expirationMessage = translate(
+        language,
+        'payment.expiredMessage',
+        params,
+      );
 
       // Send push notification
       if (sender.id) {
@@ -1713,23 +3057,21 @@ export class PaymentService {
           payment,
           sender,
           'PUSH_NOTIFICATION' as any,
-          'Payment Expired ⏰',
+          translate(language, 'payment.expiredTitle'),
           expirationMessage,
         );
       }
 
       // Send SMS notification
       if (sender.phone) {
-        const smsMessage = `COPAY: Your payment of ${formatAmount(
-          amount,
-        )} for ${
-          paymentType?.name || 'payment'
-        } has expired after 30 minutes. Please initiate a new payment to proceed.`;
+        const smsMessage = translate(language, 'payment.expiredSms', params);
 
-        await this.smsService.sendSms(
-          sender.phone,
+        await this.notificationService.sendPaymentNotification(
+          payment,
+          sender,
+          NotificationType.SMS,
+          translate(language, 'payment.expiredTitle'),
           smsMessage,
-          `payment-expired-${payment.id}`,
         );
       }
 
@@ -0,0 +1,308 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WalletTransactionType } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ArrearsChargeDto } from '../presentation/dto/arrears.dto';
+import { ArrearsService, TenantCredit, TenantLedger } from './arrears.service';
+import { TenantWalletService } from './tenant-wallet.service';
+
+const COOPERATIVE_ID = '65f000000000000000000001';
+const TENANT_ID = '65f000000000000000000002';
+
+type StoredTransaction = {
+  type: WalletTransactionType;
+  amount: number;
+  paymentId?: string;
+  balanceAfter: number;
+};
+
+describe('TenantWalletService', () => {
+  let service: TenantWalletService;
+  let prisma: {
+    $transaction: jest.Mock;
+    tenantWallet: Record<
+      'upsert' | 'updateMany' | 'findUnique' | 'findUniqueOrThrow',
+      jest.Mock
+    >;
+    walletTransaction: Record<'aggregate' | 'create', jest.Mock>;
+  };
+  let arrearsService: { getLedgers: jest.Mock };
+  // Wallet as the database holds it
+  let balance: number;
+  let transactions: StoredTransaction[];
+
+  const wallet = () => ({
+    id: 'wallet-1',
+    tenantId: TENANT_ID,
+    cooperativeId: COOPERATIVE_ID,
+    balance,
+  });
+
+  const paymentCredit = (overrides: Partial<TenantCredit> = {}) =>
+    ({
+      tenantId: TENANT_ID,
+      source: 'PAYMENT',
+      paymentId: 'payment-1',
+      paymentTypeId: 'rent',
+      amount: 5000,
+      paidAt: new Date('2026-03-01'),
+      unappliedAmount: 5000,
+      walletFunding: 0,
+      ...overrides,
+    }) as TenantCredit;
+
+  const charge = (periodIdentifier: string, outstanding: number) =>
+    ({
+      periodIdentifier,
+      paymentTypeId: 'rent',
+      paymentTypeName: 'Rent',
+      outstanding,
+    }) as ArrearsChargeDto;
+
+  const withLedger = (ledger: Partial<TenantLedger>) =>
+    arrearsService.getLedgers.mockResolvedValue([
+      {
+        tenantId: TENANT_ID,
+        charges: [],
+        credits: [],
+        unappliedCredit: 0,
+        ...ledger,
+      },
+    ]);
+
+  beforeEach(async () => {
+    balance = 0;
+    transactions = [];
+
+    prisma = {
+      $transaction: jest.fn(),
+      tenantWallet: {
+        upsert: jest.fn(() => Promise.resolve(wallet())),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { balance?: { gte: number } };
+            data: { balance: { increment: number } };
+          }) => {
+            if (where.balance && balance < where.balance.gte) {
+              return Promise.resolve({ count: 0 });
+            }
+            balance += data.balance.increment;
+            return Promise.resolve({ count: 1 });
+          },
+        ),
+        findUnique: jest.fn(() =>
+          Promise.resolve({ ...wallet(), transactions }),
+        ),
+        findUniqueOrThrow: jest.fn(() => Promise.resolve(wallet())),
+      },
+      walletTransaction: {
+        aggregate: jest.fn(({ where }: { where: { paymentId: string } }) =>
+          Promise.resolve({
+            _sum: {
+              amount: transactions
+                .filter(
+                  (transaction) =>
+                    transaction.paymentId === where.paymentId &&
+                    transaction.type !== WalletTransactionType.APPLIED,
+                )
+                .reduce((sum, transaction) => sum + transaction.amount, 0),
+            },
+          }),
+        ),
+        create: jest.fn(({ data }: { data: StoredTransaction }) => {
+          transactions.push(data);
+          return Promise.resolve(data);
+        }),
+      },
+    };
+    prisma.$transaction.mockImplementation(
+      (callback: (tx: typeof prisma) => Promise<unknown>) => callback(prisma),
+    );
+    arrearsService = { getLedgers: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantWalletService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ArrearsService, useValue: arrearsService },
+      ],
+    }).compile();
+
+    service = module.get(TenantWalletService);
+  });
+
+  describe('syncTenant', () => {
+    it('credits a leftover payment and applies it to due charges', async () => {
+      withLedger({
+        credits: [paymentCredit()],
+        charges: [charge('2026-04', 3000)],
+      });
+
+      await expect(
+        service.syncTenant(TENANT_ID, COOPERATIVE_ID),
+      ).resolves.toEqual({ creditedAmount: 5000, appliedAmount: 3000 });
+
+      expect(transactions).toEqual([
+        expect.objectContaining({
+          type: WalletTransactionType.PREPAYMENT,
+          amount: 5000,
+          paymentId: 'payment-1',
+          balanceAfter: 5000,
+        }),
+        expect.objectContaining({
+          type: WalletTransactionType.APPLIED,
+          amount: -3000,
+          periodIdentifier: '2026-04',
+          balanceAfter: 2000,
+        }),
+      ]);
+      expect(balance).toBe(2000);
+    });
+
+    it('applies only what the wallet holds, oldest charge first', async () => {
+      balance = 2000;
+      withLedger({
+        charges: [
+          charge('2026-03', 0),
+          charge('2026-04', 1500),
+          charge('2026-05', 1500),
+          charge('2026-06', 1500),
+        ],
+      });
+
+      await expect(
+        service.syncTenant(TENANT_ID, COOPERATIVE_ID),
+      ).resolves.toEqual({ creditedAmount: 0, appliedAmount: 2000 });
+
+      expect(
+        transactions.map(({ amount, balanceAfter }) => [amount, balanceAfter]),
+      ).toEqual([
+        [-1500, 500],
+        [-500, 0],
+      ]);
+    });
+
+    it('skips wallet applications and fully applied payments', async () => {
+      withLedger({
+        credits: [
+          paymentCredit({ unappliedAmount: 0 }),
+          paymentCredit({
+            source: 'WALLET',
+            paymentId: 'wallet-transaction-1',
+            unappliedAmount: 1000,
+          }),
+        ],
+      });
+
+      await expect(
+        service.syncTenant(TENANT_ID, COOPERATIVE_ID),
+      ).resolves.toEqual({ creditedAmount: 0, appliedAmount: 0 });
+      expect(prisma.walletTransaction.create).not.toHaveBeenCalled();
+    });
+
+    it('does not credit a leftover another sync moved since the ledger was read', async () => {
+      transactions.push({
+        type: WalletTransactionType.PREPAYMENT,
+        amount: 5000,
+        paymentId: 'payment-1',
+        balanceAfter: 5000,
+      });
+      balance = 5000;
+      withLedger({ credits: [paymentCredit({ walletFunding: 0 })] });
+
+      await expect(
+        service.syncTenant(TENANT_ID, COOPERATIVE_ID),
+      ).resolves.toEqual({ creditedAmount: 0, appliedAmount: 0 });
+
+      expect(transactions).toHaveLength(1);
+      expect(balance).toBe(5000);
+    });
+
+    it('credits a leftover once when two syncs read the same ledger', async () => {
+      withLedger({ credits: [paymentCredit()] });
+
+      await service.syncTenant(TENANT_ID, COOPERATIVE_ID);
+      await service.syncTenant(TENANT_ID, COOPERATIVE_ID);
+
+      expect(
+        transactions.filter(
+          (transaction) =>
+            transaction.type === WalletTransactionType.PREPAYMENT,
+        ),
+      ).toHaveLength(1);
+      expect(balance).toBe(5000);
+    });
+
+    it('credits the rest of a payment the wallet already holds part of', async () => {
+      transactions.push({
+        type: WalletTransactionType.PREPAYMENT,
+        amount: 2000,
+        paymentId: 'payment-1',
+        balanceAfter: 2000,
+      });
+      balance = 2000;
+      withLedger({
+        credits: [
+          paymentCredit({ unappliedAmount: 1000, walletFunding: 2000 }),
+        ],
+      });
+
+      await expect(
+        service.syncTenant(TENANT_ID, COOPERATIVE_ID),
+      ).resolves.toMatchObject({ creditedAmount: 1000 });
+      expect(balance).toBe(3000);
+    });
+  });
+
+  describe('reverseForRefund', () => {
+    const payment = {
+      id: 'payment-1',
+      senderId: TENANT_ID,
+      cooperativeId: COOPERATIVE_ID,
+    };
+
+    it('takes back only the unspent part of the prepayment', async () => {
+      transactions.push({
+        type: WalletTransactionType.PREPAYMENT,
+        amount: 5000,
+        paymentId: 'payment-1',
+        balanceAfter: 5000,
+      });
+      balance = 2000;
+
+      await expect(
+        service.reverseForRefund(payment, 10000, prisma as never),
+      ).resolves.toBe(2000);
+
+      expect(transactions[1]).toMatchObject({
+        type: WalletTransactionType.REFUND,
+        amount: -2000,
+        paymentId: 'payment-1',
+        balanceAfter: 0,
+      });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('takes back no more than the refund', async () => {
+      transactions.push({
+        type: WalletTransactionType.PREPAYMENT,
+        amount: 5000,
+        paymentId: 'payment-1',
+        balanceAfter: 5000,
+      });
+      balance = 5000;
+
+      await expect(service.reverseForRefund(payment, 1500)).resolves.toBe(1500);
+      expect(balance).toBe(3500);
+    });
+
+    it('leaves tenants without a wallet alone', async () => {
+      prisma.tenantWallet.findUnique.mockResolvedValue(null);
+
+      await expect(service.reverseForRefund(payment, 5000)).resolves.toBe(0);
+      expect(prisma.walletTransaction.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,478 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  Prisma,
+  TenantWallet,
+  WalletTransaction,
+  WalletTransactionType,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ArrearsService, TenantLedger } from './arrears.service';
+import {
+  WalletFilterDto,
+  WalletResponseDto,
+  WalletSyncResultDto,
+  WalletTransactionFilterDto,
+  WalletTransactionResponseDto,
+} from '../presentation/dto/tenant-wallet.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+
+type WalletCounters = Omit<WalletSyncResultDto, 'cooperativesProcessed'>;
+
+@Injectable()
+export class TenantWalletService {
+  private readonly logger = new Logger(TenantWalletService.name);
+
+  // Tenants being synced in this process, so a payment callback and the
+  // scheduler do not apply the same balance twice. Prepayment credits are
+  // also guarded in the database, across instances
+  private readonly syncing = new Set<string>();
+
+  constructor(
+    private prismaService: PrismaService,
+    private arrearsService: ArrearsService,
+  ) {}
+
+  async getWallet(
+    tenantId: string,
+    cooperativeId: string,
+  ): Promise<WalletResponseDto> {
+    const wallet = await this.prismaService.tenantWallet.findUnique({
+      where: { tenantId_cooperativeId: { tenantId, cooperativeId } },
+      include: {
+        tenant: { select: { firstName: true, lastName: true, phone: true } },
+      },
+    });
+
+    if (!wallet) {
+      return { tenantId, cooperativeId, balance: 0 };
+    }
+
+    return this.mapToResponseDto(wallet);
+  }
+
+  /**
+   * Wallets of a cooperative holding money, largest balance first
+   */
+  async findWallets(
+    cooperativeId: string,
+    filterDto: WalletFilterDto,
+  ): Promise<PaginatedResponseDto<WalletResponseDto>> {
+    const { page, limit, minBalance } = filterDto;
+    const where: Prisma.TenantWalletWhereInput = {
+      cooperativeId,
+      balance: minBalance ? { gte: minBalance } : { gt: 0 },
+    };
+
+    const [wallets, total] = await Promise.all([
+      this.prismaService.tenantWallet.findMany({
+        where,
+        include: {
+          tenant: {
+            select: { firstName: true, lastName: true, phone: true },
+          },
+        },
+        orderBy: { balance: 'desc' },
+        skip: filterDto.skip,
+        take: limit || 10,
+      }),
+      this.prismaService.tenantWallet.count({ where }),
+    ]);
+
+    return new PaginatedResponseDto(
+      wallets.map((wallet) => this.mapToResponseDto(wallet)),
+      total,
+      page || 1,
+      limit || 10,
+    );
+  }
+
+  async findTransactions(
+    tenantId: string,
+    cooperativeId: string,
+    filterDto: WalletTransactionFilterDto,
+  ): Promise<PaginatedResponseDto<WalletTransactionResponseDto>> {
+    const { page, limit, type } = filterDto;
+    const where: Prisma.WalletTransactionWhereInput = {
+      wallet: { tenantId, cooperativeId },
+      ...(type && { type }),
+    };
+
+    const [transactions, total] = await Promise.all([
+      this.prismaService.walletTransaction.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: filterDto.skip,
+        take: limit || 10,
+      }),
+      this.prismaService.walletTransaction.count({ where }),
+    ]);
+
+    return new PaginatedResponseDto(
+      transactions.map((transaction) =>
+        this.mapToTransactionResponseDto(transaction),
+      ),
+      total,
+      page || 1,
+      limit || 10,
+    );
+  }
+
+  /**
+   * Move payments left over after every due charge into the tenant wallet
+   * and apply the wallet to charges that came due. Called when a payment
+   * completes
+   */
+  async syncTenant(
+    tenantId: string,
+    cooperativeId: string,
+    now: Date = new Date(),
+  ): Promise<WalletCounters> {
+    const [ledger] = await this.arrearsService.getLedgers(
+      cooperativeId,
+      now,
+      tenantId,
+    );
+
+    if (!ledger) {
+      return { creditedAmount: 0, appliedAmount: 0 };
+    }
+
+    return this.syncLedger(cooperativeId, ledger);
+  }
+
+  /**
+   * Sync the wallets of every cooperative with recurring payment types
+   */
+  async syncAll(now: Date = new Date()): Promise<WalletSyncResultDto> {
+    const paymentTypes = await this.prismaService.paymentType.findMany({
+      where: { isRecurring: true, isActive: true },
+      select: { cooperativeId: true },
+      distinct: ['cooperativeId'],
+    });
+
+    const result: WalletSyncResultDto = {
+      cooperativesProcessed: 0,
+      creditedAmount: 0,
+      appliedAmount: 0,
+    };
+
+    for (const { cooperativeId } of paymentTypes) {
+      try {
+        const counters = await this.syncCooperative(cooperativeId, now);
+        result.cooperativesProcessed++;
+        result.creditedAmount = this.round(
+          result.creditedAmount + counters.creditedAmount,
+        );
+        result.appliedAmount = this.round(
+          result.appliedAmount + counters.appliedAmount,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Wallet sync failed for cooperative ${cooperativeId}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  async syncCooperative(
+    cooperativeId: string,
+    now: Date = new Date(),
+  ): Promise<WalletCounters> {
+    const ledgers = await this.arrearsService.getLedgers(cooperativeId, now);
+    const counters: WalletCounters = { creditedAmount: 0, appliedAmount: 0 };
+
+    for (const ledger of ledgers) {
+      const tenantCounters = await this.syncLedger(cooperativeId, ledger);
+      counters.creditedAmount = this.round(
+        counters.creditedAmount + tenantCounters.creditedAmount,
+      );
+      counters.appliedAmount = this.round(
+        counters.appliedAmount + tenantCounters.appliedAmount,
+      );
+    }
+
+    return counters;
+  }
+
+  /**
+   * Take back the unspent prepayment a refunded payment put in the wallet.
+   * Money the wallet already applied stays on the charges it covered
+   */
+  async reverseForRefund(
+    payment: { id: string; senderId: string; cooperativeId: string },
+    refundAmount: number,
+    tx?: Prisma.TransactionClient,
+  ): Promise<number> {
+    const client = tx ?? this.prismaService;
+
+    const wallet = await client.tenantWallet.findUnique({
+      where: {
+        tenantId_cooperativeId: {
+          tenantId: payment.senderId,
+          cooperativeId: payment.cooperativeId,
+        },
+      },
+      include: {
+        transactions: {
+          where: {
+            paymentId: payment.id,
+            type: {
+              in: [
+                WalletTransactionType.PREPAYMENT,
+                WalletTransactionType.REFUND,
+              ],
+            },
+          },
+        },
+      },
+    });
+
+    if (!wallet) {
+      return 0;
+    }
+
+    const funded = wallet.transactions.reduce(
+      (sum, transaction) => sum + transaction.amount,
+      0,
+    );
+    const amount = this.round(Math.min(funded, wallet.balance, refundAmount));
+
+    if (amount <= 0) {
+      return 0;
+    }
+
+    const updated = await this.recordTransaction(
+      payment.senderId,
+      payment.cooperativeId,
+      {
+        type: WalletTransactionType.REFUND,
+        amount: -amount,
+        paymentId: payment.id,
+        description: `Refund of payment ${payment.id}`,
+      },
+      { tx },
+    );
+
+    return updated ? amount : 0;
+  }
+
+  private async syncLedger(
+    cooperativeId: string,
+    ledger: { tenantId: string } & TenantLedger,
+  ): Promise<WalletCounters> {
+    const { tenantId } = ledger;
+    const key = `${tenantId}:${cooperativeId}`;
+    const counters: WalletCounters = { creditedAmount: 0, appliedAmount: 0 };
+
+    if (this.syncing.has(key)) {
+      return counters;
+    }
+
+    this.syncing.add(key);
+
+    try {
+      let balance: number | null = null;
+
+      for (const credit of ledger.credits) {
+        if (credit.source !== 'PAYMENT' || credit.unappliedAmount <= 0) {
+          continue;
+        }
+
+        const wallet = await this.recordTransaction(
+          tenantId,
+          cooperativeId,
+          {
+            type: WalletTransactionType.PREPAYMENT,
+            amount: credit.unappliedAmount,
+            paymentId: credit.paymentId,
+            description: `Prepayment from payment ${credit.paymentId}`,
+          },
+          { expectedFunding: credit.walletFunding },
+        );
+
+        // Another sync moved this leftover since the ledger was read
+        if (!wallet) {
+          continue;
+        }
+
+        balance = wallet.balance;
+        counters.creditedAmount = this.round(
+          counters.creditedAmount + credit.unappliedAmount,
+        );
+      }
+
+      balance ??=
+        (
+          await this.prismaService.tenantWallet.findUnique({
+            where: { tenantId_cooperativeId: { tenantId, cooperativeId } },
+            select: { balance: true },
+          })
+        )?.balance ?? 0;
+
+      // Oldest charges first, same order as the arrears ledger
+      for (const charge of ledger.charges) {
+        if (balance <= 0) {
+          break;
+        }
+
+        if (charge.outstanding <= 0) {
+          continue;
+        }
+
+        const amount = this.round(Math.min(balance, charge.outstanding));
+        const wallet = await this.recordTransaction(tenantId, cooperativeId, {
+          type: WalletTransactionType.APPLIED,
+          amount: -amount,
+          paymentTypeId: charge.paymentTypeId,
+          periodIdentifier: charge.periodIdentifier,
+          description: `Applied to ${charge.paymentTypeName} ${charge.periodIdentifier}`,
+        });
+
+        if (!wallet) {
+          break;
+        }
+
+        balance = wallet.balance;
+        counters.appliedAmount = this.round(counters.appliedAmount + amount);
+      }
+
+      if (counters.creditedAmount > 0 || counters.appliedAmount > 0) {
+        this.logger.log(
+          `Wallet of tenant ${tenantId} in cooperative ${cooperativeId}: credited ${counters.creditedAmount} RWF, applied ${counters.appliedAmount} RWF`,
+        );
+      }
+
+      return counters;
+    } finally {
+      this.syncing.delete(key);
+    }
+  }
+
+  /**
+   * Move money in or out of a wallet. Returns null when the wallet does not
+   * hold enough for a debit, or when the payment no longer has the expected
+   * funding in the wallet
+   */
+  private async recordTransaction(
+    tenantId: string,
+    cooperativeId: string,
+    data: Omit<
+      Prisma.WalletTransactionUncheckedCreateInput,
+      'walletId' | 'balanceAfter'
+    >,
+    options: {
+      tx?: Prisma.TransactionClient;
+      // Prepayments and refunds of data.paymentId the amount was worked out from
+      expectedFunding?: number;
+    } = {},
+  ): Promise<TenantWallet | null> {
+    const record = async (tx: Prisma.TransactionClient) => {
+      const wallet = await tx.tenantWallet.upsert({
+        where: { tenantId_cooperativeId: { tenantId, cooperativeId } },
+        create: { tenantId, cooperativeId },
+        update: {},
+      });
+
+      // A sync that credited the payment first changed its funding. One
+      // running at the same time fails on the wallet write below instead
+      if (options.expectedFunding !== undefined) {
+        const funding = await tx.walletTransaction.aggregate({
+          where: {
+            walletId: wallet.id,
+            paymentId: data.paymentId,
+            type: {
+              in: [
+                WalletTransactionType.PREPAYMENT,
+                WalletTransactionType.REFUND,
+              ],
+            },
+          },
+          _sum: { amount: true },
+        });
+
+        if (
+          this.round(funding._sum.amount ?? 0) !==
+          this.round(options.expectedFunding)
+        ) {
+          return null;
+        }
+      }
+
+      const { count } = await tx.tenantWallet.updateMany({
+        where: {
+          id: wallet.id,
+          ...(data.amount < 0 && { balance: { gte: -data.amount } }),
+        },
+        data: { balance: { increment: data.amount } },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const updated = await tx.tenantWallet.findUniqueOrThrow({
+        where: { id: wallet.id },
+      });
+
+      await tx.walletTransaction.create({
+        data: {
+          ...data,
+          walletId: wallet.id,
+          balanceAfter: this.round(updated.balance),
+        },
+      });
+
+      return updated;
+    };
+
+    // Join the caller's transaction when there is one
+    return options.tx
+      ? record(options.tx)
+      : this.prismaService.$transaction(record);
+  }
+
+  private mapToResponseDto(
+    wallet: TenantWallet & {
+      tenant?: {
+        firstName: string | null;
+        lastName: string | null;
+        phone: string;
+      };
+    },
+  ): WalletResponseDto {
+    return {
+      tenantId: wallet.tenantId,
+      tenantName: wallet.tenant
+        ? [wallet.tenant.firstName, wallet.tenant.lastName]
+            .filter(Boolean)
+            .join(' ') || wallet.tenant.phone
+        : undefined,
+      phone: wallet.tenant?.phone,
+      cooperativeId: wallet.cooperativeId,
+      balance: this.round(wallet.balance),
+      updatedAt: wallet.updatedAt,
+    };
+  }
+
+  private mapToTransactionResponseDto(
+    transaction: WalletTransaction,
+  ): WalletTransactionResponseDto {
+    return {
+      id: transaction.id,
+      type: transaction.type,
+      amount: transaction.amount,
+      balanceAfter: transaction.balanceAfter,
+      paymentId: transaction.paymentId ?? undefined,
+      paymentTypeId: transaction.paymentTypeId ?? undefined,
+      periodIdentifier: transaction.periodIdentifier ?? undefined,
+      description: transaction.description,
+      createdAt: transaction.createdAt,
+    };
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,384 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BalanceTransactionStatus,
+  UserRole,
+  WithdrawalDestinationType,
+  WithdrawalStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ActivityService } from '../../activity/application/activity.service';
+import {
+  InsufficientLedgerFundsException,
+  JournalEntryInput,
+  LedgerAccounts,
+  LedgerService,
+} from '../../ledger/application/ledger.service';
+import { CreateWithdrawalDto } from '../presentation/dto/create-withdrawal.dto';
+import { BalanceService } from './balance.service';
+import { WithdrawalContext, WithdrawalService } from './withdrawal.service';
+
+const COOPERATIVE_ID = '65f000000000000000000001';
+
+const organizationAdmin: WithdrawalContext = {
+  userId: 'org-admin',
+  cooperativeId: COOPERATIVE_ID,
+  userRole: UserRole.ORGANIZATION_ADMIN,
+};
+
+const superAdmin: WithdrawalContext = {
+  userId: 'super-admin',
+  userRole: UserRole.SUPER_ADMIN,
+};
+
+const withdrawalDto: CreateWithdrawalDto = {
+  amount: 250000,
+  destinationType: WithdrawalDestinationType.BANK_ACCOUNT,
+  destinationAccountName: 'Kigali Housing Cooperative',
+  destinationAccountNumber: '00040-0123456-78',
+};
+
+describe('WithdrawalService', () => {
+  let service: WithdrawalService;
+  let prisma: {
+    $transaction: jest.Mock;
+    cooperativeBalance: { update: jest.Mock };
+    withdrawal: Record<
+      'findUnique' | 'findUniqueOrThrow' | 'create' | 'update' | 'updateMany',
+      jest.Mock
+    >;
+    balanceTransaction: Record<'create' | 'update', jest.Mock>;
+  };
+  let ledgerService: { postJournalEntry: jest.Mock };
+
+  const withdrawal = (status: WithdrawalStatus) => ({
+    id: 'withdrawal-1',
+    amount: 250000,
+    status,
+    cooperativeId: COOPERATIVE_ID,
+    cooperativeBalanceId: 'balance-1',
+    balanceTransactionId: 'balance-transaction-1',
+    metadata: null,
+    cooperative: { id: COOPERATIVE_ID, name: 'Cooperative', code: 'COOP' },
+  });
+
+  const postedEntry = (call = 0) =>
+    (ledgerService.postJournalEntry.mock.calls[call] as [JournalEntryInput])[0];
+
+  beforeEach(async () => {
+    prisma = {
+      $transaction: jest.fn(),
+      cooperativeBalance: { update: jest.fn().mockResolvedValue({}) },
+      withdrawal: {
+        findUnique: jest.fn(),
+        findUniqueOrThrow: jest.fn(),
+        create: jest
+          .fn()
+          .mockResolvedValue(withdrawal(WithdrawalStatus.PENDING)),
+        update: jest
+          .fn()
+          .mockResolvedValue(withdrawal(WithdrawalStatus.PENDING)),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      balanceTransaction: {
+        create: jest.fn().mockResolvedValue({ id: 'balance-transaction-1' }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+    };
+    prisma.$transaction.mockImplementation(
+      (callback: (tx: typeof prisma) => Promise<unknown>) => callback(prisma),
+    );
+    ledgerService = { postJournalEntry: jest.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WithdrawalService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: BalanceService,
+          useValue: {
+            getOrCreateCooperativeBalance: jest
+              .fn()
+              .mockResolvedValue({ id: 'balance-1' }),
+          },
+        },
+        {
+          provide: ActivityService,
+          useValue: { createActivity: jest.fn().mockResolvedValue({}) },
+        },
+        { provide: LedgerService, useValue: ledgerService },
+      ],
+    }).compile();
+
+    service = module.get(WithdrawalService);
+  });
+
+  describe('requestWithdrawal', () => {
+    it('holds the amount and records a pending withdrawal', async () => {
+      const response = await service.requestWithdrawal(
+        withdrawalDto,
+        organizationAdmin,
+      );
+
+      expect(response.status).toBe(WithdrawalStatus.PENDING);
+      expect(postedEntry()).toMatchObject({
+        idempotencyKey: 'withdrawal:withdrawal-1:hold',
+        postings: [
+          {
+            accountCode: LedgerAccounts.cooperativeFunds(COOPERATIVE_ID),
+            requireFunds: true,
+          },
+          { accountCode: LedgerAccounts.cooperativeHeld(COOPERATIVE_ID) },
+        ],
+      });
+      expect(prisma.cooperativeBalance.update).toHaveBeenCalledWith({
+        where: { id: 'balance-1' },
+        data: {
+          currentBalance: { decrement: 250000 },
+          heldBalance: { increment: 250000 },
+        },
+      });
+      expect(prisma.withdrawal.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { balanceTransactionId: 'balance-transaction-1' },
+        }),
+      );
+    });
+
+    it('rejects withdrawals the ledger balance cannot cover', async () => {
+      ledgerService.postJournalEntry.mockRejectedValue(
+        new InsufficientLedgerFundsException(
+          LedgerAccounts.cooperativeFunds(COOPERATIVE_ID),
+        ),
+      );
+
+      await expect(
+        service.requestWithdrawal(withdrawalDto, organizationAdmin),
+      ).rejects.toThrow('Insufficient cooperative balance for this withdrawal');
+      expect(prisma.cooperativeBalance.update).not.toHaveBeenCalled();
+      expect(prisma.balanceTransaction.create).not.toHaveBeenCalled();
+    });
+
+    it('only lets organization admins request withdrawals', async () => {
+      await expect(
+        service.requestWithdrawal(withdrawalDto, superAdmin),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('approveWithdrawal', () => {
+    it('moves a pending withdrawal to PROCESSING and keeps the hold', async () => {
+      prisma.withdrawal.findUnique.mockResolvedValue(
+        withdrawal(WithdrawalStatus.PENDING),
+      );
+      prisma.withdrawal.findUniqueOrThrow.mockResolvedValue(
+        withdrawal(WithdrawalStatus.PROCESSING),
+      );
+
+      const response = await service.approveWithdrawal(
+        'withdrawal-1',
+        superAdmin,
+      );
+
+      expect(response.status).toBe(WithdrawalStatus.PROCESSING);
+      expect(prisma.withdrawal.updateMany).toHaveBeenCalledWith({
+        where: { id: 'withdrawal-1', status: WithdrawalStatus.PENDING },
+        data: expect.objectContaining({
+          status: WithdrawalStatus.PROCESSING,
+          approvedBy: 'super-admin',
+        }) as object,
+      });
+      expect(prisma.balanceTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'balance-transaction-1' },
+        data: {
+          status: BalanceTransactionStatus.PROCESSING,
+          approvedBy: 'super-admin',
+        },
+      });
+      expect(prisma.cooperativeBalance.update).not.toHaveBeenCalled();
+      expect(ledgerService.postJournalEntry).not.toHaveBeenCalled();
+    });
+
+    it('refuses withdrawals that are no longer pending', async () => {
+      prisma.withdrawal.findUnique.mockResolvedValue(
+        withdrawal(WithdrawalStatus.REJECTED),
+      );
+      prisma.withdrawal.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.approveWithdrawal('withdrawal-1', superAdmin),
+      ).rejects.toThrow(
+        new BadRequestException('Withdrawal must be PENDING for this action'),
+      );
+      expect(prisma.balanceTransaction.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeWithdrawal', () => {
+    it('pays the held amount out of the balance', async () => {
+      prisma.withdrawal.findUnique.mockResolvedValue(
+        withdrawal(WithdrawalStatus.PROCESSING),
+      );
+      prisma.withdrawal.findUniqueOrThrow.mockResolvedValue(
+        withdrawal(WithdrawalStatus.COMPLETED),
+      );
+
+      await service.completeWithdrawal(
+        'withdrawal-1',
+        { externalReference: 'BK-123' },
+        superAdmin,
+      );
+
+      expect(prisma.withdrawal.updateMany).toHaveBeenCalledWith({
+        where: { id: 'withdrawal-1', status: WithdrawalStatus.PROCESSING },
+        data: expect.objectContaining({
+          status: WithdrawalStatus.COMPLETED,
+          externalReference: 'BK-123',
+        }) as object,
+      });
+      expect(postedEntry()).toMatchObject({
+        idempotencyKey: 'withdrawal:withdrawal-1:payout',
+        postings: [
+          { accountCode: LedgerAccounts.cooperativeHeld(COOPERATIVE_ID) },
+          { accountCode: LedgerAccounts.GATEWAY_CLEARING },
+        ],
+      });
+      expect(prisma.cooperativeBalance.update).toHaveBeenCalledWith({
+        where: { id: 'balance-1' },
+        data: expect.objectContaining({
+          heldBalance: { decrement: 250000 },
+          totalWithdrawn: { increment: 250000 },
+        }) as object,
+      });
+    });
+
+    it('refuses withdrawals that were not approved', async () => {
+      prisma.withdrawal.findUnique.mockResolvedValue(
+        withdrawal(WithdrawalStatus.PENDING),
+      );
+      prisma.withdrawal.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.completeWithdrawal(
+          'withdrawal-1',
+          { externalReference: 'BK-123' },
+          superAdmin,
+        ),
+      ).rejects.toThrow('Withdrawal must be PROCESSING for this action');
+      expect(ledgerService.postJournalEntry).not.toHaveBeenCalled();
+      expect(prisma.cooperativeBalance.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releasing the hold', () => {
+    const expectRelease = (status: BalanceTransactionStatus) => {
+      expect(postedEntry()).toMatchObject({
+        idempotencyKey: 'withdrawal:withdrawal-1:release',
+        postings: [
+          { accountCode: LedgerAccounts.cooperativeHeld(COOPERATIVE_ID) },
+          { accountCode: LedgerAccounts.cooperativeFunds(COOPERATIVE_ID) },
+        ],
+      });
+      expect(prisma.cooperativeBalance.update).toHaveBeenCalledWith({
+        where: { id: 'balance-1' },
+        data: {
+          currentBalance: { increment: 250000 },
+          heldBalance: { decrement: 250000 },
+        },
+      });
+      expect(prisma.balanceTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'balance-transaction-1' },
+        data: expect.objectContaining({ status }) as object,
+      });
+    };
+
+    it('returns the funds when a pending withdrawal is rejected', async () => {
+      prisma.withdrawal.findUnique.mockResolvedValue(
+        withdrawal(WithdrawalStatus.PENDING),
+      );
+      prisma.withdrawal.findUniqueOrThrow.mockResolvedValue(
+        withdrawal(WithdrawalStatus.REJECTED),
+      );
+
+      await service.rejectWithdrawal(
+        'withdrawal-1',
+        { reason: 'Wrong account' },
+        superAdmin,
+      );
+
+      expect(prisma.withdrawal.updateMany).toHaveBeenCalledWith({
+        where: { id: 'withdrawal-1', status: WithdrawalStatus.PENDING },
+        data: expect.objectContaining({
+          status: WithdrawalStatus.REJECTED,
+          rejectionReason: 'Wrong account',
+        }) as object,
+      });
+      expectRelease(BalanceTransactionStatus.CANCELLED);
+    });
+
+    it('returns the funds when the requester cancels', async () => {
+      prisma.withdrawal.findUnique.mockResolvedValue(
+        withdrawal(WithdrawalStatus.PENDING),
+      );
+      prisma.withdrawal.findUniqueOrThrow.mockResolvedValue(
+        withdrawal(WithdrawalStatus.CANCELLED),
+      );
+
+      await service.cancelWithdrawal('withdrawal-1', organizationAdmin);
+
+      expect(prisma.withdrawal.updateMany).toHaveBeenCalledWith({
+        where: { id: 'withdrawal-1', status: WithdrawalStatus.PENDING },
+        data: { status: WithdrawalStatus.CANCELLED },
+      });
+      expectRelease(BalanceTransactionStatus.CANCELLED);
+    });
+
+    it('returns the funds when the payout fails', async () => {
+      prisma.withdrawal.findUnique.mockResolvedValue(
+        withdrawal(WithdrawalStatus.PROCESSING),
+      );
+      prisma.withdrawal.findUniqueOrThrow.mockResolvedValue(
+        withdrawal(WithdrawalStatus.FAILED),
+      );
+
+      await service.failWithdrawal(
+        'withdrawal-1',
+        { reason: 'Account closed' },
+        superAdmin,
+      );
+
+      expect(prisma.withdrawal.updateMany).toHaveBeenCalledWith({
+        where: { id: 'withdrawal-1', status: WithdrawalStatus.PROCESSING },
+        data: expect.objectContaining({
+          status: WithdrawalStatus.FAILED,
+          failureReason: 'Account closed',
+        }) as object,
+      });
+      expectRelease(BalanceTransactionStatus.REVERSED);
+    });
+
+    it('releases a hold only once', async () => {
+      prisma.withdrawal.findUnique.mockResolvedValue(
+        withdrawal(WithdrawalStatus.CANCELLED),
+      );
+      prisma.withdrawal.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.cancelWithdrawal('withdrawal-1', organizationAdmin),
+      ).rejects.toThrow(BadRequestException);
+      expect(ledgerService.postJournalEntry).not.toHaveBeenCalled();
+      expect(prisma.cooperativeBalance.update).not.toHaveBeenCalled();
+    });
+  });
+
+  it('hides withdrawals of other cooperatives', async () => {
+    prisma.withdrawal.findUnique.mockResolvedValue({
+      ...withdrawal(WithdrawalStatus.PENDING),
+      cooperativeId: '65f000000000000000000002',
+    });
+
+    await expect(
+      service.cancelWithdrawal('withdrawal-1', organizationAdmin),
+    ).rejects.toThrow('Withdrawal not found');
+  });
+});
@@ -0,0 +1,637 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ActivityType,
+  BalanceTransactionStatus,
+  BalanceTransactionType,
+  LedgerEntryDirection,
+  Prisma,
+  UserRole,
+  WithdrawalStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ActivityService } from '../../activity/application/activity.service';
+import {
+  InsufficientLedgerFundsException,
+  LedgerService,
+  LedgerAccounts,
+} from '../../ledger/application/ledger.service';
+import { BalanceService } from './balance.service';
+import { CreateWithdrawalDto } from '../presentation/dto/create-withdrawal.dto';
+import {
+  CompleteWithdrawalDto,
+  FailWithdrawalDto,
+  RejectWithdrawalDto,
+} from '../presentation/dto/process-withdrawal.dto';
+import { WithdrawalFilterDto } from '../presentation/dto/withdrawal-filter.dto';
+import { WithdrawalResponseDto } from '../presentation/dto/withdrawal-response.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+
+export interface WithdrawalContext {
+  userId: string;
+  cooperativeId?: string;
+  userRole: UserRole;
+}
+
+const WITHDRAWAL_INCLUDE = {
+  cooperative: {
+    select: {
+      id: true,
+      name: true,
+      code: true,
+    },
+  },
+} as const;
+
+type WithdrawalWithCooperative = Prisma.WithdrawalGetPayload<{
+  include: typeof WITHDRAWAL_INCLUDE;
+}>;
+
+@Injectable()
+export class WithdrawalService {
+  private readonly logger = new Logger(WithdrawalService.name);
+
+  constructor(
+    private prismaService: PrismaService,
+    private balanceService: BalanceService,
+    private activityService: ActivityService,
+    private ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * Request a payout from the cooperative balance.
+   * The amount is moved from the cooperative's available funds to its held
+   * funds in the ledger until the withdrawal is settled or released.
+   */
+  async requestWithdrawal(
+    createWithdrawalDto: CreateWithdrawalDto,
+    context: WithdrawalContext,
+  ): Promise<WithdrawalResponseDto> {
+    if (context.userRole !== UserRole.ORGANIZATION_ADMIN) {
+      throw new ForbiddenException(
+        'Only organization admins can request withdrawals',
+      );
+    }
+
+    if (!context.cooperativeId) {
+      throw new BadRequestException(
+        'Organization admin is not linked to a cooperative',
+      );
+    }
+
+    const cooperativeId = context.cooperativeId;
+    const { amount } = createWithdrawalDto;
+    const balance =
+      await this.balanceService.getOrCreateCooperativeBalance(cooperativeId);
+
+    const withdrawal = await this.prismaService.$transaction(async (tx) => {
+      const created = await tx.withdrawal.create({
+        data: {
+          amount,
+          status: WithdrawalStatus.PENDING,
+          reason: createWithdrawalDto.reason,
+          cooperativeId,
+          cooperativeBalanceId: balance.id,
+          destinationType: createWithdrawalDto.destinationType,
+          destinationAccountName: createWithdrawalDto.destinationAccountName,
+          destinationAccountNumber:
+            createWithdrawalDto.destinationAccountNumber,
+          destinationProvider: createWithdrawalDto.destinationProvider,
+          requestedBy: context.userId,
+        },
+      });
+
+      // The ledger only moves the funds while the cooperative still has them,
+      // so concurrent requests cannot overdraw the balance
+      try {
+        await this.postLedgerMovement(
+          tx,
+          created,
+          'hold',
+          LedgerAccounts.cooperativeFunds(cooperativeId),
+          LedgerAccounts.cooperativeHeld(cooperativeId),
+        );
+      } catch (error) {
+        if (error instanceof InsufficientLedgerFundsException) {
+          throw new BadRequestException(
+            'Insufficient cooperative balance for this withdrawal',
+          );
+        }
+        throw error;
+      }
+
+      await tx.cooperativeBalance.update({
+        where: { id: balance.id },
+        data: {
+          currentBalance: { decrement: amount },
+          heldBalance: { increment: amount },
+        },
+      });
+
+      const balanceTransaction = await tx.balanceTransaction.create({
+        data: {
+          type: BalanceTransactionType.DEBIT_WITHDRAWAL,
+          amount,
+          description: `Withdrawal to ${createWithdrawalDto.destinationAccountName}`,
+          referenceId: created.id,
+          cooperativeBalanceId: balance.id,
+          status: BalanceTransactionStatus.PENDING,
+          metadata: {
+            withdrawalId: created.id,
+            destinationType: createWithdrawalDto.destinationType,
+            destinationAccountNumber:
+              createWithdrawalDto.destinationAccountNumber,
+            destinationProvider: createWithdrawalDto.destinationProvider,
+          },
+        },
+      });
+
+      return tx.withdrawal.update({
+        where: { id: created.id },
+        data: { balanceTransactionId: balanceTransaction.id },
+        include: WITHDRAWAL_INCLUDE,
+      });
+    });
+
+    this.logger.log(
+      `Withdrawal ${withdrawal.id} of ${amount} RWF requested for cooperative ${cooperativeId}`,
+    );
+
+    await this.logWithdrawalActivity(
+      ActivityType.WITHDRAWAL_REQUESTED,
+      'Withdrawal Requested',
+      `Withdrawal of ${amount} RWF requested`,
+      withdrawal,
+      context,
+    );
+
+    return this.mapToResponseDto(withdrawal);
+  }
+
+  async findAll(
+    filterDto: WithdrawalFilterDto,
+    context: WithdrawalContext,
+  ): Promise<PaginatedResponseDto<WithdrawalResponseDto>> {
+    const { page, limit, skip, sortBy, sortOrder } = filterDto;
+
+    const where: Prisma.WithdrawalWhereInput = {};
+
+    if (context.userRole === UserRole.SUPER_ADMIN) {
+      if (filterDto.cooperativeId) {
+        where.cooperativeId = filterDto.cooperativeId;
+      }
+    } else {
+      // Organization admins only see their own cooperative's withdrawals
+      where.cooperativeId = context.cooperativeId;
+    }
+
+    if (filterDto.status) {
+      where.status = filterDto.status;
+    }
+
+    if (filterDto.fromDate || filterDto.toDate) {
+      where.createdAt = {
+        ...(filterDto.fromDate && { gte: new Date(filterDto.fromDate) }),
+        ...(filterDto.toDate && { lte: new Date(filterDto.toDate) }),
+      };
+    }
+
+    const orderBy: Prisma.WithdrawalOrderByWithRelationInput = sortBy
+      ? { [sortBy]: sortOrder }
+      : { createdAt: 'desc' };
+
+    const [withdrawals, total] = await Promise.all([
+      this.prismaService.withdrawal.findMany({
+        where,
+        orderBy,
+        skip,
+        take: limit,
+        include: WITHDRAWAL_INCLUDE,
+      }),
+      this.prismaService.withdrawal.count({ where }),
+    ]);
+
+    return new PaginatedResponseDto(
+      withdrawals.map((withdrawal) => this.mapToResponseDto(withdrawal)),
+      total,
+      page || 1,
+      limit || 10,
+    );
+  }
+
+  async findById(
+    id: string,
+    context: WithdrawalContext,
+  ): Promise<WithdrawalResponseDto> {
+    const withdrawal = await this.findAccessibleWithdrawal(id, context);
+    return this.mapToResponseDto(withdrawal);
+  }
+
+  /**
+   * Approve a pending withdrawal. Funds stay held while the payout is sent.
+   */
+  async approveWithdrawal(
+    id: string,
+    context: WithdrawalContext,
+  ): Promise<WithdrawalResponseDto> {
+    const withdrawal = await this.findAccessibleWithdrawal(id, context);
+    const now = new Date();
+
+    const updated = await this.prismaService.$transaction(async (tx) => {
+      await this.transitionStatus(tx, withdrawal.id, WithdrawalStatus.PENDING, {
+        status: WithdrawalStatus.PROCESSING,
+        approvedBy: context.userId,
+        approvedAt: now,
+      });
+
+      if (withdrawal.balanceTransactionId) {
+        await tx.balanceTransaction.update({
+          where: { id: withdrawal.balanceTransactionId },
+          data: {
+            status: BalanceTransactionStatus.PROCESSING,
+            approvedBy: context.userId,
+          },
+        });
+      }
+
+      return tx.withdrawal.findUniqueOrThrow({
+        where: { id: withdrawal.id },
+        include: WITHDRAWAL_INCLUDE,
+      });
+    });
+
+    await this.logWithdrawalActivity(
+      ActivityType.WITHDRAWAL_APPROVED,
+      'Withdrawal Approved',
+      `Withdrawal of ${withdrawal.amount} RWF approved for payout`,
+      updated,
+      context,
+    );
+
+    return this.mapToResponseDto(updated);
+  }
+
+  /**
+   * Reject a pending withdrawal and release the held funds.
+   */
+  async rejectWithdrawal(
+    id: string,
+    rejectDto: RejectWithdrawalDto,
+    context: WithdrawalContext,
+  ): Promise<WithdrawalResponseDto> {
+    const withdrawal = await this.findAccessibleWithdrawal(id, context);
+
+    const updated = await this.releaseHold(
+      withdrawal,
+      WithdrawalStatus.PENDING,
+      {
+        status: WithdrawalStatus.REJECTED,
+        approvedBy: context.userId,
+        approvedAt: new Date(),
+        rejectionReason: rejectDto.reason,
+      },
+      BalanceTransactionStatus.CANCELLED,
+      rejectDto.reason,
+    );
+
+    await this.logWithdrawalActivity(
+      ActivityType.WITHDRAWAL_REJECTED,
+      'Withdrawal Rejected',
+      `Withdrawal of ${withdrawal.amount} RWF rejected: ${rejectDto.reason}`,
+      updated,
+      context,
+    );
+
+    return this.mapToResponseDto(updated);
+  }
+
+  /**
+   * Cancel a pending withdrawal on behalf of the requesting cooperative.
+   */
+  async cancelWithdrawal(
+    id: string,
+    context: WithdrawalContext,
+  ): Promise<WithdrawalResponseDto> {
+    const withdrawal = await this.findAccessibleWithdrawal(id, context);
+
+    const updated = await this.releaseHold(
+      withdrawal,
+      WithdrawalStatus.PENDING,
+      { status: WithdrawalStatus.CANCELLED },
+      BalanceTransactionStatus.CANCELLED,
+      'Cancelled by requester',
+    );
+
+    return this.mapToResponseDto(updated);
+  }
+
+  /**
+   * Mark an approved payout as sent. The held amount leaves the balance for good.
+   */
+  async completeWithdrawal(
+    id: string,
+    completeDto: CompleteWithdrawalDto,
+    context: WithdrawalContext,
+  ): Promise<WithdrawalResponseDto> {
+    const withdrawal = await this.findAccessibleWithdrawal(id, context);
+    const now = new Date();
+
+    const updated = await this.prismaService.$transaction(async (tx) => {
+      await this.transitionStatus(
+        tx,
+        withdrawal.id,
+        WithdrawalStatus.PROCESSING,
+        {
+          status: WithdrawalStatus.COMPLETED,
+          processedBy: context.userId,
+          processedAt: now,
+          externalReference: completeDto.externalReference,
+          ...(completeDto.notes && {
+            metadata: {
+              ...((withdrawal.metadata as Record<string, any>) || {}),
+              settlementNotes: completeDto.notes,
+            },
+          }),
+        },
+      );
+
+      await this.postLedgerMovement(
+        tx,
+        withdrawal,
+        'payout',
+        LedgerAccounts.cooperativeHeld(withdrawal.cooperativeId),
+        LedgerAccounts.GATEWAY_CLEARING,
+      );
+
+      await tx.cooperativeBalance.update({
+        where: { id: withdrawal.cooperativeBalanceId },
+        data: {
+          heldBalance: { decrement: withdrawal.amount },
+          totalWithdrawn: { increment: withdrawal.amount },
+          lastWithdrawalAt: now,
+        },
+      });
+
+      if (withdrawal.balanceTransactionId) {
+        await tx.balanceTransaction.update({
+          where: { id: withdrawal.balanceTransactionId },
+          data: {
+            status: BalanceTransactionStatus.COMPLETED,
+            processedBy: context.userId,
+            processedAt: now,
+            externalReference: completeDto.externalReference,
+          },
+        });
+      }
+
+      return tx.withdrawal.findUniqueOrThrow({
+        where: { id: withdrawal.id },
+        include: WITHDRAWAL_INCLUDE,
+      });
+    });
+
+    this.logger.log(
+      `Withdrawal ${withdrawal.id} settled with reference ${completeDto.externalReference}`,
+    );
+
+    await this.logWithdrawalActivity(
+      ActivityType.WITHDRAWAL_COMPLETED,
+      'Withdrawal Completed',
+      `Withdrawal of ${withdrawal.amount} RWF paid out (ref ${completeDto.externalReference})`,
+      updated,
+      context,
+    );
+
+    return this.mapToResponseDto(updated);
+  }
+
+  /**
+   * Record a failed payout and return the held funds to the cooperative.
+   */
+  async failWithdrawal(
+    id: string,
+    failDto: FailWithdrawalDto,
+    context: WithdrawalContext,
+  ): Promise<WithdrawalResponseDto> {
+    const withdrawal = await this.findAccessibleWithdrawal(id, context);
+
+    const updated = await this.releaseHold(
+      withdrawal,
+      WithdrawalStatus.PROCESSING,
+      {
+        status: WithdrawalStatus.FAILED,
+        processedBy: context.userId,
+        processedAt: new Date(),
+        failureReason: failDto.reason,
+      },
+      BalanceTransactionStatus.REVERSED,
+      failDto.reason,
+    );
+
+    await this.logWithdrawalActivity(
+      ActivityType.WITHDRAWAL_FAILED,
+      'Withdrawal Failed',
+      `Withdrawal of ${withdrawal.amount} RWF failed: ${failDto.reason}`,
+      updated,
+      context,
+    );
+
+    return this.mapToResponseDto(updated);
+  }
+
+  /**
+   * Move a withdrawal out of the hold and back into the available balance
+   */
+  private async releaseHold(
+    withdrawal: WithdrawalWithCooperative,
+    expectedStatus: WithdrawalStatus,
+    withdrawalData: Prisma.WithdrawalUpdateManyMutationInput,
+    balanceTransactionStatus: BalanceTransactionStatus,
+    reason: string,
+  ) {
+    return this.prismaService.$transaction(async (tx) => {
+      await this.transitionStatus(
+        tx,
+        withdrawal.id,
+        expectedStatus,
+        withdrawalData,
+      );
+
+      await this.postLedgerMovement(
+        tx,
+        withdrawal,
+        'release',
+        LedgerAccounts.cooperativeHeld(withdrawal.cooperativeId),
+        LedgerAccounts.cooperativeFunds(withdrawal.cooperativeId),
+      );
+
+      await tx.cooperativeBalance.update({
+        where: { id: withdrawal.cooperativeBalanceId },
+        data: {
+          currentBalance: { increment: withdrawal.amount },
+          heldBalance: { decrement: withdrawal.amount },
+        },
+      });
+
+      if (withdrawal.balanceTransactionId) {
+        await tx.balanceTransaction.update({
+          where: { id: withdrawal.balanceTransactionId },
+          data: {
+            status: balanceTransactionStatus,
+            failureReason: reason,
+            processedAt: new Date(),
+          },
+        });
+      }
+
+      return tx.withdrawal.findUniqueOrThrow({
+        where: { id: withdrawal.id },
+        include: WITHDRAWAL_INCLUDE,
+      });
+    });
+  }
+
+  /**
+   * Record a withdrawal step in the ledger, debiting one account and crediting the other
+   * The debited cooperative account must cover the amount
+   */
+  private async postLedgerMovement(
+    tx: Prisma.TransactionClient,
+    withdrawal: { id: string; amount: number },
+    step: 'hold' | 'release' | 'payout',
+    debitAccountCode: string,
+    creditAccountCode: string,
+  ): Promise<void> {
+    await this.ledgerService.postJournalEntry(
+      {
+        description: `Withdrawal ${withdrawal.id} ${step}`,
+        referenceType: 'WITHDRAWAL',
+        referenceId: withdrawal.id,
+        idempotencyKey: `withdrawal:${withdrawal.id}:${step}`,
+        postings: [
+          {
+            accountCode: debitAccountCode,
+            direction: LedgerEntryDirection.DEBIT,
+            amount: withdrawal.amount,
+            requireFunds: true,
+          },
+          {
+            accountCode: creditAccountCode,
+            direction: LedgerEntryDirection.CREDIT,
+            amount: withdrawal.amount,
+          },
+        ],
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Update the withdrawal only if it is still in the expected status, so two
+   * admins acting at the same time cannot settle or release the same hold twice.
+   */
+  private async transitionStatus(
+    tx: Prisma.TransactionClient,
+    withdrawalId: string,
+    expectedStatus: WithdrawalStatus,
+    data: Prisma.WithdrawalUpdateManyMutationInput,
+  ): Promise<void> {
+    const result = await tx.withdrawal.updateMany({
+      where: { id: withdrawalId, status: expectedStatus },
+      data,
+    });
+
+    if (result.count === 0) {
+      throw new BadRequestException(
+        `Withdrawal must be ${expectedStatus} for this action`,
+      );
+    }
+  }
+
+  private async findAccessibleWithdrawal(
+    id: string,
+    context: WithdrawalContext,
+  ): Promise<WithdrawalWithCooperative> {
+    const withdrawal = await this.prismaService.withdrawal.findUnique({
+      where: { id },
+      include: WITHDRAWAL_INCLUDE,
+    });
+
+    if (!withdrawal) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+
+    if (
+      context.userRole !== UserRole.SUPER_ADMIN &&
+      withdrawal.cooperativeId !== context.cooperativeId
+    ) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+
+    return withdrawal;
+  }
+
+  private async logWithdrawalActivity(
+    type: ActivityType,
+    title: string,
+    description: string,
+    withdrawal: WithdrawalWithCooperative,
+    context: WithdrawalContext,
+  ): Promise<void> {
+    try {
+      await this.activityService.createActivity(
+        {
+          type,
+          title,
+          description,
+          metadata: {
+            withdrawalId: withdrawal.id,
+            amount: withdrawal.amount,
+            status: withdrawal.status,
+            balanceTransactionId: withdrawal.balanceTransactionId,
+          },
+        },
+        {
+          userId: context.userId,
+          cooperativeId: withdrawal.cooperativeId,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to log activity for withdrawal ${withdrawal.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private mapToResponseDto(
+    withdrawal: WithdrawalWithCooperative,
+  ): WithdrawalResponseDto {
+    return {
+      id: withdrawal.id,
+      amount: withdrawal.amount,
+      status: withdrawal.status,
+      reason: withdrawal.reason ?? undefined,
+      destinationType: withdrawal.destinationType,
+      destinationAccountName: withdrawal.destinationAccountName,
+      destinationAccountNumber: withdrawal.destinationAccountNumber,
+      destinationProvider: withdrawal.destinationProvider ?? undefined,
+      requestedBy: withdrawal.requestedBy ?? undefined,
+      approvedBy: withdrawal.approvedBy ?? undefined,
+      approvedAt: withdrawal.approvedAt ?? undefined,
+      processedBy: withdrawal.processedBy ?? undefined,
+      processedAt: withdrawal.processedAt ?? undefined,
+      rejectionReason: withdrawal.rejectionReason ?? undefined,
+      failureReason: withdrawal.failureReason ?? undefined,
+      externalReference: withdrawal.externalReference ?? undefined,
+      balanceTransactionId: withdrawal.balanceTransactionId ?? undefined,
+      cooperative: withdrawal.cooperative,
+      createdAt: withdrawal.createdAt,
+      updatedAt: withdrawal.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,316 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentGatewayProvider, PaymentMethodType } from '@prisma/client';
+import {
+  PaymentGatewayInterface,
+  PaymentGatewayRequest,
+  PaymentGatewayResponse,
+  PaymentGatewayStatus,
+  PaymentGatewayRefundRequest,
+  PaymentGatewayRefundResponse,
+  PaymentGatewayRefundStatus,
+} from './payment-gateway.interface';
+import {
+  classifyGatewayError,
+  GatewayHttpError,
+  GatewayNotSentError,
+} from './payment-gateway.errors';
+
+interface AirtelTokenResponse {
+  access_token: string;
+  expires_in: string | number;
+}
+
+interface AirtelResponse<T> {
+  data?: T;
+  status: {
+    code: string;
+    message: string;
+    success: boolean;
+    response_code?: string;
+  };
+}
+
+interface AirtelTransactionStatus {
+  transaction: {
+    id: string;
+    airtel_money_id?: string;
+    message?: string;
+    status: 'TS' | 'TF' | 'TA' | 'TIP' | 'TE';
+  };
+}
+
+/**
+ * Direct Airtel Money collection (USSD push)
+ * Our payment ID is the Airtel transaction ID and the invoice number
+ */
+@Injectable()
+export class AirtelMoneyGateway implements PaymentGatewayInterface {
+  private readonly logger = new Logger(AirtelMoneyGateway.name);
+  readonly provider = PaymentGatewayProvider.AIRTEL_MONEY;
+  readonly supportedMethods = [PaymentMethodType.MOBILE_MONEY_AIRTEL];
+
+  private readonly baseUrl: string;
+  private readonly clientId: string;
+  private readonly clientSecret: string;
+  private readonly country: string;
+
+  private accessToken?: string;
+  private accessTokenExpiresAt = 0;
+
+  constructor(private configService: ConfigService) {
+    this.baseUrl = this.configService.get('AIRTEL_MONEY_BASE_URL') || '';
+    this.clientId = this.configService.get('AIRTEL_MONEY_CLIENT_ID') || '';
+    this.clientSecret =
+      this.configService.get('AIRTEL_MONEY_CLIENT_SECRET') || '';
+    this.country = this.configService.get('AIRTEL_MONEY_COUNTRY') || 'RW';
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl && this.clientId && this.clientSecret);
+  }
+
+  async initiatePayment(
+    request: PaymentGatewayRequest,
+  ): Promise<PaymentGatewayResponse> {
+    try {
+      const response = (await this.makeRequest(
+        '/merchant/v1/payments/',
+        'POST',
+        {
+          reference: request.description || 'Copay payment',
+          subscriber: {
+            country: this.country,
+            currency: request.currency,
+            msisdn: this.toLocalMsisdn(request.paymentAccount),
+          },
+          transaction: {
+            amount: request.amount,
+            country: this.country,
+            currency: request.currency,
+            id: request.reference,
+          },
+        },
+        request.currency,
+      )) as AirtelResponse<AirtelTransactionStatus>;
+
+      if (!response.status?.success) {
+        return {
+          success: false,
+          gatewayTransactionId: '',
+          message: response.status?.message || 'Airtel Money payment failed',
+          failure: 'rejected',
+          data: response,
+        };
+      }
+
+      return {
+        success: true,
+        gatewayTransactionId: request.reference,
+        gatewayReference: request.reference,
+        message: 'Approve the payment on your phone to complete it',
+        data: response,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Payment request failed';
+      this.logger.error(`Airtel Money payment request failed: ${errorMessage}`);
+
+      // Airtel transactions are looked up by our reference
+      return {
+        success: false,
+        gatewayTransactionId: request.reference,
+        gatewayReference: request.reference,
+        message: errorMessage,
+        failure: classifyGatewayError(error),
+        data: { error: errorMessage },
+      };
+    }
+  }
+
+  async getPaymentStatus(
+    gatewayTransactionId: string,
+  ): Promise<PaymentGatewayStatus> {
+    try {
+      const response = (await this.makeRequest(
+        `/standard/v1/payments/${gatewayTransactionId}`,
+        'GET',
+      )) as AirtelResponse<AirtelTransactionStatus>;
+
+      const transaction = response.data?.transaction;
+      const statusMapping: Record<string, PaymentGatewayStatus['status']> = {
+        TS: 'completed',
+        TF: 'failed',
+        TE: 'cancelled',
+        TIP: 'processing',
+        TA: 'processing',
+      };
+
+      return {
+        gatewayTransactionId,
+        status: (transaction && statusMapping[transaction.status]) || 'pending',
+        gatewayReference: transaction?.airtel_money_id,
+        failureReason:
+          transaction?.status === 'TF' ? transaction.message : undefined,
+        data: response,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Status check failed';
+      return {
+        gatewayTransactionId,
+        status: 'failed' as const,
+        failureReason: errorMessage,
+      };
+    }
+  }
+
+  verifyWebhook(): boolean {
+    // Callbacks are only used as a trigger; statuses are confirmed by polling
+    return false;
+  }
+
+  async refundPayment(
+    request: PaymentGatewayRefundRequest,
+  ): Promise<PaymentGatewayRefundResponse> {
+    // Airtel only refunds the full transaction
+    if (
+      request.originalAmount == null ||
+      request.amount < request.originalAmount
+    ) {
+      return {
+        success: false,
+        message: 'Airtel Money only supports refunding the full amount',
+      };
+    }
+
+    try {
+      const status = await this.getPaymentStatus(request.gatewayTransactionId);
+
+      if (status.status !== 'completed' || !status.gatewayReference) {
+        return {
+          success: false,
+          message: 'Only successful Airtel Money payments can be refunded',
+        };
+      }
+
+      const response = (await this.makeRequest(
+        '/standard/v1/payments/refund',
+        'POST',
+        { transaction: { airtel_money_id: status.gatewayReference } },
+      )) as AirtelResponse<{ transaction: { airtel_money_id: string } }>;
+
+      return {
+        success: response.status?.success ?? false,
+        refundReference:
+          response.data?.transaction?.airtel_money_id || request.reference,
+        message: response.status?.message,
+        data: response,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Refund request failed';
+      this.logger.error(
+        `Refund failed for ${request.gatewayTransactionId}: ${errorMessage}`,
+      );
+
+      // A timeout or server error may still have refunded the payer
+      if (classifyGatewayError(error) === 'unknown') {
+        throw error;
+      }
+
+      return {
+        success: false,
+        message: errorMessage,
+        data: { error: errorMessage },
+      };
+    }
+  }
+
+  getRefundStatus(
+    gatewayTransactionId: string,
+    reference: string,
+  ): Promise<PaymentGatewayRefundStatus> {
+    // Airtel has no refund lookup by our reference, so the refund has to be
+    // checked in the Airtel Money portal and resolved by a super admin
+    this.logger.warn(
+      `Refund ${reference} for Airtel Money transaction ${gatewayTransactionId} needs a manual check`,
+    );
+
+    return Promise.resolve({
+      reference,
+      status: 'pending',
+      message: 'Check the refund in the Airtel Money portal',
+    });
+  }
+
+  private toLocalMsisdn(paymentAccount: string): string {
+    // Airtel expects the number without the country code
+    return paymentAccount.replace(/^\+/, '').replace(/^250/, '');
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt) {
+      return this.accessToken;
+    }
+
+    const response = await fetch(`${this.baseUrl}/auth/oauth2/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        grant_type: 'client_credentials',
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Airtel Money token request failed: HTTP ${response.status}`,
+      );
+    }
+
+    const token = (await response.json()) as AirtelTokenResponse;
+    this.accessToken = token.access_token;
+    // Refresh a minute before expiry
+    this.accessTokenExpiresAt =
+      Date.now() + (Number(token.expires_in) - 60) * 1000;
+
+    return this.accessToken;
+  }
+
+  private async makeRequest(
+    endpoint: string,
+    method: string,
+    data?: any,
+    currency: string = 'RWF',
+  ): Promise<any> {
+    const accessToken = await this.getAccessToken().catch((error: Error) => {
+      throw new GatewayNotSentError(error.message);
+    });
+
+    const requestOptions: RequestInit = {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: '*/*',
+        Authorization: `Bearer ${accessToken}`,
+        'X-Country': this.country,
+        'X-Currency': currency,
+      },
+    };
+
+    if (data && method !== 'GET') {
+      requestOptions.body = JSON.stringify(data);
+    }
+
+    const response = await fetch(`${this.baseUrl}${endpoint}`, requestOptions);
+    const responseData: unknown = await response.json();
+
+    if (!response.ok) {
+      throw new GatewayHttpError(response.status, responseData);
+    }
+
+    return responseData;
+  }
+}
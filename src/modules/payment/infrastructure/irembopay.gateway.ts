@@ -2,11 +2,21 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as crypto from 'crypto';
+import { PaymentGatewayProvider, PaymentMethodType } from '@prisma/client';
 import {
+  PaymentGatewayInterface,
   PaymentGatewayRequest,
   PaymentGatewayResponse,
   PaymentGatewayStatus,
+  PaymentGatewayRefundRequest,
+  PaymentGatewayRefundResponse,
+  PaymentGatewayRefundStatus,
 } from './payment-gateway.interface';
+import {
+  classifyGatewayError,
+  GatewayHttpError,
+} from './payment-gateway.errors';
+import { DEFAULT_LANGUAGE } from '../../../shared/i18n/messages';
 
 interface IremboPayInvoiceResponse {
   success: boolean;
@@ -55,9 +65,27 @@ interface IremboPayStatusResponse {
   failure_reason?: string;
 }
 
+interface IremboPayRefundResponse {
+  success: boolean;
+  message?: string;
+  data?: {
+    refundId?: string;
+    status?: string;
+  };
+}
+
 @Injectable()
-export class IrremboPayGateway {
+export class IrremboPayGateway implements PaymentGatewayInterface {
   private readonly logger = new Logger(IrremboPayGateway.name);
+  readonly provider = PaymentGatewayProvider.IREMBOPAY;
+  // IremboPay handles MTN, Airtel, and all supported banks internally
+  readonly supportedMethods = [
+    PaymentMethodType.MOBILE_MONEY_MTN,
+    PaymentMethodType.MOBILE_MONEY_AIRTEL,
+    PaymentMethodType.BANK_BK,
+    PaymentMethodType.BANK_IM,
+    PaymentMethodType.BANK_ECOBANK,
+  ];
   private readonly baseUrl: string;
   private readonly apiKey: string;
   private readonly secretKey: string;
@@ -71,6 +99,10 @@ export class IrremboPayGateway {
     this.validateAndLogConfiguration();
   }
 
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl && this.secretKey);
+  }
+
   private validateAndLogConfiguration(): void {
     const missingConfig: string[] = [];
     if (!this.baseUrl) missingConfig.push('IREMBOPAY_BASE_URL');
@@ -89,6 +121,7 @@ export class IrremboPayGateway {
           success: false,
           gatewayTransactionId: '',
           message: invoiceResponse.message || 'Invoice creation failed',
+          failure: 'rejected',
           data: invoiceResponse,
         };
       }
@@ -113,6 +146,7 @@ export class IrremboPayGateway {
         success: false,
         gatewayTransactionId: '',
         message: errorMessage,
+        failure: classifyGatewayError(error),
         data: { error: errorMessage },
       };
     }
@@ -167,6 +201,97 @@ export class IrremboPayGateway {
     }
   }
 
+  async refundPayment(
+    request: PaymentGatewayRefundRequest,
+  ): Promise<PaymentGatewayRefundResponse> {
+    try {
+      const response = (await this.makeRequest(
+        `/payments/invoices/${request.gatewayTransactionId}/refunds`,
+        {
+          transactionId: request.reference,
+          amount: request.amount,
+          currency: request.currency,
+          reason: request.reason || 'Copay payment refund',
+        },
+        {
+          'irembopay-secretKey': this.secretKey,
+          'X-API-Version': '2',
+        },
+      )) as IremboPayRefundResponse;
+
+      this.logger.log(
+        `Refund response for ${request.gatewayTransactionId}: ${JSON.stringify(response)}`,
+      );
+
+      return {
+        success: response.success,
+        refundReference: response.data?.refundId || request.reference,
+        message: response.message,
+        data: response,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Refund request failed';
+
+      this.logger.error(
+        `Refund failed for ${request.gatewayTransactionId}: ${errorMessage}`,
+      );
+
+      // Timeouts and server errors may still have refunded the payer
+      if (classifyGatewayError(error) === 'unknown') {
+        throw error;
+      }
+
+      return {
+        success: false,
+        message: errorMessage,
+        data: { error: errorMessage },
+      };
+    }
+  }
+
+  async getRefundStatus(
+    gatewayTransactionId: string,
+    reference: string,
+  ): Promise<PaymentGatewayRefundStatus> {
+    try {
+      const response = (await this.makeRequest(
+        `/payments/invoices/${gatewayTransactionId}/refunds/${reference}`,
+        undefined,
+        {
+          'irembopay-secretKey': this.secretKey,
+          'X-API-Version': '2',
+        },
+        'GET',
+      )) as IremboPayRefundResponse;
+
+      const statusMapping: Record<
+        string,
+        PaymentGatewayRefundStatus['status']
+      > = {
+        successful: 'completed',
+        completed: 'completed',
+        failed: 'failed',
+        rejected: 'failed',
+      };
+
+      return {
+        reference,
+        status:
+          statusMapping[response.data?.status?.toLowerCase() ?? ''] ||
+          'pending',
+        refundReference: response.data?.refundId,
+        message: response.message,
+        data: response,
+      };
+    } catch (error) {
+      if (error instanceof GatewayHttpError && error.status === 404) {
+        return { reference, status: 'not_found' };
+      }
+      throw error;
+    }
+  }
+
   private async createInvoice(
     request: PaymentGatewayRequest,
   ): Promise<IremboPayInvoiceResponse> {
@@ -203,7 +328,8 @@ export class IrremboPayGateway {
         description:
           request.description || 'Copay payment invoice on IremboPay',
         expiryAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours from now
-        language: 'EN',
+        // IremboPay takes the same EN, FR and RW codes
+        language: request.language ?? DEFAULT_LANGUAGE,
       };
 
       this.logger.log(
@@ -310,9 +436,7 @@ export class IrremboPayGateway {
     const responseData: any = await response.json();
 
     if (!response.ok) {
-      throw new Error(
-        `HTTP ${response.status}: ${JSON.stringify(responseData)}`,
-      );
+      throw new GatewayHttpError(response.status, responseData);
     }
 
     return responseData;
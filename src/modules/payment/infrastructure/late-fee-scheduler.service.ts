@@ -0,0 +1,38 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { LateFeeService } from '../application/late-fee.service';
+
+@Injectable()
+export class LateFeeSchedulerService {
+  private readonly logger = new Logger(LateFeeSchedulerService.name);
+  private isProcessing = false;
+
+  constructor(private lateFeeService: LateFeeService) {}
+
+  /**
+   * Assess late fees on charges whose billing period closed unpaid, daily at 1 AM
+   */
+  @Cron('0 1 * * *') // Daily at 1:00 AM
+  async assessLateFees() {
+    if (this.isProcessing) {
+      this.logger.debug('Late fee assessment already in progress, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+    this.logger.log('Starting daily late fee assessment...');
+
+    try {
+      const result = await this.lateFeeService.assessAll();
+      this.logger.log(
+        `Daily late fee assessment finished: ${result.assessedCount} assessed across ${result.cooperativesProcessed} cooperatives`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Daily late fee assessment failed: ${(error as Error).message}`,
+      );
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
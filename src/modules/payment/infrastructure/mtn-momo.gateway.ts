@@ -0,0 +1,247 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { PaymentGatewayProvider, PaymentMethodType } from '@prisma/client';
+import {
+  PaymentGatewayInterface,
+  PaymentGatewayRequest,
+  PaymentGatewayResponse,
+  PaymentGatewayStatus,
+  PaymentGatewayRefundRequest,
+  PaymentGatewayRefundResponse,
+  PaymentGatewayRefundStatus,
+} from './payment-gateway.interface';
+import {
+  classifyGatewayError,
+  GatewayHttpError,
+  GatewayNotSentError,
+} from './payment-gateway.errors';
+
+interface MtnMomoTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+}
+
+interface MtnMomoRequestToPayStatus {
+  amount: string;
+  currency: string;
+  financialTransactionId?: string;
+  externalId: string;
+  status: 'PENDING' | 'SUCCESSFUL' | 'FAILED';
+  reason?: string;
+}
+
+/**
+ * Direct MTN MoMo collection (request to pay)
+ * The reference ID we generate is used as the invoice number
+ */
+@Injectable()
+export class MtnMomoGateway implements PaymentGatewayInterface {
+  private readonly logger = new Logger(MtnMomoGateway.name);
+  readonly provider = PaymentGatewayProvider.MTN_MOMO;
+  readonly supportedMethods = [PaymentMethodType.MOBILE_MONEY_MTN];
+
+  private readonly baseUrl: string;
+  private readonly subscriptionKey: string;
+  private readonly apiUser: string;
+  private readonly apiKey: string;
+  private readonly targetEnvironment: string;
+
+  private accessToken?: string;
+  private accessTokenExpiresAt = 0;
+
+  constructor(private configService: ConfigService) {
+    this.baseUrl = this.configService.get('MTN_MOMO_BASE_URL') || '';
+    this.subscriptionKey =
+      this.configService.get('MTN_MOMO_COLLECTION_SUBSCRIPTION_KEY') || '';
+    this.apiUser = this.configService.get('MTN_MOMO_API_USER') || '';
+    this.apiKey = this.configService.get('MTN_MOMO_API_KEY') || '';
+    this.targetEnvironment =
+      this.configService.get('MTN_MOMO_TARGET_ENVIRONMENT') || 'sandbox';
+  }
+
+  isConfigured(): boolean {
+    return Boolean(
+      this.baseUrl && this.subscriptionKey && this.apiUser && this.apiKey,
+    );
+  }
+
+  async initiatePayment(
+    request: PaymentGatewayRequest,
+  ): Promise<PaymentGatewayResponse> {
+    const referenceId = crypto.randomUUID();
+
+    try {
+      await this.makeRequest(
+        '/collection/v1_0/requesttopay',
+        'POST',
+        {
+          amount: String(request.amount),
+          currency: request.currency,
+          externalId: request.reference,
+          payer: {
+            partyIdType: 'MSISDN',
+            partyId: request.paymentAccount.replace(/^\+/, ''),
+          },
+          payerMessage: request.description || 'Copay payment',
+          payeeNote: request.description || 'Copay payment',
+        },
+        {
+          'X-Reference-Id': referenceId,
+          'X-Callback-Url': `${process.env.API_BASE_URL}/api/v1/payments/webhook/mtn-momo`,
+        },
+      );
+
+      return {
+        success: true,
+        gatewayTransactionId: referenceId,
+        gatewayReference: referenceId,
+        message: 'Approve the payment on your phone to complete it',
+        data: { referenceId },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Request to pay failed';
+      this.logger.error(`MTN MoMo request to pay failed: ${errorMessage}`);
+
+      // The reference ID lets the callback or a status check find a request
+      // the provider took without answering
+      return {
+        success: false,
+        gatewayTransactionId: referenceId,
+        gatewayReference: referenceId,
+        message: errorMessage,
+        failure: classifyGatewayError(error),
+        data: { error: errorMessage },
+      };
+    }
+  }
+
+  async getPaymentStatus(
+    gatewayTransactionId: string,
+  ): Promise<PaymentGatewayStatus> {
+    try {
+      const response = (await this.makeRequest(
+        `/collection/v1_0/requesttopay/${gatewayTransactionId}`,
+        'GET',
+      )) as MtnMomoRequestToPayStatus;
+
+      const statusMapping: Record<string, PaymentGatewayStatus['status']> = {
+        PENDING: 'pending',
+        SUCCESSFUL: 'completed',
+        FAILED: 'failed',
+      };
+
+      return {
+        gatewayTransactionId,
+        status: statusMapping[response.status] || 'pending',
+        amount: parseFloat(response.amount),
+        currency: response.currency,
+        gatewayReference: response.financialTransactionId,
+        failureReason: response.reason,
+        data: response,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Status check failed';
+      return {
+        gatewayTransactionId,
+        status: 'failed' as const,
+        failureReason: errorMessage,
+      };
+    }
+  }
+
+  verifyWebhook(): boolean {
+    // MTN callbacks are not signed; statuses are confirmed by polling instead
+    return false;
+  }
+
+  refundPayment(
+    request: PaymentGatewayRefundRequest,
+  ): Promise<PaymentGatewayRefundResponse> {
+    this.logger.warn(
+      `Refund requested for MTN MoMo collection ${request.gatewayTransactionId}`,
+    );
+
+    return Promise.resolve({
+      success: false,
+      message:
+        'MTN MoMo collections cannot be refunded through the API, use a disbursement instead',
+    });
+  }
+
+  getRefundStatus(
+    _gatewayTransactionId: string,
+    reference: string,
+  ): Promise<PaymentGatewayRefundStatus> {
+    // Refunds are never sent to MTN MoMo, see refundPayment
+    return Promise.resolve({ reference, status: 'not_found' });
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt) {
+      return this.accessToken;
+    }
+
+    const credentials = Buffer.from(`${this.apiUser}:${this.apiKey}`).toString(
+      'base64',
+    );
+    const response = await fetch(`${this.baseUrl}/collection/token/`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        'Ocp-Apim-Subscription-Key': this.subscriptionKey,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`MTN MoMo token request failed: HTTP ${response.status}`);
+    }
+
+    const token = (await response.json()) as MtnMomoTokenResponse;
+    this.accessToken = token.access_token;
+    // Refresh a minute before expiry
+    this.accessTokenExpiresAt = Date.now() + (token.expires_in - 60) * 1000;
+
+    return this.accessToken;
+  }
+
+  private async makeRequest(
+    endpoint: string,
+    method: string,
+    data?: any,
+    headers?: Record<string, string>,
+  ): Promise<any> {
+    const accessToken = await this.getAccessToken().catch((error: Error) => {
+      throw new GatewayNotSentError(error.message);
+    });
+
+    const requestOptions: RequestInit = {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+        'Ocp-Apim-Subscription-Key': this.subscriptionKey,
+        'X-Target-Environment': this.targetEnvironment,
+        ...headers,
+      },
+    };
+
+    if (data && method !== 'GET') {
+      requestOptions.body = JSON.stringify(data);
+    }
+
+    const response = await fetch(`${this.baseUrl}${endpoint}`, requestOptions);
+    // Request to pay is accepted with 202 and an empty body
+    const text = await response.text();
+    const responseData: unknown = text ? JSON.parse(text) : {};
+
+    if (!response.ok) {
+      throw new GatewayHttpError(response.status, responseData);
+    }
+
+    return responseData;
+  }
+}
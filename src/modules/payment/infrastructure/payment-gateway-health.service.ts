@@ -0,0 +1,100 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PaymentGatewayProvider } from '@prisma/client';
+
+// A provider is taken out of rotation when at least half of the last
+// attempts in the window failed, then retried after the cooldown
+const WINDOW_MS = 5 * 60 * 1000;
+const MIN_ATTEMPTS = 5;
+const FAILURE_RATE_THRESHOLD = 0.5;
+const COOLDOWN_MS = 5 * 60 * 1000;
+
+export interface PaymentGatewayHealth {
+  provider: PaymentGatewayProvider;
+  available: boolean;
+  attempts: number;
+  failureRate: number;
+  degradedUntil?: Date;
+}
+
+/**
+ * Tracks payment initiation results per provider (per instance, in memory)
+ */
+@Injectable()
+export class PaymentGatewayHealthService {
+  private readonly logger = new Logger(PaymentGatewayHealthService.name);
+  private readonly attempts = new Map<
+    PaymentGatewayProvider,
+    { at: number; success: boolean }[]
+  >();
+  private readonly degradedUntil = new Map<PaymentGatewayProvider, number>();
+
+  recordResult(provider: PaymentGatewayProvider, success: boolean): void {
+    const now = Date.now();
+    const attempts = this.getRecentAttempts(provider, now);
+    attempts.push({ at: now, success });
+    this.attempts.set(provider, attempts);
+
+    const failureRate = this.getFailureRate(attempts);
+    if (
+      attempts.length >= MIN_ATTEMPTS &&
+      failureRate >= FAILURE_RATE_THRESHOLD &&
+      this.isAvailable(provider)
+    ) {
+      this.degradedUntil.set(provider, now + COOLDOWN_MS);
+      this.logger.warn(
+        `Payment provider ${provider} degraded: ${Math.round(failureRate * 100)}% of the last ${attempts.length} attempts failed`,
+      );
+    }
+  }
+
+  isAvailable(provider: PaymentGatewayProvider): boolean {
+    const until = this.degradedUntil.get(provider);
+
+    if (!until) {
+      return true;
+    }
+
+    if (until > Date.now()) {
+      return false;
+    }
+
+    // Cooldown over: start again with a clean window
+    this.degradedUntil.delete(provider);
+    this.attempts.delete(provider);
+    this.logger.log(`Payment provider ${provider} back in rotation`);
+    return true;
+  }
+
+  getHealth(provider: PaymentGatewayProvider): PaymentGatewayHealth {
+    const attempts = this.getRecentAttempts(provider, Date.now());
+    const available = this.isAvailable(provider);
+    const until = this.degradedUntil.get(provider);
+
+    return {
+      provider,
+      available,
+      attempts: attempts.length,
+      failureRate: this.getFailureRate(attempts),
+      degradedUntil: until ? new Date(until) : undefined,
+    };
+  }
+
+  private getRecentAttempts(
+    provider: PaymentGatewayProvider,
+    now: number,
+  ): { at: number; success: boolean }[] {
+    return (this.attempts.get(provider) ?? []).filter(
+      (attempt) => now - attempt.at < WINDOW_MS,
+    );
+  }
+
+  private getFailureRate(attempts: { success: boolean }[]): number {
+    if (attempts.length === 0) {
+      return 0;
+    }
+
+    return (
+      attempts.filter((attempt) => !attempt.success).length / attempts.length
+    );
+  }
+}
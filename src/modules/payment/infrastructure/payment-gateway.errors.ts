@@ -0,0 +1,64 @@
+/**
+ * The provider answered a request with an error status
+ */
+export class GatewayHttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: unknown,
+  ) {
+    super(`HTTP ${status}: ${JSON.stringify(body)}`);
+  }
+}
+
+/**
+ * The request never left for the provider, for example because no access
+ * token could be obtained
+ */
+export class GatewayNotSentError extends Error {}
+
+/**
+ * - rejected: the provider answered and refused the request
+ * - not_sent: the request failed before it reached the provider
+ * - unknown: timeouts, dropped connections and server errors, the provider
+ *   may have acted on the request
+ */
+export type GatewayErrorKind = 'rejected' | 'not_sent' | 'unknown';
+
+// Connection errors raised before any byte of the request was sent
+const NOT_SENT_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ERR_INVALID_URL',
+]);
+
+// 4xx answers that do not mean the provider ignored the request
+const AMBIGUOUS_HTTP_STATUSES = new Set([408, 409]);
+
+/**
+ * Whether a failed gateway call may still have gone through at the provider
+ */
+export function classifyGatewayError(error: unknown): GatewayErrorKind {
+  if (error instanceof GatewayNotSentError) {
+    return 'not_sent';
+  }
+
+  if (error instanceof GatewayHttpError) {
+    return error.status >= 400 &&
+      error.status < 500 &&
+      !AMBIGUOUS_HTTP_STATUSES.has(error.status)
+      ? 'rejected'
+      : 'unknown';
+  }
+
+  const cause = error instanceof Error ? error.cause : undefined;
+  const code =
+    cause && typeof cause === 'object' && 'code' in cause
+      ? String(cause.code)
+      : undefined;
+  if (code && NOT_SENT_ERROR_CODES.has(code)) {
+    return 'not_sent';
+  }
+
+  return 'unknown';
+}
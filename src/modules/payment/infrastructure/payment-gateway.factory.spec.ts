@@ -0,0 +1,232 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PaymentGatewayProvider, PaymentMethodType } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { AirtelMoneyGateway } from './airtel-money.gateway';
+import { IrremboPayGateway } from './irembopay.gateway';
+import { MtnMomoGateway } from './mtn-momo.gateway';
+import { PaymentGatewayHealthService } from './payment-gateway-health.service';
+import {
+  GatewayHttpError,
+  GatewayNotSentError,
+} from './payment-gateway.errors';
+import { PaymentGatewayFactory } from './payment-gateway.factory';
+import { PaymentGatewayRequest } from './payment-gateway.interface';
+import { SandboxGateway } from './sandbox.gateway';
+
+const request: PaymentGatewayRequest = {
+  amount: 10300,
+  currency: 'RWF',
+  paymentMethod: PaymentMethodType.MOBILE_MONEY_MTN,
+  paymentAccount: '+250788123456',
+  reference: 'payment-1',
+  callbackUrl: 'https://api.example.com/callback',
+};
+
+const fakeGateway = (
+  provider: PaymentGatewayProvider,
+  supportedMethods: PaymentMethodType[],
+) => ({
+  provider,
+  supportedMethods,
+  isConfigured: () => true,
+  initiatePayment: jest.fn().mockResolvedValue({
+    success: true,
+    gatewayTransactionId: `${provider}-1`,
+  }),
+});
+
+describe('PaymentGatewayFactory', () => {
+  let factory: PaymentGatewayFactory;
+  let healthService: PaymentGatewayHealthService;
+  let irembo: ReturnType<typeof fakeGateway>;
+  let mtn: ReturnType<typeof fakeGateway>;
+
+  beforeEach(async () => {
+    irembo = fakeGateway(PaymentGatewayProvider.IREMBOPAY, [
+      PaymentMethodType.MOBILE_MONEY_MTN,
+    ]);
+    mtn = fakeGateway(PaymentGatewayProvider.MTN_MOMO, [
+      PaymentMethodType.MOBILE_MONEY_MTN,
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentGatewayFactory,
+        PaymentGatewayHealthService,
+        {
+          provide: PrismaService,
+          useValue: {
+            paymentGatewayRoute: { findMany: jest.fn().mockResolvedValue([]) },
+          },
+        },
+        { provide: IrremboPayGateway, useValue: irembo },
+        { provide: MtnMomoGateway, useValue: mtn },
+        {
+          provide: AirtelMoneyGateway,
+          useValue: fakeGateway(PaymentGatewayProvider.AIRTEL_MONEY, [
+            PaymentMethodType.MOBILE_MONEY_AIRTEL,
+          ]),
+        },
+        {
+          provide: SandboxGateway,
+          useValue: { isConfigured: () => false },
+        },
+      ],
+    }).compile();
+
+    factory = module.get(PaymentGatewayFactory);
+    healthService = module.get(PaymentGatewayHealthService);
+  });
+
+  const attempts = (provider: PaymentGatewayProvider) =>
+    healthService.getHealth(provider).attempts;
+
+  describe('initiatePayment', () => {
+    it('uses the first provider that accepts the request', async () => {
+      await expect(factory.initiatePayment(request)).resolves.toMatchObject({
+        provider: PaymentGatewayProvider.IREMBOPAY,
+        response: { success: true, gatewayTransactionId: 'IREMBOPAY-1' },
+      });
+
+      expect(mtn.initiatePayment).not.toHaveBeenCalled();
+      expect(healthService.getHealth(PaymentGatewayProvider.IREMBOPAY)).toEqual(
+        expect.objectContaining({ attempts: 1, failureRate: 0 }),
+      );
+    });
+
+    it('fails over when the request never reached the provider', async () => {
+      irembo.initiatePayment.mockResolvedValue({
+        success: false,
+        gatewayTransactionId: '',
+        message: 'connect ECONNREFUSED',
+        failure: 'not_sent',
+      });
+
+      await expect(factory.initiatePayment(request)).resolves.toMatchObject({
+        provider: PaymentGatewayProvider.MTN_MOMO,
+        response: { success: true },
+      });
+      expect(
+        healthService.getHealth(PaymentGatewayProvider.IREMBOPAY).failureRate,
+      ).toBe(1);
+    });
+
+    it('fails over on a rejection without counting it against the provider', async () => {
+      irembo.initiatePayment.mockResolvedValue({
+        success: false,
+        gatewayTransactionId: '',
+        message: 'Invalid MSISDN',
+        failure: 'rejected',
+      });
+
+      await expect(factory.initiatePayment(request)).resolves.toMatchObject({
+        provider: PaymentGatewayProvider.MTN_MOMO,
+      });
+      expect(attempts(PaymentGatewayProvider.IREMBOPAY)).toBe(0);
+    });
+
+    it('keeps the payment pending with a provider that did not answer', async () => {
+      irembo.initiatePayment.mockResolvedValue({
+        success: false,
+        gatewayTransactionId: 'ref-1',
+        gatewayReference: 'ref-1',
+        message: 'The operation was aborted due to timeout',
+        failure: 'unknown',
+      });
+
+      await expect(factory.initiatePayment(request)).resolves.toMatchObject({
+        provider: PaymentGatewayProvider.IREMBOPAY,
+        response: {
+          success: true,
+          gatewayTransactionId: 'ref-1',
+          failure: 'unknown',
+        },
+      });
+
+      expect(mtn.initiatePayment).not.toHaveBeenCalled();
+      expect(
+        healthService.getHealth(PaymentGatewayProvider.IREMBOPAY).failureRate,
+      ).toBe(1);
+    });
+
+    it.each([
+      ['a server error', new GatewayHttpError(502, {}), false],
+      ['an unclassified error', new Error('socket hang up'), false],
+      ['a refusal', new GatewayHttpError(400, { message: 'Bad MSISDN' }), true],
+      ['a token failure', new GatewayNotSentError('Unauthorized'), true],
+    ])(
+      'classifies %s thrown by a provider',
+      async (_name, error, failsOver) => {
+        irembo.initiatePayment.mockRejectedValue(error);
+
+        const { provider } = await factory.initiatePayment(request);
+
+        expect(provider).toBe(
+          failsOver
+            ? PaymentGatewayProvider.MTN_MOMO
+            : PaymentGatewayProvider.IREMBOPAY,
+        );
+      },
+    );
+
+    it('returns the last refusal when every provider refuses', async () => {
+      for (const gateway of [irembo, mtn]) {
+        gateway.initiatePayment.mockResolvedValue({
+          success: false,
+          gatewayTransactionId: '',
+          message: `${gateway.provider} refused`,
+          failure: 'rejected',
+        });
+      }
+
+      await expect(factory.initiatePayment(request)).resolves.toMatchObject({
+        provider: PaymentGatewayProvider.MTN_MOMO,
+        response: { success: false, message: 'MTN_MOMO refused' },
+      });
+    });
+
+    it('refuses payment methods no provider supports', async () => {
+      await expect(
+        factory.initiatePayment({
+          ...request,
+          paymentMethod: PaymentMethodType.BANK_ECOBANK,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('resolveGateways', () => {
+    it('moves a degraded provider to the end', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        healthService.recordResult(PaymentGatewayProvider.IREMBOPAY, false);
+      }
+
+      const gateways = await factory.resolveGateways(
+        PaymentMethodType.MOBILE_MONEY_MTN,
+      );
+
+      expect(gateways.map((gateway) => gateway.provider)).toEqual([
+        PaymentGatewayProvider.MTN_MOMO,
+        PaymentGatewayProvider.IREMBOPAY,
+      ]);
+    });
+
+    it('does not degrade a provider for payer rejections', async () => {
+      irembo.initiatePayment.mockResolvedValue({
+        success: false,
+        gatewayTransactionId: '',
+        message: 'Insufficient funds',
+        failure: 'rejected',
+      });
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await factory.initiatePayment(request);
+      }
+
+      expect(healthService.isAvailable(PaymentGatewayProvider.IREMBOPAY)).toBe(
+        true,
+      );
+    });
+  });
+});
@@ -1,35 +1,244 @@
-import { Injectable } from '@nestjs/common';
-import { PaymentMethodType } from '@prisma/client';
-import { PaymentGatewayInterface } from './payment-gateway.interface';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import {
+  PaymentGatewayProvider,
+  PaymentGatewayRoute,
+  PaymentMethodType,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  PaymentGatewayInterface,
+  PaymentGatewayRequest,
+  PaymentGatewayResponse,
+} from './payment-gateway.interface';
 import { IrremboPayGateway } from './irembopay.gateway';
+import { MtnMomoGateway } from './mtn-momo.gateway';
+import { AirtelMoneyGateway } from './airtel-money.gateway';
+import { SandboxGateway } from './sandbox.gateway';
+import {
+  PaymentGatewayHealth,
+  PaymentGatewayHealthService,
+} from './payment-gateway-health.service';
+import { classifyGatewayError } from './payment-gateway.errors';
+
+// Fallback order when no route matches. The sandbox is only used through routes
+const DEFAULT_PROVIDER_ORDER = [
+  PaymentGatewayProvider.IREMBOPAY,
+  PaymentGatewayProvider.MTN_MOMO,
+  PaymentGatewayProvider.AIRTEL_MONEY,
+];
 
 @Injectable()
 export class PaymentGatewayFactory {
-  constructor(private irremboPayGateway: IrremboPayGateway) {}
+  private readonly logger = new Logger(PaymentGatewayFactory.name);
+  private readonly gateways = new Map<
+    PaymentGatewayProvider,
+    PaymentGatewayInterface
+  >();
+
+  constructor(
+    private prismaService: PrismaService,
+    private healthService: PaymentGatewayHealthService,
+    irremboPayGateway: IrremboPayGateway,
+    mtnMomoGateway: MtnMomoGateway,
+    airtelMoneyGateway: AirtelMoneyGateway,
+    sandboxGateway: SandboxGateway,
+  ) {
+    // IremboPay is always registered as the default provider
+    this.register(irremboPayGateway, true);
+    this.register(mtnMomoGateway);
+    this.register(airtelMoneyGateway);
+    this.register(sandboxGateway);
+  }
 
+  /**
+   * Default gateway for a payment method, ignoring routes and health
+   */
   getGateway(paymentMethod: PaymentMethodType): PaymentGatewayInterface {
-    switch (paymentMethod) {
-      case PaymentMethodType.MOBILE_MONEY_MTN:
-      case PaymentMethodType.MOBILE_MONEY_AIRTEL:
-      case PaymentMethodType.BANK_BK:
-      case PaymentMethodType.BANK_IM:
-      case PaymentMethodType.BANK_ECOBANK:
-        // All payment methods are processed through IremboPay's unified API
-        // IremboPay handles MTN, Airtel, and all supported banks internally
-        return this.irremboPayGateway;
-
-      default:
-        throw new Error(`Unsupported payment method: ${paymentMethod}`);
+    const gateway = DEFAULT_PROVIDER_ORDER.map((provider) =>
+      this.gateways.get(provider),
+    ).find((candidate) => candidate?.supportedMethods.includes(paymentMethod));
+
+    if (!gateway) {
+      throw new Error(`Unsupported payment method: ${paymentMethod}`);
+    }
+
+    return gateway;
+  }
+
+  getGatewayByProvider(
+    provider: PaymentGatewayProvider,
+  ): PaymentGatewayInterface {
+    const gateway = this.gateways.get(provider);
+
+    if (!gateway) {
+      throw new Error(`Payment provider ${provider} is not configured`);
+    }
+
+    return gateway;
+  }
+
+  /**
+   * Gateway that issued a payment's invoice, for status checks and refunds
+   */
+  getGatewayForPayment(payment: {
+    gatewayProvider?: PaymentGatewayProvider | null;
+  }): PaymentGatewayInterface {
+    // Payments created before provider routing all went through IremboPay
+    return this.getGatewayByProvider(
+      payment.gatewayProvider ?? PaymentGatewayProvider.IREMBOPAY,
+    );
+  }
+
+  /**
+   * Gateways to try for a payment, in order: matching routes (most specific
+   * first, then by priority), then the default order. Degraded providers are
+   * moved to the end so they are only used as a last resort
+   */
+  async resolveGateways(
+    paymentMethod: PaymentMethodType,
+    cooperativeId?: string,
+  ): Promise<PaymentGatewayInterface[]> {
+    const routes = await this.prismaService.paymentGatewayRoute.findMany({
+      where: {
+        isActive: true,
+        AND: [
+          {
+            OR: [
+              { cooperativeId: null },
+              ...(cooperativeId ? [{ cooperativeId }] : []),
+            ],
+          },
+          { OR: [{ paymentMethod: null }, { paymentMethod }] },
+        ],
+      },
+    });
+
+    const specificity = (route: PaymentGatewayRoute) =>
+      (route.cooperativeId ? 2 : 0) + (route.paymentMethod ? 1 : 0);
+    const routedProviders = routes
+      .sort(
+        (a, b) => specificity(b) - specificity(a) || a.priority - b.priority,
+      )
+      .map((route) => route.provider);
+
+    const gateways = [
+      ...new Set([...routedProviders, ...DEFAULT_PROVIDER_ORDER]),
+    ]
+      .map((provider) => this.gateways.get(provider))
+      .filter(
+        (gateway): gateway is PaymentGatewayInterface =>
+          !!gateway && gateway.supportedMethods.includes(paymentMethod),
+      );
+
+    return [
+      ...gateways.filter((gateway) =>
+        this.healthService.isAvailable(gateway.provider),
+      ),
+      ...gateways.filter(
+        (gateway) => !this.healthService.isAvailable(gateway.provider),
+      ),
+    ];
+  }
+
+  /**
+   * Initiate a payment, failing over to the next provider only when one
+   * certainly did not take the request. A provider that may have taken it
+   * keeps the payment: another provider could charge the payer twice, so it
+   * stays pending until the callback or reconciliation settles it
+   */
+  async initiatePayment(
+    request: PaymentGatewayRequest,
+    cooperativeId?: string,
+  ): Promise<{
+    provider: PaymentGatewayProvider;
+    response: PaymentGatewayResponse;
+  }> {
+    const paymentMethod = request.paymentMethod as PaymentMethodType;
+    const gateways = await this.resolveGateways(paymentMethod, cooperativeId);
+
+    let lastAttempt:
+      | { provider: PaymentGatewayProvider; response: PaymentGatewayResponse }
+      | undefined;
+
+    for (const gateway of gateways) {
+      let response: PaymentGatewayResponse;
+
+      try {
+        response = await gateway.initiatePayment(request);
+      } catch (error) {
+        response = {
+          success: false,
+          gatewayTransactionId: '',
+          message: (error as Error).message,
+          failure: classifyGatewayError(error),
+        };
+      }
+
+      // A payer's own rejection (insufficient funds, invalid number) says
+      // nothing about the provider's health
+      if (response.success || response.failure !== 'rejected') {
+        this.healthService.recordResult(gateway.provider, response.success);
+      }
+
+      if (response.success) {
+        return { provider: gateway.provider, response };
+      }
+
+      if (response.failure !== 'rejected' && response.failure !== 'not_sent') {
+        this.logger.warn(
+          `${gateway.provider} did not confirm payment ${request.reference}, keeping it pending: ${response.message}`,
+        );
+        return {
+          provider: gateway.provider,
+          response: {
+            ...response,
+            success: true,
+            message:
+              'Payment request sent, waiting for the provider to confirm it',
+          },
+        };
+      }
+
+      this.logger.warn(
+        `${gateway.provider} could not initiate payment ${request.reference}: ${response.message}`,
+      );
+      lastAttempt = { provider: gateway.provider, response };
     }
+
+    if (!lastAttempt) {
+      throw new BadRequestException(
+        `No payment provider available for ${paymentMethod}`,
+      );
+    }
+
+    return lastAttempt;
   }
 
   getSupportedMethods(): PaymentMethodType[] {
     return [
-      PaymentMethodType.MOBILE_MONEY_MTN,
-      PaymentMethodType.MOBILE_MONEY_AIRTEL,
-      PaymentMethodType.BANK_BK,
-      PaymentMethodType.BANK_IM,
-      PaymentMethodType.BANK_ECOBANK,
+      ...new Set(
+        [...this.gateways.values()].flatMap(
+          (gateway) => gateway.supportedMethods,
+        ),
+      ),
     ];
   }
+
+  getProviderHealth(): (PaymentGatewayHealth & {
+    supportedMethods: PaymentMethodType[];
+  })[] {
+    return [...this.gateways.values()].map((gateway) => ({
+      ...this.healthService.getHealth(gateway.provider),
+      supportedMethods: gateway.supportedMethods,
+    }));
+  }
+
+  private register(gateway: PaymentGatewayInterface, always = false): void {
+    if (!always && !gateway.isConfigured()) {
+      return;
+    }
+
+    this.gateways.set(gateway.provider, gateway);
+    this.logger.log(`Payment provider ${gateway.provider} registered`);
+  }
 }
@@ -1,3 +1,10 @@
+import {
+  Language,
+  PaymentGatewayProvider,
+  PaymentMethodType,
+} from '@prisma/client';
+import { GatewayErrorKind } from './payment-gateway.errors';
+
 export interface PaymentGatewayRequest {
   amount: number;
   currency: string;
@@ -8,6 +15,7 @@ export interface PaymentGatewayRequest {
   callbackUrl: string;
   email?: string; // Customer email for invoice creation
   customerName?: string; // Customer name for invoice creation
+  language?: Language; // Language of the invoice and payment page
 }
 
 export interface PaymentGatewayResponse {
@@ -16,6 +24,7 @@ export interface PaymentGatewayResponse {
   gatewayReference?: string;
   paymentUrl?: string; // For redirect-based payments
   message?: string;
+  failure?: GatewayErrorKind; // Why the request was not accepted, set when success is false
   data?: Record<string, any>;
 }
 
@@ -29,7 +38,39 @@ export interface PaymentGatewayStatus {
   data?: Record<string, any>;
 }
 
+export interface PaymentGatewayRefundRequest {
+  gatewayTransactionId: string; // Transaction or invoice being refunded
+  amount: number;
+  originalAmount?: number; // Amount collected by the original transaction
+  currency: string;
+  reference: string; // Our refund reference, used for idempotency
+  reason?: string;
+}
+
+export interface PaymentGatewayRefundResponse {
+  success: boolean;
+  refundReference?: string;
+  message?: string;
+  data?: Record<string, any>;
+}
+
+export interface PaymentGatewayRefundStatus {
+  reference: string; // Our refund reference
+  status: 'completed' | 'pending' | 'failed' | 'not_found';
+  refundReference?: string;
+  message?: string;
+  data?: Record<string, any>;
+}
+
 export abstract class PaymentGatewayInterface {
+  abstract readonly provider: PaymentGatewayProvider;
+  abstract readonly supportedMethods: PaymentMethodType[];
+  abstract isConfigured(): boolean;
+  /**
+   * Ask the provider to collect a payment. Resolves with success false and
+   * the failure kind when it was not accepted, unknown when the provider may
+   * still act on the request
+   */
   abstract initiatePayment(
     request: PaymentGatewayRequest,
   ): Promise<PaymentGatewayResponse>;
@@ -37,4 +78,18 @@ export abstract class PaymentGatewayInterface {
     gatewayTransactionId: string,
   ): Promise<PaymentGatewayStatus>;
   abstract verifyWebhook(payload: any, signature: string): boolean;
+  /**
+   * Send a refund. Resolves with success false when the provider refused it,
+   * throws when the outcome is unknown (timeouts, dropped connections)
+   */
+  abstract refundPayment(
+    request: PaymentGatewayRefundRequest,
+  ): Promise<PaymentGatewayRefundResponse>;
+  /**
+   * Look up a refund sent with our reference, after a call whose outcome was unknown
+   */
+  abstract getRefundStatus(
+    gatewayTransactionId: string,
+    reference: string,
+  ): Promise<PaymentGatewayRefundStatus>;
 }
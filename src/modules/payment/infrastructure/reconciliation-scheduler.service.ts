@@ -0,0 +1,40 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { GatewayReconciliationService } from '../application/gateway-reconciliation.service';
+
+@Injectable()
+export class ReconciliationSchedulerService {
+  private readonly logger = new Logger(ReconciliationSchedulerService.name);
+  private isProcessing = false;
+
+  constructor(
+    private gatewayReconciliationService: GatewayReconciliationService,
+  ) {}
+
+  /**
+   * Reconcile yesterday's payments against the gateway daily at 3 AM
+   */
+  @Cron('0 3 * * *') // Daily at 3:00 AM
+  async reconcileYesterday() {
+    if (this.isProcessing) {
+      this.logger.debug('Gateway reconciliation already in progress, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+    this.logger.log('Starting daily gateway reconciliation...');
+
+    try {
+      const run = await this.gatewayReconciliationService.reconcileDay();
+      this.logger.log(
+        `Daily gateway reconciliation ${run.id} finished with status ${run.status}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Daily gateway reconciliation failed: ${(error as Error).message}`,
+      );
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
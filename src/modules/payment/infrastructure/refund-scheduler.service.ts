@@ -0,0 +1,40 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PaymentService } from '../application/payment.service';
+
+@Injectable()
+export class RefundSchedulerService {
+  private readonly logger = new Logger(RefundSchedulerService.name);
+  private isProcessing = false;
+
+  constructor(private paymentService: PaymentService) {}
+
+  /**
+   * Post refunds the gateway sent but that were not recorded, and look up
+   * refunds the gateway never answered
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async resolvePendingRefunds() {
+    if (this.isProcessing) {
+      this.logger.debug('Refund resolution already in progress, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const result = await this.paymentService.resolvePendingRefunds();
+      if (result.recorded > 0 || result.failed > 0) {
+        this.logger.log(
+          `Resolved refunds: ${result.recorded} recorded, ${result.failed} failed, ${result.pending} still pending`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Refund resolution failed: ${(error as Error).message}`,
+      );
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentGatewayProvider, PaymentMethodType } from '@prisma/client';
+import {
+  PaymentGatewayInterface,
+  PaymentGatewayRequest,
+  PaymentGatewayResponse,
+  PaymentGatewayStatus,
+  PaymentGatewayRefundRequest,
+  PaymentGatewayRefundResponse,
+  PaymentGatewayRefundStatus,
+} from './payment-gateway.interface';
+
+interface SandboxInvoice {
+  amount: number;
+  currency: string;
+  status: PaymentGatewayStatus['status'];
+  refundedAmount: number;
+}
+
+/**
+ * Local mock provider for development and tests. Never enabled in production.
+ * Payment accounts ending in 0000 are rejected (simulates a provider outage),
+ * accounts ending in 1111 fail, every other payment succeeds.
+ */
+@Injectable()
+export class SandboxGateway implements PaymentGatewayInterface {
+  private readonly logger = new Logger(SandboxGateway.name);
+  readonly provider = PaymentGatewayProvider.SANDBOX;
+  readonly supportedMethods = Object.values(PaymentMethodType);
+
+  private readonly invoices = new Map<string, SandboxInvoice>();
+  private readonly refunds = new Map<string, number>();
+
+  constructor(private configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return (
+      String(this.configService.get('PAYMENT_SANDBOX_ENABLED')) === 'true' &&
+      this.configService.get('NODE_ENV') !== 'production'
+    );
+  }
+
+  initiatePayment(
+    request: PaymentGatewayRequest,
+  ): Promise<PaymentGatewayResponse> {
+    if (request.paymentAccount.endsWith('0000')) {
+      return Promise.resolve({
+        success: false,
+        gatewayTransactionId: '',
+        message: 'Sandbox: simulated provider error',
+        failure: 'not_sent',
+      });
+    }
+
+    const invoiceNumber = `SBX-${request.reference}`;
+    this.invoices.set(invoiceNumber, {
+      amount: request.amount,
+      currency: request.currency,
+      status: request.paymentAccount.endsWith('1111') ? 'failed' : 'completed',
+      refundedAmount: 0,
+    });
+
+    this.logger.log(
+      `Sandbox invoice ${invoiceNumber} created for ${request.amount} ${request.currency}`,
+    );
+
+    return Promise.resolve({
+      success: true,
+      gatewayTransactionId: invoiceNumber,
+      gatewayReference: invoiceNumber,
+      message: 'Sandbox payment created',
+      data: { invoiceNumber },
+    });
+  }
+
+  getPaymentStatus(
+    gatewayTransactionId: string,
+  ): Promise<PaymentGatewayStatus> {
+    const invoice = this.invoices.get(gatewayTransactionId);
+
+    if (!invoice) {
+      return Promise.resolve({
+        gatewayTransactionId,
+        status: 'failed',
+        failureReason: 'Sandbox invoice not found',
+      });
+    }
+
+    return Promise.resolve({
+      gatewayTransactionId,
+      status: invoice.status,
+      amount: invoice.amount,
+      currency: invoice.currency,
+      gatewayReference: gatewayTransactionId,
+      failureReason:
+        invoice.status === 'failed' ? 'Sandbox: payment declined' : undefined,
+      data: { ...invoice },
+    });
+  }
+
+  verifyWebhook(): boolean {
+    return true;
+  }
+
+  refundPayment(
+    request: PaymentGatewayRefundRequest,
+  ): Promise<PaymentGatewayRefundResponse> {
+    const invoice = this.invoices.get(request.gatewayTransactionId);
+
+    if (!invoice || invoice.status !== 'completed') {
+      return Promise.resolve({
+        success: false,
+        message: 'Sandbox: only completed invoices can be refunded',
+      });
+    }
+
+    invoice.refundedAmount += request.amount;
+    this.refunds.set(request.reference, request.amount);
+
+    return Promise.resolve({
+      success: true,
+      refundReference: request.reference,
+      message: 'Sandbox refund processed',
+      data: { refundedAmount: invoice.refundedAmount },
+    });
+  }
+
+  getRefundStatus(
+    _gatewayTransactionId: string,
+    reference: string,
+  ): Promise<PaymentGatewayRefundStatus> {
+    const amount = this.refunds.get(reference);
+
+    return Promise.resolve(
+      amount === undefined
+        ? { reference, status: 'not_found' }
+        : {
+            reference,
+            status: 'completed',
+            refundReference: reference,
+            data: { amount },
+          },
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { TenantWalletService } from '../application/tenant-wallet.service';
+
+@Injectable()
+export class WalletSchedulerService {
+  private readonly logger = new Logger(WalletSchedulerService.name);
+  private isProcessing = false;
+
+  constructor(private tenantWalletService: TenantWalletService) {}
+
+  /**
+   * Apply wallet balances to charges that came due, daily at 12:30 AM so
+   * prepaid tenants are settled before late fees are assessed
+   */
+  @Cron('30 0 * * *') // Daily at 12:30 AM
+  async applyWallets() {
+    if (this.isProcessing) {
+      this.logger.debug('Wallet sync already in progress, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+    this.logger.log('Starting daily wallet sync...');
+
+    try {
+      const result = await this.tenantWalletService.syncAll();
+      this.logger.log(
+        `Daily wallet sync finished: ${result.appliedAmount} RWF applied across ${result.cooperativesProcessed} cooperatives`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Daily wallet sync failed: ${(error as Error).message}`,
+      );
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
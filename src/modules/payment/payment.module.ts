@@ -6,25 +6,58 @@ import { PaymentTypeService } from './application/payment-type.service';
 import { PaymentService } from './application/payment.service';
 import { PaymentPeriodService } from './application/payment-period.service';
 import { BalanceService } from './application/balance.service';
+import { WithdrawalService } from './application/withdrawal.service';
+import { FeePolicyService } from './application/fee-policy.service';
+import { GatewayReconciliationService } from './application/gateway-reconciliation.service';
+import { PaymentGatewayRouteService } from './application/payment-gateway-route.service';
+import { ArrearsService } from './application/arrears.service';
+import { LateFeeService } from './application/late-fee.service';
+import { TenantWalletService } from './application/tenant-wallet.service';
 
 // Infrastructure Services
 import { PaymentCacheService } from './infrastructure/payment-cache.service';
 import { PaymentGatewayFactory } from './infrastructure/payment-gateway.factory';
 import { IrremboPayGateway } from './infrastructure/irembopay.gateway';
+import { MtnMomoGateway } from './infrastructure/mtn-momo.gateway';
+import { AirtelMoneyGateway } from './infrastructure/airtel-money.gateway';
+import { SandboxGateway } from './infrastructure/sandbox.gateway';
+import { PaymentGatewayHealthService } from './infrastructure/payment-gateway-health.service';
+import { ReconciliationSchedulerService } from './infrastructure/reconciliation-scheduler.service';
+import { LateFeeSchedulerService } from './infrastructure/late-fee-scheduler.service';
+import { WalletSchedulerService } from './infrastructure/wallet-scheduler.service';
+import { RefundSchedulerService } from './infrastructure/refund-scheduler.service';
 
 // Controllers
 import { PaymentTypeController } from './presentation/payment-type.controller';
 import { PaymentController } from './presentation/payment.controller';
 import { BalanceController } from './presentation/balance.controller';
+import { WithdrawalController } from './presentation/withdrawal.controller';
+import { FeePolicyController } from './presentation/fee-policy.controller';
+import { GatewayReconciliationController } from './presentation/gateway-reconciliation.controller';
+import { PaymentGatewayController } from './presentation/payment-gateway.controller';
+import { ArrearsController } from './presentation/arrears.controller';
+import { LateFeeController } from './presentation/late-fee.controller';
+import { TenantWalletController } from './presentation/tenant-wallet.controller';
 
 // Activity Module
 import { ActivityModule } from '../activity/activity.module';
 import { NotificationModule } from '../notification/notification.module';
-import { SmsModule } from '../sms/sms.module';
+import { LedgerModule } from '../ledger/ledger.module';
 
 @Module({
-  imports: [ActivityModule, NotificationModule, SmsModule],
-  controllers: [PaymentTypeController, PaymentController, BalanceController],
+  imports: [ActivityModule, NotificationModule, LedgerModule],
+  controllers: [
+    PaymentTypeController,
+    PaymentController,
+    BalanceController,
+    WithdrawalController,
+    FeePolicyController,
+    GatewayReconciliationController,
+    PaymentGatewayController,
+    ArrearsController,
+    LateFeeController,
+    TenantWalletController,
+  ],
   providers: [
     // Core Services
     PrismaService,
@@ -34,11 +67,26 @@ import { SmsModule } from '../sms/sms.module';
     PaymentService,
     PaymentPeriodService,
     BalanceService,
+    WithdrawalService,
+    FeePolicyService,
+    GatewayReconciliationService,
+    PaymentGatewayRouteService,
+    ArrearsService,
+    LateFeeService,
+    TenantWalletService,
 
     // Infrastructure Services
     PaymentCacheService,
     PaymentGatewayFactory,
     IrremboPayGateway,
+    MtnMomoGateway,
+    AirtelMoneyGateway,
+    SandboxGateway,
+    PaymentGatewayHealthService,
+    ReconciliationSchedulerService,
+    LateFeeSchedulerService,
+    WalletSchedulerService,
+    RefundSchedulerService,
   ],
   exports: [
     PaymentTypeService,
@@ -46,6 +94,10 @@ import { SmsModule } from '../sms/sms.module';
     PaymentCacheService,
     PaymentGatewayFactory,
     BalanceService,
+    WithdrawalService,
+    FeePolicyService,
+    ArrearsService,
+    TenantWalletService,
   ],
 })
 export class PaymentModule {}
@@ -0,0 +1,231 @@
+import {
+  Controller,
+  Get,
+  Header,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { ArrearsService } from '../application/arrears.service';
+import {
+  ArrearsFilterDto,
+  ArrearsQueryDto,
+  StatementQueryDto,
+  TenantArrearsDto,
+  TenantArrearsSummaryDto,
+  TenantStatementDto,
+} from './dto/arrears.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/auth.decorator';
+import { CurrentUser } from '../../../shared/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../../../shared/decorators/current-user.decorator';
+
+@ApiTags('Arrears')
+@Controller('arrears')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ArrearsController {
+  constructor(private arrearsService: ArrearsService) {}
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+  @ApiOperation({
+    summary: 'List tenants in arrears',
+    description:
+      'Tenants of a cooperative with an outstanding balance, largest debt first, with aging buckets',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tenants in arrears retrieved successfully',
+  })
+  async getCooperativeArrears(
+    @Query() filterDto: ArrearsFilterDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<PaginatedResponseDto<TenantArrearsSummaryDto>> {
+    return this.arrearsService.getCooperativeArrears(
+      this.resolveCooperativeId(currentUser, filterDto.cooperativeId),
+      filterDto,
+    );
+  }
+
+  @Get('me')
+  @Roles(UserRole.TENANT)
+  @ApiOperation({
+    summary: 'Get my outstanding balance',
+    description: 'Expected charges, payments applied and amount still owed',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Outstanding balance retrieved successfully',
+    type: TenantArrearsDto,
+  })
+  async getMyArrears(
+    @Query() queryDto: ArrearsQueryDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<TenantArrearsDto> {
+    return this.arrearsService.getTenantArrears(
+      currentUser.id,
+      this.resolveTenantCooperativeId(currentUser, queryDto.cooperativeId),
+      queryDto.asOf ? new Date(queryDto.asOf) : undefined,
+    );
+  }
+
+  @Get('me/statement')
+  @Roles(UserRole.TENANT)
+  @ApiOperation({
+    summary: 'Get my statement',
+    description: 'Charges and payments with a running balance',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Statement retrieved successfully',
+    type: TenantStatementDto,
+  })
+  async getMyStatement(
+    @Query() queryDto: StatementQueryDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<TenantStatementDto> {
+    return this.arrearsService.getTenantStatement(
+      currentUser.id,
+      this.resolveTenantCooperativeId(currentUser, queryDto.cooperativeId),
+      this.getStatementOptions(queryDto),
+    );
+  }
+
+  @Get('tenants/:tenantId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+  @ApiOperation({
+    summary: 'Get a tenant outstanding balance',
+    description:
+      'Expected charges per billing period, payments applied (including partial ones) and aging buckets',
+  })
+  @ApiParam({ name: 'tenantId', description: 'Tenant user ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Outstanding balance retrieved successfully',
+    type: TenantArrearsDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tenant has no room assignment in this cooperative',
+  })
+  async getTenantArrears(
+    @Param('tenantId') tenantId: string,
+    @Query() queryDto: ArrearsQueryDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<TenantArrearsDto> {
+    return this.arrearsService.getTenantArrears(
+      tenantId,
+      this.resolveCooperativeId(currentUser, queryDto.cooperativeId),
+      queryDto.asOf ? new Date(queryDto.asOf) : undefined,
+    );
+  }
+
+  @Get('tenants/:tenantId/statement')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+  @ApiOperation({
+    summary: 'Get a tenant statement',
+    description: 'Charges and payments with a running balance',
+  })
+  @ApiParam({ name: 'tenantId', description: 'Tenant user ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Statement retrieved successfully',
+    type: TenantStatementDto,
+  })
+  async getTenantStatement(
+    @Param('tenantId') tenantId: string,
+    @Query() queryDto: StatementQueryDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<TenantStatementDto> {
+    return this.arrearsService.getTenantStatement(
+      tenantId,
+      this.resolveCooperativeId(currentUser, queryDto.cooperativeId),
+      this.getStatementOptions(queryDto),
+    );
+  }
+
+  @Get('tenants/:tenantId/statement/print')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+  @Header('Content-Type', 'text/plain; charset=utf-8')
+  @ApiOperation({
+    summary: 'Print a tenant statement',
+    description: 'Plain text statement ready to print or send to the tenant',
+  })
+  @ApiParam({ name: 'tenantId', description: 'Tenant user ID' })
+  @ApiResponse({ status: 200, description: 'Printable statement' })
+  async printTenantStatement(
+    @Param('tenantId') tenantId: string,
+    @Query() queryDto: StatementQueryDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<string> {
+    const statement = await this.arrearsService.getTenantStatement(
+      tenantId,
+      this.resolveCooperativeId(currentUser, queryDto.cooperativeId),
+      this.getStatementOptions(queryDto),
+    );
+
+    return this.arrearsService.renderStatement(statement);
+  }
+
+  private resolveCooperativeId(
+    currentUser: AuthenticatedUser,
+    cooperativeId?: string,
+  ): string {
+    if (currentUser.role === UserRole.SUPER_ADMIN) {
+      if (!cooperativeId) {
+        throw new BadRequestException('cooperativeId is required');
+      }
+      return cooperativeId;
+    }
+
+    // Organization admins can only view their own cooperative
+    if (cooperativeId && cooperativeId !== currentUser.cooperativeId) {
+      throw new BadRequestException(
+        'You can only view arrears for your own cooperative',
+      );
+    }
+
+    if (!currentUser.cooperativeId) {
+      throw new BadRequestException('User cooperative ID is required');
+    }
+
+    return currentUser.cooperativeId;
+  }
+
+  private resolveTenantCooperativeId(
+    currentUser: AuthenticatedUser,
+    cooperativeId?: string,
+  ): string {
+    // Tenants can belong to several cooperatives; the service only finds
+    // their own room assignments
+    const resolved = cooperativeId ?? currentUser.cooperativeId;
+
+    if (!resolved) {
+      throw new BadRequestException('cooperativeId is required');
+    }
+
+    return resolved;
+  }
+
+  private getStatementOptions(queryDto: StatementQueryDto): {
+    fromDate?: Date;
+    asOf?: Date;
+  } {
+    return {
+      fromDate: queryDto.fromDate ? new Date(queryDto.fromDate) : undefined,
+      asOf: queryDto.asOf ? new Date(queryDto.asOf) : undefined,
+    };
+  }
+}
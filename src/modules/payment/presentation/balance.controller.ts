@@ -24,7 +24,7 @@ import { RolesGuard } from '../../../shared/guards/roles.guard';
 import { Roles } from '../../../shared/decorators/auth.decorator';
 import { CurrentUser } from '../../../shared/decorators/current-user.decorator';
 import { AuthenticatedUser } from '../../../shared/decorators/current-user.decorator';
-import { UserRole } from '@prisma/client';
+import { PaymentMethodType, UserRole } from '@prisma/client';
 
 @ApiTags('Balance Management')
 @Controller('balances')
@@ -100,7 +100,8 @@ export class BalanceController {
   @Get('calculate')
   @ApiOperation({
     summary: 'Calculate payment with fees',
-    description: 'Calculate total payment amount including transaction fees',
+    description:
+      'Calculate total payment amount including transaction fees, using the fee policy in effect for the cooperative and payment method',
   })
   @ApiQuery({
     name: 'amount',
@@ -108,6 +109,17 @@ export class BalanceController {
     example: 50000,
     type: 'number',
   })
+  @ApiQuery({
+    name: 'cooperativeId',
+    description: "Cooperative ID. Defaults to the current user's cooperative",
+    required: false,
+  })
+  @ApiQuery({
+    name: 'paymentMethod',
+    description: 'Payment method',
+    required: false,
+    enum: PaymentMethodType,
+  })
   @ApiResponse({
     status: 200,
     description: 'Payment calculation completed successfully',
@@ -115,6 +127,9 @@ export class BalanceController {
   })
   async calculatePaymentAmount(
     @Query('amount') amount: string,
+    @CurrentUser() currentUser: AuthenticatedUser,
+    @Query('cooperativeId') cooperativeId?: string,
+    @Query('paymentMethod') paymentMethod?: PaymentMethodType,
   ): Promise<PaymentCalculationDto> {
     const baseAmount = parseFloat(amount);
 
@@ -122,7 +137,17 @@ export class BalanceController {
       throw new BadRequestException('Valid amount is required');
     }
 
-    return this.balanceService.calculateTotalAmount(baseAmount);
+    if (
+      paymentMethod &&
+      !Object.values(PaymentMethodType).includes(paymentMethod)
+    ) {
+      throw new BadRequestException('Invalid payment method');
+    }
+
+    return this.balanceService.calculateTotalAmount(baseAmount, {
+      cooperativeId: cooperativeId || currentUser.cooperativeId,
+      paymentMethod,
+    });
   }
 
     @Get('cooperatives')
@@ -0,0 +1,230 @@
+import {
+  IsOptional,
+  IsDateString,
+  IsMongoId,
+  IsNumber,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationDto } from '../../../../shared/dto/pagination.dto';
+
+export class ArrearsQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Cooperative ID. Required for super admins, defaults to your own cooperative otherwise',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Compute the balance as of this date. Defaults to now',
+    example: '2025-11-30',
+  })
+  @IsOptional()
+  @IsDateString()
+  asOf?: string;
+}
+
+export class ArrearsFilterDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description:
+      'Cooperative ID. Required for super admins, defaults to your own cooperative otherwise',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Compute balances as of this date. Defaults to now',
+    example: '2025-11-30',
+  })
+  @IsOptional()
+  @IsDateString()
+  asOf?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only list tenants owing at least this amount',
+    example: 10000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minOutstanding?: number;
+}
+
+export class StatementQueryDto extends ArrearsQueryDto {
+  @ApiPropertyOptional({
+    description: 'First day of the statement. Defaults to the first charge',
+    example: '2025-09-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  fromDate?: string;
+}
+
+export class ArrearsAgingDto {
+  @ApiProperty({ description: 'Overdue by 0 to 30 days', example: 25000 })
+  days0To30: number;
+
+  @ApiProperty({ description: 'Overdue by 31 to 60 days', example: 25000 })
+  days31To60: number;
+
+  @ApiProperty({ description: 'Overdue by 61 to 90 days', example: 0 })
+  days61To90: number;
+
+  @ApiProperty({ description: 'Overdue by more than 90 days', example: 0 })
+  over90: number;
+}
+
+export class ArrearsChargeDto {
+  @ApiProperty({ example: '2025-10' })
+  periodIdentifier: string;
+
+  @ApiProperty()
+  periodStart: Date;
+
+  @ApiProperty()
+  periodEnd: Date;
+
+  @ApiProperty()
+  dueDate: Date;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439013' })
+  paymentTypeId: string;
+
+  @ApiProperty({ example: 'Monthly Rent' })
+  paymentTypeName: string;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439014' })
+  roomId: string;
+
+  @ApiProperty({ example: 'A-101' })
+  roomNumber: string;
+
+  @ApiProperty({ description: 'Expected amount', example: 25000 })
+  amount: number;
+
+  @ApiProperty({ description: 'Amount covered by payments', example: 10000 })
+  paidAmount: number;
+
+  @ApiProperty({ description: 'Amount still owed', example: 15000 })
+  outstanding: number;
+
+  @ApiProperty({ description: 'Days since the due date', example: 12 })
+  daysOverdue: number;
+
+  @ApiPropertyOptional({
+    description: 'Set when the charge is a late fee',
+    example: '507f1f77bcf86cd799439015',
+  })
+  lateFeeId?: string;
+}
+
+export class TenantArrearsSummaryDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  tenantId: string;
+
+  @ApiProperty({ example: 'Jean Uwimana' })
+  tenantName: string;
+
+  @ApiProperty({ example: '+250788123456' })
+  phone: string;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439012' })
+  cooperativeId: string;
+
+  @ApiProperty({ description: 'Total expected charges', example: 75000 })
+  totalCharged: number;
+
+  @ApiProperty({
+    description: 'Payments applied to the charges',
+    example: 35000,
+  })
+  totalPaid: number;
+
+  @ApiProperty({ description: 'Amount still owed', example: 40000 })
+  outstandingBalance: number;
+
+  @ApiProperty({
+    description: 'Payments left over after every charge was covered',
+    example: 0,
+  })
+  unappliedCredit: number;
+
+  @ApiPropertyOptional({ description: 'Due date of the oldest unpaid charge' })
+  oldestUnpaidDueDate?: Date;
+
+  @ApiProperty({ type: ArrearsAgingDto })
+  aging: ArrearsAgingDto;
+
+  @ApiProperty()
+  asOf: Date;
+}
+
+export class TenantArrearsDto extends TenantArrearsSummaryDto {
+  @ApiProperty({ type: [ArrearsChargeDto] })
+  charges: ArrearsChargeDto[];
+}
+
+export class StatementLineDto {
+  @ApiProperty()
+  date: Date;
+
+  @ApiProperty({ enum: ['CHARGE', 'PAYMENT'] })
+  type: 'CHARGE' | 'PAYMENT';
+
+  @ApiProperty({ example: 'Monthly Rent 2025-10 (room A-101)' })
+  description: string;
+
+  @ApiPropertyOptional({ description: 'Payment ID for payment lines' })
+  reference?: string;
+
+  @ApiProperty({ example: 25000 })
+  debit: number;
+
+  @ApiProperty({ example: 0 })
+  credit: number;
+
+  @ApiProperty({ description: 'Running balance owed', example: 25000 })
+  balance: number;
+}
+
+export class TenantStatementDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  tenantId: string;
+
+  @ApiProperty({ example: 'Jean Uwimana' })
+  tenantName: string;
+
+  @ApiProperty({ example: '+250788123456' })
+  phone: string;
+
+  @ApiProperty({ example: 'Kigali Housing Cooperative' })
+  cooperativeName: string;
+
+  @ApiProperty()
+  fromDate: Date;
+
+  @ApiProperty()
+  toDate: Date;
+
+  @ApiProperty({ description: 'Balance owed before fromDate', example: 0 })
+  openingBalance: number;
+
+  @ApiProperty({ type: [StatementLineDto] })
+  lines: StatementLineDto[];
+
+  @ApiProperty({
+    description: 'Balance owed at toDate. Negative means credit',
+    example: 40000,
+  })
+  closingBalance: number;
+
+  @ApiProperty({ type: ArrearsAgingDto })
+  aging: ArrearsAgingDto;
+}
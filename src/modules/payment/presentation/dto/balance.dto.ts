@@ -2,6 +2,7 @@ import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import {
   BalanceTransactionType,
   BalanceTransactionStatus,
+  FeeBearer,
 } from '@prisma/client';
 
 export class CooperativeBalanceDto {
@@ -41,6 +42,12 @@ export class CooperativeBalanceDto {
   })
   pendingBalance: number;
 
+  @ApiProperty({
+    description: 'Funds held for pending or processing withdrawals',
+    example: 50000,
+  })
+  heldBalance: number;
+
   @ApiPropertyOptional({
     description: 'Last payment received timestamp',
   })
@@ -231,6 +238,12 @@ export class BalanceOverviewDto {
   })
   totalPendingBalance: number;
 
+  @ApiProperty({
+    description: 'Total funds held for pending or processing withdrawals',
+    example: 300000,
+  })
+  totalHeldBalance: number;
+
   @ApiProperty({
     description: 'Total received amount across all cooperatives (all-time)',
     example: 15000000,
@@ -273,4 +286,18 @@ export class PaymentCalculationDto {
     example: 50500,
   })
   totalPaid: number;
+
+  @ApiProperty({
+    description:
+      'Who bears the fee. COOPERATIVE fees are deducted from the cooperative share instead of being added to the total',
+    enum: FeeBearer,
+    example: FeeBearer.TENANT,
+  })
+  feeBearer: FeeBearer;
+
+  @ApiPropertyOptional({
+    description: 'Fee policy applied (absent when the default fee applies)',
+    example: '507f1f77bcf86cd799439030',
+  })
+  feePolicyId?: string;
 }
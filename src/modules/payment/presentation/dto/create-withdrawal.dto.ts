@@ -0,0 +1,67 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsEnum,
+  IsNotEmpty,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WithdrawalDestinationType } from '@prisma/client';
+
+export class CreateWithdrawalDto {
+  @ApiProperty({
+    description: 'Amount to withdraw from the cooperative balance (RWF)',
+    example: 250000,
+    minimum: 1,
+  })
+  @IsNumber()
+  @Min(1)
+  amount: number;
+
+  @ApiProperty({
+    description: 'Where the payout should be sent',
+    enum: WithdrawalDestinationType,
+    example: WithdrawalDestinationType.BANK_ACCOUNT,
+  })
+  @IsEnum(WithdrawalDestinationType)
+  destinationType: WithdrawalDestinationType;
+
+  @ApiProperty({
+    description: 'Name of the destination account holder',
+    example: 'Kigali Housing Cooperative',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  destinationAccountName: string;
+
+  @ApiProperty({
+    description:
+      'Bank account number, or mobile money phone number for MOBILE_MONEY payouts',
+    example: '00040-0123456-78',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  destinationAccountNumber: string;
+
+  @ApiPropertyOptional({
+    description: 'Bank name or mobile money operator',
+    example: 'Bank of Kigali',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  destinationProvider?: string;
+
+  @ApiPropertyOptional({
+    description: 'Purpose of the withdrawal',
+    example: 'Monthly maintenance contractor payout',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,270 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsEnum,
+  IsNotEmpty,
+  IsMongoId,
+  IsDateString,
+  IsArray,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  FeeBearer,
+  FeeCalculationType,
+  PaymentMethodType,
+} from '@prisma/client';
+import { PaginationDto } from '../../../../shared/dto/pagination.dto';
+
+export class FeeTierDto {
+  @ApiPropertyOptional({
+    description:
+      'Upper bound of the band (inclusive, RWF). Omit for the last, open-ended band',
+    example: 100000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  upTo?: number;
+
+  @ApiPropertyOptional({
+    description: 'Flat fee for payments in this band (RWF)',
+    example: 300,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  flatAmount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Percentage of the base amount for payments in this band',
+    example: 0.5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  percentage?: number;
+}
+
+export class CreateFeePolicyDto {
+  @ApiProperty({
+    description: 'Policy name',
+    example: 'Mobile money 1% capped at 2,000 RWF',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Policy description',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Cooperative the policy applies to. Omit for the platform-wide default',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Payment method the policy applies to. Omit to apply to every method',
+    enum: PaymentMethodType,
+    example: PaymentMethodType.MOBILE_MONEY_MTN,
+  })
+  @IsOptional()
+  @IsEnum(PaymentMethodType)
+  paymentMethod?: PaymentMethodType;
+
+  @ApiProperty({
+    description: 'How the fee is calculated',
+    enum: FeeCalculationType,
+    example: FeeCalculationType.PERCENTAGE,
+  })
+  @IsEnum(FeeCalculationType)
+  calculationType: FeeCalculationType;
+
+  @ApiPropertyOptional({
+    description: 'Fee amount for FLAT policies (RWF)',
+    example: 500,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  flatAmount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Percentage of the base amount for PERCENTAGE policies',
+    example: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  percentage?: number;
+
+  @ApiPropertyOptional({
+    description: 'Amount bands for TIERED policies, in ascending order',
+    type: [FeeTierDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => FeeTierDto)
+  tiers?: FeeTierDto[];
+
+  @ApiPropertyOptional({
+    description: 'Minimum fee charged (RWF)',
+    example: 200,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minimumFee?: number;
+
+  @ApiPropertyOptional({
+    description: 'Maximum fee charged (RWF)',
+    example: 2000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maximumFee?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Who pays the fee. TENANT adds it on top of the amount, COOPERATIVE deducts it from the cooperative share',
+    enum: FeeBearer,
+    default: FeeBearer.TENANT,
+  })
+  @IsOptional()
+  @IsEnum(FeeBearer)
+  feeBearer?: FeeBearer;
+
+  @ApiPropertyOptional({
+    description: 'When the policy takes effect. Defaults to now',
+    example: '2025-12-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  effectiveFrom?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the policy stops applying. Omit for open-ended',
+    example: '2026-12-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  effectiveTo?: string;
+}
+
+export class EndFeePolicyDto {
+  @ApiPropertyOptional({
+    description: 'When the policy stops applying. Defaults to now',
+    example: '2026-01-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  effectiveTo?: string;
+}
+
+export class FeePolicyFilterDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Filter by cooperative ID',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by payment method',
+    enum: PaymentMethodType,
+  })
+  @IsOptional()
+  @IsEnum(PaymentMethodType)
+  paymentMethod?: PaymentMethodType;
+
+  @ApiPropertyOptional({
+    description: 'Only return policies in effect at this date',
+    example: '2025-12-15T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  activeAt?: string;
+}
+
+export class FeePolicyResponseDto {
+  @ApiProperty({ description: 'Fee policy ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Policy name' })
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Policy description' })
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Cooperative scope (absent for platform-wide policies)',
+  })
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Payment method scope (absent when it applies to all)',
+    enum: PaymentMethodType,
+  })
+  paymentMethod?: PaymentMethodType;
+
+  @ApiProperty({ enum: FeeCalculationType })
+  calculationType: FeeCalculationType;
+
+  @ApiPropertyOptional()
+  flatAmount?: number;
+
+  @ApiPropertyOptional()
+  percentage?: number;
+
+  @ApiPropertyOptional({ type: [FeeTierDto] })
+  tiers?: FeeTierDto[];
+
+  @ApiPropertyOptional()
+  minimumFee?: number;
+
+  @ApiPropertyOptional()
+  maximumFee?: number;
+
+  @ApiProperty({ enum: FeeBearer })
+  feeBearer: FeeBearer;
+
+  @ApiProperty()
+  effectiveFrom: Date;
+
+  @ApiPropertyOptional()
+  effectiveTo?: Date;
+
+  @ApiPropertyOptional({ description: 'Super admin who created the policy' })
+  createdBy?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
@@ -0,0 +1,106 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  IsMongoId,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaymentMethodType } from '@prisma/client';
+
+export class GroupPaymentAllocationDto {
+  @ApiPropertyOptional({
+    description:
+      'Tenant being paid for. Optional when roomId is given - the room occupant is used',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsOptional()
+  @IsString()
+  @IsMongoId()
+  tenantId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Room being paid for. Optional when tenantId is given - the tenant's active room is used",
+    example: '507f1f77bcf86cd799439016',
+  })
+  @IsOptional()
+  @IsString()
+  @IsMongoId()
+  roomId?: string;
+
+  @ApiProperty({
+    description: 'Amount allocated to this tenant or room (before fees)',
+    example: 50000,
+    minimum: 1,
+  })
+  @IsNumber()
+  @Min(1)
+  amount: number;
+}
+
+export class InitiateGroupPaymentDto {
+  @ApiProperty({
+    description: 'Payment type ID shared by every allocation',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsString()
+  @IsMongoId()
+  paymentTypeId: string;
+
+  @ApiProperty({
+    description: 'Tenants or rooms covered by this payment',
+    type: [GroupPaymentAllocationDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => GroupPaymentAllocationDto)
+  allocations: GroupPaymentAllocationDto[];
+
+  @ApiProperty({
+    description: 'Payment method',
+    enum: PaymentMethodType,
+    example: PaymentMethodType.MOBILE_MONEY_MTN,
+  })
+  @IsEnum(PaymentMethodType)
+  paymentMethod: PaymentMethodType;
+
+  @ApiProperty({
+    description: 'Phone number for mobile money or account details',
+    example: '+250788123456',
+  })
+  @IsString()
+  paymentAccount: string;
+
+  @ApiPropertyOptional({
+    description: 'Payment description',
+    example: 'October rent for rooms 101, 102 and 103',
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    description: 'Idempotency key to prevent duplicate payments',
+    example: 'group_payment_67890abcdef12345',
+  })
+  @IsString()
+  idempotencyKey: string;
+
+  @ApiPropertyOptional({
+    description: 'Target cooperative ID for cross-cooperative payments',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsString()
+  @IsMongoId()
+  targetCooperativeId?: string;
+}
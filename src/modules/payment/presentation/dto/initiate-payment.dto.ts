@@ -1,9 +1,11 @@
 import {
   IsString,
   IsNumber,
+  IsInt,
   IsOptional,
   IsEnum,
   Min,
+  Max,
   IsDateString,
   IsMongoId,
 } from 'class-validator';
@@ -59,6 +61,19 @@ export class InitiatePaymentDto {
   @IsDateString()
   dueDate?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Billing periods paid at once for a recurring payment type. Anything beyond the charges already due is kept in the tenant wallet and applied as the next periods come due',
+    example: 3,
+    minimum: 1,
+    maximum: 12,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  periods?: number;
+
   @ApiProperty({
     description: 'Idempotency key to prevent duplicate payments',
     example: 'payment_67890abcdef12345',
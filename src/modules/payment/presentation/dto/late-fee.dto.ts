@@ -0,0 +1,292 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsInt,
+  IsBoolean,
+  IsMongoId,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import { LateFeeStatus, LateFeeType } from '@prisma/client';
+import { PaginationDto } from '../../../../shared/dto/pagination.dto';
+
+export class CreateLateFeeRuleDto {
+  @ApiProperty({
+    description: 'Recurring payment type the penalty applies to',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @IsMongoId()
+  paymentTypeId: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Days after the billing period closes before the penalty applies',
+    example: 5,
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  graceDays?: number;
+
+  @ApiProperty({ enum: LateFeeType, example: LateFeeType.PERCENTAGE })
+  @IsEnum(LateFeeType)
+  penaltyType: LateFeeType;
+
+  @ApiPropertyOptional({
+    description: 'Penalty in RWF for FLAT rules',
+    example: 2000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  flatAmount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Percentage of the unpaid amount for PERCENTAGE rules',
+    example: 5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  percentage?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Assess the penalty again at every period close while the charge stays unpaid. Percentage penalties then include earlier penalties',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isCompounding?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Cap on the total penalties for one unpaid charge',
+    example: 10000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxPenaltyAmount?: number;
+}
+
+export class UpdateLateFeeRuleDto extends PartialType(
+  OmitType(CreateLateFeeRuleDto, ['paymentTypeId'] as const),
+) {
+  @ApiPropertyOptional({
+    description: 'Turn the rule on or off',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class LateFeeRuleFilterDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Filter by cooperative (super admins only)',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter active or inactive rules',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value as boolean;
+  })
+  isActive?: boolean;
+}
+
+export class LateFeeRuleResponseDto {
+  @ApiProperty({ description: 'Rule ID' })
+  id: string;
+
+  @ApiProperty()
+  paymentTypeId: string;
+
+  @ApiPropertyOptional({ example: 'Monthly Rent' })
+  paymentTypeName?: string;
+
+  @ApiProperty()
+  cooperativeId: string;
+
+  @ApiProperty()
+  graceDays: number;
+
+  @ApiProperty({ enum: LateFeeType })
+  penaltyType: LateFeeType;
+
+  @ApiPropertyOptional()
+  flatAmount?: number;
+
+  @ApiPropertyOptional()
+  percentage?: number;
+
+  @ApiProperty()
+  isCompounding: boolean;
+
+  @ApiPropertyOptional()
+  maxPenaltyAmount?: number;
+
+  @ApiProperty()
+  isActive: boolean;
+
+  @ApiPropertyOptional({ description: 'Admin who created the rule' })
+  createdBy?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class LateFeeFilterDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Filter by cooperative (super admins only)',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by tenant' })
+  @IsOptional()
+  @IsMongoId()
+  tenantId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by payment type' })
+  @IsOptional()
+  @IsMongoId()
+  paymentTypeId?: string;
+
+  @ApiPropertyOptional({ enum: LateFeeStatus })
+  @IsOptional()
+  @IsEnum(LateFeeStatus)
+  status?: LateFeeStatus;
+}
+
+export class WaiveLateFeeDto {
+  @ApiProperty({
+    description: 'Why the late fee is waived',
+    example: 'Tenant was hospitalised, approved by the committee',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class AssessLateFeesDto {
+  @ApiPropertyOptional({
+    description: 'Only assess this cooperative. Defaults to every cooperative',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+}
+
+export class LateFeeAssessmentResultDto {
+  @ApiProperty({ example: 3 })
+  cooperativesProcessed: number;
+
+  @ApiProperty({ description: 'Late fees created', example: 12 })
+  assessedCount: number;
+
+  @ApiProperty({
+    description: 'Total of the late fees created',
+    example: 24000,
+  })
+  assessedAmount: number;
+
+  @ApiProperty({ description: 'Late fees marked as paid', example: 4 })
+  paidCount: number;
+}
+
+export class LateFeeResponseDto {
+  @ApiProperty({ description: 'Late fee ID' })
+  id: string;
+
+  @ApiProperty()
+  ruleId: string;
+
+  @ApiProperty()
+  tenantId: string;
+
+  @ApiPropertyOptional({ example: 'Jean Uwimana' })
+  tenantName?: string;
+
+  @ApiProperty()
+  cooperativeId: string;
+
+  @ApiProperty()
+  paymentTypeId: string;
+
+  @ApiPropertyOptional()
+  roomId?: string;
+
+  @ApiProperty({
+    description: 'Billing period of the unpaid charge',
+    example: '2025-10',
+  })
+  periodIdentifier: string;
+
+  @ApiProperty({
+    description: '2 and up for compounding assessments',
+    example: 1,
+  })
+  assessmentNumber: number;
+
+  @ApiProperty({
+    description: 'Amount the penalty was calculated on',
+    example: 25000,
+  })
+  unpaidAmount: number;
+
+  @ApiProperty({ example: 1250 })
+  amount: number;
+
+  @ApiProperty({ example: 0 })
+  paidAmount: number;
+
+  @ApiProperty({ enum: LateFeeStatus })
+  status: LateFeeStatus;
+
+  @ApiProperty()
+  assessedAt: Date;
+
+  @ApiPropertyOptional()
+  waivedBy?: string;
+
+  @ApiPropertyOptional()
+  waivedAt?: Date;
+
+  @ApiPropertyOptional()
+  waiverReason?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
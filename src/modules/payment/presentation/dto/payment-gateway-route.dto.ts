@@ -0,0 +1,150 @@
+import {
+  IsOptional,
+  IsEnum,
+  IsMongoId,
+  IsInt,
+  IsBoolean,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaymentGatewayProvider, PaymentMethodType } from '@prisma/client';
+import { PaginationDto } from '../../../../shared/dto/pagination.dto';
+
+export class CreatePaymentGatewayRouteDto {
+  @ApiPropertyOptional({
+    description: 'Cooperative the route applies to. Omit for every cooperative',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Payment method the route applies to. Omit for every method',
+    enum: PaymentMethodType,
+    example: PaymentMethodType.MOBILE_MONEY_MTN,
+  })
+  @IsOptional()
+  @IsEnum(PaymentMethodType)
+  paymentMethod?: PaymentMethodType;
+
+  @ApiProperty({
+    description: 'Provider that collects matching payments',
+    enum: PaymentGatewayProvider,
+    example: PaymentGatewayProvider.MTN_MOMO,
+  })
+  @IsEnum(PaymentGatewayProvider)
+  provider: PaymentGatewayProvider;
+
+  @ApiPropertyOptional({
+    description:
+      'Order among routes of the same scope, lowest first. Later routes are used for failover',
+    example: 0,
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  priority?: number;
+}
+
+export class UpdatePaymentGatewayRouteDto {
+  @ApiPropertyOptional({
+    description: 'Order among routes of the same scope, lowest first',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  priority?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the route is used',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class PaymentGatewayRouteFilterDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Filter by cooperative ID',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by provider',
+    enum: PaymentGatewayProvider,
+  })
+  @IsOptional()
+  @IsEnum(PaymentGatewayProvider)
+  provider?: PaymentGatewayProvider;
+}
+
+export class PaymentGatewayRouteResponseDto {
+  @ApiProperty({ description: 'Route ID' })
+  id: string;
+
+  @ApiPropertyOptional({
+    description: 'Cooperative scope (absent for platform-wide routes)',
+  })
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Payment method scope (absent when it applies to all)',
+    enum: PaymentMethodType,
+  })
+  paymentMethod?: PaymentMethodType;
+
+  @ApiProperty({ enum: PaymentGatewayProvider })
+  provider: PaymentGatewayProvider;
+
+  @ApiProperty()
+  priority: number;
+
+  @ApiProperty()
+  isActive: boolean;
+
+  @ApiPropertyOptional({ description: 'Super admin who created the route' })
+  createdBy?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class PaymentGatewayHealthDto {
+  @ApiProperty({ enum: PaymentGatewayProvider })
+  provider: PaymentGatewayProvider;
+
+  @ApiProperty({
+    description: 'False while the provider is out of rotation',
+  })
+  available: boolean;
+
+  @ApiProperty({ description: 'Initiation attempts in the last 5 minutes' })
+  attempts: number;
+
+  @ApiProperty({
+    description: 'Share of those attempts that failed (0-1)',
+    example: 0.2,
+  })
+  failureRate: number;
+
+  @ApiPropertyOptional({
+    description: 'When a degraded provider is retried',
+  })
+  degradedUntil?: Date;
+
+  @ApiProperty({ enum: PaymentMethodType, isArray: true })
+  supportedMethods: PaymentMethodType[];
+}
@@ -1,5 +1,55 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { PaymentStatus, PaymentMethodType } from '@prisma/client';
+import { FeeBearer, PaymentStatus, PaymentMethodType } from '@prisma/client';
+
+export class PaymentAllocationResponseDto {
+  @ApiProperty({
+    description: 'Allocation ID',
+    example: '507f1f77bcf86cd799439030',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Tenant covered by this allocation',
+  })
+  tenant: {
+    id: string;
+    firstName?: string;
+    lastName?: string;
+    phone: string;
+  };
+
+  @ApiPropertyOptional({
+    description: 'Room covered by this allocation',
+  })
+  room?: {
+    id: string;
+    roomNumber: string;
+  };
+
+  @ApiProperty({
+    description: 'Amount allocated to this tenant (before fees)',
+    example: 50000,
+  })
+  amount: number;
+
+  @ApiPropertyOptional({
+    description: 'Amount refunded from this allocation',
+    example: 10000,
+  })
+  refundedAmount?: number;
+
+  @ApiProperty({
+    description: 'Allocation status (follows the group payment)',
+    enum: PaymentStatus,
+    example: PaymentStatus.PENDING,
+  })
+  status: PaymentStatus;
+
+  @ApiPropertyOptional({
+    description: 'When the allocation was settled',
+  })
+  paidAt?: Date;
+}
 
 export class PaymentResponseDto {
   @ApiProperty({
@@ -20,6 +70,20 @@ export class PaymentResponseDto {
   })
   fee: number;
 
+  @ApiPropertyOptional({
+    description:
+      'Who bears the fee. COOPERATIVE fees are deducted from the cooperative share',
+    enum: FeeBearer,
+    example: FeeBearer.TENANT,
+  })
+  feeBearer?: FeeBearer;
+
+  @ApiPropertyOptional({
+    description: 'Fee policy applied when the payment was created',
+    example: '507f1f77bcf86cd799439030',
+  })
+  feePolicyId?: string;
+
   @ApiProperty({
     description: 'Total payment amount (baseAmount + fee)',
     example: 50500,
@@ -100,6 +164,55 @@ export class PaymentResponseDto {
   })
   paidAt?: Date;
 
+  @ApiPropertyOptional({
+    description: 'Base amount refunded to the payer so far',
+    example: 0,
+  })
+  refundedAmount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the transaction fee was refunded',
+    example: false,
+  })
+  feeRefunded?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'When the last refund was processed',
+  })
+  refundedAt?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Whether this payment covers several tenants or rooms',
+    example: false,
+  })
+  isGroupPayment?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Per-tenant allocations of a group payment',
+    type: [PaymentAllocationResponseDto],
+  })
+  allocations?: PaymentAllocationResponseDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Page where the payer completes the payment, returned when it is initiated',
+    example: 'https://checkout.irembopay.com/INV_1729123456_abc123',
+  })
+  paymentUrl?: string;
+
+  @ApiPropertyOptional({
+    description: 'Message from the payment gateway, returned when initiated',
+    example: 'Payment request sent to the payer',
+  })
+  gatewayMessage?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Gateway transaction ID, returned when the payment is initiated',
+    example: 'txn_1729123456',
+  })
+  gatewayTransactionId?: string;
+
   @ApiProperty({
     description: 'Creation timestamp',
   })
@@ -0,0 +1,44 @@
+import { IsString, IsNotEmpty, IsOptional, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RejectWithdrawalDto {
+  @ApiProperty({
+    description: 'Why the withdrawal was rejected',
+    example: 'Destination account name does not match the cooperative',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class CompleteWithdrawalDto {
+  @ApiProperty({
+    description: 'Bank transfer or mobile money reference of the payout',
+    example: 'BK20251117001234',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  externalReference: string;
+
+  @ApiPropertyOptional({
+    description: 'Additional notes about the settlement',
+    example: 'Transferred via BK corporate banking',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class FailWithdrawalDto {
+  @ApiProperty({
+    description: 'Why the payout could not be completed',
+    example: 'Bank rejected the transfer: account closed',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
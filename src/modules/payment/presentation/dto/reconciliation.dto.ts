@@ -0,0 +1,233 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsDateString,
+  IsMongoId,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  PaymentStatus,
+  ReconciliationMismatchType,
+  ReconciliationResolution,
+  ReconciliationRunStatus,
+  ReconciliationSource,
+} from '@prisma/client';
+import { PaginationDto } from '../../../../shared/dto/pagination.dto';
+
+export class RunReconciliationDto {
+  @ApiPropertyOptional({
+    description: 'Day to reconcile. Defaults to yesterday',
+    example: '2025-11-16',
+  })
+  @IsOptional()
+  @IsDateString()
+  date?: string;
+}
+
+export class ImportSettlementFileDto {
+  @ApiProperty({
+    description: 'Name of the settlement file',
+    example: 'irembopay-settlement-2025-11-16.csv',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  fileName: string;
+
+  @ApiProperty({
+    description: 'Day covered by the settlement file',
+    example: '2025-11-16',
+  })
+  @IsDateString()
+  settlementDate: string;
+
+  @ApiProperty({
+    description:
+      'CSV content with a header row. Required columns: invoiceNumber, amount, status. Optional: transactionId, paymentReference, paidAt',
+    example:
+      'invoiceNumber,amount,status,transactionId,paidAt\n880123456789,50500,PAID,TX123,2025-11-16T09:12:00Z',
+  })
+  @IsString()
+  @IsNotEmpty()
+  content: string;
+}
+
+export class ResolveReconciliationItemDto {
+  @ApiProperty({
+    description: 'How the mismatch was handled',
+    enum: [ReconciliationResolution.RESOLVED, ReconciliationResolution.IGNORED],
+    example: ReconciliationResolution.RESOLVED,
+  })
+  @IsIn([ReconciliationResolution.RESOLVED, ReconciliationResolution.IGNORED])
+  resolution: ReconciliationResolution;
+
+  @ApiProperty({
+    description: 'What was done about the mismatch',
+    example:
+      'Tenant confirmed duplicate invoice, refunded via IremboPay portal',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  note: string;
+}
+
+export class ReconciliationRunFilterDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Filter by source',
+    enum: ReconciliationSource,
+  })
+  @IsOptional()
+  @IsEnum(ReconciliationSource)
+  source?: ReconciliationSource;
+
+  @ApiPropertyOptional({
+    description: 'Filter by run status',
+    enum: ReconciliationRunStatus,
+  })
+  @IsOptional()
+  @IsEnum(ReconciliationRunStatus)
+  status?: ReconciliationRunStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter runs for days from this date',
+    example: '2025-11-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  fromDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter runs for days until this date',
+    example: '2025-11-30',
+  })
+  @IsOptional()
+  @IsDateString()
+  toDate?: string;
+}
+
+export class ReconciliationItemFilterDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Filter by run ID',
+  })
+  @IsOptional()
+  @IsMongoId()
+  runId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by mismatch type',
+    enum: ReconciliationMismatchType,
+  })
+  @IsOptional()
+  @IsEnum(ReconciliationMismatchType)
+  type?: ReconciliationMismatchType;
+
+  @ApiPropertyOptional({
+    description: 'Filter by resolution',
+    enum: ReconciliationResolution,
+    example: ReconciliationResolution.PENDING_REVIEW,
+  })
+  @IsOptional()
+  @IsEnum(ReconciliationResolution)
+  resolution?: ReconciliationResolution;
+}
+
+export class ReconciliationItemResponseDto {
+  @ApiProperty({ description: 'Item ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Reconciliation run ID' })
+  runId: string;
+
+  @ApiPropertyOptional({ description: 'Payment ID' })
+  paymentId?: string;
+
+  @ApiPropertyOptional({ description: 'Gateway invoice number' })
+  invoiceNumber?: string;
+
+  @ApiProperty({ enum: ReconciliationMismatchType })
+  type: ReconciliationMismatchType;
+
+  @ApiProperty({ enum: ReconciliationResolution })
+  resolution: ReconciliationResolution;
+
+  @ApiPropertyOptional({ enum: PaymentStatus })
+  localStatus?: PaymentStatus;
+
+  @ApiPropertyOptional({ description: 'Status reported by the gateway' })
+  gatewayStatus?: string;
+
+  @ApiPropertyOptional({ description: 'Payment total on our side' })
+  localAmount?: number;
+
+  @ApiPropertyOptional({ description: 'Amount reported by the gateway' })
+  gatewayAmount?: number;
+
+  @ApiPropertyOptional({ description: 'Details about the mismatch' })
+  details?: string;
+
+  @ApiPropertyOptional({ description: 'Super admin who resolved the item' })
+  resolvedBy?: string;
+
+  @ApiPropertyOptional()
+  resolvedAt?: Date;
+
+  @ApiPropertyOptional()
+  resolutionNote?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class ReconciliationRunResponseDto {
+  @ApiProperty({ description: 'Run ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Day reconciled' })
+  businessDate: Date;
+
+  @ApiProperty({ enum: ReconciliationSource })
+  source: ReconciliationSource;
+
+  @ApiProperty({ enum: ReconciliationRunStatus })
+  status: ReconciliationRunStatus;
+
+  @ApiPropertyOptional({ description: 'Settlement file name' })
+  fileName?: string;
+
+  @ApiProperty({ description: 'Payments or settlement records checked' })
+  checkedCount: number;
+
+  @ApiProperty({ description: 'Records that matched' })
+  matchedCount: number;
+
+  @ApiProperty({ description: 'Mismatches found' })
+  mismatchCount: number;
+
+  @ApiProperty({ description: 'Mismatches fixed automatically' })
+  healedCount: number;
+
+  @ApiPropertyOptional({
+    description: 'Super admin who started the run (absent for scheduled runs)',
+  })
+  triggeredBy?: string;
+
+  @ApiPropertyOptional({ description: 'Why the run failed' })
+  errorMessage?: string;
+
+  @ApiProperty()
+  startedAt: Date;
+
+  @ApiPropertyOptional()
+  completedAt?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Mismatches found by the run',
+    type: [ReconciliationItemResponseDto],
+  })
+  items?: ReconciliationItemResponseDto[];
+}
@@ -0,0 +1,80 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsBoolean,
+  IsMongoId,
+  IsNotEmpty,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RefundPaymentDto {
+  @ApiPropertyOptional({
+    description:
+      'Base amount to refund (RWF). Defaults to the remaining refundable amount for a full refund',
+    example: 25000,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  amount?: number;
+
+  @ApiProperty({
+    description: 'Why the payment is being refunded',
+    example: 'Duplicate payment for October rent',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Also return the CoPay transaction fee to the payer (Super Admin only)',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  refundFee?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Group payments only: allocation (tenant and room) a partial refund comes out of. Required for partial refunds of group payments',
+    example: '507f1f77bcf86cd799439030',
+  })
+  @IsOptional()
+  @IsMongoId()
+  allocationId?: string;
+}
+
+export class ResolveRefundDto {
+  @ApiProperty({
+    description:
+      'Whether the provider sent the money back. False releases the reserved refund',
+    example: true,
+  })
+  @IsBoolean()
+  sent: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Refund reference shown by the provider',
+    example: 'RF-2024-000123',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  gatewayRefundReference?: string;
+
+  @ApiProperty({
+    description: 'How the outcome was checked with the provider',
+    example: 'Confirmed in the Airtel Money portal',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  note: string;
+}
@@ -0,0 +1,140 @@
+import { IsOptional, IsEnum, IsMongoId, IsNumber, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WalletTransactionType } from '@prisma/client';
+import { PaginationDto } from '../../../../shared/dto/pagination.dto';
+
+export class WalletQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Cooperative ID. Required for super admins, defaults to your own cooperative otherwise',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+}
+
+export class WalletFilterDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description:
+      'Cooperative ID. Required for super admins, defaults to your own cooperative otherwise',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only list wallets holding at least this amount',
+    example: 1000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minBalance?: number;
+}
+
+export class WalletTransactionFilterDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description:
+      'Cooperative ID. Required for super admins, defaults to your own cooperative otherwise',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({ enum: WalletTransactionType })
+  @IsOptional()
+  @IsEnum(WalletTransactionType)
+  type?: WalletTransactionType;
+}
+
+export class ApplyWalletsDto {
+  @ApiPropertyOptional({
+    description: 'Only process this cooperative. Defaults to every cooperative',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+}
+
+export class WalletSyncResultDto {
+  @ApiProperty({ example: 3 })
+  cooperativesProcessed: number;
+
+  @ApiProperty({
+    description: 'Prepayments and overpayments moved into wallets',
+    example: 50000,
+  })
+  creditedAmount: number;
+
+  @ApiProperty({
+    description: 'Wallet money applied to charges that came due',
+    example: 25000,
+  })
+  appliedAmount: number;
+}
+
+export class WalletResponseDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  tenantId: string;
+
+  @ApiPropertyOptional({ example: 'Jean Uwimana' })
+  tenantName?: string;
+
+  @ApiPropertyOptional({ example: '+250788123456' })
+  phone?: string;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439012' })
+  cooperativeId: string;
+
+  @ApiProperty({
+    description: 'Money held for upcoming charges',
+    example: 50000,
+  })
+  balance: number;
+
+  @ApiPropertyOptional({ description: 'Last wallet movement' })
+  updatedAt?: Date;
+}
+
+export class WalletTransactionResponseDto {
+  @ApiProperty({ description: 'Wallet transaction ID' })
+  id: string;
+
+  @ApiProperty({ enum: WalletTransactionType })
+  type: WalletTransactionType;
+
+  @ApiProperty({
+    description: 'Positive for money in, negative for money out',
+    example: -25000,
+  })
+  amount: number;
+
+  @ApiProperty({ example: 25000 })
+  balanceAfter: number;
+
+  @ApiPropertyOptional({
+    description: 'Payment that funded the prepayment or was refunded',
+  })
+  paymentId?: string;
+
+  @ApiPropertyOptional({ description: 'Payment type of the charge paid' })
+  paymentTypeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Billing period of the charge paid',
+    example: '2025-11',
+  })
+  periodIdentifier?: string;
+
+  @ApiProperty({ example: 'Applied to Monthly Rent 2025-11' })
+  description: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
@@ -0,0 +1,46 @@
+import {
+  IsOptional,
+  IsEnum,
+  IsString,
+  IsDateString,
+  IsMongoId,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { WithdrawalStatus } from '@prisma/client';
+import { PaginationDto } from '../../../../shared/dto/pagination.dto';
+
+export class WithdrawalFilterDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Filter by withdrawal status',
+    enum: WithdrawalStatus,
+    example: WithdrawalStatus.PENDING,
+  })
+  @IsOptional()
+  @IsEnum(WithdrawalStatus)
+  status?: WithdrawalStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by cooperative ID (Super Admin only)',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsString()
+  @IsMongoId()
+  cooperativeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter withdrawals requested from this date',
+    example: '2025-10-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  fromDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter withdrawals requested until this date',
+    example: '2025-10-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  toDate?: string;
+}
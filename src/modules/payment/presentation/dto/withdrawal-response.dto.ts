@@ -0,0 +1,123 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WithdrawalStatus, WithdrawalDestinationType } from '@prisma/client';
+
+export class WithdrawalResponseDto {
+  @ApiProperty({
+    description: 'Withdrawal ID',
+    example: '507f1f77bcf86cd799439020',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Amount withdrawn from the cooperative balance',
+    example: 250000,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Current withdrawal status',
+    enum: WithdrawalStatus,
+    example: WithdrawalStatus.PENDING,
+  })
+  status: WithdrawalStatus;
+
+  @ApiPropertyOptional({
+    description: 'Purpose of the withdrawal',
+    example: 'Monthly maintenance contractor payout',
+  })
+  reason?: string;
+
+  @ApiProperty({
+    description: 'Payout destination type',
+    enum: WithdrawalDestinationType,
+    example: WithdrawalDestinationType.BANK_ACCOUNT,
+  })
+  destinationType: WithdrawalDestinationType;
+
+  @ApiProperty({
+    description: 'Destination account holder name',
+    example: 'Kigali Housing Cooperative',
+  })
+  destinationAccountName: string;
+
+  @ApiProperty({
+    description: 'Destination account or phone number',
+    example: '00040-0123456-78',
+  })
+  destinationAccountNumber: string;
+
+  @ApiPropertyOptional({
+    description: 'Bank name or mobile money operator',
+    example: 'Bank of Kigali',
+  })
+  destinationProvider?: string;
+
+  @ApiProperty({
+    description: 'Organization admin who requested the withdrawal',
+    example: '507f1f77bcf86cd799439013',
+  })
+  requestedBy: string;
+
+  @ApiPropertyOptional({
+    description: 'Super admin who approved or rejected the withdrawal',
+    example: '507f1f77bcf86cd799439014',
+  })
+  approvedBy?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the withdrawal was approved or rejected',
+  })
+  approvedAt?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Super admin who settled or failed the payout',
+    example: '507f1f77bcf86cd799439014',
+  })
+  processedBy?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the payout was settled or failed',
+  })
+  processedAt?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Reason given when the withdrawal was rejected',
+  })
+  rejectionReason?: string;
+
+  @ApiPropertyOptional({
+    description: 'Reason given when the payout failed',
+  })
+  failureReason?: string;
+
+  @ApiPropertyOptional({
+    description: 'Bank transfer or mobile money reference',
+    example: 'BK20251117001234',
+  })
+  externalReference?: string;
+
+  @ApiPropertyOptional({
+    description: 'Balance transaction recording the withdrawal',
+    example: '507f1f77bcf86cd799439021',
+  })
+  balanceTransactionId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Cooperative information',
+  })
+  cooperative?: {
+    id: string;
+    name: string;
+    code: string;
+  };
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,107 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { FeePolicyService } from '../application/fee-policy.service';
+import {
+  CreateFeePolicyDto,
+  EndFeePolicyDto,
+  FeePolicyFilterDto,
+  FeePolicyResponseDto,
+} from './dto/fee-policy.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/auth.decorator';
+import { CurrentUser } from '../../../shared/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../../../shared/decorators/current-user.decorator';
+
+@ApiTags('Fee Policies')
+@Controller('fee-policies')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+@Roles(UserRole.SUPER_ADMIN)
+export class FeePolicyController {
+  constructor(private feePolicyService: FeePolicyService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a fee policy',
+    description:
+      'Create a flat, percentage, tiered or waived fee policy for the platform, a cooperative and/or a payment method. A running policy of the same scope is ended when the new one takes effect (Super Admin only)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Fee policy created successfully',
+    type: FeePolicyResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid policy or overlapping scheduled policy',
+  })
+  async create(
+    @Body() createFeePolicyDto: CreateFeePolicyDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<FeePolicyResponseDto> {
+    return this.feePolicyService.create(createFeePolicyDto, currentUser.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get fee policies (Super Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Fee policies retrieved successfully',
+    type: PaginatedResponseDto<FeePolicyResponseDto>,
+  })
+  async findAll(
+    @Query() filterDto: FeePolicyFilterDto,
+  ): Promise<PaginatedResponseDto<FeePolicyResponseDto>> {
+    return this.feePolicyService.findAll(filterDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get fee policy by ID (Super Admin only)' })
+  @ApiParam({ name: 'id', description: 'Fee policy ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Fee policy retrieved successfully',
+    type: FeePolicyResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Fee policy not found' })
+  async findById(@Param('id') id: string): Promise<FeePolicyResponseDto> {
+    return this.feePolicyService.findById(id);
+  }
+
+  @Patch(':id/end')
+  @ApiOperation({
+    summary: 'End a fee policy',
+    description:
+      'Stop applying a fee policy from the given date. Policies cannot be edited once created (Super Admin only)',
+  })
+  @ApiParam({ name: 'id', description: 'Fee policy ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Fee policy ended successfully',
+    type: FeePolicyResponseDto,
+  })
+  async end(
+    @Param('id') id: string,
+    @Body() endFeePolicyDto: EndFeePolicyDto,
+  ): Promise<FeePolicyResponseDto> {
+    return this.feePolicyService.end(id, endFeePolicyDto);
+  }
+}
@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { GatewayReconciliationService } from '../application/gateway-reconciliation.service';
+import {
+  ImportSettlementFileDto,
+  ReconciliationItemFilterDto,
+  ReconciliationItemResponseDto,
+  ReconciliationRunFilterDto,
+  ReconciliationRunResponseDto,
+  ResolveReconciliationItemDto,
+  RunReconciliationDto,
+} from './dto/reconciliation.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/auth.decorator';
+import { CurrentUser } from '../../../shared/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../../../shared/decorators/current-user.decorator';
+
+@ApiTags('Gateway Reconciliation')
+@Controller('gateway-reconciliation')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+@Roles(UserRole.SUPER_ADMIN)
+export class GatewayReconciliationController {
+  constructor(
+    private gatewayReconciliationService: GatewayReconciliationService,
+  ) {}
+
+  @Post('runs')
+  @ApiOperation({
+    summary: 'Run gateway reconciliation',
+    description:
+      'Check the invoice status of every payment created on a day against the gateway. Payments paid at the gateway but not completed locally are completed automatically when the amounts match (Super Admin only)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Reconciliation run finished',
+    type: ReconciliationRunResponseDto,
+  })
+  async runReconciliation(
+    @Body() runDto: RunReconciliationDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<ReconciliationRunResponseDto> {
+    return this.gatewayReconciliationService.reconcileDay(
+      runDto.date ? new Date(runDto.date) : undefined,
+      currentUser.id,
+    );
+  }
+
+  @Post('settlement-files')
+  @ApiOperation({
+    summary: 'Import a settlement file',
+    description:
+      'Reconcile a gateway settlement CSV for a day, including invoices with no matching payment (Super Admin only)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Settlement file reconciled',
+    type: ReconciliationRunResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid settlement file' })
+  async importSettlementFile(
+    @Body() importDto: ImportSettlementFileDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<ReconciliationRunResponseDto> {
+    return this.gatewayReconciliationService.importSettlementFile(
+      importDto,
+      currentUser.id,
+    );
+  }
+
+  @Get('runs')
+  @ApiOperation({ summary: 'Get reconciliation reports (Super Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Reconciliation runs retrieved successfully',
+    type: PaginatedResponseDto<ReconciliationRunResponseDto>,
+  })
+  async findRuns(
+    @Query() filterDto: ReconciliationRunFilterDto,
+  ): Promise<PaginatedResponseDto<ReconciliationRunResponseDto>> {
+    return this.gatewayReconciliationService.findRuns(filterDto);
+  }
+
+  @Get('runs/:id')
+  @ApiOperation({
+    summary: 'Get a reconciliation report with its mismatches',
+  })
+  @ApiParam({ name: 'id', description: 'Reconciliation run ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Reconciliation run retrieved successfully',
+    type: ReconciliationRunResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Reconciliation run not found' })
+  async findRunById(
+    @Param('id') id: string,
+  ): Promise<ReconciliationRunResponseDto> {
+    return this.gatewayReconciliationService.findRunById(id);
+  }
+
+  @Get('items')
+  @ApiOperation({
+    summary: 'Get reconciliation mismatches',
+    description:
+      'List mismatches across runs, e.g. resolution=PENDING_REVIEW for the open ones (Super Admin only)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reconciliation items retrieved successfully',
+    type: PaginatedResponseDto<ReconciliationItemResponseDto>,
+  })
+  async findItems(
+    @Query() filterDto: ReconciliationItemFilterDto,
+  ): Promise<PaginatedResponseDto<ReconciliationItemResponseDto>> {
+    return this.gatewayReconciliationService.findItems(filterDto);
+  }
+
+  @Patch('items/:id/resolve')
+  @ApiOperation({
+    summary: 'Resolve a reconciliation mismatch',
+    description:
+      'Record how a mismatch pending review was handled (Super Admin only)',
+  })
+  @ApiParam({ name: 'id', description: 'Reconciliation item ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Reconciliation item resolved',
+    type: ReconciliationItemResponseDto,
+  })
+  async resolveItem(
+    @Param('id') id: string,
+    @Body() resolveDto: ResolveReconciliationItemDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<ReconciliationItemResponseDto> {
+    return this.gatewayReconciliationService.resolveItem(
+      id,
+      resolveDto,
+      currentUser.id,
+    );
+  }
+}
@@ -0,0 +1,198 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { LateFeeService } from '../application/late-fee.service';
+import {
+  AssessLateFeesDto,
+  CreateLateFeeRuleDto,
+  LateFeeAssessmentResultDto,
+  LateFeeFilterDto,
+  LateFeeResponseDto,
+  LateFeeRuleFilterDto,
+  LateFeeRuleResponseDto,
+  UpdateLateFeeRuleDto,
+  WaiveLateFeeDto,
+} from './dto/late-fee.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/auth.decorator';
+import { CurrentUser } from '../../../shared/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../../../shared/decorators/current-user.decorator';
+
+@ApiTags('Late Fees')
+@Controller('late-fees')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class LateFeeController {
+  constructor(private lateFeeService: LateFeeService) {}
+
+  @Post('rules')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+  @ApiOperation({
+    summary: 'Create a late fee rule',
+    description:
+      'Set the penalty for a recurring payment type. Only one rule per payment type',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Late fee rule created',
+    type: LateFeeRuleResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid rule definition' })
+  async createRule(
+    @Body() createRuleDto: CreateLateFeeRuleDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<LateFeeRuleResponseDto> {
+    return this.lateFeeService.createRule(createRuleDto, currentUser);
+  }
+
+  @Get('rules')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+  @ApiOperation({ summary: 'List late fee rules' })
+  @ApiResponse({
+    status: 200,
+    description: 'Late fee rules retrieved successfully',
+  })
+  async findRules(
+    @Query() filterDto: LateFeeRuleFilterDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<PaginatedResponseDto<LateFeeRuleResponseDto>> {
+    return this.lateFeeService.findRules(
+      filterDto,
+      this.resolveCooperativeFilter(currentUser, filterDto.cooperativeId),
+    );
+  }
+
+  @Patch('rules/:id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+  @ApiOperation({
+    summary: 'Update a late fee rule',
+    description: 'Late fees already assessed keep their amount',
+  })
+  @ApiParam({ name: 'id', description: 'Late fee rule ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Late fee rule updated',
+    type: LateFeeRuleResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Late fee rule not found' })
+  async updateRule(
+    @Param('id') id: string,
+    @Body() updateRuleDto: UpdateLateFeeRuleDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<LateFeeRuleResponseDto> {
+    return this.lateFeeService.updateRule(id, updateRuleDto, currentUser);
+  }
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN, UserRole.TENANT)
+  @ApiOperation({
+    summary: 'List late fees',
+    description:
+      'Tenants see their own late fees, organization admins those of their cooperative',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Late fees retrieved successfully',
+  })
+  async findLateFees(
+    @Query() filterDto: LateFeeFilterDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<PaginatedResponseDto<LateFeeResponseDto>> {
+    if (currentUser.role === UserRole.TENANT) {
+      filterDto.tenantId = currentUser.id;
+      return this.lateFeeService.findLateFees(
+        filterDto,
+        filterDto.cooperativeId,
+      );
+    }
+
+    return this.lateFeeService.findLateFees(
+      filterDto,
+      this.resolveCooperativeFilter(currentUser, filterDto.cooperativeId),
+    );
+  }
+
+  @Patch(':id/waive')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+  @ApiOperation({
+    summary: 'Waive a late fee',
+    description:
+      'Waive an outstanding late fee. Who waived it, when and why are kept on the late fee and logged as an activity',
+  })
+  @ApiParam({ name: 'id', description: 'Late fee ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Late fee waived',
+    type: LateFeeResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Late fee is already paid or waived',
+  })
+  async waive(
+    @Param('id') id: string,
+    @Body() waiveDto: WaiveLateFeeDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<LateFeeResponseDto> {
+    return this.lateFeeService.waive(id, waiveDto, currentUser);
+  }
+
+  @Post('assess')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Assess late fees now',
+    description:
+      'Run the daily late fee assessment immediately, for one cooperative or all of them (Super Admin only)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Late fees assessed',
+    type: LateFeeAssessmentResultDto,
+  })
+  async assess(
+    @Body() assessDto: AssessLateFeesDto,
+  ): Promise<LateFeeAssessmentResultDto> {
+    if (!assessDto.cooperativeId) {
+      return this.lateFeeService.assessAll();
+    }
+
+    const counters = await this.lateFeeService.assessCooperative(
+      assessDto.cooperativeId,
+    );
+
+    return { cooperativesProcessed: 1, ...counters };
+  }
+
+  private resolveCooperativeFilter(
+    currentUser: AuthenticatedUser,
+    cooperativeId?: string,
+  ): string | undefined {
+    if (currentUser.role === UserRole.SUPER_ADMIN) {
+      return cooperativeId;
+    }
+
+    if (!currentUser.cooperativeId) {
+      throw new BadRequestException('User cooperative ID is required');
+    }
+
+    return currentUser.cooperativeId;
+  }
+}
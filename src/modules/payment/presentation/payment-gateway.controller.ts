@@ -0,0 +1,121 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { PaymentGatewayRouteService } from '../application/payment-gateway-route.service';
+import {
+  CreatePaymentGatewayRouteDto,
+  PaymentGatewayHealthDto,
+  PaymentGatewayRouteFilterDto,
+  PaymentGatewayRouteResponseDto,
+  UpdatePaymentGatewayRouteDto,
+} from './dto/payment-gateway-route.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/auth.decorator';
+import { CurrentUser } from '../../../shared/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../../../shared/decorators/current-user.decorator';
+
+@ApiTags('Payment Gateways')
+@Controller('payment-gateways')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+@Roles(UserRole.SUPER_ADMIN)
+export class PaymentGatewayController {
+  constructor(private paymentGatewayRouteService: PaymentGatewayRouteService) {}
+
+  @Get('providers')
+  @ApiOperation({
+    summary: 'Get payment providers',
+    description:
+      'Configured providers with their supported methods and recent error rate (Super Admin only)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Providers retrieved successfully',
+    type: [PaymentGatewayHealthDto],
+  })
+  getProviders(): PaymentGatewayHealthDto[] {
+    return this.paymentGatewayRouteService.getProviders();
+  }
+
+  @Post('routes')
+  @ApiOperation({
+    summary: 'Create a payment route',
+    description:
+      'Route payments of a cooperative and/or payment method to a provider (Super Admin only)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Route created successfully',
+    type: PaymentGatewayRouteResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Provider not configured or method not supported',
+  })
+  async createRoute(
+    @Body() createRouteDto: CreatePaymentGatewayRouteDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<PaymentGatewayRouteResponseDto> {
+    return this.paymentGatewayRouteService.create(
+      createRouteDto,
+      currentUser.id,
+    );
+  }
+
+  @Get('routes')
+  @ApiOperation({ summary: 'Get payment routes (Super Admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Routes retrieved successfully',
+    type: PaginatedResponseDto<PaymentGatewayRouteResponseDto>,
+  })
+  async findRoutes(
+    @Query() filterDto: PaymentGatewayRouteFilterDto,
+  ): Promise<PaginatedResponseDto<PaymentGatewayRouteResponseDto>> {
+    return this.paymentGatewayRouteService.findAll(filterDto);
+  }
+
+  @Patch('routes/:id')
+  @ApiOperation({ summary: 'Update a payment route (Super Admin only)' })
+  @ApiParam({ name: 'id', description: 'Route ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Route updated successfully',
+    type: PaymentGatewayRouteResponseDto,
+  })
+  async updateRoute(
+    @Param('id') id: string,
+    @Body() updateRouteDto: UpdatePaymentGatewayRouteDto,
+  ): Promise<PaymentGatewayRouteResponseDto> {
+    return this.paymentGatewayRouteService.update(id, updateRouteDto);
+  }
+
+  @Delete('routes/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a payment route (Super Admin only)' })
+  @ApiParam({ name: 'id', description: 'Route ID' })
+  @ApiResponse({ status: 204, description: 'Route deleted successfully' })
+  async deleteRoute(@Param('id') id: string): Promise<void> {
+    return this.paymentGatewayRouteService.remove(id);
+  }
+}
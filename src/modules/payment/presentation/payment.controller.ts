@@ -19,16 +19,22 @@ import {
 } from '@nestjs/swagger';
 import { PaymentService } from '../application/payment.service';
 import { InitiatePaymentDto } from './dto/initiate-payment.dto';
+import { InitiateGroupPaymentDto } from './dto/initiate-group-payment.dto';
 import { PaymentResponseDto } from './dto/payment-response.dto';
 import { PaymentSearchDto } from './dto/payment-search.dto';
 import { PaymentWebhookDto } from './dto/payment-webhook.dto';
+import { RefundPaymentDto, ResolveRefundDto } from './dto/refund-payment.dto';
 import { PaginationDto } from '../../../shared/dto/pagination.dto';
 import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
 import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
 import { RolesGuard } from '../../../shared/guards/roles.guard';
 import { CurrentUser } from '../../../shared/decorators/current-user.decorator';
 import { AuthenticatedUser } from '../../../shared/decorators/current-user.decorator';
-import { UserRole, PaymentStatus } from '@prisma/client';
+import {
+  UserRole,
+  PaymentStatus,
+  PaymentGatewayProvider,
+} from '@prisma/client';
 import { Roles, Public } from '../../../shared/decorators/auth.decorator';
 
 @ApiTags('Payments')
@@ -60,6 +66,28 @@ export class PaymentController {
     );
   }
 
+  @Post('group')
+  @ApiOperation({
+    summary: 'Initiate a group payment',
+    description:
+      'Pay for several tenants or rooms of one cooperative with a single invoice. Each tenant gets an allocation that counts as paid for their billing period once the payment completes.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Group payment initiated successfully',
+    type: PaymentResponseDto,
+  })
+  async initiateGroupPayment(
+    @Body() initiateGroupPaymentDto: InitiateGroupPaymentDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<PaymentResponseDto> {
+    return this.paymentService.initiateGroupPayment(
+      initiateGroupPaymentDto,
+      currentUser.id,
+      initiateGroupPaymentDto.targetCooperativeId || currentUser.cooperativeId!,
+    );
+  }
+
   @Get()
   @ApiOperation({
     summary: 'Get payments',
@@ -211,6 +239,65 @@ export class PaymentController {
     );
   }
 
+  @Post(':id/refund')
+  @Roles(UserRole.ORGANIZATION_ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Refund a payment',
+    description:
+      'Refund a completed payment in full or in part. The amount is returned through the payment gateway and reversed from the cooperative balance. Super admins can also refund the transaction fee.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Payment refunded successfully',
+    type: PaymentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Payment is not refundable, amount is too high, or the gateway refused the refund',
+  })
+  async refundPayment(
+    @Param('id') id: string,
+    @Body() refundPaymentDto: RefundPaymentDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<PaymentResponseDto> {
+    return this.paymentService.refundPayment(
+      id,
+      refundPaymentDto,
+      currentUser.id,
+      currentUser.cooperativeId!,
+      currentUser.role as UserRole,
+    );
+  }
+
+  @Post('refunds/:refundId/resolve')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Resolve a refund by hand',
+    description:
+      'Settle a refund the payment gateway never confirmed, after checking its outcome with the provider. A sent refund is recorded, a failed one releases the reserved amount and cooperative funds.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Refund resolved',
+    type: PaymentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Refund is not waiting for a gateway answer',
+  })
+  async resolveRefund(
+    @Param('refundId') refundId: string,
+    @Body() resolveRefundDto: ResolveRefundDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<PaymentResponseDto> {
+    return this.paymentService.resolveRefundManually(
+      refundId,
+      resolveRefundDto,
+      currentUser.id,
+    );
+  }
+
   @Post('callback/:id/status')
   @ApiOperation({
     summary: 'Update payment status via callback',
@@ -317,6 +404,70 @@ export class PaymentController {
     }
   }
 
+  @Post('webhook/mtn-momo')
+  @Public()
+  @HttpCode(200)
+  @ApiExcludeEndpoint()
+  async handleMtnMomoWebhook(
+    @Body() callbackPayload: { externalId?: string; status?: string },
+  ): Promise<{ status: string; message: string }> {
+    return this.processProviderCallback(
+      PaymentGatewayProvider.MTN_MOMO,
+      callbackPayload.externalId,
+    );
+  }
+
+  @Post('webhook/airtel-money')
+  @Public()
+  @HttpCode(200)
+  @ApiExcludeEndpoint()
+  async handleAirtelMoneyWebhook(
+    @Body()
+    callbackPayload: {
+      transaction?: { id?: string; status_code?: string };
+    },
+  ): Promise<{ status: string; message: string }> {
+    return this.processProviderCallback(
+      PaymentGatewayProvider.AIRTEL_MONEY,
+      callbackPayload.transaction?.id,
+    );
+  }
+
+  @Post('webhook/sandbox')
+  @Public()
+  @HttpCode(200)
+  @ApiExcludeEndpoint()
+  async handleSandboxWebhook(
+    @Body() callbackPayload: { paymentId?: string },
+  ): Promise<{ status: string; message: string }> {
+    return this.processProviderCallback(
+      PaymentGatewayProvider.SANDBOX,
+      callbackPayload.paymentId,
+    );
+  }
+
+  private async processProviderCallback(
+    provider: PaymentGatewayProvider,
+    paymentId?: string,
+  ): Promise<{ status: string; message: string }> {
+    if (!paymentId) {
+      throw new BadRequestException(`Invalid ${provider} callback payload`);
+    }
+
+    try {
+      await this.paymentService.handleProviderCallback(provider, paymentId);
+
+      return {
+        status: 'success',
+        message: `${provider} callback processed successfully`,
+      };
+    } catch (error) {
+      throw new BadRequestException(
+        `Callback processing failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
   private mapIremboPayStatus(status: string): PaymentStatus {
     const statusMapping: Record<string, PaymentStatus> = {
       pending: PaymentStatus.PENDING,
@@ -0,0 +1,204 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { TenantWalletService } from '../application/tenant-wallet.service';
+import {
+  ApplyWalletsDto,
+  WalletFilterDto,
+  WalletQueryDto,
+  WalletResponseDto,
+  WalletSyncResultDto,
+  WalletTransactionFilterDto,
+  WalletTransactionResponseDto,
+} from './dto/tenant-wallet.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/auth.decorator';
+import { CurrentUser } from '../../../shared/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../../../shared/decorators/current-user.decorator';
+
+@ApiTags('Tenant Wallets')
+@Controller('wallets')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class TenantWalletController {
+  constructor(private tenantWalletService: TenantWalletService) {}
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+  @ApiOperation({
+    summary: 'List tenant wallets',
+    description:
+      'Tenants of a cooperative holding prepayments, largest balance first',
+  })
+  @ApiResponse({ status: 200, description: 'Wallets retrieved successfully' })
+  async findWallets(
+    @Query() filterDto: WalletFilterDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<PaginatedResponseDto<WalletResponseDto>> {
+    return this.tenantWalletService.findWallets(
+      this.resolveCooperativeId(currentUser, filterDto.cooperativeId),
+      filterDto,
+    );
+  }
+
+  @Get('me')
+  @Roles(UserRole.TENANT)
+  @ApiOperation({
+    summary: 'Get my wallet',
+    description: 'Prepayments held for upcoming charges',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Wallet retrieved successfully',
+    type: WalletResponseDto,
+  })
+  async getMyWallet(
+    @Query() queryDto: WalletQueryDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<WalletResponseDto> {
+    return this.tenantWalletService.getWallet(
+      currentUser.id,
+      this.resolveTenantCooperativeId(currentUser, queryDto.cooperativeId),
+    );
+  }
+
+  @Get('me/transactions')
+  @Roles(UserRole.TENANT)
+  @ApiOperation({
+    summary: 'Get my wallet transactions',
+    description: 'Prepayments received and amounts applied to charges',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Wallet transactions retrieved successfully',
+  })
+  async getMyTransactions(
+    @Query() filterDto: WalletTransactionFilterDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<PaginatedResponseDto<WalletTransactionResponseDto>> {
+    return this.tenantWalletService.findTransactions(
+      currentUser.id,
+      this.resolveTenantCooperativeId(currentUser, filterDto.cooperativeId),
+      filterDto,
+    );
+  }
+
+  @Get('tenants/:tenantId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+  @ApiOperation({ summary: 'Get a tenant wallet' })
+  @ApiParam({ name: 'tenantId', description: 'Tenant user ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Wallet retrieved successfully',
+    type: WalletResponseDto,
+  })
+  async getTenantWallet(
+    @Param('tenantId') tenantId: string,
+    @Query() queryDto: WalletQueryDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<WalletResponseDto> {
+    return this.tenantWalletService.getWallet(
+      tenantId,
+      this.resolveCooperativeId(currentUser, queryDto.cooperativeId),
+    );
+  }
+
+  @Get('tenants/:tenantId/transactions')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+  @ApiOperation({ summary: 'Get a tenant wallet transactions' })
+  @ApiParam({ name: 'tenantId', description: 'Tenant user ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Wallet transactions retrieved successfully',
+  })
+  async getTenantTransactions(
+    @Param('tenantId') tenantId: string,
+    @Query() filterDto: WalletTransactionFilterDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<PaginatedResponseDto<WalletTransactionResponseDto>> {
+    return this.tenantWalletService.findTransactions(
+      tenantId,
+      this.resolveCooperativeId(currentUser, filterDto.cooperativeId),
+      filterDto,
+    );
+  }
+
+  @Post('apply')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Apply wallets now',
+    description:
+      'Run the daily wallet sync immediately, for one cooperative or all of them (Super Admin only)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Wallets synced',
+    type: WalletSyncResultDto,
+  })
+  async apply(@Body() applyDto: ApplyWalletsDto): Promise<WalletSyncResultDto> {
+    if (!applyDto.cooperativeId) {
+      return this.tenantWalletService.syncAll();
+    }
+
+    const counters = await this.tenantWalletService.syncCooperative(
+      applyDto.cooperativeId,
+    );
+
+    return { cooperativesProcessed: 1, ...counters };
+  }
+
+  private resolveCooperativeId(
+    currentUser: AuthenticatedUser,
+    cooperativeId?: string,
+  ): string {
+    if (currentUser.role === UserRole.SUPER_ADMIN) {
+      if (!cooperativeId) {
+        throw new BadRequestException('cooperativeId is required');
+      }
+      return cooperativeId;
+    }
+
+    // Organization admins can only view their own cooperative
+    if (cooperativeId && cooperativeId !== currentUser.cooperativeId) {
+      throw new BadRequestException(
+        'You can only view wallets for your own cooperative',
+      );
+    }
+
+    if (!currentUser.cooperativeId) {
+      throw new BadRequestException('User cooperative ID is required');
+    }
+
+    return currentUser.cooperativeId;
+  }
+
+  private resolveTenantCooperativeId(
+    currentUser: AuthenticatedUser,
+    cooperativeId?: string,
+  ): string {
+    const resolved = cooperativeId ?? currentUser.cooperativeId;
+
+    if (!resolved) {
+      throw new BadRequestException('cooperativeId is required');
+    }
+
+    return resolved;
+  }
+}
@@ -0,0 +1,237 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import {
+  WithdrawalService,
+  WithdrawalContext,
+} from '../application/withdrawal.service';
+import { CreateWithdrawalDto } from './dto/create-withdrawal.dto';
+import {
+  CompleteWithdrawalDto,
+  FailWithdrawalDto,
+  RejectWithdrawalDto,
+} from './dto/process-withdrawal.dto';
+import { WithdrawalFilterDto } from './dto/withdrawal-filter.dto';
+import { WithdrawalResponseDto } from './dto/withdrawal-response.dto';
+import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/auth.decorator';
+import { CurrentUser } from '../../../shared/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../../../shared/decorators/current-user.decorator';
+
+@ApiTags('Withdrawals')
+@Controller('withdrawals')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class WithdrawalController {
+  constructor(private withdrawalService: WithdrawalService) {}
+
+  @Post()
+  @Roles(UserRole.ORGANIZATION_ADMIN)
+  @ApiOperation({
+    summary: 'Request a withdrawal',
+    description:
+      'Request a payout from the cooperative balance. The amount is held until a super admin approves and settles or rejects the request.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Withdrawal requested successfully',
+    type: WithdrawalResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Insufficient cooperative balance',
+  })
+  async requestWithdrawal(
+    @Body() createWithdrawalDto: CreateWithdrawalDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<WithdrawalResponseDto> {
+    return this.withdrawalService.requestWithdrawal(
+      createWithdrawalDto,
+      this.toContext(currentUser),
+    );
+  }
+
+  @Get()
+  @Roles(UserRole.ORGANIZATION_ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Get withdrawals',
+    description:
+      'Organization admins see their cooperative withdrawals, super admins see all withdrawals',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Withdrawals retrieved successfully',
+    type: PaginatedResponseDto<WithdrawalResponseDto>,
+  })
+  async findAll(
+    @Query() filterDto: WithdrawalFilterDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<PaginatedResponseDto<WithdrawalResponseDto>> {
+    return this.withdrawalService.findAll(
+      filterDto,
+      this.toContext(currentUser),
+    );
+  }
+
+  @Get(':id')
+  @Roles(UserRole.ORGANIZATION_ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Get withdrawal by ID' })
+  @ApiParam({ name: 'id', description: 'Withdrawal ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Withdrawal retrieved successfully',
+    type: WithdrawalResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Withdrawal not found' })
+  async findById(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<WithdrawalResponseDto> {
+    return this.withdrawalService.findById(id, this.toContext(currentUser));
+  }
+
+  @Patch(':id/approve')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Approve a withdrawal',
+    description: 'Approve a pending withdrawal for payout (Super Admin only)',
+  })
+  @ApiParam({ name: 'id', description: 'Withdrawal ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Withdrawal approved successfully',
+    type: WithdrawalResponseDto,
+  })
+  async approveWithdrawal(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<WithdrawalResponseDto> {
+    return this.withdrawalService.approveWithdrawal(
+      id,
+      this.toContext(currentUser),
+    );
+  }
+
+  @Patch(':id/reject')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Reject a withdrawal',
+    description:
+      'Reject a pending withdrawal and release the held funds (Super Admin only)',
+  })
+  @ApiParam({ name: 'id', description: 'Withdrawal ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Withdrawal rejected successfully',
+    type: WithdrawalResponseDto,
+  })
+  async rejectWithdrawal(
+    @Param('id') id: string,
+    @Body() rejectDto: RejectWithdrawalDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<WithdrawalResponseDto> {
+    return this.withdrawalService.rejectWithdrawal(
+      id,
+      rejectDto,
+      this.toContext(currentUser),
+    );
+  }
+
+  @Patch(':id/complete')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Mark a withdrawal as paid out',
+    description:
+      'Record the payout reference and debit the held funds (Super Admin only)',
+  })
+  @ApiParam({ name: 'id', description: 'Withdrawal ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Withdrawal completed successfully',
+    type: WithdrawalResponseDto,
+  })
+  async completeWithdrawal(
+    @Param('id') id: string,
+    @Body() completeDto: CompleteWithdrawalDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<WithdrawalResponseDto> {
+    return this.withdrawalService.completeWithdrawal(
+      id,
+      completeDto,
+      this.toContext(currentUser),
+    );
+  }
+
+  @Patch(':id/fail')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Mark a withdrawal payout as failed',
+    description:
+      'Record a failed payout and return the held funds to the cooperative balance (Super Admin only)',
+  })
+  @ApiParam({ name: 'id', description: 'Withdrawal ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Withdrawal marked as failed',
+    type: WithdrawalResponseDto,
+  })
+  async failWithdrawal(
+    @Param('id') id: string,
+    @Body() failDto: FailWithdrawalDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<WithdrawalResponseDto> {
+    return this.withdrawalService.failWithdrawal(
+      id,
+      failDto,
+      this.toContext(currentUser),
+    );
+  }
+
+  @Patch(':id/cancel')
+  @Roles(UserRole.ORGANIZATION_ADMIN)
+  @ApiOperation({
+    summary: 'Cancel a withdrawal',
+    description:
+      'Cancel a pending withdrawal of your cooperative and release the held funds',
+  })
+  @ApiParam({ name: 'id', description: 'Withdrawal ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Withdrawal cancelled successfully',
+    type: WithdrawalResponseDto,
+  })
+  async cancelWithdrawal(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<WithdrawalResponseDto> {
+    return this.withdrawalService.cancelWithdrawal(
+      id,
+      this.toContext(currentUser),
+    );
+  }
+
+  private toContext(currentUser: AuthenticatedUser): WithdrawalContext {
+    return {
+      userId: currentUser.id,
+      cooperativeId: currentUser.cooperativeId,
+      userRole: currentUser.role as UserRole,
+    };
+  }
+}
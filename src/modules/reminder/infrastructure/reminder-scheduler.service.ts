@@ -93,21 +93,6 @@ export class ReminderSchedulerService {
     }
   }
 
-  /**
-   * Retry failed notifications every 15 minutes
-   */
-  @Cron('0 */15 * * * *') // Every 15 minutes
-  async retryFailedNotifications() {
-    this.logger.debug('Starting failed notification retry process...');
-    
-    try {
-      await this.notificationService.retryFailedNotifications();
-      this.logger.debug('Completed failed notification retry process');
-    } catch (error) {
-      this.logger.error('Error retrying failed notifications:', error.message);
-    }
-  }
-
   /**
    * Process completed payments and mark related reminders as completed every hour
    */
@@ -174,11 +159,14 @@ export class ReminderSchedulerService {
       return;
     }
 
-    // Send notification
-    await this.notificationService.sendReminderNotification(
-      reminder,
-      user,
-    );
+    // Unsubscribed users get no reminders on any channel
+    if (user.notificationsUnsubscribedAt) {
+      this.logger.debug(
+        `User ${user.id} unsubscribed, skipping reminder ${reminder.id}`,
+      );
+    } else {
+      await this.notificationService.sendReminderNotification(reminder, user);
+    }
     
     // Mark as triggered
     await this.reminderService.markAsTriggered(reminder.id);
@@ -214,6 +202,9 @@ export class ReminderSchedulerService {
         lastName: true,
         email: true,
         fcmToken: true,
+        smsRemindersOptOut: true,
+        notificationsUnsubscribedAt: true,
+        preferredLanguage: true,
       },
     });
   }
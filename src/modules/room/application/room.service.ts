@@ -7,7 +7,6 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { NotificationService } from '../../notification/application/notification.service';
-import { SmsService } from '../../sms/application/sms.service';
 import { CreateRoomDto } from '../presentation/dto/create-room.dto';
 import { UpdateRoomDto } from '../presentation/dto/update-room.dto';
 import { RoomFilterDto } from '../presentation/dto/room-filter.dto';
@@ -25,7 +24,6 @@ export class RoomService {
   constructor(
     private prismaService: PrismaService,
     private notificationService: NotificationService,
-    private smsService: SmsService,
   ) {}
 
   /**
@@ -454,11 +452,13 @@ export class RoomService {
     const smsMessage = `COPAY: ${userName}, you've been assigned to ${roomInfo} at ${cooperativeName}. Start date: ${assignment.startDate.toLocaleDateString()}. Welcome to your new home!`;
     
     try {
-      // Send SMS directly
-      await this.smsService.sendSms(
-        user.phone,
+      // Queue the SMS in the outbox
+      await this.notificationService.sendRoomAssignmentNotification(
+        assignment,
+        user,
+        [NotificationType.SMS],
+        title,
         smsMessage,
-        `room-assignment-${assignment.id}`,
       );
       
       // Send in-app notification through notification service
@@ -3,10 +3,9 @@ import { RoomService } from './application/room.service';
 import { RoomController } from './presentation/room.controller';
 import { PrismaService } from '../../prisma/prisma.service';
 import { NotificationModule } from '../notification/notification.module';
-import { SmsModule } from '../sms/sms.module';
 
 @Module({
-  imports: [NotificationModule, SmsModule],
+  imports: [NotificationModule],
   controllers: [RoomController],
   providers: [RoomService, PrismaService],
   exports: [RoomService],
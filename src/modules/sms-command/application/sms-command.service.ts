@@ -0,0 +1,297 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  NotificationCategory,
+  NotificationType,
+  PaymentMethodType,
+  PaymentStatus,
+  User,
+  UserStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { NotificationService } from '../../notification/application/notification.service';
+import {
+  InboundSms,
+  toInternationalMsisdn,
+} from '../../sms/infrastructure/sms.interface';
+import { PaymentService } from '../../payment/application/payment.service';
+import { ArrearsService } from '../../payment/application/arrears.service';
+import {
+  MessageKey,
+  MessageParams,
+  translate,
+} from '../../../shared/i18n/messages';
+
+export type SmsCommand = 'BAL' | 'PAY' | 'STOP' | 'START' | 'HELP';
+
+const COMMANDS: Record<string, SmsCommand> = {
+  BAL: 'BAL',
+  BALANCE: 'BAL',
+  PAY: 'PAY',
+  STOP: 'STOP',
+  START: 'START',
+  HELP: 'HELP',
+};
+
+// Airtel Rwanda numbers, the others are charged on MTN Mobile Money
+const AIRTEL_PREFIX = /^\+2507[23]/;
+
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+interface CommandCooperative {
+  id: string;
+  name: string;
+}
+
+/**
+ * Commands tenants text back to us: BAL, PAY <payment>, STOP, START and
+ * HELP. The sender phone identifies the tenant
+ */
+@Injectable()
+export class SmsCommandService {
+  private readonly logger = new Logger(SmsCommandService.name);
+
+  constructor(
+    private prismaService: PrismaService,
+    private notificationService: NotificationService,
+    private paymentService: PaymentService,
+    private arrearsService: ArrearsService,
+  ) {}
+
+  /**
+   * Runs the command of an inbound SMS and queues the reply to the sender.
+   * The sender is waiting for it, so quiet hours do not hold it back.
+   * Unregistered numbers get no reply, so spoofed senders cannot make us
+   * text arbitrary numbers
+   */
+  async handleInboundSms(inbound: InboundSms): Promise<string | null> {
+    const phone = `+${toInternationalMsisdn(inbound.from)}`;
+
+    const user = await this.prismaService.user.findUnique({
+      where: { phone },
+    });
+
+    if (!user) {
+      this.logger.warn(`Ignored inbound SMS from unregistered ${phone}`);
+      return null;
+    }
+
+    this.logger.log(`Inbound SMS from ${phone}: ${inbound.text}`);
+
+    const reply = await this.execute(user, inbound);
+    await this.notificationService.sendAccountNotification(
+      user,
+      NotificationType.SMS,
+      translate(user.preferredLanguage, 'sms.command.replyTitle'),
+      reply,
+      true,
+    );
+
+    return reply;
+  }
+
+  private async execute(user: User, inbound: InboundSms): Promise<string> {
+    const t: Translate = (key, params) =>
+      translate(user.preferredLanguage, key, params);
+
+    if (user.status !== UserStatus.ACTIVE) {
+      return t('sms.command.accountInactive');
+    }
+
+    const [keyword = '', ...args] = inbound.text.trim().split(/\s+/);
+    const command = COMMANDS[keyword.toUpperCase()];
+
+    switch (command) {
+      case 'BAL':
+        return this.getBalance(user, t);
+      case 'PAY':
+        return this.pay(user, args.join(' '), inbound, t);
+      case 'STOP':
+      case 'START':
+        await this.setReminderSms(user.id, command === 'START');
+        return t(
+          command === 'STOP' ? 'sms.command.stopped' : 'sms.command.started',
+        );
+      case 'HELP':
+        return t('sms.command.help');
+      default:
+        return keyword
+          ? t('sms.command.unknown', { command: keyword })
+          : t('sms.command.help');
+    }
+  }
+
+  private async getBalance(user: User, t: Translate): Promise<string> {
+    const cooperative = await this.getCooperative(user);
+    if (!cooperative) {
+      return t('sms.command.noCooperative');
+    }
+
+    try {
+      const arrears = await this.arrearsService.getTenantArrears(
+        user.id,
+        cooperative.id,
+      );
+
+      if (arrears.outstandingBalance > 0) {
+        return t('sms.command.balance', {
+          amount: arrears.outstandingBalance.toLocaleString(),
+          cooperative: cooperative.name,
+        });
+      }
+    } catch (error) {
+      // Tenants without a room have no charges
+      if (!(error instanceof NotFoundException)) {
+        throw error;
+      }
+    }
+
+    return t('sms.command.balanceClear', { cooperative: cooperative.name });
+  }
+
+  private async pay(
+    user: User,
+    typeName: string,
+    inbound: InboundSms,
+    t: Translate,
+  ): Promise<string> {
+    const cooperative = await this.getCooperative(user);
+    if (!cooperative) {
+      return t('sms.command.noCooperative');
+    }
+
+    const paymentTypes = await this.prismaService.paymentType.findMany({
+      where: { cooperativeId: cooperative.id, isActive: true },
+      select: { id: true, name: true, amount: true },
+      orderBy: { name: 'asc' },
+    });
+
+    if (paymentTypes.length === 0) {
+      return t('sms.command.noPaymentTypes', {
+        cooperative: cooperative.name,
+      });
+    }
+
+    const types = paymentTypes
+      .map((type) => type.name.toUpperCase())
+      .join(', ');
+    if (!typeName) {
+      return t('sms.command.payTypes', { types });
+    }
+
+    // Exact name first, then the first name starting with what was typed
+    const wanted = typeName.toUpperCase();
+    const paymentType =
+      paymentTypes.find((type) => type.name.toUpperCase() === wanted) ||
+      paymentTypes.find((type) => type.name.toUpperCase().startsWith(wanted));
+
+    if (!paymentType) {
+      return t('sms.command.payTypeNotFound', { type: typeName, types });
+    }
+
+    const pendingPayment = await this.prismaService.payment.findFirst({
+      where: {
+        senderId: user.id,
+        cooperativeId: cooperative.id,
+        paymentTypeId: paymentType.id,
+        status: { in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING] },
+      },
+      select: { id: true },
+    });
+
+    if (pendingPayment) {
+      return t('sms.command.payPending', { type: paymentType.name });
+    }
+
+    const paymentMethod = AIRTEL_PREFIX.test(user.phone)
+      ? PaymentMethodType.MOBILE_MONEY_AIRTEL
+      : PaymentMethodType.MOBILE_MONEY_MTN;
+
+    try {
+      const payment = await this.paymentService.initiatePayment(
+        {
+          paymentTypeId: paymentType.id,
+          amount: paymentType.amount,
+          paymentMethod,
+          paymentAccount: user.phone,
+          description: `SMS Payment - ${paymentType.name}`,
+          // Providers retry webhooks, the message ID keeps it to one payment
+          idempotencyKey: `sms_${inbound.messageId || `${user.id}_${Date.now()}`}`,
+        },
+        user.id,
+        cooperative.id,
+      );
+
+      if (payment.status === PaymentStatus.FAILED) {
+        return t('sms.command.payFailed', { type: paymentType.name });
+      }
+
+      return t('sms.command.payInitiated', {
+        amount: payment.amount.toLocaleString(),
+        type: paymentType.name,
+        reference: payment.paymentReference || payment.id,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(
+        `SMS payment for ${user.phone} failed: ${errorMessage}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+      return t('sms.command.payFailed', { type: paymentType.name });
+    }
+  }
+
+  /**
+   * Turns reminder SMS off or on, in the notification preferences too
+   */
+  private async setReminderSms(
+    userId: string,
+    enabled: boolean,
+  ): Promise<void> {
+    await this.prismaService.user.update({
+      where: { id: userId },
+      data: { smsRemindersOptOut: !enabled },
+    });
+
+    const preference =
+      await this.prismaService.notificationPreference.findUnique({
+        where: {
+          userId_category: { userId, category: NotificationCategory.REMINDERS },
+        },
+      });
+
+    if (preference) {
+      const channels = preference.channels.filter(
+        (channel) => channel !== NotificationType.SMS,
+      );
+
+      await this.prismaService.notificationPreference.update({
+        where: { id: preference.id },
+        data: {
+          channels: enabled ? [...channels, NotificationType.SMS] : channels,
+        },
+      });
+    }
+  }
+
+  /**
+   * Cooperative of the tenant's current room, else their default one
+   */
+  private async getCooperative(user: User): Promise<CommandCooperative | null> {
+    const assignment = await this.prismaService.userCooperativeRoom.findFirst({
+      where: { userId: user.id, isActive: true },
+      orderBy: { startDate: 'desc' },
+      select: { cooperativeId: true },
+    });
+    const cooperativeId = assignment?.cooperativeId ?? user.cooperativeId;
+
+    if (!cooperativeId) {
+      return null;
+    }
+
+    return this.prismaService.cooperative.findUnique({
+      where: { id: cooperativeId },
+      select: { id: true, name: true },
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  HttpCode,
+  NotFoundException,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiExcludeEndpoint, ApiTags } from '@nestjs/swagger';
+import { SmsCommandService } from '../application/sms-command.service';
+import { SmsService } from '../../sms/application/sms.service';
+import {
+  Public,
+  WebhookToken,
+} from '../../../shared/decorators/auth.decorator';
+import { WebhookTokenGuard } from '../../../shared/guards/webhook-token.guard';
+
+@ApiTags('SMS')
+@Controller('sms/inbound')
+export class InboundSmsController {
+  constructor(
+    private readonly smsCommandService: SmsCommandService,
+    private readonly smsService: SmsService,
+  ) {}
+
+  @Post(':provider')
+  @Public()
+  @UseGuards(WebhookTokenGuard)
+  @WebhookToken('sms.inboundToken')
+  @HttpCode(200)
+  @ApiExcludeEndpoint() // Called by the SMS providers
+  async handleInboundSms(
+    @Param('provider') providerName: string,
+    @Body() payload: Record<string, string | undefined>,
+  ): Promise<{ status: string; message: string }> {
+    const provider = this.smsService.getProvider(providerName);
+    if (!provider) {
+      throw new NotFoundException(`Unknown SMS provider: ${providerName}`);
+    }
+
+    const inbound = provider.parseInboundSms(payload ?? {});
+    if (!inbound) {
+      throw new BadRequestException('Sender and message text are required');
+    }
+
+    const reply = await this.smsCommandService.handleInboundSms(inbound);
+
+    return {
+      status: 'success',
+      message: reply ? 'Reply sent' : 'Sender not registered, no reply sent',
+    };
+  }
+}
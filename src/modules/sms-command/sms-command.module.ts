@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { SmsCommandService } from './application/sms-command.service';
+import { InboundSmsController } from './presentation/inbound-sms.controller';
+import { SmsModule } from '../sms/sms.module';
+import { PaymentModule } from '../payment/payment.module';
+import { NotificationModule } from '../notification/notification.module';
+import { PrismaService } from '../../prisma/prisma.service';
+
+/**
+ * SMS commands: tenants reply to our SMS with BAL, PAY <payment>, STOP,
+ * START or HELP, a second channel for feature phones besides USSD
+ */
+@Module({
+  imports: [
+    SmsModule, // For the providers' inbound formats
+    PaymentModule, // For balances and push-to-pay
+    NotificationModule, // Replies go out through the outbox
+  ],
+  controllers: [InboundSmsController],
+  providers: [SmsCommandService, PrismaService],
+})
+export class SmsCommandModule {}
@@ -0,0 +1,64 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { NotificationStatus } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SmsService } from './sms.service';
+
+@Injectable()
+export class SmsDeliveryReportService {
+  private readonly logger = new Logger(SmsDeliveryReportService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly smsService: SmsService,
+  ) {}
+
+  /**
+   * Moves the SMS notifications a provider report refers to from SENT to
+   * DELIVERED or FAILED. Returns how many notifications were updated
+   */
+  async handleDeliveryReport(
+    providerName: string,
+    payload: Record<string, string | undefined>,
+  ): Promise<number> {
+    const provider = this.smsService.getProvider(providerName);
+    if (!provider) {
+      throw new NotFoundException(`Unknown SMS provider: ${providerName}`);
+    }
+
+    const report = provider.parseDeliveryReport(payload ?? {});
+    if (!report) {
+      return 0;
+    }
+
+    const now = new Date();
+    const data =
+      report.status === 'DELIVERED'
+        ? {
+            status: NotificationStatus.DELIVERED,
+            deliveredAt:
+              report.deliveredAt && !isNaN(report.deliveredAt.getTime())
+                ? report.deliveredAt
+                : now,
+          }
+        : {
+            status: NotificationStatus.FAILED,
+            failedAt: now,
+            errorMessage: report.error || 'SMS delivery failed',
+          };
+
+    const { count } = await this.prismaService.notification.updateMany({
+      where: {
+        provider: provider.name,
+        providerMessageId: report.messageId,
+        status: { in: [NotificationStatus.PENDING, NotificationStatus.SENT] },
+      },
+      data,
+    });
+
+    this.logger.log(
+      `Delivery report from ${provider.name} for ${report.messageId}: ${report.status} (${count} notification(s) updated)`,
+    );
+
+    return count;
+  }
+}
@@ -0,0 +1,281 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Language, SmsTemplate } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  DEFAULT_LANGUAGE,
+  MessageParams,
+  fillPlaceholders,
+  translate,
+} from '../../../shared/i18n/messages';
+import { countSmsSegments } from '../infrastructure/sms-segments';
+import {
+  SAMPLE_COOPERATIVE_NAME,
+  SMS_TEMPLATES,
+  SMS_TEMPLATE_KEYS,
+  SmsTemplateKey,
+} from './sms-templates';
+import {
+  PreviewSmsTemplateDto,
+  SmsTemplateDto,
+  SmsTemplatePreviewDto,
+  SmsTemplateSource,
+  UpsertSmsTemplateDto,
+} from '../presentation/dto/sms-template.dto';
+
+@Injectable()
+export class SmsTemplateService {
+  private readonly logger = new Logger(SmsTemplateService.name);
+
+  constructor(private prismaService: PrismaService) {}
+
+  /**
+   * Message text in the given language: the cooperative's wording, else the
+   * platform-wide wording, else the built-in text
+   */
+  async render(
+    key: SmsTemplateKey,
+    language: Language | null | undefined,
+    params: MessageParams = {},
+    cooperativeId?: string | null,
+  ): Promise<string> {
+    const lang = language ?? DEFAULT_LANGUAGE;
+    let body: string = translate(lang, key);
+    let cooperativeName: string | undefined;
+
+    try {
+      const [override, cooperative] = await Promise.all([
+        this.findOverride(key, lang, cooperativeId),
+        cooperativeId && !('cooperative' in params)
+          ? this.prismaService.cooperative.findUnique({
+              where: { id: cooperativeId },
+              select: { name: true },
+            })
+          : null,
+      ]);
+
+      body = override?.body ?? body;
+      cooperativeName = cooperative?.name;
+    } catch (error) {
+      // The built-in text still goes out when templates cannot be read
+      this.logger.warn(
+        `Could not load SMS template ${key}: ${(error as Error).message}`,
+      );
+    }
+
+    return fillPlaceholders(body, {
+      cooperative:
+        cooperativeName ?? translate(lang, 'payment.defaultCooperative'),
+      ...params,
+    });
+  }
+
+  /**
+   * Current wording of every template and language for a cooperative, or
+   * platform-wide when no cooperative is given
+   */
+  async listTemplates(cooperativeId?: string): Promise<SmsTemplateDto[]> {
+    const overrides = await this.prismaService.smsTemplate.findMany({
+      where: { OR: this.scopeFilter(cooperativeId) },
+    });
+
+    return SMS_TEMPLATE_KEYS.flatMap((key) =>
+      Object.values(Language).map((language) => {
+        const matching = overrides.filter(
+          (template) => template.key === key && template.language === language,
+        );
+        const override =
+          matching.find((template) => template.cooperativeId) ?? matching[0];
+
+        return override
+          ? this.toDto(override)
+          : this.toDefaultDto(key, language);
+      }),
+    );
+  }
+
+  async upsertTemplate(
+    dto: UpsertSmsTemplateDto,
+    cooperativeId: string | undefined,
+    userId: string,
+  ): Promise<SmsTemplateDto> {
+    this.checkPlaceholders(dto.key, dto.body);
+
+    if (cooperativeId) {
+      const cooperative = await this.prismaService.cooperative.findUnique({
+        where: { id: cooperativeId },
+        select: { id: true },
+      });
+      if (!cooperative) {
+        throw new NotFoundException('Cooperative not found');
+      }
+    }
+
+    const existing = await this.prismaService.smsTemplate.findFirst({
+      where: {
+        key: dto.key,
+        language: dto.language,
+        cooperativeId: cooperativeId ?? null,
+      },
+    });
+
+    const template = existing
+      ? await this.prismaService.smsTemplate.update({
+          where: { id: existing.id },
+          data: { body: dto.body, updatedBy: userId },
+        })
+      : await this.prismaService.smsTemplate.create({
+          data: {
+            key: dto.key,
+            language: dto.language,
+            body: dto.body,
+            cooperativeId: cooperativeId ?? null,
+            updatedBy: userId,
+          },
+        });
+
+    this.logger.log(
+      `SMS template ${template.key} (${template.language}) updated for ${cooperativeId ?? 'the platform'}`,
+    );
+
+    return this.toDto(template);
+  }
+
+  /**
+   * Removes an override, the message goes back to the platform-wide or
+   * built-in wording. Restricted to one cooperative when scopeCooperativeId
+   * is given
+   */
+  async deleteTemplate(id: string, scopeCooperativeId?: string): Promise<void> {
+    const template = await this.prismaService.smsTemplate.findUnique({
+      where: { id },
+    });
+
+    if (
+      !template ||
+      (scopeCooperativeId && template.cooperativeId !== scopeCooperativeId)
+    ) {
+      throw new NotFoundException('SMS template not found');
+    }
+
+    await this.prismaService.smsTemplate.delete({ where: { id } });
+  }
+
+  /**
+   * Renders a template, or a draft of it, with sample values and counts the
+   * SMS parts it takes
+   */
+  async preview(
+    dto: PreviewSmsTemplateDto,
+    cooperativeId?: string,
+  ): Promise<SmsTemplatePreviewDto> {
+    const language = dto.language ?? DEFAULT_LANGUAGE;
+    let body = dto.body;
+    let source: SmsTemplatePreviewDto['source'] = 'DRAFT';
+
+    if (body === undefined) {
+      const override = await this.findOverride(
+        dto.key,
+        language,
+        cooperativeId,
+      );
+      body = override?.body ?? translate(language, dto.key);
+      source = override ? this.getSource(override) : 'DEFAULT';
+    } else {
+      this.checkPlaceholders(dto.key, body);
+    }
+
+    const cooperative = cooperativeId
+      ? await this.prismaService.cooperative.findUnique({
+          where: { id: cooperativeId },
+          select: { name: true },
+        })
+      : null;
+
+    const text = fillPlaceholders(body, {
+      ...SMS_TEMPLATES[dto.key].placeholders,
+      cooperative: cooperative?.name ?? SAMPLE_COOPERATIVE_NAME,
+      ...dto.params,
+    });
+
+    return { text, source, ...countSmsSegments(text) };
+  }
+
+  private async findOverride(
+    key: SmsTemplateKey,
+    language: Language,
+    cooperativeId?: string | null,
+  ): Promise<SmsTemplate | null> {
+    const templates = await this.prismaService.smsTemplate.findMany({
+      where: { key, language, OR: this.scopeFilter(cooperativeId) },
+    });
+
+    return (
+      templates.find((template) => template.cooperativeId) ??
+      templates[0] ??
+      null
+    );
+  }
+
+  private scopeFilter(cooperativeId?: string | null) {
+    return [
+      { cooperativeId: null },
+      ...(cooperativeId ? [{ cooperativeId }] : []),
+    ];
+  }
+
+  private checkPlaceholders(key: SmsTemplateKey, body: string): void {
+    const allowed = this.getPlaceholders(key);
+    const unknown = [...body.matchAll(/\{(\w+)\}/g)]
+      .map(([, name]) => name)
+      .filter((name) => !allowed.includes(name));
+
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown placeholders ${unknown.map((name) => `{${name}}`).join(', ')}. ${key} can use ${allowed.map((name) => `{${name}}`).join(', ')}`,
+      );
+    }
+  }
+
+  private getPlaceholders(key: SmsTemplateKey): string[] {
+    return [...Object.keys(SMS_TEMPLATES[key].placeholders), 'cooperative'];
+  }
+
+  private getSource(template: SmsTemplate): SmsTemplateSource {
+    return template.cooperativeId ? 'COOPERATIVE' : 'PLATFORM';
+  }
+
+  private toDto(template: SmsTemplate): SmsTemplateDto {
+    const key = template.key as SmsTemplateKey;
+
+    return {
+      id: template.id,
+      key,
+      description: SMS_TEMPLATES[key]?.description ?? '',
+      language: template.language,
+      body: template.body,
+      source: this.getSource(template),
+      cooperativeId: template.cooperativeId ?? undefined,
+      placeholders: SMS_TEMPLATES[key] ? this.getPlaceholders(key) : [],
+      updatedAt: template.updatedAt,
+    };
+  }
+
+  private toDefaultDto(
+    key: SmsTemplateKey,
+    language: Language,
+  ): SmsTemplateDto {
+    return {
+      key,
+      description: SMS_TEMPLATES[key].description,
+      language,
+      body: translate(language, key),
+      source: 'DEFAULT',
+      placeholders: this.getPlaceholders(key),
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { MessageKey } from '../../../shared/i18n/messages';
+
+export interface SmsTemplateDefinition {
+  description: string;
+  // Placeholders the template can use, with the sample values of previews.
+  // {cooperative} is available in every template
+  placeholders: Record<string, string>;
+}
+
+/**
+ * Messages whose wording admins can change. The built-in text of each one
+ * is the i18n catalogue entry with the same key
+ */
+export const SMS_TEMPLATES = {
+  'sms.welcome': {
+    description: 'Sent when an account is created',
+    placeholders: { name: 'Jean' },
+  },
+  'sms.pinReset': {
+    description: 'PIN reset code',
+    placeholders: { pin: '123456' },
+  },
+  'sms.pinResetSuccess': {
+    description: 'Confirmation of a PIN reset',
+    placeholders: {},
+  },
+  'sms.pinChanged': {
+    description: 'Confirmation of a PIN change',
+    placeholders: {},
+  },
+  'sms.transaction': {
+    description: 'Transaction receipt',
+    placeholders: { type: 'Payment', amount: '25,000' },
+  },
+  'reminder.dueMessage': {
+    description: 'Payment due reminder',
+    placeholders: {
+      paymentType: 'Rent',
+      amount: '25,000',
+      amountText: ' (Amount: RWF 25,000)',
+    },
+  },
+  'reminder.overdueMessage': {
+    description: 'Overdue payment reminder',
+    placeholders: {
+      paymentType: 'Rent',
+      amount: '25,000',
+      amountText: ' (Amount: RWF 25,000)',
+    },
+  },
+  'reminder.upcomingMessage': {
+    description: 'Upcoming payment reminder',
+    placeholders: {
+      paymentType: 'Rent',
+      amount: '25,000',
+      amountText: ' (Amount: RWF 25,000)',
+    },
+  },
+} satisfies Partial<Record<MessageKey, SmsTemplateDefinition>>;
+
+export type SmsTemplateKey = keyof typeof SMS_TEMPLATES;
+
+export const SMS_TEMPLATE_KEYS = Object.keys(SMS_TEMPLATES) as SmsTemplateKey[];
+
+export const SAMPLE_COOPERATIVE_NAME = 'Kigali Housing Cooperative';
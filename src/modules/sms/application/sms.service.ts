@@ -1,52 +1,207 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { FdiSmsProvider } from '../infrastructure/fdi-sms.provider';
-import { SmsResult } from '../infrastructure/sms.interface';
+import { AfricasTalkingSmsProvider } from '../infrastructure/africas-talking-sms.provider';
+import { TwilioSmsProvider } from '../infrastructure/twilio-sms.provider';
+import { ConsoleSmsProvider } from '../infrastructure/console-sms.provider';
+import { SmsTemplateService } from './sms-template.service';
+import { SmsProvider, SmsResult } from '../infrastructure/sms.interface';
+import { Language } from '@prisma/client';
+
+interface SmsRoute {
+  provider: SmsProvider;
+  weight: number;
+}
 
 @Injectable()
 export class SmsService {
   private readonly logger = new Logger(SmsService.name);
+  private readonly providers = new Map<string, SmsProvider>();
+  private readonly routes: SmsRoute[];
+  private readonly enabled: boolean;
+  private readonly deliveryReportUrl: string;
+  private readonly deliveryReportToken: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    fdiSmsProvider: FdiSmsProvider,
+    africasTalkingSmsProvider: AfricasTalkingSmsProvider,
+    twilioSmsProvider: TwilioSmsProvider,
+    consoleSmsProvider: ConsoleSmsProvider,
+    private readonly smsTemplateService: SmsTemplateService,
+  ) {
+    for (const provider of [
+      fdiSmsProvider,
+      africasTalkingSmsProvider,
+      twilioSmsProvider,
+      consoleSmsProvider,
+    ]) {
+      this.providers.set(provider.name, provider);
+    }
 
-  constructor(private readonly fdiSmsProvider: FdiSmsProvider) {}
+    this.enabled = this.configService.get<boolean>('sms.enabled') || false;
+    this.deliveryReportUrl =
+      this.configService.get<string>('sms.deliveryReportUrl') || '';
+    this.deliveryReportToken =
+      this.configService.get<string>('sms.deliveryReportToken') || '';
+    this.routes = this.parseRoutes(
+      this.configService.get<string>('sms.providers') || 'fdi',
+    );
+  }
+
+  getProvider(name: string): SmsProvider | undefined {
+    return this.providers.get(name.toLowerCase());
+  }
 
+  /**
+   * Sends through the configured providers, picked by weight. When one
+   * fails the others are tried in turn
+   */
   async sendSms(
     to: string,
     message: string,
     messageRef?: string,
   ): Promise<SmsResult> {
+    if (!this.enabled) {
+      this.logger.warn('SMS service is disabled');
+      return {
+        success: false,
+        message: 'SMS service is disabled',
+        error: 'SMS_DISABLED',
+      };
+    }
+
     this.logger.log(`Sending SMS to ${to}: ${message.substring(0, 50)}...`);
 
-    try {
-      const result = await this.fdiSmsProvider.sendSms(to, message, messageRef);
+    let lastResult: SmsResult = {
+      success: false,
+      message: 'No SMS provider configured',
+      error: 'CONFIGURATION_ERROR',
+    };
 
-      if (result.success) {
-        this.logger.log(
-          `SMS sent successfully to ${to}. Cost: ${result.cost || 'Unknown'}, Gateway Ref: ${result.gatewayRef || 'None'}`,
+    for (const provider of this.pickProviders()) {
+      try {
+        const result = await provider.sendSms(
+          to,
+          message,
+          messageRef,
+          this.getDeliveryReportUrl(provider.name),
         );
-      } else {
-        this.logger.warn(`Failed to send SMS to ${to}: ${result.error}`);
+
+        if (result.success) {
+          this.logger.log(
+            `SMS sent successfully to ${to} via ${provider.name}. Cost: ${result.cost || 'Unknown'}, Gateway Ref: ${result.gatewayRef || 'None'}`,
+          );
+          return { ...result, provider: provider.name };
+        }
+
+        this.logger.warn(
+          `Failed to send SMS to ${to} via ${provider.name}: ${result.error}`,
+        );
+        lastResult = { ...result, provider: provider.name };
+      } catch (error) {
+        this.logger.error(
+          `Error sending SMS to ${to} via ${provider.name}:`,
+          error.stack,
+        );
+        lastResult = {
+          success: false,
+          message: 'Internal error while sending SMS',
+          error: error.message,
+          provider: provider.name,
+        };
       }
+    }
 
-      return result;
-    } catch (error) {
-      this.logger.error(`Error sending SMS to ${to}:`, error.stack);
-      return {
-        success: false,
-        message: 'Internal error while sending SMS',
-        error: error.message,
-      };
+    return lastResult;
+  }
+
+  /** Configured providers in a weighted random order */
+  private pickProviders(): SmsProvider[] {
+    const remaining = this.routes.filter((route) =>
+      route.provider.isConfigured(),
+    );
+    const ordered: SmsProvider[] = [];
+
+    while (remaining.length > 0) {
+      const total = remaining.reduce((sum, route) => sum + route.weight, 0);
+      let pick = Math.random() * total;
+      let index = 0;
+
+      while (index < remaining.length - 1 && pick >= remaining[index].weight) {
+        pick -= remaining[index].weight;
+        index++;
+      }
+
+      ordered.push(remaining[index].provider);
+      remaining.splice(index, 1);
+    }
+
+    return ordered;
+  }
+
+  private parseRoutes(value: string): SmsRoute[] {
+    const routes: SmsRoute[] = [];
+
+    for (const entry of value.split(',')) {
+      const [name, weight] = entry.trim().split(':');
+      if (!name) {
+        continue;
+      }
+
+      const provider = this.getProvider(name);
+      if (!provider) {
+        this.logger.warn(`Unknown SMS provider in SMS_PROVIDERS: ${name}`);
+        continue;
+      }
+
+      routes.push({
+        provider,
+        weight: Math.max(parseInt(weight || '1', 10) || 1, 1),
+      });
+    }
+
+    return routes;
+  }
+
+  private getDeliveryReportUrl(providerName: string): string | undefined {
+    if (!this.deliveryReportUrl) {
+      return undefined;
     }
+
+    const url = `${this.deliveryReportUrl.replace(/\/$/, '')}/${providerName}`;
+    return this.deliveryReportToken
+      ? `${url}?token=${encodeURIComponent(this.deliveryReportToken)}`
+      : url;
   }
 
-  async sendPinResetSms(phoneNumber: string, pin: string): Promise<SmsResult> {
-    const message = `Your COPAY PIN reset code is: ${pin}. This code expires in 15 minutes. Do not share this code with anyone.`;
+  async sendPinResetSms(
+    phoneNumber: string,
+    pin: string,
+    language?: Language | null,
+    cooperativeId?: string | null,
+  ): Promise<SmsResult> {
+    const message = await this.smsTemplateService.render(
+      'sms.pinReset',
+      language,
+      { pin },
+      cooperativeId,
+    );
     return this.sendSms(phoneNumber, message);
   }
 
   async sendWelcomeSms(
     phoneNumber: string,
     firstName: string,
+    language?: Language | null,
+    cooperativeId?: string | null,
   ): Promise<SmsResult> {
-    const message = `Welcome to COPAY, ${firstName}! Your account has been successfully created. Thank you for joining our cooperative savings platform.`;
+    const message = await this.smsTemplateService.render(
+      'sms.welcome',
+      language,
+      { name: firstName },
+      cooperativeId,
+    );
     return this.sendSms(phoneNumber, message);
   }
 
@@ -54,13 +209,43 @@ export class SmsService {
     phoneNumber: string,
     amount: number,
     type: string,
+    language?: Language | null,
+    cooperativeId?: string | null,
+  ): Promise<SmsResult> {
+    const message = await this.smsTemplateService.render(
+      'sms.transaction',
+      language,
+      { type, amount: amount.toLocaleString() },
+      cooperativeId,
+    );
+    return this.sendSms(phoneNumber, message);
+  }
+
+  async sendPinResetSuccessSms(
+    phoneNumber: string,
+    language?: Language | null,
+    cooperativeId?: string | null,
   ): Promise<SmsResult> {
-    const message = `COPAY Transaction: ${type} of RWF ${amount.toLocaleString()} has been processed successfully. Thank you for using COPAY.`;
+    const message = await this.smsTemplateService.render(
+      'sms.pinResetSuccess',
+      language,
+      {},
+      cooperativeId,
+    );
     return this.sendSms(phoneNumber, message);
   }
 
-  async sendPinResetSuccessSms(phoneNumber: string): Promise<SmsResult> {
-    const message = `Your COPAY PIN has been successfully reset. Your account is now secure with the new PIN. Contact support if you did not make this change.`;
+  async sendPinChangedSms(
+    phoneNumber: string,
+    language?: Language | null,
+    cooperativeId?: string | null,
+  ): Promise<SmsResult> {
+    const message = await this.smsTemplateService.render(
+      'sms.pinChanged',
+      language,
+      {},
+      cooperativeId,
+    );
     return this.sendSms(phoneNumber, message);
   }
 }
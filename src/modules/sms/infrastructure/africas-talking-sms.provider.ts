@@ -0,0 +1,157 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  SmsProvider,
+  SmsResult,
+  SmsDeliveryReport,
+  InboundSms,
+  toInternationalMsisdn,
+} from './sms.interface';
+
+interface AfricasTalkingRecipient {
+  statusCode: number;
+  number: string;
+  status: string;
+  cost: string;
+  messageId: string;
+}
+
+interface AfricasTalkingSmsResponse {
+  SMSMessageData: {
+    Message: string;
+    Recipients: AfricasTalkingRecipient[];
+  };
+}
+
+/**
+ * Africa's Talking bulk SMS API. The delivery report URL is set on the
+ * Africa's Talking dashboard, not per message
+ */
+@Injectable()
+export class AfricasTalkingSmsProvider implements SmsProvider {
+  readonly name = 'africastalking';
+
+  private readonly logger = new Logger(AfricasTalkingSmsProvider.name);
+  private readonly username: string;
+  private readonly apiKey: string;
+  private readonly senderId: string;
+  private readonly baseUrl: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.username =
+      this.configService.get<string>('sms.africasTalking.username') || '';
+    this.apiKey =
+      this.configService.get<string>('sms.africasTalking.apiKey') || '';
+    this.senderId =
+      this.configService.get<string>('sms.africasTalking.senderId') || '';
+    this.baseUrl = this.configService.get<boolean>('sms.africasTalking.sandbox')
+      ? 'https://api.sandbox.africastalking.com/version1'
+      : 'https://api.africastalking.com/version1';
+  }
+
+  isConfigured(): boolean {
+    return !!(this.username && this.apiKey);
+  }
+
+  async sendSms(to: string, message: string): Promise<SmsResult> {
+    if (!this.isConfigured()) {
+      return {
+        success: false,
+        message: 'SMS configuration incomplete',
+        error: 'CONFIGURATION_ERROR',
+      };
+    }
+
+    try {
+      const form = new URLSearchParams({
+        username: this.username,
+        to: `+${toInternationalMsisdn(to)}`,
+        message,
+      });
+      if (this.senderId) {
+        form.set('from', this.senderId);
+      }
+
+      const response = await fetch(`${this.baseUrl}/messaging`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
+          apiKey: this.apiKey,
+        },
+        body: form.toString(),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text().catch(() => '');
+        throw new Error(
+          `SMS request failed: ${response.status} ${response.statusText}${errorBody ? ` - ${errorBody}` : ''}`,
+        );
+      }
+
+      const data = (await response.json()) as AfricasTalkingSmsResponse;
+      const recipient = data.SMSMessageData?.Recipients?.[0];
+
+      // 100 Processed, 101 Sent, 102 Queued
+      if (!recipient || ![100, 101, 102].includes(recipient.statusCode)) {
+        return {
+          success: false,
+          message: data.SMSMessageData?.Message || 'Failed to send SMS',
+          error: recipient?.status || 'SMS_SEND_FAILED',
+        };
+      }
+
+      return {
+        success: true,
+        message: data.SMSMessageData.Message || 'SMS sent successfully',
+        messageId: recipient.messageId,
+        gatewayRef: recipient.messageId,
+        cost: parseFloat(recipient.cost.replace(/[^\d.]/g, '')) || undefined,
+      };
+    } catch (error) {
+      const { message, stack } = error as Error;
+      this.logger.error(`Failed to send SMS: ${message}`, stack);
+      return {
+        success: false,
+        message: 'Failed to send SMS',
+        error: message,
+      };
+    }
+  }
+
+  parseDeliveryReport(
+    payload: Record<string, string | undefined>,
+  ): SmsDeliveryReport | null {
+    const { id, status, failureReason } = payload;
+
+    if (!id || !status) {
+      return null;
+    }
+
+    if (status === 'Success') {
+      return { messageId: id, status: 'DELIVERED' };
+    }
+
+    if (['Failed', 'Rejected', 'Expired'].includes(status)) {
+      return {
+        messageId: id,
+        status: 'FAILED',
+        error: failureReason || status,
+      };
+    }
+
+    return null;
+  }
+
+  parseInboundSms(
+    payload: Record<string, string | undefined>,
+  ): InboundSms | null {
+    const { from, text, id } = payload;
+
+    if (!from || text === undefined) {
+      return null;
+    }
+
+    return { from, text, messageId: id };
+  }
+}
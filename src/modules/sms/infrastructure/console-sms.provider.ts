@@ -0,0 +1,89 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { appendFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import {
+  SmsProvider,
+  SmsResult,
+  SmsDeliveryReport,
+  InboundSms,
+} from './sms.interface';
+
+/**
+ * Development sink: logs messages (and appends them to SMS_CONSOLE_FILE when
+ * set) instead of sending them. Never used in production
+ */
+@Injectable()
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = 'console';
+
+  private readonly logger = new Logger(ConsoleSmsProvider.name);
+  private readonly file: string;
+  private readonly isProduction: boolean;
+
+  constructor(private readonly configService: ConfigService) {
+    this.file = this.configService.get<string>('sms.console.file') || '';
+    this.isProduction =
+      this.configService.get<string>('app.nodeEnv') === 'production';
+  }
+
+  isConfigured(): boolean {
+    return !this.isProduction;
+  }
+
+  async sendSms(
+    to: string,
+    message: string,
+    messageRef?: string,
+  ): Promise<SmsResult> {
+    const messageId = messageRef || `console_${randomUUID()}`;
+
+    this.logger.log(`SMS to ${to} [${messageId}]: ${message}`);
+
+    if (this.file) {
+      try {
+        await appendFile(
+          this.file,
+          `${new Date().toISOString()} ${to} [${messageId}] ${message}\n`,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Could not write to ${this.file}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return {
+      success: true,
+      message: 'SMS written to console',
+      messageId,
+      cost: 0,
+    };
+  }
+
+  /** Accepts { messageId, status: DELIVERED | FAILED } to test the webhook */
+  parseDeliveryReport(
+    payload: Record<string, string | undefined>,
+  ): SmsDeliveryReport | null {
+    const { messageId, status, error } = payload;
+
+    if (!messageId || (status !== 'DELIVERED' && status !== 'FAILED')) {
+      return null;
+    }
+
+    return { messageId, status, error };
+  }
+
+  /** Accepts { from, text, messageId } to try SMS commands locally */
+  parseInboundSms(
+    payload: Record<string, string | undefined>,
+  ): InboundSms | null {
+    const { from, text, messageId } = payload;
+
+    if (!from || text === undefined) {
+      return null;
+    }
+
+    return { from, text, messageId };
+  }
+}
@@ -7,16 +7,21 @@ import {
   FdiAuthResponse,
   FdiSmsRequest,
   FdiSmsResponse,
+  FdiDeliveryReport,
+  FdiInboundSms,
+  InboundSms,
+  SmsDeliveryReport,
+  toInternationalMsisdn,
 } from './sms.interface';
 
 @Injectable()
 export class FdiSmsProvider implements SmsProvider {
+  readonly name = 'fdi';
   private readonly logger = new Logger(FdiSmsProvider.name);
   private readonly baseUrl: string;
   private readonly username: string;
   private readonly password: string;
   private readonly senderId: string;
-  private readonly enabled: boolean;
 
   private accessToken: string | null = null;
   private tokenExpiresAt: Date | null = null;
@@ -29,7 +34,10 @@ export class FdiSmsProvider implements SmsProvider {
     this.password = this.configService.get<string>('sms.fdi.password') || '';
     this.senderId =
       this.configService.get<string>('sms.fdi.senderId') || 'COPAY';
-    this.enabled = this.configService.get<boolean>('sms.fdi.enabled') || false;
+  }
+
+  isConfigured(): boolean {
+    return !!(this.username && this.password && this.baseUrl && this.senderId);
   }
 
   private async authenticate(): Promise<boolean> {
@@ -91,18 +99,10 @@ export class FdiSmsProvider implements SmsProvider {
     to: string,
     message: string,
     messageRef?: string,
+    deliveryReportUrl?: string,
   ): Promise<SmsResult> {
-    if (!this.enabled) {
-      this.logger.warn('SMS service is disabled');
-      return {
-        success: false,
-        message: 'SMS service is disabled',
-        error: 'SMS_DISABLED',
-      };
-    }
-
     // Validate required configuration
-    if (!this.username || !this.password || !this.baseUrl || !this.senderId) {
+    if (!this.isConfigured()) {
       this.logger.error('SMS configuration incomplete', {
         hasUsername: !!this.username,
         hasPassword: !!this.password,
@@ -127,17 +127,7 @@ export class FdiSmsProvider implements SmsProvider {
     }
 
     try {
-      // Clean and format phone number
-      let cleanPhoneNumber = to.replace(/[\s\+]/g, '');
-
-      // Handle Rwanda local numbers (convert to international format)
-      if (cleanPhoneNumber.length === 9 || cleanPhoneNumber.length === 10) {
-        if (cleanPhoneNumber.startsWith('0')) {
-          cleanPhoneNumber = '250' + cleanPhoneNumber.substring(1);
-        } else if (cleanPhoneNumber.length === 9) {
-          cleanPhoneNumber = '250' + cleanPhoneNumber;
-        }
-      }
+      const cleanPhoneNumber = toInternationalMsisdn(to);
 
       // Generate message reference if not provided
       const msgRef =
@@ -149,6 +139,7 @@ export class FdiSmsProvider implements SmsProvider {
         message: message,
         sender_id: this.senderId,
         msgRef: msgRef,
+        dlr: deliveryReportUrl,
       };
 
       this.logger.log(
@@ -233,6 +224,50 @@ export class FdiSmsProvider implements SmsProvider {
     }
   }
 
+  parseDeliveryReport(payload: FdiDeliveryReport): SmsDeliveryReport | null {
+    const status = payload.status?.toUpperCase();
+
+    if (!payload.msgRef || !status) {
+      return null;
+    }
+
+    if (status === 'DELIVERED' || status === 'DELIVRD') {
+      return {
+        messageId: payload.msgRef,
+        status: 'DELIVERED',
+        deliveredAt: payload.timestamp
+          ? new Date(payload.timestamp)
+          : undefined,
+      };
+    }
+
+    if (
+      ['FAILED', 'UNDELIVERED', 'UNDELIV', 'REJECTED', 'EXPIRED'].includes(
+        status,
+      )
+    ) {
+      return {
+        messageId: payload.msgRef,
+        status: 'FAILED',
+        error: payload.description || status,
+      };
+    }
+
+    return null;
+  }
+
+  parseInboundSms(payload: FdiInboundSms): InboundSms | null {
+    if (!payload.msisdn || payload.message === undefined) {
+      return null;
+    }
+
+    return {
+      from: payload.msisdn,
+      text: payload.message,
+      messageId: payload.msgRef,
+    };
+  }
+
   private handleSmsResponse(responseData: FdiSmsResponse): SmsResult {
     this.logger.log(`SMS response: ${JSON.stringify(responseData)}`);
 
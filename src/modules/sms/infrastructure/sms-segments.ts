@@ -0,0 +1,56 @@
+// GSM 03.38 default alphabet, one septet each
+const GSM7_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+
+// Extension table, sent as escape + character (two septets)
+const GSM7_EXTENDED = '^{}\\[~]|€\f';
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SmsSegmentInfo {
+  encoding: SmsEncoding;
+  // Septets for GSM-7, UTF-16 code units for UCS-2
+  length: number;
+  segments: number;
+  charactersPerSegment: number;
+}
+
+/**
+ * Encoding and number of SMS parts a message is billed as. One part holds
+ * 160 GSM-7 or 70 UCS-2 characters, less once the message is split because
+ * each part carries a concatenation header
+ */
+export function countSmsSegments(text: string): SmsSegmentInfo {
+  let septets = 0;
+
+  for (const char of text) {
+    if (GSM7_BASIC.includes(char)) {
+      septets += 1;
+    } else if (GSM7_EXTENDED.includes(char)) {
+      septets += 2;
+    } else {
+      // Any other character switches the whole message to UCS-2
+      return segmentInfo('UCS-2', text.length, 70, 67);
+    }
+  }
+
+  return segmentInfo('GSM-7', septets, 160, 153);
+}
+
+function segmentInfo(
+  encoding: SmsEncoding,
+  length: number,
+  singleLimit: number,
+  multipartLimit: number,
+): SmsSegmentInfo {
+  const charactersPerSegment =
+    length <= singleLimit ? singleLimit : multipartLimit;
+
+  return {
+    encoding,
+    length,
+    segments: Math.ceil(length / charactersPerSegment),
+    charactersPerSegment,
+  };
+}
@@ -1,5 +1,29 @@
 export interface SmsProvider {
-  sendSms(to: string, message: string, messageRef?: string): Promise<SmsResult>;
+  /** Name used in SMS_PROVIDERS and the delivery report URL */
+  readonly name: string;
+
+  /** Whether the credentials this provider needs are set */
+  isConfigured(): boolean;
+
+  sendSms(
+    to: string,
+    message: string,
+    messageRef?: string,
+    deliveryReportUrl?: string,
+  ): Promise<SmsResult>;
+
+  /**
+   * Reads a delivery report posted by the provider. Returns null for
+   * intermediate statuses (queued, sent) that do not settle the message
+   */
+  parseDeliveryReport(
+    payload: Record<string, string | undefined>,
+  ): SmsDeliveryReport | null;
+
+  /** Reads a message a subscriber sent to us, null when fields are missing */
+  parseInboundSms(
+    payload: Record<string, string | undefined>,
+  ): InboundSms | null;
 }
 
 export interface SmsResult {
@@ -9,6 +33,35 @@ export interface SmsResult {
   gatewayRef?: string;
   cost?: number;
   error?: string;
+  provider?: string;
+}
+
+export interface InboundSms {
+  from: string;
+  text: string;
+  messageId?: string;
+}
+
+export interface SmsDeliveryReport {
+  messageId: string;
+  status: 'DELIVERED' | 'FAILED';
+  deliveredAt?: Date;
+  error?: string;
+}
+
+/** Converts Rwanda local numbers (078..., 78...) to 250... */
+export function toInternationalMsisdn(phone: string): string {
+  const cleanPhoneNumber = phone.replace(/[\s+]/g, '');
+
+  if (cleanPhoneNumber.length === 9 || cleanPhoneNumber.length === 10) {
+    if (cleanPhoneNumber.startsWith('0')) {
+      return '250' + cleanPhoneNumber.substring(1);
+    } else if (cleanPhoneNumber.length === 9) {
+      return '250' + cleanPhoneNumber;
+    }
+  }
+
+  return cleanPhoneNumber;
 }
 
 // FDI Authentication interfaces
@@ -40,3 +93,17 @@ export interface FdiSmsResponse {
   msgRef: string;
   gatewayRef: string;
 }
+
+export interface FdiDeliveryReport {
+  msgRef?: string;
+  gatewayRef?: string;
+  status?: string;
+  description?: string;
+  timestamp?: string;
+}
+
+export interface FdiInboundSms {
+  msisdn?: string;
+  message?: string;
+  msgRef?: string;
+}
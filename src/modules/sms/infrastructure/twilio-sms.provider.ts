@@ -0,0 +1,146 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  SmsProvider,
+  SmsResult,
+  SmsDeliveryReport,
+  InboundSms,
+  toInternationalMsisdn,
+} from './sms.interface';
+
+interface TwilioMessageResponse {
+  sid: string;
+  status: string;
+  price: string | null;
+  error_code: number | null;
+  error_message: string | null;
+  message?: string; // Set on API errors such as bad credentials
+}
+
+/** Twilio Programmable Messaging, delivery reports via StatusCallback */
+@Injectable()
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio';
+
+  private readonly logger = new Logger(TwilioSmsProvider.name);
+  private readonly accountSid: string;
+  private readonly authToken: string;
+  private readonly from: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.accountSid =
+      this.configService.get<string>('sms.twilio.accountSid') || '';
+    this.authToken =
+      this.configService.get<string>('sms.twilio.authToken') || '';
+    this.from = this.configService.get<string>('sms.twilio.from') || '';
+  }
+
+  isConfigured(): boolean {
+    return !!(this.accountSid && this.authToken && this.from);
+  }
+
+  async sendSms(
+    to: string,
+    message: string,
+    messageRef?: string,
+    deliveryReportUrl?: string,
+  ): Promise<SmsResult> {
+    if (!this.isConfigured()) {
+      return {
+        success: false,
+        message: 'SMS configuration incomplete',
+        error: 'CONFIGURATION_ERROR',
+      };
+    }
+
+    try {
+      const form = new URLSearchParams({
+        To: `+${toInternationalMsisdn(to)}`,
+        From: this.from,
+        Body: message,
+      });
+      if (deliveryReportUrl) {
+        form.set('StatusCallback', deliveryReportUrl);
+      }
+
+      const credentials = Buffer.from(
+        `${this.accountSid}:${this.authToken}`,
+      ).toString('base64');
+
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            Accept: 'application/json',
+            Authorization: `Basic ${credentials}`,
+          },
+          body: form.toString(),
+        },
+      );
+
+      const data = (await response.json()) as TwilioMessageResponse;
+
+      if (!response.ok || data.error_code) {
+        return {
+          success: false,
+          message: data.error_message || data.message || 'Failed to send SMS',
+          error: `SMS_SEND_FAILED${data.error_code ? `_${data.error_code}` : ''}`,
+        };
+      }
+
+      return {
+        success: true,
+        message: `SMS ${data.status}`,
+        messageId: data.sid,
+        gatewayRef: data.sid,
+        cost: data.price ? Math.abs(parseFloat(data.price)) : undefined,
+      };
+    } catch (error) {
+      const { message, stack } = error as Error;
+      this.logger.error(`Failed to send SMS: ${message}`, stack);
+      return {
+        success: false,
+        message: 'Failed to send SMS',
+        error: message,
+      };
+    }
+  }
+
+  parseDeliveryReport(
+    payload: Record<string, string | undefined>,
+  ): SmsDeliveryReport | null {
+    const { MessageSid, MessageStatus, ErrorCode } = payload;
+
+    if (!MessageSid || !MessageStatus) {
+      return null;
+    }
+
+    if (MessageStatus === 'delivered') {
+      return { messageId: MessageSid, status: 'DELIVERED' };
+    }
+
+    if (MessageStatus === 'undelivered' || MessageStatus === 'failed') {
+      return {
+        messageId: MessageSid,
+        status: 'FAILED',
+        error: ErrorCode ? `${MessageStatus} (${ErrorCode})` : MessageStatus,
+      };
+    }
+
+    return null;
+  }
+
+  parseInboundSms(
+    payload: Record<string, string | undefined>,
+  ): InboundSms | null {
+    const { From, Body, MessageSid } = payload;
+
+    if (!From || Body === undefined) {
+      return null;
+    }
+
+    return { from: From, text: Body, messageId: MessageSid };
+  }
+}
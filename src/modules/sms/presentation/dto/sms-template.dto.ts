@@ -0,0 +1,162 @@
+import {
+  IsEnum,
+  IsIn,
+  IsMongoId,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Language } from '@prisma/client';
+import {
+  SMS_TEMPLATE_KEYS,
+  SmsTemplateKey,
+} from '../../application/sms-templates';
+import { SmsEncoding } from '../../infrastructure/sms-segments';
+
+export type SmsTemplateSource = 'DEFAULT' | 'PLATFORM' | 'COOPERATIVE';
+
+const COOPERATIVE_ID_DESCRIPTION =
+  'Cooperative ID. Super admins leave it out for the platform-wide wording, other admins always use their own cooperative';
+
+export class SmsTemplateQueryDto {
+  @ApiPropertyOptional({
+    description: COOPERATIVE_ID_DESCRIPTION,
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+}
+
+export class UpsertSmsTemplateDto {
+  @ApiProperty({ enum: SMS_TEMPLATE_KEYS, example: 'sms.welcome' })
+  @IsIn(SMS_TEMPLATE_KEYS)
+  key: SmsTemplateKey;
+
+  @ApiProperty({ enum: Language, example: Language.RW })
+  @IsEnum(Language, { message: 'Language must be RW, EN or FR' })
+  language: Language;
+
+  @ApiProperty({
+    description: 'Message text, with the {placeholders} of the template',
+    example: 'Murakaza neza muri {cooperative}, {name}!',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  body: string;
+
+  @ApiPropertyOptional({
+    description: COOPERATIVE_ID_DESCRIPTION,
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+}
+
+export class PreviewSmsTemplateDto {
+  @ApiProperty({ enum: SMS_TEMPLATE_KEYS, example: 'reminder.dueMessage' })
+  @IsIn(SMS_TEMPLATE_KEYS)
+  key: SmsTemplateKey;
+
+  @ApiPropertyOptional({ enum: Language, default: Language.RW })
+  @IsOptional()
+  @IsEnum(Language, { message: 'Language must be RW, EN or FR' })
+  language?: Language;
+
+  @ApiPropertyOptional({
+    description: 'Draft text to preview. Defaults to the current wording',
+    example: 'Muraho! {paymentType} ya RWF {amount} igeze igihe.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  body?: string;
+
+  @ApiPropertyOptional({
+    description: 'Placeholder values. Sample values fill the others',
+    example: { paymentType: 'Rent', amount: '30,000' },
+  })
+  @IsOptional()
+  @IsObject()
+  params?: Record<string, string>;
+
+  @ApiPropertyOptional({
+    description: COOPERATIVE_ID_DESCRIPTION,
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cooperativeId?: string;
+}
+
+export class SmsTemplateDto {
+  @ApiPropertyOptional({
+    description: 'Override ID, not set for built-in wording',
+    example: '507f1f77bcf86cd799439099',
+  })
+  id?: string;
+
+  @ApiProperty({ example: 'sms.welcome' })
+  key: SmsTemplateKey;
+
+  @ApiProperty({ example: 'Sent when an account is created' })
+  description: string;
+
+  @ApiProperty({ enum: Language })
+  language: Language;
+
+  @ApiProperty({ example: 'Murakaza neza muri {cooperative}, {name}!' })
+  body: string;
+
+  @ApiProperty({
+    enum: ['DEFAULT', 'PLATFORM', 'COOPERATIVE'],
+    description:
+      'Built-in wording, platform-wide override or cooperative override',
+  })
+  source: SmsTemplateSource;
+
+  @ApiPropertyOptional({ example: '507f1f77bcf86cd799439012' })
+  cooperativeId?: string;
+
+  @ApiProperty({ example: ['name', 'cooperative'] })
+  placeholders: string[];
+
+  @ApiPropertyOptional()
+  updatedAt?: Date;
+}
+
+export class SmsTemplatePreviewDto {
+  @ApiProperty({
+    example: 'Muraho! Rent ya RWF 30,000 igeze igihe.',
+  })
+  text: string;
+
+  @ApiProperty({
+    enum: ['DEFAULT', 'PLATFORM', 'COOPERATIVE', 'DRAFT'],
+    description: 'Where the previewed wording comes from',
+  })
+  source: SmsTemplateSource | 'DRAFT';
+
+  @ApiProperty({
+    enum: ['GSM-7', 'UCS-2'],
+    description: 'UCS-2 when the text has characters outside GSM-7',
+  })
+  encoding: SmsEncoding;
+
+  @ApiProperty({
+    description: 'Septets for GSM-7, UTF-16 code units for UCS-2',
+    example: 42,
+  })
+  length: number;
+
+  @ApiProperty({ description: 'SMS parts the message is billed as' })
+  segments: number;
+
+  @ApiProperty({ example: 160 })
+  charactersPerSegment: number;
+}
@@ -0,0 +1,44 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiExcludeEndpoint, ApiTags } from '@nestjs/swagger';
+import { SmsDeliveryReportService } from '../application/sms-delivery-report.service';
+import {
+  Public,
+  WebhookToken,
+} from '../../../shared/decorators/auth.decorator';
+import { WebhookTokenGuard } from '../../../shared/guards/webhook-token.guard';
+
+@ApiTags('SMS')
+@Controller('sms/delivery-reports')
+export class SmsDeliveryReportController {
+  constructor(
+    private readonly smsDeliveryReportService: SmsDeliveryReportService,
+  ) {}
+
+  @Post(':provider')
+  @Public()
+  @UseGuards(WebhookTokenGuard)
+  @WebhookToken('sms.deliveryReportToken')
+  @HttpCode(200)
+  @ApiExcludeEndpoint() // Called by the SMS providers
+  async handleDeliveryReport(
+    @Param('provider') provider: string,
+    @Body() payload: Record<string, string | undefined>,
+  ): Promise<{ status: string; message: string }> {
+    const updated = await this.smsDeliveryReportService.handleDeliveryReport(
+      provider,
+      payload,
+    );
+
+    return {
+      status: 'success',
+      message: `${updated} notification(s) updated`,
+    };
+  }
+}
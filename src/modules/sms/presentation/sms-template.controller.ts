@@ -0,0 +1,143 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { SmsTemplateService } from '../application/sms-template.service';
+import {
+  PreviewSmsTemplateDto,
+  SmsTemplateDto,
+  SmsTemplatePreviewDto,
+  SmsTemplateQueryDto,
+  UpsertSmsTemplateDto,
+} from './dto/sms-template.dto';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../../shared/decorators/current-user.decorator';
+
+@ApiTags('SMS')
+@Controller('sms/templates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.SUPER_ADMIN, UserRole.ORGANIZATION_ADMIN)
+@ApiBearerAuth()
+export class SmsTemplateController {
+  constructor(private smsTemplateService: SmsTemplateService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List SMS templates',
+    description:
+      'Current wording of every SMS template in every language, with whether it is built-in, platform-wide or the cooperative’s own',
+  })
+  @ApiResponse({ status: 200, type: [SmsTemplateDto] })
+  async listTemplates(
+    @Query() queryDto: SmsTemplateQueryDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<SmsTemplateDto[]> {
+    return this.smsTemplateService.listTemplates(
+      this.resolveCooperativeId(currentUser, queryDto.cooperativeId),
+    );
+  }
+
+  @Put()
+  @ApiOperation({
+    summary: 'Set the wording of an SMS template',
+    description:
+      'Creates or replaces the wording of a template in one language. Only the placeholders of the template are accepted',
+  })
+  @ApiResponse({ status: 200, type: SmsTemplateDto })
+  @ApiResponse({ status: 400, description: 'Unknown placeholder' })
+  async upsertTemplate(
+    @Body() upsertDto: UpsertSmsTemplateDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<SmsTemplateDto> {
+    return this.smsTemplateService.upsertTemplate(
+      upsertDto,
+      this.resolveCooperativeId(currentUser, upsertDto.cooperativeId),
+      currentUser.id,
+    );
+  }
+
+  @Post('preview')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Preview an SMS template',
+    description:
+      'Renders the current wording, or a draft, with sample values and counts the SMS parts: 160 GSM-7 or 70 UCS-2 characters for one part, 153 or 67 per part beyond',
+  })
+  @ApiResponse({ status: 200, type: SmsTemplatePreviewDto })
+  async preview(
+    @Body() previewDto: PreviewSmsTemplateDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<SmsTemplatePreviewDto> {
+    return this.smsTemplateService.preview(
+      previewDto,
+      this.resolveCooperativeId(currentUser, previewDto.cooperativeId),
+    );
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remove an SMS template override',
+    description:
+      'The message goes back to the platform-wide or built-in wording',
+  })
+  @ApiParam({ name: 'id', description: 'Template override ID' })
+  @ApiResponse({ status: 204, description: 'Override removed' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  async deleteTemplate(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<void> {
+    await this.smsTemplateService.deleteTemplate(
+      id,
+      currentUser.role === UserRole.SUPER_ADMIN
+        ? undefined
+        : this.resolveCooperativeId(currentUser),
+    );
+  }
+
+  private resolveCooperativeId(
+    currentUser: AuthenticatedUser,
+    cooperativeId?: string,
+  ): string | undefined {
+    // Super admins manage the platform-wide wording or any cooperative's
+    if (currentUser.role === UserRole.SUPER_ADMIN) {
+      return cooperativeId;
+    }
+
+    if (cooperativeId && cooperativeId !== currentUser.cooperativeId) {
+      throw new BadRequestException(
+        'You can only manage SMS templates of your own cooperative',
+      );
+    }
+
+    if (!currentUser.cooperativeId) {
+      throw new BadRequestException('User cooperative ID is required');
+    }
+
+    return currentUser.cooperativeId;
+  }
+}
@@ -1,11 +1,29 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { SmsService } from './application/sms.service';
+import { SmsDeliveryReportService } from './application/sms-delivery-report.service';
+import { SmsTemplateService } from './application/sms-template.service';
 import { FdiSmsProvider } from './infrastructure/fdi-sms.provider';
+import { AfricasTalkingSmsProvider } from './infrastructure/africas-talking-sms.provider';
+import { TwilioSmsProvider } from './infrastructure/twilio-sms.provider';
+import { ConsoleSmsProvider } from './infrastructure/console-sms.provider';
+import { SmsDeliveryReportController } from './presentation/sms-delivery-report.controller';
+import { SmsTemplateController } from './presentation/sms-template.controller';
+import { PrismaService } from '../../prisma/prisma.service';
 
 @Module({
   imports: [ConfigModule],
-  providers: [SmsService, FdiSmsProvider],
-  exports: [SmsService],
+  controllers: [SmsDeliveryReportController, SmsTemplateController],
+  providers: [
+    SmsService,
+    SmsDeliveryReportService,
+    SmsTemplateService,
+    FdiSmsProvider,
+    AfricasTalkingSmsProvider,
+    TwilioSmsProvider,
+    ConsoleSmsProvider,
+    PrismaService,
+  ],
+  exports: [SmsService, SmsTemplateService],
 })
 export class SmsModule {}
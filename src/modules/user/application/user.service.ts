@@ -18,11 +18,18 @@ import { TenantFilterDto } from '../presentation/dto/tenant-filter.dto';
 import { TenantDetailResponseDto } from '../presentation/dto/tenant-detail-response.dto';
 import { PaginationDto } from '../../../shared/dto/pagination.dto';
 import { PaginatedResponseDto } from '../../../shared/dto/paginated-response.dto';
-import { UserRole, UserStatus } from '@prisma/client';
+import {
+  Language,
+  NotificationType,
+  UserRole,
+  UserStatus,
+} from '@prisma/client';
 import { EnhancedCacheService } from '../../../shared/services/enhanced-cache.service';
 import { SmsService } from '../../sms/application/sms.service';
+import { NotificationService } from '../../notification/application/notification.service';
 import { ApproveTenantDto } from '../presentation/dto/approve-tenant.dto';
 import * as bcrypt from 'bcryptjs';
+import { DEFAULT_LANGUAGE } from '../../../shared/i18n/messages';
 
 @Injectable()
 export class UserService {
@@ -30,6 +37,7 @@ export class UserService {
     private prismaService: PrismaService,
     private cacheService: EnhancedCacheService,
     private smsService: SmsService,
+    private notificationService: NotificationService,
   ) {}
 
   async create(
@@ -182,6 +190,18 @@ export class UserService {
     return userResponse;
   }
 
+  /**
+   * Language for USSD menus, SMS and push notifications
+   */
+  async updatePreferredLanguage(id: string, language: Language): Promise<void> {
+    await this.prismaService.user.update({
+      where: { id },
+      data: { preferredLanguage: language },
+    });
+
+    await this.cacheService.invalidateByTags([`user:${id}`]);
+  }
+
   async updateStatus(id: string, status: UserStatus): Promise<UserResponseDto> {
     const user = await this.prismaService.user.findUnique({
       where: { id },
@@ -270,6 +290,7 @@ export class UserService {
       try {
         const approvalMessage = `Congratulations ${user.firstName}! Your COPAY account has been APPROVED. Your login PIN is: ${newPin}. Please change this PIN after your first login for security. Welcome to ${user.cooperative?.name || 'COPAY'}!`;
         
+        // Sent directly, the outbox would keep the PIN in the notifications
         await this.smsService.sendSms(user.phone, approvalMessage);
       } catch (smsError) {
         console.error('Failed to send approval SMS:', smsError);
@@ -304,7 +325,12 @@ export class UserService {
       try {
         const rejectionMessage = `Hello ${user.firstName}, unfortunately your COPAY account application has been rejected. ${approveTenantDto.rejectionReason ? `Reason: ${approveTenantDto.rejectionReason}` : ''} Please contact support for more information.`;
         
-        await this.smsService.sendSms(user.phone, rejectionMessage);
+        await this.notificationService.sendAccountNotification(
+          user,
+          NotificationType.SMS,
+          'COPAY account application',
+          rejectionMessage,
+        );
       } catch (smsError) {
         console.error('Failed to send rejection SMS:', smsError);
         // Continue with rejection even if SMS fails
@@ -424,6 +450,10 @@ export class UserService {
             },
           },
         },
+        tenantWallets: {
+          where: { tenantId: userId },
+          select: { balance: true },
+        },
       },
       distinct: ['id'],
     });
@@ -433,6 +463,7 @@ export class UserService {
       name: coop.name,
       code: coop.code,
       status: coop.status as any,
+      walletBalance: coop.tenantWallets[0]?.balance ?? 0,
       rooms: coop.rooms.map(
         (room): CooperativeRoomDto => ({
           id: room.id,
@@ -1001,12 +1032,16 @@ export class UserService {
       email: user.email,
       role: user.role,
       status: user.status,
+      preferredLanguage: user.preferredLanguage ?? DEFAULT_LANGUAGE,
       cooperative: user.cooperative
         ? {
             id: user.cooperative.id,
             name: user.cooperative.name,
             code: user.cooperative.code,
             status: user.cooperative.status,
+            walletBalance: cooperatives?.find(
+              (coop) => coop.id === user.cooperative.id,
+            )?.walletBalance,
           }
         : undefined,
       cooperatives: cooperatives || [],
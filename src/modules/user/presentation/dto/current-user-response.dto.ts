@@ -1,5 +1,10 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { UserRole, UserStatus, CooperativeStatus } from '@prisma/client';
+import {
+  UserRole,
+  UserStatus,
+  CooperativeStatus,
+  Language,
+} from '@prisma/client';
 import { CooperativeRoomDto } from './cooperative-room.dto';
 
 // Re-export CooperativeRoomDto for convenience
@@ -29,6 +34,12 @@ export class CooperativeDetailsDto {
   })
   status: CooperativeStatus;
 
+  @ApiPropertyOptional({
+    description: 'Prepayments held for upcoming charges in this cooperative',
+    example: 50000,
+  })
+  walletBalance?: number;
+
   @ApiPropertyOptional({
     description: 'Rooms in this cooperative',
     type: [CooperativeRoomDto],
@@ -78,6 +89,12 @@ export class CurrentUserResponseDto {
   })
   status: UserStatus;
 
+  @ApiProperty({
+    description: 'Language for USSD menus, SMS and push notifications',
+    enum: Language,
+  })
+  preferredLanguage: Language;
+
   @ApiPropertyOptional({
     description: 'Primary cooperative details (for backward compatibility)',
     type: CooperativeDetailsDto,
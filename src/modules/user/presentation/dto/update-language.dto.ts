@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { Language } from '@prisma/client';
+
+export class UpdateLanguageDto {
+  @ApiProperty({
+    enum: Language,
+    description: 'Language for USSD menus, SMS and push notifications',
+    example: Language.RW,
+  })
+  @IsEnum(Language, { message: 'Language must be RW, EN or FR' })
+  language: Language;
+}
@@ -35,6 +35,7 @@ import { CurrentUser } from '../../../shared/decorators/current-user.decorator';
 import { AuthenticatedUser } from '../../../shared/decorators/current-user.decorator';
 import { UserRole, UserStatus } from '@prisma/client';
 import { ApproveTenantDto } from './dto/approve-tenant.dto';
+import { UpdateLanguageDto } from './dto/update-language.dto';
 
 @ApiTags('Users')
 @Controller('users')
@@ -94,6 +95,29 @@ export class UserController {
     return this.userService.getCurrentUser(currentUser.id);
   }
 
+  @Patch('me/language')
+  @ApiOperation({
+    summary: 'Update my language',
+    description:
+      'Language for USSD menus, SMS and push notifications. Kinyarwanda until set',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Language updated successfully',
+    type: CurrentUserResponseDto,
+  })
+  async updateLanguage(
+    @Body() updateLanguageDto: UpdateLanguageDto,
+    @CurrentUser() currentUser: AuthenticatedUser,
+  ): Promise<CurrentUserResponseDto> {
+    await this.userService.updatePreferredLanguage(
+      currentUser.id,
+      updateLanguageDto.language,
+    );
+
+    return this.userService.getCurrentUser(currentUser.id);
+  }
+
   @Get('me/cooperatives')
   @ApiOperation({
     summary: 'Get user accessible cooperatives',
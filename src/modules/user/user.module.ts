@@ -4,9 +4,10 @@ import { UserService } from './application/user.service';
 import { PrismaService } from '../../prisma/prisma.service';
 import { EnhancedCacheService } from '../../shared/services/enhanced-cache.service';
 import { SmsModule } from '../sms/sms.module';
+import { NotificationModule } from '../notification/notification.module';
 
 @Module({
-  imports: [SmsModule],
+  imports: [SmsModule, NotificationModule],
   controllers: [UserController],
   providers: [UserService, PrismaService, EnhancedCacheService],
   exports: [UserService],
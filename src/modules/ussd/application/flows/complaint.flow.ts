@@ -0,0 +1,234 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  ComplaintCategory,
+  ComplaintPriority,
+  ComplaintStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../../../prisma/prisma.service';
+import {
+  ComplaintContext,
+  ComplaintService,
+} from '../../../complaint/application/complaint.service';
+import { ComplaintFilterDto } from '../../../complaint/presentation/dto/complaint-filter.dto';
+import {
+  UssdContext,
+  UssdFlow,
+  UssdMenuEntry,
+  UssdNode,
+  UssdTransition,
+  end,
+  goTo,
+} from '../menu/ussd-menu.types';
+
+export const COMPLAINTS_NODE = 'complaints';
+const COMPLAINTS_MENU_NODE = 'complaints_menu';
+const COMPLAINT_CATEGORY_NODE = 'complaint_category';
+const COMPLAINT_PRIORITY_NODE = 'complaint_priority';
+const COMPLAINT_DESCRIPTION_NODE = 'complaint_description';
+const MY_COMPLAINTS_NODE = 'my_complaints';
+
+const DESCRIPTION_MIN_LENGTH = 5;
+const DESCRIPTION_MAX_LENGTH = 160;
+const MAX_LISTED_COMPLAINTS = 20;
+
+interface ComplaintItem {
+  id: string;
+  title: string;
+  status: ComplaintStatus;
+}
+
+/**
+ * File complaints and follow them up from a feature phone. Complaints go
+ * through ComplaintService, so admins see them with the ones sent from the
+ * app
+ */
+@Injectable()
+export class ComplaintFlow implements UssdFlow {
+  private readonly logger = new Logger(ComplaintFlow.name);
+
+  readonly menuEntry: UssdMenuEntry = {
+    label: 'ussd.menu.complaints',
+    node: COMPLAINTS_NODE,
+  };
+
+  constructor(
+    private prismaService: PrismaService,
+    private complaintService: ComplaintService,
+  ) {}
+
+  nodes(): UssdNode[] {
+    return [
+      {
+        id: COMPLAINTS_NODE,
+        kind: 'action',
+        run: (ctx) =>
+          ctx.session.cooperativeId
+            ? goTo(COMPLAINTS_MENU_NODE)
+            : end(ctx.t('ussd.complaints.noCooperative')),
+      },
+      {
+        id: COMPLAINTS_MENU_NODE,
+        kind: 'menu',
+        options: (ctx) => [
+          {
+            label: ctx.t('ussd.complaints.file'),
+            select: () => goTo(COMPLAINT_CATEGORY_NODE),
+          },
+          {
+            label: ctx.t('ussd.complaints.mine'),
+            select: () => goTo(MY_COMPLAINTS_NODE),
+          },
+        ],
+      },
+      {
+        id: COMPLAINT_CATEGORY_NODE,
+        kind: 'menu',
+        title: (ctx) => ctx.t('ussd.complaints.selectCategory'),
+        options: (ctx) =>
+          Object.values(ComplaintCategory).map((category) => ({
+            label: ctx.t(`complaint.category.${category}`),
+            select: () => {
+              ctx.session.sessionData.complaintCategory = category;
+              return goTo(COMPLAINT_PRIORITY_NODE);
+            },
+          })),
+      },
+      {
+        id: COMPLAINT_PRIORITY_NODE,
+        kind: 'menu',
+        title: (ctx) => ctx.t('ussd.complaints.selectPriority'),
+        options: (ctx) =>
+          Object.values(ComplaintPriority).map((priority) => ({
+            label: ctx.t(`complaint.priority.${priority}`),
+            select: () => {
+              ctx.session.sessionData.complaintPriority = priority;
+              return goTo(COMPLAINT_DESCRIPTION_NODE);
+            },
+          })),
+      },
+      {
+        id: COMPLAINT_DESCRIPTION_NODE,
+        kind: 'input',
+        prompt: (ctx) => ctx.t('ussd.complaints.enterDescription'),
+        validators: [
+          (input, ctx) =>
+            input.length < DESCRIPTION_MIN_LENGTH
+              ? ctx.t('ussd.complaints.descriptionTooShort')
+              : null,
+          (input, ctx) =>
+            input.length > DESCRIPTION_MAX_LENGTH
+              ? ctx.t('ussd.complaints.descriptionTooLong')
+              : null,
+        ],
+        submit: (ctx, description) => this.fileComplaint(ctx, description),
+      },
+      {
+        id: MY_COMPLAINTS_NODE,
+        kind: 'list',
+        title: (ctx) => ctx.t('ussd.complaints.selectComplaint'),
+        load: (ctx) => this.loadComplaints(ctx),
+        empty: (ctx) => end(ctx.t('ussd.complaints.none')),
+        label: (complaint: ComplaintItem, ctx) =>
+          `${this.shorten(complaint.title, 24)} - ${ctx.t(`complaint.status.${complaint.status}`)}`,
+        select: (ctx, complaint: ComplaintItem) =>
+          this.showComplaint(ctx, complaint.id),
+      },
+    ];
+  }
+
+  private async fileComplaint(
+    ctx: UssdContext,
+    description: string,
+  ): Promise<UssdTransition> {
+    const { sessionData } = ctx.session;
+    const category = sessionData.complaintCategory as ComplaintCategory;
+    const priority = sessionData.complaintPriority as ComplaintPriority;
+
+    try {
+      await this.complaintService.createComplaint(
+        {
+          title: `${ctx.t(`complaint.category.${category}`)} - ${this.shorten(description, 60)}`,
+          description,
+          priority,
+          category,
+        },
+        await this.getComplaintContext(ctx),
+      );
+
+      return end(ctx.t('ussd.complaints.filed'));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(`File complaint error: ${errorMessage}`, errorStack);
+      return end(ctx.t('ussd.complaints.failed'));
+    }
+  }
+
+  /**
+   * The caller's own complaints that are not closed yet, newest first
+   */
+  private async loadComplaints(ctx: UssdContext): Promise<ComplaintItem[]> {
+    const filterDto = Object.assign(new ComplaintFilterDto(), {
+      limit: MAX_LISTED_COMPLAINTS,
+      userId: ctx.session.userId,
+    });
+
+    const { data } = await this.complaintService.findAll(
+      filterDto,
+      await this.getComplaintContext(ctx),
+    );
+
+    return data
+      .filter((complaint) => complaint.status !== ComplaintStatus.CLOSED)
+      .map(({ id, title, status }) => ({ id, title, status }));
+  }
+
+  private async showComplaint(
+    ctx: UssdContext,
+    complaintId: string,
+  ): Promise<UssdTransition> {
+    try {
+      const complaint = await this.complaintService.findById(
+        complaintId,
+        await this.getComplaintContext(ctx),
+      );
+
+      return end(
+        ctx.t('ussd.complaints.detail', {
+          title: complaint.title,
+          status: ctx.t(`complaint.status.${complaint.status}`),
+          resolution:
+            complaint.resolution || ctx.t('ussd.complaints.noResolution'),
+        }),
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(`Show complaint error: ${errorMessage}`, errorStack);
+      return end(ctx.t('ussd.complaints.unavailable'));
+    }
+  }
+
+  private async getComplaintContext(
+    ctx: UssdContext,
+  ): Promise<ComplaintContext> {
+    const user = await this.prismaService.user.findUniqueOrThrow({
+      where: { id: ctx.session.userId },
+      select: { role: true },
+    });
+
+    return {
+      userId: ctx.session.userId!,
+      cooperativeId: ctx.session.cooperativeId!,
+      userRole: user.role,
+    };
+  }
+
+  private shorten(text: string, maxLength: number): string {
+    return text.length > maxLength
+      ? `${text.slice(0, maxLength - 1).trimEnd()}…`
+      : text;
+  }
+}
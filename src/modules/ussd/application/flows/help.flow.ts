@@ -0,0 +1,68 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../../../prisma/prisma.service';
+import {
+  UssdContext,
+  UssdFlow,
+  UssdMenuEntry,
+  UssdNode,
+  UssdTransition,
+  end,
+} from '../menu/ussd-menu.types';
+
+export const HELP_NODE = 'help_menu';
+
+/**
+ * Contacts of the caller's cooperative and of Copay support
+ */
+@Injectable()
+export class HelpFlow implements UssdFlow {
+  private readonly logger = new Logger(HelpFlow.name);
+
+  readonly menuEntry: UssdMenuEntry = {
+    label: 'ussd.menu.help',
+    node: HELP_NODE,
+  };
+
+  constructor(private prismaService: PrismaService) {}
+
+  nodes(): UssdNode[] {
+    return [
+      {
+        id: HELP_NODE,
+        kind: 'action',
+        run: (ctx) => this.showHelp(ctx),
+      },
+    ];
+  }
+
+  private async showHelp(ctx: UssdContext): Promise<UssdTransition> {
+    try {
+      const cooperative = ctx.session.cooperativeId
+        ? await this.prismaService.cooperative.findUnique({
+            where: { id: ctx.session.cooperativeId },
+            select: { name: true, phone: true, email: true },
+          })
+        : null;
+
+      if (!cooperative) {
+        return end(ctx.t('ussd.help'));
+      }
+
+      const notAvailable = ctx.t('common.notAvailable');
+
+      return end(
+        ctx.t('ussd.cooperativeHelp', {
+          cooperative: cooperative.name,
+          phone: cooperative.phone || notAvailable,
+          email: cooperative.email || notAvailable,
+        }),
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(`Help menu error: ${errorMessage}`, errorStack);
+      return end(ctx.t('ussd.helpUnavailable'));
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { Language } from '@prisma/client';
+import { UserService } from '../../../user/application/user.service';
+import {
+  UssdContext,
+  UssdFlow,
+  UssdMenuEntry,
+  UssdNode,
+  UssdTransition,
+  goTo,
+} from '../menu/ussd-menu.types';
+import { MAIN_MENU_NODE } from './main-menu.flow';
+
+export const SELECT_LANGUAGE_NODE = 'select_language';
+
+// Language names are shown in their own language
+const LANGUAGE_OPTIONS: { language: Language; label: string }[] = [
+  { language: Language.RW, label: 'Kinyarwanda' },
+  { language: Language.EN, label: 'English' },
+  { language: Language.FR, label: 'Français' },
+];
+
+/**
+ * Language of the menus. The choice is kept on the user profile and also
+ * used for SMS and push notifications
+ */
+@Injectable()
+export class LanguageFlow implements UssdFlow {
+  readonly menuEntry: UssdMenuEntry = {
+    label: 'ussd.menu.language',
+    node: SELECT_LANGUAGE_NODE,
+  };
+
+  constructor(private userService: UserService) {}
+
+  nodes(): UssdNode[] {
+    return [
+      {
+        id: SELECT_LANGUAGE_NODE,
+        kind: 'menu',
+        title: (ctx) => ctx.t('ussd.selectLanguage'),
+        options: () =>
+          LANGUAGE_OPTIONS.map((option) => ({
+            label: option.label,
+            select: (ctx) => this.selectLanguage(ctx, option.language),
+          })),
+      },
+    ];
+  }
+
+  private async selectLanguage(
+    ctx: UssdContext,
+    language: Language,
+  ): Promise<UssdTransition> {
+    await this.userService.updatePreferredLanguage(
+      ctx.session.userId!,
+      language,
+    );
+    ctx.session.language = language;
+
+    return goTo(MAIN_MENU_NODE, ctx.t('ussd.languageUpdated'));
+  }
+}
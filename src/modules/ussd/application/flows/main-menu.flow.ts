@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { UserStatus } from '@prisma/client';
+import { PrismaService } from '../../../../prisma/prisma.service';
+import {
+  UssdContext,
+  UssdFlow,
+  UssdNode,
+  UssdTransition,
+  end,
+  goTo,
+} from '../menu/ussd-menu.types';
+import { REGISTER_NODE } from './registration.flow';
+
+export const WELCOME_NODE = 'welcome';
+export const MAIN_MENU_NODE = 'main_menu';
+
+/**
+ * Entry of every session: identifies the caller and lists the menu entries
+ * of the other flows. Unknown callers are sent to registration
+ */
+@Injectable()
+export class MainMenuFlow implements UssdFlow {
+  constructor(private prismaService: PrismaService) {}
+
+  nodes(): UssdNode[] {
+    return [
+      {
+        id: WELCOME_NODE,
+        kind: 'action',
+        run: (ctx) => this.welcome(ctx),
+      },
+      {
+        id: MAIN_MENU_NODE,
+        kind: 'menu',
+        options: (ctx) =>
+          ctx.menuEntries.map((entry) => ({
+            label: ctx.t(entry.label),
+            select: () => goTo(entry.node),
+          })),
+      },
+    ];
+  }
+
+  private async welcome(ctx: UssdContext): Promise<UssdTransition> {
+    const { session } = ctx;
+    const user = await this.prismaService.user.findUnique({
+      where: { phone: session.phoneNumber },
+    });
+
+    // Unknown callers can ask their cooperative for an account
+    if (!user) {
+      return goTo(REGISTER_NODE);
+    }
+
+    session.language = user.preferredLanguage ?? undefined;
+
+    if (user.status !== UserStatus.ACTIVE) {
+      return end(ctx.t('ussd.accountInactive'));
+    }
+
+    session.userId = user.id;
+    session.cooperativeId = user.cooperativeId || undefined;
+
+    return goTo(
+      MAIN_MENU_NODE,
+      ctx.t('ussd.welcome', {
+        name: user.firstName || ctx.t('common.member'),
+      }),
+    );
+  }
+}
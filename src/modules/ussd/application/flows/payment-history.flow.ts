@@ -0,0 +1,94 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../../../prisma/prisma.service';
+import {
+  UssdContext,
+  UssdFlow,
+  UssdMenuEntry,
+  UssdNode,
+  UssdTransition,
+  end,
+} from '../menu/ussd-menu.types';
+
+export const VIEW_PAYMENTS_NODE = 'view_payments';
+
+/**
+ * Last payments of the caller and their prepaid balance
+ */
+@Injectable()
+export class PaymentHistoryFlow implements UssdFlow {
+  private readonly logger = new Logger(PaymentHistoryFlow.name);
+
+  readonly menuEntry: UssdMenuEntry = {
+    label: 'ussd.menu.history',
+    node: VIEW_PAYMENTS_NODE,
+  };
+
+  constructor(private prismaService: PrismaService) {}
+
+  nodes(): UssdNode[] {
+    return [
+      {
+        id: VIEW_PAYMENTS_NODE,
+        kind: 'action',
+        run: (ctx) => this.viewPayments(ctx),
+      },
+    ];
+  }
+
+  private async viewPayments(ctx: UssdContext): Promise<UssdTransition> {
+    const { session } = ctx;
+
+    try {
+      const [payments, wallet] = await Promise.all([
+        this.prismaService.payment.findMany({
+          where: {
+            senderId: session.userId,
+            cooperativeId: session.cooperativeId,
+          },
+          include: {
+            paymentType: true,
+          },
+          orderBy: {
+            createdAt: 'desc',
+          },
+          take: 3, // Last 3 payments
+        }),
+        this.prismaService.tenantWallet.findFirst({
+          where: {
+            tenantId: session.userId,
+            cooperativeId: session.cooperativeId,
+          },
+          select: { balance: true },
+        }),
+      ]);
+
+      if (payments.length === 0 && !wallet?.balance) {
+        return end(ctx.t('ussd.noPaymentHistory'));
+      }
+
+      let message = '';
+      if (wallet?.balance) {
+        message += `${ctx.t('ussd.prepaidBalance', { amount: wallet.balance })}\n\n`;
+      }
+
+      message += `${ctx.t('ussd.recentPayments')}\n\n`;
+      payments.forEach((payment, index) => {
+        message += `${ctx.t('ussd.paymentHistoryLine', {
+          index: index + 1,
+          type: payment.paymentType.name,
+          amount: payment.amount,
+          status: payment.status,
+          date: payment.createdAt.toLocaleDateString('en-GB'),
+        })}\n\n`;
+      });
+
+      return end(message);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(`View payments error: ${errorMessage}`, errorStack);
+      return end(ctx.t('ussd.paymentHistoryUnavailable'));
+    }
+  }
+}
@@ -0,0 +1,322 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  CooperativeStatus,
+  PaymentMethodType,
+  PaymentStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../../../prisma/prisma.service';
+import { PaymentService } from '../../../payment/application/payment.service';
+import { PinService } from '../../../auth/application/pin.service';
+import {
+  UssdContext,
+  UssdFlow,
+  UssdMenuEntry,
+  UssdNode,
+  UssdTransition,
+  digits,
+  end,
+  goTo,
+  retry,
+} from '../menu/ussd-menu.types';
+
+export const PAY_NODE = 'pay';
+export const AUTH_PIN_NODE = 'auth_pin';
+const SELECT_COOPERATIVE_NODE = 'select_cooperative';
+const SELECT_PAYMENT_TYPE_NODE = 'select_payment_type';
+const SELECT_PAYMENT_METHOD_NODE = 'select_payment_method';
+const CONFIRM_PAYMENT_NODE = 'confirm_payment';
+const PROCESS_PAYMENT_NODE = 'process_payment';
+
+const PAYMENT_METHODS: { method: PaymentMethodType; name: string }[] = [
+  { method: PaymentMethodType.MOBILE_MONEY_MTN, name: 'MTN Mobile Money' },
+  { method: PaymentMethodType.MOBILE_MONEY_AIRTEL, name: 'Airtel Money' },
+  { method: PaymentMethodType.BANK_BK, name: 'Bank of Kigali' },
+];
+
+interface CooperativeItem {
+  id: string;
+  name: string;
+  code: string;
+}
+
+interface PaymentTypeItem {
+  id: string;
+  name: string;
+  amount: number;
+}
+
+/**
+ * Pay a payment type of the caller's cooperative: PIN, cooperative (for
+ * users without one), payment type, payment method, confirmation
+ */
+@Injectable()
+export class PaymentFlow implements UssdFlow {
+  private readonly logger = new Logger(PaymentFlow.name);
+
+  readonly menuEntry: UssdMenuEntry = {
+    label: 'ussd.menu.pay',
+    node: PAY_NODE,
+  };
+
+  constructor(
+    private prismaService: PrismaService,
+    private paymentService: PaymentService,
+    private pinService: PinService,
+  ) {}
+
+  nodes(): UssdNode[] {
+    return [
+      {
+        id: PAY_NODE,
+        kind: 'action',
+        // The PIN is asked once per session
+        run: (ctx) =>
+          goTo(
+            ctx.session.sessionData.authenticated
+              ? this.getStartNode(ctx)
+              : AUTH_PIN_NODE,
+          ),
+      },
+      {
+        id: AUTH_PIN_NODE,
+        kind: 'input',
+        skipOnBack: true,
+        prompt: (ctx) => ctx.t('ussd.enterPin'),
+        validators: [digits(4, 'ussd.invalidPinFormat')],
+        submit: (ctx, pin) => this.authenticate(ctx, pin),
+      },
+      {
+        id: SELECT_COOPERATIVE_NODE,
+        kind: 'list',
+        title: (ctx) => ctx.t('ussd.selectCooperative'),
+        load: () =>
+          this.prismaService.cooperative.findMany({
+            where: { status: CooperativeStatus.ACTIVE },
+            select: { id: true, name: true, code: true },
+            orderBy: { name: 'asc' },
+          }),
+        empty: (ctx) => end(ctx.t('ussd.noCooperatives')),
+        label: (cooperative: CooperativeItem) =>
+          `${cooperative.name} (${cooperative.code})`,
+        select: (ctx, cooperative: CooperativeItem) => {
+          ctx.session.cooperativeId = cooperative.id;
+          return goTo(SELECT_PAYMENT_TYPE_NODE);
+        },
+      },
+      {
+        id: SELECT_PAYMENT_TYPE_NODE,
+        kind: 'list',
+        title: (ctx) => ctx.t('ussd.selectPaymentType'),
+        load: (ctx) =>
+          this.prismaService.paymentType.findMany({
+            where: {
+              cooperativeId: ctx.session.cooperativeId,
+              isActive: true,
+            },
+            select: { id: true, name: true, amount: true },
+            orderBy: { name: 'asc' },
+          }),
+        empty: (ctx) => end(ctx.t('ussd.noPaymentTypes')),
+        label: (paymentType: PaymentTypeItem) =>
+          `${paymentType.name} - ${paymentType.amount} RWF`,
+        select: (ctx, paymentType: PaymentTypeItem) => {
+          ctx.session.sessionData.selectedPaymentType = paymentType;
+          return goTo(SELECT_PAYMENT_METHOD_NODE);
+        },
+      },
+      {
+        id: SELECT_PAYMENT_METHOD_NODE,
+        kind: 'menu',
+        title: (ctx) => {
+          const paymentType = this.getSelectedPaymentType(ctx);
+          return ctx.t('ussd.selectPaymentMethod', {
+            type: paymentType.name,
+            amount: paymentType.amount,
+          });
+        },
+        options: () =>
+          PAYMENT_METHODS.map(({ method, name }) => ({
+            label: name,
+            select: (ctx) => {
+              ctx.session.sessionData.selectedPaymentMethod = method;
+              ctx.session.sessionData.selectedPaymentMethodName = name;
+              return goTo(CONFIRM_PAYMENT_NODE);
+            },
+          })),
+      },
+      {
+        id: CONFIRM_PAYMENT_NODE,
+        kind: 'menu',
+        title: (ctx) => {
+          const paymentType = this.getSelectedPaymentType(ctx);
+          return ctx.t('ussd.paymentSummary', {
+            type: paymentType.name,
+            amount: paymentType.amount,
+            method: ctx.session.sessionData.selectedPaymentMethodName as string,
+            phone: ctx.session.phoneNumber,
+          });
+        },
+        // 1/2 work in every language, Y/N is still accepted
+        options: (ctx) => [
+          {
+            label: ctx.t('common.yes'),
+            aliases: ['Y'],
+            select: () => goTo(PROCESS_PAYMENT_NODE),
+          },
+          {
+            label: ctx.t('common.no'),
+            aliases: ['N'],
+            select: () => end(ctx.t('ussd.paymentCancelled')),
+          },
+        ],
+      },
+      {
+        id: PROCESS_PAYMENT_NODE,
+        kind: 'action',
+        run: (ctx) => this.processPayment(ctx),
+      },
+    ];
+  }
+
+  private async authenticate(
+    ctx: UssdContext,
+    pin: string,
+  ): Promise<UssdTransition> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: ctx.session.userId },
+    });
+
+    if (!user) {
+      return end(ctx.t('ussd.userNotFound'));
+    }
+
+    const pinCheck = await this.pinService.verifyPin(user, pin, 'USSD');
+    if (pinCheck.status === 'locked') {
+      return end(
+        ctx.t('ussd.pinLocked', {
+          minutes: this.pinService.getMinutesLeft(pinCheck.lockedUntil),
+        }),
+      );
+    }
+    if (pinCheck.status === 'invalid') {
+      return retry(
+        ctx.t('ussd.incorrectPin', { attempts: pinCheck.attemptsLeft }),
+      );
+    }
+
+    ctx.session.sessionData.authenticated = true;
+
+    return goTo(this.getStartNode(ctx));
+  }
+
+  /**
+   * Users without a default cooperative pick one first
+   */
+  private getStartNode(ctx: UssdContext): string {
+    return ctx.session.cooperativeId
+      ? SELECT_PAYMENT_TYPE_NODE
+      : SELECT_COOPERATIVE_NODE;
+  }
+
+  private getSelectedPaymentType(ctx: UssdContext): PaymentTypeItem {
+    return ctx.session.sessionData.selectedPaymentType as PaymentTypeItem;
+  }
+
+  private async processPayment(ctx: UssdContext): Promise<UssdTransition> {
+    const { session } = ctx;
+
+    try {
+      const selectedPaymentType = this.getSelectedPaymentType(ctx);
+      const selectedPaymentMethod =
+        (session.sessionData.selectedPaymentMethod as PaymentMethodType) ||
+        PaymentMethodType.MOBILE_MONEY_MTN;
+      const paymentMethodName =
+        (session.sessionData.selectedPaymentMethodName as string) ||
+        'MTN Mobile Money';
+      const idempotencyKey = `ussd_${session.sessionId}_${Date.now()}`;
+
+      if (!selectedPaymentType) {
+        return end(ctx.t('ussd.paymentInfoMissing'));
+      }
+
+      this.logger.log(`=== USSD PAYMENT PROCESSING ===`);
+      this.logger.log(`User: ${session.userId}`);
+      this.logger.log(`Phone: ${session.phoneNumber}`);
+      this.logger.log(`Payment Type: ${selectedPaymentType.name}`);
+      this.logger.log(`Amount: ${selectedPaymentType.amount} RWF`);
+      this.logger.log(`Payment Method: ${paymentMethodName}`);
+      this.logger.log(`Idempotency Key: ${idempotencyKey}`);
+
+      // Create payment request
+      const paymentDto = {
+        paymentTypeId: selectedPaymentType.id,
+        amount: selectedPaymentType.amount,
+        paymentMethod: selectedPaymentMethod,
+        paymentAccount: session.phoneNumber, // Use user's phone number for mobile money
+        description: `USSD Payment - ${selectedPaymentType.name} via ${paymentMethodName}`,
+        idempotencyKey,
+      };
+
+      // Initiate payment via existing payment service
+      const paymentResult = await this.paymentService.initiatePayment(
+        paymentDto,
+        session.userId!,
+        session.cooperativeId,
+      );
+
+      this.logger.log(`Payment Result: ${JSON.stringify(paymentResult)}`);
+
+      const reference = paymentResult.paymentReference || paymentResult.id;
+
+      if (paymentResult.status === PaymentStatus.COMPLETED) {
+        return end(
+          ctx.t('ussd.paymentSuccessful', {
+            type: selectedPaymentType.name,
+            amount: paymentResult.amount,
+            method: paymentMethodName,
+            reference,
+          }),
+        );
+      } else if (paymentResult.status === PaymentStatus.PENDING) {
+        let message = ctx.t('ussd.paymentInitiated', {
+          type: selectedPaymentType.name,
+          amount: paymentResult.amount,
+          method: paymentMethodName,
+          reference,
+        });
+
+        if (
+          selectedPaymentMethod === PaymentMethodType.MOBILE_MONEY_MTN ||
+          selectedPaymentMethod === PaymentMethodType.MOBILE_MONEY_AIRTEL
+        ) {
+          message += ctx.t('ussd.mobileMoneyPrompt', {
+            phone: session.phoneNumber,
+          });
+        } else if (selectedPaymentMethod === PaymentMethodType.BANK_BK) {
+          message += ctx.t('ussd.bankPrompt', { reference });
+        }
+
+        message += ctx.t('ussd.thankYou');
+
+        return end(message);
+      } else {
+        return end(
+          ctx.t('ussd.paymentFailed', {
+            type: selectedPaymentType.name,
+            amount: selectedPaymentType.amount,
+            reference: paymentResult.id,
+          }),
+        );
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(
+        `Payment processing error: ${errorMessage}`,
+        errorStack,
+      );
+      return end(ctx.t('ussd.paymentProcessingFailed'));
+    }
+  }
+}
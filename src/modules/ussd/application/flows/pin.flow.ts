@@ -0,0 +1,223 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcryptjs';
+import { PrismaService } from '../../../../prisma/prisma.service';
+import { AuthService } from '../../../auth/application/auth.service';
+import { PinService } from '../../../auth/application/pin.service';
+import {
+  UssdContext,
+  UssdFlow,
+  UssdMenuEntry,
+  UssdNode,
+  UssdTransition,
+  digits,
+  end,
+  goTo,
+  retry,
+} from '../menu/ussd-menu.types';
+
+export const PIN_MENU_NODE = 'pin_menu';
+const PIN_CURRENT_NODE = 'pin_current';
+const PIN_NEW_NODE = 'pin_new';
+const PIN_CONFIRM_NODE = 'pin_confirm';
+const PIN_RESET_NODE = 'pin_reset';
+const PIN_RESET_CODE_NODE = 'pin_reset_code';
+
+/**
+ * Change the PIN with the current one, or reset it with the code texted by
+ * AuthService.forgotPin. Wrong current PINs count towards the lockout
+ * shared with app login
+ */
+@Injectable()
+export class PinFlow implements UssdFlow {
+  private readonly logger = new Logger(PinFlow.name);
+
+  readonly menuEntry: UssdMenuEntry = {
+    label: 'ussd.menu.pin',
+    node: PIN_MENU_NODE,
+  };
+
+  constructor(
+    private prismaService: PrismaService,
+    private authService: AuthService,
+    private pinService: PinService,
+  ) {}
+
+  nodes(): UssdNode[] {
+    return [
+      {
+        id: PIN_MENU_NODE,
+        kind: 'menu',
+        options: (ctx) => [
+          {
+            label: ctx.t('ussd.pin.change'),
+            select: () => goTo(PIN_CURRENT_NODE),
+          },
+          {
+            label: ctx.t('ussd.pin.forgot'),
+            select: () => goTo(PIN_RESET_NODE),
+          },
+        ],
+      },
+      {
+        id: PIN_CURRENT_NODE,
+        kind: 'input',
+        skipOnBack: true,
+        prompt: (ctx) => ctx.t('ussd.pin.enterCurrent'),
+        validators: [digits(4, 'ussd.invalidPinFormat')],
+        submit: (ctx, pin) => this.verifyCurrentPin(ctx, pin),
+      },
+      {
+        id: PIN_NEW_NODE,
+        kind: 'input',
+        prompt: (ctx) => ctx.t('ussd.pin.enterNew'),
+        validators: [digits(4, 'ussd.invalidPinFormat')],
+        submit: async (ctx, pin) => {
+          // Only a hash is kept until the PIN is confirmed
+          ctx.session.sessionData.newPinHash = await bcrypt.hash(pin, 10);
+          return goTo(PIN_CONFIRM_NODE);
+        },
+      },
+      {
+        id: PIN_CONFIRM_NODE,
+        kind: 'input',
+        prompt: (ctx) => ctx.t('ussd.pin.confirmNew'),
+        validators: [digits(4, 'ussd.invalidPinFormat')],
+        submit: (ctx, pin) => this.confirmNewPin(ctx, pin),
+      },
+      {
+        id: PIN_RESET_NODE,
+        kind: 'action',
+        run: (ctx) => this.requestReset(ctx),
+      },
+      {
+        id: PIN_RESET_CODE_NODE,
+        kind: 'input',
+        skipOnBack: true,
+        prompt: (ctx) => ctx.t('ussd.pin.enterResetCode'),
+        validators: [digits(6, 'ussd.pin.invalidCodeFormat')],
+        submit: (ctx, code) => {
+          ctx.session.sessionData.pinResetCode = code;
+          return goTo(PIN_NEW_NODE);
+        },
+      },
+    ];
+  }
+
+  private async verifyCurrentPin(
+    ctx: UssdContext,
+    pin: string,
+  ): Promise<UssdTransition> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: ctx.session.userId },
+    });
+
+    if (!user) {
+      return end(ctx.t('ussd.userNotFound'));
+    }
+
+    const pinCheck = await this.pinService.verifyPin(user, pin, 'USSD');
+    if (pinCheck.status === 'locked') {
+      return end(
+        ctx.t('ussd.pinLocked', {
+          minutes: this.pinService.getMinutesLeft(pinCheck.lockedUntil),
+        }),
+      );
+    }
+    if (pinCheck.status === 'invalid') {
+      return retry(
+        ctx.t('ussd.incorrectPin', { attempts: pinCheck.attemptsLeft }),
+      );
+    }
+
+    ctx.session.sessionData.pinResetCode = undefined;
+    return goTo(PIN_NEW_NODE);
+  }
+
+  /**
+   * A reset code in the session means the caller came through Forgot PIN
+   */
+  private async confirmNewPin(
+    ctx: UssdContext,
+    pin: string,
+  ): Promise<UssdTransition> {
+    const { sessionData } = ctx.session;
+
+    if (!(await bcrypt.compare(pin, sessionData.newPinHash as string))) {
+      return goTo(PIN_NEW_NODE, ctx.t('ussd.pin.mismatch'));
+    }
+
+    return sessionData.pinResetCode
+      ? this.resetPin(ctx, sessionData.pinResetCode as string, pin)
+      : this.changePin(ctx, pin);
+  }
+
+  private async changePin(
+    ctx: UssdContext,
+    newPin: string,
+  ): Promise<UssdTransition> {
+    try {
+      const user = await this.prismaService.user.findUniqueOrThrow({
+        where: { id: ctx.session.userId },
+      });
+
+      await this.pinService.changePin(user, newPin, 'USSD');
+
+      return end(ctx.t('ussd.pin.changed'));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(`PIN change error: ${errorMessage}`, errorStack);
+      return end(ctx.t('ussd.pin.changeFailed'));
+    }
+  }
+
+  private async requestReset(ctx: UssdContext): Promise<UssdTransition> {
+    try {
+      await this.authService.forgotPin({ phone: ctx.session.phoneNumber });
+
+      return goTo(PIN_RESET_CODE_NODE, ctx.t('ussd.pin.resetCodeSent'));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(`PIN reset request error: ${errorMessage}`, errorStack);
+      return end(ctx.t('ussd.pin.resetFailed'));
+    }
+  }
+
+  private async resetPin(
+    ctx: UssdContext,
+    resetToken: string,
+    newPin: string,
+  ): Promise<UssdTransition> {
+    try {
+      await this.authService.resetPin({
+        phone: ctx.session.phoneNumber,
+        resetToken,
+        newPin,
+      });
+
+      return end(ctx.t('ussd.pin.resetDone'));
+    } catch (error) {
+      // Wrong or expired codes
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        return end(ctx.t('ussd.pin.resetRejected'));
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(`PIN reset error: ${errorMessage}`, errorStack);
+      return end(ctx.t('ussd.pin.resetFailed'));
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { AccountRequestStatus, CooperativeStatus } from '@prisma/client';
+import { PrismaService } from '../../../../prisma/prisma.service';
+import { AccountRequestService } from '../../../auth/application/account-request.service';
+import {
+  UssdContext,
+  UssdFlow,
+  UssdNode,
+  UssdTransition,
+  end,
+  goTo,
+  retry,
+} from '../menu/ussd-menu.types';
+
+export const REGISTER_NODE = 'register';
+const REGISTER_COOPERATIVE_NODE = 'register_cooperative';
+const REGISTER_COOPERATIVE_MATCHES_NODE = 'register_cooperative_matches';
+const REGISTER_NAME_NODE = 'register_name';
+const REGISTER_ROOM_NODE = 'register_room';
+const REGISTER_CONFIRM_NODE = 'register_confirm';
+const REGISTER_SUBMIT_NODE = 'register_submit';
+
+const MAX_COOPERATIVE_MATCHES = 20;
+const ROOM_NUMBER_MAX_LENGTH = 50;
+
+interface CooperativeItem {
+  id: string;
+  name: string;
+  code: string;
+}
+
+/**
+ * Account request for callers whose phone is not registered. The request
+ * goes through AccountRequestService, which texts the caller when an admin
+ * approves or rejects it
+ */
+@Injectable()
+export class RegistrationFlow implements UssdFlow {
+  private readonly logger = new Logger(RegistrationFlow.name);
+
+  constructor(
+    private prismaService: PrismaService,
+    private accountRequestService: AccountRequestService,
+  ) {}
+
+  nodes(): UssdNode[] {
+    return [
+      {
+        id: REGISTER_NODE,
+        kind: 'action',
+        run: (ctx) => this.start(ctx),
+      },
+      {
+        id: REGISTER_COOPERATIVE_NODE,
+        kind: 'input',
+        prompt: (ctx) => ctx.t('ussd.register.enterCooperativeCode'),
+        validators: [
+          (input, ctx) =>
+            input ? null : ctx.t('ussd.register.cooperativeNotFound'),
+        ],
+        submit: (ctx, code) => this.findCooperative(ctx, code),
+      },
+      {
+        id: REGISTER_COOPERATIVE_MATCHES_NODE,
+        kind: 'list',
+        title: (ctx) => ctx.t('ussd.selectCooperative'),
+        load: (ctx) =>
+          Promise.resolve(
+            (ctx.session.sessionData.cooperativeMatches as CooperativeItem[]) ??
+              [],
+          ),
+        empty: (ctx) => end(ctx.t('ussd.register.cooperativeNotFound')),
+        label: (cooperative: CooperativeItem) =>
+          `${cooperative.name} (${cooperative.code})`,
+        select: (ctx, cooperative: CooperativeItem) =>
+          this.selectCooperative(ctx, cooperative),
+      },
+      {
+        id: REGISTER_NAME_NODE,
+        kind: 'input',
+        prompt: (ctx) => ctx.t('ussd.register.enterName'),
+        // First and last name, like the web form
+        validators: [
+          (input, ctx) =>
+            input.split(/\s+/).length >= 2 && input.length <= 100
+              ? null
+              : ctx.t('ussd.register.invalidName'),
+        ],
+        submit: (ctx, fullName) => {
+          ctx.session.sessionData.registrationName = fullName.replace(
+            /\s+/g,
+            ' ',
+          );
+          return goTo(REGISTER_ROOM_NODE);
+        },
+      },
+      {
+        id: REGISTER_ROOM_NODE,
+        kind: 'input',
+        prompt: (ctx) => ctx.t('ussd.register.enterRoom'),
+        validators: [
+          (input, ctx) =>
+            input && input.length <= ROOM_NUMBER_MAX_LENGTH
+              ? null
+              : ctx.t('ussd.register.invalidRoom'),
+        ],
+        submit: (ctx, roomNumber) => {
+          ctx.session.sessionData.registrationRoom = roomNumber;
+          return goTo(REGISTER_CONFIRM_NODE);
+        },
+      },
+      {
+        id: REGISTER_CONFIRM_NODE,
+        kind: 'menu',
+        title: (ctx) => {
+          const { sessionData } = ctx.session;
+          const cooperative =
+            sessionData.registrationCooperative as CooperativeItem;
+
+          return ctx.t('ussd.register.summary', {
+            name: sessionData.registrationName as string,
+            cooperative: cooperative.name,
+            room: sessionData.registrationRoom as string,
+          });
+        },
+        options: (ctx) => [
+          {
+            label: ctx.t('common.yes'),
+            aliases: ['Y'],
+            select: () => goTo(REGISTER_SUBMIT_NODE),
+          },
+          {
+            label: ctx.t('common.no'),
+            aliases: ['N'],
+            select: () => end(ctx.t('ussd.register.cancelled')),
+          },
+        ],
+      },
+      {
+        id: REGISTER_SUBMIT_NODE,
+        kind: 'action',
+        run: (ctx) => this.submit(ctx),
+      },
+    ];
+  }
+
+  /**
+   * Callers with a request under review are only reminded of it
+   */
+  private async start(ctx: UssdContext): Promise<UssdTransition> {
+    const pendingRequest = await this.prismaService.accountRequest.findFirst({
+      where: {
+        phone: ctx.session.phoneNumber,
+        status: AccountRequestStatus.PENDING,
+      },
+      include: { cooperative: { select: { name: true } } },
+    });
+
+    if (pendingRequest) {
+      return end(
+        ctx.t('ussd.register.pending', {
+          cooperative: pendingRequest.cooperative.name,
+        }),
+      );
+    }
+
+    return goTo(REGISTER_COOPERATIVE_NODE, ctx.t('ussd.register.welcome'));
+  }
+
+  /**
+   * An exact code match is taken right away, otherwise the caller picks
+   * among cooperatives whose code contains the input
+   */
+  private async findCooperative(
+    ctx: UssdContext,
+    code: string,
+  ): Promise<UssdTransition> {
+    const cooperatives = await this.prismaService.cooperative.findMany({
+      where: {
+        status: CooperativeStatus.ACTIVE,
+        code: { contains: code, mode: 'insensitive' },
+      },
+      select: { id: true, name: true, code: true },
+      orderBy: { code: 'asc' },
+      take: MAX_COOPERATIVE_MATCHES,
+    });
+
+    const exactMatch = cooperatives.find(
+      (cooperative) => cooperative.code.toUpperCase() === code.toUpperCase(),
+    );
+
+    if (exactMatch) {
+      return this.selectCooperative(ctx, exactMatch);
+    }
+
+    if (cooperatives.length === 0) {
+      return retry(ctx.t('ussd.register.cooperativeNotFound'));
+    }
+
+    ctx.session.sessionData.cooperativeMatches = cooperatives;
+    return goTo(REGISTER_COOPERATIVE_MATCHES_NODE);
+  }
+
+  private selectCooperative(
+    ctx: UssdContext,
+    cooperative: CooperativeItem,
+  ): UssdTransition {
+    ctx.session.sessionData.registrationCooperative = cooperative;
+    return goTo(REGISTER_NAME_NODE);
+  }
+
+  private async submit(ctx: UssdContext): Promise<UssdTransition> {
+    const { sessionData, phoneNumber } = ctx.session;
+    const cooperative = sessionData.registrationCooperative as CooperativeItem;
+
+    try {
+      await this.accountRequestService.createAccountRequest({
+        fullName: sessionData.registrationName as string,
+        phone: phoneNumber,
+        cooperativeId: cooperative.id,
+        roomNumber: sessionData.registrationRoom as string,
+      });
+
+      return end(
+        ctx.t('ussd.register.submitted', { cooperative: cooperative.name }),
+      );
+    } catch (error) {
+      // Duplicate requests, taken rooms and the like are explained to the
+      // caller
+      if (
+        error instanceof ConflictException ||
+        error instanceof NotFoundException
+      ) {
+        return end(
+          ctx.t('ussd.register.notSubmitted', { reason: error.message }),
+        );
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(`Account request error: ${errorMessage}`, errorStack);
+      return end(ctx.t('ussd.register.failed'));
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import { Language } from '@prisma/client';
+import { UssdSessionDto } from '../../presentation/dto/ussd.dto';
+import { UssdMenuEngine } from './ussd-menu.engine';
+import { digits, end, goTo, UssdFlow } from './ussd-menu.types';
+
+const ITEMS = ['A', 'B', 'C', 'D', 'E', 'F', 'G'];
+
+const testFlow: UssdFlow = {
+  nodes: () => [
+    { id: 'start', kind: 'action', run: () => goTo('home') },
+    {
+      id: 'home',
+      kind: 'menu',
+      title: () => 'Home',
+      options: () => [
+        { label: 'Items', select: () => goTo('items') },
+        { label: 'Amount', select: () => goTo('amount') },
+      ],
+    },
+    {
+      id: 'items',
+      kind: 'list',
+      title: () => 'Items',
+      load: () => Promise.resolve(ITEMS),
+      empty: () => end('No items'),
+      label: (item: string) => `Item ${item}`,
+      select: (ctx, item: string) => {
+        ctx.session.sessionData.item = item;
+        return goTo('detail');
+      },
+    },
+    {
+      id: 'detail',
+      kind: 'menu',
+      title: (ctx) => `Detail ${ctx.session.sessionData.item}`,
+      options: () => [{ label: 'Pay', select: () => goTo('amount') }],
+    },
+    {
+      id: 'amount',
+      kind: 'input',
+      prompt: () => 'Enter PIN:',
+      validators: [digits(4, 'ussd.invalidPinFormat')],
+      submit: (_ctx, input) => end(`Paid with ${input}`),
+    },
+  ],
+};
+
+describe('UssdMenuEngine', () => {
+  let engine: UssdMenuEngine;
+  let session: UssdSessionDto;
+
+  const send = (input?: string) => engine.handle(session, input);
+
+  beforeEach(async () => {
+    engine = new UssdMenuEngine({ entry: 'start', home: 'home' }).register(
+      testFlow,
+    );
+    session = new UssdSessionDto('session-1', '+250788000000');
+    session.language = Language.EN;
+    await send();
+  });
+
+  it('starts new sessions at the entry node', () => {
+    expect(session.currentStep).toBe('home');
+    expect(session.backStack).toEqual([]);
+  });
+
+  it('rejects nodes registered twice', () => {
+    expect(() => engine.register(testFlow)).toThrow(
+      'USSD node start is already registered',
+    );
+  });
+
+  describe('menus', () => {
+    it('shows the invalid choice notice for unknown options', async () => {
+      const response = await send('7');
+
+      expect(session.currentStep).toBe('home');
+      expect(response.sessionState).toBe('CON');
+      expect(response.message).toBe(
+        'Invalid choice.\n\nHome\n1. Items\n2. Amount',
+      );
+    });
+  });
+
+  describe('lists', () => {
+    it('shows five items and 98 for the next page', async () => {
+      const response = await send('1');
+
+      expect(response.message).toBe(
+        'Items\n1. Item A\n2. Item B\n3. Item C\n4. Item D\n5. Item E\n98. More\n\n0. Back',
+      );
+    });
+
+    it('numbers the next page from 1 and picks from it', async () => {
+      await send('1');
+      const response = await send('98');
+
+      expect(response.message).toBe('Items\n1. Item F\n2. Item G\n\n0. Back');
+
+      await send('2');
+      expect(session.currentStep).toBe('detail');
+      expect(session.sessionData.item).toBe('G');
+    });
+
+    it('ignores 98 on the last page', async () => {
+      await send('1');
+      await send('98');
+      const response = await send('98');
+
+      expect(response.message).toMatch(/^Invalid choice\./);
+    });
+
+    it('rejects choices beyond the current page', async () => {
+      await send('1');
+      const response = await send('6');
+
+      expect(response.message).toMatch(/^Invalid choice\./);
+      expect(session.currentStep).toBe('items');
+    });
+  });
+
+  describe('0 (back)', () => {
+    it('turns back a list page before leaving the list', async () => {
+      await send('1');
+      await send('98');
+
+      let response = await send('0');
+      expect(session.currentStep).toBe('items');
+      expect(response.message).toMatch(/^Items\n1\. Item A/);
+
+      response = await send('0');
+      expect(session.currentStep).toBe('home');
+      expect(response.message).toBe('Home\n1. Items\n2. Amount');
+    });
+
+    it('returns to a list as it was left', async () => {
+      await send('1');
+      await send('98');
+      await send('1');
+
+      const response = await send('0');
+
+      expect(session.currentStep).toBe('items');
+      expect(response.message).toMatch(/^Items\n1\. Item F/);
+    });
+
+    it('stays on the first menu', async () => {
+      const response = await send('0');
+
+      expect(session.currentStep).toBe('home');
+      expect(response.message).toBe('Home\n1. Items\n2. Amount');
+    });
+  });
+
+  describe('00 (home)', () => {
+    it('returns to the first menu and clears the back stack', async () => {
+      await send('1');
+      await send('1');
+      const detail = await send('1');
+
+      expect(session.currentStep).toBe('amount');
+      expect(session.backStack).toEqual(['home', 'items', 'detail']);
+      expect(detail.message).toBe('Enter PIN:');
+
+      const response = await send('00');
+
+      expect(session.currentStep).toBe('home');
+      expect(session.backStack).toEqual([]);
+      expect(response.message).toBe('Home\n1. Items\n2. Amount');
+    });
+
+    it('offers 00 once the back stack is two deep', async () => {
+      await send('1');
+      const response = await send('1');
+
+      expect(response.message).toBe('Detail A\n1. Pay\n\n0. Back\n00. Home');
+    });
+  });
+
+  describe('input validation', () => {
+    it('shows the validator error and keeps waiting for input', async () => {
+      await send('2');
+      const response = await send('12a4');
+
+      expect(session.currentStep).toBe('amount');
+      expect(response.sessionState).toBe('CON');
+      expect(response.message).toBe('Invalid PIN format.\n\nEnter PIN:');
+    });
+
+    it('submits valid input', async () => {
+      await send('2');
+      const response = await send(' 1234 ');
+
+      expect(response.sessionState).toBe('END');
+      expect(response.message).toBe('Paid with 1234');
+    });
+  });
+});
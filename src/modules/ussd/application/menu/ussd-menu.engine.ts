@@ -0,0 +1,354 @@
+import {
+  UssdResponseDto,
+  UssdSessionDto,
+} from '../../presentation/dto/ussd.dto';
+import { translate } from '../../../../shared/i18n/messages';
+import {
+  UssdContext,
+  UssdFlow,
+  UssdMenuEntry,
+  UssdNode,
+  UssdTransition,
+} from './ussd-menu.types';
+
+const BACK = '0';
+const HOME = '00';
+const NEXT_PAGE = '98';
+const DEFAULT_PAGE_SIZE = 5;
+
+type UssdScreenNode = Exclude<UssdNode, { kind: 'action' }>;
+
+interface UssdListState {
+  items: unknown[];
+  page: number;
+}
+
+export interface UssdMenuEngineOptions {
+  /**
+   * Node a new session starts at
+   */
+  entry: string;
+  /**
+   * Main menu of registered users. Entering it clears the back stack
+   */
+  home: string;
+}
+
+/**
+ * Runs USSD sessions through the nodes of the registered flows. Navigation
+ * state (current node, back stack, list pages) lives in the session, so the
+ * caller only has to store the session between requests
+ */
+export class UssdMenuEngine {
+  private readonly nodes = new Map<string, UssdNode>();
+  private readonly menuEntries: UssdMenuEntry[] = [];
+
+  constructor(private readonly options: UssdMenuEngineOptions) {}
+
+  register(...flows: UssdFlow[]): this {
+    for (const flow of flows) {
+      for (const node of flow.nodes()) {
+        if (this.nodes.has(node.id)) {
+          throw new Error(`USSD node ${node.id} is already registered`);
+        }
+        this.nodes.set(node.id, node);
+      }
+
+      if (flow.menuEntry) {
+        this.menuEntries.push(flow.menuEntry);
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Handle one request of a session. Sessions not waiting on a node start at
+   * the entry node
+   */
+  async handle(
+    session: UssdSessionDto,
+    input?: string,
+  ): Promise<UssdResponseDto> {
+    session.backStack ??= [];
+    const ctx = this.createContext(session);
+    const node = this.nodes.get(session.currentStep);
+
+    if (!node || node.kind === 'action') {
+      session.backStack = [];
+      return this.enter(ctx, this.options.entry);
+    }
+
+    const text = input?.trim() ?? '';
+
+    // `00` returns to the first menu of the session: the main menu for
+    // users, the start of registration for unknown callers
+    if (text === HOME) {
+      const [root] = session.backStack;
+      if (!root) {
+        return this.render(ctx, node);
+      }
+
+      session.backStack = [];
+      return this.show(ctx, root);
+    }
+
+    if (text === BACK) {
+      return this.back(ctx, node);
+    }
+
+    switch (node.kind) {
+      case 'menu': {
+        const choice = text.toUpperCase();
+        const option = node
+          .options(ctx)
+          .find(
+            (candidate, index) =>
+              String(index + 1) === choice ||
+              candidate.aliases?.includes(choice),
+          );
+
+        if (!option) {
+          return this.render(ctx, node, ctx.t('ussd.invalidChoice'));
+        }
+
+        return this.apply(ctx, node, await option.select(ctx));
+      }
+
+      case 'list': {
+        const state = this.getListState(session, node.id);
+        const pageSize = node.pageSize ?? DEFAULT_PAGE_SIZE;
+        const start = state.page * pageSize;
+        const pageItems = state.items.slice(start, start + pageSize);
+
+        if (text === NEXT_PAGE && start + pageSize < state.items.length) {
+          state.page++;
+          return this.render(ctx, node);
+        }
+
+        const choice = Number(text);
+        if (
+          !Number.isInteger(choice) ||
+          choice < 1 ||
+          choice > pageItems.length
+        ) {
+          return this.render(ctx, node, ctx.t('ussd.invalidChoice'));
+        }
+
+        return this.apply(
+          ctx,
+          node,
+          await node.select(ctx, pageItems[choice - 1]),
+        );
+      }
+
+      case 'input': {
+        for (const validate of node.validators ?? []) {
+          const error = validate(text, ctx);
+          if (error) {
+            return this.render(ctx, node, error);
+          }
+        }
+
+        return this.apply(ctx, node, await node.submit(ctx, text));
+      }
+    }
+  }
+
+  private async enter(
+    ctx: UssdContext,
+    nodeId: string,
+    notice?: string,
+  ): Promise<UssdResponseDto> {
+    const node = this.getNode(nodeId);
+    const { session } = ctx;
+
+    if (node.id === this.options.home) {
+      session.backStack = [];
+    }
+    session.currentStep = node.id;
+
+    switch (node.kind) {
+      case 'action':
+        return this.apply(ctx, null, await node.run(ctx));
+
+      case 'list': {
+        const items = await node.load(ctx);
+        if (items.length === 0) {
+          return this.apply(ctx, null, await node.empty(ctx));
+        }
+
+        this.setListState(session, node.id, { items, page: 0 });
+        return this.render(ctx, node, notice);
+      }
+
+      default:
+        return this.render(ctx, node, notice);
+    }
+  }
+
+  /**
+   * `0` turns back a list page first, then returns to the previous node
+   */
+  private async back(
+    ctx: UssdContext,
+    node: UssdScreenNode,
+  ): Promise<UssdResponseDto> {
+    const { session } = ctx;
+
+    if (node.kind === 'list') {
+      const state = this.getListState(session, node.id);
+      if (state.page > 0) {
+        state.page--;
+        return this.render(ctx, node);
+      }
+    }
+
+    const previousId = session.backStack.pop();
+    if (!previousId) {
+      return this.render(ctx, node);
+    }
+
+    return this.show(ctx, previousId);
+  }
+
+  /**
+   * Show a node again as it was left, lists keep their items and page
+   */
+  private async show(
+    ctx: UssdContext,
+    nodeId: string,
+  ): Promise<UssdResponseDto> {
+    const node = this.getNode(nodeId);
+
+    if (
+      node.kind === 'action' ||
+      (node.kind === 'list' &&
+        !this.getListState(ctx.session, node.id).items.length)
+    ) {
+      return this.enter(ctx, node.id);
+    }
+
+    ctx.session.currentStep = node.id;
+    return this.render(ctx, node);
+  }
+
+  /**
+   * Follow a transition. `from` is the node that produced it, or null when it
+   * came from an action or an empty list, which never go on the back stack
+   */
+  private async apply(
+    ctx: UssdContext,
+    from: UssdScreenNode | null,
+    transition: UssdTransition,
+  ): Promise<UssdResponseDto> {
+    switch (transition.type) {
+      case 'end':
+        return new UssdResponseDto(transition.message, 'END');
+
+      case 'retry':
+        // Nothing to show the error on, so it ends the session
+        if (!from) {
+          return new UssdResponseDto(transition.error, 'END');
+        }
+        return this.render(ctx, from, transition.error);
+
+      case 'goto':
+        if (from && !from.skipOnBack && from.id !== transition.node) {
+          ctx.session.backStack.push(from.id);
+        }
+        return this.enter(ctx, transition.node, transition.notice);
+    }
+  }
+
+  private render(
+    ctx: UssdContext,
+    node: UssdScreenNode,
+    notice?: string,
+  ): UssdResponseDto {
+    const { session } = ctx;
+    const lines: string[] = notice ? [notice, ''] : [];
+    let page = 0;
+
+    switch (node.kind) {
+      case 'menu':
+        if (node.title) {
+          lines.push(node.title(ctx));
+        }
+        node.options(ctx).forEach((option, index) => {
+          lines.push(`${index + 1}. ${option.label}`);
+        });
+        break;
+
+      case 'list': {
+        const state = this.getListState(session, node.id);
+        const pageSize = node.pageSize ?? DEFAULT_PAGE_SIZE;
+        const start = state.page * pageSize;
+
+        page = state.page;
+        lines.push(node.title(ctx));
+        state.items.slice(start, start + pageSize).forEach((item, index) => {
+          lines.push(`${index + 1}. ${node.label(item, ctx)}`);
+        });
+
+        if (start + pageSize < state.items.length) {
+          lines.push(`${NEXT_PAGE}. ${ctx.t('ussd.nav.more')}`);
+        }
+        break;
+      }
+
+      case 'input':
+        lines.push(node.prompt(ctx));
+        break;
+    }
+
+    // Input prompts stay short, `0` and `00` still work on them
+    if (node.kind !== 'input' && (session.backStack.length > 0 || page > 0)) {
+      lines.push('', `${BACK}. ${ctx.t('ussd.nav.back')}`);
+
+      if (session.backStack.length > 1) {
+        lines.push(`${HOME}. ${ctx.t('ussd.nav.home')}`);
+      }
+    }
+
+    return new UssdResponseDto(lines.join('\n'), 'CON');
+  }
+
+  private createContext(session: UssdSessionDto): UssdContext {
+    return {
+      session,
+      t: (key, params) => translate(session.language, key, params),
+      menuEntries: this.menuEntries,
+    };
+  }
+
+  private getNode(nodeId: string): UssdNode {
+    const node = this.nodes.get(nodeId);
+
+    if (!node) {
+      throw new Error(`USSD node ${nodeId} is not registered`);
+    }
+
+    return node;
+  }
+
+  private getListState(session: UssdSessionDto, nodeId: string): UssdListState {
+    const lists = (session.sessionData.lists ?? {}) as Record<
+      string,
+      UssdListState
+    >;
+
+    return lists[nodeId] ?? { items: [], page: 0 };
+  }
+
+  private setListState(
+    session: UssdSessionDto,
+    nodeId: string,
+    state: UssdListState,
+  ): void {
+    session.sessionData.lists = {
+      ...(session.sessionData.lists as Record<string, UssdListState>),
+      [nodeId]: state,
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import { UssdSessionDto } from '../../presentation/dto/ussd.dto';
+import { MessageKey, MessageParams } from '../../../../shared/i18n/messages';
+
+/**
+ * What a node hands to its callbacks: the session and message helpers in the
+ * session language
+ */
+export interface UssdContext {
+  session: UssdSessionDto;
+  t(key: MessageKey, params?: MessageParams): string;
+  /**
+   * Main menu entries of the registered flows, in registration order
+   */
+  menuEntries: readonly UssdMenuEntry[];
+}
+
+/**
+ * Where the session goes after a node handled its input
+ */
+export type UssdTransition =
+  | { type: 'goto'; node: string; notice?: string }
+  | { type: 'retry'; error: string }
+  | { type: 'end'; message: string };
+
+export type UssdTransitionResult = UssdTransition | Promise<UssdTransition>;
+
+export const goTo = (node: string, notice?: string): UssdTransition => ({
+  type: 'goto',
+  node,
+  notice,
+});
+
+export const retry = (error: string): UssdTransition => ({
+  type: 'retry',
+  error,
+});
+
+export const end = (message: string): UssdTransition => ({
+  type: 'end',
+  message,
+});
+
+/**
+ * Returns an error message for invalid input, null otherwise
+ */
+export type UssdValidator = (input: string, ctx: UssdContext) => string | null;
+
+interface UssdNodeBase {
+  id: string;
+  /**
+   * Keep the node out of the back stack, so `0` never returns to it (PIN
+   * prompts, one-off confirmations)
+   */
+  skipOnBack?: boolean;
+}
+
+export interface UssdMenuOption {
+  label: string;
+  /**
+   * Extra inputs that pick the option besides its number, e.g. `Y`
+   */
+  aliases?: string[];
+  select(ctx: UssdContext): UssdTransitionResult;
+}
+
+/**
+ * Fixed choices numbered from 1
+ */
+export interface UssdMenuNode extends UssdNodeBase {
+  kind: 'menu';
+  title?(ctx: UssdContext): string;
+  options(ctx: UssdContext): UssdMenuOption[];
+}
+
+/**
+ * Choices loaded when the node is entered, shown a page at a time
+ */
+export interface UssdListNode<T = any> extends UssdNodeBase {
+  kind: 'list';
+  title(ctx: UssdContext): string;
+  /**
+   * Items are kept in the session between requests, so they must be plain
+   * JSON
+   */
+  load(ctx: UssdContext): Promise<T[]>;
+  /**
+   * Where to go when there is nothing to choose from
+   */
+  empty(ctx: UssdContext): UssdTransitionResult;
+  label(item: T, ctx: UssdContext): string;
+  select(ctx: UssdContext, item: T): UssdTransitionResult;
+  pageSize?: number;
+}
+
+/**
+ * Free text such as a PIN or an amount
+ */
+export interface UssdInputNode extends UssdNodeBase {
+  kind: 'input';
+  prompt(ctx: UssdContext): string;
+  validators?: UssdValidator[];
+  submit(ctx: UssdContext, input: string): UssdTransitionResult;
+}
+
+/**
+ * Runs as soon as it is entered without waiting for input, e.g. loading the
+ * user or processing a payment
+ */
+export interface UssdActionNode extends UssdNodeBase {
+  kind: 'action';
+  run(ctx: UssdContext): UssdTransitionResult;
+}
+
+export type UssdNode =
+  | UssdMenuNode
+  | UssdListNode
+  | UssdInputNode
+  | UssdActionNode;
+
+export interface UssdMenuEntry {
+  label: MessageKey;
+  node: string;
+}
+
+/**
+ * A group of nodes registered with the menu engine. Flows with a menu entry
+ * show up in the main menu
+ */
+export interface UssdFlow {
+  menuEntry?: UssdMenuEntry;
+  nodes(): UssdNode[];
+}
+
+/**
+ * Input made of exactly `length` digits
+ */
+export const digits =
+  (length: number, errorKey: MessageKey): UssdValidator =>
+  (input, ctx) =>
+    new RegExp(`^\\d{${length}}$`).test(input) ? null : ctx.t(errorKey);
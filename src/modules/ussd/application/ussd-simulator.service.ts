@@ -0,0 +1,194 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { randomUUID } from 'crypto';
+import { UssdService } from './ussd.service';
+import {
+  StartUssdSimulationDto,
+  UssdReplayDto,
+  UssdReplayResultDto,
+  UssdSimulationScreenDto,
+} from '../presentation/dto/ussd-simulator.dto';
+
+// Environments where a simulated payment or PIN change cannot hit real users
+const SIMULATOR_ENVIRONMENTS = ['development', 'test'];
+
+interface UssdSimulation {
+  sessionId: string;
+  phoneNumber: string;
+  serviceCode?: string;
+  networkCode?: string;
+  inputs: string[];
+}
+
+/**
+ * Virtual USSD sessions for testing menus without a telecom. Requests go
+ * through UssdService like the ones from the telecom callback, so screens,
+ * sessions and side effects are the real ones. That is why it only runs in
+ * development and test
+ */
+@Injectable()
+export class UssdSimulatorService {
+  private readonly logger = new Logger(UssdSimulatorService.name);
+  private readonly SIMULATION_TIMEOUT = 5 * 60 * 1000; // Same as USSD sessions
+
+  constructor(
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
+    private ussdService: UssdService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Dial the service code and return the first screen
+   */
+  async start(
+    startDto: StartUssdSimulationDto,
+  ): Promise<UssdSimulationScreenDto> {
+    return this.send(this.createSimulation(startDto), '');
+  }
+
+  async sendInput(
+    sessionId: string,
+    text: string,
+  ): Promise<UssdSimulationScreenDto> {
+    const simulation = await this.cacheManager.get<UssdSimulation>(
+      this.getCacheKey(sessionId),
+    );
+
+    if (!simulation) {
+      throw new NotFoundException('Simulation not found or already ended');
+    }
+
+    return this.send(simulation, text);
+  }
+
+  /**
+   * Run recorded inputs in a new session and check the final screen.
+   * Sessions still open after the last input are dropped
+   */
+  async replay(replayDto: UssdReplayDto): Promise<UssdReplayResultDto> {
+    const simulation = this.createSimulation(replayDto);
+    const screens: UssdSimulationScreenDto[] = [];
+    const failures: string[] = [];
+
+    for (const input of replayDto.inputs) {
+      const lastScreen = screens[screens.length - 1];
+
+      if (lastScreen?.sessionState === 'END') {
+        failures.push(
+          `Session ended at step ${lastScreen.step}, ${replayDto.inputs.length - screens.length} inputs were not sent`,
+        );
+        break;
+      }
+
+      screens.push(await this.send(simulation, input));
+    }
+
+    const finalScreen = screens[screens.length - 1];
+
+    if (finalScreen.sessionState === 'CON') {
+      await this.ussdService.clearSession(simulation.sessionId);
+      await this.cacheManager.del(this.getCacheKey(simulation.sessionId));
+    }
+
+    if (
+      replayDto.expectedState &&
+      finalScreen.sessionState !== replayDto.expectedState
+    ) {
+      failures.push(
+        `Expected state ${replayDto.expectedState}, got ${finalScreen.sessionState}`,
+      );
+    }
+
+    if (
+      replayDto.expectedMessage !== undefined &&
+      finalScreen.message !== replayDto.expectedMessage
+    ) {
+      failures.push(
+        `Expected final screen ${JSON.stringify(replayDto.expectedMessage)}, got ${JSON.stringify(finalScreen.message)}`,
+      );
+    }
+
+    if (
+      replayDto.expectedContains !== undefined &&
+      !finalScreen.message.includes(replayDto.expectedContains)
+    ) {
+      failures.push(
+        `Expected final screen to contain ${JSON.stringify(replayDto.expectedContains)}`,
+      );
+    }
+
+    this.logger.log(
+      `USSD replay ${simulation.sessionId}: ${failures.length ? 'failed' : 'passed'}`,
+    );
+
+    return {
+      sessionId: simulation.sessionId,
+      passed: failures.length === 0,
+      failures,
+      screens,
+    };
+  }
+
+  private createSimulation(startDto: StartUssdSimulationDto): UssdSimulation {
+    return {
+      sessionId: `sim_${randomUUID()}`,
+      phoneNumber: startDto.phoneNumber,
+      serviceCode: startDto.serviceCode,
+      networkCode: startDto.networkCode,
+      inputs: [],
+    };
+  }
+
+  private async send(
+    simulation: UssdSimulation,
+    text: string,
+  ): Promise<UssdSimulationScreenDto> {
+    const nodeEnv = this.configService.get<string>('app.nodeEnv');
+    if (!SIMULATOR_ENVIRONMENTS.includes(nodeEnv ?? '')) {
+      throw new ForbiddenException(
+        `The USSD simulator is disabled in ${nodeEnv}`,
+      );
+    }
+
+    const response = await this.ussdService.handleUssdRequest({
+      sessionId: simulation.sessionId,
+      phoneNumber: simulation.phoneNumber,
+      text,
+      serviceCode: simulation.serviceCode,
+      networkCode: simulation.networkCode,
+    });
+
+    simulation.inputs.push(text);
+
+    if (response.sessionState === 'CON') {
+      await this.cacheManager.set(
+        this.getCacheKey(simulation.sessionId),
+        simulation,
+        this.SIMULATION_TIMEOUT,
+      );
+    } else {
+      await this.cacheManager.del(this.getCacheKey(simulation.sessionId));
+    }
+
+    return {
+      sessionId: simulation.sessionId,
+      step: simulation.inputs.length,
+      input: text,
+      message: response.message,
+      sessionState: response.sessionState,
+      inputs: [...simulation.inputs],
+    };
+  }
+
+  private getCacheKey(sessionId: string): string {
+    return `ussd_simulation_${sessionId}`;
+  }
+}
@@ -0,0 +1,44 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { UssdRequestDto, UssdResponseDto } from '../presentation/dto/ussd.dto';
+import {
+  UssdGatewayAdapter,
+  UssdGatewayPayload,
+  UssdGatewayReply,
+  getFields,
+  lastInput,
+  toInternationalPhone,
+} from './ussd-gateway.interface';
+
+/**
+ * Africa's Talking: form-encoded sessionId, phoneNumber, serviceCode,
+ * networkCode and a cumulative text ('1*1234*2'). Replies in plain text
+ * starting with CON or END
+ */
+@Injectable()
+export class AfricasTalkingUssdAdapter implements UssdGatewayAdapter {
+  readonly name = 'africastalking';
+
+  toRequest(payload: UssdGatewayPayload): UssdRequestDto {
+    const { sessionId, phoneNumber, serviceCode, networkCode, text } =
+      getFields(payload);
+
+    if (!sessionId || !phoneNumber) {
+      throw new BadRequestException('sessionId and phoneNumber are required');
+    }
+
+    return {
+      sessionId,
+      phoneNumber: toInternationalPhone(phoneNumber),
+      text: lastInput(text ?? ''),
+      serviceCode,
+      networkCode,
+    };
+  }
+
+  toReply(response: UssdResponseDto): UssdGatewayReply {
+    return {
+      contentType: 'text/plain; charset=utf-8',
+      body: `${response.sessionState} ${response.message}`,
+    };
+  }
+}
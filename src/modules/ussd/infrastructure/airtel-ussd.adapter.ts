@@ -0,0 +1,49 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { UssdRequestDto, UssdResponseDto } from '../presentation/dto/ussd.dto';
+import {
+  UssdGatewayAdapter,
+  UssdGatewayPayload,
+  UssdGatewayReply,
+  getFields,
+  toInternationalPhone,
+} from './ussd-gateway.interface';
+
+/**
+ * Airtel USSD gateway: MSISDN, SESSION_ID, SERVICE_CODE and the latest INPUT
+ * as query or form fields. Replies with the bare menu text, the Freeflow
+ * header says FC (continue) or FB (break)
+ */
+@Injectable()
+export class AirtelUssdAdapter implements UssdGatewayAdapter {
+  readonly name = 'airtel';
+
+  toRequest(payload: UssdGatewayPayload): UssdRequestDto {
+    const fields = getFields(payload);
+    const sessionId = fields.SESSION_ID ?? fields.sessionid;
+    const msisdn = fields.MSISDN ?? fields.msisdn;
+
+    if (!sessionId || !msisdn) {
+      throw new BadRequestException('SESSION_ID and MSISDN are required');
+    }
+
+    return {
+      sessionId,
+      phoneNumber: toInternationalPhone(msisdn),
+      text: fields.INPUT ?? fields.input ?? '',
+      serviceCode: fields.SERVICE_CODE,
+      networkCode: 'AIRTEL',
+    };
+  }
+
+  toReply(response: UssdResponseDto): UssdGatewayReply {
+    return {
+      contentType: 'text/plain; charset=utf-8',
+      body: response.message,
+      headers: {
+        Freeflow: response.sessionState === 'CON' ? 'FC' : 'FB',
+        charge: 'N',
+        amount: '0',
+      },
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { UssdRequestDto, UssdResponseDto } from '../presentation/dto/ussd.dto';
+import {
+  UssdGatewayAdapter,
+  UssdGatewayPayload,
+  UssdGatewayReply,
+  escapeXml,
+  readXmlField,
+  toInternationalPhone,
+} from './ussd-gateway.interface';
+
+/**
+ * MTN USSD gateway: XML request with sessionId, msisdn, serviceCode and the
+ * latest subscriberInput. Replies in XML with freeflowState FC (continue)
+ * or FB (break)
+ */
+@Injectable()
+export class MtnUssdAdapter implements UssdGatewayAdapter {
+  readonly name = 'mtn';
+
+  toRequest(payload: UssdGatewayPayload): UssdRequestDto {
+    const xml = typeof payload.body === 'string' ? payload.body : '';
+    const sessionId = readXmlField(xml, 'sessionId');
+    const msisdn = readXmlField(xml, 'msisdn');
+
+    if (!sessionId || !msisdn) {
+      throw new BadRequestException('sessionId and msisdn are required');
+    }
+
+    return {
+      sessionId,
+      phoneNumber: toInternationalPhone(msisdn),
+      text: readXmlField(xml, 'subscriberInput') ?? '',
+      serviceCode: readXmlField(xml, 'serviceCode'),
+      networkCode: 'MTN',
+    };
+  }
+
+  toReply(
+    response: UssdResponseDto,
+    request: UssdRequestDto,
+  ): UssdGatewayReply {
+    const freeflowState = response.sessionState === 'CON' ? 'FC' : 'FB';
+
+    return {
+      contentType: 'application/xml; charset=utf-8',
+      body: [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<response>',
+        `  <msisdn>${escapeXml(request.phoneNumber.replace(/^\+/, ''))}</msisdn>`,
+        `  <applicationResponse>${escapeXml(response.message)}</applicationResponse>`,
+        '  <freeflow>',
+        `    <freeflowState>${freeflowState}</freeflowState>`,
+        '    <freeflowCharging>N</freeflowCharging>',
+        '    <freeflowChargingAmount>0.0</freeflowChargingAmount>',
+        '  </freeflow>',
+        '</response>',
+      ].join('\n'),
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { UssdGatewayAdapter } from './ussd-gateway.interface';
+import { AfricasTalkingUssdAdapter } from './africas-talking-ussd.adapter';
+import { MtnUssdAdapter } from './mtn-ussd.adapter';
+import { AirtelUssdAdapter } from './airtel-ussd.adapter';
+
+@Injectable()
+export class UssdGatewayFactory {
+  private readonly adapters = new Map<string, UssdGatewayAdapter>();
+
+  constructor(
+    africasTalkingAdapter: AfricasTalkingUssdAdapter,
+    mtnAdapter: MtnUssdAdapter,
+    airtelAdapter: AirtelUssdAdapter,
+  ) {
+    for (const adapter of [africasTalkingAdapter, mtnAdapter, airtelAdapter]) {
+      this.adapters.set(adapter.name, adapter);
+    }
+  }
+
+  getAdapter(name: string): UssdGatewayAdapter {
+    const adapter = this.adapters.get(name.toLowerCase());
+
+    if (!adapter) {
+      throw new NotFoundException(`Unknown USSD gateway: ${name}`);
+    }
+
+    return adapter;
+  }
+}
@@ -0,0 +1,96 @@
+import { UssdRequestDto, UssdResponseDto } from '../presentation/dto/ussd.dto';
+
+export interface UssdGatewayPayload {
+  body: unknown; // Parsed JSON or form fields, raw string for XML
+  query: Record<string, string | undefined>;
+}
+
+export interface UssdGatewayReply {
+  contentType: string;
+  body: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Translates between an aggregator's USSD callback and the canonical
+ * UssdRequestDto/UssdResponseDto handled by UssdService
+ */
+export abstract class UssdGatewayAdapter {
+  /**
+   * Path segment of the gateway endpoint, /ussd/gateways/:name
+   */
+  abstract readonly name: string;
+  abstract toRequest(payload: UssdGatewayPayload): UssdRequestDto;
+  abstract toReply(
+    response: UssdResponseDto,
+    request: UssdRequestDto,
+  ): UssdGatewayReply;
+}
+
+/**
+ * Query string and form or JSON body fields, the body wins
+ */
+export function getFields(
+  payload: UssdGatewayPayload,
+): Record<string, string | undefined> {
+  const fields: Record<string, string | undefined> = { ...payload.query };
+
+  if (payload.body && typeof payload.body === 'object') {
+    for (const [key, value] of Object.entries(payload.body)) {
+      fields[key] =
+        value === undefined || value === null ? undefined : String(value);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * MSISDNs come as 2507..., 07... or +2507...; users are stored as +2507...
+ */
+export function toInternationalPhone(msisdn: string): string {
+  const digits = msisdn.replace(/[\s-]/g, '');
+
+  if (digits.startsWith('+')) {
+    return digits;
+  }
+  if (digits.startsWith('0')) {
+    return `+250${digits.slice(1)}`;
+  }
+  return `+${digits}`;
+}
+
+/**
+ * Latest input of a cumulative USSD string: '1*1234*2' -> '2'
+ */
+export function lastInput(cumulativeText: string): string {
+  return cumulativeText.split('*').pop() ?? '';
+}
+
+export function readXmlField(xml: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+  if (!match) {
+    return undefined;
+  }
+
+  const value = match[1].trim();
+  const cdata = /^<!\[CDATA\[([\s\S]*)\]\]>$/.exec(value);
+
+  return cdata
+    ? cdata[1]
+    : value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,131 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsPhoneNumber,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+const MAX_REPLAY_INPUTS = 50;
+
+export class StartUssdSimulationDto {
+  @ApiProperty({
+    description: 'Phone number the virtual session dials from',
+    example: '+250788123456',
+  })
+  @IsPhoneNumber('RW')
+  @IsNotEmpty()
+  phoneNumber: string;
+
+  @ApiPropertyOptional({
+    description: 'Service code passed to the USSD handler',
+    example: '*134#',
+  })
+  @IsString()
+  @IsOptional()
+  serviceCode?: string;
+
+  @ApiPropertyOptional({
+    description: 'Network code passed to the USSD handler',
+    example: 'MTN',
+  })
+  @IsString()
+  @IsOptional()
+  networkCode?: string;
+}
+
+export class UssdSimulationInputDto {
+  @ApiProperty({
+    description: 'What the caller types on the current screen',
+    example: '1',
+  })
+  @IsString()
+  @MaxLength(182) // Longest USSD string a handset sends
+  text: string;
+}
+
+export class UssdReplayDto extends StartUssdSimulationDto {
+  @ApiProperty({
+    description:
+      'Inputs to send in order, as recorded in the inputHistory of a USSD session. The first one is the dial and is ignored by the menus',
+    example: ['', '1', '1234', '1', '1', '1'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_REPLAY_INPUTS)
+  @IsString({ each: true })
+  inputs: string[];
+
+  @ApiPropertyOptional({
+    description: 'Expected session state after the last input',
+    enum: ['CON', 'END'],
+  })
+  @IsIn(['CON', 'END'])
+  @IsOptional()
+  expectedState?: 'CON' | 'END';
+
+  @ApiPropertyOptional({
+    description: 'Expected final screen, compared exactly',
+    example: 'Payment cancelled.',
+  })
+  @IsString()
+  @IsOptional()
+  expectedMessage?: string;
+
+  @ApiPropertyOptional({
+    description: 'Text the final screen must contain',
+    example: 'Payment cancelled',
+  })
+  @IsString()
+  @IsOptional()
+  expectedContains?: string;
+}
+
+export class UssdSimulationScreenDto {
+  @ApiProperty({ description: 'Virtual session ID', example: 'sim_4f1c...' })
+  sessionId: string;
+
+  @ApiProperty({ description: 'Number of the request in the session' })
+  step: number;
+
+  @ApiProperty({ description: 'Input that produced this screen' })
+  input: string;
+
+  @ApiProperty({ description: 'Screen shown to the caller' })
+  message: string;
+
+  @ApiProperty({ enum: ['CON', 'END'] })
+  sessionState: 'CON' | 'END';
+
+  @ApiProperty({
+    description: 'Inputs sent so far, ready to be replayed',
+    type: [String],
+  })
+  inputs: string[];
+}
+
+export class UssdReplayResultDto {
+  @ApiProperty({ description: 'Virtual session ID' })
+  sessionId: string;
+
+  @ApiProperty({ description: 'Whether every expectation was met' })
+  passed: boolean;
+
+  @ApiProperty({
+    description: 'Unmet expectations, empty when the replay passed',
+    type: [String],
+  })
+  failures: string[];
+
+  @ApiProperty({
+    description: 'Screens in the order they were shown',
+    type: [UssdSimulationScreenDto],
+  })
+  screens: UssdSimulationScreenDto[];
+}
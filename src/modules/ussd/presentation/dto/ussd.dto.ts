@@ -5,6 +5,7 @@ import {
   IsPhoneNumber,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Language } from '@prisma/client';
 
 /**
  * USSD Request DTO
@@ -28,8 +29,9 @@ export class UssdRequestDto {
   phoneNumber: string;
 
   @ApiProperty({
-    description: 'USSD text input from user',
-    example: '1*2*1',
+    description:
+      'Latest USSD input from the user. Cumulative text (1*2*1) goes through /ussd/gateways/africastalking',
+    example: '1',
   })
   @IsString()
   @IsOptional()
@@ -91,9 +93,15 @@ export class UssdSessionDto {
   @ApiProperty({ description: 'User phone number' })
   phoneNumber: string;
 
-  @ApiProperty({ description: 'Current menu step' })
+  @ApiProperty({ description: 'Current menu node' })
   currentStep: string;
 
+  @ApiProperty({
+    description: 'Menu nodes to return to with 0, most recent last',
+    type: [String],
+  })
+  backStack: string[];
+
   @ApiProperty({ description: 'User input history', type: [String] })
   inputHistory: string[];
 
@@ -106,6 +114,9 @@ export class UssdSessionDto {
   @ApiProperty({ description: 'Cooperative ID if selected' })
   cooperativeId?: string;
 
+  @ApiProperty({ description: 'Language of the menus', enum: Language })
+  language?: Language;
+
   @ApiProperty({ description: 'Session start time' })
   startTime: Date;
 
@@ -116,6 +127,7 @@ export class UssdSessionDto {
     this.sessionId = sessionId;
     this.phoneNumber = phoneNumber;
     this.currentStep = 'welcome';
+    this.backStack = [];
     this.inputHistory = [];
     this.sessionData = {};
     this.startTime = new Date();
@@ -0,0 +1,96 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+  Res,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { FastifyReply } from 'fastify';
+import { UssdService } from '../application/ussd.service';
+import { UssdGatewayFactory } from '../infrastructure/ussd-gateway.factory';
+import { Public } from '../../../shared/decorators/auth.decorator';
+
+const GATEWAY_PARAM_DESCRIPTION =
+  'Aggregator format: africastalking, mtn or airtel';
+
+@ApiTags('USSD')
+@Controller('ussd/gateways')
+@Public() // Called by the aggregators, like /ussd
+export class UssdGatewayController {
+  private readonly logger = new Logger(UssdGatewayController.name);
+
+  constructor(
+    private readonly ussdService: UssdService,
+    private readonly ussdGatewayFactory: UssdGatewayFactory,
+  ) {}
+
+  @Post(':gateway')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Handle USSD requests in an aggregator format',
+    description: `
+      Same menus as POST /ussd, in the request and response format of an aggregator.
+
+      - **africastalking**: form fields sessionId, phoneNumber, serviceCode, networkCode and a cumulative text (1*1234*2). Plain text reply starting with CON or END
+      - **mtn**: XML request with sessionId, msisdn, serviceCode and subscriberInput. XML reply with freeflowState FC or FB
+      - **airtel**: MSISDN, SESSION_ID, SERVICE_CODE and INPUT as query or form fields. Plain text reply, Freeflow header FC or FB
+    `,
+  })
+  @ApiParam({ name: 'gateway', description: GATEWAY_PARAM_DESCRIPTION })
+  @ApiResponse({ status: 200, description: 'Menu in the aggregator format' })
+  @ApiResponse({ status: 400, description: 'Missing session or phone fields' })
+  @ApiResponse({ status: 404, description: 'Unknown gateway' })
+  async handlePost(
+    @Param('gateway') gateway: string,
+    @Body() body: unknown,
+    @Query() query: Record<string, string | undefined>,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<string> {
+    return this.handle(gateway, body, query, reply);
+  }
+
+  @Get(':gateway')
+  @ApiOperation({
+    summary: 'Handle USSD requests sent as query parameters',
+    description: 'For aggregators that call with GET, such as airtel',
+  })
+  @ApiParam({ name: 'gateway', description: GATEWAY_PARAM_DESCRIPTION })
+  @ApiResponse({ status: 200, description: 'Menu in the aggregator format' })
+  async handleGet(
+    @Param('gateway') gateway: string,
+    @Query() query: Record<string, string | undefined>,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<string> {
+    return this.handle(gateway, undefined, query, reply);
+  }
+
+  private async handle(
+    gateway: string,
+    body: unknown,
+    query: Record<string, string | undefined>,
+    reply: FastifyReply,
+  ): Promise<string> {
+    const adapter = this.ussdGatewayFactory.getAdapter(gateway);
+    const request = adapter.toRequest({ body, query });
+
+    this.logger.log(
+      `Incoming ${adapter.name} USSD request: ${JSON.stringify(request)}`,
+    );
+
+    const response = await this.ussdService.handleUssdRequest(request);
+    const gatewayReply = adapter.toReply(response, request);
+
+    reply.header('Content-Type', gatewayReply.contentType);
+    for (const [name, value] of Object.entries(gatewayReply.headers ?? {})) {
+      reply.header(name, value);
+    }
+
+    return gatewayReply.body;
+  }
+}
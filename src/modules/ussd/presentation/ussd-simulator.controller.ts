@@ -0,0 +1,98 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { UssdSimulatorService } from '../application/ussd-simulator.service';
+import {
+  StartUssdSimulationDto,
+  UssdReplayDto,
+  UssdReplayResultDto,
+  UssdSimulationInputDto,
+  UssdSimulationScreenDto,
+} from './dto/ussd-simulator.dto';
+import { JwtAuthGuard } from '../../../shared/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../shared/guards/roles.guard';
+import { Roles } from '../../../shared/decorators/auth.decorator';
+
+@ApiTags('USSD Simulator')
+@Controller('ussd/simulator')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.SUPER_ADMIN)
+@ApiBearerAuth()
+@ApiResponse({
+  status: 403,
+  description: 'The simulator only runs in development and test',
+})
+export class UssdSimulatorController {
+  constructor(private readonly ussdSimulatorService: UssdSimulatorService) {}
+
+  @Post('sessions')
+  @ApiOperation({
+    summary: 'Start a virtual USSD session',
+    description:
+      'Dial the USSD service from a phone number and get the first screen (Super Admin only, development and test only). Sessions run against the real services: a confirmed payment is a real payment',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'First screen of the session',
+    type: UssdSimulationScreenDto,
+  })
+  async startSession(
+    @Body() startDto: StartUssdSimulationDto,
+  ): Promise<UssdSimulationScreenDto> {
+    return this.ussdSimulatorService.start(startDto);
+  }
+
+  @Post('sessions/:sessionId/input')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Send input to a virtual USSD session',
+    description:
+      'Type on the current screen of a virtual session and get the next screen (Super Admin only)',
+  })
+  @ApiParam({ name: 'sessionId', description: 'Virtual session ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Next screen of the session',
+    type: UssdSimulationScreenDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Simulation not found, expired or already ended',
+  })
+  async sendInput(
+    @Param('sessionId') sessionId: string,
+    @Body() inputDto: UssdSimulationInputDto,
+  ): Promise<UssdSimulationScreenDto> {
+    return this.ussdSimulatorService.sendInput(sessionId, inputDto.text);
+  }
+
+  @Post('replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replay recorded USSD inputs',
+    description:
+      'Send recorded inputs (the inputHistory of a USSD session) through a new virtual session and check the final screen (Super Admin only)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Screens of the replay and unmet expectations',
+    type: UssdReplayResultDto,
+  })
+  async replay(@Body() replayDto: UssdReplayDto): Promise<UssdReplayResultDto> {
+    return this.ussdSimulatorService.replay(replayDto);
+  }
+}
@@ -40,11 +40,16 @@ export class UssdController {
       4. Session management with CON/END responses
       
       **Menu Structure:**
-      - Main Menu: Make Payment | My Payments | Help
+      - Main Menu: Make Payment | My Payments | Help | Language
       - Payment Flow: Select Cooperative → Payment Type → Confirm → Process
       - Payment History: Display last 3 payments with status
       - Help: Show cooperative contact information
       
+      **Navigation:**
+      - 0: Back to the previous menu (or previous page of a list)
+      - 00: Back to the main menu
+      - 98: Next page of a long list
+      
       **Response Format:**
       - CON: Continue session, expect more input
       - END: Terminate session, final message
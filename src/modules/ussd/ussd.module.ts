@@ -1,9 +1,26 @@
 import { Module } from '@nestjs/common';
 import { UssdController } from './presentation/ussd.controller';
+import { UssdSimulatorController } from './presentation/ussd-simulator.controller';
+import { UssdGatewayController } from './presentation/ussd-gateway.controller';
 import { UssdService } from './application/ussd.service';
+import { UssdSimulatorService } from './application/ussd-simulator.service';
+import { UssdGatewayFactory } from './infrastructure/ussd-gateway.factory';
+import { AfricasTalkingUssdAdapter } from './infrastructure/africas-talking-ussd.adapter';
+import { MtnUssdAdapter } from './infrastructure/mtn-ussd.adapter';
+import { AirtelUssdAdapter } from './infrastructure/airtel-ussd.adapter';
+import { MainMenuFlow } from './application/flows/main-menu.flow';
+import { PaymentFlow } from './application/flows/payment.flow';
+import { PaymentHistoryFlow } from './application/flows/payment-history.flow';
+import { HelpFlow } from './application/flows/help.flow';
+import { LanguageFlow } from './application/flows/language.flow';
+import { ComplaintFlow } from './application/flows/complaint.flow';
+import { RegistrationFlow } from './application/flows/registration.flow';
+import { PinFlow } from './application/flows/pin.flow';
 import { UserModule } from '../user/user.module';
 import { CooperativeModule } from '../cooperative/cooperative.module';
 import { PaymentModule } from '../payment/payment.module';
+import { ComplaintModule } from '../complaint/complaint.module';
+import { AuthModule } from '../auth/auth.module';
 import { PrismaService } from '../../prisma/prisma.service';
 
 /**
@@ -12,19 +29,30 @@ import { PrismaService } from '../../prisma/prisma.service';
  * Provides USSD functionality for the Copay platform allowing tenants to:
  * - Make payments via USSD (*134#)
  * - Check payment history
+ * - File complaints and follow up on them
+ * - Request an account when their phone is not registered yet
+ * - Change or reset their PIN
  * - Get help and cooperative contact information
  *
  * Features:
  * - Session management with Redis caching
- * - PIN-based authentication
+ * - PIN-based authentication with a lockout shared with app login
  * - Multi-cooperative support
  * - Integration with existing payment gateway (IremboPay)
- * - Telecom standard USSD responses (CON/END)
+ * - Telecom standard USSD responses (CON/END), plus adapters for the
+ *   Africa's Talking, MTN and Airtel request and response formats
+ * - Declarative menu engine: flows register nodes (menus, paged lists,
+ *   inputs, actions) with 0 for back and 00 for the main menu
+ * - Simulator for super admins: virtual sessions and replays of recorded
+ *   inputs, without a telecom
  *
  * Integration points:
  * - UserModule: User authentication and verification
  * - CooperativeModule: Cooperative selection and information
  * - PaymentModule: Payment processing via IremboPay gateway
+ * - ComplaintModule: Complaints filed from the complaints menu
+ * - AuthModule: Account requests of unregistered callers, PIN checks,
+ *   changes and resets
  * - PrismaService: Database operations
  * - Redis Cache: Session state management
  */
@@ -33,10 +61,25 @@ import { PrismaService } from '../../prisma/prisma.service';
     UserModule, // For user authentication and management
     CooperativeModule, // For cooperative data and selection
     PaymentModule, // For payment processing integration
+    ComplaintModule, // For complaint filing and status lookup
+    AuthModule, // For account requests and PIN management
   ],
-  controllers: [UssdController],
+  controllers: [UssdController, UssdGatewayController, UssdSimulatorController],
   providers: [
     UssdService,
+    UssdSimulatorService,
+    UssdGatewayFactory,
+    AfricasTalkingUssdAdapter,
+    MtnUssdAdapter,
+    AirtelUssdAdapter,
+    MainMenuFlow,
+    PaymentFlow,
+    PaymentHistoryFlow,
+    HelpFlow,
+    LanguageFlow,
+    ComplaintFlow,
+    RegistrationFlow,
+    PinFlow,
     PrismaService, // Direct Prisma access for optimized queries
   ],
   exports: [UssdService], // Export service for potential future use
@@ -0,0 +1,83 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { createClient } from 'redis';
+import { Server, ServerOptions } from 'socket.io';
+
+export interface RedisConnectionOptions {
+  host: string;
+  port: number;
+  password?: string;
+}
+
+// The first connection fails fast so the app can start without Redis
+const CONNECT_TIMEOUT_MS = 5000;
+
+/**
+ * Socket.IO adapter that shares rooms, broadcasts and acknowledgements
+ * between API instances through Redis pub/sub, so a user connected to one
+ * instance gets events emitted on another
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(RedisIoAdapter.name);
+  private adapterConstructor?: ReturnType<typeof createAdapter>;
+
+  constructor(
+    app: INestApplicationContext,
+    private readonly redisOptions: RedisConnectionOptions,
+  ) {
+    super(app);
+  }
+
+  async connectToRedis(): Promise<void> {
+    const pubClient = createClient({
+      socket: {
+        host: this.redisOptions.host,
+        port: this.redisOptions.port,
+      },
+      password: this.redisOptions.password,
+    });
+    const subClient = pubClient.duplicate();
+
+    // Unhandled client errors would crash the process. The clients keep
+    // reconnecting on their own
+    for (const client of [pubClient, subClient]) {
+      client.on('error', (error: Error) =>
+        this.logger.error(`Redis adapter error: ${error.message}`),
+      );
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        Promise.all([pubClient.connect(), subClient.connect()]),
+        new Promise((_resolve, reject) => {
+          timer = setTimeout(
+            () => reject(new Error('Timed out connecting to Redis')),
+            CONNECT_TIMEOUT_MS,
+          );
+        }),
+      ]);
+    } catch (error) {
+      pubClient.destroy();
+      subClient.destroy();
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    this.adapterConstructor = createAdapter(pubClient, subClient, {
+      key: 'copay:socket.io',
+    });
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server = super.createIOServer(port, options) as Server;
+
+    if (this.adapterConstructor) {
+      server.adapter(this.adapterConstructor);
+    }
+
+    return server;
+  }
+}
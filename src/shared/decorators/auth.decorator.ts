@@ -5,3 +5,8 @@ export const Roles = (...roles: string[]) => SetMetadata(ROLES_KEY, roles);
 
 export const IS_PUBLIC_KEY = 'isPublic';
 export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+// Config key of the shared token a public webhook expects in ?token=
+export const WEBHOOK_TOKEN_KEY = 'webhookToken';
+export const WebhookToken = (configKey: string) =>
+  SetMetadata(WEBHOOK_TOKEN_KEY, configKey);
@@ -0,0 +1,54 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { timingSafeEqual } from 'crypto';
+import { WEBHOOK_TOKEN_KEY } from '../decorators/auth.decorator';
+
+/**
+ * Checks the ?token= of a public webhook against the config key set with
+ * @WebhookToken(). Requests are rejected while that token is not configured
+ */
+@Injectable()
+export class WebhookTokenGuard implements CanActivate {
+  private readonly logger = new Logger(WebhookTokenGuard.name);
+
+  constructor(
+    private reflector: Reflector,
+    private configService: ConfigService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const configKey = this.reflector.getAllAndOverride<string>(
+      WEBHOOK_TOKEN_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    const expected = configKey
+      ? this.configService.get<string>(configKey)
+      : undefined;
+
+    if (!expected) {
+      this.logger.error(
+        `Rejected webhook ${context.getClass().name}: ${configKey ?? 'token'} is not configured`,
+      );
+      throw new UnauthorizedException('Webhook token is not configured');
+    }
+
+    const request = context
+      .switchToHttp()
+      .getRequest<{ query: Record<string, unknown> }>();
+    const token = request.query?.token;
+    const given = Buffer.from(typeof token === 'string' ? token : '');
+    const wanted = Buffer.from(expected);
+    if (given.length !== wanted.length || !timingSafeEqual(given, wanted)) {
+      throw new UnauthorizedException('Invalid webhook token');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,246 @@
+export const en = {
+  // Common
+  'common.member': 'Member',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.notAvailable': 'Not available',
+
+  // USSD
+  'ussd.serviceUnavailable':
+    'Service temporarily unavailable. Please try again later.',
+  'ussd.accountInactive':
+    'Your account is not active. Please contact your cooperative administrator.',
+  'ussd.welcome': 'Welcome to Copay, {name}!',
+  'ussd.menu.pay': 'Make Payment',
+  'ussd.menu.history': 'My Payments',
+  'ussd.menu.help': 'Help',
+  'ussd.menu.language': 'Language',
+  'ussd.nav.back': 'Back',
+  'ussd.nav.home': 'Home',
+  'ussd.nav.more': 'More',
+  'ussd.selectLanguage': 'Choose your language:',
+  'ussd.languageUpdated': 'Language updated.',
+  'ussd.enterPin': 'Enter your 4-digit PIN:',
+  'ussd.invalidPinFormat': 'Invalid PIN format.',
+  'ussd.userNotFound': 'User not found. Session terminated.',
+  'ussd.incorrectPin': 'Incorrect PIN. {attempts} attempts left.',
+  'ussd.invalidChoice': 'Invalid choice.',
+  'ussd.noCooperatives': 'No active cooperatives found.',
+  'ussd.selectCooperative': 'Select your cooperative:',
+  'ussd.noPaymentTypes': 'No payment types available for your cooperative.',
+  'ussd.selectPaymentType': 'Select payment type:',
+  'ussd.selectPaymentMethod':
+    'Payment Type: {type}\nAmount: {amount} RWF\n\nSelect payment method:',
+  'ussd.paymentSummary':
+    'Payment Summary:\nType: {type}\nAmount: {amount} RWF\nPayment Method: {method}\nPhone: {phone}\n\nConfirm payment?',
+  'ussd.paymentCancelled': 'Payment cancelled.',
+  'ussd.paymentInfoMissing': 'Payment information not found. Please try again.',
+  'ussd.paymentSuccessful':
+    '✅ Payment Successful!\nType: {type}\nAmount: {amount} RWF\nMethod: {method}\nReference: {reference}\n\nThank you for using Copay!',
+  'ussd.paymentInitiated':
+    '🚀 Payment Initiated!\nType: {type}\nAmount: {amount} RWF\nMethod: {method}\nReference: {reference}\n\n',
+  'ussd.mobileMoneyPrompt':
+    'You will receive a mobile money prompt shortly on {phone}.\nPlease complete the payment on your phone.\n\n',
+  'ussd.bankPrompt':
+    'Please visit the bank to complete payment.\nPayment reference: {reference}\n\n',
+  'ussd.thankYou': 'Thank you for using Copay!',
+  'ussd.paymentFailed':
+    '❌ Payment Failed\nType: {type}\nAmount: {amount} RWF\nReference: {reference}\n\nPlease try again later or contact support.\nSupport: +250788000000',
+  'ussd.paymentProcessingFailed':
+    '❌ Payment Processing Failed\n\nUnable to process payment at this time.\nPlease try again later or contact support.\n\nSupport: +250788000000',
+  'ussd.noPaymentHistory': 'No payment history found.',
+  'ussd.prepaidBalance': 'Prepaid balance: {amount} RWF',
+  'ussd.recentPayments': 'Your Recent Payments:',
+  'ussd.paymentHistoryLine':
+    '{index}. {type}\n   {amount} RWF - {status}\n   Date: {date}',
+  'ussd.paymentHistoryUnavailable':
+    'Unable to retrieve payment history. Please try again later.',
+  'ussd.help':
+    'Help Information:\n\nFor technical support, please contact:\nEmail: support@copay.rw\nPhone: +250788000000\n\nCopay - Making payments simple!',
+  'ussd.cooperativeHelp':
+    'Help Information:\n\nYour Cooperative: {cooperative}\nContact Phone: {phone}\nContact Email: {email}\n\nFor technical support:\nEmail: support@copay.rw\nPhone: +250788000000',
+  'ussd.helpUnavailable':
+    'Help information temporarily unavailable. Please contact your cooperative directly.',
+  'ussd.menu.complaints': 'Complaints',
+  'ussd.complaints.file': 'File a complaint',
+  'ussd.complaints.mine': 'My complaints',
+  'ussd.complaints.noCooperative':
+    'You need to be a member of a cooperative to file complaints.',
+  'ussd.complaints.selectCategory': 'What is the complaint about?',
+  'ussd.complaints.selectPriority': 'How urgent is it?',
+  'ussd.complaints.enterDescription':
+    'Describe the problem (up to 160 characters):',
+  'ussd.complaints.descriptionTooShort': 'Description is too short.',
+  'ussd.complaints.descriptionTooLong': 'Description is too long.',
+  'ussd.complaints.filed':
+    'Complaint filed. Your cooperative will follow up.\nCheck its status under Complaints > My complaints.',
+  'ussd.complaints.failed':
+    'Unable to file your complaint. Please try again later.',
+  'ussd.complaints.selectComplaint': 'Your complaints:',
+  'ussd.complaints.none': 'You have no open complaints.',
+  'ussd.complaints.detail': '{title}\nStatus: {status}\n\n{resolution}',
+  'ussd.complaints.noResolution': 'Your cooperative has not responded yet.',
+  'ussd.complaints.unavailable':
+    'Complaints are temporarily unavailable. Please try again later.',
+
+  'ussd.register.welcome':
+    'Welcome to Copay! This number is not registered yet. Request an account below.',
+  'ussd.register.pending':
+    'Your account request for {cooperative} is still being reviewed. You will receive an SMS once it is processed.',
+  'ussd.register.enterCooperativeCode': 'Enter your cooperative code:',
+  'ussd.register.cooperativeNotFound': 'No cooperative found with this code.',
+  'ussd.register.enterName': 'Enter your full name:',
+  'ussd.register.invalidName': 'Please enter your first and last name.',
+  'ussd.register.enterRoom': 'Enter your room or unit number:',
+  'ussd.register.invalidRoom': 'Room number is too long.',
+  'ussd.register.summary':
+    'Account request:\nName: {name}\nCooperative: {cooperative}\nRoom: {room}\n\nSend the request?',
+  'ussd.register.cancelled': 'Account request cancelled.',
+  'ussd.register.submitted':
+    'Your account request for {cooperative} has been sent. You will receive an SMS once an administrator reviews it.',
+  'ussd.register.notSubmitted': 'Account request not sent: {reason}',
+  'ussd.register.failed':
+    'Unable to send your account request. Please try again later.',
+  'ussd.pinLocked':
+    'Too many wrong PINs. Try again in {minutes} minutes or reset your PIN under My PIN > Forgot PIN.',
+  'ussd.menu.pin': 'My PIN',
+  'ussd.pin.change': 'Change PIN',
+  'ussd.pin.forgot': 'Forgot PIN',
+  'ussd.pin.enterCurrent': 'Enter your current PIN:',
+  'ussd.pin.enterNew': 'Enter your new 4-digit PIN:',
+  'ussd.pin.confirmNew': 'Enter the new PIN again:',
+  'ussd.pin.mismatch': 'The PINs do not match.',
+  'ussd.pin.changed': 'Your PIN has been changed.',
+  'ussd.pin.changeFailed': 'Unable to change your PIN. Please try again later.',
+  'ussd.pin.resetCodeSent':
+    'We sent you a 6-digit code by SMS. It expires in 15 minutes.',
+  'ussd.pin.enterResetCode': 'Enter the code:',
+  'ussd.pin.invalidCodeFormat': 'The code has 6 digits.',
+  'ussd.pin.resetRejected':
+    'The code is wrong or has expired. Choose Forgot PIN to get a new one.',
+  'ussd.pin.resetDone': 'Your PIN has been reset.',
+  'ussd.pin.resetFailed': 'Unable to reset your PIN. Please try again later.',
+  // Complaints
+  'complaint.category.MAINTENANCE': 'Maintenance',
+  'complaint.category.WATER': 'Water',
+  'complaint.category.ELECTRICITY': 'Electricity',
+  'complaint.category.SECURITY': 'Security',
+  'complaint.category.PAYMENT': 'Payment',
+  'complaint.category.NEIGHBOURS': 'Neighbours',
+  'complaint.category.OTHER': 'Other',
+  'complaint.priority.LOW': 'Low',
+  'complaint.priority.MEDIUM': 'Medium',
+  'complaint.priority.HIGH': 'High',
+  'complaint.priority.URGENT': 'Urgent',
+  'complaint.status.OPEN': 'Open',
+  'complaint.status.IN_PROGRESS': 'In progress',
+  'complaint.status.RESOLVED': 'Resolved',
+  'complaint.status.CLOSED': 'Closed',
+
+  // Payment notifications
+  'payment.successTitle': 'Payment Successful! 🎉',
+  'payment.successMessage':
+    'Dear {name}, your payment of {amount} for {paymentType} has been successfully processed on {date}. Transaction ID: {transactionId}',
+  'payment.successSms':
+    'Dear {name}, greetings! Your payment of {amount} to {cooperative} has been successfully processed on {date}. Transaction ID: {transactionId}. Thank you for using COPAY.',
+  'payment.failedTitle': 'Payment Failed ❌',
+  'payment.failedMessage':
+    'Your payment of {amount} for {paymentType} could not be processed. Please try again or contact support if the issue persists.',
+  'payment.failedSms':
+    'COPAY: Payment failed. {amount} for {paymentType} could not be processed. Please try again.',
+  'payment.refundTitle': 'Payment Refunded',
+  'payment.fullRefundMessage':
+    'Dear {name}, a full refund of {amount} for {paymentType} has been sent back to your account.',
+  'payment.partialRefundMessage':
+    'Dear {name}, a partial refund of {amount} for {paymentType} has been sent back to your account.',
+  'payment.refundSms':
+    'COPAY: {amount} refunded for your payment to {cooperative}. It will reach your account shortly.',
+  'payment.expiredTitle': 'Payment Expired ⏰',
+  'payment.expiredMessage':
+    'Your payment of {amount} for {paymentType} has expired. Please initiate a new payment if you wish to proceed.',
+  'payment.expiredSms':
+    'COPAY: Your payment of {amount} for {paymentType} has expired after 30 minutes. Please initiate a new payment to proceed.',
+  'payment.defaultPaymentType': 'payment',
+  'payment.defaultCooperative': 'your cooperative',
+
+  // Payment reminders
+  'reminder.defaultPaymentType': 'Payment',
+  'reminder.amountText': ' (Amount: RWF {amount})',
+  'reminder.dueTitle': '{paymentType} Due Reminder',
+  'reminder.dueMessage':
+    'Your {paymentType} is due{amountText}. Please make your payment on time.',
+  'reminder.overdueTitle': '{paymentType} Overdue!',
+  'reminder.overdueMessage':
+    'Your {paymentType} is overdue{amountText}. Please pay immediately to avoid penalties.',
+  'reminder.upcomingTitle': '{paymentType} Due Soon',
+  'reminder.upcomingMessage':
+    "Your {paymentType} will be due soon{amountText}. Don't forget to make your payment.",
+  'reminder.defaultTitle': 'Payment Reminder',
+  'reminder.customMessage': "Don't forget about your {paymentType}",
+  'reminder.defaultMessage': 'You have a payment reminder: {title}',
+  'reminder.note': '\n\nNote: {notes}',
+
+  // SMS templates
+  'sms.pinReset':
+    'Your COPAY PIN reset code is: {pin}. This code expires in 15 minutes. Do not share this code with anyone.',
+  'sms.welcome':
+    'Welcome to COPAY, {name}! Your account has been successfully created. Thank you for joining our cooperative savings platform.',
+  'sms.transaction':
+    'COPAY Transaction: {type} of RWF {amount} has been processed successfully. Thank you for using COPAY.',
+  'sms.pinResetSuccess':
+    'Your COPAY PIN has been successfully reset. Your account is now secure with the new PIN. Contact support if you did not make this change.',
+  'sms.pinChanged':
+    'Your COPAY PIN has been changed. Contact support if you did not make this change.',
+
+  // SMS commands
+  'sms.command.replyTitle': 'COPAY reply',
+  'sms.command.help':
+    'COPAY: Reply BAL for your balance, PAY followed by a payment name to pay (e.g. PAY RENT), STOP to stop reminder SMS, START to get them again.',
+  'sms.command.unknown':
+    'COPAY: "{command}" is not a command. Reply HELP for the list.',
+  'sms.command.accountInactive':
+    'COPAY: Your account is not active. Please contact your cooperative administrator.',
+  'sms.command.noCooperative':
+    'COPAY: Your account is not linked to a cooperative. Please contact your cooperative administrator.',
+  'sms.command.balance':
+    'COPAY: You owe RWF {amount} to {cooperative}. Reply PAY followed by a payment name to pay.',
+  'sms.command.balanceClear':
+    'COPAY: You owe nothing to {cooperative}. Thank you!',
+  'sms.command.payTypes': 'COPAY: Reply PAY followed by one of: {types}',
+  'sms.command.payTypeNotFound':
+    'COPAY: No payment called "{type}". Reply PAY followed by one of: {types}',
+  'sms.command.noPaymentTypes':
+    'COPAY: {cooperative} has no payments open right now.',
+  'sms.command.payInitiated':
+    'COPAY: Payment of RWF {amount} for {type} started. Approve the mobile money prompt on your phone. Reference: {reference}',
+  'sms.command.payFailed':
+    'COPAY: The payment for {type} could not be started. Please try again later.',
+  'sms.command.payPending':
+    'COPAY: You already have a pending {type} payment. Approve it on your phone or wait for it to expire.',
+  'sms.command.stopped':
+    'COPAY: You will no longer get reminder SMS. Reply START to get them again.',
+  'sms.command.started':
+    'COPAY: Reminder SMS are on again. Reply STOP to turn them off.',
+
+  // Emails
+  'email.footer':
+    'You are receiving this email because you have a COPAY account with {cooperative}.',
+  'email.receipt.heading': 'Payment receipt',
+  'email.receipt.amount': 'Amount',
+  'email.receipt.paymentType': 'Payment',
+  'email.receipt.reference': 'Reference',
+  'email.receipt.date': 'Date',
+  'email.reminder.heading': 'Payment reminder',
+  'email.announcement.heading': 'Announcement',
+  'email.complaint.heading': 'Complaint update',
+  'email.complaint.subject': 'Subject',
+  'email.complaint.status': 'Status',
+  'email.digest.heading': 'Summary',
+
+  // Digests
+  'digest.title': 'Your COPAY summary',
+  'digest.reminders': 'You owe {items}.',
+  'digest.dueBy': '{items} by {date}',
+  'digest.announcements': 'New announcements: {titles}.',
+  'digest.and': 'and',
+} as const;
@@ -0,0 +1,253 @@
+import type { MessageKey } from '../messages';
+
+export const fr: Record<MessageKey, string> = {
+  // Common
+  'common.member': 'Membre',
+  'common.yes': 'Oui',
+  'common.no': 'Non',
+  'common.notAvailable': 'Non disponible',
+
+  // USSD
+  'ussd.serviceUnavailable':
+    'Service temporairement indisponible. Veuillez réessayer plus tard.',
+  'ussd.accountInactive':
+    'Votre compte n’est pas actif. Veuillez contacter l’administrateur de votre coopérative.',
+  'ussd.welcome': 'Bienvenue sur Copay, {name} !',
+  'ussd.menu.pay': 'Payer',
+  'ussd.menu.history': 'Mes paiements',
+  'ussd.menu.help': 'Aide',
+  'ussd.menu.language': 'Langue',
+  'ussd.nav.back': 'Retour',
+  'ussd.nav.home': 'Accueil',
+  'ussd.nav.more': 'Suite',
+  'ussd.selectLanguage': 'Choisissez votre langue :',
+  'ussd.languageUpdated': 'Langue mise à jour.',
+  'ussd.enterPin': 'Entrez votre code PIN à 4 chiffres :',
+  'ussd.invalidPinFormat': 'Format de PIN invalide.',
+  'ussd.userNotFound': 'Utilisateur introuvable. Session terminée.',
+  'ussd.incorrectPin': 'PIN incorrect. Il vous reste {attempts} essais.',
+  'ussd.invalidChoice': 'Choix invalide.',
+  'ussd.noCooperatives': 'Aucune coopérative active trouvée.',
+  'ussd.selectCooperative': 'Choisissez votre coopérative :',
+  'ussd.noPaymentTypes':
+    'Aucun type de paiement disponible pour votre coopérative.',
+  'ussd.selectPaymentType': 'Choisissez le type de paiement :',
+  'ussd.selectPaymentMethod':
+    'Type de paiement : {type}\nMontant : {amount} RWF\n\nChoisissez le moyen de paiement :',
+  'ussd.paymentSummary':
+    'Récapitulatif :\nType : {type}\nMontant : {amount} RWF\nMoyen : {method}\nTéléphone : {phone}\n\nConfirmer le paiement ?',
+  'ussd.paymentCancelled': 'Paiement annulé.',
+  'ussd.paymentInfoMissing':
+    'Informations de paiement introuvables. Veuillez réessayer.',
+  'ussd.paymentSuccessful':
+    '✅ Paiement réussi !\nType : {type}\nMontant : {amount} RWF\nMoyen : {method}\nRéférence : {reference}\n\nMerci d’utiliser Copay !',
+  'ussd.paymentInitiated':
+    '🚀 Paiement lancé !\nType : {type}\nMontant : {amount} RWF\nMoyen : {method}\nRéférence : {reference}\n\n',
+  'ussd.mobileMoneyPrompt':
+    'Vous allez recevoir une demande mobile money sur le {phone}.\nVeuillez valider le paiement sur votre téléphone.\n\n',
+  'ussd.bankPrompt':
+    'Veuillez vous rendre à la banque pour finaliser le paiement.\nRéférence du paiement : {reference}\n\n',
+  'ussd.thankYou': 'Merci d’utiliser Copay !',
+  'ussd.paymentFailed':
+    '❌ Échec du paiement\nType : {type}\nMontant : {amount} RWF\nRéférence : {reference}\n\nVeuillez réessayer plus tard ou contacter le support.\nSupport : +250788000000',
+  'ussd.paymentProcessingFailed':
+    '❌ Échec du traitement\n\nImpossible de traiter le paiement pour le moment.\nVeuillez réessayer plus tard ou contacter le support.\n\nSupport : +250788000000',
+  'ussd.noPaymentHistory': 'Aucun paiement trouvé.',
+  'ussd.prepaidBalance': 'Solde prépayé : {amount} RWF',
+  'ussd.recentPayments': 'Vos derniers paiements :',
+  'ussd.paymentHistoryLine':
+    '{index}. {type}\n   {amount} RWF - {status}\n   Date : {date}',
+  'ussd.paymentHistoryUnavailable':
+    'Impossible de récupérer l’historique des paiements. Veuillez réessayer plus tard.',
+  'ussd.help':
+    'Aide :\n\nPour le support technique, contactez :\nEmail : support@copay.rw\nTéléphone : +250788000000\n\nCopay - Payer en toute simplicité !',
+  'ussd.cooperativeHelp':
+    'Aide :\n\nVotre coopérative : {cooperative}\nTéléphone : {phone}\nEmail : {email}\n\nSupport technique :\nEmail : support@copay.rw\nTéléphone : +250788000000',
+  'ussd.helpUnavailable':
+    'Aide temporairement indisponible. Veuillez contacter directement votre coopérative.',
+  'ussd.menu.complaints': 'Plaintes',
+  'ussd.complaints.file': 'Déposer une plainte',
+  'ussd.complaints.mine': 'Mes plaintes',
+  'ussd.complaints.noCooperative':
+    'Vous devez être membre d’une coopérative pour déposer une plainte.',
+  'ussd.complaints.selectCategory': 'Quel est l’objet de la plainte ?',
+  'ussd.complaints.selectPriority': 'Quelle est l’urgence ?',
+  'ussd.complaints.enterDescription':
+    'Décrivez le problème (160 caractères max.) :',
+  'ussd.complaints.descriptionTooShort': 'Description trop courte.',
+  'ussd.complaints.descriptionTooLong': 'Description trop longue.',
+  'ussd.complaints.filed':
+    'Plainte enregistrée. Votre coopérative va la traiter.\nSuivez-la dans Plaintes > Mes plaintes.',
+  'ussd.complaints.failed':
+    'Impossible d’enregistrer votre plainte. Veuillez réessayer plus tard.',
+  'ussd.complaints.selectComplaint': 'Vos plaintes :',
+  'ussd.complaints.none': 'Vous n’avez aucune plainte ouverte.',
+  'ussd.complaints.detail': '{title}\nStatut : {status}\n\n{resolution}',
+  'ussd.complaints.noResolution': 'Votre coopérative n’a pas encore répondu.',
+  'ussd.complaints.unavailable':
+    'Plaintes temporairement indisponibles. Veuillez réessayer plus tard.',
+
+  'ussd.register.welcome':
+    'Bienvenue sur Copay ! Ce numéro n’est pas encore enregistré. Demandez un compte ci-dessous.',
+  'ussd.register.pending':
+    'Votre demande de compte pour {cooperative} est en cours d’examen. Vous recevrez un SMS une fois traitée.',
+  'ussd.register.enterCooperativeCode': 'Entrez le code de votre coopérative :',
+  'ussd.register.cooperativeNotFound':
+    'Aucune coopérative trouvée avec ce code.',
+  'ussd.register.enterName': 'Entrez votre nom complet :',
+  'ussd.register.invalidName': 'Veuillez entrer votre prénom et votre nom.',
+  'ussd.register.enterRoom': 'Entrez le numéro de votre chambre ou logement :',
+  'ussd.register.invalidRoom': 'Numéro de chambre trop long.',
+  'ussd.register.summary':
+    'Demande de compte :\nNom : {name}\nCoopérative : {cooperative}\nChambre : {room}\n\nEnvoyer la demande ?',
+  'ussd.register.cancelled': 'Demande de compte annulée.',
+  'ussd.register.submitted':
+    'Votre demande de compte pour {cooperative} a été envoyée. Vous recevrez un SMS après son examen par un administrateur.',
+  'ussd.register.notSubmitted': 'Demande non envoyée : {reason}',
+  'ussd.register.failed':
+    'Impossible d’envoyer votre demande. Veuillez réessayer plus tard.',
+  'ussd.pinLocked':
+    'Trop de PIN incorrects. Réessayez dans {minutes} minutes ou réinitialisez votre PIN dans Mon code PIN > PIN oublié.',
+  'ussd.menu.pin': 'Mon code PIN',
+  'ussd.pin.change': 'Changer le PIN',
+  'ussd.pin.forgot': 'PIN oublié',
+  'ussd.pin.enterCurrent': 'Entrez votre PIN actuel :',
+  'ussd.pin.enterNew': 'Entrez votre nouveau PIN à 4 chiffres :',
+  'ussd.pin.confirmNew': 'Entrez à nouveau le nouveau PIN :',
+  'ussd.pin.mismatch': 'Les PIN ne correspondent pas.',
+  'ussd.pin.changed': 'Votre PIN a été modifié.',
+  'ussd.pin.changeFailed':
+    'Impossible de modifier votre PIN. Veuillez réessayer plus tard.',
+  'ussd.pin.resetCodeSent':
+    'Nous vous avons envoyé un code à 6 chiffres par SMS. Il expire dans 15 minutes.',
+  'ussd.pin.enterResetCode': 'Entrez le code :',
+  'ussd.pin.invalidCodeFormat': 'Le code comporte 6 chiffres.',
+  'ussd.pin.resetRejected':
+    'Le code est incorrect ou a expiré. Choisissez PIN oublié pour en recevoir un nouveau.',
+  'ussd.pin.resetDone': 'Votre PIN a été réinitialisé.',
+  'ussd.pin.resetFailed':
+    'Impossible de réinitialiser votre PIN. Veuillez réessayer plus tard.',
+  // Complaints
+  'complaint.category.MAINTENANCE': 'Entretien',
+  'complaint.category.WATER': 'Eau',
+  'complaint.category.ELECTRICITY': 'Électricité',
+  'complaint.category.SECURITY': 'Sécurité',
+  'complaint.category.PAYMENT': 'Paiement',
+  'complaint.category.NEIGHBOURS': 'Voisinage',
+  'complaint.category.OTHER': 'Autre',
+  'complaint.priority.LOW': 'Faible',
+  'complaint.priority.MEDIUM': 'Moyenne',
+  'complaint.priority.HIGH': 'Élevée',
+  'complaint.priority.URGENT': 'Urgente',
+  'complaint.status.OPEN': 'Ouverte',
+  'complaint.status.IN_PROGRESS': 'En cours',
+  'complaint.status.RESOLVED': 'Résolue',
+  'complaint.status.CLOSED': 'Clôturée',
+
+  // Payment notifications
+  'payment.successTitle': 'Paiement réussi ! 🎉',
+  'payment.successMessage':
+    'Cher(e) {name}, votre paiement de {amount} pour {paymentType} a été traité avec succès le {date}. ID de transaction : {transactionId}',
+  'payment.successSms':
+    'Cher(e) {name}, bonjour ! Votre paiement de {amount} à {cooperative} a été traité avec succès le {date}. ID de transaction : {transactionId}. Merci d’utiliser COPAY.',
+  'payment.failedTitle': 'Échec du paiement ❌',
+  'payment.failedMessage':
+    'Votre paiement de {amount} pour {paymentType} n’a pas pu être traité. Veuillez réessayer ou contacter le support si le problème persiste.',
+  'payment.failedSms':
+    'COPAY : échec du paiement. {amount} pour {paymentType} n’a pas pu être traité. Veuillez réessayer.',
+  'payment.refundTitle': 'Paiement remboursé',
+  'payment.fullRefundMessage':
+    'Cher(e) {name}, un remboursement total de {amount} pour {paymentType} a été renvoyé sur votre compte.',
+  'payment.partialRefundMessage':
+    'Cher(e) {name}, un remboursement partiel de {amount} pour {paymentType} a été renvoyé sur votre compte.',
+  'payment.refundSms':
+    'COPAY : {amount} remboursés pour votre paiement à {cooperative}. Ils arriveront bientôt sur votre compte.',
+  'payment.expiredTitle': 'Paiement expiré ⏰',
+  'payment.expiredMessage':
+    'Votre paiement de {amount} pour {paymentType} a expiré. Veuillez lancer un nouveau paiement si vous souhaitez continuer.',
+  'payment.expiredSms':
+    'COPAY : votre paiement de {amount} pour {paymentType} a expiré après 30 minutes. Veuillez lancer un nouveau paiement.',
+  'payment.defaultPaymentType': 'paiement',
+  'payment.defaultCooperative': 'votre coopérative',
+
+  // Payment reminders
+  'reminder.defaultPaymentType': 'Paiement',
+  'reminder.amountText': ' (Montant : RWF {amount})',
+  'reminder.dueTitle': 'Rappel : {paymentType} à payer',
+  'reminder.dueMessage':
+    'Votre {paymentType} est à payer{amountText}. Merci de payer à temps.',
+  'reminder.overdueTitle': '{paymentType} en retard !',
+  'reminder.overdueMessage':
+    'Votre {paymentType} est en retard{amountText}. Veuillez payer immédiatement pour éviter des pénalités.',
+  'reminder.upcomingTitle': '{paymentType} bientôt à payer',
+  'reminder.upcomingMessage':
+    'Votre {paymentType} sera bientôt à payer{amountText}. N’oubliez pas d’effectuer votre paiement.',
+  'reminder.defaultTitle': 'Rappel de paiement',
+  'reminder.customMessage': 'N’oubliez pas votre {paymentType}',
+  'reminder.defaultMessage': 'Vous avez un rappel de paiement : {title}',
+  'reminder.note': '\n\nNote : {notes}',
+
+  // SMS templates
+  'sms.pinReset':
+    'Votre code de réinitialisation PIN COPAY est : {pin}. Il expire dans 15 minutes. Ne le partagez avec personne.',
+  'sms.welcome':
+    'Bienvenue sur COPAY, {name} ! Votre compte a été créé avec succès. Merci de rejoindre notre plateforme coopérative.',
+  'sms.transaction':
+    'Transaction COPAY : {type} de RWF {amount} traité avec succès. Merci d’utiliser COPAY.',
+  'sms.pinResetSuccess':
+    'Votre PIN COPAY a été réinitialisé avec succès. Contactez le support si vous n’êtes pas à l’origine de ce changement.',
+  'sms.pinChanged':
+    'Votre PIN COPAY a été modifié. Contactez le support si vous n’êtes pas à l’origine de ce changement.',
+
+  // SMS commands
+  'sms.command.replyTitle': 'Réponse COPAY',
+  'sms.command.help':
+    'COPAY : Répondez BAL pour votre solde, PAY suivi du nom d’un paiement pour payer (ex. PAY RENT), STOP pour ne plus recevoir les rappels par SMS, START pour les réactiver.',
+  'sms.command.unknown':
+    'COPAY : « {command} » n’est pas une commande. Répondez HELP pour la liste.',
+  'sms.command.accountInactive':
+    'COPAY : Votre compte n’est pas actif. Veuillez contacter l’administrateur de votre coopérative.',
+  'sms.command.noCooperative':
+    'COPAY : Votre compte n’est lié à aucune coopérative. Veuillez contacter l’administrateur de votre coopérative.',
+  'sms.command.balance':
+    'COPAY : Vous devez RWF {amount} à {cooperative}. Répondez PAY suivi du nom d’un paiement pour payer.',
+  'sms.command.balanceClear':
+    'COPAY : Vous ne devez rien à {cooperative}. Merci !',
+  'sms.command.payTypes': 'COPAY : Répondez PAY suivi de l’un de : {types}',
+  'sms.command.payTypeNotFound':
+    'COPAY : Aucun paiement nommé « {type} ». Répondez PAY suivi de l’un de : {types}',
+  'sms.command.noPaymentTypes':
+    'COPAY : {cooperative} n’a aucun paiement ouvert pour le moment.',
+  'sms.command.payInitiated':
+    'COPAY : Paiement de RWF {amount} pour {type} lancé. Validez la demande mobile money sur votre téléphone. Référence : {reference}',
+  'sms.command.payFailed':
+    'COPAY : Le paiement de {type} n’a pas pu être lancé. Veuillez réessayer plus tard.',
+  'sms.command.payPending':
+    'COPAY : Vous avez déjà un paiement {type} en attente. Validez-le sur votre téléphone ou attendez qu’il expire.',
+  'sms.command.stopped':
+    'COPAY : Vous ne recevrez plus de rappels par SMS. Répondez START pour les réactiver.',
+  'sms.command.started':
+    'COPAY : Les rappels par SMS sont réactivés. Répondez STOP pour les désactiver.',
+
+  // Emails
+  'email.footer':
+    'Vous recevez cet e-mail car vous avez un compte COPAY auprès de {cooperative}.',
+  'email.receipt.heading': 'Reçu de paiement',
+  'email.receipt.amount': 'Montant',
+  'email.receipt.paymentType': 'Paiement',
+  'email.receipt.reference': 'Référence',
+  'email.receipt.date': 'Date',
+  'email.reminder.heading': 'Rappel de paiement',
+  'email.announcement.heading': 'Annonce',
+  'email.complaint.heading': 'Suivi de votre plainte',
+  'email.complaint.subject': 'Objet',
+  'email.complaint.status': 'Statut',
+  'email.digest.heading': 'Récapitulatif',
+
+  // Digests
+  'digest.title': 'Votre récapitulatif COPAY',
+  'digest.reminders': 'Vous devez {items}.',
+  'digest.dueBy': '{items} avant le {date}',
+  'digest.announcements': 'Nouvelles annonces : {titles}.',
+  'digest.and': 'et',
+};
@@ -0,0 +1,253 @@
+import type { MessageKey } from '../messages';
+
+export const rw: Record<MessageKey, string> = {
+  // Common
+  'common.member': 'Munyamuryango',
+  'common.yes': 'Yego',
+  'common.no': 'Oya',
+  'common.notAvailable': 'Ntibiboneka',
+
+  // USSD
+  'ussd.serviceUnavailable':
+    'Serivisi ntiboneka by’agateganyo. Mwongere mugerageze nyuma.',
+  'ussd.accountInactive':
+    'Konti yanyu ntikora. Mwegere umuyobozi wa koperative yanyu.',
+  'ussd.welcome': 'Murakaza neza kuri Copay, {name}!',
+  'ussd.menu.pay': 'Kwishyura',
+  'ussd.menu.history': 'Ubwishyu bwanjye',
+  'ussd.menu.help': 'Ubufasha',
+  'ussd.menu.language': 'Ururimi',
+  'ussd.nav.back': 'Gusubira inyuma',
+  'ussd.nav.home': 'Ahabanza',
+  'ussd.nav.more': 'Ibindi',
+  'ussd.selectLanguage': 'Hitamo ururimi:',
+  'ussd.languageUpdated': 'Ururimi rwahinduwe.',
+  'ussd.enterPin': 'Andika PIN yawe y’imibare 4:',
+  'ussd.invalidPinFormat': 'PIN ntiyanditse neza.',
+  'ussd.userNotFound': 'Ukoresha ntabonetse. Igikorwa kirangiye.',
+  'ussd.incorrectPin': 'PIN si yo. Usigaje amahirwe {attempts}.',
+  'ussd.invalidChoice': 'Ibyo wahisemo ntibyemewe.',
+  'ussd.noCooperatives': 'Nta koperative ikora yabonetse.',
+  'ussd.selectCooperative': 'Hitamo koperative yawe:',
+  'ussd.noPaymentTypes':
+    'Nta bwoko bw’ubwishyu buboneka muri koperative yanyu.',
+  'ussd.selectPaymentType': 'Hitamo icyo wishyura:',
+  'ussd.selectPaymentMethod':
+    'Icyo wishyura: {type}\nAmafaranga: {amount} RWF\n\nHitamo uburyo bwo kwishyura:',
+  'ussd.paymentSummary':
+    'Incamake y’ubwishyu:\nIcyo wishyura: {type}\nAmafaranga: {amount} RWF\nUburyo: {method}\nTelefoni: {phone}\n\nEmeza kwishyura?',
+  'ussd.paymentCancelled': 'Kwishyura byahagaritswe.',
+  'ussd.paymentInfoMissing':
+    'Amakuru y’ubwishyu ntiyabonetse. Ongera ugerageze.',
+  'ussd.paymentSuccessful':
+    '✅ Kwishyura byagenze neza!\nIcyo wishyuye: {type}\nAmafaranga: {amount} RWF\nUburyo: {method}\nNomero y’ubwishyu: {reference}\n\nMurakoze gukoresha Copay!',
+  'ussd.paymentInitiated':
+    '🚀 Kwishyura byatangiye!\nIcyo wishyura: {type}\nAmafaranga: {amount} RWF\nUburyo: {method}\nNomero y’ubwishyu: {reference}\n\n',
+  'ussd.mobileMoneyPrompt':
+    'Mu kanya uraza kubona ubutumwa bwa mobile money kuri {phone}.\nEmeza kwishyura kuri telefoni yawe.\n\n',
+  'ussd.bankPrompt':
+    'Jya kuri banki kurangiza kwishyura.\nNomero y’ubwishyu: {reference}\n\n',
+  'ussd.thankYou': 'Murakoze gukoresha Copay!',
+  'ussd.paymentFailed':
+    '❌ Kwishyura byanze\nIcyo wishyura: {type}\nAmafaranga: {amount} RWF\nNomero y’ubwishyu: {reference}\n\nOngera ugerageze nyuma cyangwa uhamagare ubufasha.\nUbufasha: +250788000000',
+  'ussd.paymentProcessingFailed':
+    '❌ Kwishyura ntibyakunze\n\nNtibishobotse kwishyura ubu.\nOngera ugerageze nyuma cyangwa uhamagare ubufasha.\n\nUbufasha: +250788000000',
+  'ussd.noPaymentHistory': 'Nta bwishyu bwabonetse.',
+  'ussd.prepaidBalance': 'Amafaranga wishyuye mbere: {amount} RWF',
+  'ussd.recentPayments': 'Ubwishyu bwawe buheruka:',
+  'ussd.paymentHistoryLine':
+    '{index}. {type}\n   {amount} RWF - {status}\n   Itariki: {date}',
+  'ussd.paymentHistoryUnavailable':
+    'Ntibishobotse kubona amateka y’ubwishyu. Ongera ugerageze nyuma.',
+  'ussd.help':
+    'Ubufasha:\n\nKu bibazo bya tekiniki, twandikire cyangwa uduhamagare:\nImeri: support@copay.rw\nTelefoni: +250788000000\n\nCopay - Kwishyura byoroshye!',
+  'ussd.cooperativeHelp':
+    'Ubufasha:\n\nKoperative yawe: {cooperative}\nTelefoni: {phone}\nImeri: {email}\n\nKu bibazo bya tekiniki:\nImeri: support@copay.rw\nTelefoni: +250788000000',
+  'ussd.helpUnavailable':
+    'Amakuru y’ubufasha ntaboneka by’agateganyo. Mwegere koperative yanyu.',
+  'ussd.menu.complaints': 'Ibibazo',
+  'ussd.complaints.file': 'Gutanga ikibazo',
+  'ussd.complaints.mine': 'Ibibazo byanjye',
+  'ussd.complaints.noCooperative':
+    'Ugomba kuba umunyamuryango wa koperative kugira ngo utange ikibazo.',
+  'ussd.complaints.selectCategory': 'Ikibazo kijyanye n’iki?',
+  'ussd.complaints.selectPriority': 'Cyihutirwa gute?',
+  'ussd.complaints.enterDescription':
+    'Sobanura ikibazo (inyuguti 160 ntarengwa):',
+  'ussd.complaints.descriptionTooShort': 'Ibisobanuro ni bigufi cyane.',
+  'ussd.complaints.descriptionTooLong': 'Ibisobanuro ni birebire cyane.',
+  'ussd.complaints.filed':
+    'Ikibazo cyawe cyakiriwe. Koperative yawe izagikurikirana.\nReba aho kigeze muri Ibibazo > Ibibazo byanjye.',
+  'ussd.complaints.failed':
+    'Ntibishobotse kohereza ikibazo cyawe. Ongera ugerageze nyuma.',
+  'ussd.complaints.selectComplaint': 'Ibibazo byawe:',
+  'ussd.complaints.none': 'Nta kibazo gifunguye ufite.',
+  'ussd.complaints.detail': '{title}\nAho kigeze: {status}\n\n{resolution}',
+  'ussd.complaints.noResolution': 'Koperative yawe ntirasubiza.',
+  'ussd.complaints.unavailable':
+    'Ibibazo ntibiboneka by’agateganyo. Ongera ugerageze nyuma.',
+
+  'ussd.register.welcome':
+    'Murakaza neza kuri Copay! Iyi nimero ntiyanditse. Saba konti hano.',
+  'ussd.register.pending':
+    'Ubusabe bwawe bwa konti muri {cooperative} buracyasuzumwa. Uzabona SMS nibumara gusuzumwa.',
+  'ussd.register.enterCooperativeCode': 'Andika kode ya koperative yawe:',
+  'ussd.register.cooperativeNotFound':
+    'Nta koperative ifite iyi kode yabonetse.',
+  'ussd.register.enterName': 'Andika amazina yawe yombi:',
+  'ussd.register.invalidName': 'Andika izina ryawe n’irindi zina.',
+  'ussd.register.enterRoom': 'Andika nomero y’icyumba cyawe:',
+  'ussd.register.invalidRoom': 'Nomero y’icyumba ni ndende cyane.',
+  'ussd.register.summary':
+    'Gusaba konti:\nAmazina: {name}\nKoperative: {cooperative}\nIcyumba: {room}\n\nOhereza ubusabe?',
+  'ussd.register.cancelled': 'Gusaba konti byahagaritswe.',
+  'ussd.register.submitted':
+    'Ubusabe bwawe bwa konti muri {cooperative} bwoherejwe. Uzabona SMS umuyobozi namara kubusuzuma.',
+  'ussd.register.notSubmitted': 'Ubusabe ntibwoherejwe: {reason}',
+  'ussd.register.failed':
+    'Ntibishobotse kohereza ubusabe bwawe. Ongera ugerageze nyuma.',
+  'ussd.pinLocked':
+    'Mwanditse PIN itari yo inshuro nyinshi. Ongera ugerageze nyuma y’iminota {minutes} cyangwa uhindure PIN muri PIN yanjye > Nibagiwe PIN.',
+  'ussd.menu.pin': 'PIN yanjye',
+  'ussd.pin.change': 'Guhindura PIN',
+  'ussd.pin.forgot': 'Nibagiwe PIN',
+  'ussd.pin.enterCurrent': 'Andika PIN yawe isanzwe:',
+  'ussd.pin.enterNew': 'Andika PIN nshya y’imibare 4:',
+  'ussd.pin.confirmNew': 'Ongera wandike PIN nshya:',
+  'ussd.pin.mismatch': 'PIN ntizihura.',
+  'ussd.pin.changed': 'PIN yawe yahinduwe.',
+  'ussd.pin.changeFailed':
+    'Ntibishobotse guhindura PIN yawe. Ongera ugerageze nyuma.',
+  'ussd.pin.resetCodeSent':
+    'Twakoherereje kode y’imibare 6 kuri SMS. Irarangira mu minota 15.',
+  'ussd.pin.enterResetCode': 'Andika kode:',
+  'ussd.pin.invalidCodeFormat': 'Kode igizwe n’imibare 6.',
+  'ussd.pin.resetRejected':
+    'Kode si yo cyangwa yararangiye. Hitamo Nibagiwe PIN ubone indi.',
+  'ussd.pin.resetDone': 'PIN yawe yasubiwemo.',
+  'ussd.pin.resetFailed':
+    'Ntibishobotse gusubiramo PIN yawe. Ongera ugerageze nyuma.',
+  // Complaints
+  'complaint.category.MAINTENANCE': 'Gusana',
+  'complaint.category.WATER': 'Amazi',
+  'complaint.category.ELECTRICITY': 'Amashanyarazi',
+  'complaint.category.SECURITY': 'Umutekano',
+  'complaint.category.PAYMENT': 'Kwishyura',
+  'complaint.category.NEIGHBOURS': 'Abaturanyi',
+  'complaint.category.OTHER': 'Ibindi',
+  'complaint.priority.LOW': 'Gito',
+  'complaint.priority.MEDIUM': 'Giciriritse',
+  'complaint.priority.HIGH': 'Gikomeye',
+  'complaint.priority.URGENT': 'Cyihutirwa',
+  'complaint.status.OPEN': 'Cyakiriwe',
+  'complaint.status.IN_PROGRESS': 'Kiri gukurikiranwa',
+  'complaint.status.RESOLVED': 'Cyakemutse',
+  'complaint.status.CLOSED': 'Cyafunzwe',
+
+  // Payment notifications
+  'payment.successTitle': 'Kwishyura byagenze neza! 🎉',
+  'payment.successMessage':
+    '{name}, ubwishyu bwawe bwa {amount} bwa {paymentType} bwakiriwe neza ku wa {date}. Nomero y’igikorwa: {transactionId}',
+  'payment.successSms':
+    'Muraho {name}! Ubwishyu bwanyu bwa {amount} kuri {cooperative} bwakiriwe neza ku wa {date}. Nomero y’igikorwa: {transactionId}. Murakoze gukoresha COPAY.',
+  'payment.failedTitle': 'Kwishyura byanze ❌',
+  'payment.failedMessage':
+    'Ubwishyu bwawe bwa {amount} bwa {paymentType} ntibwakunze. Ongera ugerageze cyangwa uhamagare ubufasha niba bikomeje.',
+  'payment.failedSms':
+    'COPAY: Kwishyura byanze. {amount} bya {paymentType} ntibyakunze. Ongera ugerageze.',
+  'payment.refundTitle': 'Amafaranga yagarujwe',
+  'payment.fullRefundMessage':
+    '{name}, amafaranga yose {amount} ya {paymentType} yasubijwe kuri konti yawe.',
+  'payment.partialRefundMessage':
+    '{name}, igice cy’amafaranga {amount} ya {paymentType} cyasubijwe kuri konti yawe.',
+  'payment.refundSms':
+    'COPAY: {amount} by’ubwishyu bwanyu kuri {cooperative} byasubijwe. Birabageraho mu kanya.',
+  'payment.expiredTitle': 'Igihe cyo kwishyura cyarangiye ⏰',
+  'payment.expiredMessage':
+    'Igihe cyo kwishyura {amount} bya {paymentType} cyarangiye. Tangira ubundi bwishyu niba ushaka gukomeza.',
+  'payment.expiredSms':
+    'COPAY: Kwishyura {amount} bya {paymentType} byarangiye nyuma y’iminota 30. Tangira ubundi bwishyu kugira ngo ukomeze.',
+  'payment.defaultPaymentType': 'ubwishyu',
+  'payment.defaultCooperative': 'koperative yanyu',
+
+  // Payment reminders
+  'reminder.defaultPaymentType': 'Ubwishyu',
+  'reminder.amountText': ' (Amafaranga: RWF {amount})',
+  'reminder.dueTitle': 'Kwibutsa: {paymentType} igeze igihe',
+  'reminder.dueMessage':
+    '{paymentType} yawe igeze igihe cyo kwishyurwa{amountText}. Wishyure ku gihe.',
+  'reminder.overdueTitle': '{paymentType} yarengeje igihe!',
+  'reminder.overdueMessage':
+    '{paymentType} yawe yarengeje igihe{amountText}. Wishyure vuba kugira ngo wirinde ibihano.',
+  'reminder.upcomingTitle': '{paymentType} iregereje',
+  'reminder.upcomingMessage':
+    '{paymentType} yawe izagera vuba igihe cyo kwishyurwa{amountText}. Ntuzibagirwe kwishyura.',
+  'reminder.defaultTitle': 'Kwibutsa kwishyura',
+  'reminder.customMessage': 'Ntuzibagirwe {paymentType} yawe',
+  'reminder.defaultMessage': 'Ufite ubutumwa bwo kwibutsa kwishyura: {title}',
+  'reminder.note': '\n\nIcyitonderwa: {notes}',
+
+  // SMS templates
+  'sms.pinReset':
+    'Kode yo guhindura PIN yawe ya COPAY ni: {pin}. Irarangira mu minota 15. Ntuyihe undi muntu.',
+  'sms.welcome':
+    'Murakaza neza kuri COPAY, {name}! Konti yanyu yafunguwe neza. Murakoze kwifatanya natwe.',
+  'sms.transaction':
+    'COPAY: {type} ya RWF {amount} yakozwe neza. Murakoze gukoresha COPAY.',
+  'sms.pinResetSuccess':
+    'PIN yanyu ya COPAY yahinduwe neza. Niba atari mwe mwabikoze, muhamagare ubufasha.',
+  'sms.pinChanged':
+    'PIN yanyu ya COPAY yahinduwe. Niba atari mwe mwabikoze, muhamagare ubufasha.',
+
+  // SMS commands
+  'sms.command.replyTitle': 'Igisubizo cya COPAY',
+  'sms.command.help':
+    "COPAY: Subiza BAL umenye ideni ryawe, PAY ukurikijeho izina ry'ubwishyu kugira ngo wishyure (urugero PAY RENT), STOP uhagarike ubutumwa bwibutsa, START ubusubizeho.",
+  'sms.command.unknown':
+    'COPAY: "{command}" si itegeko rizwi. Subiza HELP ubone urutonde.',
+  'sms.command.accountInactive':
+    'COPAY: Konti yanyu ntikora. Mwegere umuyobozi wa koperative yanyu.',
+  'sms.command.noCooperative':
+    'COPAY: Konti yanyu ntiri muri koperative. Mwegere umuyobozi wa koperative yanyu.',
+  'sms.command.balance':
+    "COPAY: Urimo {cooperative} RWF {amount}. Subiza PAY ukurikijeho izina ry'ubwishyu kugira ngo wishyure.",
+  'sms.command.balanceClear':
+    'COPAY: Nta deni ufitiye {cooperative}. Murakoze!',
+  'sms.command.payTypes':
+    'COPAY: Subiza PAY ukurikijeho kimwe muri ibi: {types}',
+  'sms.command.payTypeNotFound':
+    'COPAY: Nta bwishyu bwitwa "{type}". Subiza PAY ukurikijeho kimwe muri ibi: {types}',
+  'sms.command.noPaymentTypes': 'COPAY: {cooperative} nta bwishyu ifite ubu.',
+  'sms.command.payInitiated':
+    'COPAY: Kwishyura RWF {amount} bya {type} byatangiye. Emeza ubutumwa bwa mobile money kuri telefoni yawe. Nimero: {reference}',
+  'sms.command.payFailed':
+    'COPAY: Kwishyura {type} ntibyashobotse. Ongera ugerageze nyuma.',
+  'sms.command.payPending':
+    'COPAY: Usanzwe ufite ubwishyu bwa {type} butegereje. Bwemeze kuri telefoni yawe cyangwa utegereze ko burangira.',
+  'sms.command.stopped':
+    'COPAY: Ntuzongera kubona ubutumwa bwibutsa. Subiza START kugira ngo ubusubizeho.',
+  'sms.command.started':
+    'COPAY: Ubutumwa bwibutsa bwasubijweho. Subiza STOP kugira ngo ubuhagarike.',
+
+  // Emails
+  'email.footer':
+    'Wakiriye iyi imeli kuko ufite konti ya COPAY muri {cooperative}.',
+  'email.receipt.heading': 'Inyemezabwishyu',
+  'email.receipt.amount': 'Amafaranga',
+  'email.receipt.paymentType': 'Ubwishyu',
+  'email.receipt.reference': 'Nimero',
+  'email.receipt.date': 'Itariki',
+  'email.reminder.heading': 'Kwibutsa kwishyura',
+  'email.announcement.heading': 'Itangazo',
+  'email.complaint.heading': 'Amakuru ku kirego',
+  'email.complaint.subject': 'Ikibazo',
+  'email.complaint.status': 'Uko gihagaze',
+  'email.digest.heading': 'Incamake',
+
+  // Digests
+  'digest.title': 'Incamake ya COPAY',
+  'digest.reminders': 'Ugomba kwishyura {items}.',
+  'digest.dueBy': '{items} bitarenze {date}',
+  'digest.announcements': 'Amatangazo mashya: {titles}.',
+  'digest.and': 'na',
+};
@@ -0,0 +1,54 @@
+import { Language } from '@prisma/client';
+import { en } from './locales/en';
+import { rw } from './locales/rw';
+import { fr } from './locales/fr';
+
+export type MessageKey = keyof typeof en;
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Language used when a user has not picked one. Most tenants read
+ * Kinyarwanda more comfortably than English
+ */
+export const DEFAULT_LANGUAGE: Language = Language.RW;
+
+const CATALOGUE: Record<Language, Record<MessageKey, string>> = {
+  [Language.RW]: rw,
+  [Language.EN]: en,
+  [Language.FR]: fr,
+};
+
+// Locales for dates and amounts in messages
+const LOCALES: Record<Language, string> = {
+  [Language.RW]: 'rw-RW',
+  [Language.EN]: 'en-RW',
+  [Language.FR]: 'fr-RW',
+};
+
+/**
+ * Message in the given language with {placeholders} filled in
+ */
+export function translate(
+  language: Language | null | undefined,
+  key: MessageKey,
+  params: MessageParams = {},
+): string {
+  return fillPlaceholders(CATALOGUE[language ?? DEFAULT_LANGUAGE][key], params);
+}
+
+/**
+ * Template with {placeholders} filled in, unknown ones are left as they are
+ */
+export function fillPlaceholders(
+  template: string,
+  params: MessageParams = {},
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  );
+}
+
+export function getLocale(language: Language | null | undefined): string {
+  return LOCALES[language ?? DEFAULT_LANGUAGE];
+}